@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback, useRef } from "react";
+import { useState, useEffect, useCallback, useRef, useMemo } from "react";
 import { ReactQueryDevtools } from "@tanstack/react-query-devtools";
 import { CardGrid } from "@/components/CardGrid/CardGrid";
 import { Sidebar } from "@/components/Sidebar/Sidebar";
@@ -16,18 +16,24 @@ import { EditModeIndicator } from "@/components/EditModeIndicator";
 import { CollectionInfoBar } from "@/components/Statistics";
 import { ConfirmDialog } from "@/components/ConfirmDialog";
 import { Toast } from "@/components/Toast";
+import { AchievementsGallery, AchievementToast } from "@/components/Achievements";
 import { ConfigProvider } from "@/context/ConfigContext";
 import { SettingsProvider } from "@/context/SettingsContext";
 import { MotionProvider } from "@/context/MotionContext";
 import { CollectionDataProvider } from "@/context/CollectionDataContext";
 import { MechanicProvider } from "@/mechanics";
+import { parseChallengeParams, type GameChallenge } from "@/mechanics/shared/utils";
 import { useTheme } from "@/hooks/useTheme";
 import { useVisualTheme } from "@/hooks/useVisualTheme";
 import { useAdminModeShortcut, useGlobalKeyboard } from "@/hooks/useGlobalKeyboard";
 import { useUrlCollection, clearUrlPath } from "@/hooks/useUrlCollection";
 import { useSettingsStore } from "@/stores/settingsStore";
-import { useSourceStore } from "@/stores/sourceStore";
-import { ACTION_SHORTCUTS } from "@/config/keyboardShortcuts";
+import { useEditsStore } from "@/stores/editsStore";
+import { describeEditOperation } from "@/utils/editHistory";
+import { useSourceStore, useActiveSourceUrl } from "@/stores/sourceStore";
+import { getSourceTierList, useTierListStore } from "@/stores/tierListStore";
+import { parseTierListParams, type TierRow } from "@/utils/tierList";
+import { ACTION_SHORTCUTS, SAVED_VIEW_SHORTCUT_KEYS } from "@/config/keyboardShortcuts";
 import "@/styles/themes";
 import styles from "./App.module.css";
 
@@ -44,11 +50,13 @@ function AppContentWithMechanicPanel({ mechanicPanelOpen, setMechanicPanelOpen }
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [settingsOpen, setSettingsOpen] = useState(false);
   const [helpOpen, setHelpOpen] = useState(false);
+  const [achievementsOpen, setAchievementsOpen] = useState(false);
   const [viewPopoverOpen, setViewPopoverOpen] = useState(false);
   const [devtoolsEnabled, setDevtoolsEnabled] = useState(false);
   const [loadingComplete, setLoadingComplete] = useState(false);
   const [showReloadDialog, setShowReloadDialog] = useState(false);
   const [resetToastVisible, setResetToastVisible] = useState(false);
+  const [editHistoryToast, setEditHistoryToast] = useState<string | null>(null);
 
   // URL-based collection loading
   const urlCollection = useUrlCollection();
@@ -57,6 +65,23 @@ function AppContentWithMechanicPanel({ mechanicPanelOpen, setMechanicPanelOpen }
   const setActiveSource = useSourceStore((s) => s.setActiveSource);
   const activeSourceId = useSourceStore((s) => s.activeSourceId);
 
+  // Shared challenge link: read before the URL is cleared, opened in the
+  // Games panel once the collection has loaded
+  const [urlChallenge, setUrlChallenge] = useState<GameChallenge | null>(() =>
+    typeof window === "undefined"
+      ? null
+      : parseChallengeParams(new URLSearchParams(window.location.search))
+  );
+
+  // Shared tier list link: read before the URL is cleared, imported into
+  // the collection's tier list once it has loaded
+  const [urlTierList, setUrlTierList] = useState<TierRow[] | null>(() =>
+    typeof window === "undefined"
+      ? null
+      : parseTierListParams(new URLSearchParams(window.location.search))
+  );
+  const [tierListToastVisible, setTierListToastVisible] = useState(false);
+
   // Collection picker state (F-087)
   // Skip picker if URL specifies direct load
   const [pickerDismissed, setPickerDismissed] = useState(false);
@@ -114,6 +139,37 @@ function AppContentWithMechanicPanel({ mechanicPanelOpen, setMechanicPanelOpen }
     setLoadingComplete(true);
   }, []);
 
+  // Open the Games panel for a challenge link once cards are available
+  useEffect(() => {
+    if (loadingComplete && urlChallenge) {
+      setMechanicPanelOpen(true);
+    }
+  }, [loadingComplete, urlChallenge, setMechanicPanelOpen]);
+
+  const handleChallengeOpened = useCallback(() => {
+    setUrlChallenge(null);
+  }, []);
+
+  // Import a shared tier list once the collection it belongs to has loaded,
+  // asking first if it would replace cards already placed
+  const activeSourceUrl = useActiveSourceUrl();
+  const importTierList = useTierListStore((s) => s.importTierList);
+  useEffect(() => {
+    if (!loadingComplete || !urlTierList || !activeSourceUrl) return;
+    setUrlTierList(null);
+
+    const { rows } = getSourceTierList(useTierListStore.getState().tierLists, activeSourceUrl);
+    const hasPlacements = rows.some((row) => row.cardIds.length > 0);
+    if (
+      hasPlacements &&
+      !window.confirm("Replace your tier list for this collection with the shared one?")
+    ) {
+      return;
+    }
+    importTierList(activeSourceUrl, urlTierList);
+    setTierListToastVisible(true);
+  }, [loadingComplete, urlTierList, activeSourceUrl, importTierList]);
+
   // Settings from store
   const visualTheme = useSettingsStore((state) => state.visualTheme);
   const themeCustomisations = useSettingsStore((state) => state.themeCustomisations);
@@ -205,6 +261,42 @@ function AppContentWithMechanicPanel({ mechanicPanelOpen, setMechanicPanelOpen }
     setShowReloadDialog(false);
   }, []);
 
+  // Saved views (sidebar, Ctrl+B; Alt+1-9 applies the first nine)
+  const savedViews = useSettingsStore((state) => state.savedViews);
+  const applySavedView = useSettingsStore((state) => state.applySavedView);
+
+  const handleSavedViewsToggle = useCallback(() => {
+    setSidebarOpen((prev) => !prev);
+  }, []);
+
+  const savedViewShortcuts = useMemo(() => {
+    const views = Object.hasOwn(savedViews, activeSourceUrl)
+      ? savedViews[activeSourceUrl] ?? []
+      : [];
+    return views.slice(0, SAVED_VIEW_SHORTCUT_KEYS.length).map((view, index) => ({
+      key: SAVED_VIEW_SHORTCUT_KEYS[index] ?? "",
+      alt: true,
+      handler: () => {
+        applySavedView(activeSourceUrl, view.id);
+      },
+      preventDefault: true,
+    }));
+  }, [savedViews, activeSourceUrl, applySavedView]);
+
+  // Undo/redo of local edits (Ctrl+Z / Ctrl+Shift+Z)
+  const undoEdit = useEditsStore((state) => state.undo);
+  const redoEdit = useEditsStore((state) => state.redo);
+
+  const handleUndo = useCallback(() => {
+    const operation = undoEdit();
+    setEditHistoryToast(operation ? `Undone: ${describeEditOperation(operation)}` : "Nothing to undo");
+  }, [undoEdit]);
+
+  const handleRedo = useCallback(() => {
+    const operation = redoEdit();
+    setEditHistoryToast(operation ? `Redone: ${describeEditOperation(operation)}` : "Nothing to redo");
+  }, [redoEdit]);
+
   useAdminModeShortcut(handleSettingsToggle);
 
   // Additional keyboard shortcuts using centralised config
@@ -236,6 +328,26 @@ function AppContentWithMechanicPanel({ mechanicPanelOpen, setMechanicPanelOpen }
         handler: handleEditModeToggle,
         preventDefault: true,
       },
+      {
+        key: ACTION_SHORTCUTS.savedViews.key,
+        ctrl: ACTION_SHORTCUTS.savedViews.ctrl,
+        handler: handleSavedViewsToggle,
+        preventDefault: true,
+      },
+      {
+        key: ACTION_SHORTCUTS.undo.key,
+        ctrl: ACTION_SHORTCUTS.undo.ctrl,
+        handler: handleUndo,
+        preventDefault: true,
+      },
+      {
+        key: ACTION_SHORTCUTS.redo.key,
+        ctrl: ACTION_SHORTCUTS.redo.ctrl,
+        shift: ACTION_SHORTCUTS.redo.shift,
+        handler: handleRedo,
+        preventDefault: true,
+      },
+      ...savedViewShortcuts,
     ],
   });
 
@@ -374,6 +486,8 @@ function AppContentWithMechanicPanel({ mechanicPanelOpen, setMechanicPanelOpen }
           onGamesClick={() => { setMechanicPanelOpen(true); }}
           onSettingsClick={handleSettingsOpen}
           onViewClick={handleViewClick}
+          onSavedViewsClick={handleSavedViewsToggle}
+          onAchievementsClick={() => { setAchievementsOpen(true); }}
           disabled={!searchBarMinimised}
           showHelpButton={showHelpButton}
           showSettingsButton={showSettingsButton}
@@ -397,10 +511,18 @@ function AppContentWithMechanicPanel({ mechanicPanelOpen, setMechanicPanelOpen }
         onClose={() => { setHelpOpen(false); }}
       />
 
+      {/* Achievements gallery */}
+      <AchievementsGallery
+        isOpen={achievementsOpen}
+        onClose={() => { setAchievementsOpen(false); }}
+      />
+
       {/* Mechanic panel */}
       <MechanicPanel
         isOpen={mechanicPanelOpen}
         onClose={() => { setMechanicPanelOpen(false); }}
+        challenge={urlChallenge}
+        onChallengeOpened={handleChallengeOpened}
       />
 
       {/* View popover */}
@@ -435,6 +557,25 @@ function AppContentWithMechanicPanel({ mechanicPanelOpen, setMechanicPanelOpen }
         onHide={() => { setResetToastVisible(false); }}
         type="success"
       />
+
+      {/* Shared tier list toast */}
+      <Toast
+        message="Shared tier list loaded. Open Tier List in Games or group by Tier to see it."
+        visible={tierListToastVisible}
+        onHide={() => { setTierListToastVisible(false); }}
+        type="success"
+      />
+
+      {/* Achievement unlock toast */}
+      <AchievementToast />
+
+      {/* Undo/redo confirmation toast */}
+      <Toast
+        message={editHistoryToast ?? ""}
+        visible={editHistoryToast !== null}
+        onHide={() => { setEditHistoryToast(null); }}
+        type="info"
+      />
     </div>
   );
 }
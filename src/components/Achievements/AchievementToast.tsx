@@ -0,0 +1,41 @@
+/**
+ * Achievement unlock toast.
+ *
+ * Announces newly earned achievements one at a time, in the order they
+ * were earned.
+ */
+
+import { useCallback } from "react";
+import { Toast } from "@/components/Toast";
+import { getAchievementKey, useAchievementsStore } from "@/stores/achievementsStore";
+
+/**
+ * Toast for the oldest unannounced achievement.
+ *
+ * @example
+ * ```tsx
+ * <AchievementToast />
+ * ```
+ */
+export function AchievementToast() {
+  const next = useAchievementsStore((s) => s.unlocked[0] ?? null);
+  const dismissUnlocked = useAchievementsStore((s) => s.dismissUnlocked);
+
+  const handleHide = useCallback(() => {
+    dismissUnlocked();
+  }, [dismissUnlocked]);
+
+  return (
+    <Toast
+      // Remount per achievement so each gets its own display time
+      key={next ? getAchievementKey(next.mechanicId, next.definition.id) : "none"}
+      message={next ? `Achievement unlocked: ${next.definition.name}` : ""}
+      visible={next !== null}
+      onHide={handleHide}
+      duration={3000}
+      type="success"
+    />
+  );
+}
+
+export default AchievementToast;
@@ -0,0 +1,140 @@
+/**
+ * Achievements gallery.
+ *
+ * Lists every mechanic's achievements, earned or still locked, with the
+ * date each was earned. Opened from the navigation hub.
+ */
+
+import { useEffect, useMemo, useState } from "react";
+import { Modal } from "@/components/Modal";
+import { mechanicRegistry, type Mechanic } from "@/mechanics";
+import { getEarnedAt, useAchievementsStore } from "@/stores/achievementsStore";
+import styles from "./Achievements.module.css";
+
+/**
+ * Trophy icon for earned achievements.
+ */
+function TrophyIcon() {
+  return (
+    <svg
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      aria-hidden="true"
+    >
+      <path d="M8 21h8" />
+      <path d="M12 17v4" />
+      <path d="M7 4h10v5a5 5 0 0 1-10 0V4z" />
+      <path d="M17 5h3v2a3 3 0 0 1-3 3" />
+      <path d="M7 5H4v2a3 3 0 0 0 3 3" />
+    </svg>
+  );
+}
+
+/**
+ * Padlock icon for locked achievements.
+ */
+function LockIcon() {
+  return (
+    <svg
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      aria-hidden="true"
+    >
+      <rect x="5" y="11" width="14" height="10" rx="2" />
+      <path d="M8 11V7a4 4 0 0 1 8 0v4" />
+    </svg>
+  );
+}
+
+interface AchievementsGalleryProps {
+  /** Whether the gallery is open */
+  isOpen: boolean;
+  /** Called when the gallery should close */
+  onClose: () => void;
+}
+
+/**
+ * Modal listing all achievements, grouped by mechanic.
+ *
+ * @example
+ * ```tsx
+ * <AchievementsGallery isOpen={achievementsOpen} onClose={() => { setAchievementsOpen(false); }} />
+ * ```
+ */
+export function AchievementsGallery({ isOpen, onClose }: AchievementsGalleryProps) {
+  const earned = useAchievementsStore((s) => s.earned);
+  const [mechanics, setMechanics] = useState<Mechanic[]>([]);
+
+  // Definitions live on the mechanics, which load lazily
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    void mechanicRegistry.loadAll().then((loaded) => {
+      if (!cancelled) {
+        setMechanics(loaded.filter((mechanic) => (mechanic.achievements ?? []).length > 0));
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen]);
+
+  const { earnedCount, totalCount } = useMemo(() => {
+    let count = 0;
+    let total = 0;
+    for (const mechanic of mechanics) {
+      for (const definition of mechanic.achievements ?? []) {
+        total++;
+        if (getEarnedAt(earned, mechanic.manifest.id, definition.id) !== null) count++;
+      }
+    }
+    return { earnedCount: count, totalCount: total };
+  }, [mechanics, earned]);
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Achievements" className={styles.gallery}>
+      <p className={styles.summary}>
+        {String(earnedCount)} of {String(totalCount)} earned
+      </p>
+      {mechanics.map((mechanic) => (
+        <section key={mechanic.manifest.id} className={styles.group}>
+          <h3 className={styles.groupTitle}>{mechanic.manifest.name}</h3>
+          <ul className={styles.list}>
+            {(mechanic.achievements ?? []).map((definition) => {
+              const earnedAt = getEarnedAt(earned, mechanic.manifest.id, definition.id);
+              return (
+                <li
+                  key={definition.id}
+                  className={[styles.achievement, earnedAt === null ? styles.locked : ""]
+                    .filter(Boolean)
+                    .join(" ")}
+                >
+                  <span className={styles.badge}>
+                    {earnedAt === null ? <LockIcon /> : <TrophyIcon />}
+                  </span>
+                  <span className={styles.details}>
+                    <span className={styles.name}>{definition.name}</span>
+                    <span className={styles.description}>{definition.description}</span>
+                  </span>
+                  <span className={styles.status}>
+                    {earnedAt === null ? "Locked" : new Date(earnedAt).toLocaleDateString()}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        </section>
+      ))}
+    </Modal>
+  );
+}
+
+export default AchievementsGallery;
@@ -0,0 +1,2 @@
+export { AchievementsGallery } from "./AchievementsGallery";
+export { AchievementToast } from "./AchievementToast";
@@ -0,0 +1,140 @@
+/**
+ * Batch action bar component.
+ *
+ * Shown while selection mode is on. Acts on every selected card at once:
+ * selecting all cards matching the current search and filters, setting a
+ * field, the active mechanic's batch actions (such as marking owned),
+ * exporting the selection, and removing it from the deck (a restorable
+ * soft deletion). Editing actions need edit mode, like their single-card
+ * counterparts.
+ */
+
+import { useMemo, useState } from "react";
+import { useSelectionStore } from "@/stores/selectionStore";
+import { useSettingsStore } from "@/stores/settingsStore";
+import { useEditsStore } from "@/stores/editsStore";
+import { useCollectionData } from "@/context/CollectionDataContext";
+import { useMechanicContext } from "@/mechanics";
+import { BatchEditForm } from "@/components/EditForm";
+import { exportCardSelection } from "@/lib/collectionExport";
+import type { DisplayCard } from "@/hooks/useCollection";
+import styles from "./BatchActionBar.module.css";
+
+interface BatchActionBarProps {
+  /** Cards matching the current search and filters */
+  matchingCards: DisplayCard[];
+}
+
+/**
+ * Toolbar of actions on the selected cards.
+ */
+export function BatchActionBar({ matchingCards }: BatchActionBarProps) {
+  const isSelecting = useSelectionStore((s) => s.isSelecting);
+  const selectedIds = useSelectionStore((s) => s.selectedIds);
+  const selectCards = useSelectionStore((s) => s.selectCards);
+  const clearSelection = useSelectionStore((s) => s.clearSelection);
+  const editModeEnabled = useSettingsStore((s) => s.editModeEnabled);
+  const deleteEntities = useEditsStore((s) => s.deleteEntities);
+  const { cards, definition } = useCollectionData();
+  const { mechanic } = useMechanicContext();
+  const [isEditing, setIsEditing] = useState(false);
+
+  // Selected cards still in the collection, in selection order
+  const selectedCards = useMemo(() => {
+    const byId = new Map(cards.map((card) => [card.id, card]));
+    return selectedIds.flatMap((id) => {
+      const card = byId.get(id);
+      return card ? [card] : [];
+    });
+  }, [cards, selectedIds]);
+
+  const mechanicActions = useMemo(() => mechanic?.getBatchActions?.() ?? [], [mechanic]);
+
+  if (!isSelecting) {
+    return null;
+  }
+
+  const count = selectedCards.length;
+  const cardIds = selectedCards.map((card) => card.id);
+  const selectedIdSet = new Set(cardIds);
+  const allMatchingSelected = matchingCards.every((card) => selectedIdSet.has(card.id));
+
+  const handleExport = () => {
+    exportCardSelection(selectedCards, `${definition?.id ?? "itemdeck"}-selection.json`);
+  };
+
+  const handleRemove = () => {
+    deleteEntities(cardIds);
+    clearSelection();
+  };
+
+  return (
+    <>
+      <div className={styles.bar} role="toolbar" aria-label="Selection actions">
+        <span className={styles.count} aria-live="polite">
+          {count} selected
+        </span>
+        <button
+          type="button"
+          className={styles.button}
+          onClick={() => { selectCards(matchingCards.map((card) => card.id), "add"); }}
+          disabled={allMatchingSelected}
+        >
+          Select All Matching ({matchingCards.length})
+        </button>
+        {editModeEnabled && (
+          <button
+            type="button"
+            className={styles.button}
+            onClick={() => { setIsEditing(true); }}
+            disabled={count === 0}
+          >
+            Set Field…
+          </button>
+        )}
+        {mechanicActions.map((action) => (
+          <button
+            key={action.id}
+            type="button"
+            className={styles.button}
+            onClick={() => { action.run(cardIds); }}
+            disabled={count === 0}
+          >
+            {action.label}
+          </button>
+        ))}
+        <button
+          type="button"
+          className={styles.button}
+          onClick={handleExport}
+          disabled={count === 0}
+        >
+          Export
+        </button>
+        {editModeEnabled && (
+          <button
+            type="button"
+            className={[styles.button, styles.danger].join(" ")}
+            onClick={handleRemove}
+            disabled={count === 0}
+            title="Remove from deck (restorable from settings)"
+          >
+            Remove from Deck
+          </button>
+        )}
+        <button type="button" className={styles.button} onClick={clearSelection}>
+          Done
+        </button>
+      </div>
+
+      {isEditing && (
+        <BatchEditForm
+          cardIds={cardIds}
+          onClose={() => { setIsEditing(false); }}
+        />
+      )}
+    </>
+  );
+}
+
+export default BatchActionBar;
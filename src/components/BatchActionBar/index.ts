@@ -0,0 +1,2 @@
+export { BatchActionBar } from "./BatchActionBar";
+export { default } from "./BatchActionBar";
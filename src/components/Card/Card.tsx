@@ -130,6 +130,9 @@ export function Card({
   // Check if card has local edits (via _editedAt field added during merge)
   const cardEditedAt = (card as unknown as Record<string, unknown>)._editedAt as number | undefined;
   const cardHasEdits = cardEditedAt !== undefined;
+  const cardHasConflicts = Array.isArray((card as unknown as Record<string, unknown>)._conflicts);
+  // Personal tags (via _tags field added during merge)
+  const cardTags = (card as unknown as Record<string, unknown>)._tags as string[] | undefined;
 
   // Resolve field values using display configuration
   // Cast card to ResolvedEntity for field path resolution
@@ -307,6 +310,8 @@ export function Card({
               dragHandleProps={frontDragHandleProps}
               isFlipping={isFlipping}
               hasEdits={cardHasEdits}
+              hasConflicts={cardHasConflicts}
+              tags={cardTags}
             />
           }
         />
@@ -1,5 +1,6 @@
 import { ImageWithFallback } from "@/components/ImageWithFallback";
 import { RankBadge } from "@/components/RankBadge";
+import { TagChips } from "@/components/TagChips";
 import { DeviceBadge } from "@/components/DeviceBadge";
 import { useSettingsStore } from "@/stores/settingsStore";
 import styles from "./Card.module.css";
@@ -77,6 +78,10 @@ interface CardFrontProps {
   isFlipping?: boolean;
   /** Whether the card has local edits */
   hasEdits?: boolean;
+  /** Whether local edits conflict with upstream changes */
+  hasConflicts?: boolean;
+  /** Personal tags shown as chips above the title */
+  tags?: readonly string[];
 }
 
 /**
@@ -87,6 +92,7 @@ interface CardFrontProps {
  * - Info button in top-right (always visible, prominent)
  * - DeviceBadge in bottom-right
  * - Image with title/year overlay at bottom
+ * - Personal tag chips above the title
  * - ImageWithFallback for graceful degradation
  */
 export function CardFront({
@@ -104,6 +110,8 @@ export function CardFront({
   dragHandleProps,
   isFlipping = false,
   hasEdits = false,
+  hasConflicts = false,
+  tags,
 }: CardFrontProps) {
   const usePlaceholderImages = useSettingsStore((s) => s.usePlaceholderImages);
 
@@ -137,7 +145,16 @@ export function CardFront({
           />
           {/* Edit indicator shown when card has local edits - simple dot */}
           {hasEdits && (
-            <span className={styles.editIndicator} title="This card has local edits" />
+            <span
+              className={[styles.editIndicator, hasConflicts ? styles.conflictIndicator : ""]
+                .filter(Boolean)
+                .join(" ")}
+              title={
+                hasConflicts
+                  ? "This card's edits conflict with upstream changes"
+                  : "This card has local edits"
+              }
+            />
           )}
         </div>
       )}
@@ -162,6 +179,11 @@ export function CardFront({
         {...(shouldShowDragHandle ? dragHandleProps : {})}
         aria-label={shouldShowDragHandle ? "Drag to reorder" : undefined}
       >
+        {tags && tags.length > 0 && (
+          <div className={styles.overlayTags}>
+            <TagChips tags={tags} size="small" />
+          </div>
+        )}
         <h3 className={styles.overlayTitle}>{title}</h3>
         <div className={styles.overlayFooter}>
           {subtitle && <span className={styles.overlayYear}>{subtitle}</span>}
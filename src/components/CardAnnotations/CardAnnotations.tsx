@@ -0,0 +1,242 @@
+/**
+ * Card annotations component.
+ *
+ * Personal tags and a markdown note for a card in the expanded view. Tags
+ * are added by name (existing tags are suggested) and removed from their
+ * chips; tag colours can be changed for the whole source. Notes are shown
+ * rendered and edited as plain markdown text.
+ */
+
+import { useCallback, useMemo, useState } from "react";
+import { TagChips } from "@/components/TagChips";
+import { useActiveSourceUrl } from "@/stores/sourceStore";
+import {
+  MAX_NOTE_LENGTH,
+  MAX_TAG_LENGTH,
+  MAX_TAGS_PER_CARD,
+  getSourceAnnotations,
+  useAnnotationsStore,
+} from "@/stores/annotationsStore";
+import { parseNoteMarkdown, type NoteBlock, type NoteInline } from "@/utils/noteMarkdown";
+import styles from "./CardAnnotations.module.css";
+
+interface CardAnnotationsProps {
+  /** Card whose annotations are shown */
+  cardId: string;
+}
+
+/**
+ * Render inline markdown nodes.
+ */
+function renderInline(nodes: NoteInline[]): React.ReactNode[] {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case "text":
+        return node.text;
+      case "code":
+        return <code key={index}>{node.text}</code>;
+      case "strong":
+        return <strong key={index}>{renderInline(node.children)}</strong>;
+      case "em":
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case "link":
+        return (
+          <a key={index} href={node.href} target="_blank" rel="noopener noreferrer">
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+}
+
+/**
+ * Render a markdown block. Note headings sit below the card title, so
+ * they start at h3.
+ */
+function renderBlock(block: NoteBlock, index: number): React.ReactNode {
+  switch (block.type) {
+    case "heading": {
+      const Heading = (["h3", "h4", "h5"] as const)[block.level - 1] ?? "h5";
+      return <Heading key={index}>{renderInline(block.children)}</Heading>;
+    }
+    case "list":
+      return (
+        <ul key={index}>
+          {block.items.map((item, itemIndex) => (
+            <li key={itemIndex}>{renderInline(item)}</li>
+          ))}
+        </ul>
+      );
+    case "paragraph":
+      return (
+        <p key={index}>
+          {block.lines.map((line, lineIndex) => (
+            <span key={lineIndex}>
+              {lineIndex > 0 && <br />}
+              {renderInline(line)}
+            </span>
+          ))}
+        </p>
+      );
+  }
+}
+
+/**
+ * Personal tags and note editor for the expanded card.
+ *
+ * @example
+ * ```tsx
+ * <CardAnnotations cardId={card.id} />
+ * ```
+ */
+export function CardAnnotations({ cardId }: CardAnnotationsProps) {
+  const sourceUrl = useActiveSourceUrl();
+  const annotations = useAnnotationsStore((s) => s.annotations);
+  const addCardTag = useAnnotationsStore((s) => s.addCardTag);
+  const removeCardTag = useAnnotationsStore((s) => s.removeCardTag);
+  const setCardNote = useAnnotationsStore((s) => s.setCardNote);
+  const setTagColour = useAnnotationsStore((s) => s.setTagColour);
+
+  const [tagInput, setTagInput] = useState("");
+  const [tagError, setTagError] = useState<string | null>(null);
+  const [noteDraft, setNoteDraft] = useState<string | null>(null);
+
+  const source = getSourceAnnotations(annotations, sourceUrl);
+  const annotation = Object.hasOwn(source.cards, cardId) ? source.cards[cardId] : undefined;
+  const tags = annotation?.tags ?? [];
+  const note = annotation?.note ?? "";
+
+  const noteBlocks = useMemo(() => parseNoteMarkdown(note), [note]);
+  const cardTagDefinitions = source.tags.filter((tag) =>
+    tags.some((name) => name.toLowerCase() === tag.name.toLowerCase())
+  );
+
+  const handleAddTag = useCallback(
+    (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!tagInput.trim()) return;
+      if (!addCardTag(sourceUrl, cardId, tagInput)) {
+        setTagError(`A card can have up to ${String(MAX_TAGS_PER_CARD)} tags`);
+        return;
+      }
+      setTagInput("");
+      setTagError(null);
+    },
+    [tagInput, addCardTag, sourceUrl, cardId]
+  );
+
+  const handleRemoveTag = useCallback(
+    (tag: string) => {
+      removeCardTag(sourceUrl, cardId, tag);
+    },
+    [removeCardTag, sourceUrl, cardId]
+  );
+
+  const handleSaveNote = useCallback(() => {
+    setCardNote(sourceUrl, cardId, noteDraft ?? "");
+    setNoteDraft(null);
+  }, [setCardNote, sourceUrl, cardId, noteDraft]);
+
+  // Annotations need an active source to be keyed by
+  if (!sourceUrl) return null;
+
+  const datalistId = `card-tag-suggestions-${cardId}`;
+
+  return (
+    <section className={styles.annotations} aria-label="Personal tags and notes">
+      <div className={styles.row}>
+        <TagChips tags={tags} onRemove={handleRemoveTag} />
+        <form className={styles.row} onSubmit={handleAddTag}>
+          <input
+            type="text"
+            className={styles.input}
+            value={tagInput}
+            maxLength={MAX_TAG_LENGTH}
+            list={datalistId}
+            onChange={(e) => {
+              setTagInput(e.target.value);
+              setTagError(null);
+            }}
+            placeholder="Add tag"
+            aria-label="Add tag"
+          />
+          <datalist id={datalistId}>
+            {source.tags.map((tag) => (
+              <option key={tag.name} value={tag.name} />
+            ))}
+          </datalist>
+          <button type="submit" className={styles.button}>
+            Add
+          </button>
+        </form>
+      </div>
+      {tagError && (
+        <p className={styles.error} role="alert">
+          {tagError}
+        </p>
+      )}
+
+      {cardTagDefinitions.length > 0 && (
+        <details className={styles.colours}>
+          <summary>Tag colours</summary>
+          <ul className={styles.colourList}>
+            {cardTagDefinitions.map((tag) => (
+              <li key={tag.name} className={styles.colourItem}>
+                <input
+                  type="color"
+                  value={tag.colour}
+                  onChange={(e) => { setTagColour(sourceUrl, tag.name, e.target.value); }}
+                  aria-label={`Colour for ${tag.name}`}
+                />
+                {tag.name}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+
+      {noteDraft !== null ? (
+        <>
+          <textarea
+            className={styles.textarea}
+            rows={5}
+            value={noteDraft}
+            maxLength={MAX_NOTE_LENGTH}
+            onChange={(e) => { setNoteDraft(e.target.value); }}
+            aria-label="Note"
+            placeholder="Markdown: **bold**, *italic*, - lists, [links](https://…)"
+          />
+          <div className={styles.row}>
+            <button type="button" className={styles.button} onClick={handleSaveNote}>
+              Save Note
+            </button>
+            <button
+              type="button"
+              className={styles.button}
+              onClick={() => { setNoteDraft(null); }}
+            >
+              Cancel
+            </button>
+          </div>
+        </>
+      ) : (
+        <>
+          {noteBlocks.length > 0 && (
+            <div className={styles.note}>{noteBlocks.map(renderBlock)}</div>
+          )}
+          <div className={styles.row}>
+            <button
+              type="button"
+              className={styles.button}
+              onClick={() => { setNoteDraft(note); }}
+            >
+              {note ? "Edit Note" : "Add Note"}
+            </button>
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
+
+export default CardAnnotations;
@@ -0,0 +1,2 @@
+export { CardAnnotations } from "./CardAnnotations";
+export { default } from "./CardAnnotations";
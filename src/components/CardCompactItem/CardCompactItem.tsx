@@ -18,6 +18,8 @@ interface CardCompactItemProps {
   cardNumber?: number;
   /** Tab index for keyboard navigation */
   tabIndex?: 0 | -1;
+  /** Whether the card is selected for batch actions */
+  isSelected?: boolean;
   /** Custom width in pixels (overrides CSS default) */
   width?: number;
   /** Custom height in pixels (overrides CSS default) */
@@ -31,6 +33,7 @@ export function CardCompactItem({
   card,
   cardNumber,
   tabIndex = 0,
+  isSelected = false,
   width,
   height,
 }: CardCompactItemProps) {
@@ -38,8 +41,8 @@ export function CardCompactItem({
   const [originRect, setOriginRect] = useState<DOMRect | null>(null);
   // Mount CardExpanded lazily: each instance registers a window resize listener
   // (via useViewportSize) and several store subscriptions, so collapsed items
-  // must not mount it — the compact layout is not virtualised, so one instance
-  // per card would multiply into thousands. Once opened it stays mounted so its
+  // must not mount it — even virtualised, the compact layout mounts a few
+  // hundred thumbnails at once. Once opened it stays mounted so its
   // AnimatePresence exit animation can play on close. Mirrors Card.tsx.
   const [hasOpenedExpanded, setHasOpenedExpanded] = useState(false);
 
@@ -73,7 +76,8 @@ export function CardCompactItem({
   return (
     <>
       <motion.article
-        className={styles.item}
+        className={[styles.item, isSelected ? styles.selected : ""].filter(Boolean).join(" ")}
+        data-card-id={card.id}
         style={customStyle}
         onClick={handleClick}
         onKeyDown={handleKeyDown}
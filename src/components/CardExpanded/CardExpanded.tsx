@@ -12,12 +12,14 @@ import { ImageGallery } from "@/components/ImageGallery";
 import { RankBadge } from "@/components/RankBadge";
 import { SourceIcon, isKnownSource, getSourceShortName } from "@/components/SourceIcon";
 import { SourcesOverlay } from "@/components/SourcesOverlay";
-import { ExternalLinkIcon, CloseIcon, InfoIcon, EditIcon, ImageIcon } from "@/components/Icons";
+import { ExternalLinkIcon, CloseIcon, InfoIcon, EditIcon, ImageIcon, TrashIcon } from "@/components/Icons";
 import { EditForm } from "@/components/EditForm";
+import { CardAnnotations } from "@/components/CardAnnotations";
 import { InfoTooltip } from "@/components/InfoTooltip";
 import { getDisplayableFields, categoriseFields } from "@/utils/entityFields";
 import { safeExternalUrl } from "@/utils/safeUrl";
 import { useSettingsStore } from "@/stores/settingsStore";
+import { useEditsStore } from "@/stores/editsStore";
 import { isYouTubeUrl, extractYouTubeId, getYouTubeThumbnail } from "@/types/media";
 import { useUILabels } from "@/context/CollectionUIContext";
 import { useCollectionData } from "@/context/CollectionDataContext";
@@ -118,6 +120,8 @@ export function CardExpanded({
   // Check if card has local edits (via _editedAt field added during merge)
   const cardEditedAt = (card as unknown as Record<string, unknown>)._editedAt as number | undefined;
   const cardHasEdits = cardEditedAt !== undefined;
+  const cardConflicts = (card as unknown as Record<string, unknown>)._conflicts;
+  const cardHasConflicts = Array.isArray(cardConflicts);
 
   // Determine if background is light (needs dark text)
   const hasLightBackground = useMemo(() => {
@@ -189,6 +193,12 @@ export function CardExpanded({
     setEditFormOpen(false);
   }, []);
 
+  // Soft-delete the card (restorable from settings), then close
+  const handleDeleteClick = useCallback(() => {
+    useEditsStore.getState().deleteEntity(card.id);
+    onClose();
+  }, [card.id, onClose]);
+
   // Escape key to close
   useEffect(() => {
     if (!isOpen) return;
@@ -309,7 +319,16 @@ export function CardExpanded({
                 <RankBadge rank={card.order ?? null} size="large" />
                 {/* Edit indicator badge when card has local edits */}
                 {cardHasEdits && (
-                  <span className={styles.editIndicator} title="This card has local edits">
+                  <span
+                    className={[styles.editIndicator, cardHasConflicts ? styles.conflictIndicator : ""]
+                      .filter(Boolean)
+                      .join(" ")}
+                    title={
+                      cardHasConflicts
+                        ? `Edits conflict with upstream changes (${(cardConflicts as string[]).join(", ")}); resolve in Settings`
+                        : "This card has local edits"
+                    }
+                  >
                     <EditIcon size={12} />
                   </span>
                 )}
@@ -327,6 +346,17 @@ export function CardExpanded({
                     <EditIcon size={20} />
                   </button>
                 )}
+                {editModeEnabled && (
+                  <button
+                    type="button"
+                    className={styles.editButton}
+                    onClick={handleDeleteClick}
+                    aria-label="Delete card"
+                    title="Delete card (restorable from settings)"
+                  >
+                    <TrashIcon size={20} />
+                  </button>
+                )}
                 <button
                   type="button"
                   className={styles.closeButton}
@@ -446,6 +476,9 @@ export function CardExpanded({
                 <p className={styles.summary}>{card.summary}</p>
               )}
 
+              {/* Personal tags and notes */}
+              <CardAnnotations cardId={card.id} />
+
               {/* Footer row: Left group (Acknowledgement + Sources) | Right (More) */}
               <div className={styles.footer}>
                 <div className={styles.footerLeft}>
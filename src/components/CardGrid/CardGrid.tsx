@@ -3,25 +3,38 @@ import { motion, AnimatePresence } from "framer-motion";
 import { Card } from "@/components/Card/Card";
 import { DraggableCardGrid } from "@/components/DraggableCardGrid";
 import { SearchBar } from "@/components/SearchBar";
-import { CardGroup } from "@/components/CardGroup";
-import { CardListItem } from "@/components/CardListItem";
+import { BatchActionBar } from "@/components/BatchActionBar";
 import { CardCompactItem } from "@/components/CardCompactItem";
 import { useCollectionData } from "@/context/CollectionDataContext";
 import { useSettingsContext } from "@/hooks/useSettingsContext";
 import { useGridNavigation } from "@/hooks/useGridNavigation";
+import { useVirtualRows } from "@/hooks/useVirtualRows";
+import { useFilterFields } from "@/hooks/useFilterFields";
 import { useShuffledCards } from "@/hooks/useShuffledCards";
 import { useFitToViewport } from "@/hooks/useFitToViewport";
 import { useReducedMotion } from "@/hooks/useReducedMotion";
+import { useCardSelection } from "@/hooks/useCardSelection";
 import { useSettingsStore, CARD_ASPECT_RATIOS } from "@/stores/settingsStore";
+import { useActiveSourceUrl } from "@/stores/sourceStore";
+import { useSelectionStore } from "@/stores/selectionStore";
+import { getSourceTierList, useTierListStore } from "@/stores/tierListStore";
 import { useMechanicContext, useMechanicCardActions } from "@/mechanics";
-import { createFieldSortComparator, resolveFieldPath } from "@/utils/fieldPathResolver";
+import {
+  createFieldSortComparator,
+  resolveFieldPath,
+  CUSTOM_ORDER_SORT_FIELD,
+} from "@/utils/fieldPathResolver";
+import { applyCustomOrder, mergeCustomOrder } from "@/utils/customOrder";
 import { shuffle } from "@/utils/shuffle";
-import { capFilterOptions } from "@/utils/filterOptions";
+import { createGameRandom, inSeedOrder } from "@/mechanics/shared/utils";
 import { cardMatchesFilter } from "@/utils/filterMatch";
+import { filterCardsByQuery } from "@/utils/searchQuery";
+import { TIER_FIELD, getTierLabel } from "@/utils/tierList";
 import { LoadingSkeleton } from "@/components/LoadingSkeleton";
 import { springPresets, getItemDelay } from "@/config/animationPresets";
 import type { CardDisplayConfig } from "@/types/display";
 import type { DisplayCard } from "@/hooks/useCollection";
+import { VirtualCardList } from "./VirtualCardList";
 import styles from "./CardGrid.module.css";
 
 /** Minimum card width for fit-to-viewport mode */
@@ -35,6 +48,8 @@ const GAP = 16; // var(--grid-gap) = 1rem = 16px
  * CSS transitions handle smooth animation on resize.
  * Manages flip state with maxVisibleCards enforcement.
  * Supports keyboard navigation with roving tabindex.
+ * Only the rows near the viewport are mounted (see useVirtualRows), so
+ * collections of thousands of cards stay responsive in every layout but fit.
  */
 export function CardGrid() {
   const { cards: sourceCards, displayConfig: collectionDisplayConfig, isLoading, error } = useCollectionData();
@@ -57,6 +72,15 @@ export function CardGrid() {
   const defaultCardFace = useSettingsStore((state) => state.defaultCardFace);
   const cardSizePreset = useSettingsStore((state) => state.cardSizePreset);
   const cardAspectRatio = useSettingsStore((state) => state.cardAspectRatio);
+  const setShuffleOnLoad = useSettingsStore((state) => state.setShuffleOnLoad);
+  const setFieldMapping = useSettingsStore((state) => state.setFieldMapping);
+
+  // Drag-and-drop order, persisted per source
+  const sourceId = useActiveSourceUrl();
+  const customOrder = useSettingsStore((state) =>
+    Object.hasOwn(state.customOrders, sourceId) ? state.customOrders[sourceId] : undefined
+  );
+  const setCustomOrder = useSettingsStore((state) => state.setCustomOrder);
 
   // v0.11.0: Search & Filter state
   const searchQuery = useSettingsStore((state) => state.searchQuery);
@@ -64,6 +88,7 @@ export function CardGrid() {
   const searchScope = useSettingsStore((state) => state.searchScope);
   const activeFilters = useSettingsStore((state) => state.activeFilters);
   const groupByField = useSettingsStore((state) => state.groupByField);
+  const tierLists = useTierListStore((state) => state.tierLists);
   const collapsedGroups = useSettingsStore((state) => state.collapsedGroups);
   const layout = useSettingsStore((state) => state.layout);
   const showSearchBar = useSettingsStore((state) => state.showSearchBar);
@@ -78,7 +103,6 @@ export function CardGrid() {
   const containerRef = useRef<HTMLDivElement>(null);
   const fitContainerRef = useRef<HTMLDivElement>(null);
   const [containerWidth, setContainerWidth] = useState(0);
-  const [customOrder, setCustomOrder] = useState<string[] | null>(null);
 
   // Track flipped card IDs in order (oldest first)
   // Declared early because filteredCards depends on it for "visible" search scope
@@ -161,6 +185,11 @@ export function CardGrid() {
     if (shuffleOnLoad) {
       return shuffledCards;
     }
+    // "My Order": the persisted drag-and-drop order, new cards appended
+    if (fieldMapping.sortField === CUSTOM_ORDER_SORT_FIELD) {
+      const ordered = applyCustomOrder(shuffledCards, customOrder ?? []);
+      return fieldMapping.sortDirection === "desc" ? ordered.reverse() : ordered;
+    }
     // Sort by configured field when not shuffling
     const comparator = createFieldSortComparator(
       fieldMapping.sortField,
@@ -172,97 +201,15 @@ export function CardGrid() {
         b as unknown as Record<string, unknown>
       )
     );
-  }, [shuffledCards, shuffleOnLoad, fieldMapping.sortField, fieldMapping.sortDirection]);
-
-  // Helper function to check if a card matches a single search term
-  const cardMatchesTerm = useCallback((card: DisplayCard, term: string): boolean => {
-    const lowerTerm = term.toLowerCase();
-    return searchFields.some((field) => {
-      const value = resolveFieldPath(card as unknown as Record<string, unknown>, field);
-      if (value === null || value === undefined) return false;
-      const strValue = typeof value === "object" ? JSON.stringify(value) : String(value as string | number | boolean);
-      return strValue.toLowerCase().includes(lowerTerm);
-    });
-  }, [searchFields]);
-
-  // Parse boolean search query into tokens
-  // Supports: AND, OR, NOT/-prefix, "exact phrases"
-  const parseSearchQuery = useCallback((query: string): { type: "and" | "or" | "not" | "term"; value: string }[] => {
-    const tokens: { type: "and" | "or" | "not" | "term"; value: string }[] = [];
-    const trimmed = query.trim();
-    if (!trimmed) return tokens;
-
-    // Match quoted phrases, operators (AND/OR/NOT), -prefixed terms, or regular words
-    const regex = /"([^"]+)"|(\bAND\b|\bOR\b|\bNOT\b)|(-\S+)|(\S+)/gi;
-    let match;
-
-    while ((match = regex.exec(trimmed)) !== null) {
-      if (match[1]) {
-        // Quoted phrase
-        tokens.push({ type: "term", value: match[1] });
-      } else if (match[2]) {
-        // Boolean operator
-        const op = match[2].toUpperCase();
-        if (op === "AND") tokens.push({ type: "and", value: "" });
-        else if (op === "OR") tokens.push({ type: "or", value: "" });
-        else if (op === "NOT") tokens.push({ type: "not", value: "" });
-      } else if (match[3]) {
-        // -prefixed term (NOT shorthand)
-        tokens.push({ type: "not", value: "" });
-        tokens.push({ type: "term", value: match[3].slice(1) });
-      } else if (match[4]) {
-        // Regular term
-        tokens.push({ type: "term", value: match[4] });
-      }
-    }
-
-    return tokens;
-  }, []);
-
-  // Helper function to apply text search with boolean operators to a card array
-  // Supports: AND, OR, NOT/-prefix, "exact phrases"
-  // Default operator between terms is AND
-  const applySearch = useCallback((cardsToSearch: DisplayCard[], query: string): DisplayCard[] => {
-    if (!query.trim()) return cardsToSearch;
-
-    const tokens = parseSearchQuery(query);
-    if (tokens.length === 0) return cardsToSearch;
-
-    return cardsToSearch.filter((card) => {
-      let result: boolean | null = null; // null = not yet set
-      let pendingOp: "and" | "or" = "and"; // Default operator
-      let negateNext = false;
-
-      for (const token of tokens) {
-        if (token.type === "and") {
-          pendingOp = "and";
-        } else if (token.type === "or") {
-          pendingOp = "or";
-        } else if (token.type === "not") {
-          negateNext = true;
-        } else if (token.type as string === "term") {
-          let matches = cardMatchesTerm(card, token.value);
-          if (negateNext) {
-            matches = !matches;
-            negateNext = false;
-          }
-
-          if (result === null) {
-            // First term - just set the result
-            result = matches;
-          } else if (pendingOp === "and") {
-            result = result && matches;
-          } else {
-            result = result || matches;
-          }
-          // Reset to default AND for implicit operators between terms
-          pendingOp = "and";
-        }
-      }
-
-      return result ?? true; // If no terms, return true (show all)
-    });
-  }, [parseSearchQuery, cardMatchesTerm]);
+  }, [shuffledCards, shuffleOnLoad, fieldMapping.sortField, fieldMapping.sortDirection, customOrder]);
+
+  // Apply the search-bar query (field qualifiers, comparisons, AND/OR/NOT).
+  // An invalid query leaves the cards unfiltered; SearchBar reports the error.
+  const applySearch = useCallback(
+    (cardsToSearch: DisplayCard[], query: string): DisplayCard[] =>
+      filterCardsByQuery(cardsToSearch, query, { searchFields }),
+    [searchFields]
+  );
 
   // v0.11.0: Apply search and filter
   // searchScope: "all" = search all cards in the current set
@@ -281,7 +228,7 @@ export function CardGrid() {
 
     // Apply active filters
     for (const filter of activeFilters) {
-      if (filter.values.length === 0) continue;
+      if (filter.values.length === 0 && !filter.range) continue;
       result = result.filter((card) =>
         cardMatchesFilter(
           card as unknown as Record<string, unknown>,
@@ -293,15 +240,6 @@ export function CardGrid() {
     return result;
   }, [sortedCards, searchQuery, searchScope, applySearch, activeFilters, flippedCardIds]);
 
-  // Apply custom order if set (from drag and drop)
-  const baseCards = useMemo(() => {
-    if (!customOrder) return filteredCards;
-    const cardMap = new Map(filteredCards.map((c) => [c.id, c]));
-    return customOrder
-      .map((id) => cardMap.get(id))
-      .filter((c): c is NonNullable<typeof c> => c !== undefined);
-  }, [filteredCards, customOrder]);
-
   // Get resetCount from mechanic state to trigger re-shuffle on reset
   const mechanicResetCount = (mechanicState as { resetCount?: number } | null)?.resetCount;
 
@@ -315,6 +253,11 @@ export function CardGrid() {
     return 6; // Default
   }, [mechanic, mechanicState]);
 
+  // Seeded memory games deal the same cards in the same layout
+  const memorySeed = mechanic?.manifest.id === "memory"
+    ? (mechanicState as { seed?: number | null } | null)?.seed ?? null
+    : null;
+
   // Get snap-ranking cardIds for filtering displayed cards
   const snapRankingCardIds = useMemo(() => {
     if (mechanic?.manifest.id === "snap-ranking" && mechanicState) {
@@ -328,16 +271,20 @@ export function CardGrid() {
   // For memory game: duplicate cards and shuffle to create pairs
   // For snap-ranking: filter to only cards in the game
   const cards = useMemo(() => {
-    if (!mechanic) return baseCards;
+    if (!mechanic) return filteredCards;
 
     // Memory game needs pairs of cards
     if (mechanic.manifest.id === "memory") {
       // Use the configured pair count from settings, limited to available cards
       const maxPairs = Math.min(
-        Math.floor(baseCards.length),
+        Math.floor(filteredCards.length),
         memoryPairCount
       );
-      const selectedForPairs = baseCards.slice(0, maxPairs);
+      const random = createGameRandom(memorySeed);
+      const dealFrom = memorySeed === null
+        ? filteredCards
+        : shuffle(inSeedOrder(filteredCards, (card) => card.id), random);
+      const selectedForPairs = dealFrom.slice(0, maxPairs);
 
       // Duplicate each card with unique ID suffix for matching
       const pairedCards: DisplayCard[] = [];
@@ -349,22 +296,40 @@ export function CardGrid() {
       }
 
       // Shuffle the paired cards
-      return shuffle(pairedCards);
+      return shuffle(pairedCards, random);
     }
 
     // Snap-ranking: show only cards that are in the game
     if (mechanic.manifest.id === "snap-ranking" && snapRankingCardIds && snapRankingCardIds.length > 0) {
       // Create lookup map for efficient card finding
-      const cardMap = new Map(baseCards.map(c => [c.id, c]));
+      const cardMap = new Map(filteredCards.map(c => [c.id, c]));
       // Preserve the game's shuffled order
       return snapRankingCardIds
         .map(id => cardMap.get(id))
         .filter((c): c is DisplayCard => c !== undefined);
     }
 
-    return baseCards;
+    return filteredCards;
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [baseCards, mechanic, mechanicResetCount, memoryPairCount, snapRankingCardIds]); // mechanicResetCount triggers re-shuffle on reset
+  }, [filteredCards, mechanic, mechanicResetCount, memoryPairCount, memorySeed, snapRankingCardIds]); // mechanicResetCount triggers re-shuffle on reset
+
+  // Multi-select for batch actions. Mechanics without batch actions control
+  // card interaction themselves, and drag mode uses clicks and drags itself.
+  const selectionEnabled =
+    (!mechanic || Boolean(mechanic.getBatchActions)) && !(dragModeEnabled && layout === "grid");
+  const orderedCardIds = useMemo(() => cards.map((card) => card.id), [cards]);
+  const {
+    containerHandlers: selectionHandlers,
+    isSelecting,
+    selectedIdSet,
+    lasso,
+  } = useCardSelection({ orderedIds: orderedCardIds, enabled: selectionEnabled });
+  const toggleSelectedCard = useSelectionStore((state) => state.toggleCard);
+  const clearSelection = useSelectionStore((state) => state.clearSelection);
+
+  useEffect(() => {
+    if (!selectionEnabled) clearSelection();
+  }, [selectionEnabled, clearSelection]);
 
   // Track initialization to avoid re-initializing on every render
   const lastInitRef = useRef<{
@@ -473,7 +438,7 @@ export function CardGrid() {
       // Get unique values from ALL cards in collection (not just selected subset)
       // This ensures the same guess options appear regardless of card count setting
       const allCollectionValues: (string | number)[] = [];
-      for (const card of baseCards) {
+      for (const card of filteredCards) {
         const value = resolveFieldPath(card as unknown as Record<string, unknown>, effectiveField);
         if (value !== undefined && value !== null && value !== "") {
           allCollectionValues.push(value as string | number);
@@ -518,7 +483,7 @@ export function CardGrid() {
     if (typeof state.initGame === "function") {
       state.initGame(cards.map((c) => c.id));
     }
-  // eslint-disable-next-line react-hooks/exhaustive-deps -- baseCards is derived from cards
+  // eslint-disable-next-line react-hooks/exhaustive-deps -- filteredCards is derived from cards
   }, [mechanic, cards, mechanicResetCount, topBadgeField, snapRankingCardCount]);
 
   // Hide rank badges during snap-ranking game
@@ -532,10 +497,37 @@ export function CardGrid() {
   // Derive showRankBadge from effective badge field
   const showRankBadge = effectiveTopBadgeField !== "none";
 
-  // Handle reorder from drag and drop
+  // Handle reorder from drag and drop: fold the visible cards' new order
+  // into the source's persisted order, then sort by it. Cards hidden by
+  // filters or random selection keep their stored positions.
   const handleReorder = useCallback((newOrder: string[]) => {
-    setCustomOrder(newOrder);
-  }, []);
+    const knownIds = new Set(sourceCards.map((card) => card.id));
+    const displayedIds = sortedCards.map((card) => card.id);
+    const displayedSet = new Set(displayedIds);
+    const baseOrder = [
+      ...displayedIds,
+      ...(customOrder ?? []).filter((id) => !displayedSet.has(id)),
+    ];
+    setCustomOrder(sourceId, mergeCustomOrder(baseOrder, newOrder, knownIds));
+
+    if (shuffleOnLoad) {
+      setShuffleOnLoad(false);
+    }
+    if (fieldMapping.sortField !== CUSTOM_ORDER_SORT_FIELD || fieldMapping.sortDirection !== "asc") {
+      setFieldMapping({ sortField: CUSTOM_ORDER_SORT_FIELD, sortDirection: "asc" });
+    }
+  }, [
+    sourceCards,
+    sortedCards,
+    customOrder,
+    sourceId,
+    setCustomOrder,
+    shuffleOnLoad,
+    setShuffleOnLoad,
+    fieldMapping.sortField,
+    fieldMapping.sortDirection,
+    setFieldMapping,
+  ]);
 
   // v0.12.5: Fit-to-viewport layout calculation
   const isFitMode = layout === "fit";
@@ -593,45 +585,24 @@ export function CardGrid() {
       }
     }
 
+    // Tiers keep the tier list's row order (unplaced cards last); other
+    // groups sort by key
+    const tierOrder = groupByField === TIER_FIELD
+      ? new Map(getSourceTierList(tierLists, sourceId).rows.map((row, index) => [getTierLabel(row, index), index]))
+      : null;
+    const compareKeys = (a: string, b: string) =>
+      tierOrder
+        ? (tierOrder.get(a) ?? Infinity) - (tierOrder.get(b) ?? Infinity) || a.localeCompare(b)
+        : a.localeCompare(b);
+
     // Convert to array and sort by group key
     return Array.from(groups.entries())
-      .sort(([a], [b]) => a.localeCompare(b))
+      .sort(([a], [b]) => compareKeys(a, b))
       .map(([key, groupCards]) => ({ key, cards: groupCards }));
-  }, [cards, groupByField]);
-
-  // Compute filter options for SearchBar
-  const filterOptions = useMemo(() => {
-    const platforms = new Set<string>();
-    const years = new Set<number>();
-    const genres = new Set<string>();
-
-    for (const card of sourceCards) {
-      // Collect from the same field the Platform filter matches on
-      // (FILTER_FIELD_DEFS), so offered options cannot fail to match.
-      const platformValue = resolveFieldPath(card as unknown as Record<string, unknown>, "categoryShort");
-      if (platformValue && typeof platformValue === "string") platforms.add(platformValue);
-
-      const yearValue = resolveFieldPath(card as unknown as Record<string, unknown>, "year");
-      if (yearValue !== null && yearValue !== undefined) years.add(Number(yearValue));
-
-      const genresValue = resolveFieldPath(card as unknown as Record<string, unknown>, "genres");
-      if (Array.isArray(genresValue)) {
-        genresValue.forEach((g: unknown) => genres.add(String(g)));
-      }
-    }
+  }, [cards, groupByField, tierLists, sourceId]);
 
-    // The filter dropdown mounts one checkbox per option for every field and
-    // re-reconciles the whole list on each toggle. `genres` is an uncapped
-    // per-entity array, and the card-derived fields are only bounded by the
-    // loader's entity cap, so all three need a ceiling. Cap the assembled
-    // lists rather than the per-entity arrays: many entities contributing a
-    // few values each reach the same total.
-    return {
-      platforms: capFilterOptions(Array.from(platforms).sort(), "platform"),
-      years: capFilterOptions(Array.from(years).sort((a, b) => b - a), "year"),
-      genres: capFilterOptions(Array.from(genres).sort(), "genres"),
-    };
-  }, [sourceCards]);
+  // Schema-driven filter fields for SearchBar
+  const filterFields = useFilterFields();
 
   // Track previous setting to detect user changes
   const prevDefaultFaceRef = useRef<string | null>(null);
@@ -719,13 +690,17 @@ export function CardGrid() {
   // Handle selection from keyboard navigation
   const handleSelect = useCallback((index: number) => {
     const card = cards[index];
-    if (card) {
+    if (!card) return;
+    // In selection mode, Enter/Space select instead of flipping
+    if (isSelecting) {
+      toggleSelectedCard(card.id);
+    } else {
       handleFlip(card.id);
     }
-  }, [cards, handleFlip]);
+  }, [cards, handleFlip, isSelecting, toggleSelectedCard]);
 
   // Grid keyboard navigation
-  const { handleKeyDown, getTabIndex, gridRef } = useGridNavigation({
+  const { focusedIndex, handleKeyDown, getTabIndex, gridRef } = useGridNavigation({
     totalItems: cards.length,
     columns,
     onSelect: handleSelect,
@@ -793,6 +768,21 @@ export function CardGrid() {
     ? rows * effectiveDimensions.height + (rows - 1) * GAP
     : 200;
 
+  // Windowed rendering: only rows near the viewport are mounted. The focused
+  // row stays mounted so keyboard navigation can move focus into it.
+  const rowHeight = effectiveDimensions.height + GAP;
+  const focusedRow = Math.floor(focusedIndex / columns);
+  const focusedRows = useMemo(() => [focusedRow], [focusedRow]);
+  const { virtualizer: gridVirtualizer } = useVirtualRows({
+    count: rows,
+    estimateSize: () => rowHeight,
+    containerRef,
+    pinnedIndexes: focusedRows,
+  });
+
+  // Flipped lookups run once per rendered card
+  const flippedCardIdSet = useMemo(() => new Set(flippedCardIds), [flippedCardIds]);
+
   // Render loading/error states outside the grid
   // Note: Loading skeleton and error messages are rendered outside the grid role to avoid
   // aria-required-children violation (role="status" and role="alert" cannot be inside role="grid")
@@ -815,31 +805,43 @@ export function CardGrid() {
       return <div className={styles.empty}>No cards to display</div>;
     }
 
+    // Indexes of the cards in the mounted rows
+    const renderedIndexes = gridVirtualizer.getVirtualItems().flatMap((row) => {
+      const start = row.index * columns;
+      const end = Math.min(start + columns, cards.length);
+      return Array.from({ length: Math.max(0, end - start) }, (_, offset) => start + offset);
+    });
+
     // F-041: Staggered entrance animation for grid items
     // Uses spring physics and respects reduced motion preference
     return (
       <AnimatePresence mode="popLayout">
-        {cards.map((card, index) => {
+        {renderedIndexes.map((index, renderPosition) => {
+          const card = cards[index];
           const pos = positions[index];
-          if (!pos) return null;
+          if (!card || !pos) return null;
 
           // When mechanic is active, use its highlight state for flip display
           // For memory game: cards are "flipped" when they're highlighted by the mechanic
           const isFlipped = mechanicCardActions?.isHighlighted
             ? mechanicCardActions.isHighlighted(card.id)
-            : flippedCardIds.includes(card.id);
+            : flippedCardIdSet.has(card.id);
           const tabIndex = getTabIndex(index);
 
           // Get CardOverlay component from active mechanic
           const CardOverlay = mechanic?.CardOverlay;
 
-          // Calculate staggered delay (skip for reduced motion)
-          const entranceDelay = prefersReducedMotion ? 0 : getItemDelay(index);
+          // Calculate staggered delay (skip for reduced motion). Staggered by
+          // position among the mounted cards, so rows scrolled into view
+          // animate in without waiting on their absolute index.
+          const entranceDelay = prefersReducedMotion ? 0 : getItemDelay(renderPosition);
 
           return (
             <motion.div
               key={card.id}
-              className={styles.card}
+              data-grid-index={index}
+              data-card-id={card.id}
+              className={[styles.card, selectedIdSet.has(card.id) ? styles.selected : ""].filter(Boolean).join(" ")}
               style={{
                 left: `${String(pos.left)}px`,
                 top: `${String(pos.top)}px`,
@@ -847,6 +849,7 @@ export function CardGrid() {
                 height: `${String(effectiveDimensions.height)}px`,
               }}
               role="gridcell"
+              aria-selected={isSelecting ? selectedIdSet.has(card.id) : undefined}
               initial={prefersReducedMotion ? false : { opacity: 0, scale: 0.9 }}
               animate={{ opacity: 1, scale: 1 }}
               exit={prefersReducedMotion ? undefined : { opacity: 0, scale: 0.9 }}
@@ -892,13 +895,14 @@ export function CardGrid() {
           <SearchBar
             totalCards={sourceCards.length}
             filteredCount={cards.length}
-            filterOptions={filterOptions}
+            filterFields={filterFields}
           />
         )}
         <DraggableCardGrid
           cards={cards}
           onReorder={handleReorder}
           cardWidth={effectiveDimensions.width}
+          cardHeight={effectiveDimensions.height}
           gap={GAP}
           flippedCardIds={flippedCardIds}
           onFlip={handleFlip}
@@ -918,6 +922,25 @@ export function CardGrid() {
   // Get GridOverlay component from active mechanic (needed for all views)
   const GridOverlay = mechanic?.GridOverlay;
 
+  // Lasso rectangle and batch action bar (needed for all selectable views)
+  const selectionOverlay = (
+    <>
+      {lasso && (
+        <div
+          className={styles.lasso}
+          style={{
+            left: `${String(lasso.left)}px`,
+            top: `${String(lasso.top)}px`,
+            width: `${String(lasso.width)}px`,
+            height: `${String(lasso.height)}px`,
+          }}
+          aria-hidden="true"
+        />
+      )}
+      <BatchActionBar matchingCards={cards} />
+    </>
+  );
+
   // Render list view
   if (layout === "list" && !isLoading && !error) {
     return (
@@ -929,41 +952,24 @@ export function CardGrid() {
           <SearchBar
             totalCards={sourceCards.length}
             filteredCount={cards.length}
-            filterOptions={filterOptions}
+            filterFields={filterFields}
           />
         )}
-        <div className={styles.listContainer}>
-          {groupedCards ? (
-            groupedCards.map((group) => (
-              <CardGroup
-                key={group.key}
-                groupKey={group.key}
-                cardCount={group.cards.length}
-                isCollapsed={collapsedGroups.includes(group.key)}
-              >
-                {group.cards.map((card, idx) => (
-                  <CardListItem
-                    key={card.id}
-                    card={card}
-                    cardNumber={idx + 1}
-                  />
-                ))}
-              </CardGroup>
-            ))
-          ) : (
-            cards.map((card, idx) => (
-              <CardListItem
-                key={card.id}
-                card={card}
-                cardNumber={idx + 1}
-              />
-            ))
-          )}
+        <div className={styles.listContainer} {...selectionHandlers}>
+          <VirtualCardList
+            variant="list"
+            cards={cards}
+            groups={groupedCards}
+            collapsedGroups={collapsedGroups}
+            selectedIds={selectedIdSet}
+          />
           {cards.length === 0 && (
             <div className={styles.empty}>No cards to display</div>
           )}
         </div>
 
+        {selectionOverlay}
+
         {/* Mechanic bottom overlay */}
         {GridOverlay && <GridOverlay position="bottom" />}
       </>
@@ -981,45 +987,24 @@ export function CardGrid() {
           <SearchBar
             totalCards={sourceCards.length}
             filteredCount={cards.length}
-            filterOptions={filterOptions}
+            filterFields={filterFields}
           />
         )}
-        <div className={styles.compactContainer}>
-          {groupedCards ? (
-            groupedCards.map((group) => (
-              <CardGroup
-                key={group.key}
-                groupKey={group.key}
-                cardCount={group.cards.length}
-                isCollapsed={collapsedGroups.includes(group.key)}
-              >
-                <div className={styles.compactGrid}>
-                  {group.cards.map((card, idx) => (
-                    <CardCompactItem
-                      key={card.id}
-                      card={card}
-                      cardNumber={idx + 1}
-                    />
-                  ))}
-                </div>
-              </CardGroup>
-            ))
-          ) : (
-            <div className={styles.compactGrid}>
-              {cards.map((card, idx) => (
-                <CardCompactItem
-                  key={card.id}
-                  card={card}
-                  cardNumber={idx + 1}
-                />
-              ))}
-            </div>
-          )}
+        <div className={styles.compactContainer} {...selectionHandlers}>
+          <VirtualCardList
+            variant="compact"
+            cards={cards}
+            groups={groupedCards}
+            collapsedGroups={collapsedGroups}
+            selectedIds={selectedIdSet}
+          />
           {cards.length === 0 && (
             <div className={styles.empty}>No cards to display</div>
           )}
         </div>
 
+        {selectionOverlay}
+
         {/* Mechanic bottom overlay */}
         {GridOverlay && <GridOverlay position="bottom" />}
       </>
@@ -1039,7 +1024,7 @@ export function CardGrid() {
           <SearchBar
             totalCards={sourceCards.length}
             filteredCount={cards.length}
-            filterOptions={filterOptions}
+            filterFields={filterFields}
           />
         )}
         <div
@@ -1058,6 +1043,8 @@ export function CardGrid() {
               }}
               role="grid"
               aria-label="Card collection"
+              aria-multiselectable={isSelecting || undefined}
+              {...selectionHandlers}
             >
               {cards.length === 0 ? (
                 <div className={styles.empty}>No cards to display</div>
@@ -1069,6 +1056,7 @@ export function CardGrid() {
                     cardNumber={idx + 1}
                     width={fitResult.cardWidth}
                     height={fitResult.cardHeight}
+                    isSelected={selectedIdSet.has(card.id)}
                   />
                 ))
               )}
@@ -1076,6 +1064,8 @@ export function CardGrid() {
           )}
         </div>
 
+        {selectionOverlay}
+
         {/* Mechanic bottom overlay (completion modal, etc.) */}
         {GridOverlay && <GridOverlay position="bottom" />}
       </>
@@ -1093,7 +1083,7 @@ export function CardGrid() {
         <SearchBar
           totalCards={sourceCards.length}
           filteredCount={cards.length}
-          filterOptions={filterOptions}
+          filterFields={filterFields}
         />
       )}
       {/* Loading/error states rendered outside grid to avoid aria-required-children violation */}
@@ -1105,12 +1095,16 @@ export function CardGrid() {
           style={{ minHeight: `${String(containerHeight)}px` }}
           role="grid"
           aria-label="Card collection"
+          aria-multiselectable={isSelecting || undefined}
           onKeyDown={handleKeyDown}
+          {...selectionHandlers}
         >
           {renderContent()}
         </section>
       )}
 
+      {selectionOverlay}
+
       {/* Mechanic bottom overlay (completion modal, etc.) */}
       {GridOverlay && <GridOverlay position="bottom" />}
     </>
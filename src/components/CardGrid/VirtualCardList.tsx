@@ -0,0 +1,208 @@
+/**
+ * Virtualised list and compact layouts.
+ *
+ * Cards (and, when grouped, group headers) are flattened into rows: one card
+ * per row in the list layout, one row of thumbnails in the compact layout.
+ * Only the rows near the viewport are mounted. Group headers stick to the top
+ * of the viewport while their group scrolls past.
+ */
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { CardGroupHeader } from "@/components/CardGroup";
+import { CardListItem } from "@/components/CardListItem";
+import { CardCompactItem } from "@/components/CardCompactItem";
+import { useVirtualRows } from "@/hooks/useVirtualRows";
+import type { DisplayCard } from "@/hooks/useCollection";
+import styles from "./CardGrid.module.css";
+
+/** Compact thumbnail minimum width and grid gap (see .compactGrid) */
+const COMPACT_MIN_WIDTH = 80;
+const COMPACT_GAP = 8;
+
+/** Row height estimates; rows are measured once mounted */
+const ESTIMATED_HEADER_HEIGHT = 58;
+const ESTIMATED_LIST_ROW_HEIGHT = 122;
+const ESTIMATED_COMPACT_ROW_HEIGHT = 108;
+
+/**
+ * A group of cards sharing a group-by value.
+ */
+export interface CardGroupData {
+  key: string;
+  cards: DisplayCard[];
+}
+
+type VirtualRow =
+  | { type: "header"; key: string; group: CardGroupData; isCollapsed: boolean }
+  | { type: "cards"; key: string; cards: DisplayCard[]; firstNumber: number };
+
+interface VirtualCardListProps {
+  /** Layout to render */
+  variant: "list" | "compact";
+  /** Cards in display order */
+  cards: DisplayCard[];
+  /** Groups to render with headers, or null when not grouped */
+  groups: CardGroupData[] | null;
+  /** Keys of collapsed groups */
+  collapsedGroups: string[];
+  /** IDs of cards selected for batch actions */
+  selectedIds?: ReadonlySet<string>;
+}
+
+/**
+ * Split cards into rows of a given width.
+ */
+function chunkCards(
+  cards: DisplayCard[],
+  perRow: number,
+  keyPrefix: string
+): Extract<VirtualRow, { type: "cards" }>[] {
+  const rows: Extract<VirtualRow, { type: "cards" }>[] = [];
+  for (let start = 0; start < cards.length; start += perRow) {
+    const rowCards = cards.slice(start, start + perRow);
+    rows.push({
+      type: "cards",
+      key: `${keyPrefix}${rowCards[0]?.id ?? String(start)}`,
+      cards: rowCards,
+      firstNumber: start + 1,
+    });
+  }
+  return rows;
+}
+
+/**
+ * Windowed list/compact layout with sticky group headers.
+ */
+export function VirtualCardList({
+  variant,
+  cards,
+  groups,
+  collapsedGroups,
+  selectedIds,
+}: VirtualCardListProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [containerWidth, setContainerWidth] = useState(0);
+
+  // Compact rows hold as many thumbnails as the grid fits
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || variant !== "compact") return;
+
+    const updateWidth = () => {
+      setContainerWidth(container.clientWidth);
+    };
+
+    updateWidth();
+
+    const resizeObserver = new ResizeObserver(updateWidth);
+    resizeObserver.observe(container);
+
+    return () => {
+      resizeObserver.disconnect();
+    };
+  }, [variant]);
+
+  const perRow =
+    variant === "compact"
+      ? Math.max(1, Math.floor((containerWidth + COMPACT_GAP) / (COMPACT_MIN_WIDTH + COMPACT_GAP)))
+      : 1;
+
+  const rows = useMemo((): VirtualRow[] => {
+    if (!groups) {
+      return chunkCards(cards, perRow, "");
+    }
+
+    const result: VirtualRow[] = [];
+    for (const group of groups) {
+      const isCollapsed = collapsedGroups.includes(group.key);
+      result.push({ type: "header", key: `group:${group.key}`, group, isCollapsed });
+      if (!isCollapsed) {
+        result.push(...chunkCards(group.cards, perRow, `${group.key}:`));
+      }
+    }
+    return result;
+  }, [cards, groups, collapsedGroups, perRow]);
+
+  const stickyIndexes = useMemo(
+    () =>
+      rows.flatMap((row, index) => (row.type === "header" ? [index] : [])),
+    [rows]
+  );
+
+  const { virtualizer, activeStickyIndex, getRowOffset } = useVirtualRows({
+    count: rows.length,
+    estimateSize: (index) => {
+      if (rows[index]?.type === "header") return ESTIMATED_HEADER_HEIGHT;
+      return variant === "compact" ? ESTIMATED_COMPACT_ROW_HEIGHT : ESTIMATED_LIST_ROW_HEIGHT;
+    },
+    containerRef,
+    getItemKey: (index) => rows[index]?.key ?? index,
+    stickyIndexes,
+  });
+
+  return (
+    <div
+      ref={containerRef}
+      className={styles.virtualRows}
+      style={{ height: `${String(virtualizer.getTotalSize())}px` }}
+    >
+      {virtualizer.getVirtualItems().map((item) => {
+        const row = rows[item.index];
+        if (!row) return null;
+
+        const isActiveSticky = item.index === activeStickyIndex;
+        const className = [
+          styles.virtualRow,
+          row.type === "header" ? styles.virtualHeaderRow : "",
+          isActiveSticky ? styles.virtualRowSticky : "",
+        ]
+          .filter(Boolean)
+          .join(" ");
+
+        return (
+          <div
+            key={item.key}
+            ref={virtualizer.measureElement}
+            data-index={item.index}
+            className={className}
+            style={
+              isActiveSticky
+                ? undefined
+                : { transform: `translateY(${String(getRowOffset(item.start))}px)` }
+            }
+          >
+            {row.type === "header" ? (
+              <CardGroupHeader
+                groupKey={row.group.key}
+                cardCount={row.group.cards.length}
+                isCollapsed={row.isCollapsed}
+              />
+            ) : variant === "compact" ? (
+              <div className={styles.compactGrid}>
+                {row.cards.map((card, offset) => (
+                  <CardCompactItem
+                    key={card.id}
+                    card={card}
+                    cardNumber={row.firstNumber + offset}
+                    isSelected={selectedIds?.has(card.id)}
+                  />
+                ))}
+              </div>
+            ) : (
+              row.cards.map((card, offset) => (
+                <CardListItem
+                  key={card.id}
+                  card={card}
+                  cardNumber={row.firstNumber + offset}
+                  isSelected={selectedIds?.has(card.id)}
+                />
+              ))
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default VirtualCardList;
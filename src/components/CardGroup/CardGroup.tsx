@@ -1,5 +1,8 @@
 /**
  * CardGroup component for displaying grouped cards with collapsible headers.
+ *
+ * CardGroupHeader is also used on its own by virtualised layouts, which
+ * render headers and card rows as a flat list of rows.
  */
 
 import { useCallback } from "react";
@@ -38,15 +41,26 @@ function ChevronIcon({ isCollapsed }: { isCollapsed: boolean }) {
   );
 }
 
+interface CardGroupHeaderProps {
+  /** Group key (e.g., "Game Boy", "1990s") */
+  groupKey: string;
+  /** Number of cards in this group */
+  cardCount: number;
+  /** Whether the group is collapsed */
+  isCollapsed: boolean;
+  /** ID of the element holding the group's cards, if rendered */
+  controlsId?: string;
+}
+
 /**
- * Collapsible group header with card count.
+ * Clickable group header that toggles the group's collapsed state.
  */
-export function CardGroup({
+export function CardGroupHeader({
   groupKey,
   cardCount,
   isCollapsed,
-  children,
-}: CardGroupProps) {
+  controlsId,
+}: CardGroupHeaderProps) {
   const toggleGroupCollapse = useSettingsStore((state) => state.toggleGroupCollapse);
 
   const handleToggle = useCallback(() => {
@@ -63,27 +77,46 @@ export function CardGroup({
     [groupKey, toggleGroupCollapse]
   );
 
+  return (
+    <header
+      className={styles.header}
+      onClick={handleToggle}
+      onKeyDown={handleKeyDown}
+      role="button"
+      tabIndex={0}
+      aria-expanded={!isCollapsed}
+      aria-controls={controlsId}
+    >
+      <span className={styles.chevron}>
+        <ChevronIcon isCollapsed={isCollapsed} />
+      </span>
+      <h3 id={`group-${groupKey}`} className={styles.title}>
+        {groupKey}
+      </h3>
+      <span className={styles.count}>
+        {cardCount} {cardCount === 1 ? "card" : "cards"}
+      </span>
+    </header>
+  );
+}
+
+/**
+ * Collapsible group header with card count.
+ */
+export function CardGroup({
+  groupKey,
+  cardCount,
+  isCollapsed,
+  children,
+}: CardGroupProps) {
   return (
     <section className={styles.group} aria-labelledby={`group-${groupKey}`}>
-      <header
-        className={styles.header}
-        onClick={handleToggle}
-        onKeyDown={handleKeyDown}
-        role="button"
-        tabIndex={0}
-        aria-expanded={!isCollapsed}
-        aria-controls={`group-content-${groupKey}`}
-      >
-        <span className={styles.chevron}>
-          <ChevronIcon isCollapsed={isCollapsed} />
-        </span>
-        <h3 id={`group-${groupKey}`} className={styles.title}>
-          {groupKey}
-        </h3>
-        <span className={styles.count}>
-          {cardCount} {cardCount === 1 ? "card" : "cards"}
-        </span>
-      </header>
+      <CardGroupHeader
+        groupKey={groupKey}
+        cardCount={cardCount}
+        isCollapsed={isCollapsed}
+        controlsId={`group-content-${groupKey}`}
+      />
 
       <AnimatePresence initial={false}>
         {!isCollapsed && (
@@ -1 +1 @@
-export { CardGroup } from "./CardGroup";
+export { CardGroup, CardGroupHeader } from "./CardGroup";
@@ -18,6 +18,8 @@ interface CardListItemProps {
   cardNumber?: number;
   /** Tab index for keyboard navigation */
   tabIndex?: 0 | -1;
+  /** Whether the card is selected for batch actions */
+  isSelected?: boolean;
 }
 
 /**
@@ -27,13 +29,14 @@ export function CardListItem({
   card,
   cardNumber,
   tabIndex = 0,
+  isSelected = false,
 }: CardListItemProps) {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [originRect, setOriginRect] = useState<DOMRect | null>(null);
   // Mount CardExpanded lazily: each instance registers a window resize listener
   // (via useViewportSize) and several store subscriptions, so collapsed rows
-  // must not mount it — the list layout is not virtualised, so one instance per
-  // card would multiply into thousands. Once opened it stays mounted so its
+  // must not mount it — the list layout mounts every row near the viewport,
+  // and each would carry an idle instance. Once opened it stays mounted so its
   // AnimatePresence exit animation can play on close. Mirrors Card.tsx.
   const [hasOpenedExpanded, setHasOpenedExpanded] = useState(false);
 
@@ -65,7 +68,8 @@ export function CardListItem({
   return (
     <>
       <motion.article
-        className={styles.item}
+        className={[styles.item, isSelected ? styles.selected : ""].filter(Boolean).join(" ")}
+        data-card-id={card.id}
         onClick={handleClick}
         onKeyDown={handleKeyDown}
         role="button"
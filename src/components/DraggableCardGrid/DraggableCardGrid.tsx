@@ -2,9 +2,11 @@
  * Drag and drop card grid for custom ordering.
  *
  * Wraps cards with @dnd-kit for reordering via drag and drop.
+ * Only the rows near the viewport are mounted; the rows above and below are
+ * replaced by padding so the grid keeps its full height.
  */
 
-import { useCallback, useState, useMemo } from "react";
+import { useCallback, useEffect, useRef, useState, useMemo } from "react";
 import {
   DndContext,
   closestCenter,
@@ -26,6 +28,7 @@ import {
 import { CSS } from "@dnd-kit/utilities";
 import { Card } from "@/components/Card/Card";
 import type { DisplayCard } from "@/hooks/useCollection";
+import { useVirtualRows } from "@/hooks/useVirtualRows";
 import type { DragFace, CardBackDisplay } from "@/stores/settingsStore";
 import type { CardDisplayConfig } from "@/types/display";
 import styles from "./DraggableCardGrid.module.css";
@@ -40,6 +43,7 @@ interface DraggableCardGridProps {
   onReorder: (newOrder: string[]) => void;
   /** Card dimensions */
   cardWidth: number;
+  cardHeight: number;
   /** Gap between cards */
   gap: number;
   /** IDs of cards that are flipped */
@@ -179,6 +183,7 @@ function SortableCard({
  *   cards={cards}
  *   onReorder={(newOrder) => setCustomOrder(newOrder)}
  *   cardWidth={140}
+ *   cardHeight={196}
  *   gap={16}
  *   flippedCardIds={flipped}
  *   onFlip={handleFlip}
@@ -189,6 +194,7 @@ export function DraggableCardGrid({
   cards,
   onReorder,
   cardWidth,
+  cardHeight,
   gap,
   flippedCardIds,
   onFlip,
@@ -202,6 +208,27 @@ export function DraggableCardGrid({
   cardSize,
 }: DraggableCardGridProps) {
   const [activeId, setActiveId] = useState<string | null>(null);
+  const gridRef = useRef<HTMLDivElement>(null);
+  const [gridWidth, setGridWidth] = useState(0);
+
+  // Columns follow the auto-fill grid template
+  useEffect(() => {
+    const grid = gridRef.current;
+    if (!grid) return;
+
+    const updateWidth = () => {
+      setGridWidth(grid.clientWidth);
+    };
+
+    updateWidth();
+
+    const resizeObserver = new ResizeObserver(updateWidth);
+    resizeObserver.observe(grid);
+
+    return () => {
+      resizeObserver.disconnect();
+    };
+  }, []);
 
   // Configure sensors for drag detection
   // Desktop: small distance threshold for immediate drag
@@ -232,6 +259,32 @@ export function DraggableCardGrid({
     [cards, activeId]
   );
 
+  const flippedCardIdSet = useMemo(() => new Set(flippedCardIds), [flippedCardIds]);
+
+  // Windowed rendering by row; the dragged card's row stays mounted so
+  // dnd-kit keeps its sortable node while the page scrolls
+  const columns = Math.max(1, Math.floor((gridWidth + gap) / (cardWidth + gap)));
+  const rowCount = Math.ceil(cards.length / columns);
+  const rowHeight = cardHeight + gap;
+  const activeRow = activeId === null ? -1 : Math.floor(cardIds.indexOf(activeId) / columns);
+  const activeRows = useMemo(() => (activeRow >= 0 ? [activeRow] : []), [activeRow]);
+  const { virtualizer } = useVirtualRows({
+    count: rowCount,
+    estimateSize: () => rowHeight,
+    containerRef: gridRef,
+    pinnedIndexes: activeRows,
+  });
+
+  // CSS grid rows must be contiguous, so mount every row between the first
+  // and last virtual row and pad the rest
+  const virtualRows = virtualizer.getVirtualItems();
+  const firstRow = virtualRows[0]?.index ?? 0;
+  const lastRow = virtualRows[virtualRows.length - 1]?.index ?? -1;
+  const firstIndex = firstRow * columns;
+  const visibleCards = cards.slice(firstIndex, (lastRow + 1) * columns);
+  const paddingTop = firstRow * rowHeight;
+  const paddingBottom = Math.max(0, rowCount - lastRow - 1) * rowHeight;
+
   // Handle drag start
   const handleDragStart = useCallback((event: DragStartEvent) => {
     setActiveId(String(event.active.id));
@@ -266,16 +319,20 @@ export function DraggableCardGrid({
     >
       <SortableContext items={cardIds} strategy={rectSortingStrategy}>
         <div
+          ref={gridRef}
           className={styles.grid}
           style={{
             gap: `${String(gap)}px`,
             gridTemplateColumns: `repeat(auto-fill, ${String(cardWidth)}px)`,
+            paddingTop: `${String(paddingTop)}px`,
+            paddingBottom: `${String(paddingBottom)}px`,
           }}
           role="grid"
           aria-label="Draggable card collection"
         >
-          {cards.map((card, index) => {
-            const isFlipped = flippedCardIds.includes(card.id);
+          {visibleCards.map((card, offset) => {
+            const index = firstIndex + offset;
+            const isFlipped = flippedCardIdSet.has(card.id);
             // Determine which faces can be dragged based on dragFace setting
             const canDragFront = dragFace === "both" || dragFace === "front";
             const canDragBack = dragFace === "both" || dragFace === "back";
@@ -308,7 +365,7 @@ export function DraggableCardGrid({
           <div className={styles.overlay}>
             <Card
               card={activeCard}
-              isFlipped={flippedCardIds.includes(activeCard.id)}
+              isFlipped={flippedCardIdSet.has(activeCard.id)}
               tabIndex={-1}
               showRankBadge={showRankBadge}
               showFooterBadge={showFooterBadge}
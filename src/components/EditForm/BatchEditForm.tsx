@@ -0,0 +1,197 @@
+/**
+ * Batch edit form component.
+ *
+ * Modal form for setting one field to the same value on every selected card.
+ * Uses the same schema-derived fields as the edit form; the change is a
+ * single undo step. Leaving an optional field empty clears it.
+ */
+
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
+import { createPortal } from "react-dom";
+import { useEditsStore } from "@/stores/editsStore";
+import { useEscapeShortcut } from "@/hooks/useGlobalKeyboard";
+import { useCollectionData } from "@/context/CollectionDataContext";
+import { discoverEditFields } from "@/services/fieldDiscovery";
+import {
+  DEFAULT_CARD_EDIT_FIELDS,
+  getEntityLabel,
+  parseEditDraft,
+  toEditDraft,
+  type EditDraftValue,
+} from "@/utils/editFields";
+import { EditFieldInput, type ReferenceOption } from "./EditFieldInput";
+import styles from "./EditForm.module.css";
+
+interface BatchEditFormProps {
+  /** IDs of the cards to edit */
+  cardIds: string[];
+  /** Called when form is closed */
+  onClose: () => void;
+}
+
+/**
+ * Modal form for setting a field on several cards.
+ */
+export function BatchEditForm({ cardIds, onClose }: BatchEditFormProps) {
+  const setFieldForEntities = useEditsStore((s) => s.setFieldForEntities);
+  const { cards, definition, primaryType, entities } = useCollectionData();
+
+  const fields = useMemo(() => {
+    const discovered = definition && primaryType ? discoverEditFields(definition, primaryType) : [];
+    return discovered.length > 0 ? discovered : DEFAULT_CARD_EDIT_FIELDS;
+  }, [definition, primaryType]);
+
+  const [fieldName, setFieldName] = useState(() => fields[0]?.field ?? "");
+  const def = fields.find((candidate) => candidate.field === fieldName);
+  const [draft, setDraft] = useState<EditDraftValue>(() =>
+    def ? toEditDraft(def, undefined) : ""
+  );
+  const [error, setError] = useState<string | undefined>();
+
+  const modalRef = useRef<HTMLDivElement>(null);
+
+  // Focus the field picker on mount
+  useEffect(() => {
+    modalRef.current?.querySelector<HTMLElement>("select")?.focus();
+  }, []);
+
+  // Escape key closes modal
+  useEscapeShortcut(onClose, true);
+
+  const getReferenceOptions = useCallback(
+    (refType: string): ReferenceOption[] => {
+      const targets: (Record<string, unknown> & { id: string })[] =
+        entities && Object.hasOwn(entities, refType)
+          ? entities[refType] ?? []
+          : refType === primaryType
+            ? cards
+            : [];
+      return targets.map((entity) => ({ value: entity.id, label: getEntityLabel(entity) }));
+    },
+    [entities, primaryType, cards]
+  );
+
+  const handleBackdropClick = useCallback(
+    (e: React.MouseEvent) => {
+      if (e.target === e.currentTarget) {
+        onClose();
+      }
+    },
+    [onClose]
+  );
+
+  // A new field starts from an empty value
+  const handleFieldChange = useCallback(
+    (e: React.ChangeEvent<HTMLSelectElement>) => {
+      const next = fields.find((candidate) => candidate.field === e.target.value);
+      if (!next) return;
+      setFieldName(next.field);
+      setDraft(toEditDraft(next, undefined));
+      setError(undefined);
+    },
+    [fields]
+  );
+
+  const handleApply = useCallback(() => {
+    if (!def) return;
+    const result = parseEditDraft(def, draft);
+    if ("error" in result) {
+      setError(result.error);
+      return;
+    }
+
+    setFieldForEntities(cardIds, def.field, result.value);
+    onClose();
+  }, [def, draft, setFieldForEntities, cardIds, onClose]);
+
+  const handleSubmit = useCallback(
+    (e: React.FormEvent) => {
+      e.preventDefault();
+      handleApply();
+    },
+    [handleApply]
+  );
+
+  // Keep typing inside the form from triggering global shortcuts
+  const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
+    if (e.key === "Escape") return;
+    e.stopPropagation();
+  }, []);
+
+  const countLabel = `${String(cardIds.length)} ${cardIds.length === 1 ? "Item" : "Items"}`;
+
+  return createPortal(
+    <div
+      className={styles.overlay}
+      onClick={handleBackdropClick}
+      onKeyDown={handleKeyDown}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="batch-edit-form-title"
+    >
+      <div className={styles.modal} ref={modalRef}>
+        <div className={styles.header}>
+          <h2 id="batch-edit-form-title" className={styles.title}>
+            Edit {countLabel}
+          </h2>
+        </div>
+
+        <div className={styles.body}>
+          <form className={styles.form} onSubmit={handleSubmit}>
+            <div className={styles.field}>
+              <label htmlFor="batch-edit-field" className={styles.label}>
+                Field
+              </label>
+              <select
+                id="batch-edit-field"
+                className={styles.input}
+                value={fieldName}
+                onChange={handleFieldChange}
+              >
+                {fields.map((candidate) => (
+                  <option key={candidate.field} value={candidate.field}>
+                    {candidate.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {def && (
+              <EditFieldInput
+                key={def.field}
+                def={def}
+                id={`batch-${def.field}`}
+                value={draft}
+                error={error}
+                onChange={(next) => {
+                  setDraft(next);
+                  setError(undefined);
+                }}
+                referenceOptions={def.refType ? getReferenceOptions(def.refType) : undefined}
+              />
+            )}
+          </form>
+        </div>
+
+        <div className={styles.footer}>
+          <button
+            type="button"
+            className={[styles.button, styles.buttonSecondary].filter(Boolean).join(" ")}
+            onClick={onClose}
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            className={[styles.button, styles.buttonPrimary].filter(Boolean).join(" ")}
+            onClick={handleApply}
+          >
+            Apply to {countLabel}
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+}
+
+export default BatchEditForm;
@@ -0,0 +1,190 @@
+/**
+ * Create entity form component.
+ *
+ * Modal form for adding a new item to the collection locally. Uses the same
+ * schema-derived fields as the edit form; required fields must be filled in.
+ * The item is stored in the edits overlay with a generated ID.
+ */
+
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
+import { createPortal } from "react-dom";
+import { useEditsStore } from "@/stores/editsStore";
+import { useEscapeShortcut } from "@/hooks/useGlobalKeyboard";
+import { useCollectionData } from "@/context/CollectionDataContext";
+import { discoverEditFields } from "@/services/fieldDiscovery";
+import {
+  DEFAULT_CARD_EDIT_FIELDS,
+  getEntityLabel,
+  parseEditDraft,
+  toEditDraft,
+  type EditDraftValue,
+} from "@/utils/editFields";
+import { EditFieldInput, type ReferenceOption } from "./EditFieldInput";
+import styles from "./EditForm.module.css";
+
+/**
+ * Entity type used for created items when the collection has no schema.
+ */
+const DEFAULT_ENTITY_TYPE = "item";
+
+interface CreateEntityFormProps {
+  /** Called when form is closed */
+  onClose: () => void;
+  /** Called with the new entity's ID after it is created */
+  onCreated?: (entityId: string) => void;
+}
+
+/**
+ * Modal form for creating an entity locally.
+ */
+export function CreateEntityForm({ onClose, onCreated }: CreateEntityFormProps) {
+  const createEntity = useEditsStore((s) => s.createEntity);
+  const { cards, definition, primaryType, entities } = useCollectionData();
+
+  const fields = useMemo(() => {
+    const discovered = definition && primaryType ? discoverEditFields(definition, primaryType) : [];
+    return discovered.length > 0 ? discovered : DEFAULT_CARD_EDIT_FIELDS;
+  }, [definition, primaryType]);
+
+  const [formData, setFormData] = useState<Record<string, EditDraftValue>>(() =>
+    Object.fromEntries(fields.map((def) => [def.field, toEditDraft(def, undefined)]))
+  );
+  const [errors, setErrors] = useState<Record<string, string | undefined>>({});
+
+  const modalRef = useRef<HTMLDivElement>(null);
+
+  // Focus first input on mount
+  useEffect(() => {
+    modalRef.current?.querySelector<HTMLElement>("form input, form select, form textarea")?.focus();
+  }, []);
+
+  // Escape key closes modal
+  useEscapeShortcut(onClose, true);
+
+  const getReferenceOptions = useCallback(
+    (refType: string): ReferenceOption[] => {
+      const targets: (Record<string, unknown> & { id: string })[] =
+        entities && Object.hasOwn(entities, refType)
+          ? entities[refType] ?? []
+          : refType === primaryType
+            ? cards
+            : [];
+      return targets.map((entity) => ({ value: entity.id, label: getEntityLabel(entity) }));
+    },
+    [entities, primaryType, cards]
+  );
+
+  const handleBackdropClick = useCallback(
+    (e: React.MouseEvent) => {
+      if (e.target === e.currentTarget) {
+        onClose();
+      }
+    },
+    [onClose]
+  );
+
+  const handleChange = useCallback((field: string, value: EditDraftValue) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+    setErrors((prev) => ({ ...prev, [field]: undefined }));
+  }, []);
+
+  // Validate every field; empty optional fields are left out of the entity
+  const handleCreate = useCallback(() => {
+    const values: [string, unknown][] = [];
+    const nextErrors: Record<string, string> = {};
+
+    for (const def of fields) {
+      const draft = formData[def.field];
+      if (draft === undefined) continue;
+
+      const result = parseEditDraft(def, draft);
+      if ("error" in result) {
+        nextErrors[def.field] = result.error;
+      } else if (result.value !== null) {
+        values.push([def.field, result.value]);
+      }
+    }
+
+    if (Object.keys(nextErrors).length > 0) {
+      setErrors(nextErrors);
+      return;
+    }
+
+    const entityId = createEntity(primaryType ?? DEFAULT_ENTITY_TYPE, Object.fromEntries(values));
+    onCreated?.(entityId);
+    onClose();
+  }, [fields, formData, createEntity, primaryType, onCreated, onClose]);
+
+  const handleSubmit = useCallback(
+    (e: React.FormEvent) => {
+      e.preventDefault();
+      handleCreate();
+    },
+    [handleCreate]
+  );
+
+  // Keep typing inside the form from triggering global shortcuts
+  const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
+    if (e.key === "Escape") return;
+    e.stopPropagation();
+  }, []);
+
+  return createPortal(
+    <div
+      className={styles.overlay}
+      onClick={handleBackdropClick}
+      onKeyDown={handleKeyDown}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="create-form-title"
+    >
+      <div className={styles.modal} ref={modalRef}>
+        <div className={styles.header}>
+          <h2 id="create-form-title" className={styles.title}>
+            New Item
+          </h2>
+        </div>
+
+        <div className={styles.body}>
+          <form className={styles.form} onSubmit={handleSubmit}>
+            {fields.map((def) => {
+              const value = formData[def.field];
+              if (value === undefined) return null;
+              return (
+                <EditFieldInput
+                  key={def.field}
+                  def={def}
+                  id={`create-${def.field}`}
+                  value={value}
+                  error={errors[def.field]}
+                  onChange={(next) => { handleChange(def.field, next); }}
+                  referenceOptions={def.refType ? getReferenceOptions(def.refType) : undefined}
+                />
+              );
+            })}
+          </form>
+        </div>
+
+        <div className={styles.footer}>
+          <button
+            type="button"
+            className={[styles.button, styles.buttonSecondary].filter(Boolean).join(" ")}
+            onClick={onClose}
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            className={[styles.button, styles.buttonPrimary].filter(Boolean).join(" ")}
+            onClick={handleCreate}
+          >
+            Create
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+}
+
+export default CreateEntityForm;
@@ -0,0 +1,415 @@
+/**
+ * Edit field input component.
+ *
+ * Renders the input for one schema-derived edit field: text inputs, selects
+ * for enums and references, a checkbox for booleans, chips for lists, and
+ * row editors for ratings, detail links and images.
+ */
+
+import { useState } from "react";
+import {
+  MAX_EDIT_LIST_ITEMS,
+  type EditDraftValue,
+  type EditFieldDef,
+  type ImageDraft,
+  type LinkDraft,
+  type RatingDraft,
+} from "@/utils/editFields";
+import styles from "./EditForm.module.css";
+
+/**
+ * Option in a reference picker.
+ */
+export interface ReferenceOption {
+  /** Target entity ID */
+  value: string;
+  /** Display label */
+  label: string;
+}
+
+interface EditFieldInputProps {
+  /** Field definition */
+  def: EditFieldDef;
+  /** Element ID of the field's main input */
+  id: string;
+  /** Current draft value */
+  value: EditDraftValue;
+  /** Validation message */
+  error?: string;
+  /** Called with the new draft value */
+  onChange: (value: EditDraftValue) => void;
+  /** Entities that reference fields can point at */
+  referenceOptions?: ReferenceOption[];
+}
+
+/**
+ * Join class names, skipping empty ones.
+ */
+function cx(...classNames: (string | false | undefined)[]): string {
+  return classNames.filter(Boolean).join(" ");
+}
+
+/**
+ * Options for a select, keeping a current value that is not among them.
+ */
+function withCurrent(options: ReferenceOption[], current: string): ReferenceOption[] {
+  if (!current || options.some((option) => option.value === current)) return options;
+  return [{ value: current, label: current }, ...options];
+}
+
+/**
+ * Chips editor for list fields. Free text is added with Enter; enum and
+ * reference lists add from a select.
+ */
+function ListInput({
+  def,
+  id,
+  items,
+  invalid,
+  describedBy,
+  options,
+  onChange,
+}: {
+  def: EditFieldDef;
+  id: string;
+  items: string[];
+  invalid: boolean;
+  describedBy?: string;
+  options?: ReferenceOption[];
+  onChange: (items: string[]) => void;
+}) {
+  const [pending, setPending] = useState("");
+  const isFull = items.length >= MAX_EDIT_LIST_ITEMS;
+  const labelFor = (item: string) => options?.find((option) => option.value === item)?.label ?? item;
+
+  const addItem = (item: string) => {
+    const trimmed = item.trim();
+    if (!trimmed || items.includes(trimmed) || isFull) return;
+    onChange([...items, trimmed]);
+  };
+
+  return (
+    <>
+      {items.length > 0 && (
+        <ul className={styles.chips} aria-label={`${def.label} values`}>
+          {items.map((item) => (
+            <li key={item} className={styles.chip}>
+              <span>{labelFor(item)}</span>
+              <button
+                type="button"
+                className={styles.chipRemove}
+                onClick={() => { onChange(items.filter((other) => other !== item)); }}
+                aria-label={`Remove ${labelFor(item)}`}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {options ? (
+        <select
+          id={id}
+          className={styles.input}
+          value=""
+          onChange={(e) => { addItem(e.target.value); }}
+          disabled={isFull}
+          aria-invalid={invalid}
+          aria-describedby={describedBy}
+        >
+          <option value="">Add…</option>
+          {options
+            .filter((option) => !items.includes(option.value))
+            .map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+        </select>
+      ) : (
+        <input
+          id={id}
+          type="text"
+          className={styles.input}
+          value={pending}
+          onChange={(e) => { setPending(e.target.value); }}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              addItem(pending);
+              setPending("");
+            }
+          }}
+          placeholder="Type a value and press Enter"
+          disabled={isFull}
+          aria-invalid={invalid}
+          aria-describedby={describedBy}
+        />
+      )}
+    </>
+  );
+}
+
+/**
+ * Row editor for links and images.
+ */
+function EntryRowsInput<T extends LinkDraft | ImageDraft>({
+  def,
+  id,
+  entries,
+  columns,
+  emptyEntry,
+  addLabel,
+  invalid,
+  describedBy,
+  onChange,
+}: {
+  def: EditFieldDef;
+  id: string;
+  entries: T[];
+  columns: { key: Exclude<keyof T, "rest">; label: string; type?: string }[];
+  emptyEntry: T;
+  addLabel: string;
+  invalid: boolean;
+  describedBy?: string;
+  onChange: (entries: T[]) => void;
+}) {
+  const update = (index: number, key: keyof T, text: string) => {
+    onChange(entries.map((entry, i) => (i === index ? { ...entry, [key]: text } : entry)));
+  };
+
+  return (
+    <div className={styles.entryRows} role="group" aria-labelledby={`${id}-label`} aria-describedby={describedBy}>
+      {entries.map((entry, index) => (
+        <div key={index} className={styles.entryRow}>
+          {columns.map((column, columnIndex) => (
+            <input
+              key={String(column.key)}
+              id={index === 0 && columnIndex === 0 ? id : undefined}
+              type={column.type ?? "text"}
+              className={styles.input}
+              value={entry[column.key] as string}
+              onChange={(e) => { update(index, column.key, e.target.value); }}
+              placeholder={column.label}
+              aria-label={`${def.label} ${String(index + 1)} ${column.label}`}
+              aria-invalid={invalid && column.key === "url"}
+            />
+          ))}
+          <button
+            type="button"
+            className={styles.rowRemove}
+            onClick={() => { onChange(entries.filter((_, i) => i !== index)); }}
+            aria-label={`Remove ${def.label} ${String(index + 1)}`}
+          >
+            ×
+          </button>
+        </div>
+      ))}
+      {entries.length < MAX_EDIT_LIST_ITEMS && (
+        <button
+          type="button"
+          className={styles.addRowButton}
+          onClick={() => { onChange([...entries, emptyEntry]); }}
+        >
+          {addLabel}
+        </button>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Input for one schema-derived edit field, with its label and error.
+ */
+export function EditFieldInput({
+  def,
+  id,
+  value,
+  error,
+  onChange,
+  referenceOptions,
+}: EditFieldInputProps) {
+  const invalid = Boolean(error);
+  const describedBy = error ? `${id}-error` : undefined;
+
+  const renderControl = () => {
+    switch (def.kind) {
+      case "textarea":
+        return (
+          <textarea
+            id={id}
+            className={styles.textarea}
+            value={value as string}
+            onChange={(e) => { onChange(e.target.value); }}
+            placeholder={def.placeholder}
+            rows={3}
+            aria-invalid={invalid}
+            aria-describedby={describedBy}
+          />
+        );
+      case "boolean":
+        return null;
+      case "enum":
+      case "reference": {
+        const current = value as string;
+        const options =
+          def.kind === "enum"
+            ? (def.enumValues ?? []).map((option) => ({ value: option, label: option }))
+            : referenceOptions ?? [];
+        return (
+          <select
+            id={id}
+            className={styles.input}
+            value={current}
+            onChange={(e) => { onChange(e.target.value); }}
+            aria-invalid={invalid}
+            aria-describedby={describedBy}
+          >
+            <option value="">{def.required ? "Select…" : "None"}</option>
+            {withCurrent(options, current).map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        );
+      }
+      case "list":
+        return (
+          <ListInput
+            def={def}
+            id={id}
+            items={value as string[]}
+            invalid={invalid}
+            describedBy={describedBy}
+            options={
+              def.enumValues
+                ? def.enumValues.map((option) => ({ value: option, label: option }))
+                : def.refType
+                  ? referenceOptions ?? []
+                  : undefined
+            }
+            onChange={onChange}
+          />
+        );
+      case "rating": {
+        const rating = value as RatingDraft;
+        return (
+          <div className={styles.ratingRow}>
+            <input
+              id={id}
+              type="number"
+              step="any"
+              min={0}
+              className={styles.input}
+              value={rating.score}
+              onChange={(e) => { onChange({ ...rating, score: e.target.value }); }}
+              placeholder="Score"
+              aria-invalid={invalid}
+              aria-describedby={describedBy}
+            />
+            <span className={styles.hint}>out of</span>
+            <input
+              type="number"
+              step="any"
+              min={0}
+              className={styles.input}
+              value={rating.max}
+              onChange={(e) => { onChange({ ...rating, max: e.target.value }); }}
+              placeholder="5"
+              aria-label={`${def.label} maximum`}
+            />
+            <input
+              type="text"
+              className={styles.input}
+              value={rating.source}
+              onChange={(e) => { onChange({ ...rating, source: e.target.value }); }}
+              placeholder="Source"
+              aria-label={`${def.label} source`}
+            />
+          </div>
+        );
+      }
+      case "links":
+        return (
+          <EntryRowsInput<LinkDraft>
+            def={def}
+            id={id}
+            entries={value as LinkDraft[]}
+            columns={[
+              { key: "url", label: "URL", type: "url" },
+              { key: "source", label: "Source" },
+              { key: "label", label: "Label" },
+            ]}
+            emptyEntry={{ url: "", source: "", label: "", rest: {} }}
+            addLabel="Add link"
+            invalid={invalid}
+            describedBy={describedBy}
+            onChange={onChange}
+          />
+        );
+      case "images":
+        return (
+          <EntryRowsInput<ImageDraft>
+            def={def}
+            id={id}
+            entries={value as ImageDraft[]}
+            columns={[
+              { key: "url", label: "URL", type: "url" },
+              { key: "alt", label: "Alt text" },
+            ]}
+            emptyEntry={{ url: "", alt: "", rest: {} }}
+            addLabel="Add image"
+            invalid={invalid}
+            describedBy={describedBy}
+            onChange={onChange}
+          />
+        );
+      default:
+        return (
+          <input
+            id={id}
+            type={def.kind === "number" ? "number" : def.kind === "url" ? "url" : "text"}
+            step={def.kind === "number" ? "any" : undefined}
+            className={styles.input}
+            value={value as string}
+            onChange={(e) => { onChange(e.target.value); }}
+            placeholder={def.kind === "date" ? "YYYY-MM-DD" : def.placeholder}
+            aria-invalid={invalid}
+            aria-describedby={describedBy}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className={styles.field}>
+      {def.kind === "boolean" ? (
+        <label htmlFor={id} className={cx(styles.label, styles.checkboxLabel)}>
+          <input
+            id={id}
+            type="checkbox"
+            checked={value as boolean}
+            onChange={(e) => { onChange(e.target.checked); }}
+          />
+          {def.label}
+        </label>
+      ) : (
+        <>
+          <label id={`${id}-label`} htmlFor={id} className={styles.label}>
+            {def.label}
+            {def.required && <span className={styles.required}>*</span>}
+          </label>
+          {renderControl()}
+        </>
+      )}
+      {error && (
+        <span id={`${id}-error`} className={styles.error}>
+          {error}
+        </span>
+      )}
+    </div>
+  );
+}
+
+export default EditFieldInput;
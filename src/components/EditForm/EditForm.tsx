@@ -4,41 +4,40 @@
  * Modal form for editing entity fields locally.
  * Uses overlay pattern - edits are stored separately from source data.
  * Supports two tabs: Card (item) and Context (platform/category).
+ *
+ * Fields are generated from the collection schema (see discoverEditFields),
+ * with one input per field type. Collections without a schema (e.g. served
+ * from the offline cache) fall back to title, summary and verdict.
  */
 
-import { useState, useCallback, useEffect, useRef } from "react";
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
 import { createPortal } from "react-dom";
-import { z } from "zod";
-import { useEditsStore } from "@/stores/editsStore";
+import { toContextEditId, useEditsStore } from "@/stores/editsStore";
 import { useEscapeShortcut } from "@/hooks/useGlobalKeyboard";
+import { useCollectionData } from "@/context/CollectionDataContext";
+import { discoverEditFields } from "@/services/fieldDiscovery";
+import {
+  DEFAULT_CARD_EDIT_FIELDS,
+  DEFAULT_CONTEXT_EDIT_FIELDS,
+  getEntityLabel,
+  isSameDraft,
+  parseEditDraft,
+  toEditDraft,
+  type EditDraftValue,
+  type EditFieldDef,
+} from "@/utils/editFields";
 import type { DisplayCard } from "@/hooks/useCollection";
+import { EditFieldInput, type ReferenceOption } from "./EditFieldInput";
 import styles from "./EditForm.module.css";
 
 /** Active tab in the edit form */
 type EditTab = "card" | "context";
 
-/**
- * Card editable fields schema.
- * Only text fields are editable for safety.
- */
-const cardFieldsSchema = z.object({
-  title: z.string().min(1, "Title is required"),
-  summary: z.string().optional().nullable(),
-  myVerdict: z.string().optional().nullable(),
-});
-
-type CardFields = z.infer<typeof cardFieldsSchema>;
-
-/**
- * Context (platform) editable fields schema.
- * Only text fields are editable for safety.
- */
-const contextFieldsSchema = z.object({
-  title: z.string().min(1, "Title is required"),
-  summary: z.string().optional().nullable(),
-});
+/** Draft values by field name */
+type FieldDrafts = Record<string, EditDraftValue>;
 
-type ContextFields = z.infer<typeof contextFieldsSchema>;
+/** Validation messages by field name */
+type FieldErrors = Record<string, string | undefined>;
 
 interface EditFormProps {
   /** The card being edited */
@@ -48,26 +47,29 @@ interface EditFormProps {
 }
 
 /**
- * Get the context entity ID for edits store.
- * Prefixed with "context:" to distinguish from card IDs.
+ * Read an own field of an untrusted record.
  */
-function getContextEditId(contextId: string): string {
-  return `context:${contextId}`;
+function readField(record: Record<string, unknown> | undefined, field: string): unknown {
+  return record && Object.hasOwn(record, field) ? record[field] : undefined;
 }
 
 /**
- * Coerce an untrusted entity field to an editable string.
- *
- * The v2 entity schema is `.loose()`, so text fields may hold arbitrary JSON.
- * An object left as-is renders as "[object Object]" in the textarea and then
- * fails `cardFieldsSchema` on Save, leaving the modal open with no explanation.
- * Mirror the collection display coercion: keep strings, stringify numbers,
- * drop everything else.
+ * Build the drafts for a tab, preferring existing edits over source values.
  */
-function toEditableString(value: unknown): string | undefined {
-  if (typeof value === "string") return value;
-  if (typeof value === "number") return String(value);
-  return undefined;
+function buildDrafts(
+  fields: readonly EditFieldDef[],
+  source: Record<string, unknown>,
+  edited?: Record<string, unknown>
+): FieldDrafts {
+  return Object.fromEntries(
+    fields.map((def) => [
+      def.field,
+      toEditDraft(
+        def,
+        edited && Object.hasOwn(edited, def.field) ? edited[def.field] : readField(source, def.field)
+      ),
+    ])
+  );
 }
 
 /**
@@ -78,11 +80,12 @@ export function EditForm({ card, onClose }: EditFormProps) {
   const revertEntity = useEditsStore((s) => s.revertEntity);
   const hasEdits = useEditsStore((s) => s.hasEdits);
   const getEdit = useEditsStore((s) => s.getEdit);
+  const { cards, definition, primaryType, entities } = useCollectionData();
 
   // Determine if context tab should be available
   const hasContext = Boolean(card.categoryInfo?.id);
   const contextId = card.categoryInfo?.id;
-  const contextEditId = contextId ? getContextEditId(contextId) : null;
+  const contextEditId = contextId ? toContextEditId(contextId) : null;
 
   // Tab state
   const [activeTab, setActiveTab] = useState<EditTab>("card");
@@ -91,48 +94,92 @@ export function EditForm({ card, onClose }: EditFormProps) {
   const existingCardEdit = getEdit(card.id);
   const existingContextEdit = contextEditId ? getEdit(contextEditId) : undefined;
 
-  // Card form state - merge existing edits with source data
-  const [cardFormData, setCardFormData] = useState<CardFields>(() => {
-    const editTitle = existingCardEdit?.fields.title as string | undefined;
-    const editSummary = existingCardEdit?.fields.summary as string | undefined;
-    const editVerdict = existingCardEdit?.fields.myVerdict as string | undefined;
-    const cardSummary = card.summary;
-    const cardVerdict = toEditableString(card.myVerdict);
-
-    return {
-      title: editTitle ?? card.title,
-      summary: editSummary ?? cardSummary ?? null,
-      myVerdict: editVerdict ?? cardVerdict ?? null,
-    };
-  });
-
-  // Context form state - merge existing edits with source data
-  const [contextFormData, setContextFormData] = useState<ContextFields>(() => {
-    const editTitle = existingContextEdit?.fields.title as string | undefined;
-    const editSummary = existingContextEdit?.fields.summary as string | undefined;
-    const contextTitle = card.categoryInfo?.title ?? "";
-    const contextSummary = card.categoryInfo?.summary;
-
-    return {
-      title: editTitle ?? contextTitle,
-      summary: editSummary ?? contextSummary ?? null,
-    };
-  });
-
-  const [cardErrors, setCardErrors] = useState<Partial<Record<keyof CardFields, string>>>({});
-  const [contextErrors, setContextErrors] = useState<Partial<Record<keyof ContextFields, string>>>({});
+  const cardFields = useMemo(() => {
+    const discovered = definition && primaryType ? discoverEditFields(definition, primaryType) : [];
+    return discovered.length > 0 ? discovered : DEFAULT_CARD_EDIT_FIELDS;
+  }, [definition, primaryType]);
+
+  // Source entity before edits; the card itself when the raw entities are
+  // unavailable (cached data)
+  const rawCard = useMemo(
+    () => (primaryType ? entities?.[primaryType]?.find((entity) => entity.id === card.id) : undefined),
+    [entities, primaryType, card.id]
+  );
+  const cardSource: Record<string, unknown> = rawCard ?? card;
+
+  // The context entity is the one the card's reference field points at
+  const contextType = useMemo(
+    () =>
+      contextId
+        ? cardFields.find((def) => def.kind === "reference" && readField(cardSource, def.field) === contextId)
+            ?.refType
+        : undefined,
+    [cardFields, cardSource, contextId]
+  );
+
+  const contextFields = useMemo(() => {
+    const discovered = definition && contextType ? discoverEditFields(definition, contextType) : [];
+    return discovered.length > 0 ? discovered : DEFAULT_CONTEXT_EDIT_FIELDS;
+  }, [definition, contextType]);
+
+  const rawContext = useMemo(
+    () => (contextType ? entities?.[contextType]?.find((entity) => entity.id === contextId) : undefined),
+    [entities, contextType, contextId]
+  );
+  const contextSource: Record<string, unknown> = useMemo(
+    () =>
+      rawContext ?? {
+        ...card.categoryInfo?.additionalFields,
+        title: card.categoryInfo?.title ?? "",
+        summary: card.categoryInfo?.summary,
+      },
+    [rawContext, card.categoryInfo]
+  );
+
+  // Drafts of the unedited source values, to tell changes from reverts
+  const cardSourceDrafts = useMemo(() => buildDrafts(cardFields, cardSource), [cardFields, cardSource]);
+  const contextSourceDrafts = useMemo(
+    () => buildDrafts(contextFields, contextSource),
+    [contextFields, contextSource]
+  );
+
+  // Form state - existing edits merged over source data
+  const [cardFormData, setCardFormData] = useState<FieldDrafts>(() =>
+    buildDrafts(cardFields, cardSource, existingCardEdit?.fields)
+  );
+  const [contextFormData, setContextFormData] = useState<FieldDrafts>(() =>
+    buildDrafts(contextFields, contextSource, existingContextEdit?.fields)
+  );
+  const [initialCardData] = useState(cardFormData);
+  const [initialContextData] = useState(contextFormData);
+
+  const [cardErrors, setCardErrors] = useState<FieldErrors>({});
+  const [contextErrors, setContextErrors] = useState<FieldErrors>({});
 
   const modalRef = useRef<HTMLDivElement>(null);
-  const firstInputRef = useRef<HTMLInputElement>(null);
 
   // Focus first input on mount and tab change
   useEffect(() => {
-    firstInputRef.current?.focus();
+    modalRef.current?.querySelector<HTMLElement>("form input, form select, form textarea")?.focus();
   }, [activeTab]);
 
   // Escape key closes modal
   useEscapeShortcut(onClose, true);
 
+  // Entities each reference field can point at, by target type
+  const getReferenceOptions = useCallback(
+    (refType: string): ReferenceOption[] => {
+      const targets: (Record<string, unknown> & { id: string })[] =
+        entities && Object.hasOwn(entities, refType)
+          ? entities[refType] ?? []
+          : refType === primaryType
+            ? cards
+            : [];
+      return targets.map((entity) => ({ value: entity.id, label: getEntityLabel(entity) }));
+    },
+    [entities, primaryType, cards]
+  );
+
   // Handle backdrop click
   const handleBackdropClick = useCallback(
     (e: React.MouseEvent) => {
@@ -144,80 +191,121 @@ export function EditForm({ card, onClose }: EditFormProps) {
   );
 
   // Handle card field change
-  const handleCardChange = useCallback(
-    (field: keyof CardFields, value: string | null) => {
-      setCardFormData((prev) => ({ ...prev, [field]: value }));
-      setCardErrors((prev) => ({ ...prev, [field]: undefined }));
-    },
-    []
-  );
+  const handleCardChange = useCallback((field: string, value: EditDraftValue) => {
+    setCardFormData((prev) => ({ ...prev, [field]: value }));
+    setCardErrors((prev) => ({ ...prev, [field]: undefined }));
+  }, []);
 
   // Handle context field change
-  const handleContextChange = useCallback(
-    (field: keyof ContextFields, value: string | null) => {
-      setContextFormData((prev) => ({ ...prev, [field]: value }));
-      setContextErrors((prev) => ({ ...prev, [field]: undefined }));
-    },
-    []
-  );
+  const handleContextChange = useCallback((field: string, value: EditDraftValue) => {
+    setContextFormData((prev) => ({ ...prev, [field]: value }));
+    setContextErrors((prev) => ({ ...prev, [field]: undefined }));
+  }, []);
 
-  // Validate and save card
-  const handleSaveCard = useCallback(() => {
-    const cleanedData = {
-      title: cardFormData.title,
-      summary: cardFormData.summary ?? undefined,
-      myVerdict: cardFormData.myVerdict ?? undefined,
-    };
-
-    const result = cardFieldsSchema.safeParse(cleanedData);
-
-    if (!result.success) {
-      const fieldErrors: Partial<Record<keyof CardFields, string>> = {};
-      for (const issue of result.error.issues) {
-        const field = issue.path[0] as keyof CardFields;
-        fieldErrors[field] = issue.message;
+  /**
+   * Validate the changed fields of a tab and write them to the edits store.
+   * Fields changed back to their source value revert instead.
+   */
+  const saveTab = useCallback(
+    (
+      entityId: string,
+      fields: readonly EditFieldDef[],
+      formData: FieldDrafts,
+      initialData: FieldDrafts,
+      sourceDrafts: FieldDrafts,
+      source: Record<string, unknown>,
+      hasRawSource: boolean,
+      setErrors: (errors: FieldErrors) => void
+    ): boolean => {
+      const changes: Record<string, unknown> = {};
+      const reverts: string[] = [];
+      const errors: FieldErrors = {};
+
+      for (const def of fields) {
+        const draft = formData[def.field];
+        if (draft === undefined) continue;
+
+        // Text fields holding non-string source data (loose schema) are
+        // rewritten in their coerced form
+        const raw = readField(source, def.field);
+        const needsCoercion =
+          (def.kind === "text" || def.kind === "textarea") &&
+          raw !== null &&
+          raw !== undefined &&
+          typeof raw !== "string";
+        const initial = initialData[def.field];
+        if (!needsCoercion && initial !== undefined && isSameDraft(draft, initial)) continue;
+
+        const result = parseEditDraft(def, draft);
+        if ("error" in result) {
+          errors[def.field] = result.error;
+          continue;
+        }
+
+        const sourceDraft = sourceDrafts[def.field];
+        if (hasRawSource && !needsCoercion && sourceDraft !== undefined && isSameDraft(draft, sourceDraft)) {
+          reverts.push(def.field);
+        } else {
+          changes[def.field] = result.value;
+        }
       }
-      setCardErrors(fieldErrors);
-      return false;
-    }
 
-    setFields(card.id, {
-      title: result.data.title,
-      summary: result.data.summary ?? null,
-      myVerdict: result.data.myVerdict ?? null,
-    });
+      if (Object.keys(errors).length > 0) {
+        setErrors(errors);
+        return false;
+      }
 
-    return true;
-  }, [cardFormData, card.id, setFields]);
+      // One store update, so the whole save is a single undo step
+      const existingFields = getEdit(entityId)?.fields ?? {};
+      const revertFields = reverts.filter((field) => Object.hasOwn(existingFields, field));
+      if (Object.keys(changes).length > 0 || revertFields.length > 0) {
+        setFields(entityId, changes, revertFields);
+      }
+      return true;
+    },
+    [getEdit, setFields]
+  );
+
+  // Validate and save card
+  const handleSaveCard = useCallback(
+    () =>
+      saveTab(
+        card.id,
+        cardFields,
+        cardFormData,
+        initialCardData,
+        cardSourceDrafts,
+        cardSource,
+        rawCard !== undefined,
+        setCardErrors
+      ),
+    [saveTab, card.id, cardFields, cardFormData, initialCardData, cardSourceDrafts, cardSource, rawCard]
+  );
 
   // Validate and save context
   const handleSaveContext = useCallback(() => {
     if (!contextEditId) return true;
 
-    const cleanedData = {
-      title: contextFormData.title,
-      summary: contextFormData.summary ?? undefined,
-    };
-
-    const result = contextFieldsSchema.safeParse(cleanedData);
-
-    if (!result.success) {
-      const fieldErrors: Partial<Record<keyof ContextFields, string>> = {};
-      for (const issue of result.error.issues) {
-        const field = issue.path[0] as keyof ContextFields;
-        fieldErrors[field] = issue.message;
-      }
-      setContextErrors(fieldErrors);
-      return false;
-    }
-
-    setFields(contextEditId, {
-      title: result.data.title,
-      summary: result.data.summary ?? null,
-    });
-
-    return true;
-  }, [contextFormData, contextEditId, setFields]);
+    return saveTab(
+      contextEditId,
+      contextFields,
+      contextFormData,
+      initialContextData,
+      contextSourceDrafts,
+      contextSource,
+      rawContext !== undefined,
+      setContextErrors
+    );
+  }, [
+    saveTab,
+    contextEditId,
+    contextFields,
+    contextFormData,
+    initialContextData,
+    contextSourceDrafts,
+    contextSource,
+    rawContext,
+  ]);
 
   // Save current tab
   const handleSave = useCallback(() => {
@@ -251,7 +339,8 @@ export function EditForm({ card, onClose }: EditFormProps) {
     [handleSave]
   );
 
-  const cardHasEdits = hasEdits(card.id);
+  // Reverting a locally created card would remove it, so it has no revert
+  const cardHasEdits = hasEdits(card.id) && existingCardEdit?.created === undefined;
   const contextHasEdits = contextEditId ? hasEdits(contextEditId) : false;
   const currentTabHasEdits = activeTab === "card" ? cardHasEdits : contextHasEdits;
 
@@ -264,6 +353,11 @@ export function EditForm({ card, onClose }: EditFormProps) {
     e.stopPropagation();
   }, []);
 
+  const tabFields = activeTab === "card" ? cardFields : contextFields;
+  const tabData = activeTab === "card" ? cardFormData : contextFormData;
+  const tabErrors = activeTab === "card" ? cardErrors : contextErrors;
+  const handleTabChange = activeTab === "card" ? handleCardChange : handleContextChange;
+
   return createPortal(
     <div
       className={styles.overlay}
@@ -308,120 +402,21 @@ export function EditForm({ card, onClose }: EditFormProps) {
 
         <div className={styles.body}>
           <form className={styles.form} onSubmit={handleSubmit}>
-            {activeTab === "card" ? (
-              <>
-                {/* Card Title */}
-                <div className={styles.field}>
-                  <label htmlFor="edit-card-title" className={styles.label}>
-                    Title<span className={styles.required}>*</span>
-                  </label>
-                  <input
-                    ref={firstInputRef}
-                    id="edit-card-title"
-                    type="text"
-                    className={styles.input}
-                    value={cardFormData.title}
-                    onChange={(e) => { handleCardChange("title", e.target.value); }}
-                    aria-invalid={!!cardErrors.title}
-                    aria-describedby={cardErrors.title ? "edit-card-title-error" : undefined}
-                  />
-                  {cardErrors.title && (
-                    <span id="edit-card-title-error" className={styles.error}>
-                      {cardErrors.title}
-                    </span>
-                  )}
-                </div>
-
-                {/* Card Summary */}
-                <div className={styles.field}>
-                  <label htmlFor="edit-card-summary" className={styles.label}>
-                    Summary
-                  </label>
-                  <textarea
-                    id="edit-card-summary"
-                    className={styles.textarea}
-                    value={cardFormData.summary ?? ""}
-                    onChange={(e) => {
-                      handleCardChange("summary", e.target.value || null);
-                    }}
-                    placeholder="Brief description..."
-                    rows={3}
-                    aria-invalid={!!cardErrors.summary}
-                    aria-describedby={cardErrors.summary ? "edit-card-summary-error" : undefined}
-                  />
-                  {cardErrors.summary && (
-                    <span id="edit-card-summary-error" className={styles.error}>
-                      {cardErrors.summary}
-                    </span>
-                  )}
-                </div>
-
-                {/* My Verdict */}
-                <div className={styles.field}>
-                  <label htmlFor="edit-card-verdict" className={styles.label}>
-                    My Verdict
-                  </label>
-                  <textarea
-                    id="edit-card-verdict"
-                    className={styles.textarea}
-                    value={cardFormData.myVerdict ?? ""}
-                    onChange={(e) => {
-                      handleCardChange("myVerdict", e.target.value || null);
-                    }}
-                    placeholder="Your personal opinion..."
-                    rows={3}
-                    aria-invalid={!!cardErrors.myVerdict}
-                    aria-describedby={cardErrors.myVerdict ? "edit-card-verdict-error" : undefined}
-                  />
-                  {cardErrors.myVerdict && (
-                    <span id="edit-card-verdict-error" className={styles.error}>
-                      {cardErrors.myVerdict}
-                    </span>
-                  )}
-                </div>
-              </>
-            ) : (
-              <>
-                {/* Context Title */}
-                <div className={styles.field}>
-                  <label htmlFor="edit-context-title" className={styles.label}>
-                    Title<span className={styles.required}>*</span>
-                  </label>
-                  <input
-                    ref={firstInputRef}
-                    id="edit-context-title"
-                    type="text"
-                    className={styles.input}
-                    value={contextFormData.title}
-                    onChange={(e) => { handleContextChange("title", e.target.value); }}
-                    aria-invalid={!!contextErrors.title}
-                    aria-describedby={contextErrors.title ? "edit-context-title-error" : undefined}
-                  />
-                  {contextErrors.title && (
-                    <span id="edit-context-title-error" className={styles.error}>
-                      {contextErrors.title}
-                    </span>
-                  )}
-                </div>
-
-                {/* Context Summary */}
-                <div className={styles.field}>
-                  <label htmlFor="edit-context-summary" className={styles.label}>
-                    Summary
-                  </label>
-                  <textarea
-                    id="edit-context-summary"
-                    className={styles.textarea}
-                    value={contextFormData.summary ?? ""}
-                    onChange={(e) => {
-                      handleContextChange("summary", e.target.value || null);
-                    }}
-                    placeholder="Brief description..."
-                    rows={3}
-                  />
-                </div>
-              </>
-            )}
+            {tabFields.map((def) => {
+              const value = tabData[def.field];
+              if (value === undefined) return null;
+              return (
+                <EditFieldInput
+                  key={`${activeTab}-${def.field}`}
+                  def={def}
+                  id={`edit-${activeTab}-${def.field}`}
+                  value={value}
+                  error={tabErrors[def.field]}
+                  onChange={(next) => { handleTabChange(def.field, next); }}
+                  referenceOptions={def.refType ? getReferenceOptions(def.refType) : undefined}
+                />
+              );
+            })}
           </form>
         </div>
 
@@ -1,2 +1,4 @@
 export { EditForm } from "./EditForm";
+export { CreateEntityForm } from "./CreateEntityForm";
+export { BatchEditForm } from "./BatchEditForm";
 export { default } from "./EditForm";
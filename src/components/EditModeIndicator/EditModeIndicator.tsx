@@ -2,10 +2,12 @@
  * Edit mode indicator component.
  *
  * Shows a badge when edit mode is enabled, with click handler
- * to open settings panel.
+ * to open settings panel. Counts of locally created and deleted items are
+ * shown alongside.
  */
 
 import { useSettingsStore } from "@/stores/settingsStore";
+import { useEditsStore } from "@/stores/editsStore";
 import { EditIcon } from "@/components/Icons/Icons";
 import styles from "./EditModeIndicator.module.css";
 
@@ -20,6 +22,12 @@ interface EditModeIndicatorProps {
  */
 export function EditModeIndicator({ onClick }: EditModeIndicatorProps) {
   const editModeEnabled = useSettingsStore((state) => state.editModeEnabled);
+  const createdCount = useEditsStore(
+    (state) => Object.values(state.edits).filter((edit) => edit.created !== undefined).length
+  );
+  const deletedCount = useEditsStore(
+    (state) => Object.values(state.edits).filter((edit) => edit.deletedAt !== undefined).length
+  );
 
   if (!editModeEnabled) {
     return null;
@@ -34,6 +42,16 @@ export function EditModeIndicator({ onClick }: EditModeIndicatorProps) {
     >
       <EditIcon size={14} />
       <span className={styles.label}>Edit Mode</span>
+      {createdCount > 0 && (
+        <span className={styles.count} title={`${String(createdCount)} created locally`}>
+          +{createdCount}
+        </span>
+      )}
+      {deletedCount > 0 && (
+        <span className={styles.count} title={`${String(deletedCount)} deleted locally`}>
+          −{deletedCount}
+        </span>
+      )}
     </button>
   );
 }
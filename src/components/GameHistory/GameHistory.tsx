@@ -0,0 +1,223 @@
+/**
+ * Game history component.
+ *
+ * Leaderboard and history of finished games from the game results log,
+ * filterable by game, collection and difficulty. Shown in the Games panel.
+ */
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useActiveSourceUrl, useSources } from "@/stores/sourceStore";
+import { formatTime } from "@/mechanics/shared";
+import {
+  compareGameResults,
+  gameHistory,
+  type GameResult,
+  type GameResultSettings,
+} from "@/services/gameHistory";
+import styles from "./GameHistory.module.css";
+
+/**
+ * How results are ordered.
+ */
+type HistorySort = "best" | "recent";
+
+interface GameHistoryProps {
+  /** Games that can be filtered on */
+  mechanics: readonly { id: string; name: string }[];
+}
+
+/**
+ * Short description of the settings a game was played with,
+ * e.g. "Hard · 8 pairs".
+ */
+function formatGameSettings(settings: GameResultSettings): string {
+  const parts: string[] = [];
+  if (settings.field) parts.push(`By ${settings.field}`);
+  if (settings.difficulty) {
+    parts.push(settings.difficulty.charAt(0).toUpperCase() + settings.difficulty.slice(1));
+  }
+  if (settings.mode) {
+    parts.push(settings.mode.charAt(0).toUpperCase() + settings.mode.slice(1));
+  }
+  if (settings.pairCount !== undefined) parts.push(`${String(settings.pairCount)} pairs`);
+  if (settings.questionCount !== undefined) {
+    parts.push(`${String(settings.questionCount)} questions`);
+  }
+  if (settings.cardCount !== undefined) {
+    parts.push(settings.cardCount > 0 ? `${String(settings.cardCount)} cards` : "All cards");
+  }
+  if (settings.lives !== undefined) {
+    parts.push(settings.lives === 1 ? "1 life" : `${String(settings.lives)} lives`);
+  }
+  if (settings.target !== undefined) {
+    parts.push(settings.target > 0 ? `Race to ${String(settings.target)}` : "Endless");
+  }
+  if (settings.binCount !== undefined) parts.push(`${String(settings.binCount)} bins`);
+  if (settings.timeLimit !== undefined) parts.push(`${String(settings.timeLimit)}s limit`);
+  return parts.join(" · ");
+}
+
+/**
+ * Game history and leaderboard.
+ *
+ * @example
+ * ```tsx
+ * <GameHistory mechanics={manifests} />
+ * ```
+ */
+export function GameHistory({ mechanics }: GameHistoryProps) {
+  const activeSourceUrl = useActiveSourceUrl();
+  const sources = useSources();
+
+  const [mechanicId, setMechanicId] = useState(mechanics[0]?.id ?? "");
+  const [sourceId, setSourceId] = useState(activeSourceUrl);
+  const [difficulty, setDifficulty] = useState("");
+  const [sort, setSort] = useState<HistorySort>("best");
+  const [results, setResults] = useState<GameResult[] | null>(null);
+
+  // Difficulty is filtered here so its options reflect the other filters
+  useEffect(() => {
+    let cancelled = false;
+    void gameHistory
+      .getResults({ mechanicId: mechanicId || undefined, sourceId: sourceId || undefined })
+      .then((loaded) => {
+        if (!cancelled) setResults(loaded);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [mechanicId, sourceId]);
+
+  const difficulties = useMemo(
+    () =>
+      [...new Set((results ?? []).flatMap((result) => result.settings.difficulty ?? []))].sort(),
+    [results]
+  );
+
+  const shown = useMemo(() => {
+    const filtered = (results ?? []).filter(
+      (result) => !difficulty || result.settings.difficulty === difficulty
+    );
+    // Results arrive most recent first
+    return sort === "best" ? [...filtered].sort(compareGameResults) : filtered;
+  }, [results, difficulty, sort]);
+
+  const mechanicNames = useMemo(
+    () => new Map(mechanics.map((mechanic) => [mechanic.id, mechanic.name])),
+    [mechanics]
+  );
+
+  const sourceNames = useMemo(
+    () => new Map(sources.map((source) => [source.url, source.name ?? source.url])),
+    [sources]
+  );
+
+  const handleClear = useCallback(() => {
+    if (!window.confirm("Delete all game history?")) return;
+    void gameHistory.clear().then(() => {
+      setResults([]);
+    });
+  }, []);
+
+  return (
+    <div className={styles.history}>
+      <div className={styles.filters}>
+        <label className={styles.filter}>
+          Game
+          <select value={mechanicId} onChange={(e) => { setMechanicId(e.target.value); }}>
+            <option value="">All games</option>
+            {mechanics.map((mechanic) => (
+              <option key={mechanic.id} value={mechanic.id}>
+                {mechanic.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className={styles.filter}>
+          Collection
+          <select value={sourceId} onChange={(e) => { setSourceId(e.target.value); }}>
+            <option value="">All collections</option>
+            {sources.map((source) => (
+              <option key={source.id} value={source.url}>
+                {source.name ?? source.url}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className={styles.filter}>
+          Difficulty
+          <select value={difficulty} onChange={(e) => { setDifficulty(e.target.value); }}>
+            <option value="">Any difficulty</option>
+            {difficulties.map((level) => (
+              <option key={level} value={level}>
+                {formatGameSettings({ difficulty: level })}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className={styles.filter}>
+          Order
+          <select
+            value={sort}
+            onChange={(e) => { setSort(e.target.value === "recent" ? "recent" : "best"); }}
+          >
+            <option value="best">Best scores</option>
+            <option value="recent">Most recent</option>
+          </select>
+        </label>
+      </div>
+
+      {results === null ? (
+        <div className={styles.status}>Loading history...</div>
+      ) : shown.length === 0 ? (
+        <div className={styles.status}>No games played yet with these filters.</div>
+      ) : (
+        <table className={styles.table}>
+          <thead>
+            <tr>
+              <th scope="col" className={styles.numeric}>#</th>
+              <th scope="col">Game</th>
+              <th scope="col" className={styles.numeric}>Score</th>
+              <th scope="col" className={styles.numeric}>Time</th>
+              <th scope="col">Date</th>
+            </tr>
+          </thead>
+          <tbody>
+            {shown.map((result, index) => (
+              <tr key={result.id}>
+                <td className={styles.numeric}>{index + 1}</td>
+                <td>
+                  {mechanicNames.get(result.mechanicId) ?? result.mechanicId}
+                  <div className={styles.muted}>
+                    {[
+                      formatGameSettings(result.settings),
+                      sourceId ? "" : sourceNames.get(result.sourceId) ?? result.sourceId,
+                    ]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </div>
+                </td>
+                <td className={styles.numeric}>
+                  {result.score}
+                  {result.maxScore !== undefined && (
+                    <span className={styles.muted}>/{result.maxScore}</span>
+                  )}
+                </td>
+                <td className={styles.numeric}>{formatTime(result.durationMs)}</td>
+                <td>{new Date(result.completedAt).toLocaleDateString()}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {results !== null && results.length > 0 && (
+        <button type="button" className={styles.clearButton} onClick={handleClear}>
+          Clear History
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default GameHistory;
@@ -0,0 +1,2 @@
+export { GameHistory } from "./GameHistory";
+export { default } from "./GameHistory";
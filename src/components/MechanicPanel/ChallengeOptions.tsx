@@ -0,0 +1,121 @@
+/**
+ * Challenge options for a seeded game.
+ *
+ * Shown in the game configuration step for mechanics that take a seed.
+ * Offers the collection's daily challenge and a link that lets someone else
+ * play the same game with the same settings.
+ */
+
+import { useCallback, useState } from "react";
+import { useActiveSourceUrl } from "@/stores/sourceStore";
+import {
+  buildChallengeUrl,
+  createGameSeed,
+  getDailySeed,
+} from "@/mechanics/shared/utils";
+import styles from "./MechanicPanel.module.css";
+
+interface ChallengeOptionsProps {
+  /** Mechanic being configured */
+  mechanicId: string;
+  /** Pending settings, including the seed */
+  settings: Record<string, unknown>;
+  /** Update the seed (null plays a random game) */
+  onSeedChange: (seed: number | null) => void;
+}
+
+/**
+ * Daily challenge toggle and share link for the pending game.
+ *
+ * @example
+ * ```tsx
+ * <ChallengeOptions mechanicId="memory" settings={pending} onSeedChange={setSeed} />
+ * ```
+ */
+export function ChallengeOptions({ mechanicId, settings, onSeedChange }: ChallengeOptionsProps) {
+  const sourceUrl = useActiveSourceUrl();
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const seed = typeof settings.seed === "number" ? settings.seed : null;
+  const dailySeed = sourceUrl ? getDailySeed(sourceUrl) : null;
+  const isDaily = seed !== null && seed === dailySeed;
+
+  const handleDailyChange = useCallback(
+    (enabled: boolean) => {
+      onSeedChange(enabled ? dailySeed : null);
+      setShareUrl(null);
+    },
+    [onSeedChange, dailySeed]
+  );
+
+  const handleShare = useCallback(() => {
+    if (!sourceUrl) return;
+
+    // Sharing a random game fixes its seed so both players get the same one
+    const shareSeed = seed ?? createGameSeed();
+    if (seed === null) onSeedChange(shareSeed);
+
+    const url = buildChallengeUrl(
+      {
+        mechanicId,
+        seed: shareSeed,
+        settings: Object.fromEntries(Object.entries(settings).filter(([key]) => key !== "seed")),
+      },
+      sourceUrl
+    );
+    setShareUrl(url);
+    setCopied(false);
+    // The clipboard API is missing outside secure contexts, so any failure
+    // leaves the link in the text field for manual copying
+    void Promise.resolve()
+      .then(() => navigator.clipboard.writeText(url))
+      .then(
+        () => { setCopied(true); },
+        () => { setCopied(false); }
+      );
+  }, [sourceUrl, seed, onSeedChange, mechanicId, settings]);
+
+  // Challenges are tied to a collection URL
+  if (!sourceUrl) return null;
+
+  return (
+    <div className={styles.challenge}>
+      <label className={styles.challengeToggle}>
+        <input
+          type="checkbox"
+          checked={isDaily}
+          onChange={(e) => { handleDailyChange(e.target.checked); }}
+        />
+        Daily challenge
+      </label>
+      <p className={styles.challengeHint}>
+        {isDaily
+          ? "Everyone playing this collection today gets the same game."
+          : seed !== null
+            ? `Challenge game #${String(seed)}`
+            : "Random game"}
+      </p>
+      <button type="button" className={styles.challengeButton} onClick={handleShare}>
+        Copy Challenge Link
+      </button>
+      {shareUrl && (
+        <>
+          <input
+            type="text"
+            className={styles.challengeLink}
+            value={shareUrl}
+            readOnly
+            aria-label="Challenge link"
+            onFocus={(e) => { e.target.select(); }}
+          />
+          <p className={styles.challengeHint} role="status">
+            {copied ? "Link copied to clipboard" : "Copy the link above to share it"}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default ChallengeOptions;
@@ -13,13 +13,21 @@ import { createPortal } from "react-dom";
 import { mechanicRegistry, useMechanicContext, type Mechanic } from "@/mechanics";
 import { useSettingsStore } from "@/stores/settingsStore";
 import { useCollectionData } from "@/context/CollectionDataContext";
+import { useFilterFields } from "@/hooks/useFilterFields";
 import { useOverlay } from "@/hooks/useOverlay";
+import { GameHistory } from "@/components/GameHistory";
 import type { MechanicManifest } from "@/mechanics";
+import { hasRequiredFields, type GameChallenge } from "@/mechanics/shared/utils";
+import { ChallengeOptions } from "./ChallengeOptions";
 import styles from "./MechanicPanel.module.css";
 
 interface MechanicPanelProps {
   isOpen: boolean;
   onClose: () => void;
+  /** Challenge from a shared link, opened for configuration once loaded */
+  challenge?: GameChallenge | null;
+  /** Called once the challenge has been opened */
+  onChallengeOpened?: () => void;
 }
 
 /**
@@ -52,7 +60,7 @@ function CloseIcon() {
 /**
  * MechanicPanel component.
  */
-export function MechanicPanel({ isOpen, onClose }: MechanicPanelProps) {
+export function MechanicPanel({ isOpen, onClose, challenge = null, onChallengeOpened }: MechanicPanelProps) {
   const panelRef = useRef<HTMLDivElement>(null);
   const [mechanics, setMechanics] = useState<MechanicManifest[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -64,10 +72,13 @@ export function MechanicPanel({ isOpen, onClose }: MechanicPanelProps) {
   // Pending settings before game starts
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const [pendingSettings, setPendingSettings] = useState<Record<string, any> | null>(null);
+  // Game history replaces the mechanic list while shown
+  const [showHistory, setShowHistory] = useState(false);
 
   const activeMechanicId = useSettingsStore((s) => s.activeMechanicId);
   const { mechanic: activeMechanicInstance, state: mechanicState, activateMechanic, deactivateMechanic } = useMechanicContext();
   const { cards } = useCollectionData();
+  const filterFields = useFilterFields();
   const cardCount = cards.length;
 
   // Use shared overlay hook for consistent behaviour
@@ -106,7 +117,7 @@ export function MechanicPanel({ isOpen, onClose }: MechanicPanelProps) {
 
   // Handle mechanic selection (first step - show configuration)
   const handlePreSelect = useCallback(
-    async (mechanicId: string | null) => {
+    async (mechanicId: string | null, linkChallenge?: GameChallenge) => {
       if (mechanicId === null) {
         // Deselect / cancel selection
         setSelectedMechanicId(null);
@@ -128,8 +139,14 @@ export function MechanicPanel({ isOpen, onClose }: MechanicPanelProps) {
         const mechanic = await mechanicRegistry.load(mechanicId);
         setSelectedMechanicId(mechanicId);
         setSelectedMechanic(mechanic);
-        // Initialise pending settings with defaults
-        setPendingSettings(mechanic.defaultSettings ?? {});
+        // Initialise pending settings with defaults, then any settings
+        // from a challenge link the mechanic accepts
+        setPendingSettings({
+          ...(mechanic.defaultSettings ?? {}),
+          ...(linkChallenge && mechanic.parseSettings
+            ? { ...mechanic.parseSettings(linkChallenge.settings), seed: linkChallenge.seed }
+            : {}),
+        });
       } catch (err) {
         setError(err instanceof Error ? err.message : "Failed to load mechanic");
       }
@@ -137,6 +154,16 @@ export function MechanicPanel({ isOpen, onClose }: MechanicPanelProps) {
     [activeMechanicId]
   );
 
+  // Open a challenge from a shared link once the mechanics have loaded
+  useEffect(() => {
+    if (!isOpen || isLoading || !challenge) return;
+    onChallengeOpened?.();
+    setShowHistory(false);
+    if (mechanics.some((m) => m.id === challenge.mechanicId)) {
+      void handlePreSelect(challenge.mechanicId, challenge);
+    }
+  }, [isOpen, isLoading, challenge, onChallengeOpened, mechanics, handlePreSelect]);
+
   // Handle starting the game (second step - activate with settings)
   const handleStartGame = useCallback(async () => {
     if (!selectedMechanicId || !selectedMechanic) return;
@@ -171,6 +198,10 @@ export function MechanicPanel({ isOpen, onClose }: MechanicPanelProps) {
     setPendingSettings((prev) => ({ ...prev, ...newSettings }));
   }, []);
 
+  const handlePendingSeedChange = useCallback((seed: number | null) => {
+    setPendingSettings((prev) => ({ ...prev, seed }));
+  }, []);
+
   // ADR-020: Get settings from active mechanic via interface
   // Depend on mechanicState to re-render when settings change
   const mechanicSettings = activeMechanicInstance?.getSettings
@@ -213,7 +244,18 @@ export function MechanicPanel({ isOpen, onClose }: MechanicPanelProps) {
           <div className={styles.headerIcon}>
             <GameControllerIcon />
           </div>
-          <h2 id="mechanic-panel-title" className={styles.title}>Games</h2>
+          <h2 id="mechanic-panel-title" className={styles.title}>
+            {showHistory ? "Game History" : "Games"}
+          </h2>
+          {!isLoading && !error && (
+            <button
+              type="button"
+              className={styles.historyButton}
+              onClick={() => { setShowHistory((prev) => !prev); }}
+            >
+              {showHistory ? "Back" : "History"}
+            </button>
+          )}
           <button
             type="button"
             className={styles.closeButton}
@@ -233,7 +275,11 @@ export function MechanicPanel({ isOpen, onClose }: MechanicPanelProps) {
             <div className={styles.error}>{error}</div>
           )}
 
-          {!isLoading && !error && (
+          {!isLoading && !error && showHistory && (
+            <GameHistory mechanics={mechanics} />
+          )}
+
+          {!isLoading && !error && !showHistory && (
             <>
               {/* Active mechanic display */}
               {activeMechanic && (
@@ -299,9 +345,11 @@ export function MechanicPanel({ isOpen, onClose }: MechanicPanelProps) {
                 </button>
               )}
 
-              {/* Mechanic options - hide active mechanic (already shown in ACTIVE section above) */}
+              {/* Mechanic options - hide active mechanic (already shown in ACTIVE section above)
+                  and mechanics whose required fields this collection lacks */}
               {mechanics
                 .filter((manifest) => manifest.id !== activeMechanicId)
+                .filter((manifest) => hasRequiredFields(manifest, cards, filterFields))
                 .map((manifest) => {
                   const Icon = manifest.icon;
                   const minCards = manifest.minCards ?? 1;
@@ -346,7 +394,7 @@ export function MechanicPanel({ isOpen, onClose }: MechanicPanelProps) {
         </div>
 
         {/* Configuration overlay - appears on top of the selection panel */}
-        {selectedManifest && selectedMechanic && !activeMechanic && (
+        {selectedManifest && selectedMechanic && !activeMechanic && !showHistory && (
           <div
             className={styles.configOverlay}
             onClick={(e) => { e.stopPropagation(); }}
@@ -374,6 +422,15 @@ export function MechanicPanel({ isOpen, onClose }: MechanicPanelProps) {
                 </div>
               )}
 
+              {/* Seeded mechanics can be played as a daily or shared challenge */}
+              {pendingSettings && selectedMechanic.parseSettings && (
+                <ChallengeOptions
+                  mechanicId={selectedManifest.id}
+                  settings={pendingSettings as Record<string, unknown>}
+                  onSeedChange={handlePendingSeedChange}
+                />
+              )}
+
               {/* Action buttons */}
               <div className={styles.configActions}>
                 <button
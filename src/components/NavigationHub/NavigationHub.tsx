@@ -3,12 +3,12 @@
  *
  * Collapsible navigation hub with staggered expand/collapse animation.
  * - Always visible: Help (very bottom) + Navigation toggle (above Help)
- * - Expandable: Settings, Games, Search, View (revealed above Navigation)
+ * - Expandable: Settings, Games, Search, View, Saved views, Achievements (revealed above Navigation)
  *
  * Layout from bottom to top (column-reverse):
  * - Help (very bottom, always visible, closest to thumb)
  * - Navigation toggle (above Help, always visible)
- * - [Expandable: Settings, Games, Search, View] (appear above Navigation)
+ * - [Expandable: Settings, Games, Search, View, Saved views, Achievements] (appear above Navigation)
  *
  * @see F-085: Collapsible Navigation Hub
  */
@@ -147,6 +147,42 @@ function ViewIcon() {
   );
 }
 
+function BookmarkIcon() {
+  return (
+    <svg
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      aria-hidden="true"
+    >
+      <path d="M19 21l-7-5-7 5V5a2 2 0 0 1 2-2h10a2 2 0 0 1 2 2z" />
+    </svg>
+  );
+}
+
+function TrophyIcon() {
+  return (
+    <svg
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      aria-hidden="true"
+    >
+      <path d="M8 21h8" />
+      <path d="M12 17v4" />
+      <path d="M7 4h10v5a5 5 0 0 1-10 0V4z" />
+      <path d="M17 5h3v2a3 3 0 0 1-3 3" />
+      <path d="M7 5H4v2a3 3 0 0 0 3 3" />
+    </svg>
+  );
+}
+
 // ============================================================================
 // Animation Variants
 // ============================================================================
@@ -174,7 +210,7 @@ const buttonVariants = {
     y: 20,
     transition: {
       duration: 0.15,
-      delay: (3 - index) * 0.03, // Reverse stagger on exit
+      delay: (5 - index) * 0.03, // Reverse stagger on exit
     },
   }),
 };
@@ -194,6 +230,10 @@ interface NavigationHubProps {
   onSettingsClick: () => void;
   /** Callback when View button is clicked */
   onViewClick: () => void;
+  /** Callback when Saved views button is clicked (button hidden when absent) */
+  onSavedViewsClick?: () => void;
+  /** Callback when Achievements button is clicked (button hidden when absent) */
+  onAchievementsClick?: () => void;
   /** Whether all buttons should be disabled (e.g., during gameplay) */
   disabled?: boolean;
   /** Whether the Help button is visible */
@@ -217,7 +257,8 @@ interface NavigationHubProps {
  *
  * A collapsible navigation hub with staggered expand/collapse animation.
  * Help button is always visible at the top. Navigation toggle at the bottom
- * reveals View, Search, Games, and Settings buttons when clicked.
+ * reveals Achievements, Saved views, View, Search, Games, and Settings buttons
+ * when clicked.
  */
 export function NavigationHub({
   onHelpClick,
@@ -225,6 +266,8 @@ export function NavigationHub({
   onGamesClick,
   onSettingsClick,
   onViewClick,
+  onSavedViewsClick,
+  onAchievementsClick,
   disabled = false,
   showHelpButton = true,
   showSettingsButton = true,
@@ -388,7 +431,7 @@ export function NavigationHub({
               </motion.button>
             )}
 
-            {/* View - index 3 (furthest from Navigation, last to appear) */}
+            {/* View - index 3 */}
             {showViewButton && (
               <motion.button
                 type="button"
@@ -408,6 +451,48 @@ export function NavigationHub({
                 <ViewIcon />
               </motion.button>
             )}
+
+            {/* Saved views - index 4 */}
+            {onSavedViewsClick && (
+              <motion.button
+                type="button"
+                className={getButtonClass(styles.button, styles.buttonSecondary, (disabled || isMechanicActive) && styles.buttonDisabled)}
+                onClick={onSavedViewsClick}
+                disabled={disabled || isMechanicActive}
+                aria-label="Open saved views"
+                title="Saved views (Ctrl+B)"
+                custom={4}
+                variants={buttonVariants}
+                initial="hidden"
+                animate="visible"
+                exit="exit"
+                whileHover={disabled || isMechanicActive ? {} : { scale: 1.1 }}
+                whileTap={disabled || isMechanicActive ? {} : { scale: 0.95 }}
+              >
+                <BookmarkIcon />
+              </motion.button>
+            )}
+
+            {/* Achievements - index 5 (top of the stack) */}
+            {onAchievementsClick && (
+              <motion.button
+                type="button"
+                className={getButtonClass(styles.button, styles.buttonSecondary, disabled && styles.buttonDisabled)}
+                onClick={onAchievementsClick}
+                disabled={disabled}
+                aria-label="Open achievements"
+                title="Achievements"
+                custom={5}
+                variants={buttonVariants}
+                initial="hidden"
+                animate="visible"
+                exit="exit"
+                whileHover={disabled ? {} : { scale: 1.1 }}
+                whileTap={disabled ? {} : { scale: 0.95 }}
+              >
+                <TrophyIcon />
+              </motion.button>
+            )}
           </>
         )}
       </AnimatePresence>
@@ -2,21 +2,26 @@
  * FilterChips component for displaying and managing active filters.
  *
  * Shows dismissible chips for each active filter and provides
- * dropdowns for adding new filters.
+ * dropdowns for adding new filters. Clicking a chip reopens its values
+ * for editing. The available fields come from the collection schema
+ * (see useFilterFields).
  */
 
 import { useState, useCallback, useRef, useEffect } from "react";
 import { useSettingsStore } from "@/stores/settingsStore";
-import { FILTER_FIELD_DEFS } from "@/utils/filterMatch";
+import {
+  formatFilterRange,
+  formatFilterValue,
+  type ActiveFilter,
+  type ActiveFilterRange,
+  type FilterField,
+} from "@/utils/filterMatch";
+import { RangeFilter } from "./RangeFilter";
 import styles from "./FilterChips.module.css";
 
 interface FilterChipsProps {
-  /** Available filter options */
-  filterOptions?: {
-    platforms: string[];
-    years: number[];
-    genres: string[];
-  };
+  /** Filter fields with their available options */
+  filterFields?: FilterField[];
 }
 
 function CloseIcon() {
@@ -69,30 +74,51 @@ function FilterIcon() {
   );
 }
 
+/**
+ * Text shown in a chip for an active filter.
+ */
+function getChipValueText(
+  filter: ActiveFilter,
+  fieldDef: FilterField | undefined
+): string | undefined {
+  if (filter.range) return formatFilterRange(filter.range);
+  if (filter.values.length > 1) return `${String(filter.values.length)} selected`;
+  const [value] = filter.values;
+  return value !== undefined ? formatFilterValue(fieldDef?.kind ?? "value", value) : undefined;
+}
+
 /**
  * Individual filter chip.
  */
 function FilterChip({
-  field,
-  values,
+  label,
+  valueText,
+  onEdit,
   onRemove,
 }: {
-  field: string;
-  values: string[];
+  label: string;
+  valueText: string | undefined;
+  onEdit?: () => void;
   onRemove: () => void;
 }) {
-  // Map field names to display labels (single source of truth: FILTER_FIELD_DEFS)
-  const fieldLabels: Record<string, string> = Object.fromEntries(
-    FILTER_FIELD_DEFS.map((d) => [d.field, d.label])
-  );
-
-  const label = fieldLabels[field] ?? field;
-  const valueText = values.length > 1 ? `${String(values.length)} selected` : values[0];
-
   return (
     <span className={styles.chip}>
-      <span className={styles.chipLabel}>{label}:</span>
-      <span className={styles.chipValue}>{valueText}</span>
+      {onEdit ? (
+        <button
+          type="button"
+          className={styles.chipEdit}
+          onClick={onEdit}
+          aria-label={`Edit ${label} filter`}
+        >
+          <span className={styles.chipLabel}>{label}:</span>
+          <span className={styles.chipValue}>{valueText}</span>
+        </button>
+      ) : (
+        <>
+          <span className={styles.chipLabel}>{label}:</span>
+          <span className={styles.chipValue}>{valueText}</span>
+        </>
+      )}
       <button
         type="button"
         className={styles.chipRemove}
@@ -107,17 +133,27 @@ function FilterChip({
 
 /**
  * Add filter dropdown.
+ *
+ * Open state is owned by FilterChips so a chip can open the dropdown
+ * straight at its own field.
  */
 function AddFilterDropdown({
-  filterOptions,
+  filterFields,
+  isOpen,
+  selectedField,
+  onOpenChange,
+  onSelectField,
 }: {
-  filterOptions?: FilterChipsProps["filterOptions"];
+  filterFields: FilterField[];
+  isOpen: boolean;
+  selectedField: string | null;
+  onOpenChange: (open: boolean) => void;
+  onSelectField: (field: string | null) => void;
 }) {
-  const [isOpen, setIsOpen] = useState(false);
-  const [selectedField, setSelectedField] = useState<string | null>(null);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
   const setFilter = useSettingsStore((state) => state.setFilter);
+  const setRangeFilter = useSettingsStore((state) => state.setRangeFilter);
   const activeFilters = useSettingsStore((state) => state.activeFilters);
 
   // Close dropdown when clicking outside
@@ -126,8 +162,7 @@ function AddFilterDropdown({
 
     const handleClickOutside = (event: MouseEvent) => {
       if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
-        setIsOpen(false);
-        setSelectedField(null);
+        onOpenChange(false);
       }
     };
 
@@ -135,11 +170,7 @@ function AddFilterDropdown({
     return () => {
       document.removeEventListener("mousedown", handleClickOutside);
     };
-  }, [isOpen]);
-
-  const handleFieldSelect = useCallback((field: string) => {
-    setSelectedField(field);
-  }, []);
+  }, [isOpen, onOpenChange]);
 
   const handleValueSelect = useCallback(
     (field: string, value: string) => {
@@ -157,27 +188,22 @@ function AddFilterDropdown({
     [activeFilters, setFilter]
   );
 
-  const handleToggle = useCallback(() => {
-    setIsOpen((prev) => !prev);
-    setSelectedField(null);
-  }, []);
+  const handleRangeChange = useCallback(
+    (range: ActiveFilterRange | null) => {
+      if (selectedField) setRangeFilter(selectedField, range);
+    },
+    [selectedField, setRangeFilter]
+  );
 
-  if (!filterOptions) return null;
+  const handleToggle = useCallback(() => {
+    onOpenChange(!isOpen);
+  }, [isOpen, onOpenChange]);
 
-  const optionsByKey = {
-    platforms: filterOptions.platforms,
-    years: filterOptions.years.map(String),
-    genres: filterOptions.genres,
-  };
-  const filterFields = FILTER_FIELD_DEFS.map((d) => ({
-    field: d.field,
-    label: d.label,
-    options: optionsByKey[d.optionsKey],
-  })).filter((f) => f.options.length > 0);
+  const availableFields = filterFields.filter((f) => f.options.length > 0 || f.range);
 
-  if (filterFields.length === 0) return null;
+  if (availableFields.length === 0) return null;
 
-  const selectedFieldData = filterFields.find((f) => f.field === selectedField);
+  const selectedFieldData = availableFields.find((f) => f.field === selectedField);
   const activeFilterForField = selectedField
     ? activeFilters.find((f) => f.field === selectedField)
     : null;
@@ -198,20 +224,20 @@ function AddFilterDropdown({
 
       {isOpen && (
         <div className={styles.dropdown}>
-          {selectedField === null ? (
+          {!selectedFieldData ? (
             // Field selection
             <div className={styles.dropdownSection}>
               <div className={styles.dropdownHeader}>Filter by</div>
-              {filterFields.map(({ field, label, options }) => (
+              {availableFields.map(({ field, label, options, range }) => (
                 <button
                   key={field}
                   type="button"
                   className={styles.dropdownItem}
-                  onClick={() => { handleFieldSelect(field); }}
+                  onClick={() => { onSelectField(field); }}
                 >
                   {label}
                   <span className={styles.dropdownCount}>
-                    {options.length}
+                    {range ? "Range" : options.length}
                   </span>
                 </button>
               ))}
@@ -222,25 +248,34 @@ function AddFilterDropdown({
               <button
                 type="button"
                 className={styles.dropdownBack}
-                onClick={() => { setSelectedField(null); }}
+                onClick={() => { onSelectField(null); }}
               >
-                ← {selectedFieldData?.label}
+                ← {selectedFieldData.label}
               </button>
-              <div className={styles.dropdownOptions}>
-                {selectedFieldData?.options.map((option) => {
-                  const isSelected = activeFilterForField?.values.includes(option);
-                  return (
-                    <label key={option} className={styles.dropdownOption}>
-                      <input
-                        type="checkbox"
-                        checked={isSelected}
-                        onChange={() => { handleValueSelect(selectedField, option); }}
-                      />
-                      <span>{option}</span>
-                    </label>
-                  );
-                })}
-              </div>
+              {selectedFieldData.range ? (
+                <RangeFilter
+                  label={selectedFieldData.label}
+                  range={selectedFieldData.range}
+                  value={activeFilterForField?.range}
+                  onChange={handleRangeChange}
+                />
+              ) : (
+                <div className={styles.dropdownOptions}>
+                  {selectedFieldData.options.map((option) => {
+                    const isSelected = activeFilterForField?.values.includes(option);
+                    return (
+                      <label key={option} className={styles.dropdownOption}>
+                        <input
+                          type="checkbox"
+                          checked={isSelected}
+                          onChange={() => { handleValueSelect(selectedFieldData.field, option); }}
+                        />
+                        <span>{formatFilterValue(selectedFieldData.kind, option)}</span>
+                      </label>
+                    );
+                  })}
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -252,21 +287,42 @@ function AddFilterDropdown({
 /**
  * Filter chips container with active filters and add button.
  */
-export function FilterChips({ filterOptions }: FilterChipsProps) {
+export function FilterChips({ filterFields = [] }: FilterChipsProps) {
   const activeFilters = useSettingsStore((state) => state.activeFilters);
   const clearFilter = useSettingsStore((state) => state.clearFilter);
   const clearAllFilters = useSettingsStore((state) => state.clearAllFilters);
 
+  const [isOpen, setIsOpen] = useState(false);
+  const [selectedField, setSelectedField] = useState<string | null>(null);
+
+  const handleOpenChange = useCallback((open: boolean) => {
+    setIsOpen(open);
+    setSelectedField(null);
+  }, []);
+
+  const handleEdit = useCallback((field: string) => {
+    setIsOpen(true);
+    setSelectedField(field);
+  }, []);
+
+  const fieldsByName = new Map(filterFields.map((f) => [f.field, f]));
+
   return (
     <div className={styles.container}>
-      {activeFilters.map((filter) => (
-        <FilterChip
-          key={filter.field}
-          field={filter.field}
-          values={filter.values}
-          onRemove={() => { clearFilter(filter.field); }}
-        />
-      ))}
+      {activeFilters.map((filter) => {
+        const fieldDef = fieldsByName.get(filter.field);
+        const valueText = getChipValueText(filter, fieldDef);
+
+        return (
+          <FilterChip
+            key={filter.field}
+            label={fieldDef?.label ?? filter.field}
+            valueText={valueText}
+            onEdit={fieldDef ? () => { handleEdit(filter.field); } : undefined}
+            onRemove={() => { clearFilter(filter.field); }}
+          />
+        );
+      })}
 
       {activeFilters.length > 1 && (
         <button
@@ -278,7 +334,13 @@ export function FilterChips({ filterOptions }: FilterChipsProps) {
         </button>
       )}
 
-      <AddFilterDropdown filterOptions={filterOptions} />
+      <AddFilterDropdown
+        filterFields={filterFields}
+        isOpen={isOpen}
+        selectedField={selectedField}
+        onOpenChange={handleOpenChange}
+        onSelectField={setSelectedField}
+      />
     </div>
   );
 }
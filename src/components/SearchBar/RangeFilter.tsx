@@ -0,0 +1,134 @@
+/**
+ * RangeFilter component for number, date and rating filter fields.
+ *
+ * Shows a dual-handle slider over a small histogram of the field's value
+ * distribution. Bars outside the selected range are dimmed. Moving a handle
+ * back to the end of the track opens that side of the range.
+ */
+
+import { useState, useEffect } from "react";
+import {
+  formatRangeBound,
+  type ActiveFilterRange,
+  type FilterFieldRange,
+} from "@/utils/filterMatch";
+import styles from "./RangeFilter.module.css";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Delay before a slider change is applied to the card grid.
+ */
+const COMMIT_DELAY_MS = 200;
+
+interface RangeFilterProps {
+  /** Field label, used for the slider names */
+  label: string;
+  /** Bounds and histogram of the field */
+  range: FilterFieldRange;
+  /** Currently active range, if any */
+  value?: ActiveFilterRange;
+  /** Called with the new range, or null when the range covers everything */
+  onChange: (range: ActiveFilterRange | null) => void;
+}
+
+/**
+ * Slider step for a field: whole days for dates, whole numbers when the
+ * bounds are integers, otherwise a hundredth of the span.
+ */
+function getStep(range: FilterFieldRange): number {
+  if (range.type === "date") return DAY_MS;
+  if (Number.isInteger(range.min) && Number.isInteger(range.max)) return 1;
+  return (range.max - range.min) / 100;
+}
+
+/**
+ * Dual-handle range slider with a distribution histogram.
+ */
+export function RangeFilter({ label, range, value, onChange }: RangeFilterProps) {
+  const [low, setLow] = useState(value?.min ?? range.min);
+  const [high, setHigh] = useState(value?.max ?? range.max);
+
+  // Follow external changes (e.g. the chip being removed)
+  useEffect(() => {
+    setLow(value?.min ?? range.min);
+    setHigh(value?.max ?? range.max);
+  }, [value?.min, value?.max, range.min, range.max]);
+
+  // Apply the range once the handles settle
+  useEffect(() => {
+    const min = low > range.min ? low : undefined;
+    const max = high < range.max ? high : undefined;
+    if (min === value?.min && max === value?.max) return;
+
+    const timer = setTimeout(() => {
+      onChange(
+        min === undefined && max === undefined ? null : { type: range.type, min, max }
+      );
+    }, COMMIT_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+    };
+  }, [low, high, range, value?.min, value?.max, onChange]);
+
+  const span = range.max - range.min;
+  const peak = Math.max(1, ...range.histogram);
+  const binWidth = range.histogram.length > 0 ? span / range.histogram.length : span;
+  const step = getStep(range);
+
+  return (
+    <div className={styles.container}>
+      <div className={styles.histogram} aria-hidden="true">
+        {range.histogram.map((count, index) => {
+          const binStart = range.min + index * binWidth;
+          const binEnd = binStart + binWidth;
+          const inRange = binEnd >= low && binStart <= high;
+          return (
+            <span
+              key={index}
+              className={[styles.bar, inRange ? styles.barActive : ""].join(" ")}
+              style={{ height: `${String((count / peak) * 100)}%` }}
+            />
+          );
+        })}
+      </div>
+
+      <div className={styles.sliders}>
+        <input
+          type="range"
+          className={styles.slider}
+          min={range.min}
+          max={range.max}
+          step={step}
+          value={low}
+          onChange={(e) => {
+            setLow(Math.min(Number(e.target.value), high));
+          }}
+          aria-label={`Minimum ${label}`}
+          aria-valuetext={formatRangeBound(range.type, low)}
+        />
+        <input
+          type="range"
+          className={styles.slider}
+          min={range.min}
+          max={range.max}
+          step={step}
+          value={high}
+          onChange={(e) => {
+            setHigh(Math.max(Number(e.target.value), low));
+          }}
+          aria-label={`Maximum ${label}`}
+          aria-valuetext={formatRangeBound(range.type, high)}
+        />
+      </div>
+
+      <div className={styles.bounds}>
+        <span>{formatRangeBound(range.type, low)}</span>
+        <span>{formatRangeBound(range.type, high)}</span>
+      </div>
+    </div>
+  );
+}
+
+export default RangeFilter;
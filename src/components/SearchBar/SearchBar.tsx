@@ -3,6 +3,8 @@
  *
  * Features:
  * - Text search with debounce (300ms)
+ * - Query syntax (field qualifiers, comparisons, has:, groups) with
+ *   inline syntax errors (see utils/searchQuery)
  * - "/" keyboard shortcut to focus
  * - Result count display
  * - Clear button
@@ -10,9 +12,11 @@
  * - Minimise to floating button
  */
 
-import { useState, useEffect, useRef, useCallback } from "react";
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import { useSettingsStore } from "@/stores/settingsStore";
 import { FilterChips } from "./FilterChips";
+import type { FilterField } from "@/utils/filterMatch";
+import { validateSearchQuery } from "@/utils/searchQuery";
 import { GroupByDropdown } from "./GroupByDropdown";
 import styles from "./SearchBar.module.css";
 
@@ -21,12 +25,8 @@ interface SearchBarProps {
   totalCards: number;
   /** Number of cards after filtering */
   filteredCount: number;
-  /** Available filter options for categories/platforms */
-  filterOptions?: {
-    platforms: string[];
-    years: number[];
-    genres: string[];
-  };
+  /** Filter fields with their available options */
+  filterFields?: FilterField[];
 }
 
 function SearchIcon() {
@@ -88,7 +88,7 @@ function MinimiseIcon() {
 export function SearchBar({
   totalCards,
   filteredCount,
-  filterOptions,
+  filterFields,
 }: SearchBarProps) {
   const inputRef = useRef<HTMLInputElement>(null);
   const [localQuery, setLocalQuery] = useState("");
@@ -162,6 +162,9 @@ export function SearchBar({
     }
   }, []);
 
+  // Report query syntax errors as the user types
+  const queryError = useMemo(() => validateSearchQuery(localQuery), [localQuery]);
+
   const hasActiveSearch = localQuery.trim() !== "" || activeFilters.length > 0;
   const isFiltered = filteredCount !== totalCards;
 
@@ -203,13 +206,15 @@ export function SearchBar({
           <input
             ref={inputRef}
             type="text"
-            className={styles.input}
-            placeholder="Search... (AND, OR, NOT, -exclude)"
+            className={[styles.input, queryError ? styles.inputInvalid : ""].filter(Boolean).join(" ")}
+            placeholder="Search... (platform:NES year:>=1990 -exclude)"
             value={localQuery}
             onChange={handleChange}
             onKeyDown={handleKeyDown}
             aria-label="Search cards"
-            title="Boolean search: AND, OR, NOT, -exclude, &quot;exact phrase&quot;. Press / to focus."
+            aria-invalid={queryError !== null}
+            aria-describedby={queryError ? "search-query-error" : undefined}
+            title="Search: field:value, year:>=1990, has:field, AND, OR, NOT, -exclude, &quot;exact phrase&quot;, (groups). Press / to focus."
           />
           {hasActiveSearch && (
             <button
@@ -234,9 +239,15 @@ export function SearchBar({
         </button>
       </div>
 
+      {queryError && (
+        <p id="search-query-error" className={styles.queryError} role="status">
+          {queryError.message} (at character {queryError.position + 1})
+        </p>
+      )}
+
       {/* Bottom row: Filter chips on left, result count on right */}
       <div className={styles.bottomRow}>
-        <FilterChips filterOptions={filterOptions} />
+        <FilterChips filterFields={filterFields} />
         {isFiltered && (
           <span className={styles.resultCount} aria-live="polite">
             Showing {filteredCount} of {totalCards} cards
@@ -1,4 +1,5 @@
 export { SearchBar } from "./SearchBar";
 export { FilterChips } from "./FilterChips";
+export { RangeFilter } from "./RangeFilter";
 export { GroupByDropdown } from "./GroupByDropdown";
 export { ViewModeToggle } from "./ViewModeToggle";
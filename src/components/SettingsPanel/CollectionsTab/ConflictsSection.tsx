@@ -0,0 +1,144 @@
+/**
+ * Edit conflicts section for the Edit Source tab.
+ *
+ * Lists edited fields whose upstream value changed since they were edited,
+ * showing the original, local and upstream values, and resolves each by
+ * keeping the local value, taking upstream, or merging the text.
+ */
+
+import { useMemo, useState } from "react";
+import { parseEditEntityId, toContextEditId, useEditsStore } from "@/stores/editsStore";
+import { useCollectionData } from "@/context/CollectionDataContext";
+import { mergeText, type EditConflict } from "@/utils/editConflicts";
+import styles from "../SettingsPanel.module.css";
+
+/**
+ * Display text for a field value.
+ */
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return "(empty)";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/**
+ * One conflict with its resolution buttons.
+ */
+function ConflictItem({ conflict, label }: { conflict: EditConflict; label: string }) {
+  const resolveConflict = useEditsStore((s) => s.resolveConflict);
+  const [merged, setMerged] = useState<string | null>(null);
+  const { entityId, field, base, mine, theirs } = conflict;
+  const canMerge = typeof mine === "string" && typeof theirs === "string";
+
+  const startMerge = () => {
+    if (typeof mine !== "string" || typeof theirs !== "string") return;
+    setMerged(mergeText(typeof base === "string" ? base : "", mine, theirs));
+  };
+
+  return (
+    <li className={styles.historyItem}>
+      <div className={styles.historyItemHeader}>
+        <span>
+          {label}: {field}
+        </span>
+      </div>
+      <dl className={styles.conflictValues}>
+        <dt>Original</dt>
+        <dd>{formatValue(base)}</dd>
+        <dt>Mine</dt>
+        <dd>{formatValue(mine)}</dd>
+        <dt>Theirs</dt>
+        <dd>{formatValue(theirs)}</dd>
+      </dl>
+      {merged !== null && (
+        <textarea
+          className={[styles.input, styles.conflictMerge].join(" ")}
+          value={merged}
+          onChange={(e) => { setMerged(e.target.value); }}
+          aria-label={`Merged ${field}`}
+        />
+      )}
+      <div className={styles.buttonGroup}>
+        {merged !== null ? (
+          <>
+            <button
+              type="button"
+              className={styles.secondaryButton}
+              onClick={() => { resolveConflict(entityId, field, theirs, merged); }}
+            >
+              Save Merge
+            </button>
+            <button
+              type="button"
+              className={styles.cancelButton}
+              onClick={() => { setMerged(null); }}
+            >
+              Cancel
+            </button>
+          </>
+        ) : (
+          <>
+            <button
+              type="button"
+              className={styles.secondaryButton}
+              onClick={() => { resolveConflict(entityId, field, theirs, mine); }}
+            >
+              Keep Mine
+            </button>
+            <button
+              type="button"
+              className={styles.secondaryButton}
+              onClick={() => { resolveConflict(entityId, field, theirs); }}
+            >
+              Take Theirs
+            </button>
+            {canMerge && (
+              <button type="button" className={styles.secondaryButton} onClick={startMerge}>
+                Merge
+              </button>
+            )}
+          </>
+        )}
+      </div>
+    </li>
+  );
+}
+
+/**
+ * Edit conflicts section component. Renders nothing without conflicts.
+ */
+export function ConflictsSection() {
+  const { cards, conflicts } = useCollectionData();
+
+  // Display names for conflicting entities
+  const entityLabels = useMemo(() => {
+    const labels = new Map<string, string>();
+    for (const card of cards) {
+      labels.set(card.id, card.title);
+      if (card.categoryInfo) {
+        labels.set(toContextEditId(card.categoryInfo.id), card.categoryInfo.title);
+      }
+    }
+    return labels;
+  }, [cards]);
+
+  if (conflicts.length === 0) return null;
+
+  return (
+    <>
+      <h3 className={styles.sectionHeader}>Conflicts</h3>
+      <p className={styles.sectionDescription}>
+        These fields changed upstream since you edited them.
+      </p>
+      <ul className={styles.historyList} aria-label="Edit conflicts">
+        {conflicts.map((conflict) => (
+          <ConflictItem
+            key={`${conflict.entityId}:${conflict.field}`}
+            conflict={conflict}
+            label={entityLabels.get(conflict.entityId) ?? parseEditEntityId(conflict.entityId).id}
+          />
+        ))}
+      </ul>
+      <div className={styles.divider} />
+    </>
+  );
+}
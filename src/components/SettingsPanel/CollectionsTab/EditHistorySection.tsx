@@ -0,0 +1,148 @@
+/**
+ * Edit history section for the Edit Source tab.
+ *
+ * Shows the operation log of local edits (who, when and which fields of
+ * which items changed), optionally filtered to one item, with undo and redo.
+ */
+
+import { useMemo, useState } from "react";
+import { parseEditEntityId, toContextEditId, useEditsStore } from "@/stores/editsStore";
+import { useCollectionData } from "@/context/CollectionDataContext";
+import { describeEditOperation, getChangedFields } from "@/utils/editHistory";
+import styles from "../SettingsPanel.module.css";
+
+/**
+ * Operations listed at once; the log itself holds up to MAX_EDIT_HISTORY.
+ */
+const MAX_VISIBLE_OPERATIONS = 50;
+
+/**
+ * Edit history section component.
+ */
+export function EditHistorySection() {
+  const history = useEditsStore((s) => s.history);
+  const future = useEditsStore((s) => s.future);
+  const undo = useEditsStore((s) => s.undo);
+  const redo = useEditsStore((s) => s.redo);
+  const { cards } = useCollectionData();
+  const [entityFilter, setEntityFilter] = useState("");
+
+  // Display names for edited entities
+  const entityLabels = useMemo(() => {
+    const labels = new Map<string, string>();
+    for (const card of cards) {
+      labels.set(card.id, card.title);
+      if (card.categoryInfo) {
+        labels.set(toContextEditId(card.categoryInfo.id), card.categoryInfo.title);
+      }
+    }
+    return labels;
+  }, [cards]);
+
+  const labelFor = (entityId: string) =>
+    entityLabels.get(entityId) ?? parseEditEntityId(entityId).id;
+
+  const entityIds = useMemo(
+    () => [...new Set(history.flatMap((op) => op.changes.map((change) => change.entityId)))],
+    [history]
+  );
+
+  const visibleOperations = useMemo(
+    () =>
+      history
+        .filter((op) => !entityFilter || op.changes.some((change) => change.entityId === entityFilter))
+        .slice(-MAX_VISIBLE_OPERATIONS)
+        .reverse(),
+    [history, entityFilter]
+  );
+
+  const canUndo = history.some((op) => op.author === "local");
+
+  return (
+    <>
+      <h3 className={styles.sectionHeader}>History</h3>
+
+      <div className={styles.row}>
+        <span className={styles.label}>Undo / Redo</span>
+        <div className={styles.buttonGroup}>
+          <button
+            type="button"
+            className={styles.secondaryButton}
+            onClick={() => { undo(); }}
+            disabled={!canUndo}
+            title="Undo (Ctrl+Z)"
+          >
+            Undo
+          </button>
+          <button
+            type="button"
+            className={styles.secondaryButton}
+            onClick={() => { redo(); }}
+            disabled={future.length === 0}
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            Redo
+          </button>
+        </div>
+      </div>
+
+      {entityIds.length > 0 && (
+        <div className={styles.row}>
+          <label htmlFor="edit-history-entity" className={styles.label}>
+            Show
+          </label>
+          <select
+            id="edit-history-entity"
+            className={styles.select}
+            value={entityFilter}
+            onChange={(e) => { setEntityFilter(e.target.value); }}
+          >
+            <option value="">All items</option>
+            {entityIds.map((entityId) => (
+              <option key={entityId} value={entityId}>
+                {labelFor(entityId)}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {visibleOperations.length === 0 ? (
+        <div className={styles.helpText}>No changes recorded yet.</div>
+      ) : (
+        <ol className={styles.historyList} aria-label="Edit history">
+          {visibleOperations.map((op) => (
+            <li key={op.id} className={styles.historyItem}>
+              <div className={styles.historyItemHeader}>
+                <span>{describeEditOperation(op)}</span>
+                <span className={styles.historyMeta}>
+                  {op.author === "local" ? "You" : "Imported"} ·{" "}
+                  <time dateTime={new Date(op.timestamp).toISOString()}>
+                    {new Date(op.timestamp).toLocaleString()}
+                  </time>
+                </span>
+              </div>
+              <ul className={styles.historyChanges}>
+                {op.changes
+                  .filter((change) => !entityFilter || change.entityId === entityFilter)
+                  .slice(0, 5)
+                  .map((change) => {
+                    const fields = getChangedFields(change);
+                    return (
+                      <li key={change.entityId}>
+                        {labelFor(change.entityId)}
+                        {fields.length > 0 && `: ${fields.join(", ")}`}
+                      </li>
+                    );
+                  })}
+                {!entityFilter && op.changes.length > 5 && (
+                  <li>and {op.changes.length - 5} more</li>
+                )}
+              </ul>
+            </li>
+          ))}
+        </ol>
+      )}
+    </>
+  );
+}
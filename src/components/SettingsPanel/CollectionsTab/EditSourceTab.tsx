@@ -3,13 +3,22 @@
  *
  * Manages local edits to card data including:
  * - Viewing modified card count
+ * - Resolving conflicts with upstream changes
+ * - Creating items and restoring deleted ones
  * - Exporting/importing edits
+ * - Exporting edits as upstream-ready collection files
  * - Reverting all edits
+ * - Edit history with undo/redo
  */
 
 import { useState, useRef } from "react";
 import { useEditsStore } from "@/stores/editsStore";
+import { useCollectionData } from "@/context/CollectionDataContext";
 import { exportEditsToFile, importEditsFromFile } from "@/utils/editExport";
+import { exportCollectionPatch } from "@/utils/collectionPatch";
+import { CreateEntityForm } from "@/components/EditForm";
+import { ConflictsSection } from "./ConflictsSection";
+import { EditHistorySection } from "./EditHistorySection";
 import styles from "../SettingsPanel.module.css";
 
 /**
@@ -17,16 +26,38 @@ import styles from "../SettingsPanel.module.css";
  */
 export function EditSourceTab() {
   const [showRevertConfirm, setShowRevertConfirm] = useState(false);
+  const [createFormOpen, setCreateFormOpen] = useState(false);
   const editsFileInputRef = useRef<HTMLInputElement>(null);
 
   // Edits store
   const edits = useEditsStore((s) => s.edits);
   const revertAll = useEditsStore((s) => s.revertAll);
   const importEdits = useEditsStore((s) => s.importEdits);
+  const restoreEntity = useEditsStore((s) => s.restoreEntity);
+  const { deletedCards, definition, primaryType, entities, entityLayouts } = useCollectionData();
   const editCount = Object.keys(edits).length;
+  const createdCount = Object.values(edits).filter((edit) => edit.created !== undefined).length;
+  const deletedIds = Object.entries(edits)
+    .filter(([, edit]) => edit.deletedAt !== undefined)
+    .map(([entityId]) => entityId);
+  const labelFor = (entityId: string) =>
+    deletedCards.find((card) => card.id === entityId)?.title ?? entityId;
 
   const handleExportEdits = () => {
-    exportEditsToFile(edits, "itemdeck");
+    exportEditsToFile(edits, "itemdeck", useEditsStore.getState().history);
+  };
+
+  const handleExportPatch = () => {
+    if (!definition || !primaryType || !entities) return;
+    const patch = exportCollectionPatch(
+      { definition, primaryType, entities, layouts: entityLayouts },
+      edits
+    );
+    if (patch.skipped.length > 0) {
+      alert(
+        `${String(patch.skipped.length)} edits match no entity in the collection and were left out (see PATCH.md).`
+      );
+    }
   };
 
   const handleEditsImportClick = () => {
@@ -75,11 +106,52 @@ export function EditSourceTab() {
         View and manage local changes made to card data.
       </p>
 
+      <ConflictsSection />
+
       <div className={styles.row}>
         <span className={styles.label}>Modified Cards</span>
         <span className={styles.value}>{editCount}</span>
       </div>
 
+      <div className={styles.row}>
+        <span className={styles.label}>Created Items</span>
+        <span className={styles.value}>{createdCount}</span>
+      </div>
+
+      <div className={styles.row}>
+        <span className={styles.label}>Add Item</span>
+        <button
+          type="button"
+          className={styles.secondaryButton}
+          onClick={() => { setCreateFormOpen(true); }}
+        >
+          New Item
+        </button>
+      </div>
+
+      {deletedIds.length > 0 && (
+        <>
+          <h3 className={styles.sectionHeader}>Deleted Items</h3>
+          <ul className={styles.historyList} aria-label="Deleted items">
+            {deletedIds.map((entityId) => (
+              <li key={entityId} className={styles.historyItem}>
+                <div className={styles.historyItemHeader}>
+                  <span>{labelFor(entityId)}</span>
+                  <button
+                    type="button"
+                    className={styles.secondaryButton}
+                    onClick={() => { restoreEntity(entityId); }}
+                    aria-label={`Restore ${labelFor(entityId)}`}
+                  >
+                    Restore
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
       <div className={styles.divider} />
 
       {/* Export Edits */}
@@ -95,6 +167,23 @@ export function EditSourceTab() {
         </button>
       </div>
 
+      {/* Export as collection files */}
+      <div className={styles.row}>
+        <span className={styles.label}>Export as Patch</span>
+        <button
+          type="button"
+          className={styles.secondaryButton}
+          onClick={handleExportPatch}
+          disabled={editCount === 0 || !definition || !primaryType || !entities}
+        >
+          Export Files
+        </button>
+      </div>
+      <div className={styles.helpText}>
+        Downloads the edited entity files in the collection&apos;s folder layout, ready to
+        copy into its repository.
+      </div>
+
       {/* Import Edits */}
       <div className={styles.row}>
         <span className={styles.label}>Import Edits</span>
@@ -155,6 +244,14 @@ export function EditSourceTab() {
       <div className={styles.helpText}>
         This will discard all local changes and restore original data.
       </div>
+
+      <div className={styles.divider} />
+
+      <EditHistorySection />
+
+      {createFormOpen && (
+        <CreateEntityForm onClose={() => { setCreateFormOpen(false); }} />
+      )}
     </>
   );
 }
@@ -64,8 +64,12 @@ export function SettingsTab() {
       try {
         const result = await importSettingsFromFile(file, importMode);
         const modeLabel = importMode === "replace" ? "replaced" : "merged";
+        const annotationsLabel =
+          result.annotationsCount > 0
+            ? ` and tags and notes for ${String(result.annotationsCount)} cards`
+            : "";
         showToast(
-          `Imported ${String(result.settingsCount)} settings (${modeLabel}) from v${String(result.version)}`,
+          `Imported ${String(result.settingsCount)} settings${annotationsLabel} (${modeLabel}) from v${String(result.version)}`,
           "success"
         );
       } catch (error) {
@@ -111,7 +115,8 @@ export function SettingsTab() {
       </div>
 
       <div className={styles.helpText}>
-        Exports all your preferences, layout settings, and theme customisations.
+        Exports all your preferences, layout settings, theme customisations,
+        and your personal tags and notes.
       </div>
 
       <div className={styles.divider} />
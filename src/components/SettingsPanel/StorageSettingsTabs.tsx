@@ -244,7 +244,7 @@ export function StorageSettingsTabs({ initialSubTab }: StorageSettingsTabsProps)
 
   // Edits handlers
   const handleExportEdits = () => {
-    exportEditsToFile(edits, "itemdeck");
+    exportEditsToFile(edits, "itemdeck", useEditsStore.getState().history);
   };
 
   const handleEditsImportClick = () => {
@@ -0,0 +1,144 @@
+/**
+ * SavedViews component.
+ *
+ * Lists the saved views (smart decks) of the active source in the sidebar.
+ * Each view restores its search, filters, grouping, field mapping and layout
+ * in one step. The current state can be saved under a new name, and the first
+ * nine views are also reachable with Alt+1 to Alt+9.
+ */
+
+import { useState, type FormEvent } from "react";
+import {
+  useSettingsStore,
+  MAX_SAVED_VIEWS_PER_SOURCE,
+  MAX_SAVED_VIEW_NAME_LENGTH,
+  type SavedView,
+} from "@/stores/settingsStore";
+import { SAVED_VIEW_SHORTCUT_KEYS } from "@/config/keyboardShortcuts";
+import styles from "./Sidebar.module.css";
+
+const NO_VIEWS: SavedView[] = [];
+
+interface SavedViewsProps {
+  /** Source ID the views belong to */
+  sourceId: string;
+  /** Called after a view has been applied */
+  onApply?: () => void;
+}
+
+/**
+ * Short description of what a saved view restores.
+ */
+function describeView(view: SavedView): string {
+  const parts: string[] = [];
+  if (view.searchQuery.trim()) parts.push(`"${view.searchQuery.trim()}"`);
+  if (view.activeFilters.length > 0) {
+    parts.push(
+      `${String(view.activeFilters.length)} filter${view.activeFilters.length === 1 ? "" : "s"}`
+    );
+  }
+  if (view.groupByField) parts.push(`grouped by ${view.groupByField}`);
+  if (view.fieldMapping.sortField) parts.push(`sorted by ${view.fieldMapping.sortField}`);
+  parts.push(view.layout);
+  return parts.join(" · ");
+}
+
+/**
+ * Saved views list with a form to save the current view.
+ */
+export function SavedViews({ sourceId, onApply }: SavedViewsProps) {
+  const views = useSettingsStore((s) =>
+    Object.hasOwn(s.savedViews, sourceId) ? s.savedViews[sourceId] ?? NO_VIEWS : NO_VIEWS
+  );
+  const saveView = useSettingsStore((s) => s.saveView);
+  const applySavedView = useSettingsStore((s) => s.applySavedView);
+  const deleteSavedView = useSettingsStore((s) => s.deleteSavedView);
+  const [name, setName] = useState("");
+
+  const isFull = views.length >= MAX_SAVED_VIEWS_PER_SOURCE;
+  const isUpdate = views.some((view) => view.name === name.trim());
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (saveView(sourceId, name)) {
+      setName("");
+    }
+  };
+
+  return (
+    <section className={styles.section} aria-labelledby="saved-views-heading">
+      <h2 id="saved-views-heading" className={styles.sectionTitle}>
+        Saved views
+      </h2>
+
+      {views.length === 0 ? (
+        <p className={styles.empty}>
+          Save the current search, filters, sort and grouping to come back to them later.
+        </p>
+      ) : (
+        <ul className={styles.viewList}>
+          {views.map((view, index) => {
+            const shortcut = SAVED_VIEW_SHORTCUT_KEYS[index];
+            return (
+              <li key={view.id} className={styles.viewItem}>
+                <button
+                  type="button"
+                  className={styles.viewButton}
+                  onClick={() => {
+                    applySavedView(sourceId, view.id);
+                    onApply?.();
+                  }}
+                >
+                  <span className={styles.viewName}>{view.name}</span>
+                  <span className={styles.viewSummary}>{describeView(view)}</span>
+                </button>
+                {shortcut && (
+                  <kbd className={styles.viewShortcut}>Alt+{String(index + 1)}</kbd>
+                )}
+                <button
+                  type="button"
+                  className={styles.viewDelete}
+                  onClick={() => {
+                    deleteSavedView(sourceId, view.id);
+                  }}
+                  aria-label={`Delete ${view.name} view`}
+                >
+                  ×
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <form className={styles.saveForm} onSubmit={handleSubmit}>
+        <input
+          type="text"
+          className={styles.saveInput}
+          value={name}
+          maxLength={MAX_SAVED_VIEW_NAME_LENGTH}
+          onChange={(e) => {
+            setName(e.target.value);
+          }}
+          placeholder="View name"
+          aria-label="Saved view name"
+        />
+        <button
+          type="submit"
+          className={styles.saveButton}
+          disabled={!name.trim() || (isFull && !isUpdate)}
+        >
+          {isUpdate ? "Update" : "Save"}
+        </button>
+      </form>
+      {isFull && !isUpdate && (
+        <p className={styles.empty}>
+          This source has {String(MAX_SAVED_VIEWS_PER_SOURCE)} saved views. Delete one to save
+          another.
+        </p>
+      )}
+    </section>
+  );
+}
+
+export default SavedViews;
@@ -1,3 +1,5 @@
+import { useActiveSourceUrl } from "@/stores/sourceStore";
+import { SavedViews } from "./SavedViews";
 import styles from "./Sidebar.module.css";
 
 interface SidebarProps {
@@ -9,8 +11,10 @@ interface SidebarProps {
  * Sidebar that grows from the menu button position.
  * White semi-transparent with backdrop blur.
  * Full height of the screen.
+ * Lists the saved views of the active source.
  */
 export function Sidebar({ isOpen, onClose }: SidebarProps) {
+  const sourceId = useActiveSourceUrl();
   const backdropClass = [styles.backdrop, isOpen ? styles.open : ""]
     .filter(Boolean)
     .join(" ");
@@ -34,6 +38,7 @@ export function Sidebar({ isOpen, onClose }: SidebarProps) {
       >
         <nav className={styles.nav}>
           {/* Source switcher will be added in Phase 3 (F-047) */}
+          {sourceId && <SavedViews sourceId={sourceId} onApply={onClose} />}
         </nav>
       </aside>
     </>
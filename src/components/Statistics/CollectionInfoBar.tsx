@@ -14,7 +14,14 @@ import { motion, AnimatePresence } from "framer-motion";
 import { useCollectionData } from "@/context/CollectionDataContext";
 import { useSourceStore } from "@/stores/sourceStore";
 import { useSettingsStore, type LayoutType } from "@/stores/settingsStore";
-import { computeCollectionStats, formatStatsSummary } from "@/utils/collectionStats";
+import {
+  computeCollectionStats,
+  formatStatsSummary,
+  classifyStatFields,
+  DEFAULT_NUMERIC_FIELDS,
+  DEFAULT_CATEGORICAL_FIELDS,
+} from "@/utils/collectionStats";
+import { toTitleCase } from "@/utils/entityFields";
 import { BarChart, type BarChartItem } from "./BarChart";
 import { CloseIcon, ChevronDownIcon, ChevronUpIcon } from "@/components/Icons";
 import styles from "./CollectionInfoBar.module.css";
@@ -82,7 +89,7 @@ function computeCategoryDistribution(cards: { categoryTitle?: string }[]): BarCh
  * Unified collection info bar showing name, description, and statistics.
  */
 export function CollectionInfoBar({ onDismiss }: CollectionInfoBarProps) {
-  const { cards, collection, isLoading, error } = useCollectionData();
+  const { cards, collection, computedFields, isLoading, error } = useCollectionData();
   const [expanded, setExpanded] = useState(false);
 
   // Get active source info as fallback
@@ -105,13 +112,35 @@ export function CollectionInfoBar({ onDismiss }: CollectionInfoBarProps) {
   const displayDescription = collection?.meta?.description ?? null;
 
   // Statistics
+  // Computed fields join the default stats, split by value type
+  const computedStatFields = useMemo(() => {
+    return classifyStatFields(cards, computedFields);
+  }, [cards, computedFields]);
+
   const stats = useMemo(() => {
-    return computeCollectionStats(cards);
-  }, [cards]);
+    return computeCollectionStats(
+      cards,
+      [...DEFAULT_NUMERIC_FIELDS, ...computedStatFields.numeric],
+      [...DEFAULT_CATEGORICAL_FIELDS, ...computedStatFields.categorical]
+    );
+  }, [cards, computedStatFields]);
 
   const summary = useMemo(() => {
-    return formatStatsSummary(stats);
-  }, [stats]);
+    return formatStatsSummary(
+      stats,
+      computedStatFields.numeric.map((field) => ({ field, label: toTitleCase(field) }))
+    );
+  }, [stats, computedStatFields]);
+
+  const computedDistributions = useMemo(() => {
+    return computedStatFields.categorical
+      .map((field) => ({
+        field,
+        items: Array.from(stats.categoricalDistribution.get(field) ?? [])
+          .map(([label, value]) => ({ label, value })),
+      }))
+      .filter((distribution) => distribution.items.length > 0);
+  }, [stats, computedStatFields]);
 
   const decadeDistribution = useMemo(() => {
     return computeDecadeDistribution(cards as { year?: string | number }[]);
@@ -130,7 +159,10 @@ export function CollectionInfoBar({ onDismiss }: CollectionInfoBarProps) {
     return null;
   }
 
-  const hasDistributions = decadeDistribution.length > 0 || categoryDistribution.length > 0;
+  const hasDistributions =
+    decadeDistribution.length > 0 ||
+    categoryDistribution.length > 0 ||
+    computedDistributions.length > 0;
 
   return (
     <div className={styles.container}>
@@ -205,6 +237,17 @@ export function CollectionInfoBar({ onDismiss }: CollectionInfoBarProps) {
                   showOther={false}
                 />
               )}
+
+              {/* Computed field distributions */}
+              {computedDistributions.map(({ field, items }) => (
+                <BarChart
+                  key={field}
+                  title={`${toTitleCase(field)} Distribution`}
+                  items={items}
+                  maxBars={6}
+                  showOther={true}
+                />
+              ))}
             </div>
           </motion.div>
         )}
@@ -11,7 +11,14 @@
 import { useMemo, useState, useCallback } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { useCollectionData } from "@/context/CollectionDataContext";
-import { computeCollectionStats, formatStatsSummary } from "@/utils/collectionStats";
+import {
+  computeCollectionStats,
+  formatStatsSummary,
+  classifyStatFields,
+  DEFAULT_NUMERIC_FIELDS,
+  DEFAULT_CATEGORICAL_FIELDS,
+} from "@/utils/collectionStats";
+import { toTitleCase } from "@/utils/entityFields";
 import { BarChart, type BarChartItem } from "./BarChart";
 import { CloseIcon, ChevronDownIcon, ChevronUpIcon } from "@/components/Icons";
 import styles from "./Statistics.module.css";
@@ -64,20 +71,59 @@ function computeCategoryDistribution(cards: { categoryTitle?: string }[]): BarCh
     .map(([label, value]) => ({ label, value }));
 }
 
+/**
+ * Compute personal tag distribution; a card counts once for each of its tags.
+ */
+function computeTagDistribution(cards: { _tags?: string[] }[]): BarChartItem[] {
+  const tags = new Map<string, number>();
+
+  for (const card of cards) {
+    for (const tag of card._tags ?? []) {
+      tags.set(tag, (tags.get(tag) ?? 0) + 1);
+    }
+  }
+
+  return Array.from(tags.entries())
+    .map(([label, value]) => ({ label, value }))
+    .sort((a, b) => b.value - a.value);
+}
+
 /**
  * Statistics bar showing collection summary with expandable dashboard.
  */
 export function StatisticsBar({ onDismiss }: StatisticsBarProps) {
-  const { cards, isLoading, error } = useCollectionData();
+  const { cards, computedFields, isLoading, error } = useCollectionData();
   const [expanded, setExpanded] = useState(false);
 
+  // Computed fields join the default stats, split by value type
+  const computedStatFields = useMemo(() => {
+    return classifyStatFields(cards, computedFields);
+  }, [cards, computedFields]);
+
   const stats = useMemo(() => {
-    return computeCollectionStats(cards);
-  }, [cards]);
+    return computeCollectionStats(
+      cards,
+      [...DEFAULT_NUMERIC_FIELDS, ...computedStatFields.numeric],
+      [...DEFAULT_CATEGORICAL_FIELDS, ...computedStatFields.categorical]
+    );
+  }, [cards, computedStatFields]);
 
   const summary = useMemo(() => {
-    return formatStatsSummary(stats);
-  }, [stats]);
+    return formatStatsSummary(
+      stats,
+      computedStatFields.numeric.map((field) => ({ field, label: toTitleCase(field) }))
+    );
+  }, [stats, computedStatFields]);
+
+  const computedDistributions = useMemo(() => {
+    return computedStatFields.categorical
+      .map((field) => ({
+        field,
+        items: Array.from(stats.categoricalDistribution.get(field) ?? [])
+          .map(([label, value]) => ({ label, value })),
+      }))
+      .filter((distribution) => distribution.items.length > 0);
+  }, [stats, computedStatFields]);
 
   const decadeDistribution = useMemo(() => {
     return computeDecadeDistribution(cards as { year?: string | number }[]);
@@ -87,6 +133,10 @@ export function StatisticsBar({ onDismiss }: StatisticsBarProps) {
     return computeCategoryDistribution(cards as { categoryTitle?: string }[]);
   }, [cards]);
 
+  const tagDistribution = useMemo(() => {
+    return computeTagDistribution(cards as { _tags?: string[] }[]);
+  }, [cards]);
+
   const handleToggle = useCallback(() => {
     setExpanded((prev) => !prev);
   }, []);
@@ -96,7 +146,11 @@ export function StatisticsBar({ onDismiss }: StatisticsBarProps) {
     return null;
   }
 
-  const hasDistributions = decadeDistribution.length > 0 || categoryDistribution.length > 0;
+  const hasDistributions =
+    decadeDistribution.length > 0 ||
+    categoryDistribution.length > 0 ||
+    tagDistribution.length > 0 ||
+    computedDistributions.length > 0;
 
   return (
     <div className={styles.statisticsContainer}>
@@ -160,6 +214,27 @@ export function StatisticsBar({ onDismiss }: StatisticsBarProps) {
                   showOther={false}
                 />
               )}
+
+              {/* Personal tag distribution */}
+              {tagDistribution.length > 0 && (
+                <BarChart
+                  title="Tag Distribution"
+                  items={tagDistribution}
+                  maxBars={6}
+                  showOther={true}
+                />
+              )}
+
+              {/* Computed field distributions */}
+              {computedDistributions.map(({ field, items }) => (
+                <BarChart
+                  key={field}
+                  title={`${toTitleCase(field)} Distribution`}
+                  items={items}
+                  maxBars={6}
+                  showOther={true}
+                />
+              ))}
             </div>
           </motion.div>
         )}
@@ -0,0 +1,81 @@
+/**
+ * Tag chips component.
+ *
+ * Shows a card's personal tags as coloured chips, using the colours defined
+ * for the active source. Chips can offer a remove button for editing.
+ */
+
+import { useMemo } from "react";
+import { useActiveSourceUrl } from "@/stores/sourceStore";
+import { getSourceAnnotations, useAnnotationsStore } from "@/stores/annotationsStore";
+import { getContrastTextColour } from "@/utils/colourContrast";
+import styles from "./TagChips.module.css";
+
+/** Colour for a tag missing from the source's tag list */
+const FALLBACK_COLOUR = "#64748b";
+
+interface TagChipsProps {
+  /** Tag names to show */
+  tags: readonly string[];
+  /** Size variant */
+  size?: "small" | "medium";
+  /** Called with the tag name when a chip's remove button is pressed */
+  onRemove?: (tag: string) => void;
+}
+
+/**
+ * Coloured chips for personal tags.
+ *
+ * @example
+ * ```tsx
+ * <TagChips tags={["favourite", "to play"]} size="small" />
+ * <TagChips tags={tags} onRemove={(tag) => removeCardTag(sourceUrl, cardId, tag)} />
+ * ```
+ */
+export function TagChips({ tags, size = "medium", onRemove }: TagChipsProps) {
+  const sourceUrl = useActiveSourceUrl();
+  const annotations = useAnnotationsStore((s) => s.annotations);
+
+  const colours = useMemo(() => {
+    const { tags: definitions } = getSourceAnnotations(annotations, sourceUrl);
+    return new Map(definitions.map((tag) => [tag.name.toLowerCase(), tag.colour]));
+  }, [annotations, sourceUrl]);
+
+  if (tags.length === 0) return null;
+
+  return (
+    <ul
+      className={[styles.chips, size === "small" ? styles.small : ""].filter(Boolean).join(" ")}
+      aria-label="Tags"
+    >
+      {tags.map((tag) => {
+        const colour = colours.get(tag.toLowerCase()) ?? FALLBACK_COLOUR;
+        return (
+          <li
+            key={tag}
+            className={styles.chip}
+            style={{ backgroundColor: colour, color: getContrastTextColour(colour) }}
+            title={tag}
+          >
+            {tag}
+            {onRemove && (
+              <button
+                type="button"
+                className={styles.removeButton}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onRemove(tag);
+                }}
+                aria-label={`Remove tag ${tag}`}
+              >
+                ×
+              </button>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+export default TagChips;
@@ -0,0 +1,2 @@
+export { TagChips } from "./TagChips";
+export { default } from "./TagChips";
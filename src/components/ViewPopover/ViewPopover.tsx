@@ -13,13 +13,20 @@ import { motion, AnimatePresence } from "framer-motion";
 import { useSettingsStore, type LayoutType } from "@/stores/settingsStore";
 import { useAvailableGroupFields } from "@/hooks/useAvailableGroupFields";
 import { useFocusTrap } from "@/hooks/useFocusTrap";
+import { CUSTOM_ORDER_SORT_FIELD, PERSONAL_RANKING_FIELD } from "@/utils/fieldPathResolver";
 import styles from "./ViewPopover.module.css";
 
 // ============================================================================
 // Types
 // ============================================================================
 
-type SortOption = "shuffle" | "order" | "year" | "title";
+type SortOption =
+  | "shuffle"
+  | "order"
+  | "year"
+  | "title"
+  | typeof CUSTOM_ORDER_SORT_FIELD
+  | typeof PERSONAL_RANKING_FIELD;
 
 // ============================================================================
 // Icons
@@ -147,6 +154,8 @@ const sortOptions: { value: SortOption; icon: React.ReactNode; label: string }[]
   { value: "order", icon: <SortIcon />, label: "By Rank" },
   { value: "year", icon: <SortIcon />, label: "By Year" },
   { value: "title", icon: <SortIcon />, label: "By Title" },
+  { value: CUSTOM_ORDER_SORT_FIELD, icon: <SortIcon />, label: "My Order" },
+  { value: PERSONAL_RANKING_FIELD, icon: <SortIcon />, label: "My Ranking" },
 ];
 
 // ============================================================================
@@ -103,8 +103,43 @@ export const ACTION_SHORTCUTS = {
     description: "Toggle admin/settings panel",
     displayKeys: ["Ctrl", "A"],
   } as KeyboardShortcut,
+  savedViews: {
+    key: "KeyB",
+    ctrl: true,
+    description: "Show saved views",
+    displayKeys: ["Ctrl", "B"],
+  } as KeyboardShortcut,
+  undo: {
+    key: "KeyZ",
+    ctrl: true,
+    description: "Undo last edit",
+    displayKeys: ["Ctrl", "Z"],
+  } as KeyboardShortcut,
+  redo: {
+    key: "KeyZ",
+    ctrl: true,
+    shift: true,
+    description: "Redo edit",
+    displayKeys: ["Ctrl", "Shift", "Z"],
+  } as KeyboardShortcut,
 } as const;
 
+/**
+ * Apply the first nine saved views of the current source with Alt+1 to Alt+9.
+ * Alt is used because Ctrl+digit switches browser tabs.
+ */
+export const SAVED_VIEW_SHORTCUT_KEYS = [
+  "Digit1",
+  "Digit2",
+  "Digit3",
+  "Digit4",
+  "Digit5",
+  "Digit6",
+  "Digit7",
+  "Digit8",
+  "Digit9",
+] as const;
+
 // ============================================================================
 // Navigation Shortcuts (single keys)
 // ============================================================================
@@ -245,6 +280,22 @@ export const SHORTCUT_CATEGORIES: ShortcutCategory[] = [
       ACTION_SHORTCUTS.adminMode,
     ],
   },
+  {
+    label: "Editing",
+    shortcuts: [ACTION_SHORTCUTS.undo, ACTION_SHORTCUTS.redo],
+  },
+  {
+    label: "Saved Views",
+    shortcuts: [
+      ACTION_SHORTCUTS.savedViews,
+      {
+        key: "Digit1",
+        alt: true,
+        description: "Apply saved view 1 to 9",
+        displayKeys: ["Alt", "1–9"],
+      },
+    ],
+  },
 ];
 
 // ============================================================================
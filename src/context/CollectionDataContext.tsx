@@ -7,21 +7,48 @@
  */
 
 import { createContext, useContext, useEffect, useMemo, type ReactNode } from "react";
-import { useLocalCollection, type DisplayCard, type CollectionResult } from "@/hooks/useCollection";
+import {
+  buildLocalCards,
+  useLocalCollection,
+  type DisplayCard,
+  type CollectionResult,
+} from "@/hooks/useCollection";
 import { CollectionUIProvider } from "./CollectionUIContext";
 import { useSettingsStore } from "@/stores/settingsStore";
-import { useEditsStore } from "@/stores/editsStore";
+import { parseEditEntityId, useEditsStore } from "@/stores/editsStore";
 import { useActiveSourceUrl } from "@/stores/sourceStore";
+import { useSelectionStore } from "@/stores/selectionStore";
+import { getSourceAnnotations, useAnnotationsStore } from "@/stores/annotationsStore";
+import { getSourceRanking, useRankingStore } from "@/stores/rankingStore";
+import { getSourceTierList, useTierListStore } from "@/stores/tierListStore";
+import { setCollectionProvider } from "@/plugins/sandbox/pluginAPI";
+import { compileComputedFields, evaluateComputedFields } from "@/loaders";
+import { discoverEditFields } from "@/services/fieldDiscovery";
+import { deriveEditedDisplayFields } from "@/utils/editFields";
+import {
+  collectMissingBases,
+  findEditConflicts,
+  type EditConflict,
+} from "@/utils/editConflicts";
+import { fitRatings, rankCardIds } from "@/utils/eloRanking";
+import { PERSONAL_RANKING_FIELD } from "@/utils/fieldPathResolver";
+import { TIER_FIELD, getCardTiers } from "@/utils/tierList";
 import type { DisplayConfig } from "@/types/display";
-import type { CollectionConfig } from "@/types/schema";
+import type { CollectionConfig, CollectionDefinition, Entity, EntityFileLayout } from "@/types/schema";
 
 /**
  * Collection data exposed to consumers.
  */
 interface CollectionData {
-  /** Cards ready for display */
+  /** Cards ready for display (with local edits, creations and deletions) */
   cards: DisplayCard[];
 
+  /** Cards hidden by a local soft deletion, so they can be restored */
+  deletedCards: DisplayCard[];
+
+  /** Edited fields whose upstream value changed since they were edited */
+  conflicts: EditConflict[];
+
   /** Display configuration from collection */
   displayConfig?: DisplayConfig;
 
@@ -31,6 +58,21 @@ interface CollectionData {
   /** Raw collection data (for export) */
   collection?: CollectionResult["collection"];
 
+  /** Names of computed fields available on every card */
+  computedFields: string[];
+
+  /** Collection schema, for schema-driven options (absent for cached data) */
+  definition?: CollectionDefinition;
+
+  /** Primary entity type name */
+  primaryType?: string;
+
+  /** Source entities by type, for reference pickers (absent for cached data) */
+  entities?: Record<string, Entity[]>;
+
+  /** File layout each entity type was loaded from (absent for cached data) */
+  entityLayouts?: Record<string, EntityFileLayout>;
+
   /** Loading state */
   isLoading: boolean;
 
@@ -77,6 +119,10 @@ export function CollectionDataProvider({ children }: CollectionDataProviderProps
   const applySmartSelectionDefault = useSettingsStore((s) => s.applySmartSelectionDefault);
   const hasAppliedDefaults = useSettingsStore((s) => s.hasAppliedCollectionDefaults);
   const edits = useEditsStore((s) => s.edits);
+  const recordBases = useEditsStore((s) => s.recordBases);
+  const annotations = useAnnotationsStore((s) => s.annotations);
+  const rankings = useRankingStore((s) => s.rankings);
+  const tierLists = useTierListStore((s) => s.tierLists);
 
   // Apply collection defaults for new users (only once)
   useEffect(() => {
@@ -111,34 +157,212 @@ export function CollectionDataProvider({ children }: CollectionDataProviderProps
     }
   }, [data?.cards, applySmartSelectionDefault]);
 
+  const compiledComputed = useMemo(
+    () => compileComputedFields(data?.computed),
+    [data?.computed]
+  );
+
+  const computedFields = useMemo(
+    () => compiledComputed.map((field) => field.name),
+    [compiledComputed]
+  );
+
+  // Entities by ID for each reference field of the primary type, so an
+  // edited reference resolves to its new target
+  const referenceIndexes = useMemo(() => {
+    const indexes = new Map<string, Map<string, Entity>>();
+    if (!data?.definition || !data.primaryType || !data.entities) return indexes;
+
+    for (const def of discoverEditFields(data.definition, data.primaryType)) {
+      if (!def.refType || !Object.hasOwn(data.entities, def.refType)) continue;
+      const targets = data.entities[def.refType] ?? [];
+      indexes.set(def.field, new Map(targets.map((entity) => [entity.id, entity])));
+    }
+    return indexes;
+  }, [data?.definition, data?.primaryType, data?.entities]);
+
+  // Upstream entity an edit applies to: primary entities by ID, context
+  // edits among the other types. Unavailable for cached data.
+  const lookupSource = useMemo(() => {
+    const primary = new Map<string, Entity>();
+    const context = new Map<string, Entity>();
+    if (data?.primaryType && data.entities) {
+      for (const [type, list] of Object.entries(data.entities)) {
+        const target = type === data.primaryType ? primary : context;
+        for (const entity of list) target.set(entity.id, entity);
+      }
+    }
+    return (entityId: string): Entity | undefined => {
+      const { id, isContext } = parseEditEntityId(entityId);
+      return (isContext ? context : primary).get(id);
+    };
+  }, [data?.primaryType, data?.entities]);
+
+  // Record the upstream value each newly edited field replaced
+  useEffect(() => {
+    const bases = collectMissingBases(edits, lookupSource);
+    if (Object.keys(bases).length > 0) {
+      recordBases(bases);
+    }
+  }, [edits, lookupSource, recordBases]);
+
+  const conflicts = useMemo(() => findEditConflicts(edits, lookupSource), [edits, lookupSource]);
+
+  // Conflicting fields by entity ID, for the card badge
+  const conflictFields = useMemo(() => {
+    const fields = new Map<string, string[]>();
+    for (const conflict of conflicts) {
+      fields.set(conflict.entityId, [...(fields.get(conflict.entityId) ?? []), conflict.field]);
+    }
+    return fields;
+  }, [conflicts]);
+
+  // Cards for entities created locally as the primary type. They are built
+  // from the edit fields, so those are not merged over them again below.
+  const localCards = useMemo(() => {
+    if (!data) return [];
+
+    const created = Object.entries(edits)
+      .filter(
+        ([, edit]) =>
+          edit.created !== undefined &&
+          (!data.primaryType || edit.created.entityType === data.primaryType)
+      )
+      .map(([id, edit]) => ({ ...edit.fields, id }) as Entity);
+    if (created.length === 0) return [];
+
+    return buildLocalCards(created, data).map((card) => ({
+      ...card,
+      _editedAt: edits[card.id]?.editedAt,
+    }));
+  }, [data, edits]);
+
   // Merge edits with source cards using overlay pattern
-  const mergedCards = useMemo(() => {
+  const allCards = useMemo(() => {
     if (!data?.cards) return [];
 
-    return data.cards.map((card) => {
+    const sourceCards = data.cards.map((card) => {
       const edit = edits[card.id];
       if (!edit) return card;
+      if (Object.keys(edit.fields).length === 0) return card;
 
-      // Merge edit fields over source card
+      // Merge edit fields over source card, then refresh the display fields
+      // useCollection derives from them (images, links, rating, references)
       // _editedAt serves as both "has edits" indicator and timestamp
-      return {
+      const merged = {
         ...card,
         ...edit.fields,
+        ...deriveEditedDisplayFields(card, edit.fields, referenceIndexes),
         _editedAt: edit.editedAt,
+        _conflicts: conflictFields.get(card.id),
       } as DisplayCard;
+
+      // Computed values derive from the edited fields, so refresh them
+      return compiledComputed.length > 0
+        ? evaluateComputedFields(merged, compiledComputed)
+        : merged;
+    });
+
+    return [...sourceCards, ...localCards];
+  }, [data?.cards, edits, compiledComputed, referenceIndexes, localCards, conflictFields]);
+
+  // Personal tags as the _tags meta field, so search, filters, grouping
+  // and statistics see them like any other array field
+  const taggedCards = useMemo(() => {
+    const { cards: annotated } = getSourceAnnotations(annotations, sourceUrl);
+    return allCards.map((card) => {
+      const tags = Object.hasOwn(annotated, card.id) ? annotated[card.id]?.tags : undefined;
+      return tags && tags.length > 0 ? ({ ...card, _tags: tags } as DisplayCard) : card;
+    });
+  }, [allCards, annotations, sourceUrl]);
+
+  // Soft-deleted cards are hidden until restored
+  const [visibleCards, deletedCards] = useMemo(() => {
+    const visible: DisplayCard[] = [];
+    const deleted: DisplayCard[] = [];
+    for (const card of taggedCards) {
+      (edits[card.id]?.deletedAt === undefined ? visible : deleted).push(card);
+    }
+    return [visible, deleted];
+  }, [taggedCards, edits]);
+
+  // Personal ranking positions as the _ranking meta field (1 = favourite),
+  // so the ranking sorts cards and shows in the rank badge
+  const rankedCards = useMemo(() => {
+    const { wins } = getSourceRanking(rankings, sourceUrl);
+    const cardIds = visibleCards.map((card) => card.id);
+    const ranked = rankCardIds(cardIds, fitRatings(cardIds, wins));
+    if (ranked.length === 0) return visibleCards;
+
+    const positions = new Map(ranked.map((id, index) => [id, index + 1]));
+    return visibleCards.map((card) => {
+      const position = positions.get(card.id);
+      return position === undefined
+        ? card
+        : ({ ...card, [PERSONAL_RANKING_FIELD]: position } as DisplayCard);
+    });
+  }, [visibleCards, rankings, sourceUrl]);
+
+  // Tier list placements as the _tier meta field, so search, filters and
+  // grouping see the card's tier label
+  const mergedCards = useMemo(() => {
+    const tiers = getCardTiers(getSourceTierList(tierLists, sourceUrl).rows);
+    if (tiers.size === 0) return rankedCards;
+
+    return rankedCards.map((card) => {
+      const tier = tiers.get(card.id);
+      return tier === undefined ? card : ({ ...card, [TIER_FIELD]: tier } as DisplayCard);
     });
-  }, [data?.cards, edits]);
+  }, [rankedCards, tierLists, sourceUrl]);
+
+  // Plugins read the cards and the current card selection through the
+  // collection provider; the selection is read when a plugin asks for it
+  useEffect(() => {
+    setCollectionProvider(() => {
+      const selectedIds = new Set(useSelectionStore.getState().selectedIds);
+      return {
+        cards: mergedCards,
+        selectedCards: mergedCards.filter((card) => selectedIds.has(card.id)),
+        info: {
+          id: data?.definition?.id,
+          name: data?.definition?.name,
+          cardCount: mergedCards.length,
+        },
+      };
+    });
+  }, [mergedCards, data?.definition]);
 
   const collectionData: CollectionData = useMemo(
     () => ({
       cards: mergedCards,
+      deletedCards,
+      conflicts,
       displayConfig: data?.displayConfig,
       config: data?.config,
       collection: data?.collection,
+      computedFields,
+      definition: data?.definition,
+      primaryType: data?.primaryType,
+      entities: data?.entities,
+      entityLayouts: data?.entityLayouts,
       isLoading,
       error: error ?? null,
     }),
-    [mergedCards, data?.displayConfig, data?.config, data?.collection, isLoading, error]
+    [
+      mergedCards,
+      deletedCards,
+      conflicts,
+      data?.displayConfig,
+      data?.config,
+      data?.collection,
+      computedFields,
+      data?.definition,
+      data?.primaryType,
+      data?.entities,
+      data?.entityLayouts,
+      isLoading,
+      error,
+    ]
   );
 
   return (
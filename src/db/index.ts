@@ -2,7 +2,8 @@
  * IndexedDB database module.
  *
  * Provides typed access to IndexedDB using the idb library.
- * Used for caching images, collection data, and user preferences.
+ * Used for caching images, collection data, user preferences and the
+ * game results log.
  */
 
 import { openDB, type DBSchema, type IDBPDatabase } from "idb";
@@ -10,7 +11,7 @@ import { openDB, type DBSchema, type IDBPDatabase } from "idb";
 /**
  * Schema version for migrations.
  */
-const DB_VERSION = 2;
+const DB_VERSION = 3;
 
 /**
  * Database name.
@@ -82,6 +83,71 @@ export interface ValidationEntry {
   error?: string;
 }
 
+/**
+ * Settings a game was played with. Results are only compared with results
+ * played with the same settings.
+ */
+export interface GameResultSettings {
+  /** Difficulty level, for mechanics that have one */
+  difficulty?: string;
+
+  /** Number of pairs (memory) */
+  pairCount?: number;
+
+  /** Number of questions (quiz) */
+  questionCount?: number;
+
+  /** Number of cards played (0 = all) */
+  cardCount?: number;
+
+  /** Play mode, for mechanics that have more than one (e.g. timeline) */
+  mode?: string;
+
+  /** Lives allowed (higher-lower) */
+  lives?: number;
+
+  /** Correct answers that end a speed run (0 = endless) */
+  target?: number;
+
+  /** Field cards were sorted by (category-sort) */
+  field?: string;
+
+  /** Number of bins (category-sort) */
+  binCount?: number;
+
+  /** Seconds on the clock, for timed games */
+  timeLimit?: number;
+}
+
+/**
+ * A finished game in the results log.
+ */
+export interface GameResult {
+  /** Result ID (key) */
+  id: string;
+
+  /** Mechanic that was played */
+  mechanicId: string;
+
+  /** Source URL of the collection played with */
+  sourceId: string;
+
+  /** Settings the game was played with */
+  settings: GameResultSettings;
+
+  /** Final score (higher is better) */
+  score: number;
+
+  /** Highest possible score, when the mechanic has one */
+  maxScore?: number;
+
+  /** Time taken in milliseconds (lower breaks score ties) */
+  durationMs: number;
+
+  /** When the game finished */
+  completedAt: number;
+}
+
 /**
  * IndexedDB schema definition.
  */
@@ -111,6 +177,16 @@ interface ItemdeckDB extends DBSchema {
       "by-validated-at": number;
     };
   };
+
+  /** Finished games log */
+  gameResults: {
+    key: string;
+    value: GameResult;
+    indexes: {
+      "by-mechanic": string;
+      "by-completed-at": number;
+    };
+  };
 }
 
 /**
@@ -145,6 +221,13 @@ export async function getDB(): Promise<IDBPDatabase<ItemdeckDB>> {
         const validationStore = db.createObjectStore("validations", { keyPath: "url" });
         validationStore.createIndex("by-validated-at", "validatedAt");
       }
+
+      // Version 3: Add game results log
+      if (oldVersion < 3) {
+        const resultStore = db.createObjectStore("gameResults", { keyPath: "id" });
+        resultStore.createIndex("by-mechanic", "mechanicId");
+        resultStore.createIndex("by-completed-at", "completedAt");
+      }
     },
     blocked() {
       // Called if another tab has an older version open
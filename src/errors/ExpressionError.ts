@@ -0,0 +1,29 @@
+/**
+ * Error thrown when a computed field expression cannot be parsed.
+ */
+
+/**
+ * Custom error for invalid expressions.
+ *
+ * Carries the offending expression and the character offset where parsing
+ * failed, so callers can point collection authors at the problem.
+ */
+export class ExpressionError extends Error {
+  /** The expression that failed to parse */
+  readonly expression: string;
+
+  /** Zero-based character offset of the error */
+  readonly position: number;
+
+  constructor(message: string, expression: string, position: number) {
+    super(`${message} at position ${String(position)} in "${expression}"`);
+
+    this.name = "ExpressionError";
+    this.expression = expression;
+    this.position = position;
+
+    // Maintain proper stack trace in V8 environments
+    // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- captureStackTrace may not exist in all environments
+    Error.captureStackTrace?.(this, ExpressionError);
+  }
+}
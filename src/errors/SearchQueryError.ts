@@ -0,0 +1,29 @@
+/**
+ * Error thrown when a search-bar query cannot be parsed.
+ */
+
+/**
+ * Custom error for invalid search queries.
+ *
+ * Carries the character offset where parsing failed so the search bar can
+ * point at the problem as the user types.
+ */
+export class SearchQueryError extends Error {
+  /** The query that failed to parse */
+  readonly query: string;
+
+  /** Zero-based character offset of the error */
+  readonly position: number;
+
+  constructor(message: string, query: string, position: number) {
+    super(message);
+
+    this.name = "SearchQueryError";
+    this.query = query;
+    this.position = position;
+
+    // Maintain proper stack trace in V8 environments
+    // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- captureStackTrace may not exist in all environments
+    Error.captureStackTrace?.(this, SearchQueryError);
+  }
+}
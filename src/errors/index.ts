@@ -3,3 +3,5 @@
  */
 
 export { SchemaNotSupportedError } from "./SchemaNotSupportedError";
+export { ExpressionError } from "./ExpressionError";
+export { SearchQueryError } from "./SearchQueryError";
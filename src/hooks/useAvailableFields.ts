@@ -9,7 +9,7 @@
 
 import { useMemo } from "react";
 import { useCollectionData } from "@/context/CollectionDataContext";
-import type { FieldOption } from "@/utils/fieldPathResolver";
+import { PERSONAL_RANKING_FIELD, type FieldOption } from "@/utils/fieldPathResolver";
 
 /**
  * Fields that qualify for the top corner badge: a field qualifies when its
@@ -110,13 +110,35 @@ function extractFields(
   return fields;
 }
 
+/**
+ * Append computed field options to a list, skipping ones already present.
+ *
+ * Computed fields are declared by the collection author, so they are offered
+ * for every purpose rather than guessed from their names. A trailing "None"
+ * option stays last.
+ */
+function withComputedFields(
+  options: FieldOption[],
+  computedOptions: FieldOption[]
+): FieldOption[] {
+  const existing = new Set(options.map((option) => option.value));
+  const additions = computedOptions.filter((option) => !existing.has(option.value));
+  if (additions.length === 0) return options;
+
+  const last = options[options.length - 1];
+  if (last?.value === "none") {
+    return [...options.slice(0, -1), ...additions, last];
+  }
+  return [...options, ...additions];
+}
+
 /**
  * Hook to get available field options from the collection.
  *
  * @returns Object with field option arrays for different purposes
  */
 export function useAvailableFields() {
-  const { cards } = useCollectionData();
+  const { cards, computedFields } = useCollectionData();
 
   return useMemo(() => {
     // Analyse first 5 cards to determine available fields
@@ -229,6 +251,7 @@ export function useAvailableFields() {
     // Only include fields that actually exist in the collection (except "order" which is always available)
     const topBadgeFields: FieldOption[] = [
       { value: "order", label: "Order/Rank" },
+      { value: PERSONAL_RANKING_FIELD, label: "My Ranking" },
       ...allFields.filter((f) =>
         TOP_BADGE_FIELD_NAMES.has(f.value) ||
         TOP_BADGE_FIELD_KEYWORDS.some((keyword) => f.value.toLowerCase().includes(keyword))
@@ -236,19 +259,27 @@ export function useAvailableFields() {
       { value: "none", label: "None" },
     ];
 
+    // Computed fields from the collection definition
+    const computedOptions: FieldOption[] = computedFields.map((value) => ({
+      value,
+      label: generateLabel(value),
+    }));
+
     return {
       /** All discovered fields */
-      allFields,
+      allFields: withComputedFields(allFields, computedOptions),
       /** Fields suitable for footer badges */
-      footerBadgeFields,
+      footerBadgeFields: withComputedFields(footerBadgeFields, computedOptions),
       /** Fields suitable for subtitles */
-      subtitleFields,
+      subtitleFields: withComputedFields(subtitleFields, computedOptions),
       /** Fields suitable for sorting */
-      sortFields,
+      sortFields: withComputedFields(sortFields, computedOptions),
       /** Fields suitable for grouping */
-      groupByFields,
+      groupByFields: withComputedFields(groupByFields, computedOptions),
       /** Fields suitable for top corner badge */
-      topBadgeFields,
+      topBadgeFields: withComputedFields(topBadgeFields, computedOptions),
+      /** Computed fields declared by the collection */
+      computedFields: computedOptions,
     };
-  }, [cards]);
+  }, [cards, computedFields]);
 }
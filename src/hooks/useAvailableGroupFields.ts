@@ -10,6 +10,7 @@ import { useMemo } from "react";
 import { useCollectionData } from "@/context/CollectionDataContext";
 import { resolveFieldPath } from "@/utils/fieldPathResolver";
 import type { FieldOption } from "@/utils/fieldPathResolver";
+import { toTitleCase } from "@/utils/entityFields";
 
 /**
  * All possible grouping options with their field paths.
@@ -22,6 +23,8 @@ const ALL_GROUP_OPTIONS: FieldOption[] = [
   { value: "year", label: "Year" },
   { value: "decade", label: "Decade" },
   { value: "genres[0]", label: "Genre" },
+  { value: "_tags[0]", label: "Tag" },
+  { value: "_tier", label: "Tier" },
 ];
 
 /**
@@ -56,7 +59,8 @@ function fieldExistsInCards(
  * Hook to get available grouping field options based on collection data.
  *
  * Only returns options for fields that actually exist in the current
- * collection's cards. "None" is always available.
+ * collection's cards. "None" is always available. Computed fields declared
+ * by the collection are appended after the built-in options.
  *
  * @returns Array of available FieldOption objects
  *
@@ -76,7 +80,7 @@ function fieldExistsInCards(
  * ```
  */
 export function useAvailableGroupFields(): FieldOption[] {
-  const { cards } = useCollectionData();
+  const { cards, computedFields } = useCollectionData();
 
   return useMemo(() => {
     if (cards.length === 0) {
@@ -84,11 +88,16 @@ export function useAvailableGroupFields(): FieldOption[] {
       return [{ value: "none", label: "None" }];
     }
 
+    const builtIn = new Set(ALL_GROUP_OPTIONS.map((option) => option.value));
+    const computedOptions: FieldOption[] = computedFields
+      .filter((field) => !builtIn.has(field))
+      .map((field) => ({ value: field, label: toTitleCase(field) }));
+
     // Filter options based on which fields exist in the data
-    return ALL_GROUP_OPTIONS.filter((option) =>
+    return [...ALL_GROUP_OPTIONS, ...computedOptions].filter((option) =>
       fieldExistsInCards(cards as Record<string, unknown>[], option.value)
     );
-  }, [cards]);
+  }, [cards, computedFields]);
 }
 
 export { ALL_GROUP_OPTIONS };
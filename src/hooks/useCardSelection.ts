@@ -0,0 +1,212 @@
+/**
+ * Card selection gestures for card layouts.
+ *
+ * Attaches to the container of a layout rather than to each card, so every
+ * layout gets the same gestures: ctrl/cmd-click toggles a card, shift-click
+ * selects a range, long-press (touch) starts selecting, and dragging from the
+ * empty background draws a lasso. While selection mode is on, a plain click
+ * toggles a card instead of flipping or opening it. Cards are found through
+ * their `data-card-id` attribute.
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useSelectionStore } from "@/stores/selectionStore";
+import { useTouchGestures } from "./useTouchGestures";
+
+/**
+ * Minimum drag distance (px) before a background drag becomes a lasso.
+ */
+const LASSO_THRESHOLD = 5;
+
+/**
+ * Lasso rectangle in viewport coordinates.
+ */
+export interface LassoRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Options for card selection gestures.
+ */
+interface UseCardSelectionOptions {
+  /** Card IDs in display order (for range selection) */
+  orderedIds: readonly string[];
+  /** Whether selection gestures are enabled */
+  enabled?: boolean;
+}
+
+/**
+ * Card ID of the card element containing an event target.
+ */
+function cardIdAt(target: EventTarget | null): string | null {
+  if (!(target instanceof Element)) return null;
+  return target.closest<HTMLElement>("[data-card-id]")?.dataset.cardId ?? null;
+}
+
+/**
+ * Rectangle spanned by two points.
+ */
+function spanRect(a: { x: number; y: number }, b: { x: number; y: number }): LassoRect {
+  return {
+    left: Math.min(a.x, b.x),
+    top: Math.min(a.y, b.y),
+    width: Math.abs(a.x - b.x),
+    height: Math.abs(a.y - b.y),
+  };
+}
+
+/**
+ * Whether an element's bounds overlap a lasso.
+ */
+function intersects(bounds: DOMRect, lasso: LassoRect): boolean {
+  return (
+    bounds.left < lasso.left + lasso.width &&
+    bounds.right > lasso.left &&
+    bounds.top < lasso.top + lasso.height &&
+    bounds.bottom > lasso.top
+  );
+}
+
+/**
+ * Hook for selecting cards in a layout container.
+ *
+ * @param options - Display order and whether gestures are enabled
+ * @returns Container handlers, the selected IDs and the lasso being drawn
+ *
+ * @example
+ * ```tsx
+ * const { containerHandlers, selectedIdSet, lasso } = useCardSelection({
+ *   orderedIds: cards.map((card) => card.id),
+ * });
+ *
+ * return (
+ *   <div {...containerHandlers}>
+ *     {cards.map((card) => (
+ *       <div key={card.id} data-card-id={card.id} aria-selected={selectedIdSet.has(card.id)} />
+ *     ))}
+ *   </div>
+ * );
+ * ```
+ */
+export function useCardSelection({ orderedIds, enabled = true }: UseCardSelectionOptions) {
+  const isSelecting = useSelectionStore((s) => s.isSelecting);
+  const selectedIds = useSelectionStore((s) => s.selectedIds);
+  const selectedIdSet = useMemo(() => new Set(selectedIds), [selectedIds]);
+  const [lasso, setLasso] = useState<LassoRect | null>(null);
+
+  const pressedIdRef = useRef<string | null>(null);
+  const suppressClickRef = useRef(false);
+  const stopLassoRef = useRef<(() => void) | null>(null);
+
+  // Long-press selects the pressed card; the click that follows the touch
+  // must not toggle it straight back
+  const { handlers: touchHandlers } = useTouchGestures({
+    enabled,
+    onLongPress: () => {
+      const cardId = pressedIdRef.current;
+      if (!cardId) return;
+      suppressClickRef.current = true;
+      useSelectionStore.getState().toggleCard(cardId);
+    },
+  });
+
+  const handleTouchStart = useCallback(
+    (event: React.TouchEvent) => {
+      pressedIdRef.current = cardIdAt(event.target);
+      suppressClickRef.current = false;
+      touchHandlers.onTouchStart(event);
+    },
+    [touchHandlers]
+  );
+
+  const handleClickCapture = useCallback(
+    (event: React.MouseEvent) => {
+      if (!enabled) return;
+      if (suppressClickRef.current) {
+        suppressClickRef.current = false;
+        event.preventDefault();
+        event.stopPropagation();
+        return;
+      }
+
+      const cardId = cardIdAt(event.target);
+      if (!cardId) return;
+      const withModifier = event.shiftKey || event.ctrlKey || event.metaKey;
+      if (!withModifier && !useSelectionStore.getState().isSelecting) return;
+
+      // Selecting replaces the card's own click (flip or open)
+      event.preventDefault();
+      event.stopPropagation();
+      if (event.shiftKey) {
+        useSelectionStore.getState().selectRange(orderedIds, cardId);
+      } else {
+        useSelectionStore.getState().toggleCard(cardId);
+      }
+    },
+    [enabled, orderedIds]
+  );
+
+  // Lasso: drag from the container background; modifiers add to the selection
+  const handleMouseDown = useCallback(
+    (event: React.MouseEvent) => {
+      if (!enabled || event.button !== 0 || cardIdAt(event.target)) return;
+
+      const container = event.currentTarget;
+      const start = { x: event.clientX, y: event.clientY };
+      const additive = event.shiftKey || event.ctrlKey || event.metaKey;
+      const toRect = (e: MouseEvent) => spanRect(start, { x: e.clientX, y: e.clientY });
+      const isDrag = (rect: LassoRect) =>
+        rect.width >= LASSO_THRESHOLD || rect.height >= LASSO_THRESHOLD;
+
+      const handleMove = (e: MouseEvent) => {
+        const rect = toRect(e);
+        if (isDrag(rect)) setLasso(rect);
+      };
+      const stop = () => {
+        window.removeEventListener("mousemove", handleMove);
+        window.removeEventListener("mouseup", handleUp);
+        stopLassoRef.current = null;
+        setLasso(null);
+      };
+      const handleUp = (e: MouseEvent) => {
+        stop();
+        const rect = toRect(e);
+        if (!isDrag(rect)) return;
+
+        const hits = Array.from(container.querySelectorAll<HTMLElement>("[data-card-id]"))
+          .filter((element) => intersects(element.getBoundingClientRect(), rect))
+          .flatMap((element) => (element.dataset.cardId ? [element.dataset.cardId] : []));
+        if (hits.length > 0) {
+          useSelectionStore.getState().selectCards(hits, additive ? "add" : "replace");
+        }
+      };
+
+      stopLassoRef.current?.();
+      stopLassoRef.current = stop;
+      window.addEventListener("mousemove", handleMove);
+      window.addEventListener("mouseup", handleUp);
+    },
+    [enabled]
+  );
+
+  // Drop window listeners if unmounted mid-drag
+  useEffect(() => {
+    return () => {
+      stopLassoRef.current?.();
+    };
+  }, []);
+
+  const containerHandlers = enabled
+    ? {
+        ...touchHandlers,
+        onTouchStart: handleTouchStart,
+        onClickCapture: handleClickCapture,
+        onMouseDown: handleMouseDown,
+      }
+    : {};
+
+  return { containerHandlers, isSelecting, selectedIdSet, lasso };
+}
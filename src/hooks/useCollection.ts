@@ -12,10 +12,12 @@ import {
   loadCollection,
   createResolverContext,
   resolveAllRelationships,
+  resolveEntityRelationships,
   getEntityRank,
   getImageUrls,
   getPrimaryImage,
   getLogoUrl,
+  applyComputedFields,
 } from "@/loaders";
 import {
   cacheCollection,
@@ -26,7 +28,13 @@ import { withBase } from "@/config/basePath";
 import { useSourceStore } from "@/stores/sourceStore";
 import { useSettingsStore } from "@/stores/settingsStore";
 import type { Image } from "@/types/image";
-import type { ResolvedEntity, CollectionConfig } from "@/types/schema";
+import type {
+  Entity,
+  EntityFileLayout,
+  ResolvedEntity,
+  CollectionConfig,
+  CollectionDefinition,
+} from "@/types/schema";
 import type { DisplayConfig } from "@/types/display";
 import type { RatingValue } from "@/types/rating";
 import type { DetailLink } from "@/types/links";
@@ -146,6 +154,21 @@ interface CollectionResult {
   /** Collection-specific settings (from settings.json) */
   settings?: CollectionSettings;
 
+  /** Computed field expressions declared on the primary entity type */
+  computed?: Record<string, string>;
+
+  /** Collection schema (absent when served from the offline cache) */
+  definition?: CollectionDefinition;
+
+  /** Primary entity type name */
+  primaryType?: string;
+
+  /** Source entities by type, for reference pickers (absent for cached data) */
+  entities?: Record<string, Entity[]>;
+
+  /** File layout each entity type was loaded from (absent for cached data) */
+  entityLayouts?: Record<string, EntityFileLayout>;
+
   /** True when data was served from the offline cache after a failed fetch */
   isStale?: boolean;
 }
@@ -282,293 +305,374 @@ function buildResultFromCache(collection: Collection): CollectionResult {
 }
 
 /**
- * Fetch and process v2 schema collection.
+ * Convert a resolved entity to the DisplayCard format.
  *
- * @param basePath - Base path for the collection
- * @returns Collection result with display cards
+ * @param entity - Entity with relationships resolved
+ * @param rank - Order within its category, or null when unordered
+ * @returns Display card with guaranteed image URLs
  */
-async function loadFreshCollection(
-  basePath: string
-): Promise<CollectionResult> {
-  // Load collection and settings in parallel
-  const [loaded, settings] = await Promise.all([
-    loadCollection(basePath),
-    loadCollectionSettings(basePath),
-  ]);
+function toDisplayCard(entity: ResolvedEntity, rank: number | null): DisplayCard {
+  const images = entity.images;
+  const imageUrls = getImageUrls(images);
+  const primaryImage = getPrimaryImage(images);
+  const primaryImageUrl = primaryImage?.url ?? placeholderImage(entity.id);
+
+  // Include video URLs in the gallery (support for YouTube videos)
+  // Check for 'video' field (single URL or object) or 'videos' field (array)
+  // Handle both string URLs, objects with url property, and bare video IDs
+  const extractVideoUrl = (v: unknown): string | undefined => {
+    let url: string | undefined;
+
+    if (typeof v === "string") {
+      url = v;
+    } else if (v && typeof v === "object" && "url" in v) {
+      const urlValue = (v as { url: unknown }).url;
+      if (typeof urlValue === "string") {
+        url = urlValue;
+      }
+    }
 
-  const context = createResolverContext(loaded.definition, loaded.entities);
+    if (!url) return undefined;
 
-  // Resolve relationships for primary entities
-  const resolvedEntities = resolveAllRelationships(loaded.primaryType, context);
+    // Already a valid absolute URL
+    if (url.startsWith("http://") || url.startsWith("https://")) {
+      return url;
+    }
 
-  // Convert to DisplayCard format
-  const placeholder = placeholderImage;
-
-  const cards: DisplayCard[] = resolvedEntities.map(
-    (entity: ResolvedEntity) => {
-      const images = entity.images;
-      const imageUrls = getImageUrls(images);
-      const primaryImage = getPrimaryImage(images);
-      const primaryImageUrl = primaryImage?.url ?? placeholder(entity.id);
-
-      // Include video URLs in the gallery (support for YouTube videos)
-      // Check for 'video' field (single URL or object) or 'videos' field (array)
-      // Handle both string URLs, objects with url property, and bare video IDs
-      const extractVideoUrl = (v: unknown): string | undefined => {
-        let url: string | undefined;
-
-        if (typeof v === "string") {
-          url = v;
-        } else if (v && typeof v === "object" && "url" in v) {
-          const urlValue = (v as { url: unknown }).url;
-          if (typeof urlValue === "string") {
-            url = urlValue;
-          }
-        }
+    // Check if it looks like a YouTube video ID (11 chars, alphanumeric with - and _)
+    if (/^[a-zA-Z0-9_-]{11}$/.test(url)) {
+      return `https://www.youtube.com/watch?v=${url}`;
+    }
 
-        if (!url) return undefined;
+    // Skip other relative or invalid URLs
+    return undefined;
+  };
 
-        // Already a valid absolute URL
-        if (url.startsWith("http://") || url.startsWith("https://")) {
-          return url;
-        }
+  const videoUrl = extractVideoUrl(entity.video);
+  // `videos` is untrusted: only treat it as a list when it actually is one,
+  // otherwise `.map()` throws on a string/object and fails the whole load.
+  const rawVideosArray = Array.isArray(entity.videos)
+    ? (entity.videos as unknown[])
+    : undefined;
+  const videoUrls: string[] = [
+    ...(videoUrl ? [videoUrl] : []),
+    ...(rawVideosArray
+      ?.map(extractVideoUrl)
+      .filter((u): u is string => u !== undefined) ?? []),
+  ];
+
+  // Combine image URLs with video URLs for the gallery. The images/videos
+  // arrays are untrusted and uncapped in the schema, and this list feeds
+  // both the gallery (one dot button per entry) and the load-time image
+  // preloader (one cache probe + fetch per entry), so a hostile entity
+  // could otherwise mount tens of thousands of nodes or requests. Cap it.
+  const allMediaUrls = [...imageUrls, ...videoUrls].slice(
+    0,
+    MAX_MEDIA_PER_CARD
+  );
 
-        // Check if it looks like a YouTube video ID (11 chars, alphanumeric with - and _)
-        if (/^[a-zA-Z0-9_-]{11}$/.test(url)) {
-          return `https://www.youtube.com/watch?v=${url}`;
-        }
+  // Get resolved platform
+  const platform = entity._resolved?.platform as ResolvedEntity | undefined;
+
+  // Get title - entity.title should be a string, but we handle edge cases
+  const entityTitle = entity.title;
+  const title =
+    typeof entityTitle === "string"
+      ? entityTitle
+      : typeof entityTitle === "number"
+        ? String(entityTitle)
+        : "";
+
+  // Get year - convert to string if present, handle various types safely
+  const entityYear = entity.year;
+  let year: string | undefined;
+  if (entityYear === undefined) {
+    year = undefined;
+  } else if (typeof entityYear === "string") {
+    year = entityYear;
+  } else if (typeof entityYear === "number") {
+    year = String(entityYear);
+  } else {
+    year = undefined;
+  }
 
-        // Skip other relative or invalid URLs
-        return undefined;
-      };
+  // v2: Normalise rating if present. `null` (a common serialiser output for
+  // an absent value) means "no rating", not a rating to normalise.
+  const entityRating = entity.rating ?? entity.averageRating;
+  const rating =
+    entityRating !== undefined && entityRating !== null
+      ? normaliseRating(entityRating as number | { score: number })
+      : undefined;
+
+  // v2: Normalise detailUrls if present
+  const detailUrls = normaliseDetailUrls(
+    entity.detailUrls as
+      | string
+      | { url: string }
+      | { url: string }[]
+      | undefined
+  );
 
-      const videoUrl = extractVideoUrl(entity.video);
-      // `videos` is untrusted: only treat it as a list when it actually is one,
-      // otherwise `.map()` throws on a string/object and fails the whole load.
-      const rawVideosArray = Array.isArray(entity.videos)
-        ? (entity.videos as unknown[])
-        : undefined;
-      const videoUrls: string[] = [
-        ...(videoUrl ? [videoUrl] : []),
-        ...(rawVideosArray
-          ?.map(extractVideoUrl)
-          .filter((u): u is string => u !== undefined) ?? []),
-      ];
-
-      // Combine image URLs with video URLs for the gallery. The images/videos
-      // arrays are untrusted and uncapped in the schema, and this list feeds
-      // both the gallery (one dot button per entry) and the load-time image
-      // preloader (one cache probe + fetch per entry), so a hostile entity
-      // could otherwise mount tens of thousands of nodes or requests. Cap it.
-      const allMediaUrls = [...imageUrls, ...videoUrls].slice(
-        0,
-        MAX_MEDIA_PER_CARD
-      );
-
-      // Get resolved platform
-      const platform = entity._resolved?.platform as ResolvedEntity | undefined;
-
-      // Get rank
-      const rank = getEntityRank(entity, loaded.primaryType, context);
-
-      // Get title - entity.title should be a string, but we handle edge cases
-      const entityTitle = entity.title;
-      const title =
-        typeof entityTitle === "string"
-          ? entityTitle
-          : typeof entityTitle === "number"
-            ? String(entityTitle)
-            : "";
-
-      // Get year - convert to string if present, handle various types safely
-      const entityYear = entity.year;
-      let year: string | undefined;
-      if (entityYear === undefined) {
-        year = undefined;
-      } else if (typeof entityYear === "string") {
-        year = entityYear;
-      } else if (typeof entityYear === "number") {
-        year = String(entityYear);
-      } else {
-        year = undefined;
+  // v2: Use generic terminology. `shortTitle`/`title` are untrusted (loose
+  // schema) and this feeds the device badge, rendered as a JSX child.
+  const categoryShort =
+    toDisplayString(platform?.shortTitle) ??
+    toDisplayString(platform?.title);
+  const order = rank;
+
+  // Build DisplayCard with all entity fields for field path resolution
+  const displayCard: DisplayCard = {
+    // Core required fields
+    id: entity.id,
+    title,
+    year,
+    summary: toDisplayString(entity.summary),
+    detailUrl: entity.detailUrl as string | undefined,
+    imageUrl: primaryImageUrl,
+    imageUrls:
+      allMediaUrls.length > 0 ? allMediaUrls : [placeholderImage(entity.id)],
+    // v2 terminology
+    categoryTitle: toDisplayString(platform?.title),
+    categoryShort,
+    order,
+    imageAttribution: formatAttribution(images),
+    logoUrl: getLogoUrl(platform?.images),
+    // Legacy aliases for backward compatibility
+    device: categoryShort,
+    platformTitle: platform?.title as string | undefined,
+    rank: order,
+    metadata: Object.fromEntries(
+      Object.entries({
+        category: entity.platform as string | undefined,
+        order: order !== null ? String(order) : undefined,
+        // Legacy alias
+        rank: order !== null ? String(order) : undefined,
+      }).filter(
+        (entry): entry is [string, string] => entry[1] !== undefined
+      )
+    ),
+    // Include resolved relationships for field path resolution
+    _resolved: entity._resolved,
+    // v2 additions
+    rating,
+    // Include video URL as a YouTube link in detailUrls
+    detailUrls: (() => {
+      const urls: DetailLink[] = [...detailUrls];
+      // Add video URL as a YouTube link if present
+      if (videoUrl) {
+        urls.push({ url: videoUrl, source: "YouTube" });
       }
-
-      // v2: Normalise rating if present. `null` (a common serialiser output for
-      // an absent value) means "no rating", not a rating to normalise.
-      const entityRating = entity.rating ?? entity.averageRating;
-      const rating =
-        entityRating !== undefined && entityRating !== null
-          ? normaliseRating(entityRating as number | { score: number })
-          : undefined;
-
-      // v2: Normalise detailUrls if present
-      const detailUrls = normaliseDetailUrls(
-        entity.detailUrls as
-          | string
-          | { url: string }
-          | { url: string }[]
-          | undefined
-      );
-
-      // v2: Use generic terminology. `shortTitle`/`title` are untrusted (loose
-      // schema) and this feeds the device badge, rendered as a JSX child.
-      const categoryShort =
-        toDisplayString(platform?.shortTitle) ??
-        toDisplayString(platform?.title);
-      const order = rank;
-
-      // Build DisplayCard with all entity fields for field path resolution
-      const displayCard: DisplayCard = {
-        // Core required fields
-        id: entity.id,
-        title,
-        year,
-        summary: toDisplayString(entity.summary),
-        detailUrl: entity.detailUrl as string | undefined,
-        imageUrl: primaryImageUrl,
-        imageUrls:
-          allMediaUrls.length > 0 ? allMediaUrls : [placeholder(entity.id)],
-        // v2 terminology
-        categoryTitle: toDisplayString(platform?.title),
-        categoryShort,
-        order,
-        imageAttribution: formatAttribution(images),
-        logoUrl: getLogoUrl(platform?.images),
-        // Legacy aliases for backward compatibility
-        device: categoryShort,
-        platformTitle: platform?.title as string | undefined,
-        rank: order,
-        metadata: Object.fromEntries(
-          Object.entries({
-            category: entity.platform as string | undefined,
-            order: order !== null ? String(order) : undefined,
-            // Legacy alias
-            rank: order !== null ? String(order) : undefined,
-          }).filter(
-            (entry): entry is [string, string] => entry[1] !== undefined
-          )
-        ),
-        // Include resolved relationships for field path resolution
-        _resolved: entity._resolved,
-        // v2 additions
-        rating,
-        // Include video URL as a YouTube link in detailUrls
-        detailUrls: (() => {
-          const urls: DetailLink[] = [...detailUrls];
-          // Add video URL as a YouTube link if present
-          if (videoUrl) {
-            urls.push({ url: videoUrl, source: "YouTube" });
-          }
-          // Add all video URLs from videos array
-          for (const url of videoUrls) {
-            if (url !== videoUrl) {
-              urls.push({ url, source: "YouTube" });
+      // Add all video URLs from videos array
+      for (const url of videoUrls) {
+        if (url !== videoUrl) {
+          urls.push({ url, source: "YouTube" });
+        }
+      }
+      if (urls.length === 0) {
+        return undefined;
+      }
+      return urls.slice(0, MAX_DETAIL_LINKS_PER_CARD);
+    })(),
+    primaryImage,
+    // Category/platform info for expanded view
+    categoryInfo: platform
+      ? (() => {
+          // Extract additional fields (exclude internal/display fields)
+          const skipFields = new Set([
+            "id",
+            "title",
+            "shortTitle",
+            "year",
+            "summary",
+            "images",
+            "detailUrl",
+            "detailUrls",
+            "_resolved",
+            "logoUrl",
+          ]);
+          // `platform` is an untrusted loose-schema entity, so cap the
+          // copied keys: the platform overlay renders one DOM row per entry
+          // and an unbounded key set would freeze the tab. Matches the
+          // per-entity displayable-fields cap.
+          const MAX_PLATFORM_FIELDS = 100;
+          const additionalFields: Record<string, unknown> = {};
+          for (const [key, value] of Object.entries(platform)) {
+            if (
+              !skipFields.has(key) &&
+              value !== undefined &&
+              value !== null
+            ) {
+              additionalFields[key] = value;
+              if (
+                Object.keys(additionalFields).length >= MAX_PLATFORM_FIELDS
+              ) {
+                break;
+              }
             }
           }
-          if (urls.length === 0) {
-            return undefined;
+
+          // Get explicit detailUrls or auto-generate Wikipedia link from title.
+          // `platform.title` is untrusted (loose v2 schema), so coerce as the
+          // primary entity does above; a non-string value must not reach the
+          // `.replace()` below, which would fail the whole load.
+          const platformTitle =
+            typeof platform.title === "string"
+              ? platform.title
+              : typeof platform.title === "number"
+                ? String(platform.title)
+                : "";
+          // Cap the untrusted platform detail links at the same choke
+          // point as the card's own, so the platform overlay (one anchor +
+          // several URL parses per link) cannot be flooded via
+          // `platform.detailUrls` instead of the card's `videos`.
+          let platformDetailUrls = normaliseDetailUrls(
+            platform.detailUrls as
+              | string
+              | { url: string }
+              | { url: string }[]
+              | undefined
+          ).slice(0, MAX_DETAIL_LINKS_PER_CARD);
+
+          // Auto-generate Wikipedia URL if no detailUrls specified
+          if (platformDetailUrls.length === 0 && platformTitle) {
+            const wikipediaTitle = platformTitle.replace(/ /g, "_");
+            platformDetailUrls = [
+              {
+                url: `https://en.wikipedia.org/wiki/${encodeURIComponent(wikipediaTitle)}`,
+                source: "Wikipedia",
+              },
+            ];
           }
-          return urls.slice(0, MAX_DETAIL_LINKS_PER_CARD);
-        })(),
-        primaryImage,
-        // Category/platform info for expanded view
-        categoryInfo: platform
-          ? (() => {
-              // Extract additional fields (exclude internal/display fields)
-              const skipFields = new Set([
-                "id",
-                "title",
-                "shortTitle",
-                "year",
-                "summary",
-                "images",
-                "detailUrl",
-                "detailUrls",
-                "_resolved",
-                "logoUrl",
-              ]);
-              // `platform` is an untrusted loose-schema entity, so cap the
-              // copied keys: the platform overlay renders one DOM row per entry
-              // and an unbounded key set would freeze the tab. Matches the
-              // per-entity displayable-fields cap.
-              const MAX_PLATFORM_FIELDS = 100;
-              const additionalFields: Record<string, unknown> = {};
-              for (const [key, value] of Object.entries(platform)) {
-                if (
-                  !skipFields.has(key) &&
-                  value !== undefined &&
-                  value !== null
-                ) {
-                  additionalFields[key] = value;
-                  if (
-                    Object.keys(additionalFields).length >= MAX_PLATFORM_FIELDS
-                  ) {
-                    break;
-                  }
-                }
-              }
 
-              // Get explicit detailUrls or auto-generate Wikipedia link from title.
-              // `platform.title` is untrusted (loose v2 schema), so coerce as the
-              // primary entity does above; a non-string value must not reach the
-              // `.replace()` below, which would fail the whole load.
-              const platformTitle =
-                typeof platform.title === "string"
-                  ? platform.title
-                  : typeof platform.title === "number"
-                    ? String(platform.title)
-                    : "";
-              // Cap the untrusted platform detail links at the same choke
-              // point as the card's own, so the platform overlay (one anchor +
-              // several URL parses per link) cannot be flooded via
-              // `platform.detailUrls` instead of the card's `videos`.
-              let platformDetailUrls = normaliseDetailUrls(
-                platform.detailUrls as
-                  | string
-                  | { url: string }
-                  | { url: string }[]
-                  | undefined
-              ).slice(0, MAX_DETAIL_LINKS_PER_CARD);
-
-              // Auto-generate Wikipedia URL if no detailUrls specified
-              if (platformDetailUrls.length === 0 && platformTitle) {
-                const wikipediaTitle = platformTitle.replace(/ /g, "_");
-                platformDetailUrls = [
-                  {
-                    url: `https://en.wikipedia.org/wiki/${encodeURIComponent(wikipediaTitle)}`,
-                    source: "Wikipedia",
-                  },
-                ];
-              }
+          return {
+            id: platform.id,
+            title: platformTitle,
+            year: toDisplayString(platform.year),
+            summary: toDisplayString(platform.summary),
+            detailUrls:
+              platformDetailUrls.length > 0
+                ? platformDetailUrls
+                : undefined,
+            additionalFields:
+              Object.keys(additionalFields).length > 0
+                ? additionalFields
+                : undefined,
+          };
+        })()
+      : undefined,
+  };
 
-              return {
-                id: platform.id,
-                title: platformTitle,
-                year: toDisplayString(platform.year),
-                summary: toDisplayString(platform.summary),
-                detailUrls:
-                  platformDetailUrls.length > 0
-                    ? platformDetailUrls
-                    : undefined,
-                additionalFields:
-                  Object.keys(additionalFields).length > 0
-                    ? additionalFields
-                    : undefined,
-              };
-            })()
-          : undefined,
-      };
+  // Copy all additional entity fields for field path resolution
+  // This includes personal fields like verdict, rating, playedSince, status
+  for (const [key, value] of Object.entries(entity)) {
+    if (!(key in displayCard) && key !== "_resolved") {
+      displayCard[key] = value;
+    }
+  }
 
-      // Copy all additional entity fields for field path resolution
-      // This includes personal fields like verdict, rating, playedSince, status
-      for (const [key, value] of Object.entries(entity)) {
-        if (!(key in displayCard) && key !== "_resolved") {
-          displayCard[key] = value;
-        }
-      }
+  return displayCard;
+}
 
-      return displayCard;
-    }
+/**
+ * Schema context for building cards from locally created entities.
+ */
+export interface LocalCardContext {
+  /** Collection schema (absent for cached data) */
+  definition?: CollectionDefinition;
+  /** Primary entity type name */
+  primaryType?: string;
+  /** Source entities by type, for resolving references */
+  entities?: Record<string, Entity[]>;
+  /** Computed field expressions of the primary type */
+  computed?: Record<string, string>;
+}
+
+/**
+ * Build display cards for entities created locally.
+ *
+ * With a schema the entities go through the same relationship resolution,
+ * computed fields and ranking as source entities (they join the primary type
+ * so ranks account for them); without one they are converted as-is.
+ *
+ * @param created - Locally created primary entities
+ * @param context - Collection schema and source entities
+ * @returns Display cards for the created entities
+ *
+ * @example
+ * ```ts
+ * const localCards = buildLocalCards(
+ *   [{ id: "local_1", title: "New game", platform: "snes" }],
+ *   { definition, primaryType: "game", entities }
+ * );
+ * ```
+ */
+export function buildLocalCards(
+  created: Entity[],
+  { definition, primaryType, entities, computed }: LocalCardContext
+): DisplayCard[] {
+  if (created.length === 0) return [];
+  if (!definition || !primaryType || !entities) {
+    return created.map((entity) => toDisplayCard(entity, null));
+  }
+
+  const resolverContext = createResolverContext(definition, {
+    ...entities,
+    [primaryType]: [...(entities[primaryType] ?? []), ...created],
+  });
+  const resolved = applyComputedFields(
+    created.map((entity) =>
+      resolveEntityRelationships(entity, primaryType, resolverContext)
+    ),
+    computed
+  );
+  return resolved.map((entity) =>
+    toDisplayCard(entity, getEntityRank(entity, primaryType, resolverContext))
+  );
+}
+
+/**
+ * Fetch and process v2 schema collection.
+ *
+ * @param basePath - Base path for the collection
+ * @returns Collection result with display cards
+ */
+async function loadFreshCollection(
+  basePath: string
+): Promise<CollectionResult> {
+  // Load collection and settings in parallel
+  const [loaded, settings] = await Promise.all([
+    loadCollection(basePath),
+    loadCollectionSettings(basePath),
+  ]);
+
+  const { entityTypes } = loaded.definition;
+  const primaryComputed = Object.hasOwn(entityTypes, loaded.primaryType)
+    ? entityTypes[loaded.primaryType]?.computed
+    : undefined;
+
+  // Evaluate computed fields on related entity types first, so primary
+  // expressions can read them through `_resolved` (e.g. `platform.age`)
+  const entities = Object.fromEntries(
+    Object.entries(loaded.entities).map(([type, list]) => [
+      type,
+      type !== loaded.primaryType && Object.hasOwn(entityTypes, type)
+        ? applyComputedFields(list, entityTypes[type]?.computed)
+        : list,
+    ])
+  );
+
+  const context = createResolverContext(loaded.definition, entities);
+
+  // Resolve relationships for primary entities, then evaluate their
+  // computed fields against the resolved data
+  const resolvedEntities = applyComputedFields(
+    resolveAllRelationships(loaded.primaryType, context),
+    primaryComputed
+  );
+
+  // Convert to DisplayCard format
+  const cards: DisplayCard[] = resolvedEntities.map((entity) =>
+    toDisplayCard(entity, getEntityRank(entity, loaded.primaryType, context))
   );
 
   // Create minimal legacy Collection for backward compatibility
@@ -604,6 +708,11 @@ async function loadFreshCollection(
     uiLabels: loaded.definition.uiLabels,
     config: loaded.definition.config,
     settings: settings ?? undefined,
+    computed: primaryComputed,
+    definition: loaded.definition,
+    primaryType: loaded.primaryType,
+    entities,
+    entityLayouts: loaded.layouts,
   };
 }
 
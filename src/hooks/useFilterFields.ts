@@ -0,0 +1,89 @@
+/**
+ * Hook to derive the search-bar filter fields for the current collection.
+ *
+ * Filter fields come from the collection schema (entity type fields,
+ * relationships and computed fields) via discoverFilterFields. Collections
+ * served without a schema fall back to FILTER_FIELD_DEFS. Personal tags are
+ * always offered. Only fields that have values on the loaded cards are
+ * returned.
+ *
+ * Number, date and rating fields become range filters; their bounds and
+ * histograms come from computeCollectionStats. Computed fields whose values
+ * are all numbers are range-filtered too. Tier list placements are offered
+ * in the order of the tier rows.
+ */
+
+import { useMemo } from "react";
+import { useCollectionData } from "@/context/CollectionDataContext";
+import { useActiveSourceUrl } from "@/stores/sourceStore";
+import { getSourceTierList, useTierListStore } from "@/stores/tierListStore";
+import { discoverFilterFields } from "@/services/fieldDiscovery";
+import { classifyStatFields, computeCollectionStats } from "@/utils/collectionStats";
+import { getTierLabel } from "@/utils/tierList";
+import {
+  FILTER_FIELD_DEFS,
+  RANGE_HISTOGRAM_BINS,
+  TAG_FILTER_FIELD_DEF,
+  TIER_FILTER_FIELD_DEF,
+  collectFilterOptions,
+  isRangeFilterKind,
+  type FilterField,
+} from "@/utils/filterMatch";
+
+/**
+ * Hook to get the filter fields and their options for the current collection.
+ *
+ * @returns Filter fields with options collected from the collection's cards
+ *
+ * @example
+ * ```tsx
+ * const filterFields = useFilterFields();
+ * return <FilterChips filterFields={filterFields} />;
+ * ```
+ */
+export function useFilterFields(): FilterField[] {
+  const { cards, definition, primaryType, computedFields } = useCollectionData();
+  const sourceUrl = useActiveSourceUrl();
+  const tierLists = useTierListStore((s) => s.tierLists);
+
+  const schemaDefs = useMemo(() => {
+    const tierDef = {
+      ...TIER_FILTER_FIELD_DEF,
+      enumValues: getSourceTierList(tierLists, sourceUrl).rows.map(getTierLabel),
+    };
+    if (!definition || !primaryType) {
+      return [...FILTER_FIELD_DEFS, TAG_FILTER_FIELD_DEF, tierDef];
+    }
+    return [
+      ...discoverFilterFields(definition, primaryType, computedFields),
+      TAG_FILTER_FIELD_DEF,
+      tierDef,
+    ];
+  }, [definition, primaryType, computedFields, tierLists, sourceUrl]);
+
+  return useMemo(() => {
+    const numericComputed = new Set(classifyStatFields(cards, computedFields).numeric);
+    const defs = schemaDefs.map((def) =>
+      def.kind === "value" && numericComputed.has(def.field)
+        ? { ...def, kind: "number" as const }
+        : def
+    );
+
+    const rangeDefs = defs.filter((def) => isRangeFilterKind(def.kind));
+    const stats = computeCollectionStats(
+      cards,
+      rangeDefs.map((def) => def.field),
+      [],
+      {
+        histogramBins: RANGE_HISTOGRAM_BINS,
+        dateFields: rangeDefs.filter((def) => def.kind === "date").map((def) => def.field),
+      }
+    );
+
+    return collectFilterOptions(
+      cards as unknown as Record<string, unknown>[],
+      defs,
+      stats.numericFields
+    );
+  }, [cards, schemaDefs, computedFields]);
+}
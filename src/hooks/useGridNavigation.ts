@@ -25,6 +25,23 @@ interface UseGridNavigationResult {
   gridRef: React.RefObject<HTMLElement | null>;
 }
 
+/**
+ * Find the focusable element of a grid item.
+ *
+ * Virtualised grids only mount the items near the viewport, so items are
+ * looked up by their `data-grid-index` rather than by DOM position. Grids
+ * that render every item fall back to the nth `[data-card-id]` element.
+ */
+function findGridItem(container: HTMLElement, index: number): HTMLElement | null {
+  const indexed = container.querySelector<HTMLElement>(
+    `[data-grid-index="${String(index)}"]`
+  );
+  if (indexed) {
+    return indexed.querySelector<HTMLElement>("[data-card-id]") ?? indexed;
+  }
+  return container.querySelectorAll<HTMLElement>("[data-card-id]")[index] ?? null;
+}
+
 /**
  * Hook for grid keyboard navigation using roving tabindex pattern.
  *
@@ -33,6 +50,9 @@ interface UseGridNavigationResult {
  * - Vim-style keys (h/j/k/l) for navigation
  * - Home/End for first/last item
  * - Enter/Space to select
+ *
+ * Focus moves after the next render, so a virtualised grid can mount the
+ * newly focused item first (see useVirtualRows pinnedIndexes).
  */
 export function useGridNavigation({
   totalItems,
@@ -42,6 +62,7 @@ export function useGridNavigation({
 }: UseGridNavigationOptions): UseGridNavigationResult {
   const [focusedIndex, setFocusedIndex] = useState(0);
   const gridRef = useRef<HTMLElement>(null);
+  const pendingFocusRef = useRef(false);
 
   // Clamp focused index when totalItems changes
   useEffect(() => {
@@ -115,21 +136,25 @@ export function useGridNavigation({
         event.preventDefault();
 
         if (newIndex !== focusedIndex) {
+          pendingFocusRef.current = true;
           setFocusedIndex(newIndex);
-
-          // Focus the new item
-          const container = gridRef.current;
-          if (container) {
-            const items = container.querySelectorAll("[data-card-id]");
-            const targetItem = items[newIndex] as HTMLElement | undefined;
-            targetItem?.focus();
-          }
         }
       }
     },
     [enabled, totalItems, columns, focusedIndex, onSelect]
   );
 
+  // Focus the new item once it has rendered
+  useEffect(() => {
+    if (!pendingFocusRef.current) return;
+    pendingFocusRef.current = false;
+
+    const container = gridRef.current;
+    if (container) {
+      findGridItem(container, focusedIndex)?.focus();
+    }
+  }, [focusedIndex]);
+
   const getTabIndex = useCallback(
     (index: number): 0 | -1 => {
       if (!enabled) return -1;
@@ -9,7 +9,9 @@
  * - /gh/REPPL/c/retro/my_games - Nested path format
  * - /gh/{username}/ - Opens picker with username prefilled
  * - /gh/{username}/collection/{folder}/ - Legacy path format
- * - ?collection=full-url - Legacy full URL format
+ * - /gl?u=REPPL&c=my_games, /gl/REPPL/c/my_games - GitLab equivalents
+ * - ?collection=full-url - Legacy full URL format (gitlab.com links are
+ *   converted to CDN URLs)
  *
  * Path type indicators:
  * - /c/ = collection
@@ -21,6 +23,7 @@
  * itemdeck.app/gh?u=REPPL&c=retro-games
  * itemdeck.app/gh/REPPL/c/retro-games
  * itemdeck.app/gh/REPPL/c/retro/my_games
+ * itemdeck.app/gl/REPPL/c/retro-games
  * itemdeck.app/?collection=https://cdn.jsdelivr.net/gh/REPPL/MyPlausibleMe@main/data/collections/commercials
  * ```
  */
@@ -29,6 +32,7 @@ import { useMemo } from "react";
 import { parseProviderUrl, buildCollectionUrl } from "@/providers";
 import { isAllowedCollectionSource } from "@/config/allowedSources";
 import { getBasePath, stripBase } from "@/config/basePath";
+import { gitLabWebUrlToCdnUrl } from "@/loaders/gitlabDiscovery";
 
 /**
  * Parsed URL collection info.
@@ -72,6 +76,8 @@ function parseAbsoluteUrl(value: string): URL | null {
  * 5. Path-based: /gh/REPPL/collection/my_games/ (legacy)
  * 6. Legacy full URL: ?collection=https://cdn.jsdelivr.net/...
  *
+ * Formats 1-5 also accept the GitLab provider prefix (/gl).
+ *
  * @param pathname - URL pathname (the app base path is stripped first)
  * @param searchParams - URL search parameters
  * @returns Parsed collection info from URL
@@ -92,6 +98,20 @@ export function parseUrlPath(
     ? parseAbsoluteUrl(legacyCollectionUrl)
     : null;
   if (legacyCollectionUrl && legacyUrl) {
+    // Pasted gitlab.com links are served through the GitLab provider's CDN
+    const gitlabCdnUrl = gitLabWebUrlToCdnUrl(legacyCollectionUrl);
+    if (gitlabCdnUrl) {
+      return {
+        hasGitHubPath: false,
+        username: null,
+        folder: null,
+        directLoad: true,
+        collectionUrl: gitlabCdnUrl,
+        providerId: "gl",
+        error: null,
+      };
+    }
+
     // Absolute URL: enforce the source allowlist before accepting it.
     if (!isAllowedCollectionSource(legacyCollectionUrl)) {
       return {
@@ -142,10 +162,10 @@ export function parseUrlPath(
     }
   }
 
-  // 3. Check for path-based formats: /gh/REPPL/...
-  const ghMatch = /^\/gh\/([^/]+)\/?(.*)$/.exec(path);
+  // 3. Check for path-based formats: /gh/REPPL/... or /gl/REPPL/...
+  const pathMatch = /^\/(gh|gl)\/([^/]+)\/?(.*)$/.exec(path);
 
-  if (!ghMatch) {
+  if (!pathMatch) {
     return {
       hasGitHubPath: false,
       username: null,
@@ -157,24 +177,26 @@ export function parseUrlPath(
     };
   }
 
-  const username = ghMatch[1] ?? null;
-  const rest = ghMatch[2] ?? "";
+  const pathProviderId = pathMatch[1] ?? "gh";
+  const isGitHub = pathProviderId === "gh";
+  const username = pathMatch[2] ?? null;
+  const rest = pathMatch[3] ?? "";
 
   // 4. Check for new short format: /c/{path} (supports nested folders)
   const shortPathMatch = /^c\/(.+?)\/?$/.exec(rest);
   if (shortPathMatch) {
     const folder = shortPathMatch[1] ?? null;
     const collectionUrl = username && folder
-      ? buildCollectionUrl("gh", { u: username, collection: folder })
+      ? buildCollectionUrl(pathProviderId, { u: username, collection: folder })
       : null;
 
     return {
-      hasGitHubPath: true,
+      hasGitHubPath: isGitHub,
       username,
       folder,
       directLoad: true,
       collectionUrl,
-      providerId: "gh",
+      providerId: pathProviderId,
       error: null,
     };
   }
@@ -184,23 +206,23 @@ export function parseUrlPath(
   if (legacyPathMatch) {
     const folder = legacyPathMatch[1] ?? null;
     const collectionUrl = username && folder
-      ? buildCollectionUrl("gh", { u: username, collection: folder })
+      ? buildCollectionUrl(pathProviderId, { u: username, collection: folder })
       : null;
 
     return {
-      hasGitHubPath: true,
+      hasGitHubPath: isGitHub,
       username,
       folder,
       directLoad: true,
       collectionUrl,
-      providerId: "gh",
+      providerId: pathProviderId,
       error: null,
     };
   }
 
-  // Just username, no specific collection
+  // Just username, no specific collection (the picker only browses GitHub)
   return {
-    hasGitHubPath: true,
+    hasGitHubPath: isGitHub,
     username,
     folder: null,
     directLoad: false,
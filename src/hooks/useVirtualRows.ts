@@ -0,0 +1,162 @@
+/**
+ * Hook for windowed rendering of card rows.
+ *
+ * Wraps @tanstack/react-virtual's window virtualizer so only the rows near
+ * the viewport are mounted. The page itself scrolls, so the virtualizer is
+ * given the container's offset from the top of the document as its scroll
+ * margin. Rows can be pinned (e.g. the keyboard-focused row or the row being
+ * dragged) so they stay mounted while off screen, and sticky rows (group
+ * headers) keep the most recent one above the viewport mounted so it can
+ * stick to the top.
+ */
+
+import { useCallback, useLayoutEffect, useState, type RefObject } from "react";
+import {
+  defaultRangeExtractor,
+  useWindowVirtualizer,
+  type Range,
+  type Virtualizer,
+} from "@tanstack/react-virtual";
+
+/**
+ * Rows rendered beyond each edge of the viewport.
+ */
+const DEFAULT_OVERSCAN = 3;
+
+/**
+ * Options for useVirtualRows.
+ */
+interface UseVirtualRowsOptions {
+  /** Number of rows */
+  count: number;
+  /** Estimated (or exact) height of a row in pixels, including its gap */
+  estimateSize: (index: number) => number;
+  /** Element the rows are positioned in */
+  containerRef: RefObject<HTMLElement | null>;
+  /** Stable key per row, so measurements survive reordering */
+  getItemKey?: (index: number) => string | number;
+  /** Rows that stay mounted wherever the viewport is */
+  pinnedIndexes?: readonly number[];
+  /** Rows that stick to the top of the viewport (ascending) */
+  stickyIndexes?: readonly number[];
+  /** Rows rendered beyond each edge of the viewport */
+  overscan?: number;
+}
+
+/**
+ * Result of useVirtualRows.
+ */
+interface UseVirtualRowsResult {
+  /** Underlying virtualizer (getVirtualItems, getTotalSize, measureElement) */
+  virtualizer: Virtualizer<Window, Element>;
+  /** Sticky row currently stuck to the top of the viewport, if any */
+  activeStickyIndex: number | null;
+  /** Offset of a row within the container, in pixels */
+  getRowOffset: (start: number) => number;
+}
+
+/**
+ * Find the last sticky row at or before an index.
+ */
+function findActiveSticky(
+  stickyIndexes: readonly number[],
+  startIndex: number
+): number | null {
+  let active: number | null = null;
+  for (const index of stickyIndexes) {
+    if (index > startIndex) break;
+    active = index;
+  }
+  return active;
+}
+
+/**
+ * Hook for rendering only the rows of a long list that are near the viewport.
+ *
+ * @param options - Row count, sizes and the container element
+ * @returns The virtualizer, the active sticky row and an offset helper
+ *
+ * @example
+ * ```tsx
+ * const { virtualizer, getRowOffset } = useVirtualRows({
+ *   count: rows,
+ *   estimateSize: () => cardHeight + GAP,
+ *   containerRef,
+ * });
+ * return virtualizer.getVirtualItems().map((row) => (
+ *   <Row key={row.key} style={{ top: getRowOffset(row.start) }} />
+ * ));
+ * ```
+ */
+export function useVirtualRows({
+  count,
+  estimateSize,
+  containerRef,
+  getItemKey,
+  pinnedIndexes = [],
+  stickyIndexes = [],
+  overscan = DEFAULT_OVERSCAN,
+}: UseVirtualRowsOptions): UseVirtualRowsResult {
+  const [scrollMargin, setScrollMargin] = useState(0);
+
+  // Track the container's document offset; content above it (search bar,
+  // statistics bar) can change height at any time, and the container element
+  // itself changes when the layout switches
+  useLayoutEffect(() => {
+    const updateMargin = () => {
+      const container = containerRef.current;
+      if (container) {
+        setScrollMargin(container.getBoundingClientRect().top + window.scrollY);
+      }
+    };
+
+    updateMargin();
+
+    const resizeObserver = new ResizeObserver(updateMargin);
+    resizeObserver.observe(document.body);
+
+    return () => {
+      resizeObserver.disconnect();
+    };
+  }, [containerRef, count]);
+
+  // Keep pinned rows and the active sticky row mounted
+  const pinnedKey = pinnedIndexes.join(",");
+  const stickyKey = stickyIndexes.join(",");
+  const rangeExtractor = useCallback(
+    (range: Range) => {
+      const indexes = new Set(defaultRangeExtractor(range));
+      const activeSticky = findActiveSticky(stickyIndexes, range.startIndex);
+      if (activeSticky !== null) indexes.add(activeSticky);
+      for (const index of pinnedIndexes) {
+        if (index >= 0 && index < range.count) indexes.add(index);
+      }
+      return [...indexes].sort((a, b) => a - b);
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- keyed on contents, not array identity
+    [pinnedKey, stickyKey]
+  );
+
+  const virtualizer = useWindowVirtualizer<Element>({
+    count,
+    estimateSize,
+    overscan,
+    scrollMargin,
+    getItemKey,
+    rangeExtractor,
+  });
+
+  // getVirtualItems brings range up to date with the current scroll position
+  virtualizer.getVirtualItems();
+  const activeStickyIndex = findActiveSticky(
+    stickyIndexes,
+    virtualizer.range?.startIndex ?? 0
+  );
+
+  const getRowOffset = useCallback(
+    (start: number) => start - scrollMargin,
+    [scrollMargin]
+  );
+
+  return { virtualizer, activeStickyIndex, getRowOffset };
+}
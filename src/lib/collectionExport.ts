@@ -46,6 +46,39 @@ export function exportCollection(
   URL.revokeObjectURL(url);
 }
 
+/**
+ * Export selected cards as a downloadable collection JSON file. Cards are
+ * written as displayed (with local edits); internal display keys (prefixed
+ * with "_") are left out.
+ *
+ * @param cards - Cards to export
+ * @param filename - Download filename (default: "itemdeck-selection.json")
+ *
+ * @example
+ * ```ts
+ * exportCardSelection(selectedCards, "retro-games-selection.json");
+ * ```
+ */
+export function exportCardSelection(
+  cards: readonly Record<string, unknown>[],
+  filename = "itemdeck-selection.json"
+): void {
+  const items = cards.map((card) =>
+    Object.fromEntries(Object.entries(card).filter(([key]) => !key.startsWith("_")))
+  );
+  const json = JSON.stringify({ items, categories: [] }, null, 2);
+  const blob = new Blob([json], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
 /**
  * Import collection data from a JSON file.
  *
@@ -87,8 +120,17 @@ export async function importCollection(file: File): Promise<Collection> {
 
 /**
  * Escape a value for CSV format.
+ *
+ * @param value - Cell value
+ * @returns The cell text, quoted when needed and safe from formula injection
+ *
+ * @example
+ * ```ts
+ * escapeCsvValue("Tetris, Deluxe"); // '"Tetris, Deluxe"'
+ * escapeCsvValue("=SUM(A1)");       // "'=SUM(A1)"
+ * ```
  */
-function escapeCsvValue(value: unknown): string {
+export function escapeCsvValue(value: unknown): string {
   if (value === null || value === undefined) {
     return "";
   }
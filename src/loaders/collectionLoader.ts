@@ -4,12 +4,13 @@
  * Loads and parses collection definitions from JSON files.
  * Supports Zod validation for v2 schemas with helpful error messages.
  *
- * @see F-091: Entity Auto-Discovery (GitHub API fallback)
+ * @see F-091: Entity Auto-Discovery (GitHub/GitLab API fallback)
  */
 
 import type {
   CollectionDefinition,
   Entity,
+  EntityFileLayout,
   LoadedCollection,
   SchemaVersion,
 } from "@/types/schema";
@@ -23,6 +24,10 @@ import {
   discoverEntitiesViaGitHub,
   isJsDelivrGitHubUrl,
 } from "./githubDiscovery";
+import {
+  discoverEntitiesViaGitLab,
+  isStaticallyGitLabUrl,
+} from "./gitlabDiscovery";
 import { isAllowedCollectionSource } from "@/config/allowedSources";
 
 /**
@@ -230,6 +235,17 @@ export async function loadEntities(
   basePath: string,
   entityType: string
 ): Promise<Entity[]> {
+  return (await loadEntityFiles(basePath, entityType)).entities;
+}
+
+/**
+ * Load entities of a type along with the file layout they were found in,
+ * so changes can be written back in the same layout.
+ */
+async function loadEntityFiles(
+  basePath: string,
+  entityType: string
+): Promise<{ entities: Entity[]; layout: EntityFileLayout }> {
   // Pluralise entity type for folder name
   const pluralType = `${entityType}s`;
 
@@ -257,7 +273,7 @@ export async function loadEntities(
               `${basePath}/${pluralType}`,
               entityIds
             );
-            return entities;
+            return { entities, layout: { kind: "directory" } };
           }
         }
       }
@@ -266,12 +282,17 @@ export async function loadEntities(
     }
   }
 
-  // Pattern 2: GitHub API auto-discovery (F-091)
-  // Only works for jsDelivr GitHub CDN URLs
+  // Pattern 2: GitHub/GitLab API auto-discovery (F-091)
+  // Only works for jsDelivr GitHub and Statically GitLab CDN URLs
   const entityDirectoryUrl = `${basePath}/${pluralType}`;
-  if (isJsDelivrGitHubUrl(entityDirectoryUrl)) {
+  const discover = isJsDelivrGitHubUrl(entityDirectoryUrl)
+    ? discoverEntitiesViaGitHub
+    : isStaticallyGitLabUrl(entityDirectoryUrl)
+      ? discoverEntitiesViaGitLab
+      : null;
+  if (discover) {
     try {
-      const discoveredIds = await discoverEntitiesViaGitHub(entityDirectoryUrl);
+      const discoveredIds = await discover(entityDirectoryUrl);
 
       if (discoveredIds && discoveredIds.length > 0) {
         // Load individual entity files using discovered IDs
@@ -279,10 +300,10 @@ export async function loadEntities(
           entityDirectoryUrl,
           discoveredIds
         );
-        return entities;
+        return { entities, layout: { kind: "directory" } };
       }
     } catch {
-      // GitHub API discovery failed, continue to next pattern
+      // API discovery failed, continue to next pattern
     }
   }
 
@@ -297,12 +318,13 @@ export async function loadEntities(
       if (contentType?.includes("application/json")) {
         const data = (await response.json()) as unknown;
 
+        const layout: EntityFileLayout = { kind: "file", path: `${entityType}s.json` };
         if (Array.isArray(data)) {
-          return parseEntityArray(data, pluralFileUrl);
+          return { entities: parseEntityArray(data, pluralFileUrl), layout };
         }
 
         const single = parseEntityTolerant(data, pluralFileUrl);
-        return single ? [single] : [];
+        return { entities: single ? [single] : [], layout };
       }
     }
   } catch {
@@ -320,21 +342,22 @@ export async function loadEntities(
       if (contentType?.includes("application/json")) {
         const data = (await response.json()) as unknown;
 
+        const layout: EntityFileLayout = { kind: "file", path: `${entityType}.json` };
         if (Array.isArray(data)) {
-          return parseEntityArray(data, singleFileUrl);
+          return { entities: parseEntityArray(data, singleFileUrl), layout };
         }
 
         // Single entity in file
         const single = parseEntityTolerant(data, singleFileUrl);
-        return single ? [single] : [];
+        return { entities: single ? [single] : [], layout };
       }
     }
   } catch {
     // File doesn't exist
   }
 
-  // Return empty array if no entities found
-  return [];
+  // Return empty array if no entities found; new entities go in a folder
+  return { entities: [], layout: { kind: "directory" } };
 }
 
 /**
@@ -476,6 +499,7 @@ export async function loadCollection(
   }
 
   const entities: Record<string, Entity[]> = {};
+  const layouts: Record<string, EntityFileLayout> = {};
 
   let typeCursor = 0;
   const typeWorker = async (): Promise<void> => {
@@ -484,7 +508,9 @@ export async function loadCollection(
       typeCursor += 1;
       const type = entityTypes[index];
       if (type === undefined) continue;
-      entities[type] = await loadEntities(basePath, type);
+      const loaded = await loadEntityFiles(basePath, type);
+      entities[type] = loaded.entities;
+      layouts[type] = loaded.layout;
     }
   };
 
@@ -496,6 +522,7 @@ export async function loadCollection(
   return {
     definition,
     entities,
+    layouts,
     primaryType,
   };
 }
@@ -0,0 +1,889 @@
+/**
+ * Computed field evaluator for entity types.
+ *
+ * Evaluates the `computed` expressions declared on an entity type
+ * (`EntityTypeDefinition.computed`) with a small, sandboxed expression
+ * language. Expressions are parsed into an AST and interpreted — nothing is
+ * ever handed to `eval` or `Function`, and only own properties of entity
+ * data are reachable.
+ *
+ * Supported syntax:
+ * - Literals: `42`, `3.5`, `"text"`, `'text'`, `true`, `false`, `null`
+ * - Field access: `year`, `rating.score`, `genres[0]`
+ * - Related entities: `platform.title` (follows `_resolved.platform` when the
+ *   relationship has been resolved), or explicitly `_resolved.platform.title`
+ * - Arithmetic: `+ - * / %` (`+` concatenates when either side is a string)
+ * - Comparison and logic: `== != < <= > >= && || !` and `??` (null coalescing)
+ * - Conditionals: `condition ? whenTrue : whenFalse`
+ * - Functions: see BUILTIN_FUNCTIONS (maths, strings and date maths)
+ *
+ * @example
+ * ```json
+ * "computed": {
+ *   "age": "yearsBetween(year, today())",
+ *   "label": "title + \" (\" + platform.shortTitle + \")\"",
+ *   "era": "year < 1990 ? \"8-bit\" : \"16-bit\""
+ * }
+ * ```
+ */
+
+import type { Entity, ResolvedEntity } from "@/types/schema";
+import { ExpressionError } from "@/errors";
+
+/**
+ * Upper bound on computed fields honoured per entity type.
+ *
+ * `computed` comes from untrusted collection.json and every expression runs
+ * once per entity, so the record is capped like relationships and entity
+ * types. Real collections declare a handful.
+ */
+export const MAX_COMPUTED_FIELDS = 32;
+
+/**
+ * Upper bound on the length of a single expression (characters).
+ */
+export const MAX_EXPRESSION_LENGTH = 500;
+
+/**
+ * Maximum nesting depth of a parsed expression. Bounds parser recursion so a
+ * crafted expression such as `((((...))))` cannot overflow the stack.
+ */
+const MAX_EXPRESSION_DEPTH = 32;
+
+/**
+ * Maximum length of a string produced by an expression.
+ *
+ * Computed fields may reference earlier computed fields, so `a + a` chained
+ * across fields would otherwise double in size with every declaration.
+ */
+const MAX_STRING_LENGTH = 10000;
+
+/**
+ * Property names never reachable from an expression.
+ */
+const BLOCKED_PROPERTIES = new Set(["__proto__", "constructor", "prototype"]);
+
+/**
+ * Field names a computed expression may not overwrite.
+ */
+const RESERVED_FIELD_NAMES = new Set([
+  "id",
+  "images",
+  "_resolved",
+  ...BLOCKED_PROPERTIES,
+]);
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// AST
+// ============================================================================
+
+/**
+ * Parsed expression node.
+ */
+export type ExpressionNode =
+  | { kind: "literal"; value: string | number | boolean | null }
+  | { kind: "identifier"; name: string }
+  | { kind: "member"; object: ExpressionNode; property: ExpressionNode }
+  | { kind: "call"; name: string; args: ExpressionNode[] }
+  | { kind: "unary"; operator: "-" | "!"; operand: ExpressionNode }
+  | { kind: "binary"; operator: string; left: ExpressionNode; right: ExpressionNode }
+  | {
+      kind: "conditional";
+      test: ExpressionNode;
+      consequent: ExpressionNode;
+      alternate: ExpressionNode;
+    };
+
+// ============================================================================
+// Tokeniser
+// ============================================================================
+
+interface Token {
+  type: "number" | "string" | "identifier" | "operator" | "end";
+  value: string;
+  position: number;
+}
+
+/** Operators, longest first so `<=` wins over `<`. */
+const OPERATORS = [
+  "==", "!=", "<=", ">=", "&&", "||", "??",
+  "+", "-", "*", "/", "%", "<", ">", "!", "?", ":", ".", ",", "(", ")", "[", "]",
+];
+
+function tokenise(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source.charAt(i);
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9]/.test(ch)) {
+      const match = /^[0-9]+(\.[0-9]+)?/.exec(source.slice(i));
+      const text = match?.[0] ?? ch;
+      tokens.push({ type: "number", value: text, position: i });
+      i += text.length;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      const start = i;
+      let value = "";
+      i++;
+      while (i < source.length && source.charAt(i) !== ch) {
+        if (source.charAt(i) === "\\" && i + 1 < source.length) {
+          i++;
+        }
+        value += source.charAt(i);
+        i++;
+      }
+      if (i >= source.length) {
+        throw new ExpressionError("Unterminated string", source, start);
+      }
+      i++; // closing quote
+      tokens.push({ type: "string", value, position: start });
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(ch)) {
+      const match = /^[A-Za-z_$][A-Za-z0-9_$]*/.exec(source.slice(i));
+      const text = match?.[0] ?? ch;
+      tokens.push({ type: "identifier", value: text, position: i });
+      i += text.length;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => source.startsWith(op, i));
+    if (operator) {
+      tokens.push({ type: "operator", value: operator, position: i });
+      i += operator.length;
+      continue;
+    }
+
+    throw new ExpressionError(`Unexpected character "${ch}"`, source, i);
+  }
+
+  tokens.push({ type: "end", value: "", position: source.length });
+  return tokens;
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+/** Binary operator precedence (higher binds tighter). */
+const BINARY_PRECEDENCE: Record<string, number> = {
+  "??": 1,
+  "||": 2,
+  "&&": 3,
+  "==": 4,
+  "!=": 4,
+  "<": 5,
+  "<=": 5,
+  ">": 5,
+  ">=": 5,
+  "+": 6,
+  "-": 6,
+  "*": 7,
+  "/": 7,
+  "%": 7,
+};
+
+class Parser {
+  private index = 0;
+  private depth = 0;
+  private readonly endToken: Token;
+
+  constructor(
+    private readonly source: string,
+    private readonly tokens: Token[]
+  ) {
+    this.endToken = { type: "end", value: "", position: source.length };
+  }
+
+  parse(): ExpressionNode {
+    const node = this.parseExpression();
+    const token = this.peek();
+    if (token.type !== "end") {
+      this.fail(`Unexpected "${token.value}"`, token);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index] ?? this.endToken;
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.type !== "end") this.index++;
+    return token;
+  }
+
+  private isOperator(value: string): boolean {
+    const token = this.peek();
+    return token.type === "operator" && token.value === value;
+  }
+
+  private expect(value: string): void {
+    const token = this.next();
+    if (token.type !== "operator" || token.value !== value) {
+      this.fail(`Expected "${value}"`, token);
+    }
+  }
+
+  private fail(message: string, token: Token): never {
+    throw new ExpressionError(message, this.source, token.position);
+  }
+
+  private enter(): void {
+    this.depth++;
+    if (this.depth > MAX_EXPRESSION_DEPTH) {
+      this.fail("Expression nested too deeply", this.peek());
+    }
+  }
+
+  private leave(): void {
+    this.depth--;
+  }
+
+  private parseExpression(): ExpressionNode {
+    this.enter();
+    const test = this.parseBinary(1);
+    let result = test;
+
+    if (this.isOperator("?")) {
+      this.next();
+      const consequent = this.parseExpression();
+      this.expect(":");
+      const alternate = this.parseExpression();
+      result = { kind: "conditional", test, consequent, alternate };
+    }
+
+    this.leave();
+    return result;
+  }
+
+  private parseBinary(minPrecedence: number): ExpressionNode {
+    let left = this.parseUnary();
+
+    for (;;) {
+      const token = this.peek();
+      const precedence =
+        token.type === "operator" ? BINARY_PRECEDENCE[token.value] : undefined;
+      if (precedence === undefined || precedence < minPrecedence) {
+        return left;
+      }
+      this.next();
+      this.enter();
+      const right = this.parseBinary(precedence + 1);
+      this.leave();
+      left = { kind: "binary", operator: token.value, left, right };
+    }
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.isOperator("-") || this.isOperator("!")) {
+      const operator = this.next().value as "-" | "!";
+      this.enter();
+      const operand = this.parseUnary();
+      this.leave();
+      return { kind: "unary", operator, operand };
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): ExpressionNode {
+    let node = this.parsePrimary();
+
+    for (;;) {
+      if (this.isOperator(".")) {
+        this.next();
+        const token = this.next();
+        if (token.type !== "identifier") {
+          this.fail("Expected property name", token);
+        }
+        node = { kind: "member", object: node, property: { kind: "literal", value: token.value } };
+      } else if (this.isOperator("[")) {
+        this.next();
+        const property = this.parseExpression();
+        this.expect("]");
+        node = { kind: "member", object: node, property };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case "number":
+        return { kind: "literal", value: Number(token.value) };
+      case "string":
+        return { kind: "literal", value: token.value };
+      case "identifier": {
+        if (token.value === "true") return { kind: "literal", value: true };
+        if (token.value === "false") return { kind: "literal", value: false };
+        if (token.value === "null") return { kind: "literal", value: null };
+
+        if (this.isOperator("(")) {
+          if (!Object.hasOwn(BUILTIN_FUNCTIONS, token.value)) {
+            this.fail(`Unknown function "${token.value}"`, token);
+          }
+          this.next();
+          const args: ExpressionNode[] = [];
+          if (!this.isOperator(")")) {
+            args.push(this.parseExpression());
+            while (this.isOperator(",")) {
+              this.next();
+              args.push(this.parseExpression());
+            }
+          }
+          this.expect(")");
+          return { kind: "call", name: token.value, args };
+        }
+
+        return { kind: "identifier", name: token.value };
+      }
+      case "operator":
+        if (token.value === "(") {
+          const inner = this.parseExpression();
+          this.expect(")");
+          return inner;
+        }
+        return this.fail(`Unexpected "${token.value}"`, token);
+      default:
+        return this.fail("Unexpected end of expression", token);
+    }
+  }
+}
+
+/**
+ * Parse an expression into an AST.
+ *
+ * @param source - Expression source text
+ * @returns Parsed expression
+ * @throws ExpressionError if the expression is invalid or too long
+ */
+export function parseExpression(source: string): ExpressionNode {
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw new ExpressionError(
+      `Expression longer than ${String(MAX_EXPRESSION_LENGTH)} characters`,
+      source.slice(0, 40),
+      MAX_EXPRESSION_LENGTH
+    );
+  }
+  return new Parser(source, tokenise(source)).parse();
+}
+
+// ============================================================================
+// Value helpers
+// ============================================================================
+
+type Value = unknown;
+
+function toNumber(value: Value): number | null {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value === "boolean") {
+    return value ? 1 : 0;
+  }
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  // Structured ratings ({ score, max }) compare by score
+  if (value !== null && typeof value === "object" && "score" in value) {
+    return toNumber((value as { score: unknown }).score);
+  }
+  return null;
+}
+
+function toText(value: Value): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "string") return value;
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  if (Array.isArray(value)) return value.map(toText).join(", ");
+  if (typeof value === "object" && "title" in value) {
+    return toText((value as { title: unknown }).title);
+  }
+  return "";
+}
+
+function capString(value: string): string {
+  return value.length > MAX_STRING_LENGTH ? value.slice(0, MAX_STRING_LENGTH) : value;
+}
+
+function isTruthy(value: Value): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return Boolean(value);
+}
+
+/**
+ * Interpret a value as a date.
+ *
+ * Accepts `Date` values, ISO-like strings and bare years (`1985` or
+ * `"1985"`, read as 1 January of that year).
+ */
+function toDate(value: Value): Date | null {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : value;
+  }
+  if (typeof value === "number" || (typeof value === "string" && /^\d{4}$/.test(value.trim()))) {
+    const year = Number(value);
+    if (!Number.isInteger(year) || year < 1 || year > 9999) return null;
+    return new Date(Date.UTC(year, 0, 1));
+  }
+  if (typeof value === "string" && value.trim() !== "") {
+    const time = Date.parse(value);
+    return Number.isNaN(time) ? null : new Date(time);
+  }
+  return null;
+}
+
+/**
+ * Format a date as an ISO calendar date (YYYY-MM-DD).
+ */
+function toIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Whole years between two dates (floored, negative when `to` is earlier).
+ */
+function yearsBetween(from: Date, to: Date): number {
+  let years = to.getUTCFullYear() - from.getUTCFullYear();
+  const beforeAnniversary =
+    to.getUTCMonth() < from.getUTCMonth() ||
+    (to.getUTCMonth() === from.getUTCMonth() && to.getUTCDate() < from.getUTCDate());
+  if (beforeAnniversary) years--;
+  return years;
+}
+
+function compare(left: Value, right: Value): number | null {
+  const a = toNumber(left);
+  const b = toNumber(right);
+  if (a !== null && b !== null && typeof left !== "string" && typeof right !== "string") {
+    return a - b;
+  }
+  if (typeof left === "string" && typeof right === "string") {
+    const na = toNumber(left);
+    const nb = toNumber(right);
+    if (na !== null && nb !== null) return na - nb;
+    return left.localeCompare(right);
+  }
+  if (a !== null && b !== null) return a - b;
+  return null;
+}
+
+function looselyEqual(left: Value, right: Value): boolean {
+  if (left === right) return true;
+  if ((left === null || left === undefined) && (right === null || right === undefined)) {
+    return true;
+  }
+  const ordering = compare(left, right);
+  if (ordering !== null && (typeof left === "number" || typeof right === "number")) {
+    return ordering === 0;
+  }
+  return false;
+}
+
+function roundTo(value: number, digits: number): number {
+  const factor = 10 ** Math.max(0, Math.min(10, Math.trunc(digits)));
+  return Math.round(value * factor) / factor;
+}
+
+// ============================================================================
+// Built-in functions
+// ============================================================================
+
+type BuiltinFunction = (args: Value[]) => Value;
+
+function numericArg(args: Value[], index: number): number | null {
+  return toNumber(args[index]);
+}
+
+function dateArg(args: Value[], index: number): Date | null {
+  return toDate(args[index]);
+}
+
+/**
+ * Functions callable from expressions.
+ *
+ * Every function is total: invalid input yields `null` rather than throwing,
+ * so one malformed entity cannot abort the whole collection load.
+ */
+const BUILTIN_FUNCTIONS: Record<string, BuiltinFunction> = {
+  // Maths
+  round: (args) => {
+    const value = numericArg(args, 0);
+    return value === null ? null : roundTo(value, numericArg(args, 1) ?? 0);
+  },
+  floor: (args) => {
+    const value = numericArg(args, 0);
+    return value === null ? null : Math.floor(value);
+  },
+  ceil: (args) => {
+    const value = numericArg(args, 0);
+    return value === null ? null : Math.ceil(value);
+  },
+  abs: (args) => {
+    const value = numericArg(args, 0);
+    return value === null ? null : Math.abs(value);
+  },
+  min: (args) => {
+    const values = args.map(toNumber).filter((n): n is number => n !== null);
+    return values.length > 0 ? Math.min(...values) : null;
+  },
+  max: (args) => {
+    const values = args.map(toNumber).filter((n): n is number => n !== null);
+    return values.length > 0 ? Math.max(...values) : null;
+  },
+  number: (args) => numericArg(args, 0),
+
+  // Strings and lists
+  text: (args) => capString(toText(args[0])),
+  upper: (args) => toText(args[0]).toUpperCase(),
+  lower: (args) => toText(args[0]).toLowerCase(),
+  trim: (args) => toText(args[0]).trim(),
+  concat: (args) => capString(args.map(toText).join("")),
+  len: (args) => {
+    const value = args[0];
+    if (typeof value === "string" || Array.isArray(value)) return value.length;
+    return null;
+  },
+  join: (args) => {
+    const value = args[0];
+    if (!Array.isArray(value)) return toText(value);
+    const separator = args.length > 1 ? toText(args[1]) : ", ";
+    return capString(value.map(toText).join(separator));
+  },
+  contains: (args) => {
+    const haystack = args[0];
+    const needle = args[1];
+    if (Array.isArray(haystack)) return haystack.some((item) => looselyEqual(item, needle));
+    return toText(haystack).toLowerCase().includes(toText(needle).toLowerCase());
+  },
+  coalesce: (args) => args.find((value) => value !== null && value !== undefined && value !== "") ?? null,
+
+  // Dates
+  today: () => toIsoDate(new Date()),
+  date: (args) => {
+    const value = dateArg(args, 0);
+    return value ? toIsoDate(value) : null;
+  },
+  year: (args) => dateArg(args, 0)?.getUTCFullYear() ?? null,
+  month: (args) => {
+    const value = dateArg(args, 0);
+    return value ? value.getUTCMonth() + 1 : null;
+  },
+  day: (args) => dateArg(args, 0)?.getUTCDate() ?? null,
+  addDays: (args) => {
+    const value = dateArg(args, 0);
+    const days = numericArg(args, 1);
+    if (!value || days === null) return null;
+    return toIsoDate(new Date(value.getTime() + Math.trunc(days) * MS_PER_DAY));
+  },
+  daysBetween: (args) => {
+    const from = dateArg(args, 0);
+    const to = dateArg(args, 1);
+    if (!from || !to) return null;
+    return Math.round((to.getTime() - from.getTime()) / MS_PER_DAY);
+  },
+  yearsBetween: (args) => {
+    const from = dateArg(args, 0);
+    const to = dateArg(args, 1);
+    if (!from || !to) return null;
+    return yearsBetween(from, to);
+  },
+  decade: (args) => {
+    const value = dateArg(args, 0);
+    return value ? Math.floor(value.getUTCFullYear() / 10) * 10 : null;
+  },
+};
+
+/**
+ * Names of the functions available to expressions.
+ */
+export const EXPRESSION_FUNCTIONS: readonly string[] = Object.keys(BUILTIN_FUNCTIONS);
+
+// ============================================================================
+// Evaluator
+// ============================================================================
+
+/**
+ * Read an own property of a value, refusing prototype members.
+ */
+function readProperty(target: Value, key: Value): Value {
+  if (target === null || target === undefined) return undefined;
+
+  if (Array.isArray(target)) {
+    const index = toNumber(key);
+    if (index !== null && Number.isInteger(index)) {
+      return target[index < 0 ? target.length + index : index] as Value;
+    }
+    if (key === "length") return target.length;
+    return undefined;
+  }
+
+  if (typeof target === "string" && key === "length") {
+    return target.length;
+  }
+
+  if (typeof target !== "object") return undefined;
+
+  const name = typeof key === "number" ? String(key) : key;
+  if (typeof name !== "string" || BLOCKED_PROPERTIES.has(name)) return undefined;
+  if (!Object.hasOwn(target, name)) return undefined;
+  return (target as Record<string, unknown>)[name];
+}
+
+function evaluateNode(node: ExpressionNode, scope: Record<string, unknown>): Value {
+  switch (node.kind) {
+    case "literal":
+      return node.value;
+
+    case "identifier":
+      return readProperty(scope, node.name);
+
+    case "member": {
+      const key = evaluateNode(node.property, scope);
+      // `platform.title` follows the resolved relationship when `platform`
+      // holds a reference id rather than an embedded object.
+      if (node.object.kind === "identifier") {
+        const resolved = readProperty(scope._resolved, node.object.name);
+        if (resolved !== undefined && resolved !== null) {
+          return readProperty(resolved, key);
+        }
+      }
+      return readProperty(evaluateNode(node.object, scope), key);
+    }
+
+    case "call": {
+      const fn = BUILTIN_FUNCTIONS[node.name];
+      if (!fn) return null;
+      return fn(node.args.map((arg) => evaluateNode(arg, scope)));
+    }
+
+    case "unary": {
+      const operand = evaluateNode(node.operand, scope);
+      if (node.operator === "!") return !isTruthy(operand);
+      const value = toNumber(operand);
+      return value === null ? null : -value;
+    }
+
+    case "conditional":
+      return isTruthy(evaluateNode(node.test, scope))
+        ? evaluateNode(node.consequent, scope)
+        : evaluateNode(node.alternate, scope);
+
+    case "binary":
+      return evaluateBinary(node, scope);
+  }
+}
+
+function evaluateBinary(
+  node: Extract<ExpressionNode, { kind: "binary" }>,
+  scope: Record<string, unknown>
+): Value {
+  const { operator } = node;
+
+  // Short-circuiting operators evaluate the right side lazily
+  if (operator === "&&") {
+    const left = evaluateNode(node.left, scope);
+    return isTruthy(left) ? evaluateNode(node.right, scope) : left;
+  }
+  if (operator === "||") {
+    const left = evaluateNode(node.left, scope);
+    return isTruthy(left) ? left : evaluateNode(node.right, scope);
+  }
+  if (operator === "??") {
+    return evaluateNode(node.left, scope) ?? evaluateNode(node.right, scope);
+  }
+
+  const left = evaluateNode(node.left, scope);
+  const right = evaluateNode(node.right, scope);
+
+  switch (operator) {
+    case "+": {
+      if (typeof left === "string" || typeof right === "string") {
+        return capString(toText(left) + toText(right));
+      }
+      const a = toNumber(left);
+      const b = toNumber(right);
+      return a === null || b === null ? null : a + b;
+    }
+    case "-":
+    case "*":
+    case "/":
+    case "%": {
+      const a = toNumber(left);
+      const b = toNumber(right);
+      if (a === null || b === null) return null;
+      if (operator === "-") return a - b;
+      if (operator === "*") return a * b;
+      if (b === 0) return null;
+      return operator === "/" ? a / b : a % b;
+    }
+    case "==":
+      return looselyEqual(left, right);
+    case "!=":
+      return !looselyEqual(left, right);
+    case "<":
+    case "<=":
+    case ">":
+    case ">=": {
+      const ordering = compare(left, right);
+      if (ordering === null) return false;
+      if (operator === "<") return ordering < 0;
+      if (operator === "<=") return ordering <= 0;
+      if (operator === ">") return ordering > 0;
+      return ordering >= 0;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Evaluate a parsed expression against an entity.
+ *
+ * `undefined` results are normalised to `null`, and non-finite numbers
+ * (e.g. from overflow) are dropped.
+ *
+ * @param node - Parsed expression
+ * @param entity - Entity providing field values (and `_resolved` relations)
+ * @returns Computed value
+ */
+export function evaluateExpression(
+  node: ExpressionNode,
+  entity: Record<string, unknown>
+): unknown {
+  const value = evaluateNode(node, entity);
+  if (value === undefined) return null;
+  if (typeof value === "number" && !Number.isFinite(value)) return null;
+  return value;
+}
+
+// ============================================================================
+// Entity integration
+// ============================================================================
+
+/**
+ * A computed field ready to evaluate.
+ */
+export interface CompiledComputedField {
+  /** Field name the result is stored under */
+  name: string;
+  /** Original expression source */
+  expression: string;
+  /** Parsed expression */
+  ast: ExpressionNode;
+}
+
+/**
+ * Compile the computed field declarations of an entity type.
+ *
+ * Invalid expressions and reserved field names are skipped with a warning
+ * rather than failing the collection load. Declaration order is preserved,
+ * so later fields may reference earlier ones.
+ *
+ * @param computed - Computed field record from the entity type definition
+ * @returns Compiled fields in declaration order
+ */
+export function compileComputedFields(
+  computed: Record<string, string> | undefined
+): CompiledComputedField[] {
+  if (!computed) return [];
+
+  let entries = Object.entries(computed);
+  if (entries.length > MAX_COMPUTED_FIELDS) {
+    console.warn(
+      `Entity type declares ${String(entries.length)} computed fields; only the first ${String(MAX_COMPUTED_FIELDS)} are evaluated.`
+    );
+    entries = entries.slice(0, MAX_COMPUTED_FIELDS);
+  }
+
+  const compiled: CompiledComputedField[] = [];
+
+  for (const [name, expression] of entries) {
+    if (RESERVED_FIELD_NAMES.has(name)) {
+      console.warn(`Computed field "${name}" uses a reserved name; skipping.`);
+      continue;
+    }
+    if (typeof expression !== "string") {
+      continue;
+    }
+    try {
+      compiled.push({ name, expression, ast: parseExpression(expression) });
+    } catch (error) {
+      console.warn(
+        `Computed field "${name}" skipped:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  return compiled;
+}
+
+/**
+ * Evaluate compiled computed fields for a single entity.
+ *
+ * Returns a new object; the input is not mutated. Fields are evaluated in
+ * order against the accumulating result, and a field that fails at runtime
+ * is set to `null` rather than aborting the rest.
+ *
+ * @param entity - Entity (or display card) providing field values
+ * @param fields - Compiled computed fields
+ * @returns Copy of the entity with computed values attached
+ */
+export function evaluateComputedFields<T extends Record<string, unknown>>(
+  entity: T,
+  fields: CompiledComputedField[]
+): T {
+  const result: Record<string, unknown> = { ...entity };
+  for (const field of fields) {
+    let value: unknown;
+    try {
+      value = evaluateExpression(field.ast, result);
+    } catch {
+      value = null;
+    }
+    result[field.name] = value;
+  }
+  return result as T;
+}
+
+/**
+ * Evaluate computed fields for a list of entities.
+ *
+ * Entities keep any `_resolved` relationships, so expressions on resolved
+ * primary entities can read related entities.
+ *
+ * @param entities - Entities to extend (resolved or plain)
+ * @param computed - Computed field record from the entity type definition
+ * @returns Entities with computed values attached
+ *
+ * @example
+ * applyComputedFields(games, { age: "yearsBetween(year, today())" })
+ * // Returns: [{ id: "zelda", year: 1986, age: 40 }, ...]
+ */
+export function applyComputedFields<T extends Entity | ResolvedEntity>(
+  entities: T[],
+  computed: Record<string, string> | undefined
+): T[] {
+  const fields = compileComputedFields(computed);
+  if (fields.length === 0) return entities;
+
+  return entities.map((entity) => evaluateComputedFields(entity, fields));
+}
@@ -0,0 +1,272 @@
+/**
+ * GitLab API-based entity discovery.
+ *
+ * GitLab counterpart of githubDiscovery: when no index.json exists, entity
+ * files are discovered by listing the directory through the GitLab
+ * repository tree API. Collections are served through the Statically CDN,
+ * which mirrors GitLab repositories with CORS headers.
+ *
+ * @see F-091: Entity Auto-Discovery
+ */
+
+/**
+ * GitLab repository tree API response item.
+ */
+interface GitLabTreeItem {
+  name: string;
+  path: string;
+  type: "blob" | "tree" | "commit";
+}
+
+/**
+ * Maximum page size accepted by the GitLab tree API.
+ */
+const TREE_PAGE_SIZE = 100;
+
+/**
+ * Upper bound on tree pages fetched for one directory (10,000 entries).
+ */
+const MAX_TREE_PAGES = 100;
+
+/**
+ * Track rate limit state (Unix timestamp when the limit resets).
+ */
+let lastRateLimitReset: number | null = null;
+
+/**
+ * Check if we should skip the GitLab API due to rate limiting.
+ *
+ * @returns True if currently rate limited
+ */
+export function isGitLabRateLimited(): boolean {
+  if (!lastRateLimitReset) return false;
+  return Date.now() / 1000 < lastRateLimitReset;
+}
+
+/**
+ * Set rate limit reset timestamp (exposed for testing).
+ *
+ * @param resetTimestamp - Unix timestamp when rate limit resets
+ */
+export function setGitLabRateLimitReset(resetTimestamp: number | null): void {
+  lastRateLimitReset = resetTimestamp;
+}
+
+/**
+ * Parsed GitLab repository info from a CDN URL.
+ */
+export interface GitLabRepoInfo {
+  owner: string;
+  repo: string;
+  branch: string;
+  path: string;
+}
+
+/**
+ * Parse a Statically GitLab CDN URL to extract repository info.
+ *
+ * @param cdnUrl - Statically CDN URL (e.g., https://cdn.statically.io/gl/REPPL/MyPlausibleMe/main/data/collections/retro-games)
+ * @returns GitLab repo info or null if not a valid Statically GitLab URL
+ *
+ * @example
+ * parseStaticallyGitLabUrl("https://cdn.statically.io/gl/REPPL/MyPlausibleMe/main/data/collections/retro-games")
+ * // Returns: { owner: "REPPL", repo: "MyPlausibleMe", branch: "main", path: "data/collections/retro-games" }
+ */
+export function parseStaticallyGitLabUrl(cdnUrl: string): GitLabRepoInfo | null {
+  // Format: https://cdn.statically.io/gl/{owner}/{repo}/{branch}/{path}
+  const match = /^https?:\/\/cdn\.statically\.io\/gl\/([^/]+)\/([^/]+)\/([^/]+)\/(.+)$/.exec(cdnUrl);
+
+  if (!match) {
+    return null;
+  }
+
+  const [, owner, repo, branch, path] = match;
+
+  if (!owner || !repo || !branch || !path) {
+    return null;
+  }
+
+  return { owner, repo, branch, path };
+}
+
+/**
+ * Check if a URL is a Statically GitLab CDN URL.
+ *
+ * @param url - URL to check
+ * @returns True if URL points to the Statically GitLab CDN
+ */
+export function isStaticallyGitLabUrl(url: string): boolean {
+  return /^https?:\/\/cdn\.statically\.io\/gl\//.test(url);
+}
+
+/**
+ * Convert a pasted gitlab.com web URL into a Statically CDN URL.
+ *
+ * Accepts tree, blob and raw links
+ * (`https://gitlab.com/{owner}/{repo}/-/tree/{branch}/{path}`). Only
+ * top-level namespaces are supported, since the CDN addresses repositories
+ * as `{owner}/{repo}`. A trailing `collection.json` is dropped so file links
+ * resolve to their collection folder.
+ *
+ * @param url - gitlab.com URL
+ * @returns CDN URL or null if the URL is not a supported GitLab link
+ *
+ * @example
+ * gitLabWebUrlToCdnUrl("https://gitlab.com/REPPL/MyPlausibleMe/-/tree/main/data/collections/retro-games")
+ * // Returns: "https://cdn.statically.io/gl/REPPL/MyPlausibleMe/main/data/collections/retro-games"
+ */
+export function gitLabWebUrlToCdnUrl(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  if (parsed.protocol !== "https:" || parsed.hostname !== "gitlab.com") {
+    return null;
+  }
+
+  const match = /^\/([^/]+)\/([^/]+)\/-\/(?:tree|blob|raw)\/([^/]+)\/(.+?)\/?$/.exec(
+    parsed.pathname
+  );
+  if (!match) {
+    return null;
+  }
+
+  const [, owner, repo, branch, rawPath] = match;
+  if (!owner || !repo || !branch || !rawPath) {
+    return null;
+  }
+
+  const path = rawPath.replace(/\/?collection\.json$/, "");
+  if (!path) {
+    return null;
+  }
+
+  return `https://cdn.statically.io/gl/${owner}/${repo}/${branch}/${path}`;
+}
+
+/**
+ * Build the GitLab API base URL for a project.
+ *
+ * The API addresses projects by their URL-encoded full path.
+ */
+export function buildGitLabProjectApiUrl(owner: string, repo: string): string {
+  return `https://gitlab.com/api/v4/projects/${encodeURIComponent(`${owner}/${repo}`)}`;
+}
+
+/**
+ * Record a rate limit from a 429 response.
+ */
+function recordRateLimit(response: Response): void {
+  const reset = response.headers.get("RateLimit-Reset");
+  const resetTimestamp = reset
+    ? parseInt(reset, 10)
+    : Math.floor(Date.now() / 1000) + 60;
+  lastRateLimitReset = resetTimestamp;
+  console.warn(
+    `[GitLab Discovery] Rate limited until ${new Date(resetTimestamp * 1000).toISOString()}`
+  );
+}
+
+/**
+ * Fetch one page of a GitLab repository tree listing.
+ *
+ * @param apiUrl - Tree API URL including the page parameter
+ * @returns Page items and the next page number, or null on failure
+ */
+async function fetchTreePage(
+  apiUrl: string
+): Promise<{ items: GitLabTreeItem[]; nextPage: number | null } | null> {
+  const response = await fetch(apiUrl, {
+    headers: { Accept: "application/json" },
+  });
+
+  if (!response.ok) {
+    if (response.status === 429) {
+      recordRateLimit(response);
+    }
+    return null;
+  }
+
+  const items = (await response.json()) as unknown;
+  if (!Array.isArray(items)) {
+    return null;
+  }
+
+  // GitLab signals further pages through X-Next-Page (empty on the last)
+  const nextPage = response.headers.get("X-Next-Page");
+
+  return {
+    items: items as GitLabTreeItem[],
+    nextPage: nextPage ? parseInt(nextPage, 10) : null,
+  };
+}
+
+/**
+ * Discover entity IDs by listing a GitLab directory.
+ *
+ * Uses the GitLab repository tree API to list files in the entity
+ * directory, following pagination, then filters for JSON files that aren't
+ * prefixed with underscore.
+ *
+ * @param cdnUrl - Statically CDN URL pointing to entity directory
+ * @returns Array of entity IDs or null if discovery failed
+ *
+ * @example
+ * discoverEntitiesViaGitLab("https://cdn.statically.io/gl/REPPL/MyPlausibleMe/main/data/collections/retro-games/games")
+ * // Returns: ["001-super-mario-bros", "002-zelda", ...] or null
+ */
+export async function discoverEntitiesViaGitLab(
+  cdnUrl: string
+): Promise<string[] | null> {
+  if (isGitLabRateLimited()) {
+    console.warn("[GitLab Discovery] Skipping due to rate limit");
+    return null;
+  }
+
+  const repoInfo = parseStaticallyGitLabUrl(cdnUrl);
+
+  if (!repoInfo) {
+    return null;
+  }
+
+  const { owner, repo, branch, path } = repoInfo;
+  const projectUrl = buildGitLabProjectApiUrl(owner, repo);
+
+  try {
+    const items: GitLabTreeItem[] = [];
+    let page: number | null = 1;
+
+    for (let fetched = 0; page !== null && fetched < MAX_TREE_PAGES; fetched++) {
+      // Format: /projects/{id}/repository/tree?path={path}&ref={branch}
+      const apiUrl = `${projectUrl}/repository/tree?path=${encodeURIComponent(path)}&ref=${encodeURIComponent(branch)}&per_page=${String(TREE_PAGE_SIZE)}&page=${String(page)}`;
+      const result = await fetchTreePage(apiUrl);
+
+      if (!result) {
+        return null;
+      }
+
+      items.push(...result.items);
+      page = result.nextPage;
+    }
+
+    // Same filtering rules as GitHub discovery
+    const entityIds = items
+      .filter((item) => {
+        if (item.type !== "blob") return false;
+        if (!item.name.endsWith(".json")) return false;
+        if (item.name.startsWith("_")) return false;
+        if (item.name === "index.json") return false;
+        return true;
+      })
+      .map((item) => item.name.replace(/\.json$/, ""))
+      .sort();
+
+    return entityIds.length > 0 ? entityIds : null;
+  } catch (error) {
+    console.warn("[GitLab Discovery] API discovery failed:", error);
+    return null;
+  }
+}
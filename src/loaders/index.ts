@@ -26,6 +26,20 @@ export {
   type ResolverContext,
 } from "./relationshipResolver";
 
+// Computed fields
+export {
+  parseExpression,
+  evaluateExpression,
+  compileComputedFields,
+  evaluateComputedFields,
+  applyComputedFields,
+  EXPRESSION_FUNCTIONS,
+  MAX_COMPUTED_FIELDS,
+  MAX_EXPRESSION_LENGTH,
+  type CompiledComputedField,
+  type ExpressionNode,
+} from "./computedFields";
+
 // Image selector
 export {
   selectImage,
@@ -37,6 +37,16 @@ const MAX_VISIBLE_CARDS = 10;
  */
 const MAX_SEARCH_FIELDS = 32;
 
+/**
+ * Upper bounds on a collection's default filters.
+ *
+ * Every active filter value is checked against every card on each render of
+ * the grid, so an unbounded list from an untrusted settings.json multiplies
+ * that work by attacker-chosen input. Real collections start with one or two.
+ */
+const MAX_DEFAULT_FILTERS = 10;
+const MAX_DEFAULT_FILTER_VALUES = 50;
+
 /**
  * Upper bound on the length of a forced free-text label such as
  * `rankPlaceholderText`.
@@ -296,5 +306,24 @@ function validateDefaultSettings(
       .slice(0, MAX_SEARCH_FIELDS);
   }
 
+  // filters — each entry needs a string field and at least one string value
+  if (Array.isArray(raw.filters)) {
+    const filters: NonNullable<DefaultSettings["filters"]> = [];
+    for (const entry of raw.filters as unknown[]) {
+      if (filters.length >= MAX_DEFAULT_FILTERS) break;
+      if (!entry || typeof entry !== "object") continue;
+      const { field, values } = entry as Record<string, unknown>;
+      if (typeof field !== "string" || field === "" || !Array.isArray(values)) continue;
+      if (filters.some((f) => f.field === field)) continue;
+      const stringValues = values
+        .filter((v): v is string => typeof v === "string")
+        .slice(0, MAX_DEFAULT_FILTER_VALUES);
+      if (stringValues.length > 0) {
+        filters.push({ field, values: stringValues });
+      }
+    }
+    defaults.filters = filters;
+  }
+
   return defaults;
 }
@@ -0,0 +1,134 @@
+/**
+ * Settings panel for Category Sort mechanic.
+ */
+
+import { useMemo } from "react";
+import { useFilterFields } from "@/hooks/useFilterFields";
+import { detectCategoryFields } from "./scoring";
+import type { MechanicSettingsProps } from "../types";
+import type { CategorySortSettings } from "./types";
+import {
+  BIN_COUNT_OPTIONS,
+  CARD_COUNT_OPTIONS,
+  MODE_DESCRIPTIONS,
+  MODE_OPTIONS,
+  TIME_LIMIT_OPTIONS,
+  getCardCountLabel,
+} from "./types";
+import styles from "./CategorySort.module.css";
+
+/**
+ * Category Sort settings panel.
+ */
+export function CategorySortSettingsPanel({
+  settings,
+  onChange,
+  disabled,
+}: MechanicSettingsProps<CategorySortSettings>) {
+  const filterFields = useFilterFields();
+
+  // Fields the player can sort this collection by
+  const fields = useMemo(() => detectCategoryFields(filterFields), [filterFields]);
+
+  return (
+    <div className={styles.settingsContainer}>
+      {/* Field selector */}
+      <div className={styles.settingGroup}>
+        <label className={styles.settingLabel}>
+          Sort By
+          <select
+            className={styles.select}
+            value={settings.field ?? ""}
+            onChange={(e) => { onChange({ field: e.target.value || null }); }}
+            disabled={disabled}
+            style={{ marginLeft: "0.5rem" }}
+          >
+            <option value="">{fields[0] ? `Default (${fields[0].label})` : "Default"}</option>
+            {fields.map((field) => (
+              <option key={field.key} value={field.key}>
+                {field.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {/* Bins */}
+      <div className={styles.settingGroup}>
+        <span className={styles.settingLabel}>Bins</span>
+        <div className={styles.options}>
+          {BIN_COUNT_OPTIONS.map((binCount) => (
+            <button
+              key={binCount}
+              type="button"
+              className={`${styles.option ?? ""} ${settings.binCount === binCount ? (styles.selected ?? "") : ""}`}
+              onClick={() => { onChange({ binCount }); }}
+              disabled={disabled}
+            >
+              {binCount}
+            </button>
+          ))}
+        </div>
+        <span className={styles.settingDescription}>
+          Bins are the most common categories; other cards are left out.
+        </span>
+      </div>
+
+      {/* Mode */}
+      <div className={styles.settingGroup}>
+        <span className={styles.settingLabel}>Mode</span>
+        <div className={styles.options}>
+          {MODE_OPTIONS.map((mode) => (
+            <button
+              key={mode}
+              type="button"
+              className={`${styles.option ?? ""} ${settings.mode === mode ? (styles.selected ?? "") : ""}`}
+              onClick={() => { onChange({ mode }); }}
+              disabled={disabled}
+            >
+              {mode === "timed" ? "Timed" : "Untimed"}
+            </button>
+          ))}
+        </div>
+        <span className={styles.settingDescription}>{MODE_DESCRIPTIONS[settings.mode]}</span>
+      </div>
+
+      {/* Time limit or card count */}
+      {settings.mode === "timed" ? (
+        <div className={styles.settingGroup}>
+          <span className={styles.settingLabel}>Time Limit</span>
+          <div className={styles.options}>
+            {TIME_LIMIT_OPTIONS.map((timeLimit) => (
+              <button
+                key={timeLimit}
+                type="button"
+                className={`${styles.option ?? ""} ${settings.timeLimit === timeLimit ? (styles.selected ?? "") : ""}`}
+                onClick={() => { onChange({ timeLimit }); }}
+                disabled={disabled}
+              >
+                {timeLimit}s
+              </button>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <div className={styles.settingGroup}>
+          <span className={styles.settingLabel}>Cards</span>
+          <div className={styles.options}>
+            {CARD_COUNT_OPTIONS.map((cardCount) => (
+              <button
+                key={cardCount}
+                type="button"
+                className={`${styles.option ?? ""} ${settings.cardCount === cardCount ? (styles.selected ?? "") : ""}`}
+                onClick={() => { onChange({ cardCount }); }}
+                disabled={disabled}
+              >
+                {getCardCountLabel(cardCount)}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+/**
+ * Category Sort achievements.
+ *
+ * Events are derived from store transitions: "sort" fires for each sorted
+ * card and "game-complete" when the game ends.
+ */
+
+import type { AchievementDefinition, MechanicEvent } from "../types";
+import type { CategorySortSettings, CategorySortState } from "./types";
+
+/**
+ * Achievements awarded by Category Sort.
+ */
+export const CATEGORY_SORT_ACHIEVEMENTS: AchievementDefinition[] = [
+  {
+    id: "first-game",
+    name: "Sorted",
+    description: "Finish a game of Category Sort",
+    event: "game-complete",
+    criteria: [],
+  },
+  {
+    id: "perfect-sort",
+    name: "Everything in Its Place",
+    description: "Sort 20 or more cards without a mistake in Category Sort",
+    event: "game-complete",
+    criteria: [
+      { field: "sorted", min: 20 },
+      { field: "accuracy", equals: 100 },
+    ],
+  },
+  {
+    id: "timed-30",
+    name: "Quick Sorter",
+    description: "Sort 30 cards correctly in one timed game of Category Sort",
+    event: "sort",
+    criteria: [
+      { field: "mode", equals: "timed" },
+      { field: "score", min: 30 },
+    ],
+  },
+];
+
+/**
+ * Events for a Category Sort store transition.
+ *
+ * @param state - New store state
+ * @param previous - Store state before the change
+ * @returns Events to emit (empty for most transitions)
+ *
+ * @example
+ * ```ts
+ * useCategorySortStore.subscribe((state, previous) => {
+ *   getCategorySortEvents(state, previous).forEach(listener);
+ * });
+ * ```
+ */
+export function getCategorySortEvents(
+  state: CategorySortState & CategorySortSettings,
+  previous: CategorySortState
+): MechanicEvent[] {
+  const events: MechanicEvent[] = [];
+
+  if (state.lastPlacement && state.lastPlacement !== previous.lastPlacement) {
+    events.push({
+      type: "sort",
+      data: { correct: state.lastPlacement.correct, score: state.score, mode: state.mode },
+    });
+  }
+
+  if (state.phase === "game_over" && previous.phase !== "game_over") {
+    const sorted = state.placements.length;
+    events.push({
+      type: "game-complete",
+      data: {
+        score: state.score,
+        sorted,
+        accuracy: sorted > 0 ? Math.round((state.score / sorted) * 100) : 0,
+        mode: state.mode,
+      },
+    });
+  }
+
+  return events;
+}
@@ -0,0 +1,496 @@
+/**
+ * Category Sort mechanic components.
+ *
+ * Full-screen overlay with the dealt card above a row of bins. The card is
+ * dragged into a bin with @dnd-kit, or sorted by clicking a bin or pressing
+ * its number key. Uses shared components for timer, error overlay and
+ * completion modal.
+ */
+
+import { useEffect, useCallback, useMemo } from "react";
+import {
+  DndContext,
+  KeyboardSensor,
+  PointerSensor,
+  TouchSensor,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+} from "@dnd-kit/core";
+import { CSS } from "@dnd-kit/utilities";
+import { useCategorySortStore } from "./store";
+import { useCollectionData } from "@/context/CollectionDataContext";
+import { useFilterFields } from "@/hooks/useFilterFields";
+import { getFilterValues } from "@/utils/filterMatch";
+import { createSafeRecord } from "@/utils/safeRecord";
+import { ErrorOverlay, FloatingTimer, GameCompletionModal } from "../shared";
+import { useMechanicActions, useGameResult, useGameTimer, formatTime } from "../shared";
+import { buildConfusionMatrix, detectCategoryFields, getCategoryAccuracy } from "./scoring";
+import type { GridOverlayProps } from "../types";
+import type { CategorySortCard } from "./types";
+import styles from "./CategorySort.module.css";
+
+/**
+ * How long feedback shows before the next card.
+ */
+const CORRECT_FEEDBACK_MS = 600;
+const WRONG_FEEDBACK_MS = 1400;
+
+/**
+ * Droppable ID for a bin. Bins are keyed by position because category
+ * names come from untrusted collection data.
+ */
+function getBinId(index: number): string {
+  return `bin-${String(index)}`;
+}
+
+/**
+ * The card being sorted.
+ */
+function DealtCard() {
+  const phase = useCategorySortStore((s) => s.phase);
+  const currentCardId = useCategorySortStore((s) => s.currentCardId);
+  const card = useCategorySortStore((s) => (currentCardId ? s.cards[currentCardId] : undefined));
+  const lastPlacement = useCategorySortStore((s) => s.lastPlacement);
+
+  const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
+    id: "dealt-card",
+    disabled: phase !== "sorting",
+  });
+
+  if (!card) return null;
+
+  const result = phase === "feedback" && lastPlacement
+    ? (lastPlacement.correct ? "correct" : "wrong")
+    : undefined;
+  const className = [
+    styles.dealtCard,
+    result ? styles[result] : "",
+    isDragging ? styles.dragging : "",
+  ].filter(Boolean).join(" ");
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={className}
+      style={{ transform: CSS.Translate.toString(transform) }}
+      aria-label={`${card.title}. Drag to a bin or press its number.`}
+      {...attributes}
+      {...listeners}
+    >
+      {card.imageUrl ? (
+        <img className={styles.cardImage} src={card.imageUrl} alt="" draggable={false} />
+      ) : (
+        <div className={styles.cardImage} />
+      )}
+      <span className={styles.cardTitle}>{card.title}</span>
+    </div>
+  );
+}
+
+/**
+ * A bin cards are dropped into.
+ */
+function Bin({ bin, index }: { bin: string; index: number }) {
+  const phase = useCategorySortStore((s) => s.phase);
+  const lastPlacement = useCategorySortStore((s) => s.lastPlacement);
+  const sortCard = useCategorySortStore((s) => s.sortCard);
+  const placements = useCategorySortStore((s) => s.placements);
+  const { setNodeRef, isOver } = useDroppable({ id: getBinId(index) });
+
+  const count = useMemo(
+    () => placements.filter((placement) => placement.chosen === bin).length,
+    [placements, bin]
+  );
+
+  let result: "correct" | "wrong" | undefined;
+  if (phase === "feedback" && lastPlacement) {
+    if (lastPlacement.actual === bin) result = "correct";
+    else if (lastPlacement.chosen === bin) result = "wrong";
+  }
+  const className = [
+    styles.bin,
+    result ? styles[result] : "",
+    isOver ? styles.binOver : "",
+  ].filter(Boolean).join(" ");
+
+  return (
+    <button
+      ref={setNodeRef}
+      type="button"
+      className={className}
+      onClick={() => { sortCard(bin); }}
+      disabled={phase !== "sorting"}
+    >
+      {index < 9 && <span className={styles.binKey}>{index + 1}</span>}
+      <span className={styles.binLabel}>{bin}</span>
+      <span className={styles.binCount}>{count}</span>
+    </button>
+  );
+}
+
+/**
+ * Result of the last sort.
+ */
+function FeedbackBar() {
+  const phase = useCategorySortStore((s) => s.phase);
+  const lastPlacement = useCategorySortStore((s) => s.lastPlacement);
+  const nextCard = useCategorySortStore((s) => s.nextCard);
+
+  if (phase !== "feedback" || !lastPlacement) {
+    return <div className={styles.feedbackBar} />;
+  }
+
+  return (
+    <div className={styles.feedbackBar}>
+      <span
+        className={[styles.resultText, lastPlacement.correct ? styles.correct : styles.wrong].join(" ")}
+        role="status"
+      >
+        {lastPlacement.correct ? "Correct!" : `Wrong! It's ${lastPlacement.actual}.`}
+      </span>
+      <button type="button" className={styles.nextButton} onClick={nextCard}>
+        Next
+      </button>
+    </div>
+  );
+}
+
+/**
+ * Elapsed time, or the countdown in timed mode.
+ */
+function CategorySortTimer() {
+  const phase = useCategorySortStore((s) => s.phase);
+  const mode = useCategorySortStore((s) => s.mode);
+  const timeLimit = useCategorySortStore((s) => s.timeLimit);
+  const placements = useCategorySortStore((s) => s.placements);
+  const deck = useCategorySortStore((s) => s.deck);
+  const gameStartedAt = useCategorySortStore((s) => s.gameStartedAt);
+  const gameEndedAt = useCategorySortStore((s) => s.gameEndedAt);
+  const timeUp = useCategorySortStore((s) => s.timeUp);
+
+  const isPlaying = phase === "sorting" || phase === "feedback";
+  const { elapsedMs } = useGameTimer({
+    isRunning: isPlaying && gameEndedAt === null,
+    startTime: gameStartedAt > 0 ? gameStartedAt : null,
+    endTime: gameEndedAt,
+  });
+
+  const limitMs = timeLimit * 1000;
+  const isTimed = mode === "timed";
+
+  useEffect(() => {
+    if (isTimed && isPlaying && elapsedMs >= limitMs) {
+      timeUp();
+    }
+  }, [isTimed, isPlaying, elapsedMs, limitMs, timeUp]);
+
+  // The card being sorted counts as dealt, so the label reads e.g. "3/20"
+  const dealt = placements.length + (phase === "sorting" ? 1 : 0);
+  const total = dealt + deck.length;
+
+  return (
+    <FloatingTimer
+      timeMs={isTimed ? Math.max(0, limitMs - elapsedMs) : elapsedMs}
+      progressLabel={isTimed ? undefined : `${String(dealt)}/${String(total)}`}
+      visible={isPlaying}
+    />
+  );
+}
+
+/**
+ * Per-category accuracy and confusion matrix for the results.
+ */
+function SortBreakdown() {
+  const bins = useCategorySortStore((s) => s.bins);
+  const placements = useCategorySortStore((s) => s.placements);
+
+  const accuracy = useMemo(() => getCategoryAccuracy(bins, placements), [bins, placements]);
+  const matrix = useMemo(() => buildConfusionMatrix(bins, placements), [bins, placements]);
+
+  if (placements.length === 0) return null;
+
+  return (
+    <div className={styles.breakdown}>
+      <h3 className={styles.breakdownTitle}>Accuracy by Category</h3>
+      <ul className={styles.accuracyList}>
+        {accuracy.map(({ category, correct, total }) => (
+          <li key={category} className={styles.accuracyRow}>
+            <span className={styles.accuracyLabel}>{category}</span>
+            <span className={styles.accuracyValue}>
+              {total > 0
+                ? `${String(correct)}/${String(total)} (${String(Math.round((correct / total) * 100))}%)`
+                : "—"}
+            </span>
+          </li>
+        ))}
+      </ul>
+
+      <h3 className={styles.breakdownTitle}>Confusion Matrix</h3>
+      <div className={styles.matrixWrapper}>
+        <table className={styles.matrix}>
+          <caption className={styles.matrixCaption}>
+            Rows are the right category; columns are the bin chosen.
+          </caption>
+          <thead>
+            <tr>
+              <th scope="col" />
+              {bins.map((bin) => (
+                <th key={bin} scope="col">{bin}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {bins.map((actual, row) => (
+              <tr key={actual}>
+                <th scope="row">{actual}</th>
+                {bins.map((chosen, column) => {
+                  const count = matrix[row]?.[column] ?? 0;
+                  const cellClass = count === 0
+                    ? styles.emptyCell
+                    : row === column ? styles.correctCell : styles.wrongCell;
+                  return (
+                    <td key={chosen} className={cellClass}>
+                      {count}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Results modal using shared GameCompletionModal.
+ */
+function GameOverModal() {
+  const phase = useCategorySortStore((s) => s.phase);
+  const score = useCategorySortStore((s) => s.score);
+  const sorted = useCategorySortStore((s) => s.placements.length);
+  const sortField = useCategorySortStore((s) => s.sortField);
+  const binCount = useCategorySortStore((s) => s.binCount);
+  const mode = useCategorySortStore((s) => s.mode);
+  const timeLimit = useCategorySortStore((s) => s.timeLimit);
+  const cardCount = useCategorySortStore((s) => s.cardCount);
+  const gameStartedAt = useCategorySortStore((s) => s.gameStartedAt);
+  const gameEndedAt = useCategorySortStore((s) => s.gameEndedAt);
+  const resetGame = useCategorySortStore((s) => s.resetGame);
+
+  const { handleExit } = useMechanicActions();
+
+  const totalTime = gameEndedAt && gameStartedAt ? gameEndedAt - gameStartedAt : 0;
+  const isTimed = mode === "timed";
+
+  // Timed games deal every card, so they are scored on correct sorts alone
+  const personalBest = useGameResult(
+    phase === "game_over" && gameEndedAt
+      ? {
+          mechanicId: "category-sort",
+          settings: {
+            field: sortField?.label,
+            binCount,
+            mode,
+            ...(isTimed ? { timeLimit } : { cardCount }),
+          },
+          score,
+          maxScore: isTimed ? undefined : sorted,
+          durationMs: totalTime,
+          completedAt: gameEndedAt,
+        }
+      : null
+  );
+
+  const handlePlayAgain = useCallback(() => {
+    resetGame();
+  }, [resetGame]);
+
+  if (phase !== "game_over") return null;
+
+  const accuracy = sorted > 0 ? Math.round((score / sorted) * 100) : 0;
+
+  return (
+    <GameCompletionModal
+      isOpen={true}
+      title={isTimed ? "Time's Up!" : "All Sorted!"}
+      subtitle={`${String(score)} of ${String(sorted)} cards in the right ${sortField?.label ?? "category"} bin.`}
+      stats={[
+        { label: "Correct", value: score },
+        { label: "Accuracy", value: `${String(accuracy)}%` },
+        { label: "Time", value: formatTime(totalTime) },
+      ]}
+      primaryAction={{ label: "Play Again", onClick: handlePlayAgain }}
+      onExit={handleExit}
+      personalBest={personalBest ?? undefined}
+    >
+      <SortBreakdown />
+    </GameCompletionModal>
+  );
+}
+
+/**
+ * Category Sort error overlay using shared component.
+ */
+function CategorySortErrorOverlay() {
+  const errorMessage = useCategorySortStore((s) => s.errorMessage);
+  const isActive = useCategorySortStore((s) => s.isActive);
+  const { handleExit } = useMechanicActions();
+
+  return (
+    <ErrorOverlay
+      title="Cannot Play"
+      message={errorMessage ?? ""}
+      hint="This game requires cards with a category field, such as platform or genre."
+      onExit={handleExit}
+      visible={!!errorMessage && isActive}
+    />
+  );
+}
+
+/**
+ * Main game overlay component.
+ */
+function CategorySortOverlayContent() {
+  const isActive = useCategorySortStore((s) => s.isActive);
+  const phase = useCategorySortStore((s) => s.phase);
+  const bins = useCategorySortStore((s) => s.bins);
+  const score = useCategorySortStore((s) => s.score);
+  const sorted = useCategorySortStore((s) => s.placements.length);
+  const sortField = useCategorySortStore((s) => s.sortField);
+  const lastPlacement = useCategorySortStore((s) => s.lastPlacement);
+  const errorMessage = useCategorySortStore((s) => s.errorMessage);
+  const sortCard = useCategorySortStore((s) => s.sortCard);
+  const nextCard = useCategorySortStore((s) => s.nextCard);
+  const { handleExit } = useMechanicActions();
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 8,
+      },
+    }),
+    useSensor(TouchSensor, {
+      activationConstraint: {
+        delay: 150,
+        tolerance: 5,
+      },
+    }),
+    useSensor(KeyboardSensor)
+  );
+
+  const handleDragEnd = useCallback(
+    (event: DragEndEvent) => {
+      if (!event.over) return;
+      const bin = bins.find((_, index) => getBinId(index) === event.over?.id);
+      if (bin !== undefined) sortCard(bin);
+    },
+    [bins, sortCard]
+  );
+
+  // Move on after the feedback; wrong sorts stay up longer to show the answer
+  useEffect(() => {
+    if (phase !== "feedback" || !lastPlacement) return;
+    const duration = lastPlacement.correct ? CORRECT_FEEDBACK_MS : WRONG_FEEDBACK_MS;
+    const timeout = setTimeout(() => { nextCard(); }, duration);
+    return () => { clearTimeout(timeout); };
+  }, [phase, lastPlacement, nextCard]);
+
+  // Number keys sort into a bin, Enter skips the feedback
+  useEffect(() => {
+    if (!isActive) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const bin = /^[1-9]$/.test(e.key) ? bins[Number(e.key) - 1] : undefined;
+      if (phase === "sorting" && bin !== undefined) {
+        e.preventDefault();
+        sortCard(bin);
+      } else if (phase === "feedback" && e.key === "Enter") {
+        e.preventDefault();
+        nextCard();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => { window.removeEventListener("keydown", handleKeyDown); };
+  }, [isActive, phase, bins, sortCard, nextCard]);
+
+  if (!isActive) return null;
+  if (errorMessage) return <CategorySortErrorOverlay />;
+  if (phase === "setup") return null;
+
+  return (
+    <div className={styles.overlay}>
+      <div className={styles.header}>
+        <button
+          type="button"
+          className={styles.exitButton}
+          onClick={handleExit}
+          aria-label="Exit Category Sort"
+        >
+          Exit
+        </button>
+        <div className={styles.headerStats}>
+          <span>Correct: {score}/{sorted}</span>
+        </div>
+      </div>
+
+      <DndContext sensors={sensors} onDragEnd={handleDragEnd}>
+        <div className={styles.arena}>
+          <p className={styles.question}>
+            Which <strong>{sortField?.label ?? "category"}</strong> does this card belong to?
+          </p>
+          <DealtCard />
+        </div>
+
+        <div className={styles.bins}>
+          {bins.map((bin, index) => (
+            <Bin key={bin} bin={bin} index={index} />
+          ))}
+        </div>
+      </DndContext>
+
+      <FeedbackBar />
+      <CategorySortTimer />
+      <GameOverModal />
+    </div>
+  );
+}
+
+/**
+ * Grid overlay component - entry point for the mechanic.
+ */
+export function CategorySortGridOverlay({ position }: GridOverlayProps) {
+  const { cards } = useCollectionData();
+  const filterFields = useFilterFields();
+  const isActive = useCategorySortStore((s) => s.isActive);
+  const phase = useCategorySortStore((s) => s.phase);
+  const startGame = useCategorySortStore((s) => s.startGame);
+
+  useEffect(() => {
+    if (!isActive || phase !== "setup") return;
+    // Check for empty cards array
+    if (cards.length === 0) return;
+
+    const fields = detectCategoryFields(filterFields);
+
+    startGame({
+      cards: cards.map((card): CategorySortCard => {
+        const categories = createSafeRecord(
+          fields.flatMap((field): [string, string[]][] => {
+            const values = getFilterValues(card as unknown as Record<string, unknown>, field.key);
+            return values.length > 0 ? [[field.key, values]] : [];
+          })
+        );
+        return { id: card.id, title: card.title, imageUrl: card.imageUrl, categories };
+      }),
+      fields,
+    });
+  }, [isActive, phase, cards, filterFields, startGame]);
+
+  if (position !== "bottom") return null;
+
+  return <CategorySortOverlayContent />;
+}
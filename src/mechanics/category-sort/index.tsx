@@ -0,0 +1,171 @@
+/**
+ * Category Sort mechanic.
+ *
+ * Cards are dealt one at a time and the player drops each into the bin for
+ * its category, timed or untimed, with accuracy reported per category.
+ */
+
+import { useCategorySortStore } from "./store";
+import { CategorySortGridOverlay } from "./components";
+import { CategorySortSettingsPanel } from "./Settings";
+import { CATEGORY_SORT_ACHIEVEMENTS, getCategorySortEvents } from "./achievements";
+import {
+  BIN_COUNT_OPTIONS,
+  CARD_COUNT_OPTIONS,
+  DEFAULT_SETTINGS,
+  MODE_OPTIONS,
+  TIME_LIMIT_OPTIONS,
+} from "./types";
+import type { Mechanic, CardActions } from "../types";
+import type {
+  BinCountOption,
+  CardCountOption,
+  CategorySortMode,
+  CategorySortSettings,
+  TimeLimitOption,
+} from "./types";
+
+/**
+ * Longest field key accepted from a challenge link.
+ */
+const MAX_FIELD_LENGTH = 100;
+
+/**
+ * Category Sort icon - a card above three bins.
+ */
+function CategorySortIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      className={className}
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      {/* Card */}
+      <rect x="9" y="2" width="6" height="8" rx="1" />
+      {/* Bins */}
+      <path d="M2 14v6h5v-6" />
+      <path d="M9.5 14v6h5v-6" />
+      <path d="M17 14v6h5v-6" />
+    </svg>
+  );
+}
+
+/**
+ * Category Sort mechanic implementation.
+ */
+export const categorySortMechanic: Mechanic<CategorySortSettings> = {
+  manifest: {
+    id: "category-sort",
+    name: "Category Sort",
+    description: "Drop each card into the bin for its category. How well do you know your collection?",
+    icon: CategorySortIcon,
+    version: "1.0.0",
+    minCards: 2,
+    displayPreferences: {
+      cardSizePreset: "small",
+      hideCardGrid: true,
+      uiMode: "fullscreen",
+    },
+  },
+
+  lifecycle: {
+    onActivate: () => {
+      useCategorySortStore.getState().activate();
+    },
+    onDeactivate: () => {
+      useCategorySortStore.getState().deactivate();
+    },
+    onReset: () => {
+      useCategorySortStore.getState().resetGame();
+    },
+  },
+
+  getState: () => useCategorySortStore.getState(),
+
+  subscribe: (listener) => {
+    return useCategorySortStore.subscribe((state) => {
+      listener(state);
+    });
+  },
+
+  getCardActions: (): CardActions => ({
+    // Cards are shown in the game overlay, no direct grid interaction
+    canInteract: () => false,
+  }),
+
+  CardOverlay: undefined,
+  GridOverlay: CategorySortGridOverlay,
+  Settings: CategorySortSettingsPanel,
+
+  defaultSettings: DEFAULT_SETTINGS,
+
+  getSettings: (): CategorySortSettings => {
+    const state = useCategorySortStore.getState();
+    return {
+      field: state.field,
+      binCount: state.binCount,
+      mode: state.mode,
+      timeLimit: state.timeLimit,
+      cardCount: state.cardCount,
+      seed: state.seed,
+    };
+  },
+
+  setSettings: (settings) => {
+    const store = useCategorySortStore.getState();
+    if (settings.field !== undefined) {
+      store.setField(settings.field);
+    }
+    if (settings.binCount !== undefined) {
+      store.setBinCount(settings.binCount);
+    }
+    if (settings.mode !== undefined) {
+      store.setMode(settings.mode);
+    }
+    if (settings.timeLimit !== undefined) {
+      store.setTimeLimit(settings.timeLimit);
+    }
+    if (settings.cardCount !== undefined) {
+      store.setCardCount(settings.cardCount);
+    }
+    if (settings.seed !== undefined) {
+      store.setSeed(settings.seed);
+    }
+  },
+
+  parseSettings: (value) => {
+    const settings: Partial<CategorySortSettings> = {};
+    const { field, binCount, mode, timeLimit, cardCount } = value;
+    // Unknown fields fall back to the first one when the game starts
+    if (field === null || (typeof field === "string" && field.length <= MAX_FIELD_LENGTH)) {
+      settings.field = field;
+    }
+    if (BIN_COUNT_OPTIONS.includes(binCount as BinCountOption)) {
+      settings.binCount = binCount as BinCountOption;
+    }
+    if (MODE_OPTIONS.includes(mode as CategorySortMode)) {
+      settings.mode = mode as CategorySortMode;
+    }
+    if (TIME_LIMIT_OPTIONS.includes(timeLimit as TimeLimitOption)) {
+      settings.timeLimit = timeLimit as TimeLimitOption;
+    }
+    if (CARD_COUNT_OPTIONS.includes(cardCount as CardCountOption)) {
+      settings.cardCount = cardCount as CardCountOption;
+    }
+    return settings;
+  },
+
+  achievements: CATEGORY_SORT_ACHIEVEMENTS,
+
+  subscribeEvents: (listener) => {
+    return useCategorySortStore.subscribe((state, previous) => {
+      getCategorySortEvents(state, previous).forEach(listener);
+    });
+  },
+};
+
+export { useCategorySortStore };
@@ -0,0 +1,162 @@
+/**
+ * Scoring for Category Sort mechanic.
+ *
+ * A card may hold several categories (e.g. genres). Dropping it into any
+ * bin it belongs to counts as correct; a wrong drop is charged to the first
+ * of its bins, so the confusion matrix has one row per card.
+ */
+
+import type { FilterField } from "@/utils/filterMatch";
+import type { CategoryFieldInfo, CategorySortCard, SortPlacement } from "./types";
+
+/**
+ * Filter field kinds whose values are categories.
+ */
+const CATEGORY_KINDS = new Set<FilterField["kind"]>(["value", "enum", "reference", "array"]);
+
+/**
+ * Accuracy for one category.
+ */
+export interface CategoryAccuracy {
+  category: string;
+  /** Cards of this category sorted correctly */
+  correct: number;
+  /** Cards of this category dealt */
+  total: number;
+}
+
+/**
+ * Pick the fields cards can be sorted by from the collection's filter fields.
+ *
+ * Personal fields (tags, tier) are left out: they are the player's own
+ * choices, not facts about the cards.
+ *
+ * @param filterFields - Filter fields with their options
+ * @returns Categorical fields with at least two categories
+ *
+ * @example
+ * ```ts
+ * detectCategoryFields(useFilterFields());
+ * // [{ key: "categoryShort", label: "Platform" }, { key: "genres", label: "Genre" }]
+ * ```
+ */
+export function detectCategoryFields(filterFields: readonly FilterField[]): CategoryFieldInfo[] {
+  return filterFields
+    .filter(
+      (field) =>
+        CATEGORY_KINDS.has(field.kind) && !field.field.startsWith("_") && field.options.length >= 2
+    )
+    .map((field) => ({ key: field.field, label: field.label }));
+}
+
+/**
+ * Pick the bins for a game: the most common categories of a field.
+ *
+ * Ties go to the alphabetically first category, so the same collection
+ * always gets the same bins.
+ *
+ * @param cards - Cards in play
+ * @param fieldKey - Field to sort by
+ * @param binCount - Number of bins wanted
+ * @returns Up to binCount categories, in alphabetical order
+ *
+ * @example
+ * ```ts
+ * pickBins(cards, "categoryShort", 4); // ["GB", "MD", "N64", "SNES"]
+ * ```
+ */
+export function pickBins(
+  cards: readonly CategorySortCard[],
+  fieldKey: string,
+  binCount: number
+): string[] {
+  const counts = new Map<string, number>();
+  for (const card of cards) {
+    const categories = Object.hasOwn(card.categories, fieldKey) ? card.categories[fieldKey] : [];
+    // A card counts once per category, however often the value repeats
+    for (const category of new Set(categories)) {
+      counts.set(category, (counts.get(category) ?? 0) + 1);
+    }
+  }
+
+  return [...counts.entries()]
+    .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+    .slice(0, binCount)
+    .map(([category]) => category)
+    .sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * The bin a card belongs in.
+ *
+ * @param categories - The card's categories for the sorted field
+ * @param bins - Bins in play
+ * @returns The first bin (in bin order) the card belongs in, or null when none
+ *
+ * @example
+ * ```ts
+ * getCardBin(["RPG", "Action"], ["Action", "Puzzle", "RPG"]); // "Action"
+ * getCardBin(["Racing"], ["Action", "Puzzle", "RPG"]);        // null
+ * ```
+ */
+export function getCardBin(categories: readonly string[], bins: readonly string[]): string | null {
+  return bins.find((bin) => categories.includes(bin)) ?? null;
+}
+
+/**
+ * Build the confusion matrix for a game.
+ *
+ * @param bins - Bins in display order
+ * @param placements - Sorted cards
+ * @returns Counts indexed by [actual bin][chosen bin]; the diagonal is correct sorts
+ *
+ * @example
+ * ```ts
+ * buildConfusionMatrix(["MD", "SNES"], [
+ *   { cardId: "a", chosen: "MD", actual: "MD", correct: true },
+ *   { cardId: "b", chosen: "MD", actual: "SNES", correct: false },
+ * ]);
+ * // [[1, 0], [1, 0]]
+ * ```
+ */
+export function buildConfusionMatrix(
+  bins: readonly string[],
+  placements: readonly SortPlacement[]
+): number[][] {
+  const matrix = bins.map(() => bins.map(() => 0));
+  for (const placement of placements) {
+    const row = matrix[bins.indexOf(placement.actual)];
+    const column = bins.indexOf(placement.chosen);
+    if (row && column >= 0) {
+      row[column] = (row[column] ?? 0) + 1;
+    }
+  }
+  return matrix;
+}
+
+/**
+ * Accuracy for each category.
+ *
+ * @param bins - Bins in display order
+ * @param placements - Sorted cards
+ * @returns One entry per bin, in bin order (total is 0 for bins never dealt)
+ *
+ * @example
+ * ```ts
+ * getCategoryAccuracy(["MD", "SNES"], placements);
+ * // [{ category: "MD", correct: 1, total: 1 }, { category: "SNES", correct: 0, total: 1 }]
+ * ```
+ */
+export function getCategoryAccuracy(
+  bins: readonly string[],
+  placements: readonly SortPlacement[]
+): CategoryAccuracy[] {
+  return bins.map((category) => {
+    const dealt = placements.filter((placement) => placement.actual === category);
+    return {
+      category,
+      correct: dealt.filter((placement) => placement.correct).length,
+      total: dealt.length,
+    };
+  });
+}
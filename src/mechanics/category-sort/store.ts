@@ -0,0 +1,223 @@
+/**
+ * Zustand store for Category Sort mechanic.
+ *
+ * Manages the bins, the deck, each sorted card and the clock for timed games.
+ */
+
+import { create } from "zustand";
+import { indexById } from "@/utils/safeRecord";
+import { shuffle } from "@/utils/shuffle";
+import { createGameRandom, inSeedOrder } from "../shared/utils";
+import { getCardBin, pickBins } from "./scoring";
+import type {
+  BinCountOption,
+  CardCountOption,
+  CategorySortGameConfig,
+  CategorySortMode,
+  CategorySortSettings,
+  CategorySortState,
+  TimeLimitOption,
+} from "./types";
+import { DEFAULT_SETTINGS } from "./types";
+
+/**
+ * Extended store state with actions.
+ */
+interface CategorySortStore extends CategorySortState, CategorySortSettings {
+  // Lifecycle
+  activate: () => void;
+  deactivate: () => void;
+  resetGame: () => void;
+  startGame: (config: CategorySortGameConfig) => void;
+
+  // Game actions
+  sortCard: (bin: string) => void;
+  nextCard: () => void;
+  timeUp: () => void;
+
+  // Settings
+  setField: (field: string | null) => void;
+  setBinCount: (binCount: BinCountOption) => void;
+  setMode: (mode: CategorySortMode) => void;
+  setTimeLimit: (timeLimit: TimeLimitOption) => void;
+  setCardCount: (cardCount: CardCountOption) => void;
+  setSeed: (seed: number | null) => void;
+}
+
+/**
+ * Initial state.
+ */
+const INITIAL_STATE: CategorySortState = {
+  isActive: false,
+  phase: "setup",
+  sortField: null,
+  bins: [],
+  cards: {},
+  deck: [],
+  currentCardId: null,
+  lastPlacement: null,
+  placements: [],
+  score: 0,
+  gameStartedAt: 0,
+  gameEndedAt: null,
+  errorMessage: null,
+};
+
+/**
+ * Category Sort store.
+ */
+export const useCategorySortStore = create<CategorySortStore>((set, get) => ({
+  // Initial state
+  ...INITIAL_STATE,
+  ...DEFAULT_SETTINGS,
+
+  // Lifecycle
+  activate: () => {
+    set({ ...INITIAL_STATE, isActive: true });
+  },
+
+  deactivate: () => {
+    set({ ...INITIAL_STATE, isActive: false });
+  },
+
+  resetGame: () => {
+    // Back to setup: the overlay deals a fresh game from the collection
+    set({ ...INITIAL_STATE, isActive: get().isActive });
+  },
+
+  startGame: (config: CategorySortGameConfig) => {
+    const { isActive, binCount, mode, cardCount, seed } = get();
+
+    // A chosen field the collection lacks falls back to the first one
+    const field =
+      config.fields.find((candidate) => candidate.key === get().field) ?? config.fields[0];
+    if (!field) {
+      set({
+        ...INITIAL_STATE,
+        isActive,
+        errorMessage:
+          "No category fields found. Category Sort needs cards with a field such as platform or genre.",
+      });
+      return;
+    }
+
+    const bins = pickBins(config.cards, field.key, binCount);
+
+    const cards = indexById(
+      config.cards.filter((card) => {
+        const categories = Object.hasOwn(card.categories, field.key)
+          ? card.categories[field.key]
+          : [];
+        return getCardBin(categories ?? [], bins) !== null;
+      })
+    );
+
+    const dealt = shuffle(
+      inSeedOrder(Object.keys(cards), (id) => id),
+      createGameRandom(seed)
+    );
+    // Timed games deal every card and let the clock end the game
+    const [first, ...deck] =
+      mode === "untimed" && cardCount > 0 ? dealt.slice(0, cardCount) : dealt;
+
+    if (bins.length < 2 || first === undefined) {
+      set({
+        ...INITIAL_STATE,
+        isActive,
+        errorMessage: `Not enough ${field.label} categories to sort. At least two are needed.`,
+      });
+      return;
+    }
+
+    set({
+      ...INITIAL_STATE,
+      isActive,
+      phase: "sorting",
+      sortField: field,
+      bins,
+      cards,
+      deck,
+      currentCardId: first,
+      gameStartedAt: Date.now(),
+    });
+  },
+
+  // Game actions
+  sortCard: (bin: string) => {
+    const { phase, sortField: field, bins, cards, currentCardId, deck } = get();
+    if (phase !== "sorting" || !field || currentCardId === null || !bins.includes(bin)) {
+      return;
+    }
+
+    const card = cards[currentCardId];
+    const categories =
+      card && Object.hasOwn(card.categories, field.key) ? (card.categories[field.key] ?? []) : [];
+    const correct = categories.includes(bin);
+    const placement = {
+      cardId: currentCardId,
+      chosen: bin,
+      actual: correct ? bin : (getCardBin(categories, bins) ?? bin),
+      correct,
+    };
+
+    set({
+      phase: "feedback",
+      lastPlacement: placement,
+      placements: [...get().placements, placement],
+      score: get().score + (correct ? 1 : 0),
+      // The clock stops on the last card, not after its feedback
+      gameEndedAt: deck.length === 0 ? Date.now() : null,
+    });
+  },
+
+  nextCard: () => {
+    const { phase, deck, gameEndedAt } = get();
+    if (phase !== "feedback") return;
+
+    const [next, ...rest] = deck;
+    if (gameEndedAt !== null || next === undefined) {
+      set({ phase: "game_over", gameEndedAt: gameEndedAt ?? Date.now() });
+      return;
+    }
+
+    set({
+      phase: "sorting",
+      currentCardId: next,
+      deck: rest,
+      lastPlacement: null,
+    });
+  },
+
+  timeUp: () => {
+    const { phase, mode, timeLimit, gameStartedAt, gameEndedAt } = get();
+    if (mode !== "timed" || (phase !== "sorting" && phase !== "feedback")) return;
+
+    // A game that already ended on its last card keeps its own end time
+    set({ phase: "game_over", gameEndedAt: gameEndedAt ?? gameStartedAt + timeLimit * 1000 });
+  },
+
+  // Settings
+  setField: (field: string | null) => {
+    set({ field });
+  },
+
+  setBinCount: (binCount: BinCountOption) => {
+    set({ binCount });
+  },
+
+  setMode: (mode: CategorySortMode) => {
+    set({ mode });
+  },
+
+  setTimeLimit: (timeLimit: TimeLimitOption) => {
+    set({ timeLimit });
+  },
+
+  setCardCount: (cardCount: CardCountOption) => {
+    set({ cardCount });
+  },
+
+  setSeed: (seed: number | null) => {
+    set({ seed });
+  },
+}));
@@ -0,0 +1,177 @@
+/**
+ * Type definitions for Category Sort mechanic.
+ *
+ * Cards are dealt one at a time and the player drops each into the bin for
+ * its category (platform, genre or any other categorical field).
+ */
+
+import type { MechanicState } from "../types";
+
+/**
+ * Game phase.
+ */
+export type CategorySortPhase =
+  | "setup" // Preparing game
+  | "sorting" // Waiting for the card to be sorted
+  | "feedback" // Showing whether the card went in the right bin
+  | "game_over"; // Deck sorted or time up
+
+/**
+ * A categorical field cards can be sorted by.
+ */
+export interface CategoryFieldInfo {
+  /** Field path in card data */
+  key: string;
+  /** Human-readable label */
+  label: string;
+}
+
+/**
+ * A card in play with its categories.
+ */
+export interface CategorySortCard {
+  id: string;
+  title: string;
+  imageUrl: string;
+  /** Categories keyed by field (a card may hold several, e.g. genres) */
+  categories: Record<string, string[]>;
+}
+
+/**
+ * Game initialisation configuration.
+ */
+export interface CategorySortGameConfig {
+  /** Cards with their categories */
+  cards: CategorySortCard[];
+  /** Detected categorical fields */
+  fields: CategoryFieldInfo[];
+}
+
+/**
+ * A sorted card.
+ */
+export interface SortPlacement {
+  cardId: string;
+  /** Bin the player chose */
+  chosen: string;
+  /** Bin the card belongs in (the chosen bin when correct) */
+  actual: string;
+  correct: boolean;
+}
+
+/**
+ * Category Sort game state.
+ */
+export interface CategorySortState extends MechanicState {
+  /** Whether the game is active */
+  isActive: boolean;
+
+  /** Current phase */
+  phase: CategorySortPhase;
+
+  /** Field cards are sorted by */
+  sortField: CategoryFieldInfo | null;
+
+  /** Bins in display order */
+  bins: string[];
+
+  /** Cards in play, keyed by ID */
+  cards: Record<string, CategorySortCard>;
+
+  /** Cards still to be dealt */
+  deck: string[];
+
+  /** Card being sorted */
+  currentCardId: string | null;
+
+  /** Last sorted card (shown during feedback) */
+  lastPlacement: SortPlacement | null;
+
+  /** Every sorted card, in order */
+  placements: SortPlacement[];
+
+  /** Cards sorted into the right bin */
+  score: number;
+
+  /** Game start time */
+  gameStartedAt: number;
+
+  /** Game end time (null if not finished) */
+  gameEndedAt: number | null;
+
+  /** Error message if game cannot be played */
+  errorMessage: string | null;
+}
+
+/**
+ * Play mode.
+ */
+export type CategorySortMode = "untimed" | "timed";
+
+/**
+ * Mode options.
+ */
+export const MODE_OPTIONS: readonly CategorySortMode[] = ["untimed", "timed"];
+
+/**
+ * Mode descriptions for UI.
+ */
+export const MODE_DESCRIPTIONS: Record<CategorySortMode, string> = {
+  untimed: "Take your time; the clock only records how long you took.",
+  timed: "Sort as many cards as you can before the time runs out.",
+};
+
+/**
+ * Bin count options.
+ */
+export const BIN_COUNT_OPTIONS = [2, 3, 4, 6] as const;
+export type BinCountOption = (typeof BIN_COUNT_OPTIONS)[number];
+
+/**
+ * Time limits in seconds (timed mode).
+ */
+export const TIME_LIMIT_OPTIONS = [30, 60, 90] as const;
+export type TimeLimitOption = (typeof TIME_LIMIT_OPTIONS)[number];
+
+/**
+ * Cards dealt per game (0 = every card that fits a bin).
+ */
+export const CARD_COUNT_OPTIONS = [10, 20, 0] as const;
+export type CardCountOption = (typeof CARD_COUNT_OPTIONS)[number];
+
+/**
+ * Get label for a card count.
+ */
+export function getCardCountLabel(cardCount: CardCountOption): string {
+  return cardCount === 0 ? "All" : String(cardCount);
+}
+
+/**
+ * Category Sort settings.
+ */
+export interface CategorySortSettings {
+  /** Field to sort by (null uses the first field that suits) */
+  field: string | null;
+  /** Number of bins, taken from the most common categories */
+  binCount: BinCountOption;
+  /** Timed or untimed play */
+  mode: CategorySortMode;
+  /** Seconds on the clock in timed mode */
+  timeLimit: TimeLimitOption;
+  /** Cards dealt per game (0 = all) */
+  cardCount: CardCountOption;
+  /** Seed for a reproducible deck (null plays randomly) */
+  seed: number | null;
+}
+
+/**
+ * Default settings.
+ */
+export const DEFAULT_SETTINGS: CategorySortSettings = {
+  field: null,
+  binCount: 4,
+  mode: "untimed",
+  timeLimit: 60,
+  cardCount: 20,
+  seed: null,
+};
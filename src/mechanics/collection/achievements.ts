@@ -0,0 +1,68 @@
+/**
+ * Collection tracker achievements.
+ *
+ * Ownership progress needs the collection's cards, so events are emitted by
+ * the goal tracker in the grid overlay rather than derived from the store:
+ * "goal-complete" when a goal reaches 100%, "category-complete" when every
+ * card of a category (such as a platform) is owned and "collection-complete"
+ * when every card is owned.
+ */
+
+import { createMechanicEvents } from "../shared/utils";
+import type { AchievementDefinition } from "../types";
+
+/**
+ * Achievements awarded by the collection tracker.
+ */
+export const COLLECTION_ACHIEVEMENTS: AchievementDefinition[] = [
+  {
+    id: "first-goal",
+    name: "Goal Getter",
+    description: "Complete a collection goal",
+    event: "goal-complete",
+    criteria: [],
+  },
+  {
+    id: "platform-complete",
+    name: "Full Set",
+    description: "Own every card of a platform",
+    event: "category-complete",
+    criteria: [],
+  },
+  {
+    id: "collection-complete",
+    name: "Completionist",
+    description: "Own every card in a collection",
+    event: "collection-complete",
+    criteria: [],
+  },
+];
+
+/**
+ * Emitter for collection tracker events.
+ */
+export const collectionEvents = createMechanicEvents();
+
+/**
+ * Categories whose cards are all owned.
+ *
+ * @param cards - Cards in the collection
+ * @param isOwned - Whether a card is owned
+ * @returns Titles of complete categories; cards without a category are ignored
+ *
+ * @example
+ * ```ts
+ * getCompletedCategories(cards, (id) => owned.has(id)); // ["SNES"]
+ * ```
+ */
+export function getCompletedCategories(
+  cards: readonly { id: string; categoryTitle?: string }[],
+  isOwned: (cardId: string) => boolean
+): string[] {
+  const complete = new Map<string, boolean>();
+  for (const card of cards) {
+    if (!card.categoryTitle) continue;
+    complete.set(card.categoryTitle, (complete.get(card.categoryTitle) ?? true) && isOwned(card.id));
+  }
+  return [...complete].filter(([, isComplete]) => isComplete).map(([category]) => category);
+}
@@ -7,12 +7,14 @@
  * - Yellow/gold filled heart when wishlisted
  *
  * The heart is positioned in the top-right corner and is the only
- * clickable element for toggling collection status.
+ * clickable element for toggling collection status. Owned cards also
+ * show a copy count below the heart that opens the copy details editor.
  */
 
-import { useCallback } from "react";
+import { useCallback, useState } from "react";
 import { motion } from "framer-motion";
 import { useCollectionStore } from "../store";
+import { CopyDetailsEditor } from "./CopyDetailsEditor";
 import type { CardOverlayProps } from "../../types";
 import styles from "../collection.module.css";
 
@@ -63,6 +65,8 @@ export function CollectionCardOverlay({ cardId }: CardOverlayProps) {
   const getStatus = useCollectionStore((s) => s.getStatus);
   const cycleStatus = useCollectionStore((s) => s.cycleStatus);
   const showUnownedBadge = useCollectionStore((s) => s.settings.showUnownedBadge);
+  const getCopies = useCollectionStore((s) => s.getCopies);
+  const [isEditingCopies, setIsEditingCopies] = useState(false);
 
   // Get current status (recalculated on store changes)
   const status = getStatus(cardId);
@@ -87,6 +91,16 @@ export function CollectionCardOverlay({ cardId }: CardOverlayProps) {
     [cardId, cycleStatus]
   );
 
+  const handleCopiesClick = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation();
+    e.preventDefault();
+    setIsEditingCopies(true);
+  }, []);
+
+  const handleCloseCopies = useCallback(() => {
+    setIsEditingCopies(false);
+  }, []);
+
   if (!isActive) return null;
 
   // Determine visual state
@@ -113,19 +127,36 @@ export function CollectionCardOverlay({ cardId }: CardOverlayProps) {
     .filter(Boolean)
     .join(" ");
 
+  const copyCount = isOwned ? getCopies(cardId).length : 0;
+
   return (
-    <motion.button
-      type="button"
-      className={buttonClass}
-      initial={{ scale: 0.8, opacity: 0 }}
-      animate={{ scale: 1, opacity: 1 }}
-      transition={{ duration: 0.15 }}
-      onClick={handleClick}
-      onKeyDown={handleKeyDown}
-      aria-label={ariaLabel}
-      title={isOwned ? "In collection" : isWishlist ? "Wishlisted" : "Add to collection"}
-    >
-      {isInCollection ? <HeartFilledIcon /> : <HeartOutlineIcon />}
-    </motion.button>
+    <>
+      <motion.button
+        type="button"
+        className={buttonClass}
+        initial={{ scale: 0.8, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        transition={{ duration: 0.15 }}
+        onClick={handleClick}
+        onKeyDown={handleKeyDown}
+        aria-label={ariaLabel}
+        title={isOwned ? "In collection" : isWishlist ? "Wishlisted" : "Add to collection"}
+      >
+        {isInCollection ? <HeartFilledIcon /> : <HeartOutlineIcon />}
+      </motion.button>
+      {isOwned && (
+        <button
+          type="button"
+          className={styles.copiesButton}
+          onClick={handleCopiesClick}
+          onKeyDown={(e) => { e.stopPropagation(); }}
+          aria-label={`${String(copyCount)} ${copyCount === 1 ? "copy" : "copies"} - edit ownership details`}
+          title="Ownership details"
+        >
+          ×{copyCount}
+        </button>
+      )}
+      {isEditingCopies && <CopyDetailsEditor cardId={cardId} onClose={handleCloseCopies} />}
+    </>
   );
 }
@@ -0,0 +1,419 @@
+/**
+ * Collection goal components.
+ *
+ * Goals are sub-collections selected by a search query ("all SNES RPGs" as
+ * `platform:SNES genre:RPG`). The grid overlay lists each goal with its own
+ * progress bar; a goal's "missing" view lists the cards still to collect.
+ * Completing a goal shows a toast.
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { createPortal } from "react-dom";
+import { useCollectionData } from "@/context/CollectionDataContext";
+import { useSettingsStore } from "@/stores/settingsStore";
+import { useEscapeShortcut } from "@/hooks/useGlobalKeyboard";
+import { Toast } from "@/components/Toast";
+import { validateSearchQuery } from "@/utils/searchQuery";
+import { useCollectionStore } from "../store";
+import { getGoalProgress } from "../goals";
+import { collectionEvents, getCompletedCategories } from "../achievements";
+import { MAX_GOALS, MAX_GOAL_NAME_LENGTH } from "../types";
+import type { CollectionGoal, GoalProgress } from "../types";
+import styles from "../collection.module.css";
+
+/**
+ * A goal with its progress (null when its query is invalid).
+ */
+interface GoalWithProgress {
+  goal: CollectionGoal;
+  progress: GoalProgress | null;
+}
+
+/**
+ * Ownership lookup for the active source, replaced when ownership changes.
+ */
+function useIsOwned(): (cardId: string) => boolean {
+  const activeSourceId = useCollectionStore((s) => s.activeSourceId);
+  const collections = useCollectionStore((s) => s.collections);
+
+  return useMemo(() => {
+    const collection = activeSourceId && Object.hasOwn(collections, activeSourceId)
+      ? collections[activeSourceId]
+      : undefined;
+    return (cardId: string) =>
+      collection !== undefined &&
+      Object.hasOwn(collection.records, cardId) &&
+      collection.records[cardId]?.status === "owned";
+  }, [activeSourceId, collections]);
+}
+
+/**
+ * Goals of the active source with their progress, recomputed when
+ * ownership, goals or cards change.
+ */
+function useGoalProgress(): GoalWithProgress[] {
+  const activeSourceId = useCollectionStore((s) => s.activeSourceId);
+  const goalsBySource = useCollectionStore((s) => s.goals);
+  const searchFields = useSettingsStore((s) => s.searchFields);
+  const { cards } = useCollectionData();
+  const isOwned = useIsOwned();
+
+  return useMemo(() => {
+    if (!activeSourceId || !Object.hasOwn(goalsBySource, activeSourceId)) return [];
+
+    return (goalsBySource[activeSourceId] ?? []).map((goal) => ({
+      goal,
+      progress: getGoalProgress(cards, goal.query, isOwned, { searchFields }),
+    }));
+  }, [activeSourceId, goalsBySource, cards, searchFields, isOwned]);
+}
+
+interface ModalFrameProps {
+  /** Heading ID for aria-labelledby */
+  titleId: string;
+  /** Modal heading */
+  title: string;
+  /** Called when the modal is closed */
+  onClose: () => void;
+  children: React.ReactNode;
+}
+
+/**
+ * Shared modal frame for the goal dialogs.
+ */
+function ModalFrame({ titleId, title, onClose, children }: ModalFrameProps) {
+  useEscapeShortcut(onClose, true);
+
+  const handleBackdropClick = useCallback(
+    (e: React.MouseEvent) => {
+      if (e.target === e.currentTarget) {
+        onClose();
+      }
+    },
+    [onClose]
+  );
+
+  // Keep typing inside the dialog from triggering global shortcuts
+  const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
+    if (e.key === "Escape") return;
+    e.stopPropagation();
+  }, []);
+
+  return createPortal(
+    <div
+      className={styles.modalBackdrop}
+      onClick={handleBackdropClick}
+      onKeyDown={handleKeyDown}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby={titleId}
+    >
+      <div className={[styles.modalContent, styles.goalModal].join(" ")}>
+        <div className={styles.modalHeader}>
+          <h2 id={titleId} className={styles.modalTitle}>
+            {title}
+          </h2>
+          <button
+            type="button"
+            className={styles.modalCloseX}
+            onClick={onClose}
+            aria-label="Close"
+          >
+            ×
+          </button>
+        </div>
+        {children}
+      </div>
+    </div>,
+    document.body
+  );
+}
+
+/**
+ * Dialog for adding and removing goals.
+ */
+function GoalsModal({ goals, onClose }: { goals: GoalWithProgress[]; onClose: () => void }) {
+  const addGoal = useCollectionStore((s) => s.addGoal);
+  const removeGoal = useCollectionStore((s) => s.removeGoal);
+  const [name, setName] = useState("");
+  const [query, setQuery] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = useCallback(
+    (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!name.trim() || !query.trim()) {
+        setError("Enter a name and a search query");
+        return;
+      }
+      const queryError = validateSearchQuery(query);
+      if (queryError) {
+        setError(queryError.message);
+        return;
+      }
+      if (!addGoal(name, query)) {
+        setError(`You can have up to ${String(MAX_GOALS)} goals`);
+        return;
+      }
+      setName("");
+      setQuery("");
+      setError(null);
+    },
+    [name, query, addGoal]
+  );
+
+  return (
+    <ModalFrame titleId="collection-goals-title" title="Collection Goals" onClose={onClose}>
+      {goals.length > 0 ? (
+        <ul className={styles.goalManageList}>
+          {goals.map(({ goal, progress }) => (
+            <li key={goal.id} className={styles.goalManageItem}>
+              <span className={styles.goalName}>{goal.name}</span>
+              <code className={styles.goalQuery}>{goal.query}</code>
+              <span className={styles.goalCount}>
+                {progress
+                  ? `${String(progress.owned)}/${String(progress.total)}`
+                  : "Invalid query"}
+              </span>
+              <button
+                type="button"
+                className={styles.exportLinkButton}
+                onClick={() => { removeGoal(goal.id); }}
+                aria-label={`Remove goal ${goal.name}`}
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className={styles.modalDescription}>
+          Track a part of your collection, such as every SNES RPG, by its
+          search query.
+        </p>
+      )}
+
+      <div className={styles.modalDivider} />
+
+      <form className={styles.modalSection} onSubmit={handleSubmit}>
+        <h3 className={styles.modalSectionTitle}>New Goal</h3>
+        <label className={styles.copyField} htmlFor="collection-goal-name">
+          Name
+          <input
+            id="collection-goal-name"
+            type="text"
+            value={name}
+            maxLength={MAX_GOAL_NAME_LENGTH}
+            onChange={(e) => {
+              setName(e.target.value);
+              setError(null);
+            }}
+            placeholder="e.g. All SNES RPGs"
+          />
+        </label>
+        <label className={styles.copyField} htmlFor="collection-goal-query">
+          Search Query
+          <input
+            id="collection-goal-query"
+            type="text"
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setError(null);
+            }}
+            placeholder="e.g. platform:SNES genre:RPG"
+          />
+        </label>
+        {error && (
+          <p className={styles.errorMessage} role="alert">
+            {error}
+          </p>
+        )}
+        <button
+          type="submit"
+          className={styles.primaryButton}
+          disabled={goals.length >= MAX_GOALS}
+        >
+          Add Goal
+        </button>
+      </form>
+    </ModalFrame>
+  );
+}
+
+/**
+ * Dialog listing the cards a goal is still missing.
+ */
+function GoalMissingModal({
+  goal,
+  missingIds,
+  onClose,
+}: {
+  goal: CollectionGoal;
+  missingIds: string[];
+  onClose: () => void;
+}) {
+  const getStatus = useCollectionStore((s) => s.getStatus);
+  const { cards } = useCollectionData();
+
+  const missingCards = useMemo(() => {
+    const missing = new Set(missingIds);
+    return cards.filter((card) => missing.has(card.id));
+  }, [cards, missingIds]);
+
+  return (
+    <ModalFrame titleId="collection-goal-missing-title" title={`Missing: ${goal.name}`} onClose={onClose}>
+      {missingCards.length > 0 ? (
+        <ul className={styles.goalMissingList}>
+          {missingCards.map((card) => (
+            <li key={card.id} className={styles.goalMissingItem}>
+              <span>{card.title}</span>
+              {getStatus(card.id) === "wishlist" && (
+                <span className={styles.statWishlist}>Wishlisted</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className={styles.modalDescription}>Nothing missing. Goal complete!</p>
+      )}
+    </ModalFrame>
+  );
+}
+
+/**
+ * Goal progress bars for the grid overlay, with the goal dialogs.
+ */
+export function CollectionGoalList() {
+  const goals = useGoalProgress();
+  const [isManaging, setIsManaging] = useState(false);
+  const [missingGoalId, setMissingGoalId] = useState<string | null>(null);
+
+  const missingGoal = goals.find(({ goal }) => goal.id === missingGoalId);
+
+  return (
+    <div className={styles.goalList}>
+      {goals.map(({ goal, progress }) => (
+        <div key={goal.id} className={styles.goalRow}>
+          <span className={styles.goalName}>{goal.name}</span>
+          {progress ? (
+            <>
+              <div
+                className={styles.goalBarContainer}
+                role="progressbar"
+                aria-label={goal.name}
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-valuenow={progress.percentComplete}
+              >
+                <div
+                  className={[styles.goalBar, progress.isComplete ? styles.goalBarComplete : ""]
+                    .filter(Boolean)
+                    .join(" ")}
+                  style={{ width: `${String(progress.percentComplete)}%` }}
+                />
+              </div>
+              <span className={styles.goalCount}>
+                {progress.owned}/{progress.total}
+              </span>
+              <button
+                type="button"
+                className={styles.exportLinkButton}
+                onClick={() => { setMissingGoalId(goal.id); }}
+                aria-label={`Show cards missing from ${goal.name}`}
+              >
+                Missing ({progress.missingIds.length})
+              </button>
+            </>
+          ) : (
+            <span className={styles.goalCount}>Invalid query</span>
+          )}
+        </div>
+      ))}
+
+      <button
+        type="button"
+        className={styles.exportLinkButton}
+        onClick={() => { setIsManaging(true); }}
+      >
+        {goals.length > 0 ? "Manage Goals" : "Add a Goal"}
+      </button>
+
+      {isManaging && (
+        <GoalsModal goals={goals} onClose={() => { setIsManaging(false); }} />
+      )}
+      {missingGoal?.progress && (
+        <GoalMissingModal
+          goal={missingGoal.goal}
+          missingIds={missingGoal.progress.missingIds}
+          onClose={() => { setMissingGoalId(null); }}
+        />
+      )}
+    </div>
+  );
+}
+
+/**
+ * Records goal completion and shows a toast when a goal is completed.
+ * A goal that falls back below 100% (a card marked unowned, or new cards
+ * matching its query) can be completed again.
+ *
+ * Also emits the collection's achievement events for completed goals,
+ * categories and the whole collection.
+ */
+export function CollectionGoalTracker() {
+  const isActive = useCollectionStore((s) => s.isActive);
+  const setGoalCompleted = useCollectionStore((s) => s.setGoalCompleted);
+  const { cards } = useCollectionData();
+  const goals = useGoalProgress();
+  const isOwned = useIsOwned();
+  const [message, setMessage] = useState<string | null>(null);
+  // Categories complete at the last check, so each completion is emitted once
+  const completedCategoriesRef = useRef<Set<string> | null>(null);
+
+  useEffect(() => {
+    // Progress is meaningless until the cards have loaded
+    if (!isActive || cards.length === 0) return;
+
+    for (const { goal, progress } of goals) {
+      if (!progress) continue;
+      if (progress.isComplete && !goal.completedAt) {
+        setGoalCompleted(goal.id, new Date().toISOString());
+        setMessage(`Goal complete: ${goal.name}`);
+        collectionEvents.emit({ type: "goal-complete", data: { cards: progress.total } });
+      } else if (!progress.isComplete && goal.completedAt) {
+        setGoalCompleted(goal.id, undefined);
+      }
+    }
+  }, [isActive, cards.length, goals, setGoalCompleted]);
+
+  useEffect(() => {
+    if (!isActive || cards.length === 0) return;
+
+    const completed = getCompletedCategories(cards, isOwned);
+    const previous = completedCategoriesRef.current;
+    completedCategoriesRef.current = new Set(completed);
+    for (const category of completed) {
+      if (!previous?.has(category)) {
+        collectionEvents.emit({ type: "category-complete", data: { category } });
+      }
+    }
+    if (cards.every((card) => isOwned(card.id))) {
+      collectionEvents.emit({ type: "collection-complete", data: { cards: cards.length } });
+    }
+  }, [isActive, cards, isOwned]);
+
+  const handleHide = useCallback(() => {
+    setMessage(null);
+  }, []);
+
+  return (
+    <Toast
+      message={message ?? ""}
+      visible={message !== null}
+      onHide={handleHide}
+      duration={3000}
+      type="success"
+    />
+  );
+}
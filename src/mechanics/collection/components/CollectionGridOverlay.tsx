@@ -3,7 +3,7 @@
  *
  * Shows collection progress at the top of the grid:
  * - Compact mode: Just count and expand toggle
- * - Expanded mode: Progress bar, statistics, export button
+ * - Expanded mode: Progress bar, statistics, goals, export button
  * - Done button to finish collecting
  */
 
@@ -13,6 +13,7 @@ import { useCollectionStore } from "../store";
 import { useCollectionData } from "@/context/CollectionDataContext";
 import { useMechanicContext } from "../../context";
 import { CollectionExportModal } from "./CollectionExport";
+import { CollectionGoalList } from "./CollectionGoals";
 import type { GridOverlayProps } from "../../types";
 import styles from "../collection.module.css";
 
@@ -224,6 +225,8 @@ export function CollectionGridOverlay({ position }: GridOverlayProps) {
                   {stats.percentComplete}%
                 </span>
               </div>
+
+              <CollectionGoalList />
             </div>
 
             {/* Right section: Collapse button */}
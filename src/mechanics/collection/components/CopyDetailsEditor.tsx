@@ -0,0 +1,309 @@
+/**
+ * Owned copy details editor.
+ *
+ * Modal listing each owned copy of a card with its condition, completeness
+ * (boxed, manual), price paid, acquisition date, storage location and notes.
+ * Copies can be added and removed; saving with no copies left removes the
+ * card from the collection.
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { createPortal } from "react-dom";
+import { useEscapeShortcut } from "@/hooks/useGlobalKeyboard";
+import { useCollectionStore } from "../store";
+import { CONDITION_GRADES, CONDITION_LABELS, MAX_COPIES, normaliseCopy } from "../types";
+import type { ConditionGrade, OwnedCopy } from "../types";
+import styles from "../collection.module.css";
+
+/**
+ * Form values for one copy; every input edits a string or boolean.
+ */
+interface CopyDraft {
+  condition: ConditionGrade | "";
+  boxed: boolean;
+  manual: boolean;
+  pricePaid: string;
+  acquiredAt: string;
+  location: string;
+  notes: string;
+}
+
+interface CopyDetailsEditorProps {
+  /** Card whose copies are edited */
+  cardId: string;
+  /** Called when the editor is closed */
+  onClose: () => void;
+}
+
+/**
+ * Form values for a stored copy.
+ */
+function toDraft(copy: OwnedCopy): CopyDraft {
+  return {
+    condition: copy.condition ?? "",
+    boxed: copy.boxed ?? false,
+    manual: copy.manual ?? false,
+    pricePaid: copy.pricePaid === undefined ? "" : String(copy.pricePaid),
+    acquiredAt: copy.acquiredAt ?? "",
+    location: copy.location ?? "",
+    notes: copy.notes ?? "",
+  };
+}
+
+/**
+ * Stored copy for form values, or an error message when the price is invalid.
+ */
+function fromDraft(draft: CopyDraft): OwnedCopy | { error: string } {
+  const price = draft.pricePaid.trim() === "" ? undefined : Number(draft.pricePaid);
+  if (price !== undefined && !(Number.isFinite(price) && price >= 0)) {
+    return { error: "Price paid must be a positive number" };
+  }
+
+  // Unticked boxes are left out rather than stored as false
+  return normaliseCopy({
+    condition: draft.condition || undefined,
+    boxed: draft.boxed || undefined,
+    manual: draft.manual || undefined,
+    pricePaid: price,
+    acquiredAt: draft.acquiredAt || undefined,
+    location: draft.location,
+    notes: draft.notes,
+  });
+}
+
+/**
+ * Modal editor for the owned copies of a card.
+ */
+export function CopyDetailsEditor({ cardId, onClose }: CopyDetailsEditorProps) {
+  const getCopies = useCollectionStore((s) => s.getCopies);
+  const setCopies = useCollectionStore((s) => s.setCopies);
+  const [drafts, setDrafts] = useState<CopyDraft[]>(() => getCopies(cardId).map(toDraft));
+  const [errors, setErrors] = useState<Record<number, string>>({});
+
+  const modalRef = useRef<HTMLDivElement>(null);
+
+  // Focus the first input on mount
+  useEffect(() => {
+    modalRef.current?.querySelector<HTMLElement>("select, input, button")?.focus();
+  }, []);
+
+  // Escape key closes modal
+  useEscapeShortcut(onClose, true);
+
+  const updateDraft = useCallback((index: number, changes: Partial<CopyDraft>) => {
+    setDrafts((current) =>
+      current.map((draft, i) => (i === index ? { ...draft, ...changes } : draft))
+    );
+    setErrors({});
+  }, []);
+
+  const handleAdd = useCallback(() => {
+    setDrafts((current) => [...current, toDraft({})]);
+  }, []);
+
+  const handleRemove = useCallback((index: number) => {
+    setDrafts((current) => current.filter((_, i) => i !== index));
+    setErrors({});
+  }, []);
+
+  const handleSave = useCallback(() => {
+    const results = drafts.map(fromDraft);
+    const nextErrors = Object.fromEntries(
+      results.flatMap((result, index) => ("error" in result ? [[index, result.error]] : []))
+    ) as Record<number, string>;
+    if (Object.keys(nextErrors).length > 0) {
+      setErrors(nextErrors);
+      return;
+    }
+
+    setCopies(cardId, results.filter((result): result is OwnedCopy => !("error" in result)));
+    onClose();
+  }, [drafts, setCopies, cardId, onClose]);
+
+  const handleSubmit = useCallback(
+    (e: React.FormEvent) => {
+      e.preventDefault();
+      handleSave();
+    },
+    [handleSave]
+  );
+
+  // The editor renders inside a card overlay: keep clicks from flipping the
+  // card, and typing from triggering global shortcuts
+  const handleBackdropClick = useCallback(
+    (e: React.MouseEvent) => {
+      e.stopPropagation();
+      if (e.target === e.currentTarget) {
+        onClose();
+      }
+    },
+    [onClose]
+  );
+
+  const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
+    if (e.key === "Escape") return;
+    e.stopPropagation();
+  }, []);
+
+  return createPortal(
+    <div
+      className={styles.modalBackdrop}
+      onClick={handleBackdropClick}
+      onKeyDown={handleKeyDown}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="copy-details-title"
+    >
+      <div className={[styles.modalContent, styles.copyEditor].join(" ")} ref={modalRef}>
+        <div className={styles.modalHeader}>
+          <h2 id="copy-details-title" className={styles.modalTitle}>
+            Owned Copies ({drafts.length})
+          </h2>
+          <button
+            type="button"
+            className={styles.modalCloseX}
+            onClick={onClose}
+            aria-label="Close"
+          >
+            ×
+          </button>
+        </div>
+
+        <form className={styles.copyList} onSubmit={handleSubmit}>
+          {drafts.map((draft, index) => {
+            const prefix = `copy-${String(index)}`;
+            return (
+              <fieldset key={index} className={styles.copyFieldset}>
+                <legend className={styles.modalSectionTitle}>Copy {index + 1}</legend>
+
+                <label className={styles.copyField} htmlFor={`${prefix}-condition`}>
+                  Condition
+                  <select
+                    id={`${prefix}-condition`}
+                    value={draft.condition}
+                    onChange={(e) => {
+                      updateDraft(index, {
+                        condition: CONDITION_GRADES.find((grade) => grade === e.target.value) ?? "",
+                      });
+                    }}
+                  >
+                    <option value="">Not graded</option>
+                    {CONDITION_GRADES.map((grade) => (
+                      <option key={grade} value={grade}>
+                        {CONDITION_LABELS[grade]}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+
+                <div className={styles.copyChecks}>
+                  <label className={styles.settingRow}>
+                    <input
+                      type="checkbox"
+                      checked={draft.boxed}
+                      onChange={(e) => { updateDraft(index, { boxed: e.target.checked }); }}
+                    />
+                    <span className={styles.settingLabel}>Boxed</span>
+                  </label>
+                  <label className={styles.settingRow}>
+                    <input
+                      type="checkbox"
+                      checked={draft.manual}
+                      onChange={(e) => { updateDraft(index, { manual: e.target.checked }); }}
+                    />
+                    <span className={styles.settingLabel}>Manual</span>
+                  </label>
+                </div>
+
+                <label className={styles.copyField} htmlFor={`${prefix}-price`}>
+                  Price Paid
+                  <input
+                    id={`${prefix}-price`}
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    inputMode="decimal"
+                    value={draft.pricePaid}
+                    onChange={(e) => { updateDraft(index, { pricePaid: e.target.value }); }}
+                    aria-invalid={Object.hasOwn(errors, index)}
+                  />
+                </label>
+                {Object.hasOwn(errors, index) && (
+                  <p className={styles.errorMessage} role="alert">
+                    {errors[index]}
+                  </p>
+                )}
+
+                <label className={styles.copyField} htmlFor={`${prefix}-acquired`}>
+                  Acquired
+                  <input
+                    id={`${prefix}-acquired`}
+                    type="date"
+                    value={draft.acquiredAt}
+                    onChange={(e) => { updateDraft(index, { acquiredAt: e.target.value }); }}
+                  />
+                </label>
+
+                <label className={styles.copyField} htmlFor={`${prefix}-location`}>
+                  Location
+                  <input
+                    id={`${prefix}-location`}
+                    type="text"
+                    value={draft.location}
+                    onChange={(e) => { updateDraft(index, { location: e.target.value }); }}
+                    placeholder="e.g. Shelf 2"
+                  />
+                </label>
+
+                <label className={styles.copyField} htmlFor={`${prefix}-notes`}>
+                  Notes
+                  <textarea
+                    id={`${prefix}-notes`}
+                    rows={2}
+                    value={draft.notes}
+                    onChange={(e) => { updateDraft(index, { notes: e.target.value }); }}
+                  />
+                </label>
+
+                <button
+                  type="button"
+                  className={styles.exportLinkButton}
+                  onClick={() => { handleRemove(index); }}
+                >
+                  Remove Copy {index + 1}
+                </button>
+              </fieldset>
+            );
+          })}
+
+          {drafts.length === 0 && (
+            <p className={styles.modalDescription}>
+              No copies. Saving removes this item from your collection.
+            </p>
+          )}
+
+          <button
+            type="button"
+            className={styles.secondaryButton}
+            onClick={handleAdd}
+            disabled={drafts.length >= MAX_COPIES}
+          >
+            Add Copy
+          </button>
+        </form>
+
+        <div className={styles.resultsActions}>
+          <button type="button" className={styles.secondaryButton} onClick={onClose}>
+            Cancel
+          </button>
+          <button type="button" className={styles.primaryButton} onClick={handleSave}>
+            Save
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+}
+
+export default CopyDetailsEditor;
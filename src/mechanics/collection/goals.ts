@@ -0,0 +1,68 @@
+/**
+ * Collection goal progress.
+ *
+ * A goal is the sub-collection of cards matching a search query, in the
+ * search bar's query language. Kept free of React and store access so the
+ * progress can be computed for any card list and ownership lookup.
+ */
+
+import {
+  matchesSearchQuery,
+  parseSearchQuery,
+  withKnownFields,
+  type SearchQueryOptions,
+} from "@/utils/searchQuery";
+import { SearchQueryError } from "@/errors";
+import type { GoalProgress } from "./types";
+
+/**
+ * Compute progress towards a goal.
+ *
+ * An empty goal (no matching cards) is never complete, so a goal whose
+ * query matches nothing yet does not report completion.
+ *
+ * @param cards - Cards in the collection
+ * @param query - The goal's search query
+ * @param isOwned - Whether a card is owned
+ * @param options - Search fields for free terms
+ * @returns Goal progress, or null when the query is invalid
+ *
+ * @example
+ * ```ts
+ * const progress = getGoalProgress(cards, "platform:SNES genre:RPG", (id) => owned.has(id), {
+ *   searchFields: ["title"],
+ * });
+ * progress?.missingIds; // Matching cards not yet owned
+ * ```
+ */
+export function getGoalProgress(
+  cards: readonly { id: string }[],
+  query: string,
+  isOwned: (cardId: string) => boolean,
+  options: SearchQueryOptions
+): GoalProgress | null {
+  let node;
+  try {
+    node = parseSearchQuery(query);
+  } catch (error) {
+    if (error instanceof SearchQueryError) return null;
+    throw error;
+  }
+  if (!node) return null;
+
+  const parsed = withKnownFields(node, cards);
+  const matching = cards.filter((card) =>
+    matchesSearchQuery(card as unknown as Record<string, unknown>, parsed, options)
+  );
+  const missingIds = matching.filter((card) => !isOwned(card.id)).map((card) => card.id);
+  const total = matching.length;
+  const owned = total - missingIds.length;
+
+  return {
+    total,
+    owned,
+    percentComplete: total > 0 ? Math.round((owned / total) * 100) : 0,
+    missingIds,
+    isComplete: total > 0 && missingIds.length === 0,
+  };
+}
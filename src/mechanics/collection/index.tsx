@@ -11,10 +11,12 @@ import {
   CollectionGridOverlay,
   CollectionKeyboardHandler,
 } from "./components/CollectionGridOverlay";
+import { CollectionGoalTracker } from "./components/CollectionGoals";
 import { CollectionSettingsPanel } from "./Settings";
+import { COLLECTION_ACHIEVEMENTS, collectionEvents } from "./achievements";
 import { DEFAULT_SETTINGS } from "./types";
 import { useSourceStore } from "@/stores/sourceStore";
-import type { Mechanic, CardActions } from "../types";
+import type { Mechanic, CardActions, BatchAction } from "../types";
 import type { CollectionSettings } from "./types";
 
 /**
@@ -40,7 +42,8 @@ function CollectionIcon({ className }: { className?: string }) {
 }
 
 /**
- * Grid overlay wrapper that includes the keyboard handler.
+ * Grid overlay wrapper that includes the keyboard handler and, once per
+ * grid, the goal completion tracker.
  */
 function CollectionGridOverlayWithKeyboard(
   props: Parameters<typeof CollectionGridOverlay>[0]
@@ -49,6 +52,7 @@ function CollectionGridOverlayWithKeyboard(
     <>
       <CollectionGridOverlay {...props} />
       <CollectionKeyboardHandler />
+      {props.position === "top" && <CollectionGoalTracker />}
     </>
   );
 }
@@ -111,6 +115,30 @@ export const collectionMechanic: Mechanic<CollectionSettings> = {
     openExpandedOnClick: true,
   }),
 
+  getBatchActions: (): BatchAction[] => [
+    {
+      id: "owned",
+      label: "Mark Owned",
+      run: (cardIds) => {
+        useCollectionStore.getState().setOwnershipForCards(cardIds, "owned");
+      },
+    },
+    {
+      id: "wishlist",
+      label: "Add to Wishlist",
+      run: (cardIds) => {
+        useCollectionStore.getState().setOwnershipForCards(cardIds, "wishlist");
+      },
+    },
+    {
+      id: "none",
+      label: "Clear Status",
+      run: (cardIds) => {
+        useCollectionStore.getState().setOwnershipForCards(cardIds, "none");
+      },
+    },
+  ],
+
   CardOverlay: CollectionCardOverlay,
   GridOverlay: CollectionGridOverlayWithKeyboard,
   Settings: CollectionSettingsPanel,
@@ -124,6 +152,10 @@ export const collectionMechanic: Mechanic<CollectionSettings> = {
   setSettings: (settings) => {
     useCollectionStore.getState().updateSettings(settings);
   },
+
+  achievements: COLLECTION_ACHIEVEMENTS,
+
+  subscribeEvents: collectionEvents.subscribe,
 };
 
 // Export store
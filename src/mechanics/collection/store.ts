@@ -3,20 +3,33 @@
  *
  * Zustand store for tracking collection ownership state.
  * State is persisted to localStorage and keyed by source ID
- * so each collection has separate ownership data.
+ * so each collection has separate ownership data. Owned cards
+ * keep a record per copy (condition, completeness, price paid,
+ * acquisition date, storage location and notes).
  */
 
 import { create } from "zustand";
 import { persist, createJSONStorage } from "zustand/middleware";
 import type { MechanicState } from "../types";
 import type {
+  CollectionGoal,
   CollectionSettings,
+  CollectionState,
   CollectionStats,
   CollectionExport,
+  OwnedCopy,
+  OwnershipRecord,
   OwnershipStatus,
   ImportMode,
 } from "./types";
-import { DEFAULT_SETTINGS, EXPORT_VERSION } from "./types";
+import {
+  DEFAULT_SETTINGS,
+  EXPORT_VERSION,
+  MAX_COPIES,
+  MAX_GOALS,
+  MAX_GOAL_NAME_LENGTH,
+  normaliseCopy,
+} from "./types";
 
 /**
  * Storage key for collection data.
@@ -24,12 +37,10 @@ import { DEFAULT_SETTINGS, EXPORT_VERSION } from "./types";
 const STORAGE_KEY = "itemdeck-collection-v1";
 
 /**
- * Serialised collection state for persistence.
+ * Persisted state version. Version 0 stored owned and wishlisted card
+ * IDs as two lists; version 1 stores an ownership record per card.
  */
-interface SerialisedCollectionState {
-  ownedIds: string[];
-  wishlistIds: string[];
-}
+const STORAGE_VERSION = 1;
 
 /**
  * Collection store state.
@@ -41,8 +52,11 @@ export interface CollectionStoreState extends MechanicState {
   /** Currently active source ID */
   activeSourceId: string | null;
 
-  /** Per-source collection state (serialised for persistence) */
-  collections: Record<string, SerialisedCollectionState>;
+  /** Per-source collection state */
+  collections: Record<string, CollectionState>;
+
+  /** Per-source collection goals */
+  goals: Record<string, CollectionGoal[]>;
 
   /** Settings */
   settings: CollectionSettings;
@@ -69,10 +83,21 @@ interface CollectionStoreActions {
   getStatus: (cardId: string) => OwnershipStatus;
   cycleStatus: (cardId: string) => void;
 
+  // Copy details
+  getCopies: (cardId: string) => OwnedCopy[];
+  setCopies: (cardId: string, copies: OwnedCopy[]) => void;
+
   // Batch actions
   markAllOwned: (cardIds: string[]) => void;
+  setOwnershipForCards: (cardIds: string[], status: OwnershipStatus) => void;
   clearAll: () => void;
 
+  // Goals
+  getGoals: () => CollectionGoal[];
+  addGoal: (name: string, query: string) => CollectionGoal | null;
+  removeGoal: (goalId: string) => void;
+  setGoalCompleted: (goalId: string, completedAt: string | undefined) => void;
+
   // Statistics
   getStats: () => CollectionStats;
 
@@ -93,6 +118,7 @@ const INITIAL_STATE: CollectionStoreState = {
   isActive: false,
   activeSourceId: null,
   collections: {},
+  goals: {},
   settings: DEFAULT_SETTINGS,
   allCardIds: [],
 };
@@ -101,10 +127,110 @@ const INITIAL_STATE: CollectionStoreState = {
  * Get or create collection state for a source.
  */
 function getOrCreateCollection(
-  collections: Record<string, SerialisedCollectionState>,
+  collections: Record<string, CollectionState>,
+  sourceId: string
+): CollectionState {
+  return collections[sourceId] ?? { records: {} };
+}
+
+/**
+ * Goals of a source.
+ */
+function getSourceGoals(
+  goals: Record<string, CollectionGoal[]>,
   sourceId: string
-): SerialisedCollectionState {
-  return collections[sourceId] ?? { ownedIds: [], wishlistIds: [] };
+): CollectionGoal[] {
+  return Object.hasOwn(goals, sourceId) ? goals[sourceId] ?? [] : [];
+}
+
+/**
+ * Generate unique goal ID.
+ */
+function generateGoalId(): string {
+  return `goal_${String(Date.now())}_${Math.random().toString(36).slice(2, 7)}`;
+}
+
+/**
+ * Ownership record for a card, if it has one.
+ */
+function getRecord(collection: CollectionState, cardId: string): OwnershipRecord | undefined {
+  return Object.hasOwn(collection.records, cardId) ? collection.records[cardId] : undefined;
+}
+
+/**
+ * Record for a card given a new status. A card that stays owned keeps its
+ * copies; a newly owned card starts with one copy without details.
+ */
+function toRecord(
+  previous: OwnershipRecord | undefined,
+  status: OwnershipStatus
+): OwnershipRecord | undefined {
+  if (status === "owned") {
+    return previous?.status === "owned" ? previous : { status, copies: [{}] };
+  }
+  if (status === "wishlist") {
+    return { status, copies: [] };
+  }
+  return undefined;
+}
+
+/**
+ * Set the status of several cards in a collection.
+ */
+function withStatus(
+  collection: CollectionState,
+  cardIds: readonly string[],
+  status: OwnershipStatus
+): CollectionState {
+  const records = new Map(Object.entries(collection.records));
+  for (const cardId of cardIds) {
+    const record = toRecord(records.get(cardId), status);
+    if (record) {
+      records.set(cardId, record);
+    } else {
+      records.delete(cardId);
+    }
+  }
+  return { records: Object.fromEntries(records) };
+}
+
+/**
+ * Card IDs with a given status, in record order.
+ */
+function idsWithStatus(collection: CollectionState, status: OwnershipRecord["status"]): string[] {
+  return Object.entries(collection.records)
+    .filter(([, record]) => record.status === status)
+    .map(([cardId]) => cardId);
+}
+
+/**
+ * Sanitised list of copies, capped at MAX_COPIES.
+ */
+function normaliseCopies(copies: unknown): OwnedCopy[] {
+  return Array.isArray(copies) ? copies.slice(0, MAX_COPIES).map(normaliseCopy) : [];
+}
+
+/**
+ * String entries of an untrusted list.
+ */
+function stringIds(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((id): id is string => typeof id === "string") : [];
+}
+
+/**
+ * Convert version 0 per-source state (owned and wishlisted ID lists) to
+ * ownership records. Each owned card becomes one copy without details.
+ */
+function migrateCollections(collections: unknown): Record<string, CollectionState> {
+  if (!collections || typeof collections !== "object") return {};
+
+  const migrated = new Map<string, CollectionState>();
+  for (const [sourceId, value] of Object.entries(collections)) {
+    const legacy = (value ?? {}) as Record<string, unknown>;
+    const wishlisted = withStatus({ records: {} }, stringIds(legacy.wishlistIds), "wishlist");
+    migrated.set(sourceId, withStatus(wishlisted, stringIds(legacy.ownedIds), "owned"));
+  }
+  return Object.fromEntries(migrated);
 }
 
 /**
@@ -137,30 +263,7 @@ export const useCollectionStore = create<CollectionStore>()(
 
       // Ownership actions
       setOwnership: (cardId: string, status: OwnershipStatus) => {
-        const state = get();
-        if (!state.activeSourceId) return;
-
-        const sourceId = state.activeSourceId;
-        const collection = getOrCreateCollection(state.collections, sourceId);
-
-        // Create new arrays excluding the cardId
-        let ownedIds = collection.ownedIds.filter((id) => id !== cardId);
-        let wishlistIds = collection.wishlistIds.filter((id) => id !== cardId);
-
-        // Add to appropriate list based on status
-        if (status === "owned") {
-          ownedIds = [...ownedIds, cardId];
-        } else if (status === "wishlist") {
-          wishlistIds = [...wishlistIds, cardId];
-        }
-        // status === "none" means neither list
-
-        set({
-          collections: {
-            ...state.collections,
-            [sourceId]: { ownedIds, wishlistIds },
-          },
-        });
+        get().setOwnershipForCards([cardId], status);
       },
 
       toggleOwned: (cardId: string) => {
@@ -190,9 +293,7 @@ export const useCollectionStore = create<CollectionStore>()(
           state.activeSourceId
         );
 
-        if (collection.ownedIds.includes(cardId)) return "owned";
-        if (collection.wishlistIds.includes(cardId)) return "wishlist";
-        return "none";
+        return getRecord(collection, cardId)?.status ?? "none";
       },
 
       cycleStatus: (cardId: string) => {
@@ -207,27 +308,59 @@ export const useCollectionStore = create<CollectionStore>()(
         get().setOwnership(cardId, nextStatus);
       },
 
+      // Copy details
+      getCopies: (cardId: string): OwnedCopy[] => {
+        const state = get();
+        if (!state.activeSourceId) return [];
+
+        const collection = getOrCreateCollection(
+          state.collections,
+          state.activeSourceId
+        );
+
+        const record = getRecord(collection, cardId);
+        return record?.status === "owned" ? record.copies : [];
+      },
+
+      setCopies: (cardId: string, copies: OwnedCopy[]) => {
+        const state = get();
+        if (!state.activeSourceId) return;
+
+        // No copies left means the card is no longer owned
+        if (copies.length === 0) {
+          get().setOwnership(cardId, "none");
+          return;
+        }
+
+        const sourceId = state.activeSourceId;
+        const collection = getOrCreateCollection(state.collections, sourceId);
+        const records = new Map(Object.entries(collection.records));
+        records.set(cardId, { status: "owned", copies: normaliseCopies(copies) });
+
+        set({
+          collections: {
+            ...state.collections,
+            [sourceId]: { records: Object.fromEntries(records) },
+          },
+        });
+      },
+
       // Batch actions
       markAllOwned: (cardIds: string[]) => {
+        get().setOwnershipForCards(cardIds, "owned");
+      },
+
+      setOwnershipForCards: (cardIds: string[], status: OwnershipStatus) => {
         const state = get();
         if (!state.activeSourceId) return;
 
         const sourceId = state.activeSourceId;
         const collection = getOrCreateCollection(state.collections, sourceId);
 
-        // Add all cardIds to owned, remove from wishlist
-        const ownedSet = new Set([...collection.ownedIds, ...cardIds]);
-        const wishlistIds = collection.wishlistIds.filter(
-          (id) => !cardIds.includes(id)
-        );
-
         set({
           collections: {
             ...state.collections,
-            [sourceId]: {
-              ownedIds: [...ownedSet],
-              wishlistIds,
-            },
+            [sourceId]: withStatus(collection, cardIds, status),
           },
         });
       },
@@ -239,7 +372,71 @@ export const useCollectionStore = create<CollectionStore>()(
         set({
           collections: {
             ...state.collections,
-            [state.activeSourceId]: { ownedIds: [], wishlistIds: [] },
+            [state.activeSourceId]: { records: {} },
+          },
+        });
+      },
+
+      // Goals
+      getGoals: (): CollectionGoal[] => {
+        const state = get();
+        if (!state.activeSourceId) return [];
+        return getSourceGoals(state.goals, state.activeSourceId);
+      },
+
+      addGoal: (name: string, query: string): CollectionGoal | null => {
+        const state = get();
+        if (!state.activeSourceId) return null;
+
+        const trimmedName = name.trim().slice(0, MAX_GOAL_NAME_LENGTH);
+        const trimmedQuery = query.trim();
+        if (!trimmedName || !trimmedQuery) return null;
+
+        const sourceId = state.activeSourceId;
+        const goals = getSourceGoals(state.goals, sourceId);
+        if (goals.length >= MAX_GOALS) return null;
+
+        const goal: CollectionGoal = {
+          id: generateGoalId(),
+          name: trimmedName,
+          query: trimmedQuery,
+        };
+
+        set({
+          goals: {
+            ...state.goals,
+            [sourceId]: [...goals, goal],
+          },
+        });
+        return goal;
+      },
+
+      removeGoal: (goalId: string) => {
+        const state = get();
+        if (!state.activeSourceId) return;
+
+        const sourceId = state.activeSourceId;
+        set({
+          goals: {
+            ...state.goals,
+            [sourceId]: getSourceGoals(state.goals, sourceId).filter((goal) => goal.id !== goalId),
+          },
+        });
+      },
+
+      setGoalCompleted: (goalId: string, completedAt: string | undefined) => {
+        const state = get();
+        if (!state.activeSourceId) return;
+
+        const sourceId = state.activeSourceId;
+        set({
+          goals: {
+            ...state.goals,
+            [sourceId]: getSourceGoals(state.goals, sourceId).map((goal) => {
+              if (goal.id !== goalId) return goal;
+              const { completedAt: _, ...rest } = goal;
+              return completedAt ? { ...rest, completedAt } : rest;
+            }),
           },
         });
       },
@@ -263,8 +460,8 @@ export const useCollectionStore = create<CollectionStore>()(
         );
 
         const total = state.allCardIds.length;
-        const owned = collection.ownedIds.length;
-        const wishlist = collection.wishlistIds.length;
+        const owned = idsWithStatus(collection, "owned").length;
+        const wishlist = idsWithStatus(collection, "wishlist").length;
         const remaining = total - owned - wishlist;
         const percentComplete = total > 0 ? Math.round((owned / total) * 100) : 0;
 
@@ -288,12 +485,18 @@ export const useCollectionStore = create<CollectionStore>()(
           state.activeSourceId
         );
 
+        const owned = idsWithStatus(collection, "owned");
+        const copies = new Map(
+          owned.map((cardId) => [cardId, getRecord(collection, cardId)?.copies ?? []])
+        );
+
         return {
           version: EXPORT_VERSION,
           sourceId: state.activeSourceId,
           exportedAt: new Date().toISOString(),
-          owned: [...collection.ownedIds],
-          wishlist: [...collection.wishlistIds],
+          owned,
+          wishlist: idsWithStatus(collection, "wishlist"),
+          copies: Object.fromEntries(copies),
         };
       },
 
@@ -304,34 +507,31 @@ export const useCollectionStore = create<CollectionStore>()(
         const sourceId = state.activeSourceId;
         const existing = getOrCreateCollection(state.collections, sourceId);
 
-        let ownedIds: string[];
-        let wishlistIds: string[];
-
-        if (mode === "replace") {
-          // Replace mode: use imported data directly
-          ownedIds = [...data.owned];
-          wishlistIds = [...data.wishlist];
-        } else {
-          // Merge mode: combine with existing data
-          const ownedSet = new Set([...existing.ownedIds, ...data.owned]);
-          const wishlistSet = new Set([
-            ...existing.wishlistIds,
-            ...data.wishlist,
-          ]);
-
-          // Remove items from wishlist if they're now owned
-          for (const id of data.owned) {
-            wishlistSet.delete(id);
+        // Replace mode starts empty; merge mode keeps existing records, and
+        // imported ownership wins over an existing wishlist entry
+        const base = mode === "replace" ? { records: {} } : existing;
+        const wishlistIds = data.wishlist.filter((id) => getRecord(base, id)?.status !== "owned");
+        let collection = withStatus(base, wishlistIds, "wishlist");
+        collection = withStatus(collection, data.owned, "owned");
+
+        // Imported copy details replace the existing ones (1.0 exports have none)
+        const importedCopies = data.copies;
+        if (importedCopies) {
+          const records = new Map(Object.entries(collection.records));
+          for (const cardId of data.owned) {
+            if (!Object.hasOwn(importedCopies, cardId)) continue;
+            const copies = normaliseCopies(importedCopies[cardId]);
+            if (copies.length > 0) {
+              records.set(cardId, { status: "owned", copies });
+            }
           }
-
-          ownedIds = [...ownedSet];
-          wishlistIds = [...wishlistSet];
+          collection = { records: Object.fromEntries(records) };
         }
 
         set({
           collections: {
             ...state.collections,
-            [sourceId]: { ownedIds, wishlistIds },
+            [sourceId]: collection,
           },
         });
       },
@@ -339,8 +539,17 @@ export const useCollectionStore = create<CollectionStore>()(
     {
       name: STORAGE_KEY,
       storage: createJSONStorage(() => localStorage),
+      version: STORAGE_VERSION,
+      migrate: (persistedState, version) => {
+        const persisted = (persistedState ?? {}) as Record<string, unknown>;
+        if (version < 1) {
+          return { ...persisted, collections: migrateCollections(persisted.collections) };
+        }
+        return persisted as Partial<CollectionStoreState>;
+      },
       partialize: (state) => ({
         collections: state.collections,
+        goals: state.goals,
         settings: state.settings,
       }),
     }
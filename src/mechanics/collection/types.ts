@@ -8,12 +8,100 @@
 /** Ownership status for a card */
 export type OwnershipStatus = "none" | "owned" | "wishlist";
 
+/** Condition grades for an owned copy, best first */
+export const CONDITION_GRADES = ["mint", "near-mint", "very-good", "good", "fair", "poor"] as const;
+
+/** Condition grade of an owned copy */
+export type ConditionGrade = (typeof CONDITION_GRADES)[number];
+
+/** Display labels for condition grades */
+export const CONDITION_LABELS: Record<ConditionGrade, string> = {
+  mint: "Mint",
+  "near-mint": "Near Mint",
+  "very-good": "Very Good",
+  good: "Good",
+  fair: "Fair",
+  poor: "Poor",
+};
+
+/** Maximum copies recorded per card */
+export const MAX_COPIES = 99;
+
+/** Maximum length of a copy's storage location */
+const MAX_LOCATION_LENGTH = 200;
+
+/** Maximum length of a copy's notes */
+const MAX_NOTES_LENGTH = 2000;
+
+/** Acquisition date format (YYYY-MM-DD) */
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Details of one owned copy of a card (all optional) */
+export interface OwnedCopy {
+  /** Condition grade */
+  condition?: ConditionGrade;
+  /** Whether the copy has its box */
+  boxed?: boolean;
+  /** Whether the copy has its manual */
+  manual?: boolean;
+  /** Price paid, in the collector's currency */
+  pricePaid?: number;
+  /** Acquisition date (YYYY-MM-DD) */
+  acquiredAt?: string;
+  /** Where the copy is stored */
+  location?: string;
+  /** Free-text notes */
+  notes?: string;
+}
+
+/** Ownership record for one card */
+export interface OwnershipRecord {
+  /** Whether the card is owned or wishlisted */
+  status: "owned" | "wishlist";
+  /** Owned copies, one entry per copy (empty when wishlisted) */
+  copies: OwnedCopy[];
+}
+
 /** Collection state per source */
 export interface CollectionState {
-  /** Card IDs marked as owned */
-  ownedIds: Set<string>;
-  /** Card IDs on wishlist */
-  wishlistIds: Set<string>;
+  /** Ownership records by card ID; cards without one are not collected */
+  records: Record<string, OwnershipRecord>;
+}
+
+/**
+ * Copy details from untrusted data (persisted or imported), keeping only
+ * well-formed fields.
+ *
+ * @param value - Candidate copy details
+ * @returns Valid copy details
+ *
+ * @example
+ * ```ts
+ * normaliseCopy({ condition: "mint", pricePaid: -5 }); // { condition: "mint" }
+ * ```
+ */
+export function normaliseCopy(value: unknown): OwnedCopy {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  const raw = value as Record<string, unknown>;
+  const copy: OwnedCopy = {};
+
+  const condition = CONDITION_GRADES.find((grade) => grade === raw.condition);
+  if (condition) copy.condition = condition;
+  if (typeof raw.boxed === "boolean") copy.boxed = raw.boxed;
+  if (typeof raw.manual === "boolean") copy.manual = raw.manual;
+  if (typeof raw.pricePaid === "number" && Number.isFinite(raw.pricePaid) && raw.pricePaid >= 0) {
+    copy.pricePaid = raw.pricePaid;
+  }
+  if (typeof raw.acquiredAt === "string" && ISO_DATE.test(raw.acquiredAt)) {
+    copy.acquiredAt = raw.acquiredAt;
+  }
+  if (typeof raw.location === "string" && raw.location.trim()) {
+    copy.location = raw.location.trim().slice(0, MAX_LOCATION_LENGTH);
+  }
+  if (typeof raw.notes === "string" && raw.notes.trim()) {
+    copy.notes = raw.notes.trim().slice(0, MAX_NOTES_LENGTH);
+  }
+  return copy;
 }
 
 /** Collection mechanic settings */
@@ -50,13 +138,51 @@ export interface CollectionStats {
   percentComplete: number;
 }
 
-/** Export format version */
-export const EXPORT_VERSION = "1.0" as const;
+/** Maximum goals per source */
+export const MAX_GOALS = 20;
+
+/** Maximum length of a goal name */
+export const MAX_GOAL_NAME_LENGTH = 80;
+
+/**
+ * User-defined collection goal: the sub-collection of cards matching a
+ * search query (for example `platform:SNES genre:RPG`).
+ */
+export interface CollectionGoal {
+  /** Unique goal identifier */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Search query selecting the goal's cards */
+  query: string;
+  /** ISO timestamp the goal was last completed (cleared if it regresses) */
+  completedAt?: string;
+}
+
+/** Progress towards a collection goal */
+export interface GoalProgress {
+  /** Cards matching the goal's query */
+  total: number;
+  /** Matching cards that are owned */
+  owned: number;
+  /** Percentage of matching cards owned (0-100) */
+  percentComplete: number;
+  /** IDs of matching cards not yet owned, in card order */
+  missingIds: string[];
+  /** Whether every matching card is owned (false for an empty goal) */
+  isComplete: boolean;
+}
+
+/** Export format version (2.0 added owned copy details) */
+export const EXPORT_VERSION = "2.0" as const;
+
+/** Export versions that can be imported */
+export const SUPPORTED_EXPORT_VERSIONS = ["1.0", EXPORT_VERSION] as const;
 
 /** Export format for collection data */
 export interface CollectionExport {
   /** Format version */
-  version: typeof EXPORT_VERSION;
+  version: (typeof SUPPORTED_EXPORT_VERSIONS)[number];
   /** Source identifier for this collection */
   sourceId: string;
   /** ISO timestamp of export */
@@ -65,6 +191,8 @@ export interface CollectionExport {
   owned: string[];
   /** Array of wishlisted card IDs */
   wishlist: string[];
+  /** Owned copies by card ID (absent in 1.0 exports) */
+  copies?: Record<string, OwnedCopy[]>;
 }
 
 /** Import mode for collection data */
@@ -80,7 +208,7 @@ export function isValidCollectionExport(data: unknown): data is CollectionExport
   const obj = data as Record<string, unknown>;
 
   // Check required fields
-  if (obj.version !== EXPORT_VERSION) return false;
+  if (!SUPPORTED_EXPORT_VERSIONS.some((version) => version === obj.version)) return false;
   if (typeof obj.sourceId !== "string") return false;
   if (typeof obj.exportedAt !== "string") return false;
   if (!Array.isArray(obj.owned)) return false;
@@ -90,5 +218,11 @@ export function isValidCollectionExport(data: unknown): data is CollectionExport
   if (!obj.owned.every((id) => typeof id === "string")) return false;
   if (!obj.wishlist.every((id) => typeof id === "string")) return false;
 
+  // Copy details are optional; each card maps to a list of copies
+  if (obj.copies !== undefined) {
+    if (!obj.copies || typeof obj.copies !== "object" || Array.isArray(obj.copies)) return false;
+    if (!Object.values(obj.copies).every((copies) => Array.isArray(copies))) return false;
+  }
+
   return true;
 }
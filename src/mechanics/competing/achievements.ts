@@ -0,0 +1,77 @@
+/**
+ * Competing (Top Trumps) achievements.
+ *
+ * Events are derived from store transitions: "game-complete" fires when the
+ * game reaches its game-over phase.
+ */
+
+import type { AchievementDefinition, MechanicEvent } from "../types";
+import type { CompetingState } from "./types";
+
+/**
+ * Achievements awarded by the Competing game.
+ */
+export const COMPETING_ACHIEVEMENTS: AchievementDefinition[] = [
+  {
+    id: "first-win",
+    name: "Top Trump",
+    description: "Win a game of Competing",
+    event: "game-complete",
+    criteria: [{ field: "winner", equals: "player" }],
+  },
+  {
+    id: "beat-hard",
+    name: "Outsmarted",
+    description: "Beat the Hard AI in Competing",
+    event: "game-complete",
+    criteria: [
+      { field: "winner", equals: "player" },
+      { field: "difficulty", equals: "hard" },
+    ],
+  },
+  {
+    id: "whitewash",
+    name: "Whitewash",
+    description: "Win a game of Competing without losing a round",
+    event: "game-complete",
+    criteria: [
+      { field: "winner", equals: "player" },
+      { field: "roundsLost", max: 0 },
+    ],
+  },
+];
+
+/**
+ * Events for a Competing store transition.
+ *
+ * @param state - New store state
+ * @param previous - Store state before the change
+ * @param winner - Winner of the game in the new state
+ * @returns Events to emit (empty for most transitions)
+ *
+ * @example
+ * ```ts
+ * useCompetingStore.subscribe((state, previous) => {
+ *   getCompetingEvents(state, previous, state.getWinner()).forEach(listener);
+ * });
+ * ```
+ */
+export function getCompetingEvents(
+  state: CompetingState,
+  previous: CompetingState,
+  winner: "player" | "cpu" | "draw" | null
+): MechanicEvent[] {
+  if (state.phase !== "game_over" || previous.phase === "game_over" || !winner) return [];
+
+  return [
+    {
+      type: "game-complete",
+      data: {
+        winner,
+        difficulty: state.difficulty,
+        roundsWon: state.roundsWon.player,
+        roundsLost: state.roundsWon.cpu,
+      },
+    },
+  ];
+}
@@ -9,7 +9,7 @@ import { useEffect, useCallback, useState } from "react";
 import { useCompetingStore } from "./store";
 import { useCollectionData } from "@/context/CollectionDataContext";
 import { ErrorOverlay, GameCompletionModal } from "../shared";
-import { useMechanicActions, formatTime } from "../shared";
+import { useMechanicActions, useGameResult, formatTime } from "../shared";
 import { detectNumericFields, getCardValue } from "./utils";
 import { humaniseFieldName } from "./utils/numericFields";
 import type { GridOverlayProps } from "../types";
@@ -411,9 +411,23 @@ function GameOverModal() {
   const gameStartedAt = useCompetingStore((s) => s.gameStartedAt);
   const gameEndedAt = useCompetingStore((s) => s.gameEndedAt);
   const resetGame = useCompetingStore((s) => s.resetGame);
+  const difficulty = useCompetingStore((s) => s.difficulty);
 
   const { handleExit } = useMechanicActions();
 
+  // Scored by rounds won against the CPU
+  const personalBest = useGameResult(
+    phase === "game_over" && gameEndedAt
+      ? {
+          mechanicId: "competing",
+          settings: { difficulty },
+          score: roundsWon.player,
+          durationMs: gameStartedAt ? gameEndedAt - gameStartedAt : 0,
+          completedAt: gameEndedAt,
+        }
+      : null
+  );
+
   const handlePlayAgain = useCallback(() => {
     resetGame();
   }, [resetGame]);
@@ -445,6 +459,7 @@ function GameOverModal() {
       ]}
       primaryAction={{ label: "Play Again", onClick: handlePlayAgain }}
       onExit={handleExit}
+      personalBest={personalBest ?? undefined}
     />
   );
 }
@@ -543,7 +558,7 @@ function BattleOverlayContent() {
  * Grid overlay component - entry point for the mechanic.
  */
 export function CompetingGridOverlay({ position }: GridOverlayProps) {
-  const { cards } = useCollectionData();
+  const { cards, computedFields } = useCollectionData();
   const isActive = useCompetingStore((s) => s.isActive);
   const phase = useCompetingStore((s) => s.phase);
   const initGame = useCompetingStore((s) => s.initGame);
@@ -555,8 +570,10 @@ export function CompetingGridOverlay({ position }: GridOverlayProps) {
     // Check for empty cards array
     if (cards.length === 0) return;
 
+    // Computed fields are authored stats, so offer them ahead of the rest
     const numericFields = detectNumericFields(
-      cards as unknown as Record<string, unknown>[]
+      cards as unknown as Record<string, unknown>[],
+      computedFields
     );
 
     initGame({
@@ -564,7 +581,7 @@ export function CompetingGridOverlay({ position }: GridOverlayProps) {
       idField: "id",
       numericFields,
     });
-  }, [isActive, phase, cards, initGame]);
+  }, [isActive, phase, cards, computedFields, initGame]);
 
   useEffect(() => {
     if (isActive && phase === "cpu_select" && currentTurn === "cpu") {
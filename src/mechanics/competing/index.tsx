@@ -8,9 +8,10 @@
 import { useCompetingStore } from "./store";
 import { CompetingGridOverlay } from "./components";
 import { CompetingSettingsPanel } from "./Settings";
-import { DEFAULT_SETTINGS } from "./types";
+import { COMPETING_ACHIEVEMENTS, getCompetingEvents } from "./achievements";
+import { DEFAULT_SETTINGS, DIFFICULTY_DESCRIPTIONS, ROUND_LIMIT_OPTIONS } from "./types";
 import type { Mechanic, CardActions } from "../types";
-import type { CompetingSettings } from "./types";
+import type { CompetingSettings, Difficulty, RoundLimitOption } from "./types";
 
 /**
  * Competing (Top Trumps) icon - crossed swords.
@@ -97,6 +98,7 @@ export const competingMechanic: Mechanic<CompetingSettings> = {
       roundLimit: state.roundLimit,
       showCpuThinking: state.showCpuThinking,
       autoAdvance: state.autoAdvance,
+      seed: state.seed,
     };
   },
 
@@ -114,6 +116,35 @@ export const competingMechanic: Mechanic<CompetingSettings> = {
     if (settings.autoAdvance !== undefined) {
       store.setAutoAdvance(settings.autoAdvance);
     }
+    if (settings.seed !== undefined) {
+      store.setSeed(settings.seed);
+    }
+  },
+
+  parseSettings: (value) => {
+    const settings: Partial<CompetingSettings> = {};
+    const { difficulty, roundLimit, showCpuThinking, autoAdvance } = value;
+    if (typeof difficulty === "string" && Object.hasOwn(DIFFICULTY_DESCRIPTIONS, difficulty)) {
+      settings.difficulty = difficulty as Difficulty;
+    }
+    if (ROUND_LIMIT_OPTIONS.includes(roundLimit as RoundLimitOption)) {
+      settings.roundLimit = roundLimit as RoundLimitOption;
+    }
+    if (typeof showCpuThinking === "boolean") {
+      settings.showCpuThinking = showCpuThinking;
+    }
+    if (typeof autoAdvance === "boolean") {
+      settings.autoAdvance = autoAdvance;
+    }
+    return settings;
+  },
+
+  achievements: COMPETING_ACHIEVEMENTS,
+
+  subscribeEvents: (listener) => {
+    return useCompetingStore.subscribe((state, previous) => {
+      getCompetingEvents(state, previous, state.getWinner()).forEach(listener);
+    });
   },
 };
 
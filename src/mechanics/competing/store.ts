@@ -5,7 +5,8 @@
  */
 
 import { create } from "zustand";
-import { shuffle } from "@/utils/shuffle";
+import { shuffle, type RandomSource } from "@/utils/shuffle";
+import { createGameRandom, inSeedOrder } from "../shared/utils";
 import type {
   CompetingState,
   CompetingSettings,
@@ -47,6 +48,32 @@ function registerTimeout(id: ReturnType<typeof setTimeout>): void {
   pendingTimeouts.push(id);
 }
 
+/**
+ * Random source for the current game - seeded games keep drawing from it
+ * when won cards are shuffled back into a deck, so the whole game replays.
+ */
+let deckRandom: RandomSource = Math.random;
+
+/**
+ * Shuffle the cards and split them between the player and the CPU.
+ * An odd card out starts the tie pile.
+ */
+function dealDecks(
+  cardIds: string[],
+  seed: number | null
+): { playerDeck: string[]; cpuDeck: string[]; tiePile: string[] } {
+  deckRandom = createGameRandom(seed);
+  const ordered = seed === null ? cardIds : inSeedOrder(cardIds, (id) => id);
+  const shuffled = shuffle(ordered, deckRandom);
+
+  const midpoint = Math.floor(shuffled.length / 2);
+  return {
+    playerDeck: shuffled.slice(0, midpoint),
+    cpuDeck: shuffled.slice(midpoint, midpoint * 2),
+    tiePile: shuffled.length % 2 !== 0 ? shuffled.slice(-1) : [],
+  };
+}
+
 /**
  * Extended store state with actions.
  */
@@ -70,6 +97,7 @@ interface CompetingStore extends CompetingState, CompetingSettings {
   setRoundLimit: (limit: RoundLimitOption) => void;
   setShowCpuThinking: (show: boolean) => void;
   setAutoAdvance: (auto: boolean) => void;
+  setSeed: (seed: number | null) => void;
 
   // Queries
   getWinner: () => "player" | "cpu" | "draw" | null;
@@ -132,22 +160,14 @@ export const useCompetingStore = create<CompetingStore>((set, get) => ({
       roundLimit,
       showCpuThinking,
       autoAdvance,
+      seed,
     } = get();
 
     // Reset pattern tracker for new game
     resetPatternTracker();
 
-    // Get all card IDs and shuffle
-    const cardIds = Object.keys(cardData);
-    const shuffled = shuffle(cardIds);
-
-    // Deal cards evenly
-    const midpoint = Math.floor(shuffled.length / 2);
-    const playerDeck = shuffled.slice(0, midpoint);
-    const cpuDeck = shuffled.slice(midpoint, midpoint * 2);
-
-    // Odd card goes to tie pile
-    const tiePile = shuffled.length % 2 !== 0 ? shuffled.slice(-1) : [];
+    // Shuffle and deal cards evenly
+    const { playerDeck, cpuDeck, tiePile } = dealDecks(Object.keys(cardData), seed);
 
     // Draw first cards
     const playerCard = playerDeck.shift() ?? null;
@@ -252,13 +272,7 @@ export const useCompetingStore = create<CompetingStore>((set, get) => ({
     resetPatternTracker();
 
     // Shuffle and deal
-    const cardIds = Object.keys(cardData);
-    const shuffled = shuffle(cardIds);
-
-    const midpoint = Math.floor(shuffled.length / 2);
-    const playerDeck = shuffled.slice(0, midpoint);
-    const cpuDeck = shuffled.slice(midpoint, midpoint * 2);
-    const tiePile = shuffled.length % 2 !== 0 ? shuffled.slice(-1) : [];
+    const { playerDeck, cpuDeck, tiePile } = dealDecks(Object.keys(cardData), state.seed);
 
     // Draw first cards
     const playerCard = playerDeck.shift() ?? null;
@@ -418,13 +432,13 @@ export const useCompetingStore = create<CompetingStore>((set, get) => ({
 
     if (winner === "player") {
       // Player wins - add cards to bottom of player deck
-      playerDeck.push(...shuffle(allWonCards));
+      playerDeck.push(...shuffle(allWonCards, deckRandom));
       tiePile = [];
       roundsWon.player++;
       cardsWon.player += allWonCards.length;
     } else if (winner === "cpu") {
       // CPU wins - add cards to bottom of CPU deck
-      cpuDeck.push(...shuffle(allWonCards));
+      cpuDeck.push(...shuffle(allWonCards, deckRandom));
       tiePile = [];
       roundsWon.cpu++;
       cardsWon.cpu += allWonCards.length;
@@ -542,6 +556,10 @@ export const useCompetingStore = create<CompetingStore>((set, get) => ({
     set({ autoAdvance: auto });
   },
 
+  setSeed: (seed: number | null) => {
+    set({ seed });
+  },
+
   // Queries
   getWinner: () => {
     const state = get();
@@ -199,6 +199,8 @@ export interface CompetingSettings {
   showCpuThinking: boolean;
   /** Auto-advance to next round */
   autoAdvance: boolean;
+  /** Seed for a reproducible deck split (null deals randomly) */
+  seed: number | null;
 }
 
 /**
@@ -209,6 +211,7 @@ export const DEFAULT_SETTINGS: CompetingSettings = {
   roundLimit: 0,
   showCpuThinking: true,
   autoAdvance: true,
+  seed: null,
 };
 
 /**
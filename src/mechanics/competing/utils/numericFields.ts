@@ -126,12 +126,6 @@ export function getCardValue(card: CardData, fieldKey: string): number | null {
   return parseNumericValue(value);
 }
 
-/**
- * Detect numeric fields in a collection of cards.
- *
- * @param cards - Array of card data objects
- * @returns Array of detected numeric field information, sorted by variance
- */
 /**
  * Per-field running statistics accumulated during detection.
  */
@@ -143,7 +137,18 @@ interface FieldStats {
   hasVariance: boolean;
 }
 
-export function detectNumericFields(cards: CardData[]): NumericFieldInfo[] {
+/**
+ * Detect numeric fields in a collection of cards.
+ *
+ * @param cards - Array of card data objects
+ * @param preferredKeys - Fields to rank ahead of the rest (e.g. computed
+ *   fields the collection declares), so the display cap cannot drop them
+ * @returns Array of detected numeric field information, sorted by variance
+ */
+export function detectNumericFields(
+  cards: CardData[],
+  preferredKeys: readonly string[] = []
+): NumericFieldInfo[] {
   if (cards.length === 0) {
     return [];
   }
@@ -210,8 +215,15 @@ export function detectNumericFields(cards: CardData[]): NumericFieldInfo[] {
     });
   }
 
-  // Sort by variance (range) to put more interesting stats first
+  // Sort by variance (range) to put more interesting stats first, keeping
+  // preferred fields ahead of detected ones
+  const preferred = new Set(preferredKeys);
   numericFields.sort((a, b) => {
+    const preferenceA = preferred.has(a.key) ? 0 : 1;
+    const preferenceB = preferred.has(b.key) ? 0 : 1;
+    if (preferenceA !== preferenceB) {
+      return preferenceA - preferenceB;
+    }
     const rangeA = a.max - a.min;
     const rangeB = b.max - b.min;
     return rangeB - rangeA;
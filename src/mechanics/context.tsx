@@ -10,11 +10,13 @@ import {
   useContext,
   useState,
   useEffect,
+  useLayoutEffect,
   useCallback,
   useMemo,
   type ReactNode,
 } from "react";
 import { useSettingsStore } from "@/stores/settingsStore";
+import { useAchievementsStore } from "@/stores/achievementsStore";
 import { mechanicRegistry } from "./registry";
 import type { Mechanic, MechanicState, CardActions } from "./types";
 
@@ -89,6 +91,19 @@ export function MechanicProvider({ children, onOpenMechanicPanel }: MechanicProv
     });
   }, [mechanic]);
 
+  // Check the active mechanic's events against its achievements. A layout
+  // effect, so the subscription exists before the mechanic's overlays run
+  // their effects and emit
+  useLayoutEffect(() => {
+    if (!mechanic?.subscribeEvents) return;
+
+    const mechanicId = mechanic.manifest.id;
+    const definitions = mechanic.achievements ?? [];
+    return mechanic.subscribeEvents((event) => {
+      useAchievementsStore.getState().recordEvent(mechanicId, definitions, event);
+    });
+  }, [mechanic]);
+
   // Sync with settings store - only handle deactivation
   // Activation is handled explicitly by activateMechanic()
   // We don't auto-activate from persisted state to prevent stale game state
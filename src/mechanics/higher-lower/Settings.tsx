@@ -0,0 +1,104 @@
+/**
+ * Settings panel for Higher or Lower mechanic.
+ */
+
+import { useMemo } from "react";
+import { useCollectionData } from "@/context/CollectionDataContext";
+import { detectNumericFields } from "../competing/utils";
+import type { MechanicSettingsProps } from "../types";
+import type { HigherLowerSettings, TargetOption } from "./types";
+import { LIVES_OPTIONS, TARGET_OPTIONS, getTargetLabel } from "./types";
+import styles from "./HigherLower.module.css";
+
+/**
+ * Higher or Lower settings panel.
+ */
+export function HigherLowerSettingsPanel({
+  settings,
+  onChange,
+  disabled,
+}: MechanicSettingsProps<HigherLowerSettings>) {
+  const { cards, computedFields } = useCollectionData();
+
+  // Stats the player can pick from this collection
+  const fields = useMemo(
+    () => detectNumericFields(cards as unknown as Record<string, unknown>[], computedFields),
+    [cards, computedFields]
+  );
+
+  return (
+    <div className={styles.settingsContainer}>
+      {/* Stat selector */}
+      <div className={styles.settingGroup}>
+        <label className={styles.settingLabel}>
+          Stat
+          <select
+            className={styles.select}
+            value={settings.stat ?? ""}
+            onChange={(e) => { onChange({ stat: e.target.value || null }); }}
+            disabled={disabled}
+            style={{ marginLeft: "0.5rem" }}
+          >
+            <option value="">Random each round</option>
+            {fields.map((field) => (
+              <option key={field.key} value={field.key}>
+                {field.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <span className={styles.settingDescription}>
+          {settings.stat === null
+            ? "Each round compares a different stat."
+            : "Every round compares the same stat."}
+        </span>
+      </div>
+
+      {/* Lives */}
+      <div className={styles.settingGroup}>
+        <span className={styles.settingLabel}>Lives</span>
+        <div className={styles.options}>
+          {LIVES_OPTIONS.map((lives) => (
+            <button
+              key={lives}
+              type="button"
+              className={`${styles.option ?? ""} ${settings.lives === lives ? (styles.selected ?? "") : ""}`}
+              onClick={() => { onChange({ lives }); }}
+              disabled={disabled}
+            >
+              {lives}
+            </button>
+          ))}
+        </div>
+        <span className={styles.settingDescription}>
+          Each wrong guess costs a life. Equal values count as correct.
+        </span>
+      </div>
+
+      {/* Speed run target */}
+      <div className={styles.settingGroup}>
+        <label className={styles.settingLabel}>
+          Game Mode
+          <select
+            className={styles.select}
+            value={settings.target}
+            onChange={(e) => { onChange({ target: Number(e.target.value) as TargetOption }); }}
+            disabled={disabled}
+            style={{ marginLeft: "0.5rem" }}
+          >
+            {TARGET_OPTIONS.map((target) => (
+              <option key={target} value={target}>
+                {getTargetLabel(target)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <span className={styles.settingDescription}>
+          {settings.target === 0
+            ? "Keep going until you run out of lives or cards."
+            : `Reach ${String(settings.target)} correct guesses as fast as you can.`}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+/**
+ * Higher or Lower achievements.
+ *
+ * Events are derived from store transitions: "guess" fires for each guess
+ * and "game-complete" when the game ends.
+ */
+
+import type { AchievementDefinition, MechanicEvent } from "../types";
+import type { HigherLowerSettings, HigherLowerState } from "./types";
+
+/**
+ * Achievements awarded by Higher or Lower.
+ */
+export const HIGHER_LOWER_ACHIEVEMENTS: AchievementDefinition[] = [
+  {
+    id: "first-game",
+    name: "Fair Guess",
+    description: "Finish a game of Higher or Lower",
+    event: "game-complete",
+    criteria: [],
+  },
+  {
+    id: "streak-15",
+    name: "Hot Streak",
+    description: "Guess 15 cards in a row correctly in Higher or Lower",
+    event: "guess",
+    criteria: [{ field: "streak", min: 15 }],
+  },
+  {
+    id: "speed-run",
+    name: "Speed Runner",
+    description: "Finish a Race to 20 or longer in Higher or Lower",
+    event: "game-complete",
+    criteria: [
+      { field: "target", min: 20 },
+      { field: "reachedTarget", equals: true },
+    ],
+  },
+];
+
+/**
+ * Events for a Higher or Lower store transition.
+ *
+ * @param state - New store state
+ * @param previous - Store state before the change
+ * @returns Events to emit (empty for most transitions)
+ *
+ * @example
+ * ```ts
+ * useHigherLowerStore.subscribe((state, previous) => {
+ *   getHigherLowerEvents(state, previous).forEach(listener);
+ * });
+ * ```
+ */
+export function getHigherLowerEvents(
+  state: HigherLowerState & HigherLowerSettings,
+  previous: HigherLowerState
+): MechanicEvent[] {
+  const events: MechanicEvent[] = [];
+
+  if (state.lastResult && state.lastResult !== previous.lastResult) {
+    events.push({
+      type: "guess",
+      data: { correct: state.lastResult.correct, streak: state.streak },
+    });
+  }
+
+  if (state.phase === "game_over" && previous.phase !== "game_over") {
+    events.push({
+      type: "game-complete",
+      data: {
+        score: state.score,
+        bestStreak: state.bestStreak,
+        target: state.target,
+        reachedTarget: state.target > 0 && state.score >= state.target,
+      },
+    });
+  }
+
+  return events;
+}
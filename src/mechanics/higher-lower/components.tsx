@@ -0,0 +1,346 @@
+/**
+ * Higher or Lower mechanic components.
+ *
+ * Full-screen overlay showing the current card and the face-down next
+ * card. Uses shared components for timer, error overlay and completion modal.
+ */
+
+import { useEffect, useCallback } from "react";
+import { useHigherLowerStore } from "./store";
+import { useCollectionData } from "@/context/CollectionDataContext";
+import { ErrorOverlay, FloatingTimer, GameCompletionModal } from "../shared";
+import { useMechanicActions, useGameResult, useGameTimer, formatTime } from "../shared";
+import { createSafeRecord } from "@/utils/safeRecord";
+import { detectNumericFields, getCardValue } from "../competing/utils";
+import type { GridOverlayProps } from "../types";
+import type { HigherLowerCard } from "./types";
+import styles from "./HigherLower.module.css";
+
+/**
+ * Delay before the next round after a reveal.
+ */
+const REVEAL_DURATION_MS = 1200;
+
+/**
+ * Format a stat value for display.
+ */
+function formatValue(value: number | undefined): string {
+  return value === undefined ? "—" : value.toLocaleString();
+}
+
+/**
+ * A card with the round's stat.
+ */
+function StatCard({
+  cardId,
+  label,
+  hidden,
+  result,
+}: {
+  cardId: string | null;
+  label: string;
+  hidden: boolean;
+  result?: "correct" | "wrong";
+}) {
+  const card = useHigherLowerStore((s) => (cardId ? s.cards[cardId] : undefined));
+  const roundStat = useHigherLowerStore((s) => s.roundStat);
+
+  if (!card) return null;
+
+  const value = roundStat === null ? undefined : card.values[roundStat];
+  const className = [styles.statCard, result ? styles[result] : ""].filter(Boolean).join(" ");
+
+  return (
+    <div className={className}>
+      <span className={styles.cardLabel}>{label}</span>
+      {card.imageUrl ? (
+        <img className={styles.cardImage} src={card.imageUrl} alt={card.title} />
+      ) : (
+        <div className={styles.cardImage} />
+      )}
+      <span className={styles.cardTitle}>{card.title}</span>
+      <span className={styles.cardValue}>{hidden ? "?" : formatValue(value)}</span>
+    </div>
+  );
+}
+
+/**
+ * Guess buttons, or the result of the last guess.
+ */
+function ActionBar() {
+  const phase = useHigherLowerStore((s) => s.phase);
+  const lastResult = useHigherLowerStore((s) => s.lastResult);
+  const guess = useHigherLowerStore((s) => s.guess);
+  const nextRound = useHigherLowerStore((s) => s.nextRound);
+
+  if (phase === "guessing") {
+    return (
+      <div className={styles.actionBar}>
+        <button
+          type="button"
+          className={styles.guessButton}
+          onClick={() => { guess("higher"); }}
+        >
+          ↑ Higher
+        </button>
+        <button
+          type="button"
+          className={styles.guessButton}
+          onClick={() => { guess("lower"); }}
+        >
+          ↓ Lower
+        </button>
+      </div>
+    );
+  }
+
+  if (phase === "reveal" && lastResult) {
+    return (
+      <div className={styles.actionBar}>
+        <span
+          className={[styles.resultText, lastResult.correct ? styles.correct : styles.wrong].join(" ")}
+          role="status"
+        >
+          {lastResult.correct ? "Correct!" : "Wrong!"}
+        </span>
+        <button type="button" className={styles.nextButton} onClick={nextRound}>
+          Next
+        </button>
+      </div>
+    );
+  }
+
+  return <div className={styles.actionBar} />;
+}
+
+/**
+ * Speed-run timer.
+ */
+function HigherLowerTimer() {
+  const phase = useHigherLowerStore((s) => s.phase);
+  const score = useHigherLowerStore((s) => s.score);
+  const target = useHigherLowerStore((s) => s.target);
+  const gameStartedAt = useHigherLowerStore((s) => s.gameStartedAt);
+  const gameEndedAt = useHigherLowerStore((s) => s.gameEndedAt);
+
+  const isPlaying = phase === "guessing" || phase === "reveal";
+  const { elapsedMs } = useGameTimer({
+    isRunning: isPlaying && gameEndedAt === null,
+    startTime: gameStartedAt > 0 ? gameStartedAt : null,
+    endTime: gameEndedAt,
+  });
+
+  return (
+    <FloatingTimer
+      timeMs={elapsedMs}
+      progressLabel={target > 0 ? `${String(score)}/${String(target)}` : undefined}
+      visible={isPlaying}
+    />
+  );
+}
+
+/**
+ * Game over modal using shared GameCompletionModal.
+ */
+function GameOverModal() {
+  const phase = useHigherLowerStore((s) => s.phase);
+  const score = useHigherLowerStore((s) => s.score);
+  const bestStreak = useHigherLowerStore((s) => s.bestStreak);
+  const lives = useHigherLowerStore((s) => s.lives);
+  const livesLeft = useHigherLowerStore((s) => s.livesLeft);
+  const target = useHigherLowerStore((s) => s.target);
+  const gameStartedAt = useHigherLowerStore((s) => s.gameStartedAt);
+  const gameEndedAt = useHigherLowerStore((s) => s.gameEndedAt);
+  const resetGame = useHigherLowerStore((s) => s.resetGame);
+
+  const { handleExit } = useMechanicActions();
+
+  const totalTime = gameEndedAt && gameStartedAt ? gameEndedAt - gameStartedAt : 0;
+
+  // Scored by correct guesses; faster times break ties, which ranks speed runs
+  const personalBest = useGameResult(
+    phase === "game_over" && gameEndedAt
+      ? {
+          mechanicId: "higher-lower",
+          settings: { lives, target },
+          score,
+          maxScore: target > 0 ? target : undefined,
+          durationMs: totalTime,
+          completedAt: gameEndedAt,
+        }
+      : null
+  );
+
+  const handlePlayAgain = useCallback(() => {
+    resetGame();
+  }, [resetGame]);
+
+  if (phase !== "game_over") return null;
+
+  const reachedTarget = target > 0 && score >= target;
+  let subtitle = `You ran out of cards with ${String(score)} correct.`;
+  if (reachedTarget) {
+    subtitle = `${String(target)} correct in ${formatTime(totalTime)}.`;
+  } else if (livesLeft <= 0) {
+    subtitle = `Out of lives with ${String(score)} correct.`;
+  }
+
+  return (
+    <GameCompletionModal
+      isOpen={true}
+      title={reachedTarget ? "Speed Run Complete!" : "Game Over"}
+      subtitle={subtitle}
+      stats={[
+        { label: "Correct", value: score },
+        { label: "Best Streak", value: bestStreak },
+        { label: "Time", value: formatTime(totalTime) },
+      ]}
+      primaryAction={{ label: "Play Again", onClick: handlePlayAgain }}
+      onExit={handleExit}
+      personalBest={personalBest ?? undefined}
+    />
+  );
+}
+
+/**
+ * Higher or Lower error overlay using shared component.
+ */
+function HigherLowerErrorOverlay() {
+  const errorMessage = useHigherLowerStore((s) => s.errorMessage);
+  const isActive = useHigherLowerStore((s) => s.isActive);
+  const { handleExit } = useMechanicActions();
+
+  return (
+    <ErrorOverlay
+      title="Cannot Play"
+      message={errorMessage ?? ""}
+      hint="This game requires cards with numeric fields to compare."
+      onExit={handleExit}
+      visible={!!errorMessage && isActive}
+    />
+  );
+}
+
+/**
+ * Main game overlay component.
+ */
+function HigherLowerOverlayContent() {
+  const isActive = useHigherLowerStore((s) => s.isActive);
+  const phase = useHigherLowerStore((s) => s.phase);
+  const currentCardId = useHigherLowerStore((s) => s.currentCardId);
+  const nextCardId = useHigherLowerStore((s) => s.nextCardId);
+  const lastResult = useHigherLowerStore((s) => s.lastResult);
+  const score = useHigherLowerStore((s) => s.score);
+  const streak = useHigherLowerStore((s) => s.streak);
+  const livesLeft = useHigherLowerStore((s) => s.livesLeft);
+  const errorMessage = useHigherLowerStore((s) => s.errorMessage);
+  const roundField = useHigherLowerStore((s) => s.getRoundField());
+  const guess = useHigherLowerStore((s) => s.guess);
+  const nextRound = useHigherLowerStore((s) => s.nextRound);
+  const { handleExit } = useMechanicActions();
+
+  // Move on after the reveal
+  useEffect(() => {
+    if (phase !== "reveal") return;
+    const timeout = setTimeout(() => { nextRound(); }, REVEAL_DURATION_MS);
+    return () => { clearTimeout(timeout); };
+  }, [phase, nextRound]);
+
+  // Arrow keys guess, Enter skips the reveal
+  useEffect(() => {
+    if (!isActive) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (phase === "guessing" && (e.key === "ArrowUp" || e.key === "ArrowDown")) {
+        e.preventDefault();
+        guess(e.key === "ArrowUp" ? "higher" : "lower");
+      } else if (phase === "reveal" && e.key === "Enter") {
+        e.preventDefault();
+        nextRound();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => { window.removeEventListener("keydown", handleKeyDown); };
+  }, [isActive, phase, guess, nextRound]);
+
+  if (!isActive) return null;
+  if (errorMessage) return <HigherLowerErrorOverlay />;
+  if (phase === "setup") return null;
+
+  const isRevealed = phase === "reveal" || phase === "game_over";
+  const nextResult = isRevealed && lastResult ? (lastResult.correct ? "correct" : "wrong") : undefined;
+
+  return (
+    <div className={styles.overlay}>
+      <div className={styles.header}>
+        <button
+          type="button"
+          className={styles.exitButton}
+          onClick={handleExit}
+          aria-label="Exit Higher or Lower"
+        >
+          Exit
+        </button>
+        <div className={styles.headerStats}>
+          <span>Score: {score}</span>
+          <span>Streak: {streak}</span>
+          <span className={styles.lives} aria-label={`${String(livesLeft)} lives left`}>
+            {"♥".repeat(Math.max(0, livesLeft))}
+          </span>
+        </div>
+      </div>
+
+      <div className={styles.arena}>
+        <p className={styles.question}>
+          Is the next card&apos;s <strong>{roundField?.label ?? "value"}</strong> higher or lower?
+        </p>
+        <div className={styles.cards}>
+          <StatCard cardId={currentCardId} label="Current" hidden={false} />
+          <StatCard cardId={nextCardId} label="Next" hidden={!isRevealed} result={nextResult} />
+        </div>
+      </div>
+
+      <ActionBar />
+      <HigherLowerTimer />
+      <GameOverModal />
+    </div>
+  );
+}
+
+/**
+ * Grid overlay component - entry point for the mechanic.
+ */
+export function HigherLowerGridOverlay({ position }: GridOverlayProps) {
+  const { cards, computedFields } = useCollectionData();
+  const isActive = useHigherLowerStore((s) => s.isActive);
+  const phase = useHigherLowerStore((s) => s.phase);
+  const startGame = useHigherLowerStore((s) => s.startGame);
+
+  useEffect(() => {
+    if (!isActive || phase !== "setup") return;
+    // Check for empty cards array
+    if (cards.length === 0) return;
+
+    // Computed fields are authored stats, so offer them ahead of the rest
+    const fields = detectNumericFields(
+      cards as unknown as Record<string, unknown>[],
+      computedFields
+    );
+
+    startGame({
+      cards: cards.map((card): HigherLowerCard => {
+        const values = createSafeRecord(
+          fields.flatMap((field): [string, number][] => {
+            const value = getCardValue(card as unknown as Record<string, unknown>, field.key);
+            return value === null ? [] : [[field.key, value]];
+          })
+        );
+        return { id: card.id, title: card.title, imageUrl: card.imageUrl, values };
+      }),
+      fields,
+    });
+  }, [isActive, phase, cards, computedFields, startGame]);
+
+  if (position !== "bottom") return null;
+
+  return <HigherLowerOverlayContent />;
+}
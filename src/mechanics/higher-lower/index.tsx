@@ -0,0 +1,144 @@
+/**
+ * Higher or Lower mechanic.
+ *
+ * One card is shown with a stat and the player guesses whether the next
+ * card's value is higher or lower, building streaks until out of lives.
+ */
+
+import { useHigherLowerStore } from "./store";
+import { HigherLowerGridOverlay } from "./components";
+import { HigherLowerSettingsPanel } from "./Settings";
+import { HIGHER_LOWER_ACHIEVEMENTS, getHigherLowerEvents } from "./achievements";
+import { DEFAULT_SETTINGS, LIVES_OPTIONS, TARGET_OPTIONS } from "./types";
+import type { Mechanic, CardActions } from "../types";
+import type { HigherLowerSettings, LivesOption, TargetOption } from "./types";
+
+/**
+ * Longest stat key accepted from a challenge link.
+ */
+const MAX_STAT_LENGTH = 100;
+
+/**
+ * Higher or Lower icon - up and down arrows.
+ */
+function HigherLowerIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      className={className}
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      {/* Up arrow and down arrow side by side */}
+      <path d="M7 20V4" />
+      <path d="M3 8l4-4 4 4" />
+      <path d="M17 4v16" />
+      <path d="M13 16l4 4 4-4" />
+    </svg>
+  );
+}
+
+/**
+ * Higher or Lower mechanic implementation.
+ */
+export const higherLowerMechanic: Mechanic<HigherLowerSettings> = {
+  manifest: {
+    id: "higher-lower",
+    name: "Higher or Lower",
+    description: "Is the next card's stat higher or lower? Build a streak before your lives run out.",
+    icon: HigherLowerIcon,
+    version: "1.0.0",
+    minCards: 2,
+    displayPreferences: {
+      cardSizePreset: "small",
+      hideCardGrid: true,
+      uiMode: "fullscreen",
+    },
+  },
+
+  lifecycle: {
+    onActivate: () => {
+      useHigherLowerStore.getState().activate();
+    },
+    onDeactivate: () => {
+      useHigherLowerStore.getState().deactivate();
+    },
+    onReset: () => {
+      useHigherLowerStore.getState().resetGame();
+    },
+  },
+
+  getState: () => useHigherLowerStore.getState(),
+
+  subscribe: (listener) => {
+    return useHigherLowerStore.subscribe((state) => {
+      listener(state);
+    });
+  },
+
+  getCardActions: (): CardActions => ({
+    // Cards are shown in the game overlay, no direct grid interaction
+    canInteract: () => false,
+  }),
+
+  CardOverlay: undefined,
+  GridOverlay: HigherLowerGridOverlay,
+  Settings: HigherLowerSettingsPanel,
+
+  defaultSettings: DEFAULT_SETTINGS,
+
+  getSettings: (): HigherLowerSettings => {
+    const state = useHigherLowerStore.getState();
+    return {
+      stat: state.stat,
+      lives: state.lives,
+      target: state.target,
+      seed: state.seed,
+    };
+  },
+
+  setSettings: (settings) => {
+    const store = useHigherLowerStore.getState();
+    if (settings.stat !== undefined) {
+      store.setStat(settings.stat);
+    }
+    if (settings.lives !== undefined) {
+      store.setLives(settings.lives);
+    }
+    if (settings.target !== undefined) {
+      store.setTarget(settings.target);
+    }
+    if (settings.seed !== undefined) {
+      store.setSeed(settings.seed);
+    }
+  },
+
+  parseSettings: (value) => {
+    const settings: Partial<HigherLowerSettings> = {};
+    const { stat, lives, target } = value;
+    // Unknown stats fall back to random when the game starts
+    if (stat === null || (typeof stat === "string" && stat.length <= MAX_STAT_LENGTH)) {
+      settings.stat = stat;
+    }
+    if (LIVES_OPTIONS.includes(lives as LivesOption)) {
+      settings.lives = lives as LivesOption;
+    }
+    if (TARGET_OPTIONS.includes(target as TargetOption)) {
+      settings.target = target as TargetOption;
+    }
+    return settings;
+  },
+
+  achievements: HIGHER_LOWER_ACHIEVEMENTS,
+
+  subscribeEvents: (listener) => {
+    return useHigherLowerStore.subscribe((state, previous) => {
+      getHigherLowerEvents(state, previous).forEach(listener);
+    });
+  },
+};
+
+export { useHigherLowerStore };
@@ -0,0 +1,261 @@
+/**
+ * Zustand store for Higher or Lower mechanic.
+ *
+ * Manages the deck, the stat each round compares, streaks and lives.
+ */
+
+import { create } from "zustand";
+import { indexById } from "@/utils/safeRecord";
+import { shuffle, type RandomSource } from "@/utils/shuffle";
+import { createGameRandom, inSeedOrder } from "../shared/utils";
+import type {
+  Guess,
+  HigherLowerCard,
+  HigherLowerGameConfig,
+  HigherLowerSettings,
+  HigherLowerState,
+  LivesOption,
+  TargetOption,
+} from "./types";
+import { DEFAULT_SETTINGS } from "./types";
+import type { NumericFieldInfo } from "../competing/types";
+
+/**
+ * Extended store state with actions.
+ */
+interface HigherLowerStore extends HigherLowerState, HigherLowerSettings {
+  // Lifecycle
+  activate: () => void;
+  deactivate: () => void;
+  resetGame: () => void;
+  startGame: (config: HigherLowerGameConfig) => void;
+
+  // Game actions
+  guess: (guess: Guess) => void;
+  nextRound: () => void;
+
+  // Queries
+  getRoundField: () => NumericFieldInfo | null;
+
+  // Settings
+  setStat: (stat: string | null) => void;
+  setLives: (lives: LivesOption) => void;
+  setTarget: (target: TargetOption) => void;
+  setSeed: (seed: number | null) => void;
+}
+
+/**
+ * Random source for the game in progress - stored outside the store so
+ * seeded games pick the same stats in the same order.
+ */
+let gameRandom: RandomSource = Math.random;
+
+/**
+ * Whether a guess is right. Equal values count as right either way.
+ *
+ * @param guess - The player's guess
+ * @param current - Shown card's value
+ * @param next - Next card's value
+ * @returns True when the next value is on the guessed side, or equal
+ *
+ * @example
+ * ```ts
+ * isCorrectGuess("higher", 1990, 2001); // true
+ * isCorrectGuess("lower", 1990, 1990);  // true
+ * ```
+ */
+export function isCorrectGuess(guess: Guess, current: number, next: number): boolean {
+  if (next === current) return true;
+  return guess === "higher" ? next > current : next < current;
+}
+
+/**
+ * Draw the next card that shares a stat with the current card.
+ *
+ * Cards sharing no stat with the current card are discarded.
+ */
+function drawRound(
+  current: HigherLowerCard,
+  deck: readonly string[],
+  cards: Record<string, HigherLowerCard>,
+  fields: readonly NumericFieldInfo[],
+  random: RandomSource
+): { nextCardId: string; roundStat: string; deck: string[] } | null {
+  for (let i = 0; i < deck.length; i++) {
+    const nextCardId = deck[i];
+    const next = nextCardId === undefined ? undefined : cards[nextCardId];
+    if (nextCardId === undefined || !next) continue;
+
+    const shared = fields.filter(
+      (field) => Object.hasOwn(current.values, field.key) && Object.hasOwn(next.values, field.key)
+    );
+    const field = shared[Math.floor(random() * shared.length)];
+    if (field) {
+      return { nextCardId, roundStat: field.key, deck: deck.slice(i + 1) };
+    }
+  }
+  return null;
+}
+
+/**
+ * Initial state.
+ */
+const INITIAL_STATE: HigherLowerState = {
+  isActive: false,
+  phase: "setup",
+  fields: [],
+  cards: {},
+  deck: [],
+  currentCardId: null,
+  nextCardId: null,
+  roundStat: null,
+  lastResult: null,
+  score: 0,
+  streak: 0,
+  bestStreak: 0,
+  livesLeft: DEFAULT_SETTINGS.lives,
+  gameStartedAt: 0,
+  gameEndedAt: null,
+  errorMessage: null,
+};
+
+/**
+ * Higher or Lower store.
+ */
+export const useHigherLowerStore = create<HigherLowerStore>((set, get) => ({
+  // Initial state
+  ...INITIAL_STATE,
+  ...DEFAULT_SETTINGS,
+
+  // Lifecycle
+  activate: () => {
+    set({ ...INITIAL_STATE, isActive: true });
+  },
+
+  deactivate: () => {
+    set({ ...INITIAL_STATE, isActive: false });
+  },
+
+  resetGame: () => {
+    // Back to setup: the overlay deals a fresh game from the collection
+    set({ ...INITIAL_STATE, isActive: get().isActive });
+  },
+
+  startGame: (config: HigherLowerGameConfig) => {
+    const { isActive, stat, lives, seed } = get();
+
+    // A chosen stat the collection lacks falls back to random stats
+    const chosen = config.fields.filter((field) => field.key === stat);
+    const fields = chosen.length > 0 ? chosen : config.fields;
+
+    const cards = indexById(
+      config.cards.filter((card) => fields.some((field) => Object.hasOwn(card.values, field.key)))
+    );
+
+    gameRandom = createGameRandom(seed);
+    const [first, ...deck] = shuffle(
+      inSeedOrder(Object.keys(cards), (id) => id),
+      gameRandom
+    );
+    const current = first === undefined ? undefined : cards[first];
+    const round = current ? drawRound(current, deck, cards, fields, gameRandom) : null;
+
+    if (!current || !round) {
+      set({
+        ...INITIAL_STATE,
+        isActive,
+        errorMessage:
+          fields.length === 0
+            ? "No numeric stats found. Higher or Lower needs cards with numbers to compare."
+            : "Not enough cards share a stat to play Higher or Lower.",
+      });
+      return;
+    }
+
+    set({
+      ...INITIAL_STATE,
+      isActive,
+      phase: "guessing",
+      fields,
+      cards,
+      currentCardId: current.id,
+      ...round,
+      livesLeft: lives,
+      gameStartedAt: Date.now(),
+    });
+  },
+
+  // Game actions
+  guess: (guess: Guess) => {
+    const { phase, cards, currentCardId, nextCardId, roundStat, target, deck } = get();
+    if (phase !== "guessing" || currentCardId === null || nextCardId === null || roundStat === null) {
+      return;
+    }
+
+    const current = cards[currentCardId]?.values[roundStat] ?? 0;
+    const next = cards[nextCardId]?.values[roundStat] ?? 0;
+    const correct = isCorrectGuess(guess, current, next);
+
+    const score = get().score + (correct ? 1 : 0);
+    const streak = correct ? get().streak + 1 : 0;
+    const livesLeft = get().livesLeft - (correct ? 0 : 1);
+    const isOver = livesLeft <= 0 || (target > 0 && score >= target) || deck.length === 0;
+
+    set({
+      phase: "reveal",
+      lastResult: { guess, correct },
+      score,
+      streak,
+      bestStreak: Math.max(get().bestStreak, streak),
+      livesLeft,
+      // The clock stops on the deciding guess, not after the reveal
+      gameEndedAt: isOver ? Date.now() : null,
+    });
+  },
+
+  nextRound: () => {
+    const { phase, cards, nextCardId, deck, fields, gameEndedAt } = get();
+    if (phase !== "reveal") return;
+
+    const current = nextCardId === null ? undefined : cards[nextCardId];
+    const round =
+      gameEndedAt === null && current
+        ? drawRound(current, deck, cards, fields, gameRandom)
+        : null;
+
+    if (!current || !round) {
+      set({ phase: "game_over", gameEndedAt: gameEndedAt ?? Date.now() });
+      return;
+    }
+
+    set({
+      phase: "guessing",
+      currentCardId: current.id,
+      ...round,
+      lastResult: null,
+    });
+  },
+
+  // Queries
+  getRoundField: () => {
+    const { fields, roundStat } = get();
+    return fields.find((field) => field.key === roundStat) ?? null;
+  },
+
+  // Settings
+  setStat: (stat: string | null) => {
+    set({ stat });
+  },
+
+  setLives: (lives: LivesOption) => {
+    set({ lives });
+  },
+
+  setTarget: (target: TargetOption) => {
+    set({ target });
+  },
+
+  setSeed: (seed: number | null) => {
+    set({ seed });
+  },
+}));
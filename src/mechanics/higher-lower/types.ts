@@ -0,0 +1,148 @@
+/**
+ * Type definitions for Higher or Lower mechanic.
+ *
+ * One card is shown with a stat; the player guesses whether the next
+ * card's value for that stat is higher or lower.
+ */
+
+import type { MechanicState } from "../types";
+import type { NumericFieldInfo } from "../competing/types";
+
+/**
+ * A player's guess.
+ */
+export type Guess = "higher" | "lower";
+
+/**
+ * Game phase.
+ */
+export type HigherLowerPhase =
+  | "setup" // Preparing game
+  | "guessing" // Waiting for a guess
+  | "reveal" // Showing the next card's value
+  | "game_over"; // Out of lives, target reached or deck exhausted
+
+/**
+ * A card in play with its numeric stat values.
+ */
+export interface HigherLowerCard {
+  id: string;
+  title: string;
+  imageUrl: string;
+  /** Values keyed by stat field (only stats the card has) */
+  values: Record<string, number>;
+}
+
+/**
+ * Game initialisation configuration.
+ */
+export interface HigherLowerGameConfig {
+  /** Cards with their stat values */
+  cards: HigherLowerCard[];
+  /** Detected numeric stats */
+  fields: NumericFieldInfo[];
+}
+
+/**
+ * Result of the last guess.
+ */
+export interface GuessResult {
+  guess: Guess;
+  correct: boolean;
+}
+
+/**
+ * Higher or Lower game state.
+ */
+export interface HigherLowerState extends MechanicState {
+  /** Whether the game is active */
+  isActive: boolean;
+
+  /** Current phase */
+  phase: HigherLowerPhase;
+
+  /** Stats rounds are played on */
+  fields: NumericFieldInfo[];
+
+  /** Cards in play, keyed by ID */
+  cards: Record<string, HigherLowerCard>;
+
+  /** Cards still to be drawn */
+  deck: string[];
+
+  /** Card whose value is shown */
+  currentCardId: string | null;
+
+  /** Card whose value is being guessed */
+  nextCardId: string | null;
+
+  /** Stat the current round compares */
+  roundStat: string | null;
+
+  /** Result of the last guess (shown during reveal) */
+  lastResult: GuessResult | null;
+
+  /** Correct guesses */
+  score: number;
+
+  /** Current run of correct guesses */
+  streak: number;
+
+  /** Longest run of correct guesses */
+  bestStreak: number;
+
+  /** Lives remaining */
+  livesLeft: number;
+
+  /** Game start time */
+  gameStartedAt: number;
+
+  /** Game end time (null if not finished) */
+  gameEndedAt: number | null;
+
+  /** Error message if game cannot be played */
+  errorMessage: string | null;
+}
+
+/**
+ * Lives options.
+ */
+export const LIVES_OPTIONS = [1, 3, 5] as const;
+export type LivesOption = (typeof LIVES_OPTIONS)[number];
+
+/**
+ * Speed run targets (0 = endless).
+ */
+export const TARGET_OPTIONS = [0, 10, 20, 30] as const;
+export type TargetOption = (typeof TARGET_OPTIONS)[number];
+
+/**
+ * Get label for a speed run target.
+ */
+export function getTargetLabel(target: TargetOption): string {
+  return target === 0 ? "Endless" : `Race to ${String(target)}`;
+}
+
+/**
+ * Higher or Lower settings.
+ */
+export interface HigherLowerSettings {
+  /** Stat to play on (null picks one at random each round) */
+  stat: string | null;
+  /** Wrong guesses allowed */
+  lives: LivesOption;
+  /** Correct guesses that finish a speed run (0 = endless) */
+  target: TargetOption;
+  /** Seed for a reproducible deck and stat order (null plays randomly) */
+  seed: number | null;
+}
+
+/**
+ * Default settings.
+ */
+export const DEFAULT_SETTINGS: HigherLowerSettings = {
+  stat: null,
+  lives: 3,
+  target: 0,
+  seed: null,
+};
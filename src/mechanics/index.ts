@@ -36,7 +36,37 @@ mechanicRegistry.register("competing", async () => {
   return competingMechanic;
 });
 
+// Timeline (chronological ordering) mechanic
+mechanicRegistry.register("timeline", async () => {
+  const { timelineMechanic } = await import("./timeline");
+  return timelineMechanic;
+});
+
+// Higher or Lower streak mechanic
+mechanicRegistry.register("higher-lower", async () => {
+  const { higherLowerMechanic } = await import("./higher-lower");
+  return higherLowerMechanic;
+});
+
+// Pairwise preference ranking mechanic
+mechanicRegistry.register("ranking", async () => {
+  const { rankingMechanic } = await import("./ranking");
+  return rankingMechanic;
+});
+
+// Drag-and-drop tier list mechanic
+mechanicRegistry.register("tier-list", async () => {
+  const { tierListMechanic } = await import("./tier-list");
+  return tierListMechanic;
+});
+
+// Category sorting mechanic
+mechanicRegistry.register("category-sort", async () => {
+  const { categorySortMechanic } = await import("./category-sort");
+  return categorySortMechanic;
+});
+
 // Export public API
 export { mechanicRegistry } from "./registry";
 export { MechanicProvider, useMechanicContext, useActiveMechanic, useMechanicState, useMechanicCardActions, useMechanicList } from "./context";
-export type { Mechanic, MechanicManifest, MechanicState, CardActions, CardOverlayProps, GridOverlayProps, MechanicFactory } from "./types";
+export type { Mechanic, MechanicManifest, MechanicState, CardActions, BatchAction, CardOverlayProps, GridOverlayProps, MechanicFactory, MechanicEvent, AchievementDefinition, AchievementCriterion } from "./types";
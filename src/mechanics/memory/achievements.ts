@@ -0,0 +1,77 @@
+/**
+ * Memory game achievements.
+ *
+ * Events are derived from store transitions: "game-complete" fires when the
+ * last pair is matched.
+ */
+
+import type { AchievementDefinition, MechanicEvent } from "../types";
+import type { MemoryGameState } from "./store";
+
+/**
+ * Achievements awarded by the memory game.
+ */
+export const MEMORY_ACHIEVEMENTS: AchievementDefinition[] = [
+  {
+    id: "first-game",
+    name: "Total Recall",
+    description: "Complete a Memory game",
+    event: "game-complete",
+    criteria: [],
+  },
+  {
+    id: "flawless",
+    name: "Photographic Memory",
+    description: "Complete a Memory game without a miss",
+    event: "game-complete",
+    criteria: [{ field: "misses", max: 0 }],
+  },
+  {
+    id: "extreme-flawless",
+    name: "Perfect Recall",
+    description: "Complete a Memory game on Extreme without a miss",
+    event: "game-complete",
+    criteria: [
+      { field: "difficulty", equals: "extreme" },
+      { field: "misses", max: 0 },
+    ],
+  },
+  {
+    id: "twelve-pairs",
+    name: "Full Table",
+    description: "Complete a Memory game with 12 pairs",
+    event: "game-complete",
+    criteria: [{ field: "pairs", min: 12 }],
+  },
+];
+
+/**
+ * Events for a memory store transition.
+ *
+ * @param state - New store state
+ * @param previous - Store state before the change
+ * @returns Events to emit (empty for most transitions)
+ *
+ * @example
+ * ```ts
+ * useMemoryStore.subscribe((state, previous) => {
+ *   getMemoryEvents(state, previous).forEach(listener);
+ * });
+ * ```
+ */
+export function getMemoryEvents(state: MemoryGameState, previous: MemoryGameState): MechanicEvent[] {
+  if (!state.isComplete || previous.isComplete) return [];
+
+  const pairs = state.matchedPairs.length;
+  return [
+    {
+      type: "game-complete",
+      data: {
+        difficulty: state.difficulty,
+        pairs,
+        // Every attempt that did not make a pair was a miss
+        misses: Math.max(0, state.attempts - pairs),
+      },
+    },
+  ];
+}
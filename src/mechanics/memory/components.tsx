@@ -8,7 +8,7 @@
 import { motion, AnimatePresence } from "framer-motion";
 import { useMemoryStore } from "./store";
 import { FloatingTimer, GameCompletionModal } from "../shared";
-import { useMechanicActions, useGameTimer } from "../shared/hooks";
+import { useMechanicActions, useGameTimer, useGameResult } from "../shared/hooks";
 import type { CardOverlayProps, GridOverlayProps } from "../types";
 import styles from "./memory.module.css";
 
@@ -74,8 +74,22 @@ export function MemoryGridOverlay({ position }: GridOverlayProps) {
   const cardIds = useMemoryStore((s) => s.cardIds);
   const startTime = useMemoryStore((s) => s.startTime);
   const endTime = useMemoryStore((s) => s.endTime);
+  const difficulty = useMemoryStore((s) => s.difficulty);
+  const pairCount = useMemoryStore((s) => s.pairCount);
 
   const { handleExit, handlePlayAgain, handleChooseDifferent } = useMechanicActions();
+  // Only the bottom overlay records, so each game is logged once
+  const personalBest = useGameResult(
+    position === "bottom" && isComplete && startTime !== null && endTime !== null
+      ? {
+          mechanicId: "memory",
+          settings: { difficulty, pairCount },
+          score,
+          durationMs: endTime - startTime,
+          completedAt: endTime,
+        }
+      : null
+  );
   const { elapsedMs, formattedTime } = useGameTimer({
     isRunning: !isComplete && startTime !== null,
     startTime,
@@ -112,6 +126,7 @@ export function MemoryGridOverlay({ position }: GridOverlayProps) {
       primaryAction={{ label: "Play Again", onClick: handlePlayAgain }}
       secondaryAction={{ label: "Choose Different", onClick: handleChooseDifferent }}
       onExit={handleExit}
+      personalBest={personalBest ?? undefined}
     />
   );
 }
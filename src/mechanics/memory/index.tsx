@@ -4,9 +4,16 @@
  * Match pairs of cards by flipping them.
  */
 
-import { useMemoryStore } from "./store";
+import {
+  useMemoryStore,
+  DIFFICULTY_SETTINGS,
+  PAIR_COUNT_OPTIONS,
+  type MemoryDifficulty,
+  type PairCount,
+} from "./store";
 import { MemoryCardOverlay, MemoryGridOverlay } from "./components";
 import { MemorySettingsPanel } from "./Settings";
+import { MEMORY_ACHIEVEMENTS, getMemoryEvents } from "./achievements";
 import type { Mechanic, CardActions } from "../types";
 import type { MemorySettings } from "./types";
 
@@ -93,6 +100,7 @@ export const memoryMechanic: Mechanic<MemorySettings> = {
   defaultSettings: {
     difficulty: "easy",
     pairCount: 6,
+    seed: null,
   },
 
   getSettings: () => {
@@ -100,6 +108,7 @@ export const memoryMechanic: Mechanic<MemorySettings> = {
     return {
       difficulty: state.difficulty,
       pairCount: state.pairCount,
+      seed: state.seed,
     };
   },
 
@@ -111,9 +120,32 @@ export const memoryMechanic: Mechanic<MemorySettings> = {
     if (settings.pairCount !== undefined) {
       store.setPairCount(settings.pairCount);
     }
+    if (settings.seed !== undefined) {
+      store.setSeed(settings.seed);
+    }
     // Reset game when settings change
     store.resetGame();
   },
+
+  parseSettings: (value) => {
+    const settings: Partial<MemorySettings> = {};
+    const { difficulty, pairCount } = value;
+    if (typeof difficulty === "string" && Object.hasOwn(DIFFICULTY_SETTINGS, difficulty)) {
+      settings.difficulty = difficulty as MemoryDifficulty;
+    }
+    if (PAIR_COUNT_OPTIONS.includes(pairCount as PairCount)) {
+      settings.pairCount = pairCount as PairCount;
+    }
+    return settings;
+  },
+
+  achievements: MEMORY_ACHIEVEMENTS,
+
+  subscribeEvents: (listener) => {
+    return useMemoryStore.subscribe((state, previous) => {
+      getMemoryEvents(state, previous).forEach(listener);
+    });
+  },
 };
 
 export { useMemoryStore };
@@ -23,6 +23,8 @@
  */
 
 import { create } from "zustand";
+import { shuffle } from "@/utils/shuffle";
+import { createGameRandom } from "../shared/utils";
 import type { MechanicState } from "../types";
 
 /**
@@ -93,23 +95,6 @@ function registerTimeout(id: ReturnType<typeof setTimeout>): void {
   pendingTimeouts.push(id);
 }
 
-/**
- * Fisher-Yates shuffle for unbiased randomisation.
- */
-function fisherYatesShuffle<T>(array: T[]): T[] {
-  const result = [...array];
-  for (let i = result.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    const temp = result[i];
-    const swap = result[j];
-    if (temp !== undefined && swap !== undefined) {
-      result[i] = swap;
-      result[j] = temp;
-    }
-  }
-  return result;
-}
-
 /**
  * Available pair count options.
  */
@@ -177,6 +162,9 @@ export interface MemoryGameState extends MechanicState {
   /** Number of pairs to play with */
   pairCount: PairCount;
 
+  /** Seed for a reproducible deal (null deals randomly) */
+  seed: number | null;
+
   // Legacy compatibility
   /** @deprecated Use visibleCards instead */
   flippedCards: string[];
@@ -224,6 +212,9 @@ interface MemoryGameActions {
 
   /** Set number of pairs */
   setPairCount: (count: PairCount) => void;
+
+  /** Set the deal seed (null deals randomly) */
+  setSeed: (seed: number | null) => void;
 }
 
 export type MemoryStore = MemoryGameState & MemoryGameActions;
@@ -244,6 +235,7 @@ const INITIAL_STATE: MemoryGameState = {
   resetCount: 0,
   difficulty: "easy",
   pairCount: 6,
+  seed: null,
   // Legacy
   flippedCards: [],
   pendingFirstCard: null,
@@ -534,10 +526,8 @@ export const useMemoryStore = create<MemoryStore>((set, get) => ({
   resetGame: () => {
     clearPendingTimeouts();
     const state = get();
-    // Use Fisher-Yates shuffle for unbiased randomisation
-    const shuffled = state.cardIds.length > 0
-      ? fisherYatesShuffle([...state.cardIds])
-      : [];
+    // Seeded games deal the same layout every time
+    const shuffled = shuffle(state.cardIds, createGameRandom(state.seed));
 
     set({
       phase: "idle",
@@ -595,4 +585,8 @@ export const useMemoryStore = create<MemoryStore>((set, get) => ({
   setPairCount: (count) => {
     set({ pairCount: count });
   },
+
+  setSeed: (seed) => {
+    set({ seed });
+  },
 }));
@@ -14,4 +14,6 @@ export interface MemorySettings {
   difficulty: MemoryDifficulty;
   /** Number of pairs to play with */
   pairCount: PairCount;
+  /** Seed for a reproducible deal (null deals randomly) */
+  seed: number | null;
 }
@@ -0,0 +1,88 @@
+/**
+ * Quiz achievements.
+ *
+ * Events are derived from store transitions: "answer" fires for each
+ * answered or skipped question and "game-complete" when the last question
+ * has been answered.
+ */
+
+import type { AchievementDefinition, MechanicEvent } from "../types";
+import type { QuizState } from "./types";
+
+/**
+ * Achievements awarded by the quiz.
+ */
+export const QUIZ_ACHIEVEMENTS: AchievementDefinition[] = [
+  {
+    id: "first-quiz",
+    name: "Quiz Night",
+    description: "Finish a Quiz",
+    event: "game-complete",
+    criteria: [],
+  },
+  {
+    id: "streak-10",
+    name: "On a Roll",
+    description: "Answer 10 Quiz questions in a row correctly",
+    event: "answer",
+    criteria: [{ field: "streak", min: 10 }],
+  },
+  {
+    id: "perfect-score",
+    name: "Know-It-All",
+    description: "Answer every question of a Quiz with 10 or more questions correctly",
+    event: "game-complete",
+    criteria: [
+      { field: "questions", min: 10 },
+      { field: "mistakes", max: 0 },
+    ],
+  },
+  {
+    id: "extreme-perfect",
+    name: "Mastermind",
+    description: "Answer every question of a Quiz on Extreme correctly",
+    event: "game-complete",
+    criteria: [
+      { field: "difficulty", equals: "extreme" },
+      { field: "mistakes", max: 0 },
+    ],
+  },
+];
+
+/**
+ * Events for a quiz store transition.
+ *
+ * @param state - New store state
+ * @param previous - Store state before the change
+ * @returns Events to emit (empty for most transitions)
+ *
+ * @example
+ * ```ts
+ * useQuizStore.subscribe((state, previous) => {
+ *   getQuizEvents(state, previous).forEach(listener);
+ * });
+ * ```
+ */
+export function getQuizEvents(state: QuizState, previous: QuizState): MechanicEvent[] {
+  const events: MechanicEvent[] = [];
+
+  const answer = state.answers[state.answers.length - 1];
+  if (answer && state.answers.length > previous.answers.length) {
+    events.push({ type: "answer", data: { correct: answer.isCorrect, streak: state.streak } });
+  }
+
+  if (state.quizEndedAt !== null && previous.quizEndedAt === null) {
+    const correct = state.answers.filter((record) => record.isCorrect).length;
+    events.push({
+      type: "game-complete",
+      data: {
+        difficulty: state.difficulty,
+        questions: state.questions.length,
+        correct,
+        mistakes: state.questions.length - correct,
+      },
+    });
+  }
+
+  return events;
+}
@@ -7,7 +7,7 @@
 
 import { useQuizStore } from "../store";
 import { GameCompletionModal } from "../../shared";
-import { useMechanicActions, formatTime } from "../../shared";
+import { useMechanicActions, useGameResult, formatTime } from "../../shared";
 import styles from "../Quiz.module.css";
 
 /**
@@ -18,13 +18,30 @@ export function ResultsScreen() {
   const isQuizComplete = useQuizStore((s) => s.isQuizComplete);
   const getResults = useQuizStore((s) => s.getResults);
   const questions = useQuizStore((s) => s.questions);
+  const difficulty = useQuizStore((s) => s.difficulty);
+  const questionCount = useQuizStore((s) => s.questionCount);
+  const quizEndedAt = useQuizStore((s) => s.quizEndedAt);
 
   const { handleExit, handlePlayAgain } = useMechanicActions();
 
-  // Don't show if not complete
-  if (!isActive || !isQuizComplete() || questions.length === 0) return null;
+  const isComplete = isActive && questions.length > 0 && isQuizComplete();
+  const results = isComplete ? getResults() : null;
+
+  const personalBest = useGameResult(
+    results && quizEndedAt !== null
+      ? {
+          mechanicId: "quiz",
+          settings: { difficulty, questionCount },
+          score: results.totalScore,
+          maxScore: results.maxScore,
+          durationMs: results.totalTime,
+          completedAt: quizEndedAt,
+        }
+      : null
+  );
 
-  const results = getResults();
+  // Don't show if not complete
+  if (!results) return null;
 
   return (
     <GameCompletionModal
@@ -39,6 +56,7 @@ export function ResultsScreen() {
       ]}
       primaryAction={{ label: "Play Again", onClick: handlePlayAgain }}
       onExit={handleExit}
+      personalBest={personalBest ?? undefined}
     >
       {results.skippedCount > 0 && (
         <div className={styles.skippedNote}>
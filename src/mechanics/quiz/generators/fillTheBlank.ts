@@ -5,7 +5,7 @@
  * Uses fields with discrete values (year, category, etc.).
  */
 
-import { shuffle } from "@/utils/shuffle";
+import { shuffle, type RandomSource } from "@/utils/shuffle";
 import type { Question, Answer } from "../types";
 import type {
   QuestionGenerator,
@@ -105,7 +105,8 @@ function generateQuestion(
   field: string,
   promptTemplate: string,
   allUniqueValues: string[],
-  titleToValuesMap: Map<string, Set<string>>
+  titleToValuesMap: Map<string, Set<string>>,
+  random?: RandomSource
 ): Question | null {
   const correctValue = card[field];
   if (
@@ -162,7 +163,7 @@ function generateQuestion(
     return null;
   }
 
-  const shuffledOthers = shuffle(otherValues);
+  const shuffledOthers = shuffle(otherValues, random);
   const wrongAnswers: Answer[] = shuffledOthers
     .slice(0, wrongAnswersNeeded)
     .map((value) => ({
@@ -177,7 +178,7 @@ function generateQuestion(
   const prompt = promptTemplate.replace("{title}", card.title);
 
   return {
-    id: generateQuestionId(),
+    id: generateQuestionId(random),
     type: "fillTheBlank",
     prompt,
     correctAnswer,
@@ -233,6 +234,7 @@ export const fillTheBlankGenerator: QuestionGenerator = {
     const questions: Question[] = [];
     const usedCardIds = new Set<string>(options.excludeCardIds);
     const usedTitles = new Set<string>(); // Track titles to avoid duplicate questions
+    const random = options.random ?? Math.random;
 
     // Filter out already used cards (and titles)
     let candidateCards = fieldConfig.cards.filter(
@@ -244,7 +246,7 @@ export const fillTheBlankGenerator: QuestionGenerator = {
 
     for (let i = 0; i < count; i++) {
       // Pick a random card
-      const randomIndex = Math.floor(Math.random() * candidateCards.length);
+      const randomIndex = Math.floor(random() * candidateCards.length);
       const card = candidateCards[randomIndex];
 
       if (!card) continue;
@@ -255,7 +257,8 @@ export const fillTheBlankGenerator: QuestionGenerator = {
         fieldConfig.field,
         fieldConfig.promptTemplate,
         fieldConfig.uniqueValues,
-        titleToValuesMap
+        titleToValuesMap,
+        options.random
       );
 
       if (question) {
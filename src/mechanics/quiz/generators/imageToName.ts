@@ -4,6 +4,7 @@
  * Shows a card image and asks the user to identify the card by name.
  */
 
+import type { RandomSource } from "@/utils/shuffle";
 import type { Question, Answer } from "../types";
 import type { QuestionGenerator, GeneratorCardData, GeneratorOptions, GeneratorCheckResult } from "./types";
 import {
@@ -21,7 +22,8 @@ import {
 function generateQuestion(
   card: GeneratorCardData,
   allCards: GeneratorCardData[],
-  useSimilarDistractors = false
+  useSimilarDistractors = false,
+  random?: RandomSource
 ): Question {
   // Create correct answer
   const correctAnswer: Answer = {
@@ -31,7 +33,7 @@ function generateQuestion(
 
   // Select wrong answer cards (different cards from the collection)
   // If useSimilarDistractors, prefers cards that are similar to the correct answer
-  const wrongCards = selectWrongAnswerCards(allCards, card, WRONG_ANSWER_COUNT, useSimilarDistractors);
+  const wrongCards = selectWrongAnswerCards(allCards, card, WRONG_ANSWER_COUNT, useSimilarDistractors, random);
 
   // Create wrong answers from wrong cards
   const wrongAnswers: Answer[] = wrongCards.map((wrongCard) => ({
@@ -40,7 +42,7 @@ function generateQuestion(
   }));
 
   return {
-    id: generateQuestionId(),
+    id: generateQuestionId(random),
     type: "imageToName",
     prompt: "Which card is shown in this image?",
     correctAnswer,
@@ -84,6 +86,7 @@ export const imageToNameGenerator: QuestionGenerator = {
     const availableCards = check.availableCards;
     const questions: Question[] = [];
     const usedCardIds = new Set<string>(options.excludeCardIds);
+    const random = options.random ?? Math.random;
 
     // Filter out already used cards
     let candidateCards = availableCards.filter((c) => !usedCardIds.has(c.id));
@@ -93,13 +96,13 @@ export const imageToNameGenerator: QuestionGenerator = {
 
     for (let i = 0; i < count; i++) {
       // Pick a random card
-      const randomIndex = Math.floor(Math.random() * candidateCards.length);
+      const randomIndex = Math.floor(random() * candidateCards.length);
       const card = candidateCards[randomIndex];
 
       if (!card) continue;
 
       // Generate question
-      const question = generateQuestion(card, availableCards, options.useSimilarDistractors);
+      const question = generateQuestion(card, availableCards, options.useSimilarDistractors, options.random);
       questions.push(question);
 
       // Mark as used
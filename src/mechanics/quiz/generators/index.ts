@@ -15,7 +15,7 @@ export {
   hasEnoughCards,
 } from "./utils";
 
-import { shuffle } from "@/utils/shuffle";
+import { shuffle, type RandomSource } from "@/utils/shuffle";
 import { imageToNameGenerator } from "./imageToName";
 import { nameToImageGenerator } from "./nameToImage";
 import { fillTheBlankGenerator } from "./fillTheBlank";
@@ -47,6 +47,8 @@ export function getGenerator(type: QuestionType): QuestionGenerator {
 export interface GenerateQuestionsOptions {
   /** Whether to use similar cards as distractors (harder) */
   useSimilarDistractors?: boolean;
+  /** Random source for seeded quizzes (defaults to Math.random) */
+  random?: RandomSource;
 }
 
 /**
@@ -98,6 +100,7 @@ export function generateQuestions(
       count,
       excludeCardIds: usedCardIds,
       useSimilarDistractors: options.useSimilarDistractors,
+      random: options.random,
     });
 
     // Add used card IDs (to avoid duplicate questions about same card)
@@ -109,7 +112,7 @@ export function generateQuestions(
   }
 
   // Shuffle all questions to mix types
-  return shuffle(allQuestions);
+  return shuffle(allQuestions, options.random);
 }
 
 /**
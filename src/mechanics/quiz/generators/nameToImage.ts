@@ -4,6 +4,7 @@
  * Shows a card name and asks the user to identify the correct image.
  */
 
+import type { RandomSource } from "@/utils/shuffle";
 import type { Question, Answer } from "../types";
 import type { QuestionGenerator, GeneratorCardData, GeneratorOptions, GeneratorCheckResult } from "./types";
 import {
@@ -21,7 +22,8 @@ import {
 function generateQuestion(
   card: GeneratorCardData,
   allCards: GeneratorCardData[],
-  useSimilarDistractors = false
+  useSimilarDistractors = false,
+  random?: RandomSource
 ): Question {
   // Create correct answer with image
   const correctAnswer: Answer = {
@@ -33,7 +35,7 @@ function generateQuestion(
   // Select wrong answer cards with images
   // If useSimilarDistractors, prefers cards that are similar to the correct answer
   const cardsWithImages = filterCardsWithImages(allCards);
-  const wrongCards = selectWrongAnswerCards(cardsWithImages, card, WRONG_ANSWER_COUNT, useSimilarDistractors);
+  const wrongCards = selectWrongAnswerCards(cardsWithImages, card, WRONG_ANSWER_COUNT, useSimilarDistractors, random);
 
   // Create wrong answers from wrong cards with their images
   const wrongAnswers: Answer[] = wrongCards.map((wrongCard) => ({
@@ -43,7 +45,7 @@ function generateQuestion(
   }));
 
   return {
-    id: generateQuestionId(),
+    id: generateQuestionId(random),
     type: "nameToImage",
     prompt: `Which image shows "${card.title}"?`,
     correctAnswer,
@@ -87,6 +89,7 @@ export const nameToImageGenerator: QuestionGenerator = {
     const availableCards = check.availableCards;
     const questions: Question[] = [];
     const usedCardIds = new Set<string>(options.excludeCardIds);
+    const random = options.random ?? Math.random;
 
     // Filter out already used cards
     let candidateCards = availableCards.filter((c) => !usedCardIds.has(c.id));
@@ -96,13 +99,13 @@ export const nameToImageGenerator: QuestionGenerator = {
 
     for (let i = 0; i < count; i++) {
       // Pick a random card
-      const randomIndex = Math.floor(Math.random() * candidateCards.length);
+      const randomIndex = Math.floor(random() * candidateCards.length);
       const card = candidateCards[randomIndex];
 
       if (!card) continue;
 
       // Generate question
-      const question = generateQuestion(card, availableCards, options.useSimilarDistractors);
+      const question = generateQuestion(card, availableCards, options.useSimilarDistractors, options.random);
       questions.push(question);
 
       // Mark as used
@@ -5,7 +5,7 @@
  * E.g., "On which platform can you play Mario?"
  */
 
-import { shuffle } from "@/utils/shuffle";
+import { shuffle, type RandomSource } from "@/utils/shuffle";
 import type { Question, Answer } from "../types";
 import type {
   QuestionGenerator,
@@ -222,7 +222,8 @@ function buildTitleToValuesMap(
 function generateQuestion(
   card: GeneratorCardData,
   relationship: RelationshipInfo,
-  titleToValuesMap: Map<string, Set<string>>
+  titleToValuesMap: Map<string, Set<string>>,
+  random?: RandomSource
 ): Question | null {
   const correctNames = getResolvedNames(card, relationship.field);
   if (correctNames.length === 0) {
@@ -277,7 +278,7 @@ function generateQuestion(
     return null;
   }
 
-  const shuffledOthers = shuffle(otherValues);
+  const shuffledOthers = shuffle(otherValues, random);
   const wrongAnswers: Answer[] = shuffledOthers
     .slice(0, wrongAnswersNeeded)
     .map((value) => ({
@@ -293,7 +294,7 @@ function generateQuestion(
   const prompt = generatePrompt(card.title, relationship.label);
 
   return {
-    id: generateQuestionId(),
+    id: generateQuestionId(random),
     type: "relationshipToName",
     prompt,
     correctAnswer,
@@ -377,7 +378,7 @@ export const relationshipToNameGenerator: QuestionGenerator = {
       );
 
       // Shuffle candidates
-      candidateCards = shuffle(candidateCards);
+      candidateCards = shuffle(candidateCards, options.random);
 
       for (
         let i = 0;
@@ -387,7 +388,7 @@ export const relationshipToNameGenerator: QuestionGenerator = {
         const card = candidateCards[i];
         if (!card) continue;
 
-        const question = generateQuestion(card, relationship, titleToValuesMap);
+        const question = generateQuestion(card, relationship, titleToValuesMap, options.random);
         if (question) {
           questions.push(question);
           usedCardIds.add(card.id);
@@ -2,6 +2,7 @@
  * Type definitions for question generators.
  */
 
+import type { RandomSource } from "@/utils/shuffle";
 import type { Question, QuestionType } from "../types";
 
 /**
@@ -35,6 +36,8 @@ export interface GeneratorOptions {
   excludeCardIds?: Set<string>;
   /** Use similar cards as distractors (for harder difficulty) */
   useSimilarDistractors?: boolean;
+  /** Random source for seeded quizzes (defaults to Math.random) */
+  random?: RandomSource;
 }
 
 /**
@@ -2,7 +2,7 @@
  * Utility functions for question generators.
  */
 
-import { shuffle } from "@/utils/shuffle";
+import { shuffle, type RandomSource } from "@/utils/shuffle";
 import type { Answer } from "../types";
 import type { GeneratorCardData } from "./types";
 
@@ -33,8 +33,14 @@ export const MAX_SIMILARITY_KEYS = 100;
 
 /**
  * Generate a unique question ID.
+ *
+ * Answer order is derived from the question ID, so seeded quizzes take the
+ * ID from their random source instead of the clock.
  */
-export function generateQuestionId(): string {
+export function generateQuestionId(random?: RandomSource): string {
+  if (random) {
+    return `q-${random().toString(36).slice(2, 9)}`;
+  }
   return `q-${String(Date.now())}-${Math.random().toString(36).slice(2, 9)}`;
 }
 
@@ -114,26 +120,28 @@ export function calculateSimilarity(
  * @param correctCard - Card to exclude (correct answer)
  * @param count - Number of wrong answers to select
  * @param useSimilar - Whether to prefer similar cards (for harder difficulty)
+ * @param random - Random source (defaults to Math.random)
  * @returns Selected wrong answer cards
  */
 export function selectWrongAnswerCards(
   cards: GeneratorCardData[],
   correctCard: GeneratorCardData,
   count = WRONG_ANSWER_COUNT,
-  useSimilar = false
+  useSimilar = false,
+  random: RandomSource = Math.random
 ): GeneratorCardData[] {
   const available = cards.filter((c) => c.id !== correctCard.id);
 
   if (!useSimilar || available.length <= count) {
     // Random selection
-    const shuffled = shuffle(available);
+    const shuffled = shuffle(available, random);
     return shuffled.slice(0, count);
   }
 
   // Score a bounded pool: large collections are sampled first so the scan
   // stays cheap regardless of how many cards the collection holds
   const scorable = available.length > MAX_SIMILARITY_CANDIDATES
-    ? shuffle(available).slice(0, MAX_SIMILARITY_CANDIDATES)
+    ? shuffle(available, random).slice(0, MAX_SIMILARITY_CANDIDATES)
     : available;
 
   // Calculate similarity for each scorable card
@@ -148,7 +156,7 @@ export function selectWrongAnswerCards(
   // Take the most similar cards, but add some randomness
   // Take top 2*count similar cards, then shuffle and pick count
   const candidatePool = withSimilarity.slice(0, Math.min(count * 2, withSimilarity.length));
-  const shuffledCandidates = shuffle(candidatePool);
+  const shuffledCandidates = shuffle(candidatePool, random);
   return shuffledCandidates.slice(0, count).map((c) => c.card);
 }
 
@@ -157,13 +165,15 @@ export function selectWrongAnswerCards(
  *
  * @param correctAnswer - The correct answer
  * @param wrongAnswers - Array of wrong answers
+ * @param random - Random source (defaults to Math.random)
  * @returns Shuffled array of all answers
  */
 export function shuffleAnswers(
   correctAnswer: Answer,
-  wrongAnswers: Answer[]
+  wrongAnswers: Answer[],
+  random: RandomSource = Math.random
 ): Answer[] {
-  return shuffle([correctAnswer, ...wrongAnswers]);
+  return shuffle([correctAnswer, ...wrongAnswers], random);
 }
 
 /**
@@ -226,18 +236,20 @@ export function getUniqueFieldValues(
  * @param cards - Available cards
  * @param count - Number of cards to select
  * @param excludeIds - Card IDs to exclude
+ * @param random - Random source (defaults to Math.random)
  * @returns Selected cards
  */
 export function selectRandomCards(
   cards: GeneratorCardData[],
   count: number,
-  excludeIds?: Set<string>
+  excludeIds?: Set<string>,
+  random: RandomSource = Math.random
 ): GeneratorCardData[] {
   let available = cards;
   if (excludeIds && excludeIds.size > 0) {
     available = cards.filter((c) => !excludeIds.has(c.id));
   }
-  const shuffled = shuffle(available);
+  const shuffled = shuffle(available, random);
   return shuffled.slice(0, count);
 }
 
@@ -7,7 +7,15 @@
 import { useQuizStore } from "./store";
 import { QuizOverlay } from "./components";
 import { QuizSettingsPanel } from "./Settings";
-import { DEFAULT_SETTINGS } from "./types";
+import { QUIZ_ACHIEVEMENTS, getQuizEvents } from "./achievements";
+import {
+  DEFAULT_SETTINGS,
+  DIFFICULTY_SETTINGS,
+  QUESTION_COUNT_OPTIONS,
+  type QuestionCountOption,
+  type QuestionType,
+  type QuizDifficulty,
+} from "./types";
 import type { Mechanic, GridOverlayProps } from "../types";
 import type { QuizSettings } from "./types";
 
@@ -104,6 +112,7 @@ export const quizMechanic: Mechanic<QuizSettings> = {
       enabledQuestionTypes: state.enabledQuestionTypes,
       timerMode: state.timerMode,
       difficulty: state.difficulty,
+      seed: state.seed,
     };
   },
 
@@ -121,6 +130,38 @@ export const quizMechanic: Mechanic<QuizSettings> = {
     if (settings.difficulty !== undefined) {
       store.setDifficulty(settings.difficulty);
     }
+    if (settings.seed !== undefined) {
+      store.setSeed(settings.seed);
+    }
+  },
+
+  parseSettings: (value) => {
+    const settings: Partial<QuizSettings> = {};
+    const { questionCount, enabledQuestionTypes, timerMode, difficulty } = value;
+    if (QUESTION_COUNT_OPTIONS.includes(questionCount as QuestionCountOption)) {
+      settings.questionCount = questionCount as QuestionCountOption;
+    }
+    if (Array.isArray(enabledQuestionTypes)) {
+      const types = DEFAULT_SETTINGS.enabledQuestionTypes.filter((type: QuestionType) =>
+        enabledQuestionTypes.includes(type)
+      );
+      if (types.length > 0) settings.enabledQuestionTypes = types;
+    }
+    if (typeof timerMode === "boolean") {
+      settings.timerMode = timerMode;
+    }
+    if (typeof difficulty === "string" && Object.hasOwn(DIFFICULTY_SETTINGS, difficulty)) {
+      settings.difficulty = difficulty as QuizDifficulty;
+    }
+    return settings;
+  },
+
+  achievements: QUIZ_ACHIEVEMENTS,
+
+  subscribeEvents: (listener) => {
+    return useQuizStore.subscribe((state, previous) => {
+      getQuizEvents(state, previous).forEach(listener);
+    });
   },
 };
 
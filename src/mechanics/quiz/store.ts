@@ -5,7 +5,8 @@
  */
 
 import { create } from "zustand";
-import { shuffleWithSeed } from "@/utils/shuffle";
+import { seededRandom, shuffleWithSeed } from "@/utils/shuffle";
+import { inSeedOrder } from "../shared/utils";
 import { generateQuestions, canGenerateQuiz } from "./generators";
 import type { GeneratorCardData } from "./generators";
 import type {
@@ -43,6 +44,7 @@ interface QuizStore extends QuizState, QuizSettings {
   toggleQuestionType: (type: QuestionType) => void;
   setTimerMode: (enabled: boolean) => void;
   setDifficulty: (difficulty: QuizDifficulty) => void;
+  setSeed: (seed: number | null) => void;
 
   // Computed
   getCurrentQuestion: () => Question | null;
@@ -78,6 +80,7 @@ const INITIAL_STATE: QuizState = {
   enabledQuestionTypes: [...DEFAULT_SETTINGS.enabledQuestionTypes],
   timerMode: DEFAULT_SETTINGS.timerMode,
   difficulty: DEFAULT_SETTINGS.difficulty,
+  seed: DEFAULT_SETTINGS.seed,
 
   // Game state
   questions: [],
@@ -123,6 +126,7 @@ export const useQuizStore = create<QuizStore>((set, get) => ({
       enabledQuestionTypes: get().enabledQuestionTypes,
       timerMode: get().timerMode,
       difficulty: get().difficulty,
+      seed: get().seed,
     });
   },
 
@@ -165,13 +169,18 @@ export const useQuizStore = create<QuizStore>((set, get) => ({
     // Get difficulty settings
     const difficultySettings = DIFFICULTY_SETTINGS[state.difficulty];
 
+    // Seeded quizzes start from a fixed card order so everyone gets the
+    // same questions whatever their sort settings
+    const { seed } = state;
+
     // Generate questions with difficulty-based options
     const questions = generateQuestions(
-      cards,
+      seed === null ? cards : inSeedOrder(cards, (card) => card.id),
       state.questionCount,
       state.enabledQuestionTypes,
       {
         useSimilarDistractors: difficultySettings.useSimilarDistractors,
+        random: seed === null ? undefined : seededRandom(seed),
       }
     );
 
@@ -336,6 +345,10 @@ export const useQuizStore = create<QuizStore>((set, get) => ({
     set({ difficulty });
   },
 
+  setSeed: (seed: number | null) => {
+    set({ seed });
+  },
+
   // Computed
   getCurrentQuestion: () => {
     const { questions, currentIndex, isActive } = get();
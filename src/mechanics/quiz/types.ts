@@ -186,6 +186,8 @@ export interface QuizState extends MechanicState {
   timerMode: boolean;
   /** Difficulty level */
   difficulty: QuizDifficulty;
+  /** Seed for reproducible questions (null generates randomly) */
+  seed: number | null;
 
   // Game state
   /** Generated questions */
@@ -234,6 +236,8 @@ export interface QuizSettings {
   timerMode: boolean;
   /** Difficulty level */
   difficulty: QuizDifficulty;
+  /** Seed for reproducible questions (null generates randomly) */
+  seed: number | null;
 }
 
 /**
@@ -244,6 +248,7 @@ export const DEFAULT_SETTINGS: QuizSettings = {
   enabledQuestionTypes: ["imageToName", "nameToImage", "fillTheBlank", "relationshipToName"],
   timerMode: false,
   difficulty: "easy",
+  seed: null,
 };
 
 /**
@@ -0,0 +1,75 @@
+/**
+ * Settings panel for My Ranking mechanic.
+ */
+
+import { useActiveSourceUrl } from "@/stores/sourceStore";
+import { getSourceRanking, useRankingStore } from "@/stores/rankingStore";
+import { countComparisons } from "@/utils/eloRanking";
+import type { MechanicSettingsProps } from "../types";
+import type { RankingSettings } from "./types";
+import { SESSION_LENGTH_OPTIONS, getSessionLengthLabel } from "./types";
+import styles from "./Ranking.module.css";
+
+/**
+ * My Ranking settings panel.
+ */
+export function RankingSettingsPanel({
+  settings,
+  onChange,
+  disabled,
+}: MechanicSettingsProps<RankingSettings>) {
+  const sourceId = useActiveSourceUrl();
+  const comparisons = useRankingStore((s) =>
+    countComparisons(getSourceRanking(s.rankings, sourceId).wins)
+  );
+  const clearRanking = useRankingStore((s) => s.clearRanking);
+
+  return (
+    <div className={styles.settingsContainer}>
+      {/* Session length */}
+      <div className={styles.settingGroup}>
+        <span className={styles.settingLabel}>Comparisons per Session</span>
+        <div className={styles.options}>
+          {SESSION_LENGTH_OPTIONS.map((length) => (
+            <button
+              key={length}
+              type="button"
+              className={`${styles.option ?? ""} ${settings.sessionLength === length ? (styles.selected ?? "") : ""}`}
+              onClick={() => { onChange({ sessionLength: length }); }}
+              disabled={disabled}
+            >
+              {getSessionLengthLabel(length)}
+            </button>
+          ))}
+        </div>
+        <span className={styles.settingDescription}>
+          {settings.sessionLength === 0
+            ? "Keep comparing until your ranking settles into a full order."
+            : "Your ranking is saved after every choice, so short sessions add up."}
+        </span>
+      </div>
+
+      {/* Saved ranking */}
+      <div className={styles.settingGroup}>
+        <span className={styles.settingLabel}>Saved Ranking</span>
+        <span className={styles.settingDescription}>
+          {comparisons === 0
+            ? "No cards ranked in this collection yet."
+            : `${String(comparisons)} choices saved for this collection. Sort by My Ranking or show it in the top badge.`}
+        </span>
+        <button
+          type="button"
+          className={styles.clearButton}
+          onClick={() => {
+            if (window.confirm("Clear your ranking for this collection?")) {
+              clearRanking(sourceId);
+            }
+          }}
+          disabled={disabled === true || comparisons === 0}
+        >
+          Clear Ranking
+        </button>
+      </div>
+    </div>
+  );
+}
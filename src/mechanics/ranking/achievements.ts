@@ -0,0 +1,80 @@
+/**
+ * My Ranking achievements.
+ *
+ * Events are derived from store transitions: "comparison" fires for each
+ * preference given and "session-complete" when a session ends.
+ */
+
+import type { AchievementDefinition, MechanicEvent } from "../types";
+import type { RankingSettings, RankingState } from "./types";
+
+/**
+ * Achievements awarded by My Ranking.
+ */
+export const RANKING_ACHIEVEMENTS: AchievementDefinition[] = [
+  {
+    id: "first-session",
+    name: "Taste Maker",
+    description: "Finish a My Ranking session",
+    event: "session-complete",
+    criteria: [],
+  },
+  {
+    id: "settled-20",
+    name: "Definitive List",
+    description: "Settle a personal ranking of 20 or more cards",
+    event: "session-complete",
+    criteria: [
+      { field: "settled", equals: true },
+      { field: "cards", min: 20 },
+    ],
+  },
+  {
+    id: "comparisons-100",
+    name: "Decisive",
+    description: "Give 100 preferences in one My Ranking session",
+    event: "comparison",
+    criteria: [{ field: "sessionComparisons", min: 100 }],
+  },
+];
+
+/**
+ * Events for a My Ranking store transition.
+ *
+ * @param state - New store state
+ * @param previous - Store state before the change
+ * @returns Events to emit (empty for most transitions)
+ *
+ * @example
+ * ```ts
+ * useRankingSessionStore.subscribe((state, previous) => {
+ *   getRankingEvents(state, previous).forEach(listener);
+ * });
+ * ```
+ */
+export function getRankingEvents(
+  state: RankingState & RankingSettings,
+  previous: RankingState
+): MechanicEvent[] {
+  const events: MechanicEvent[] = [];
+
+  if (state.sessionComparisons > previous.sessionComparisons) {
+    events.push({
+      type: "comparison",
+      data: { sessionComparisons: state.sessionComparisons },
+    });
+  }
+
+  if (state.phase === "complete" && previous.phase !== "complete") {
+    events.push({
+      type: "session-complete",
+      data: {
+        comparisons: state.sessionComparisons,
+        cards: state.cardIds.length,
+        settled: state.settled,
+      },
+    });
+  }
+
+  return events;
+}
@@ -0,0 +1,281 @@
+/**
+ * My Ranking mechanic components.
+ *
+ * Full-screen overlay asking "which do you prefer?" for one pair of cards
+ * at a time. Uses shared components for the error overlay and completion
+ * modal.
+ */
+
+import { useEffect, useCallback, useMemo } from "react";
+import { useRankingSessionStore } from "./store";
+import { useCollectionData } from "@/context/CollectionDataContext";
+import { useActiveSourceUrl } from "@/stores/sourceStore";
+import { getRankingProgress } from "@/utils/eloRanking";
+import { ErrorOverlay, GameCompletionModal } from "../shared";
+import { useMechanicActions } from "../shared";
+import { buildRankingRows, downloadRanking } from "./export";
+import type { GridOverlayProps } from "../types";
+import styles from "./Ranking.module.css";
+
+/**
+ * Cards listed in the completion modal.
+ */
+const TOP_LIST_SIZE = 5;
+
+/**
+ * Ranking rows for the cards in the session.
+ */
+function useRankingRows() {
+  const cards = useRankingSessionStore((s) => s.cards);
+  const cardIds = useRankingSessionStore((s) => s.cardIds);
+  const ratings = useRankingSessionStore((s) => s.ratings);
+
+  return useMemo(
+    () => buildRankingRows(cardIds.flatMap((id) => cards[id] ?? []), ratings),
+    [cards, cardIds, ratings]
+  );
+}
+
+/**
+ * CSV and Markdown download buttons.
+ */
+function ExportButtons() {
+  const { definition } = useCollectionData();
+  const rows = useRankingRows();
+  const name = definition?.name ?? "collection";
+
+  if (rows.length === 0) return null;
+
+  return (
+    <div className={styles.exportButtons}>
+      <button
+        type="button"
+        className={styles.exportButton}
+        onClick={() => { downloadRanking(rows, "csv", name); }}
+      >
+        Export CSV
+      </button>
+      <button
+        type="button"
+        className={styles.exportButton}
+        onClick={() => { downloadRanking(rows, "markdown", name); }}
+      >
+        Export Markdown
+      </button>
+    </div>
+  );
+}
+
+/**
+ * A card the player can pick.
+ */
+function ChoiceCard({ cardId, shortcut }: { cardId: string; shortcut: string }) {
+  const card = useRankingSessionStore((s) => s.cards[cardId]);
+  const choose = useRankingSessionStore((s) => s.choose);
+
+  if (!card) return null;
+
+  return (
+    <button
+      type="button"
+      className={styles.choiceCard}
+      onClick={() => { choose(cardId); }}
+      aria-label={`Prefer ${card.title}`}
+    >
+      {card.imageUrl ? (
+        <img className={styles.cardImage} src={card.imageUrl} alt="" />
+      ) : (
+        <div className={styles.cardImage} />
+      )}
+      <span className={styles.cardTitle}>{card.title}</span>
+      <span className={styles.shortcut} aria-hidden="true">{shortcut}</span>
+    </button>
+  );
+}
+
+/**
+ * Session summary modal using shared GameCompletionModal.
+ */
+function SessionCompleteModal() {
+  const phase = useRankingSessionStore((s) => s.phase);
+  const settled = useRankingSessionStore((s) => s.settled);
+  const sessionComparisons = useRankingSessionStore((s) => s.sessionComparisons);
+  const skipped = useRankingSessionStore((s) => s.skipped);
+  const cardIds = useRankingSessionStore((s) => s.cardIds);
+  const keepRanking = useRankingSessionStore((s) => s.keepRanking);
+  const ratings = useRankingSessionStore((s) => s.ratings);
+  const rows = useRankingRows();
+
+  const { handleExit } = useMechanicActions();
+
+  const handleKeepRanking = useCallback(() => {
+    keepRanking();
+  }, [keepRanking]);
+
+  if (phase !== "complete") return null;
+
+  const progress = Math.round(getRankingProgress(cardIds, ratings) * 100);
+
+  return (
+    <GameCompletionModal
+      isOpen={true}
+      title={settled ? "Ranking Settled!" : "Ranking Saved"}
+      subtitle={
+        settled
+          ? "Your ranking has converged. Sort by My Ranking to see the full order."
+          : "Your progress is saved. Sort by My Ranking to see the order so far."
+      }
+      stats={[
+        { label: "Compared", value: sessionComparisons },
+        { label: "Skipped", value: skipped },
+        { label: "Settled", value: `${String(progress)}%` },
+      ]}
+      primaryAction={{ label: "Keep Ranking", onClick: handleKeepRanking }}
+      onExit={handleExit}
+    >
+      <ol className={styles.topList}>
+        {rows.slice(0, TOP_LIST_SIZE).map((row) => (
+          <li key={row.id} className={styles.topListItem}>
+            {row.title}
+          </li>
+        ))}
+      </ol>
+      <ExportButtons />
+    </GameCompletionModal>
+  );
+}
+
+/**
+ * My Ranking error overlay using shared component.
+ */
+function RankingErrorOverlay() {
+  const errorMessage = useRankingSessionStore((s) => s.errorMessage);
+  const isActive = useRankingSessionStore((s) => s.isActive);
+  const { handleExit } = useMechanicActions();
+
+  return (
+    <ErrorOverlay
+      title="Cannot Rank"
+      message={errorMessage ?? ""}
+      hint="Load a collection with more cards to build a ranking."
+      onExit={handleExit}
+      visible={!!errorMessage && isActive}
+    />
+  );
+}
+
+/**
+ * Main session overlay component.
+ */
+function RankingOverlayContent() {
+  const isActive = useRankingSessionStore((s) => s.isActive);
+  const phase = useRankingSessionStore((s) => s.phase);
+  const pair = useRankingSessionStore((s) => s.pair);
+  const cardIds = useRankingSessionStore((s) => s.cardIds);
+  const sessionComparisons = useRankingSessionStore((s) => s.sessionComparisons);
+  const sessionLength = useRankingSessionStore((s) => s.sessionLength);
+  const errorMessage = useRankingSessionStore((s) => s.errorMessage);
+  const choose = useRankingSessionStore((s) => s.choose);
+  const skip = useRankingSessionStore((s) => s.skip);
+  const ratings = useRankingSessionStore((s) => s.ratings);
+  const { handleExit } = useMechanicActions();
+
+  // Left/right arrows pick a card, down arrow skips the pair
+  useEffect(() => {
+    if (!isActive || phase !== "comparing" || !pair) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "ArrowLeft" || e.key === "ArrowRight") {
+        e.preventDefault();
+        choose(e.key === "ArrowLeft" ? pair[0] : pair[1]);
+      } else if (e.key === "ArrowDown") {
+        e.preventDefault();
+        skip();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => { window.removeEventListener("keydown", handleKeyDown); };
+  }, [isActive, phase, pair, choose, skip]);
+
+  if (!isActive) return null;
+  if (errorMessage) return <RankingErrorOverlay />;
+  if (phase === "setup") return null;
+
+  const progress = Math.round(getRankingProgress(cardIds, ratings) * 100);
+
+  return (
+    <div className={styles.overlay}>
+      <div className={styles.header}>
+        <button
+          type="button"
+          className={styles.exitButton}
+          onClick={handleExit}
+          aria-label="Exit My Ranking"
+        >
+          Exit
+        </button>
+        <div className={styles.headerStats}>
+          <span>
+            Compared: {sessionComparisons}
+            {sessionLength > 0 ? `/${String(sessionLength)}` : ""}
+          </span>
+          <span>Settled: {progress}%</span>
+        </div>
+        <ExportButtons />
+      </div>
+      <div
+        className={styles.progressBar}
+        role="progressbar"
+        aria-label="Ranking progress"
+        aria-valuenow={progress}
+        aria-valuemin={0}
+        aria-valuemax={100}
+      >
+        <div className={styles.progressFill} style={{ width: `${String(progress)}%` }} />
+      </div>
+
+      <div className={styles.arena}>
+        <p className={styles.question}>Which do you prefer?</p>
+        {pair && (
+          <div className={styles.cards}>
+            <ChoiceCard key={pair[0]} cardId={pair[0]} shortcut="←" />
+            <ChoiceCard key={pair[1]} cardId={pair[1]} shortcut="→" />
+          </div>
+        )}
+      </div>
+
+      <div className={styles.actionBar}>
+        <button type="button" className={styles.skipButton} onClick={skip}>
+          Skip ↓
+        </button>
+      </div>
+
+      <SessionCompleteModal />
+    </div>
+  );
+}
+
+/**
+ * Grid overlay component - entry point for the mechanic.
+ */
+export function RankingGridOverlay({ position }: GridOverlayProps) {
+  const { cards } = useCollectionData();
+  const sourceId = useActiveSourceUrl();
+  const isActive = useRankingSessionStore((s) => s.isActive);
+  const phase = useRankingSessionStore((s) => s.phase);
+  const startSession = useRankingSessionStore((s) => s.startSession);
+
+  useEffect(() => {
+    if (!isActive || phase !== "setup") return;
+    // Check for empty cards array
+    if (cards.length === 0) return;
+
+    startSession({
+      sourceId,
+      cards: cards.map((card) => ({ id: card.id, title: card.title, imageUrl: card.imageUrl })),
+    });
+  }, [isActive, phase, cards, sourceId, startSession]);
+
+  if (position !== "bottom") return null;
+
+  return <RankingOverlayContent />;
+}
@@ -0,0 +1,144 @@
+/**
+ * My Ranking export.
+ *
+ * Turns the personal ranking into CSV or a Markdown table for download.
+ */
+
+import { escapeCsvValue } from "@/lib/collectionExport";
+import { getCardRating, rankCardIds, type CardRating } from "@/utils/eloRanking";
+
+/**
+ * Export formats offered for a ranking.
+ */
+export type RankingExportFormat = "csv" | "markdown";
+
+/**
+ * One row of an exported ranking.
+ */
+export interface RankingRow {
+  /** Position, 1 = favourite */
+  rank: number;
+  /** Card ID */
+  id: string;
+  /** Card title */
+  title: string;
+  /** Elo rating (rounded) */
+  rating: number;
+  /** Comparisons the card has taken part in */
+  comparisons: number;
+}
+
+/**
+ * Build the rows of a ranking, favourite first.
+ *
+ * @param cards - Cards being ranked, in collection order
+ * @param ratings - Ratings by card ID
+ * @returns One row per compared card
+ *
+ * @example
+ * ```ts
+ * const rows = buildRankingRows(cards, getSourceRanking(rankings, url).ratings);
+ * ```
+ */
+export function buildRankingRows(
+  cards: readonly { id: string; title: string }[],
+  ratings: Record<string, CardRating>
+): RankingRow[] {
+  const titles = new Map(cards.map((card) => [card.id, card.title]));
+  return rankCardIds(
+    cards.map((card) => card.id),
+    ratings
+  ).map((id, index) => {
+    const { rating, comparisons } = getCardRating(ratings, id);
+    return { rank: index + 1, id, title: titles.get(id) ?? id, rating: Math.round(rating), comparisons };
+  });
+}
+
+/**
+ * Format a ranking as CSV.
+ *
+ * @param rows - Ranking rows
+ * @returns CSV with a header row
+ *
+ * @example
+ * ```ts
+ * formatRankingCsv(rows);
+ * // rank,title,id,rating,comparisons
+ * // 1,Chrono Trigger,chrono-trigger,1612,9
+ * ```
+ */
+export function formatRankingCsv(rows: readonly RankingRow[]): string {
+  const lines = rows.map((row) =>
+    [row.rank, row.title, row.id, row.rating, row.comparisons].map(escapeCsvValue).join(",")
+  );
+  return ["rank,title,id,rating,comparisons", ...lines].join("\n");
+}
+
+/**
+ * Escape text for a Markdown table cell.
+ */
+function escapeMarkdownCell(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/\|/g, "\\|").replace(/[\r\n]+/g, " ");
+}
+
+/**
+ * Format a ranking as a Markdown table.
+ *
+ * @param rows - Ranking rows
+ * @param title - Heading for the document
+ * @returns Markdown document
+ *
+ * @example
+ * ```ts
+ * formatRankingMarkdown(rows, "My Ranking: Retro Games");
+ * ```
+ */
+export function formatRankingMarkdown(rows: readonly RankingRow[], title: string): string {
+  const lines = [`# ${escapeMarkdownCell(title)}`, ""];
+  if (rows.length === 0) {
+    lines.push("No cards ranked yet.");
+    return lines.join("\n");
+  }
+
+  lines.push("| Rank | Title | Rating | Comparisons |", "| ---: | --- | ---: | ---: |");
+  for (const row of rows) {
+    lines.push(
+      `| ${String(row.rank)} | ${escapeMarkdownCell(row.title)} | ${String(row.rating)} | ${String(row.comparisons)} |`
+    );
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Download a ranking as a CSV or Markdown file.
+ *
+ * @param rows - Ranking rows
+ * @param format - File format
+ * @param name - Collection name, used in the heading and filename
+ *
+ * @example
+ * ```ts
+ * downloadRanking(rows, "csv", "Retro Games");
+ * ```
+ */
+export function downloadRanking(
+  rows: readonly RankingRow[],
+  format: RankingExportFormat,
+  name: string
+): void {
+  const content =
+    format === "csv" ? formatRankingCsv(rows) : formatRankingMarkdown(rows, `My Ranking: ${name}`);
+  const blob = new Blob([content], { type: format === "csv" ? "text/csv" : "text/markdown" });
+  const url = URL.createObjectURL(blob);
+
+  // Generate filename with collection and date
+  const date = new Date().toISOString().split("T")[0] ?? "unknown-date";
+  const slug = name.replace(/[^a-z0-9]/gi, "-").toLowerCase().slice(0, 30);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `ranking-${slug}-${date}${format === "csv" ? ".csv" : ".md"}`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,113 @@
+/**
+ * My Ranking mechanic.
+ *
+ * Shows two cards at a time and asks which the player prefers. Pairs are
+ * chosen adaptively and answers update Elo ratings per source, converging
+ * to a personal ranking used for sorting, rank badges and export.
+ */
+
+import { useRankingSessionStore } from "./store";
+import { RankingGridOverlay } from "./components";
+import { RankingSettingsPanel } from "./Settings";
+import { RANKING_ACHIEVEMENTS, getRankingEvents } from "./achievements";
+import { DEFAULT_SETTINGS, MIN_RANKING_CARDS } from "./types";
+import type { Mechanic, CardActions } from "../types";
+import type { RankingSettings } from "./types";
+
+/**
+ * My Ranking icon - podium.
+ */
+function RankingIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      className={className}
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      {/* Podium with the winner's block in the middle */}
+      <path d="M9 21V9h6v12" />
+      <path d="M3 21v-7h6" />
+      <path d="M15 17h6v4" />
+      <path d="M2 21h20" />
+      <path d="M12 3l.9 1.8 2 .3-1.45 1.4.35 2-1.8-.95-1.8.95.35-2L9.1 5.1l2-.3z" />
+    </svg>
+  );
+}
+
+/**
+ * My Ranking mechanic implementation.
+ */
+export const rankingMechanic: Mechanic<RankingSettings> = {
+  manifest: {
+    id: "ranking",
+    name: "My Ranking",
+    description: "Pick your favourite of two cards at a time to build your own ranking of the collection.",
+    icon: RankingIcon,
+    version: "1.0.0",
+    minCards: MIN_RANKING_CARDS,
+    displayPreferences: {
+      cardSizePreset: "small",
+      hideCardGrid: true,
+      uiMode: "fullscreen",
+    },
+  },
+
+  lifecycle: {
+    onActivate: () => {
+      useRankingSessionStore.getState().activate();
+    },
+    onDeactivate: () => {
+      useRankingSessionStore.getState().deactivate();
+    },
+    onReset: () => {
+      useRankingSessionStore.getState().resetGame();
+    },
+  },
+
+  getState: () => useRankingSessionStore.getState(),
+
+  subscribe: (listener) => {
+    return useRankingSessionStore.subscribe((state) => {
+      listener(state);
+    });
+  },
+
+  getCardActions: (): CardActions => ({
+    // Cards are shown in the ranking overlay, no direct grid interaction
+    canInteract: () => false,
+  }),
+
+  CardOverlay: undefined,
+  GridOverlay: RankingGridOverlay,
+  Settings: RankingSettingsPanel,
+
+  defaultSettings: DEFAULT_SETTINGS,
+
+  getSettings: (): RankingSettings => {
+    const state = useRankingSessionStore.getState();
+    return {
+      sessionLength: state.sessionLength,
+    };
+  },
+
+  setSettings: (settings) => {
+    const store = useRankingSessionStore.getState();
+    if (settings.sessionLength !== undefined) {
+      store.setSessionLength(settings.sessionLength);
+    }
+  },
+
+  achievements: RANKING_ACHIEVEMENTS,
+
+  subscribeEvents: (listener) => {
+    return useRankingSessionStore.subscribe((state, previous) => {
+      getRankingEvents(state, previous).forEach(listener);
+    });
+  },
+};
+
+export { useRankingSessionStore };
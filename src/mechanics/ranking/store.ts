@@ -0,0 +1,192 @@
+/**
+ * Zustand store for My Ranking mechanic.
+ *
+ * Manages the session: which pair is shown and how many preferences have
+ * been given. Preferences themselves live in the persisted ranking store
+ * so the card grid can sort by them without loading the mechanic; the
+ * session keeps ratings fitted from them to choose pairs.
+ */
+
+import { create } from "zustand";
+import { getSourceRanking, useRankingStore } from "@/stores/rankingStore";
+import { indexById } from "@/utils/safeRecord";
+import {
+  fitRatings,
+  isRankingSettled,
+  selectNextPair,
+  type CardRating,
+} from "@/utils/eloRanking";
+import type {
+  RankingSessionConfig,
+  RankingSettings,
+  RankingState,
+  SessionLengthOption,
+} from "./types";
+import { DEFAULT_SETTINGS, MIN_RANKING_CARDS } from "./types";
+
+/**
+ * Extended store state with actions.
+ */
+interface RankingStore extends RankingState, RankingSettings {
+  // Lifecycle
+  activate: () => void;
+  deactivate: () => void;
+  resetGame: () => void;
+  startSession: (config: RankingSessionConfig) => void;
+
+  // Session actions
+  choose: (winnerId: string) => void;
+  skip: () => void;
+  keepRanking: () => void;
+
+  // Settings
+  setSessionLength: (sessionLength: SessionLengthOption) => void;
+}
+
+/**
+ * Initial state.
+ */
+const INITIAL_STATE: RankingState = {
+  isActive: false,
+  phase: "setup",
+  sourceId: "",
+  cards: {},
+  cardIds: [],
+  ratings: {},
+  pair: null,
+  sessionComparisons: 0,
+  skipped: 0,
+  settled: false,
+  refining: false,
+  sessionStartedAt: 0,
+  sessionEndedAt: null,
+  errorMessage: null,
+};
+
+/**
+ * Fit ratings to the source's saved preferences.
+ */
+function fitSourceRatings(
+  sourceId: string,
+  cardIds: readonly string[],
+  previous?: Record<string, CardRating>
+): Record<string, CardRating> {
+  const { wins } = getSourceRanking(useRankingStore.getState().rankings, sourceId);
+  return fitRatings(cardIds, wins, previous);
+}
+
+/**
+ * My Ranking store.
+ */
+export const useRankingSessionStore = create<RankingStore>((set, get) => ({
+  // Initial state
+  ...INITIAL_STATE,
+  ...DEFAULT_SETTINGS,
+
+  // Lifecycle
+  activate: () => {
+    set({ ...INITIAL_STATE, isActive: true });
+  },
+
+  deactivate: () => {
+    set({ ...INITIAL_STATE, isActive: false });
+  },
+
+  resetGame: () => {
+    // Back to setup: the overlay starts a fresh session from the collection.
+    // The ranking itself is kept; it is cleared from the settings panel.
+    set({ ...INITIAL_STATE, isActive: get().isActive });
+  },
+
+  startSession: (config: RankingSessionConfig) => {
+    const { isActive } = get();
+
+    const cards = indexById(config.cards);
+    const cardIds = Object.keys(cards);
+
+    const ratings = fitSourceRatings(config.sourceId, cardIds);
+    const pair = cardIds.length >= MIN_RANKING_CARDS ? selectNextPair(cardIds, ratings) : null;
+    const settled = isRankingSettled(cardIds, ratings);
+
+    if (!pair) {
+      set({
+        ...INITIAL_STATE,
+        isActive,
+        errorMessage: `My Ranking needs at least ${String(MIN_RANKING_CARDS)} cards to compare.`,
+      });
+      return;
+    }
+
+    set({
+      ...INITIAL_STATE,
+      isActive,
+      phase: "comparing",
+      sourceId: config.sourceId,
+      cards,
+      cardIds,
+      ratings,
+      pair,
+      settled,
+      // A settled ranking is refined rather than finished again
+      refining: settled,
+      sessionStartedAt: Date.now(),
+    });
+  },
+
+  // Session actions
+  choose: (winnerId: string) => {
+    const { phase, pair, sourceId, cardIds, sessionLength, refining } = get();
+    if (phase !== "comparing" || !pair?.includes(winnerId)) return;
+
+    const loserId = pair[0] === winnerId ? pair[1] : pair[0];
+    useRankingStore.getState().recordComparison(sourceId, winnerId, loserId);
+
+    const ratings = fitSourceRatings(sourceId, cardIds, get().ratings);
+    const sessionComparisons = get().sessionComparisons + 1;
+    const settled = isRankingSettled(cardIds, ratings);
+    const isComplete =
+      (sessionLength > 0 && sessionComparisons >= sessionLength) || (settled && !refining);
+
+    if (isComplete) {
+      set({ phase: "complete", ratings, sessionComparisons, settled, sessionEndedAt: Date.now() });
+      return;
+    }
+
+    set({
+      ratings,
+      sessionComparisons,
+      settled,
+      pair: selectNextPair(cardIds, ratings, { previous: pair }),
+    });
+  },
+
+  skip: () => {
+    const { phase, pair, cardIds, ratings } = get();
+    if (phase !== "comparing" || !pair) return;
+
+    set({
+      skipped: get().skipped + 1,
+      pair: selectNextPair(cardIds, ratings, { previous: pair }),
+    });
+  },
+
+  keepRanking: () => {
+    const { phase, pair, cardIds, ratings, settled } = get();
+    if (phase !== "complete") return;
+
+    set({
+      phase: "comparing",
+      sessionComparisons: 0,
+      skipped: 0,
+      refining: settled,
+      sessionStartedAt: Date.now(),
+      sessionEndedAt: null,
+      pair: selectNextPair(cardIds, ratings, { previous: pair }),
+    });
+  },
+
+  // Settings
+  setSessionLength: (sessionLength: SessionLengthOption) => {
+    set({ sessionLength });
+  },
+}));
@@ -0,0 +1,117 @@
+/**
+ * Type definitions for My Ranking mechanic.
+ *
+ * Two cards are shown at a time and the player picks the one they prefer.
+ * Answers update Elo ratings kept per source, which converge to a personal
+ * ranking of the whole collection.
+ */
+
+import type { MechanicState } from "../types";
+import type { CardRating } from "@/utils/eloRanking";
+
+/**
+ * Session phase.
+ */
+export type RankingPhase =
+  | "setup" // Preparing session
+  | "comparing" // Waiting for a preference
+  | "complete"; // Session length reached or ranking settled
+
+/**
+ * A card that can be ranked.
+ */
+export interface RankingCard {
+  id: string;
+  title: string;
+  imageUrl: string;
+}
+
+/**
+ * Session initialisation configuration.
+ */
+export interface RankingSessionConfig {
+  /** Source URL the ranking belongs to */
+  sourceId: string;
+  /** Cards to rank */
+  cards: RankingCard[];
+}
+
+/**
+ * My Ranking session state.
+ */
+export interface RankingState extends MechanicState {
+  /** Whether the mechanic is active */
+  isActive: boolean;
+
+  /** Current phase */
+  phase: RankingPhase;
+
+  /** Source URL the ratings are stored under */
+  sourceId: string;
+
+  /** Cards being ranked, keyed by ID */
+  cards: Record<string, RankingCard>;
+
+  /** Card IDs in collection order */
+  cardIds: string[];
+
+  /** Ratings fitted from the source's saved preferences */
+  ratings: Record<string, CardRating>;
+
+  /** Cards currently shown (left, right) */
+  pair: [string, string] | null;
+
+  /** Preferences given this session */
+  sessionComparisons: number;
+
+  /** Pairs skipped this session */
+  skipped: number;
+
+  /** Whether the ranking has converged to a full order */
+  settled: boolean;
+
+  /** Whether the session refines an already settled ranking */
+  refining: boolean;
+
+  /** Session start time */
+  sessionStartedAt: number;
+
+  /** Session end time (null while comparing) */
+  sessionEndedAt: number | null;
+
+  /** Error message if the collection cannot be ranked */
+  errorMessage: string | null;
+}
+
+/**
+ * Comparisons per session (0 = until the ranking settles).
+ */
+export const SESSION_LENGTH_OPTIONS = [10, 25, 50, 0] as const;
+export type SessionLengthOption = (typeof SESSION_LENGTH_OPTIONS)[number];
+
+/**
+ * Get label for a session length.
+ */
+export function getSessionLengthLabel(length: SessionLengthOption): string {
+  return length === 0 ? "Until settled" : String(length);
+}
+
+/**
+ * My Ranking settings.
+ */
+export interface RankingSettings {
+  /** Comparisons before the session ends (0 = until the ranking settles) */
+  sessionLength: SessionLengthOption;
+}
+
+/**
+ * Default settings.
+ */
+export const DEFAULT_SETTINGS: RankingSettings = {
+  sessionLength: 25,
+};
+
+/**
+ * Minimum cards needed to rank.
+ */
+export const MIN_RANKING_CARDS = 2;
@@ -1,8 +1,19 @@
+/**
+ * Message for the personal-best line.
+ */
+function getPersonalBestMessage({ isPersonalBest, previousBestScore }: PersonalBestInfo): string {
+  if (previousBestScore === null) return "First game with these settings!";
+  return isPersonalBest
+    ? `New personal best! Previous best: ${String(previousBestScore)}`
+    : `Personal best: ${String(previousBestScore)}`;
+}
+
 /**
  * Game completion modal component.
  *
  * Displays game results with consistent styling across all game mechanics.
  * Supports customisable stats, actions, and children for mechanic-specific content.
+ * Shows personal-best details from the game history when provided.
  */
 
 import type { ReactNode } from "react";
@@ -29,6 +40,16 @@ export interface ActionButton {
   onClick: () => void;
 }
 
+/**
+ * Personal-best details for a finished game.
+ */
+export interface PersonalBestInfo {
+  /** Whether the game beat every earlier game with the same settings */
+  isPersonalBest: boolean;
+  /** Best earlier score with the same settings, or null for a first game */
+  previousBestScore: number | null;
+}
+
 /**
  * Props for the GameCompletionModal component.
  */
@@ -49,6 +70,8 @@ export interface GameCompletionModalProps {
   onExit: () => void;
   /** Exit button label (default: "Exit") */
   exitLabel?: string;
+  /** Personal-best details from the game history */
+  personalBest?: PersonalBestInfo;
   /** Custom content below stats (for mechanic-specific content) */
   children?: ReactNode;
 }
@@ -88,6 +111,7 @@ export function GameCompletionModal({
   secondaryAction,
   onExit,
   exitLabel = "End Game",
+  personalBest,
   children,
 }: GameCompletionModalProps) {
   return (
@@ -130,6 +154,17 @@ export function GameCompletionModal({
               ))}
             </div>
 
+            {personalBest && (
+              <p
+                className={[
+                  styles.personalBest,
+                  personalBest.isPersonalBest ? styles.personalBestNew : "",
+                ].filter(Boolean).join(" ")}
+              >
+                {getPersonalBestMessage(personalBest)}
+              </p>
+            )}
+
             {children}
 
             {/* Main action buttons: End Game | Play Again */}
@@ -13,4 +13,5 @@ export type {
   GameCompletionModalProps,
   StatItem,
   ActionButton,
+  PersonalBestInfo,
 } from "./GameCompletionModal";
@@ -6,6 +6,8 @@ export { useMechanicActions } from "./useMechanicActions";
 export type { UseMechanicActionsResult } from "./useMechanicActions";
 export { useGameTimer } from "./useGameTimer";
 export type { UseGameTimerOptions, UseGameTimerResult } from "./useGameTimer";
+export { useGameResult } from "./useGameResult";
+export type { FinishedGame } from "./useGameResult";
 export { useDisplayConfig } from "./useDisplayConfig";
 export type {
   UseDisplayConfigOptions,
@@ -0,0 +1,74 @@
+/**
+ * Hook recording finished games in the game history.
+ *
+ * Each mechanic passes its finished game (or null while playing); the game
+ * is logged once, against the active collection, and the hook reports
+ * whether it is a personal best for the settings it was played with.
+ */
+
+import { useEffect, useRef, useState } from "react";
+import { useActiveSourceUrl } from "@/stores/sourceStore";
+import { gameHistory, type GameResult } from "@/services/gameHistory";
+import type { PersonalBestInfo } from "../components/GameCompletionModal";
+
+/**
+ * A finished game as reported by a mechanic. The collection is added by the
+ * hook.
+ */
+export type FinishedGame = Omit<GameResult, "id" | "sourceId">;
+
+/**
+ * Record a finished game and report personal-best details.
+ *
+ * @param game - The finished game, or null while the game is in progress
+ * @returns Personal-best details once recorded, otherwise null
+ *
+ * @example
+ * const personalBest = useGameResult(
+ *   isComplete && endTime
+ *     ? { mechanicId: "memory", settings: { difficulty, pairCount }, score, durationMs, completedAt: endTime }
+ *     : null
+ * );
+ *
+ * <GameCompletionModal personalBest={personalBest ?? undefined} ... />
+ */
+export function useGameResult(game: FinishedGame | null): PersonalBestInfo | null {
+  const sourceId = useActiveSourceUrl();
+  const [personalBest, setPersonalBest] = useState<PersonalBestInfo | null>(null);
+
+  // Latest game, read when its completion time changes
+  const gameRef = useRef(game);
+  gameRef.current = game;
+  // Completion time of the last recorded game, so each game is logged once
+  const recordedRef = useRef<number | null>(null);
+
+  const completedAt = game?.completedAt ?? null;
+
+  useEffect(() => {
+    const finished = gameRef.current;
+    if (completedAt === null || !finished) {
+      setPersonalBest(null);
+      return;
+    }
+    if (recordedRef.current === completedAt) return;
+    recordedRef.current = completedAt;
+
+    let cancelled = false;
+    gameHistory
+      .record({ ...finished, sourceId })
+      .then(({ isPersonalBest, previousBest }) => {
+        if (!cancelled) {
+          setPersonalBest({ isPersonalBest, previousBestScore: previousBest?.score ?? null });
+        }
+      })
+      .catch((error: unknown) => {
+        console.warn("[gameHistory] Failed to record result:", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [completedAt, sourceId]);
+
+  return personalBest;
+}
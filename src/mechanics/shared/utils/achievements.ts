@@ -0,0 +1,93 @@
+/**
+ * Achievement matching and event helpers.
+ *
+ * Mechanics declare their achievements as data and emit events while they
+ * run; an achievement is earned by the first event that meets all of its
+ * criteria. Matching is kept free of store access so definitions can be
+ * checked against any event.
+ */
+
+import type { AchievementCriterion, AchievementDefinition, MechanicEvent } from "../../types";
+
+/**
+ * Event emitter for mechanics whose events do not come from a store
+ * transition.
+ */
+export interface MechanicEvents {
+  /** Send an event to all listeners */
+  emit: (event: MechanicEvent) => void;
+  /** Listen for events; returns an unsubscribe function */
+  subscribe: (listener: (event: MechanicEvent) => void) => () => void;
+}
+
+/**
+ * Check one criterion against event data.
+ */
+function meetsCriterion(data: MechanicEvent["data"], criterion: AchievementCriterion): boolean {
+  if (!Object.hasOwn(data, criterion.field)) return false;
+  const value = data[criterion.field];
+
+  if (criterion.equals !== undefined && value !== criterion.equals) return false;
+  if (criterion.min !== undefined && (typeof value !== "number" || value < criterion.min)) {
+    return false;
+  }
+  if (criterion.max !== undefined && (typeof value !== "number" || value > criterion.max)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Check whether an event earns an achievement.
+ *
+ * @param definition - Achievement definition
+ * @param event - Event emitted by the mechanic
+ * @returns True when the event type matches and every criterion is met
+ *
+ * @example
+ * ```ts
+ * matchesAchievement(
+ *   { id: "streak-10", name: "On a Roll", description: "…", event: "answer",
+ *     criteria: [{ field: "streak", min: 10 }] },
+ *   { type: "answer", data: { streak: 10 } }
+ * ); // true
+ * ```
+ */
+export function matchesAchievement(
+  definition: AchievementDefinition,
+  event: MechanicEvent
+): boolean {
+  return (
+    definition.event === event.type &&
+    definition.criteria.every((criterion) => meetsCriterion(event.data, criterion))
+  );
+}
+
+/**
+ * Create an event emitter for a mechanic.
+ *
+ * @returns Emitter whose `subscribe` can back `Mechanic.subscribeEvents`
+ *
+ * @example
+ * ```ts
+ * export const collectionEvents = createMechanicEvents();
+ * collectionEvents.emit({ type: "goal-complete", data: {} });
+ * ```
+ */
+export function createMechanicEvents(): MechanicEvents {
+  const listeners = new Set<(event: MechanicEvent) => void>();
+
+  return {
+    emit: (event) => {
+      for (const listener of listeners) {
+        listener(event);
+      }
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
@@ -0,0 +1,216 @@
+/**
+ * Seeded game challenges.
+ *
+ * A challenge is a mechanic, its settings and a seed for the random source,
+ * so everyone playing it gets the same layout or questions. Daily challenges
+ * derive the seed from the date and collection; any challenge can be shared
+ * as a link that loads the collection and opens the game with its settings.
+ */
+
+import { seededRandom, type RandomSource } from "@/utils/shuffle";
+import { getBasePath } from "@/config/basePath";
+
+/**
+ * URL parameter names for shared challenges.
+ */
+export const CHALLENGE_PARAMS = {
+  mechanic: "game",
+  seed: "seed",
+  settings: "settings",
+} as const;
+
+/**
+ * Longest settings parameter accepted from a link.
+ */
+const MAX_SETTINGS_PARAM_LENGTH = 2000;
+
+/**
+ * A seeded game that can be replayed or shared.
+ */
+export interface GameChallenge {
+  /** Mechanic ID */
+  mechanicId: string;
+  /** Seed for the game's random source */
+  seed: number;
+  /** Mechanic settings (untrusted until the mechanic parses them) */
+  settings: Record<string, unknown>;
+}
+
+/**
+ * Hash a string to a 32-bit seed (FNV-1a).
+ *
+ * @param value - Text to hash
+ * @returns Unsigned 32-bit seed
+ *
+ * @example
+ * ```ts
+ * hashSeed("2026-10-19|https://example.com/collection.json");
+ * ```
+ */
+export function hashSeed(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash = Math.imul(hash ^ value.charCodeAt(i), 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Create a new random seed.
+ *
+ * @returns Unsigned 32-bit seed
+ *
+ * @example
+ * ```ts
+ * const seed = createGameSeed();
+ * ```
+ */
+export function createGameSeed(): number {
+  return Math.floor(Math.random() * 0x100000000);
+}
+
+/**
+ * Parse a seed from an untrusted value.
+ *
+ * @param value - Number or numeric string
+ * @returns The seed, or null when it is not an unsigned 32-bit integer
+ *
+ * @example
+ * ```ts
+ * parseSeed("12345"); // 12345
+ * parseSeed("-1");    // null
+ * ```
+ */
+export function parseSeed(value: unknown): number | null {
+  const seed = typeof value === "string" && /^\d{1,10}$/.test(value) ? Number(value) : value;
+  return typeof seed === "number" && Number.isInteger(seed) && seed >= 0 && seed < 0x100000000
+    ? seed
+    : null;
+}
+
+/**
+ * Random source for a game: seeded when the game has a seed.
+ *
+ * @param seed - Game seed, or null for an unseeded game
+ * @returns Random source
+ *
+ * @example
+ * ```ts
+ * const deck = shuffle(cardIds, createGameRandom(state.seed));
+ * ```
+ */
+export function createGameRandom(seed: number | null): RandomSource {
+  return seed === null ? Math.random : seededRandom(seed);
+}
+
+/**
+ * Put items in a fixed order before a seeded shuffle.
+ *
+ * Cards reach mechanics in display order, which depends on the player's
+ * sort and shuffle settings, so seeded games sort by ID first.
+ *
+ * @param items - Items to order
+ * @param getId - Stable ID of an item
+ * @returns Items sorted by ID (code unit order, independent of locale)
+ *
+ * @example
+ * ```ts
+ * const deck = shuffle(inSeedOrder(cards, (card) => card.id), random);
+ * ```
+ */
+export function inSeedOrder<T>(items: readonly T[], getId: (item: T) => string): T[] {
+  return [...items].sort((a, b) => {
+    const idA = getId(a);
+    const idB = getId(b);
+    return idA < idB ? -1 : idA > idB ? 1 : 0;
+  });
+}
+
+/**
+ * Local calendar date key for a daily challenge.
+ *
+ * @param date - Date of the challenge
+ * @returns Date as YYYY-MM-DD
+ *
+ * @example
+ * ```ts
+ * getChallengeDateKey(new Date(2026, 9, 19)); // "2026-10-19"
+ * ```
+ */
+export function getChallengeDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${String(date.getFullYear())}-${month}-${day}`;
+}
+
+/**
+ * Seed for a collection's daily challenge.
+ *
+ * @param collectionId - Collection source URL
+ * @param date - Day of the challenge (defaults to today)
+ * @returns The same seed for everyone playing that collection that day
+ *
+ * @example
+ * ```ts
+ * const seed = getDailySeed(sourceUrl);
+ * ```
+ */
+export function getDailySeed(collectionId: string, date: Date = new Date()): number {
+  return hashSeed(`${getChallengeDateKey(date)}|${collectionId}`);
+}
+
+/**
+ * Build a shareable link for a challenge.
+ *
+ * @param challenge - The challenge to share
+ * @param collectionUrl - Collection source URL
+ * @param origin - Origin of the link (defaults to the current origin)
+ * @returns Absolute URL that loads the collection and the challenge
+ *
+ * @example
+ * ```ts
+ * buildChallengeUrl({ mechanicId: "memory", seed: 42, settings }, sourceUrl);
+ * ```
+ */
+export function buildChallengeUrl(
+  challenge: GameChallenge,
+  collectionUrl: string,
+  origin: string = window.location.origin
+): string {
+  const params = new URLSearchParams();
+  params.set("collection", collectionUrl);
+  params.set(CHALLENGE_PARAMS.mechanic, challenge.mechanicId);
+  params.set(CHALLENGE_PARAMS.seed, String(challenge.seed));
+  params.set(CHALLENGE_PARAMS.settings, JSON.stringify(challenge.settings));
+  return `${origin}${getBasePath()}?${params.toString()}`;
+}
+
+/**
+ * Read a challenge from link parameters.
+ *
+ * @param searchParams - URL search parameters
+ * @returns The challenge, or null when the link has none or it is malformed
+ *
+ * @example
+ * ```ts
+ * const challenge = parseChallengeParams(new URLSearchParams(window.location.search));
+ * ```
+ */
+export function parseChallengeParams(searchParams: URLSearchParams): GameChallenge | null {
+  const mechanicId = searchParams.get(CHALLENGE_PARAMS.mechanic);
+  const seed = parseSeed(searchParams.get(CHALLENGE_PARAMS.seed));
+  if (!mechanicId || !/^[a-z0-9-]{1,50}$/.test(mechanicId) || seed === null) return null;
+
+  const settingsParam = searchParams.get(CHALLENGE_PARAMS.settings) ?? "{}";
+  if (settingsParam.length > MAX_SETTINGS_PARAM_LENGTH) return null;
+
+  let settings: unknown;
+  try {
+    settings = JSON.parse(settingsParam);
+  } catch {
+    return null;
+  }
+  if (typeof settings !== "object" || settings === null || Array.isArray(settings)) return null;
+
+  return { mechanicId, seed, settings: settings as Record<string, unknown> };
+}
@@ -0,0 +1,60 @@
+/**
+ * Mechanic eligibility for a collection.
+ *
+ * Mechanics that declare required fields are only offered when enough
+ * cards carry those fields to meet the mechanic's minimum card count.
+ * Mechanics can accept other fields from the collection with hasFields.
+ */
+
+import { resolveFieldPath } from "@/utils/fieldPathResolver";
+import type { FilterField } from "@/utils/filterMatch";
+import type { MechanicManifest } from "../../types";
+
+/**
+ * Count the cards that have a value for every required field.
+ *
+ * @param cards - Collection cards
+ * @param requiredFields - Field paths each card must have
+ * @returns Number of cards with all fields present and non-empty
+ *
+ * @example
+ * ```ts
+ * countCardsWithFields(cards, ["year"]);
+ * ```
+ */
+export function countCardsWithFields(
+  cards: readonly object[],
+  requiredFields: readonly string[]
+): number {
+  return cards.filter((card) =>
+    requiredFields.every((field) => {
+      const value = resolveFieldPath(card as Record<string, unknown>, field);
+      return value !== undefined && value !== null && value !== "";
+    })
+  ).length;
+}
+
+/**
+ * Whether a collection has the fields a mechanic needs.
+ *
+ * @param manifest - Mechanic manifest
+ * @param cards - Collection cards
+ * @param filterFields - Filter fields from the collection schema
+ * @returns True when the mechanic has no required fields, at least
+ *   `minCards` cards carry all of them, or the manifest's hasFields accepts
+ *   the collection's other fields
+ *
+ * @example
+ * ```ts
+ * const eligible = mechanics.filter((manifest) => hasRequiredFields(manifest, cards, filterFields));
+ * ```
+ */
+export function hasRequiredFields(
+  manifest: MechanicManifest,
+  cards: readonly object[],
+  filterFields: readonly FilterField[] = []
+): boolean {
+  if (!manifest.requiredFields?.length) return true;
+  if (countCardsWithFields(cards, manifest.requiredFields) >= (manifest.minCards ?? 1)) return true;
+  return manifest.hasFields?.(cards, filterFields) ?? false;
+}
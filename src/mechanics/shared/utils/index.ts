@@ -3,3 +3,19 @@
  */
 
 export { formatTime } from "./formatTime";
+export {
+  CHALLENGE_PARAMS,
+  hashSeed,
+  createGameSeed,
+  parseSeed,
+  createGameRandom,
+  inSeedOrder,
+  getChallengeDateKey,
+  getDailySeed,
+  buildChallengeUrl,
+  parseChallengeParams,
+} from "./challenge";
+export type { GameChallenge } from "./challenge";
+export { matchesAchievement, createMechanicEvents } from "./achievements";
+export type { MechanicEvents } from "./achievements";
+export { countCardsWithFields, hasRequiredFields } from "./eligibility";
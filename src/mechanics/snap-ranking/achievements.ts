@@ -0,0 +1,65 @@
+/**
+ * Snap Ranking achievements.
+ *
+ * Events are derived from store transitions: "game-complete" fires when the
+ * last card has been guessed.
+ */
+
+import type { AchievementDefinition, MechanicEvent } from "../types";
+import type { SnapRankingState } from "./types";
+
+/**
+ * Achievements awarded by Snap Ranking.
+ */
+export const SNAP_RANKING_ACHIEVEMENTS: AchievementDefinition[] = [
+  {
+    id: "first-game",
+    name: "Snap Judgement",
+    description: "Finish a game of Snap Ranking",
+    event: "game-complete",
+    criteria: [],
+  },
+  {
+    id: "all-exact",
+    name: "Sharp Eye",
+    description: "Guess 10 or more cards in a Snap Ranking game, all exactly right",
+    event: "game-complete",
+    criteria: [
+      { field: "cards", min: 10 },
+      { field: "misses", max: 0 },
+    ],
+  },
+];
+
+/**
+ * Events for a Snap Ranking store transition.
+ *
+ * @param state - New store state
+ * @param previous - Store state before the change
+ * @returns Events to emit (empty for most transitions)
+ *
+ * @example
+ * ```ts
+ * useSnapRankingStore.subscribe((state, previous) => {
+ *   getSnapRankingEvents(state, previous).forEach(listener);
+ * });
+ * ```
+ */
+export function getSnapRankingEvents(
+  state: SnapRankingState,
+  previous: SnapRankingState
+): MechanicEvent[] {
+  if (state.gameEndedAt === null || previous.gameEndedAt !== null) return [];
+
+  const exact = state.guesses.filter((guess) => guess.guess === guess.actualValue).length;
+  return [
+    {
+      type: "game-complete",
+      data: {
+        cards: state.guesses.length,
+        exact,
+        misses: state.guesses.length - exact,
+      },
+    },
+  ];
+}
@@ -9,7 +9,7 @@ import { useEffect, useCallback } from "react";
 import { useSnapRankingStore } from "./store";
 import { useCollectionData } from "@/context/CollectionDataContext";
 import { FloatingTimer, ErrorOverlay, GameCompletionModal } from "../shared";
-import { useMechanicActions, useGameTimer, formatTime } from "../shared";
+import { useMechanicActions, useGameTimer, useGameResult, formatTime } from "../shared";
 import { resolveFieldPath } from "@/utils/fieldPathResolver";
 import { getGuessFeedback } from "./types";
 import type { GuessValue } from "./types";
@@ -238,12 +238,27 @@ function ResultsModal() {
   const guesses = useSnapRankingStore((s) => s.guesses);
   const valueType = useSnapRankingStore((s) => s.valueType);
   const uniqueValues = useSnapRankingStore((s) => s.uniqueValues);
+  const cardCount = useSnapRankingStore((s) => s.cardCount);
+  const gameEndedAt = useSnapRankingStore((s) => s.gameEndedAt);
 
   const { cards } = useCollectionData();
   const { handleExit, handlePlayAgain } = useMechanicActions();
 
   const isComplete = currentIndex >= cardIds.length && cardIds.length > 0;
 
+  const personalBest = useGameResult(
+    isActive && isComplete && gameEndedAt !== null
+      ? {
+          mechanicId: "snap-ranking",
+          settings: { cardCount },
+          score: getTotalScore(),
+          maxScore: getMaxPossibleScore(),
+          durationMs: getTotalTime(),
+          completedAt: gameEndedAt,
+        }
+      : null
+  );
+
   if (!isActive || !isComplete) return null;
 
   const totalScore = getTotalScore();
@@ -273,6 +288,7 @@ function ResultsModal() {
       ]}
       primaryAction={{ label: "Play Again", onClick: handlePlayAgain }}
       onExit={handleExit}
+      personalBest={personalBest ?? undefined}
     >
       {/* Breakdown section */}
       <div className={styles.breakdownSection}>
@@ -8,6 +8,7 @@
 import { useSnapRankingStore } from "./store";
 import { SnapRankingCardOverlay, SnapRankingGridOverlay } from "./components";
 import { SnapRankingSettingsPanel } from "./Settings";
+import { SNAP_RANKING_ACHIEVEMENTS, getSnapRankingEvents } from "./achievements";
 import { DEFAULT_SETTINGS } from "./types";
 import type { Mechanic, CardActions } from "../types";
 import type { SnapRankingSettings } from "./types";
@@ -117,6 +118,14 @@ export const snapRankingMechanic: Mechanic<SnapRankingSettings> = {
       store.setCardCount(settings.cardCount);
     }
   },
+
+  achievements: SNAP_RANKING_ACHIEVEMENTS,
+
+  subscribeEvents: (listener) => {
+    return useSnapRankingStore.subscribe((state, previous) => {
+      getSnapRankingEvents(state, previous).forEach(listener);
+    });
+  },
 };
 
 export { useSnapRankingStore };
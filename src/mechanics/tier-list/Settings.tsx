@@ -0,0 +1,84 @@
+/**
+ * Settings panel for Tier List mechanic.
+ */
+
+import { useActiveSourceUrl } from "@/stores/sourceStore";
+import { getSourceTierList, useTierListStore } from "@/stores/tierListStore";
+import type { MechanicSettingsProps } from "../types";
+import type { TierListSettings } from "./types";
+import styles from "./TierList.module.css";
+
+/**
+ * Tier List settings panel.
+ */
+export function TierListSettingsPanel({
+  settings,
+  onChange,
+  disabled,
+}: MechanicSettingsProps<TierListSettings>) {
+  const sourceId = useActiveSourceUrl();
+  const placed = useTierListStore((s) =>
+    getSourceTierList(s.tierLists, sourceId).rows.reduce((sum, row) => sum + row.cardIds.length, 0)
+  );
+  const hasTierList = useTierListStore((s) => Object.hasOwn(s.tierLists, sourceId));
+  const clearPlacements = useTierListStore((s) => s.clearPlacements);
+  const resetTierList = useTierListStore((s) => s.resetTierList);
+
+  return (
+    <div className={styles.settingsContainer}>
+      {/* Titles */}
+      <div className={styles.settingGroup}>
+        <span className={styles.settingLabel}>Card Titles</span>
+        <div className={styles.options}>
+          {[true, false].map((showTitles) => (
+            <button
+              key={String(showTitles)}
+              type="button"
+              className={`${styles.option ?? ""} ${settings.showTitles === showTitles ? (styles.selected ?? "") : ""}`}
+              onClick={() => { onChange({ showTitles }); }}
+              disabled={disabled}
+            >
+              {showTitles ? "Show" : "Hide"}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Saved tier list */}
+      <div className={styles.settingGroup}>
+        <span className={styles.settingLabel}>Saved Tier List</span>
+        <span className={styles.settingDescription}>
+          {placed === 0
+            ? "No cards placed in this collection yet."
+            : `${String(placed)} cards placed in this collection. Group or filter by Tier to use it in the grid.`}
+        </span>
+        <div className={styles.settingButtons}>
+          <button
+            type="button"
+            className={styles.clearButton}
+            onClick={() => {
+              if (window.confirm("Move every card back to Unplaced?")) {
+                clearPlacements(sourceId);
+              }
+            }}
+            disabled={disabled === true || placed === 0}
+          >
+            Clear Placements
+          </button>
+          <button
+            type="button"
+            className={styles.clearButton}
+            onClick={() => {
+              if (window.confirm("Reset the tiers to S, A, B, C and D and clear all placements?")) {
+                resetTierList(sourceId);
+              }
+            }}
+            disabled={disabled === true || !hasTierList}
+          >
+            Reset Tiers
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
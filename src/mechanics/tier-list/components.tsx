@@ -0,0 +1,474 @@
+/**
+ * Tier List mechanic components.
+ *
+ * Full-screen board with a row per tier and a pool of unplaced cards.
+ * Cards are dragged between rows with @dnd-kit, using the same sensors as
+ * DraggableCardGrid. Rows are renamed, recoloured and reordered in place;
+ * the list can be shared as a link or exported as a PNG.
+ */
+
+import { useCallback, useMemo, useState } from "react";
+import {
+  DndContext,
+  DragOverlay,
+  closestCorners,
+  KeyboardSensor,
+  PointerSensor,
+  TouchSensor,
+  useDroppable,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+  type DragStartEvent,
+} from "@dnd-kit/core";
+import {
+  SortableContext,
+  sortableKeyboardCoordinates,
+  rectSortingStrategy,
+  useSortable,
+} from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
+import { useTierListBoardStore } from "./store";
+import { useCollectionData } from "@/context/CollectionDataContext";
+import { useActiveSourceUrl } from "@/stores/sourceStore";
+import { getSourceTierList, useTierListStore } from "@/stores/tierListStore";
+import { getContrastTextColour } from "@/utils/colourContrast";
+import { indexById } from "@/utils/safeRecord";
+import {
+  MAX_TIER_LABEL_LENGTH,
+  MAX_TIER_ROWS,
+  buildTierListUrl,
+  getTierLabel,
+  type TierRow,
+} from "@/utils/tierList";
+import { useMechanicActions } from "../shared";
+import { downloadTierListImage, renderTierListImage } from "./image";
+import type { GridOverlayProps } from "../types";
+import type { TierListCard } from "./types";
+import styles from "./TierList.module.css";
+
+/**
+ * Droppable ID of the unplaced cards.
+ */
+const POOL_ID = "tier-list:pool";
+
+/**
+ * Droppable ID of a row.
+ */
+function getRowId(rowIndex: number): string {
+  return `tier-list:row:${String(rowIndex)}`;
+}
+
+/**
+ * A draggable card tile.
+ */
+function TierTile({ card }: { card: TierListCard }) {
+  const showTitles = useTierListBoardStore((s) => s.showTitles);
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
+    id: card.id,
+  });
+
+  const style: React.CSSProperties = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+    opacity: isDragging ? 0.4 : 1,
+  };
+
+  return (
+    <li
+      ref={setNodeRef}
+      style={style}
+      className={styles.tile}
+      title={card.title}
+      aria-label={card.title}
+      {...attributes}
+      {...listeners}
+    >
+      <TileFace card={card} showTitle={showTitles} />
+    </li>
+  );
+}
+
+/**
+ * Image and title of a tile (also used for the drag overlay).
+ */
+function TileFace({ card, showTitle }: { card: TierListCard; showTitle: boolean }) {
+  return (
+    <>
+      {card.imageUrl ? (
+        <img className={styles.tileImage} src={card.imageUrl} alt="" draggable={false} />
+      ) : (
+        <div className={styles.tileImage} />
+      )}
+      {showTitle && <span className={styles.tileTitle}>{card.title}</span>}
+    </>
+  );
+}
+
+/**
+ * Sortable drop zone holding the tiles of a row or the pool.
+ */
+function TileZone({
+  id,
+  cards,
+  label,
+  emptyText,
+}: {
+  id: string;
+  cards: TierListCard[];
+  label: string;
+  emptyText?: string;
+}) {
+  const { setNodeRef, isOver } = useDroppable({ id });
+
+  return (
+    <SortableContext items={cards.map((card) => card.id)} strategy={rectSortingStrategy}>
+      <ul
+        ref={setNodeRef}
+        className={[styles.zone, isOver ? styles.zoneOver : ""].filter(Boolean).join(" ")}
+        aria-label={label}
+      >
+        {cards.map((card) => (
+          <TierTile key={card.id} card={card} />
+        ))}
+        {cards.length === 0 && emptyText && <li className={styles.zoneEmpty}>{emptyText}</li>}
+      </ul>
+    </SortableContext>
+  );
+}
+
+/**
+ * A tier row: editable label and colour, tiles and row controls.
+ */
+function TierRowView({
+  row,
+  rowIndex,
+  rowCount,
+  cards,
+}: {
+  row: TierRow;
+  rowIndex: number;
+  rowCount: number;
+  cards: TierListCard[];
+}) {
+  const sourceId = useActiveSourceUrl();
+  const updateRow = useTierListStore((s) => s.updateRow);
+  const moveRow = useTierListStore((s) => s.moveRow);
+  const removeRow = useTierListStore((s) => s.removeRow);
+  const label = getTierLabel(row, rowIndex);
+
+  return (
+    <div className={styles.row}>
+      <div
+        className={styles.rowLabel}
+        style={{ background: row.colour, color: getContrastTextColour(row.colour) }}
+      >
+        <input
+          className={styles.labelInput}
+          value={row.label}
+          placeholder={label}
+          maxLength={MAX_TIER_LABEL_LENGTH}
+          onChange={(e) => { updateRow(sourceId, rowIndex, { label: e.target.value }); }}
+          aria-label={`Name of tier ${String(rowIndex + 1)}`}
+        />
+        <input
+          type="color"
+          className={styles.colourInput}
+          value={row.colour}
+          onChange={(e) => { updateRow(sourceId, rowIndex, { colour: e.target.value }); }}
+          aria-label={`Colour of tier ${label}`}
+        />
+      </div>
+      <TileZone id={getRowId(rowIndex)} cards={cards} label={`Tier ${label}`} />
+      <div className={styles.rowControls}>
+        <button
+          type="button"
+          className={styles.rowButton}
+          onClick={() => { moveRow(sourceId, rowIndex, rowIndex - 1); }}
+          disabled={rowIndex === 0}
+          aria-label={`Move tier ${label} up`}
+        >
+          ▲
+        </button>
+        <button
+          type="button"
+          className={styles.rowButton}
+          onClick={() => { moveRow(sourceId, rowIndex, rowIndex + 1); }}
+          disabled={rowIndex === rowCount - 1}
+          aria-label={`Move tier ${label} down`}
+        >
+          ▼
+        </button>
+        <button
+          type="button"
+          className={styles.rowButton}
+          onClick={() => { removeRow(sourceId, rowIndex); }}
+          disabled={rowCount <= 1}
+          aria-label={`Remove tier ${label}`}
+        >
+          ×
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Share link and PNG export.
+ */
+function ShareActions({
+  rows,
+  cards,
+}: {
+  rows: readonly TierRow[];
+  cards: Readonly<Record<string, TierListCard>>;
+}) {
+  const sourceId = useActiveSourceUrl();
+  const { definition } = useCollectionData();
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const name = definition?.name ?? "Tier List";
+
+  const handleShare = useCallback(() => {
+    const url = buildTierListUrl(rows, sourceId);
+    setShareUrl(url);
+    if (!url) {
+      setStatus("Too many cards to share as a link. Export an image instead.");
+      return;
+    }
+    setStatus("Copy the link above to share it");
+    // The clipboard API is missing outside secure contexts, so any failure
+    // leaves the link in the text field for manual copying
+    void Promise.resolve()
+      .then(() => navigator.clipboard.writeText(url))
+      .then(
+        () => { setStatus("Link copied to clipboard"); },
+        () => undefined
+      );
+  }, [rows, sourceId]);
+
+  const handleExport = useCallback(() => {
+    setIsExporting(true);
+    setStatus(null);
+    renderTierListImage(rows, cards, name)
+      .then(({ blob, missingImages }) => {
+        downloadTierListImage(blob, name);
+        if (missingImages > 0) {
+          setStatus(
+            missingImages === 1
+              ? "1 card image could not be included and was drawn as a titled tile"
+              : `${String(missingImages)} card images could not be included and were drawn ` +
+                "as titled tiles"
+          );
+        }
+      })
+      .catch((err: unknown) => {
+        setStatus(err instanceof Error ? err.message : "Failed to export the image");
+      })
+      .finally(() => { setIsExporting(false); });
+  }, [rows, cards, name]);
+
+  return (
+    <div className={styles.shareActions}>
+      <div className={styles.shareButtons}>
+        {/* Shared links load the collection by URL */}
+        {sourceId && (
+          <button type="button" className={styles.headerButton} onClick={handleShare}>
+            Share Link
+          </button>
+        )}
+        <button
+          type="button"
+          className={styles.headerButton}
+          onClick={handleExport}
+          disabled={isExporting}
+        >
+          {isExporting ? "Exporting…" : "Export PNG"}
+        </button>
+      </div>
+      {shareUrl && (
+        <input
+          type="text"
+          className={styles.shareInput}
+          value={shareUrl}
+          readOnly
+          aria-label="Tier list link"
+          onFocus={(e) => { e.target.select(); }}
+        />
+      )}
+      {status && (
+        <p className={styles.shareStatus} role="status">
+          {status}
+        </p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Main board component.
+ */
+function TierListBoard() {
+  const { cards: collectionCards } = useCollectionData();
+  const sourceId = useActiveSourceUrl();
+  const rows = useTierListStore((s) => getSourceTierList(s.tierLists, sourceId).rows);
+  const placeCard = useTierListStore((s) => s.placeCard);
+  const addRow = useTierListStore((s) => s.addRow);
+  const showTitles = useTierListBoardStore((s) => s.showTitles);
+  const { handleExit } = useMechanicActions();
+  const [activeId, setActiveId] = useState<string | null>(null);
+
+  const cards = useMemo(
+    () =>
+      indexById(
+        collectionCards.map(
+          (card): TierListCard => ({ id: card.id, title: card.title, imageUrl: card.imageUrl })
+        )
+      ),
+    [collectionCards]
+  );
+
+  // Cards in each row (skipping IDs no longer in the collection) and the
+  // unplaced pool in collection order
+  const rowCards = useMemo(
+    () => rows.map((row) => row.cardIds.flatMap((id) => cards[id] ?? [])),
+    [rows, cards]
+  );
+  const poolCards = useMemo(() => {
+    const placed = new Set(rows.flatMap((row) => row.cardIds));
+    return collectionCards
+      .filter((card) => !placed.has(card.id))
+      .flatMap((card) => cards[card.id] ?? []);
+  }, [rows, cards, collectionCards]);
+  const placedCount = collectionCards.length - poolCards.length;
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 8,
+      },
+    }),
+    useSensor(TouchSensor, {
+      activationConstraint: {
+        delay: 150,
+        tolerance: 5,
+      },
+    }),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    })
+  );
+
+  const handleDragStart = useCallback((event: DragStartEvent) => {
+    setActiveId(String(event.active.id));
+  }, []);
+
+  // Drop on a row or the pool appends there; drop on a card takes its place
+  const handleDragEnd = useCallback(
+    (event: DragEndEvent) => {
+      setActiveId(null);
+      const { active, over } = event;
+      if (!over || active.id === over.id) return;
+
+      const cardId = String(active.id);
+      const overId = String(over.id);
+      if (overId === POOL_ID) {
+        placeCard(sourceId, cardId, null);
+        return;
+      }
+
+      const rowIndex = rows.findIndex(
+        (row, index) => getRowId(index) === overId || row.cardIds.includes(overId)
+      );
+      if (rowIndex >= 0) {
+        const index = rows[rowIndex]?.cardIds.indexOf(overId) ?? -1;
+        placeCard(sourceId, cardId, rowIndex, index >= 0 ? index : undefined);
+      } else if (poolCards.some((card) => card.id === overId)) {
+        placeCard(sourceId, cardId, null);
+      }
+    },
+    [rows, poolCards, sourceId, placeCard]
+  );
+
+  const activeCard = activeId === null ? undefined : cards[activeId];
+
+  return (
+    <div className={styles.overlay}>
+      <div className={styles.header}>
+        <button
+          type="button"
+          className={styles.exitButton}
+          onClick={handleExit}
+          aria-label="Exit Tier List"
+        >
+          Exit
+        </button>
+        <div className={styles.headerStats}>
+          Placed: {placedCount}/{collectionCards.length}
+        </div>
+        <ShareActions rows={rows} cards={cards} />
+      </div>
+
+      <DndContext
+        sensors={sensors}
+        collisionDetection={closestCorners}
+        onDragStart={handleDragStart}
+        onDragEnd={handleDragEnd}
+        onDragCancel={() => { setActiveId(null); }}
+      >
+        <div className={styles.board}>
+          <div className={styles.rows}>
+            {rows.map((row, index) => (
+              <TierRowView
+                key={index}
+                row={row}
+                rowIndex={index}
+                rowCount={rows.length}
+                cards={rowCards[index] ?? []}
+              />
+            ))}
+          </div>
+          {rows.length < MAX_TIER_ROWS && (
+            <button
+              type="button"
+              className={styles.addRowButton}
+              onClick={() => { addRow(sourceId); }}
+            >
+              + Add Tier
+            </button>
+          )}
+
+          <section className={styles.pool}>
+            <h3 className={styles.poolTitle}>Unplaced</h3>
+            <TileZone
+              id={POOL_ID}
+              cards={poolCards}
+              label="Unplaced cards"
+              emptyText="Every card has a tier."
+            />
+          </section>
+        </div>
+
+        <DragOverlay adjustScale={false}>
+          {activeCard && (
+            <div className={`${styles.tile ?? ""} ${styles.dragging ?? ""}`}>
+              <TileFace card={activeCard} showTitle={showTitles} />
+            </div>
+          )}
+        </DragOverlay>
+      </DndContext>
+    </div>
+  );
+}
+
+/**
+ * Grid overlay component - entry point for the mechanic.
+ */
+export function TierListGridOverlay({ position }: GridOverlayProps) {
+  const isActive = useTierListBoardStore((s) => s.isActive);
+
+  if (position !== "bottom" || !isActive) return null;
+
+  return <TierListBoard />;
+}
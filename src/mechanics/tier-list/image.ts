@@ -0,0 +1,293 @@
+/**
+ * Tier list image export.
+ *
+ * Draws the tier rows onto an offscreen canvas and encodes it as a PNG for
+ * posting elsewhere. Card images load as CORS image elements, which the
+ * page's img-src policy allows for any https host (fetch would be limited to
+ * the connect-src data hosts). An image the host does not serve with CORS,
+ * or that fails to load, is drawn as a titled placeholder and counted, so
+ * one missing picture never taints the canvas or blocks the export.
+ */
+
+import { getContrastTextColour } from "@/utils/colourContrast";
+import { getTierLabel, type TierRow } from "@/utils/tierList";
+import type { TierListCard } from "./types";
+
+/** Width and height of a card tile in pixels */
+const TILE_SIZE = 96;
+
+/** Width of the label column in pixels */
+const LABEL_WIDTH = 128;
+
+/** Tiles per line within a row */
+const COLUMNS = 10;
+
+/** Height of the title band above the rows */
+const HEADER_HEIGHT = 56;
+
+/** Gap between rows */
+const ROW_GAP = 2;
+
+/** Image background and placeholder colours */
+const BACKGROUND = "#1a1a1a";
+const PLACEHOLDER = "#333333";
+const TEXT = "#ffffff";
+
+/**
+ * Position of a card tile in the image.
+ */
+export interface TileLayout {
+  cardId: string;
+  x: number;
+  y: number;
+}
+
+/**
+ * Position of a row in the image.
+ */
+export interface RowLayout {
+  label: string;
+  colour: string;
+  y: number;
+  height: number;
+  tiles: TileLayout[];
+}
+
+/**
+ * Layout of a tier list image.
+ */
+export interface TierListImageLayout {
+  width: number;
+  height: number;
+  rows: RowLayout[];
+}
+
+/**
+ * A rendered tier list image.
+ */
+export interface TierListImage {
+  /** PNG image */
+  blob: Blob;
+  /** Cards whose image could not be included and were drawn as placeholders */
+  missingImages: number;
+}
+
+/**
+ * Lay out a tier list image.
+ *
+ * Each row is at least one tile high and wraps after COLUMNS tiles. Cards
+ * that are not in `cards` (e.g. deleted since they were placed) are left out.
+ *
+ * @param rows - Tier rows
+ * @param cards - Cards by ID
+ * @returns Image size and the position of every row and tile
+ *
+ * @example
+ * ```ts
+ * const { width, height } = layoutTierListImage(rows, cards);
+ * ```
+ */
+export function layoutTierListImage(
+  rows: readonly TierRow[],
+  cards: Readonly<Record<string, TierListCard>>
+): TierListImageLayout {
+  let y = HEADER_HEIGHT;
+  const layoutRows = rows.map((row, index): RowLayout => {
+    const cardIds = row.cardIds.filter((id) => Object.hasOwn(cards, id));
+    const lines = Math.max(1, Math.ceil(cardIds.length / COLUMNS));
+    const rowLayout: RowLayout = {
+      label: getTierLabel(row, index),
+      colour: row.colour,
+      y,
+      height: lines * TILE_SIZE,
+      tiles: cardIds.map((cardId, i) => ({
+        cardId,
+        x: LABEL_WIDTH + (i % COLUMNS) * TILE_SIZE,
+        y: y + Math.floor(i / COLUMNS) * TILE_SIZE,
+      })),
+    };
+    y += rowLayout.height + ROW_GAP;
+    return rowLayout;
+  });
+
+  return {
+    width: LABEL_WIDTH + COLUMNS * TILE_SIZE,
+    height: y - ROW_GAP,
+    rows: layoutRows,
+  };
+}
+
+type DrawingContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/**
+ * Load an image for drawing, or null when it cannot be used. Requesting it
+ * with CORS keeps the canvas exportable; a host without CORS fails to load.
+ */
+function loadTileImage(url: string): Promise<HTMLImageElement | null> {
+  return new Promise((resolve) => {
+    const image = new Image();
+    image.crossOrigin = "anonymous";
+    image.decoding = "async";
+    image.onload = () => { resolve(image.naturalWidth > 0 ? image : null); };
+    image.onerror = () => { resolve(null); };
+    image.src = url;
+  });
+}
+
+/**
+ * Shorten text with an ellipsis to fit a width.
+ */
+function fitText(ctx: DrawingContext, text: string, maxWidth: number): string {
+  if (ctx.measureText(text).width <= maxWidth) return text;
+  let fitted = text;
+  while (fitted.length > 0 && ctx.measureText(`${fitted}…`).width > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted}…`;
+}
+
+/**
+ * Draw an image cropped to fill a square tile.
+ */
+function drawCover(ctx: DrawingContext, image: HTMLImageElement, x: number, y: number): void {
+  const side = Math.min(image.naturalWidth, image.naturalHeight);
+  ctx.drawImage(
+    image,
+    (image.naturalWidth - side) / 2,
+    (image.naturalHeight - side) / 2,
+    side,
+    side,
+    x,
+    y,
+    TILE_SIZE,
+    TILE_SIZE
+  );
+}
+
+/**
+ * Draw a placeholder tile with the card's title.
+ */
+function drawPlaceholder(ctx: DrawingContext, title: string, x: number, y: number): void {
+  ctx.fillStyle = PLACEHOLDER;
+  ctx.fillRect(x + 1, y + 1, TILE_SIZE - 2, TILE_SIZE - 2);
+  ctx.fillStyle = TEXT;
+  ctx.font = "12px sans-serif";
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.fillText(fitText(ctx, title, TILE_SIZE - 8), x + TILE_SIZE / 2, y + TILE_SIZE / 2);
+}
+
+/**
+ * Render a tier list as a PNG.
+ *
+ * Uses an OffscreenCanvas where available, falling back to a detached
+ * canvas element.
+ *
+ * @param rows - Tier rows
+ * @param cards - Cards by ID
+ * @param title - Heading drawn above the rows
+ * @returns PNG image and how many card images were left out
+ *
+ * @example
+ * ```ts
+ * const { blob, missingImages } = await renderTierListImage(rows, cards, "Retro Games");
+ * ```
+ */
+export async function renderTierListImage(
+  rows: readonly TierRow[],
+  cards: Readonly<Record<string, TierListCard>>,
+  title: string
+): Promise<TierListImage> {
+  const layout = layoutTierListImage(rows, cards);
+
+  const canvas =
+    typeof OffscreenCanvas !== "undefined"
+      ? new OffscreenCanvas(layout.width, layout.height)
+      : Object.assign(document.createElement("canvas"), {
+          width: layout.width,
+          height: layout.height,
+        });
+  const ctx = canvas.getContext("2d") as DrawingContext | null;
+  if (!ctx) {
+    throw new Error("Canvas is not supported in this browser");
+  }
+
+  ctx.fillStyle = BACKGROUND;
+  ctx.fillRect(0, 0, layout.width, layout.height);
+
+  ctx.fillStyle = TEXT;
+  ctx.font = "bold 24px sans-serif";
+  ctx.textAlign = "left";
+  ctx.textBaseline = "middle";
+  ctx.fillText(fitText(ctx, title, layout.width - 32), 16, HEADER_HEIGHT / 2);
+
+  // Load every image up front so slow hosts load in parallel
+  const images = new Map(
+    await Promise.all(
+      layout.rows.flatMap((row) =>
+        row.tiles.map(async (tile) => {
+          const url = cards[tile.cardId]?.imageUrl ?? "";
+          return [tile.cardId, url ? await loadTileImage(url) : undefined] as const;
+        })
+      )
+    )
+  );
+  // Cards without an image URL are placeholders by design, not missing
+  const missingImages = [...images.values()].filter((image) => image === null).length;
+
+  for (const row of layout.rows) {
+    ctx.fillStyle = row.colour;
+    ctx.fillRect(0, row.y, LABEL_WIDTH, row.height);
+    ctx.fillStyle = getContrastTextColour(row.colour);
+    ctx.font = "bold 28px sans-serif";
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillText(fitText(ctx, row.label, LABEL_WIDTH - 16), LABEL_WIDTH / 2, row.y + row.height / 2);
+
+    for (const tile of row.tiles) {
+      const image = images.get(tile.cardId);
+      if (image) {
+        drawCover(ctx, image, tile.x, tile.y);
+      } else {
+        drawPlaceholder(ctx, cards[tile.cardId]?.title ?? tile.cardId, tile.x, tile.y);
+      }
+    }
+  }
+
+  const blob =
+    canvas instanceof HTMLCanvasElement
+      ? await new Promise<Blob>((resolve, reject) => {
+          canvas.toBlob((encoded) => {
+            if (encoded) resolve(encoded);
+            else reject(new Error("Failed to encode the tier list image"));
+          }, "image/png");
+        })
+      : await canvas.convertToBlob({ type: "image/png" });
+  return { blob, missingImages };
+}
+
+/**
+ * Download a rendered tier list image.
+ *
+ * @param blob - PNG image
+ * @param name - Collection name, used in the filename
+ *
+ * @example
+ * ```ts
+ * downloadTierListImage((await renderTierListImage(rows, cards, name)).blob, name);
+ * ```
+ */
+export function downloadTierListImage(blob: Blob, name: string): void {
+  const url = URL.createObjectURL(blob);
+
+  // Generate filename with collection and date
+  const date = new Date().toISOString().split("T")[0] ?? "unknown-date";
+  const slug = name.replace(/[^a-z0-9]/gi, "-").toLowerCase().slice(0, 30);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `tier-list-${slug}-${date}.png`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,103 @@
+/**
+ * Tier List mechanic.
+ *
+ * A persistent ranking tool (NOT a game): cards are dragged into labelled,
+ * coloured rows. Placements are saved per source, usable as a group-by and
+ * filter field in the grid, shareable as a link and exportable as a PNG.
+ */
+
+import { useTierListBoardStore } from "./store";
+import { TierListGridOverlay } from "./components";
+import { TierListSettingsPanel } from "./Settings";
+import { DEFAULT_SETTINGS, MIN_TIER_LIST_CARDS } from "./types";
+import type { Mechanic, CardActions } from "../types";
+import type { TierListSettings } from "./types";
+
+/**
+ * Tier List icon - stacked rows.
+ */
+function TierListIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      className={className}
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      {/* Three rows, each with a label block */}
+      <rect x="3" y="3" width="18" height="18" rx="2" />
+      <line x1="3" y1="9" x2="21" y2="9" />
+      <line x1="3" y1="15" x2="21" y2="15" />
+      <line x1="8" y1="3" x2="8" y2="21" />
+    </svg>
+  );
+}
+
+/**
+ * Tier List mechanic implementation.
+ */
+export const tierListMechanic: Mechanic<TierListSettings> = {
+  manifest: {
+    id: "tier-list",
+    name: "Tier List",
+    description: "Drag cards into S to D tiers, then share the list as a link or an image.",
+    icon: TierListIcon,
+    version: "1.0.0",
+    minCards: MIN_TIER_LIST_CARDS,
+    displayPreferences: {
+      cardSizePreset: "small",
+      hideCardGrid: true,
+      uiMode: "fullscreen",
+    },
+  },
+
+  lifecycle: {
+    onActivate: () => {
+      useTierListBoardStore.getState().activate();
+    },
+    onDeactivate: () => {
+      useTierListBoardStore.getState().deactivate();
+    },
+    onReset: () => {
+      useTierListBoardStore.getState().resetGame();
+    },
+  },
+
+  getState: () => useTierListBoardStore.getState(),
+
+  subscribe: (listener) => {
+    return useTierListBoardStore.subscribe((state) => {
+      listener(state);
+    });
+  },
+
+  getCardActions: (): CardActions => ({
+    // Cards are placed on the tier list board, no direct grid interaction
+    canInteract: () => false,
+  }),
+
+  CardOverlay: undefined,
+  GridOverlay: TierListGridOverlay,
+  Settings: TierListSettingsPanel,
+
+  defaultSettings: DEFAULT_SETTINGS,
+
+  getSettings: (): TierListSettings => {
+    const state = useTierListBoardStore.getState();
+    return {
+      showTitles: state.showTitles,
+    };
+  },
+
+  setSettings: (settings) => {
+    const store = useTierListBoardStore.getState();
+    if (settings.showTitles !== undefined) {
+      store.setShowTitles(settings.showTitles);
+    }
+  },
+};
+
+export { useTierListBoardStore };
@@ -0,0 +1,58 @@
+/**
+ * Zustand store for Tier List mechanic.
+ *
+ * Only tracks whether the board is open and its settings. Rows and card
+ * placements live in the persisted tier list store so the card grid can
+ * group and filter by tier without loading the mechanic.
+ */
+
+import { create } from "zustand";
+import type { TierListSettings, TierListState } from "./types";
+import { DEFAULT_SETTINGS } from "./types";
+
+/**
+ * Extended store state with actions.
+ */
+interface TierListStore extends TierListState, TierListSettings {
+  // Lifecycle
+  activate: () => void;
+  deactivate: () => void;
+  resetGame: () => void;
+
+  // Settings
+  setShowTitles: (showTitles: boolean) => void;
+}
+
+/**
+ * Initial state.
+ */
+const INITIAL_STATE: TierListState = {
+  isActive: false,
+};
+
+/**
+ * Tier List store.
+ */
+export const useTierListBoardStore = create<TierListStore>((set) => ({
+  // Initial state
+  ...INITIAL_STATE,
+  ...DEFAULT_SETTINGS,
+
+  // Lifecycle
+  activate: () => {
+    set({ ...INITIAL_STATE, isActive: true });
+  },
+
+  deactivate: () => {
+    set({ ...INITIAL_STATE, isActive: false });
+  },
+
+  resetGame: () => {
+    // Nothing to reset: placements are kept until cleared in the settings
+  },
+
+  // Settings
+  setShowTitles: (showTitles) => {
+    set({ showTitles });
+  },
+}));
@@ -0,0 +1,46 @@
+/**
+ * Type definitions for Tier List mechanic.
+ *
+ * Cards are dragged into labelled rows (S, A, B, C, D by default). The rows
+ * and placements live in the persisted tier list store, per source; the
+ * mechanic store only holds whether the board is open and its settings.
+ */
+
+import type { MechanicState } from "../types";
+
+/**
+ * A card on the tier list board.
+ */
+export interface TierListCard {
+  id: string;
+  title: string;
+  imageUrl: string;
+}
+
+/**
+ * Tier List state.
+ */
+export interface TierListState extends MechanicState {
+  /** Whether the board is open */
+  isActive: boolean;
+}
+
+/**
+ * Tier List settings.
+ */
+export interface TierListSettings {
+  /** Show card titles under the tiles */
+  showTitles: boolean;
+}
+
+/**
+ * Default settings.
+ */
+export const DEFAULT_SETTINGS: TierListSettings = {
+  showTitles: true,
+};
+
+/**
+ * Minimum cards needed for a tier list.
+ */
+export const MIN_TIER_LIST_CARDS = 1;
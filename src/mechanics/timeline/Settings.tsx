@@ -0,0 +1,126 @@
+/**
+ * Settings panel for Timeline mechanic.
+ */
+
+import { useMemo } from "react";
+import { useCollectionData } from "@/context/CollectionDataContext";
+import { useFilterFields } from "@/hooks/useFilterFields";
+import { detectDateFields } from "./scoring";
+import type { MechanicSettingsProps } from "../types";
+import type { TimelineSettings, TimelineDifficulty, TimelineMode, HandSizeOption } from "./types";
+import { DIFFICULTY_DESCRIPTIONS, HAND_SIZE_OPTIONS, MODE_DESCRIPTIONS } from "./types";
+import styles from "./Timeline.module.css";
+
+const DIFFICULTY_LABELS: Record<TimelineDifficulty, string> = {
+  decade: "Decade",
+  year: "Exact Year",
+};
+
+const MODE_LABELS: Record<TimelineMode, string> = {
+  single: "One by One",
+  hand: "Whole Hand",
+};
+
+/**
+ * Timeline settings panel.
+ */
+export function TimelineSettingsPanel({
+  settings,
+  onChange,
+  disabled,
+}: MechanicSettingsProps<TimelineSettings>) {
+  const { cards } = useCollectionData();
+  const filterFields = useFilterFields();
+
+  // Date fields the player can order this collection by
+  const fields = useMemo(() => detectDateFields(cards, filterFields), [cards, filterFields]);
+
+  return (
+    <div className={styles.settingsContainer}>
+      {/* Field selector */}
+      <div className={styles.settingGroup}>
+        <label className={styles.settingLabel}>
+          Order By
+          <select
+            className={styles.select}
+            value={settings.field ?? ""}
+            onChange={(e) => { onChange({ field: e.target.value || null }); }}
+            disabled={disabled}
+            style={{ marginLeft: "0.5rem" }}
+          >
+            <option value="">{fields[0] ? `Default (${fields[0].label})` : "Default"}</option>
+            {fields.map((field) => (
+              <option key={field.key} value={field.key}>
+                {field.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {/* Difficulty selector */}
+      <div className={styles.settingGroup}>
+        <span className={styles.settingLabel}>Difficulty</span>
+        <div className={styles.options}>
+          {(["decade", "year"] as TimelineDifficulty[]).map((difficulty) => (
+            <button
+              key={difficulty}
+              type="button"
+              className={`${styles.option ?? ""} ${settings.difficulty === difficulty ? (styles.selected ?? "") : ""}`}
+              onClick={() => { onChange({ difficulty }); }}
+              disabled={disabled}
+            >
+              {DIFFICULTY_LABELS[difficulty]}
+            </button>
+          ))}
+        </div>
+        <span className={styles.settingDescription}>
+          {DIFFICULTY_DESCRIPTIONS[settings.difficulty]}
+        </span>
+      </div>
+
+      {/* Mode selector */}
+      <div className={styles.settingGroup}>
+        <span className={styles.settingLabel}>Mode</span>
+        <div className={styles.options}>
+          {(["single", "hand"] as TimelineMode[]).map((mode) => (
+            <button
+              key={mode}
+              type="button"
+              className={`${styles.option ?? ""} ${settings.mode === mode ? (styles.selected ?? "") : ""}`}
+              onClick={() => { onChange({ mode }); }}
+              disabled={disabled}
+            >
+              {MODE_LABELS[mode]}
+            </button>
+          ))}
+        </div>
+        <span className={styles.settingDescription}>{MODE_DESCRIPTIONS[settings.mode]}</span>
+      </div>
+
+      {/* Hand size */}
+      <div className={styles.settingGroup}>
+        <label className={styles.settingLabel}>
+          Cards
+          <select
+            className={styles.select}
+            value={settings.handSize}
+            onChange={(e) => { onChange({ handSize: Number(e.target.value) as HandSizeOption }); }}
+            disabled={disabled}
+            style={{ marginLeft: "0.5rem" }}
+          >
+            {HAND_SIZE_OPTIONS.map((size) => (
+              <option key={size} value={size}>
+                {size}
+              </option>
+            ))}
+          </select>
+        </label>
+        <span className={styles.settingDescription}>
+          Cards without a date are left out. Cards from the same{" "}
+          {settings.difficulty === "decade" ? "decade" : "year"} can go in either order.
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+/**
+ * Timeline achievements.
+ *
+ * Events are derived from store transitions: "game-complete" fires when the
+ * last card has been placed or the hand has been checked.
+ */
+
+import type { AchievementDefinition, MechanicEvent } from "../types";
+import type { TimelineState, TimelineSettings } from "./types";
+
+/**
+ * Achievements awarded by Timeline.
+ */
+export const TIMELINE_ACHIEVEMENTS: AchievementDefinition[] = [
+  {
+    id: "first-game",
+    name: "Time Traveller",
+    description: "Finish a game of Timeline",
+    event: "game-complete",
+    criteria: [],
+  },
+  {
+    id: "perfect-hand",
+    name: "Historian",
+    description: "Order a whole hand of 8 or more cards without a mistake",
+    event: "game-complete",
+    criteria: [
+      { field: "mode", equals: "hand" },
+      { field: "cards", min: 8 },
+      { field: "misses", max: 0 },
+    ],
+  },
+  {
+    id: "exact-years",
+    name: "Almanac",
+    description: "Place 10 or more cards by exact year without a mistake",
+    event: "game-complete",
+    criteria: [
+      { field: "difficulty", equals: "year" },
+      { field: "cards", min: 10 },
+      { field: "misses", max: 0 },
+    ],
+  },
+];
+
+/**
+ * Events for a Timeline store transition.
+ *
+ * @param state - New store state
+ * @param previous - Store state before the change
+ * @returns Events to emit (empty for most transitions)
+ *
+ * @example
+ * ```ts
+ * useTimelineStore.subscribe((state, previous) => {
+ *   getTimelineEvents(state, previous).forEach(listener);
+ * });
+ * ```
+ */
+export function getTimelineEvents(
+  state: TimelineState & TimelineSettings,
+  previous: TimelineState
+): MechanicEvent[] {
+  if (state.gameEndedAt === null || previous.gameEndedAt !== null) return [];
+
+  const correct = state.placements.filter((placement) => placement.correct).length;
+  return [
+    {
+      type: "game-complete",
+      data: {
+        difficulty: state.difficulty,
+        mode: state.mode,
+        cards: state.placements.length,
+        correct,
+        misses: state.placements.length - correct,
+      },
+    },
+  ];
+}
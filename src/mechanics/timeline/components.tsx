@@ -0,0 +1,362 @@
+/**
+ * Timeline mechanic components.
+ *
+ * Full-screen board where cards are dragged into chronological order.
+ * Uses shared components for error overlay and completion modal.
+ */
+
+import { useEffect, useCallback, useMemo } from "react";
+import {
+  DndContext,
+  closestCenter,
+  KeyboardSensor,
+  PointerSensor,
+  TouchSensor,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+} from "@dnd-kit/core";
+import {
+  SortableContext,
+  sortableKeyboardCoordinates,
+  rectSortingStrategy,
+  useSortable,
+} from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
+import { useTimelineStore } from "./store";
+import { useCollectionData } from "@/context/CollectionDataContext";
+import { useFilterFields } from "@/hooks/useFilterFields";
+import { ErrorOverlay, GameCompletionModal } from "../shared";
+import { useMechanicActions, useGameResult, formatTime } from "../shared";
+import { detectDateFields, formatTimelineYear, getTimelineCards } from "./scoring";
+import type { GridOverlayProps } from "../types";
+import type { TimelineCard } from "./types";
+import styles from "./Timeline.module.css";
+
+/**
+ * A card on the timeline board.
+ */
+function TimelineTile({
+  card,
+  index,
+  count,
+}: {
+  card: TimelineCard;
+  index: number;
+  count: number;
+}) {
+  const phase = useTimelineStore((s) => s.phase);
+  const mode = useTimelineStore((s) => s.mode);
+  const difficulty = useTimelineStore((s) => s.difficulty);
+  const currentCardId = useTimelineStore((s) => s.currentCardId);
+  const isRevealed = useTimelineStore((s) => s.revealedIds.includes(card.id));
+  const placement = useTimelineStore((s) => s.placements.find((p) => p.cardId === card.id));
+  const moveCard = useTimelineStore((s) => s.moveCard);
+
+  const isCurrent = card.id === currentCardId;
+  const canMove = phase === "playing" && (mode === "hand" || isCurrent);
+
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
+    id: card.id,
+    disabled: !canMove,
+  });
+
+  const style: React.CSSProperties = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+    zIndex: isDragging ? 10 : "auto",
+  };
+
+  const className = [
+    styles.tile,
+    isCurrent ? styles.current : "",
+    canMove ? styles.movable : "",
+    placement ? (placement.correct ? styles.correct : styles.wrong) : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+  return (
+    <li ref={setNodeRef} style={style} className={className} {...attributes} {...listeners}>
+      <img className={styles.tileImage} src={card.imageUrl} alt="" draggable={false} />
+      <span className={styles.tileTitle}>{card.title}</span>
+      <span className={styles.tileYear}>
+        {isRevealed ? formatTimelineYear(card.year, difficulty) : "?"}
+      </span>
+      {canMove && (
+        <div className={styles.moveButtons}>
+          <button
+            type="button"
+            className={styles.moveButton}
+            onClick={() => { moveCard(card.id, index - 1); }}
+            disabled={index === 0}
+            aria-label={`Move ${card.title} earlier`}
+          >
+            ‹
+          </button>
+          <button
+            type="button"
+            className={styles.moveButton}
+            onClick={() => { moveCard(card.id, index + 1); }}
+            disabled={index === count - 1}
+            aria-label={`Move ${card.title} later`}
+          >
+            ›
+          </button>
+        </div>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Sortable board of cards in the player's order.
+ */
+function TimelineBoard() {
+  const cards = useTimelineStore((s) => s.cards);
+  const arrangement = useTimelineStore((s) => s.arrangement);
+  const moveCard = useTimelineStore((s) => s.moveCard);
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 8,
+      },
+    }),
+    useSensor(TouchSensor, {
+      activationConstraint: {
+        delay: 150,
+        tolerance: 5,
+      },
+    }),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    })
+  );
+
+  const handleDragEnd = useCallback(
+    (event: DragEndEvent) => {
+      const { active, over } = event;
+      if (over && active.id !== over.id) {
+        moveCard(String(active.id), arrangement.indexOf(String(over.id)));
+      }
+    },
+    [arrangement, moveCard]
+  );
+
+  const tiles = arrangement.flatMap((id) => {
+    const card = cards[id];
+    return card ? [card] : [];
+  });
+
+  return (
+    <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
+      <SortableContext items={arrangement} strategy={rectSortingStrategy}>
+        <ol className={styles.board} aria-label="Timeline, earliest first">
+          {tiles.map((card, index) => (
+            <TimelineTile key={card.id} card={card} index={index} count={tiles.length} />
+          ))}
+        </ol>
+      </SortableContext>
+    </DndContext>
+  );
+}
+
+/**
+ * Prompt and action button under the board.
+ */
+function ActionBar() {
+  const phase = useTimelineStore((s) => s.phase);
+  const mode = useTimelineStore((s) => s.mode);
+  const placeCard = useTimelineStore((s) => s.placeCard);
+  const submitHand = useTimelineStore((s) => s.submitHand);
+
+  if (phase !== "playing") return null;
+
+  return (
+    <div className={styles.actionBar}>
+      <span className={styles.prompt}>
+        {mode === "single"
+          ? "Drag the highlighted card to where it belongs in the timeline."
+          : "Drag the cards into order, earliest first."}
+      </span>
+      <button
+        type="button"
+        className={styles.actionButton}
+        onClick={mode === "single" ? placeCard : submitHand}
+      >
+        {mode === "single" ? "Place Card" : "Check Order"}
+      </button>
+    </div>
+  );
+}
+
+/**
+ * Game over modal using shared GameCompletionModal.
+ */
+function GameOverModal() {
+  const phase = useTimelineStore((s) => s.phase);
+  const placements = useTimelineStore((s) => s.placements);
+  const gameStartedAt = useTimelineStore((s) => s.gameStartedAt);
+  const gameEndedAt = useTimelineStore((s) => s.gameEndedAt);
+  const difficulty = useTimelineStore((s) => s.difficulty);
+  const mode = useTimelineStore((s) => s.mode);
+  const handSize = useTimelineStore((s) => s.handSize);
+  const dateField = useTimelineStore((s) => s.dateField);
+  const getScore = useTimelineStore((s) => s.getScore);
+  const getMaxScore = useTimelineStore((s) => s.getMaxScore);
+  const resetGame = useTimelineStore((s) => s.resetGame);
+
+  const { handleExit } = useMechanicActions();
+
+  const score = phase === "complete" ? getScore() : 0;
+  const maxScore = phase === "complete" ? getMaxScore() : 0;
+  const totalTime = gameEndedAt && gameStartedAt ? gameEndedAt - gameStartedAt : 0;
+
+  // Scored by cards placed correctly
+  const personalBest = useGameResult(
+    phase === "complete" && gameEndedAt
+      ? {
+          mechanicId: "timeline",
+          settings: { field: dateField?.label, difficulty, mode, cardCount: handSize },
+          score,
+          maxScore,
+          durationMs: totalTime,
+          completedAt: gameEndedAt,
+        }
+      : null
+  );
+
+  const handlePlayAgain = useCallback(() => {
+    resetGame();
+  }, [resetGame]);
+
+  if (phase !== "complete") return null;
+
+  const accuracy = placements.length > 0 ? Math.round((score / placements.length) * 100) : 0;
+
+  return (
+    <GameCompletionModal
+      isOpen={true}
+      title={score === maxScore ? "Perfect Timeline!" : "Timeline Complete"}
+      subtitle={`You placed ${String(score)} of ${String(maxScore)} cards correctly.`}
+      stats={[
+        { label: "Correct", value: `${String(score)}/${String(maxScore)}` },
+        { label: "Accuracy", value: `${String(accuracy)}%` },
+        { label: "Time", value: formatTime(totalTime) },
+      ]}
+      primaryAction={{ label: "Play Again", onClick: handlePlayAgain }}
+      onExit={handleExit}
+      personalBest={personalBest ?? undefined}
+    />
+  );
+}
+
+/**
+ * Timeline error overlay using shared component.
+ */
+function TimelineErrorOverlay() {
+  const errorMessage = useTimelineStore((s) => s.errorMessage);
+  const isActive = useTimelineStore((s) => s.isActive);
+  const { handleExit } = useMechanicActions();
+
+  return (
+    <ErrorOverlay
+      title="Cannot Play"
+      message={errorMessage ?? ""}
+      hint="This game requires cards with a date or year."
+      onExit={handleExit}
+      visible={!!errorMessage && isActive}
+    />
+  );
+}
+
+/**
+ * Main timeline overlay component.
+ */
+function TimelineOverlayContent() {
+  const isActive = useTimelineStore((s) => s.isActive);
+  const phase = useTimelineStore((s) => s.phase);
+  const mode = useTimelineStore((s) => s.mode);
+  const difficulty = useTimelineStore((s) => s.difficulty);
+  const placements = useTimelineStore((s) => s.placements);
+  const getMaxScore = useTimelineStore((s) => s.getMaxScore);
+  const errorMessage = useTimelineStore((s) => s.errorMessage);
+  const { handleExit } = useMechanicActions();
+
+  if (!isActive) return null;
+  if (errorMessage) return <TimelineErrorOverlay />;
+  if (phase === "setup") return null;
+
+  const correct = placements.filter((placement) => placement.correct).length;
+
+  return (
+    <div className={styles.timelineOverlay}>
+      <div className={styles.header}>
+        <div className={styles.progress}>
+          {mode === "single"
+            ? `Placed ${String(placements.length)} of ${String(getMaxScore())}`
+            : `Order ${String(getMaxScore())} cards`}
+        </div>
+        <div className={styles.headerInfo}>
+          <span>{difficulty === "decade" ? "By decade" : "By year"}</span>
+          {mode === "single" && <span className={styles.score}>Correct: {correct}</span>}
+          <button
+            type="button"
+            className={styles.exitButton}
+            onClick={handleExit}
+            aria-label="Exit timeline"
+          >
+            Exit
+          </button>
+        </div>
+      </div>
+
+      <div className={styles.arena}>
+        <div className={styles.axis} aria-hidden="true">
+          <span>Earlier</span>
+          <span>Later</span>
+        </div>
+        <TimelineBoard />
+      </div>
+
+      <ActionBar />
+      <GameOverModal />
+    </div>
+  );
+}
+
+/**
+ * Grid overlay component - entry point for the mechanic.
+ */
+export function TimelineGridOverlay({ position }: GridOverlayProps) {
+  const { cards } = useCollectionData();
+  const filterFields = useFilterFields();
+  const isActive = useTimelineStore((s) => s.isActive);
+  const phase = useTimelineStore((s) => s.phase);
+  const field = useTimelineStore((s) => s.field);
+  const startGame = useTimelineStore((s) => s.startGame);
+
+  // Only cards with a parseable year in the chosen field can be placed. A
+  // chosen field the collection lacks falls back to the first one.
+  const dateField = useMemo(() => {
+    const fields = detectDateFields(cards, filterFields);
+    return fields.find((candidate) => candidate.key === field) ?? fields[0];
+  }, [cards, filterFields, field]);
+  const timelineCards = useMemo(
+    () => (dateField ? getTimelineCards(cards, dateField.key) : []),
+    [cards, dateField]
+  );
+
+  useEffect(() => {
+    if (!isActive || phase !== "setup") return;
+    // Check for empty cards array
+    if (cards.length === 0) return;
+
+    startGame(timelineCards, dateField);
+  }, [isActive, phase, cards.length, timelineCards, dateField, startGame]);
+
+  if (position !== "bottom") return null;
+
+  return <TimelineOverlayContent />;
+}
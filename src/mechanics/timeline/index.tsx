@@ -0,0 +1,167 @@
+/**
+ * Timeline mechanic.
+ *
+ * A chronological ordering game where players drag cards into date
+ * order by a date or year field, one card at a time or as a whole hand.
+ */
+
+import { useTimelineStore } from "./store";
+import { TimelineGridOverlay } from "./components";
+import { TimelineSettingsPanel } from "./Settings";
+import { TIMELINE_ACHIEVEMENTS, getTimelineEvents } from "./achievements";
+import { detectDateFields } from "./scoring";
+import {
+  DEFAULT_SETTINGS,
+  DIFFICULTY_DESCRIPTIONS,
+  HAND_SIZE_OPTIONS,
+  MIN_TIMELINE_CARDS,
+  MODE_DESCRIPTIONS,
+  TIMELINE_YEAR_FIELD,
+} from "./types";
+import type { Mechanic, CardActions } from "../types";
+import type { DisplayCard } from "@/hooks/useCollection";
+import type { TimelineSettings, TimelineDifficulty, TimelineMode, HandSizeOption } from "./types";
+
+/**
+ * Longest field key accepted from a challenge link.
+ */
+const MAX_FIELD_LENGTH = 100;
+
+/**
+ * Timeline icon - markers on a line.
+ */
+function TimelineIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      className={className}
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      {/* Horizontal line with dated markers */}
+      <path d="M2 12h20" />
+      <circle cx="6" cy="12" r="2" fill="currentColor" />
+      <circle cx="12" cy="12" r="2" fill="currentColor" />
+      <circle cx="18" cy="12" r="2" fill="currentColor" />
+      <path d="M6 6v3" />
+      <path d="M12 15v3" />
+      <path d="M18 6v3" />
+    </svg>
+  );
+}
+
+/**
+ * Timeline mechanic implementation.
+ */
+export const timelineMechanic: Mechanic<TimelineSettings> = {
+  manifest: {
+    id: "timeline",
+    name: "Timeline",
+    description: "Drag cards into chronological order by date. How well do you know your history?",
+    icon: TimelineIcon,
+    version: "1.0.0",
+    requiredFields: [TIMELINE_YEAR_FIELD.key],
+    // Collections without a year can play by another date field
+    hasFields: (cards, filterFields) =>
+      detectDateFields(cards as readonly DisplayCard[], filterFields).length > 0,
+    minCards: MIN_TIMELINE_CARDS,
+    displayPreferences: {
+      cardSizePreset: "small",
+      hideCardGrid: true,
+      uiMode: "fullscreen",
+    },
+  },
+
+  lifecycle: {
+    onActivate: () => {
+      useTimelineStore.getState().activate();
+    },
+    onDeactivate: () => {
+      useTimelineStore.getState().deactivate();
+    },
+    onReset: () => {
+      useTimelineStore.getState().resetGame();
+    },
+  },
+
+  getState: () => useTimelineStore.getState(),
+
+  subscribe: (listener) => {
+    return useTimelineStore.subscribe((state) => {
+      listener(state);
+    });
+  },
+
+  getCardActions: (): CardActions => ({
+    // Cards are arranged on the timeline board, no direct grid interaction
+    canInteract: () => false,
+  }),
+
+  CardOverlay: undefined,
+  GridOverlay: TimelineGridOverlay,
+  Settings: TimelineSettingsPanel,
+
+  defaultSettings: DEFAULT_SETTINGS,
+
+  getSettings: (): TimelineSettings => {
+    const state = useTimelineStore.getState();
+    return {
+      field: state.field,
+      difficulty: state.difficulty,
+      mode: state.mode,
+      handSize: state.handSize,
+      seed: state.seed,
+    };
+  },
+
+  setSettings: (settings) => {
+    const store = useTimelineStore.getState();
+    if (settings.field !== undefined) {
+      store.setField(settings.field);
+    }
+    if (settings.difficulty !== undefined) {
+      store.setDifficulty(settings.difficulty);
+    }
+    if (settings.mode !== undefined) {
+      store.setMode(settings.mode);
+    }
+    if (settings.handSize !== undefined) {
+      store.setHandSize(settings.handSize);
+    }
+    if (settings.seed !== undefined) {
+      store.setSeed(settings.seed);
+    }
+  },
+
+  parseSettings: (value) => {
+    const settings: Partial<TimelineSettings> = {};
+    const { field, difficulty, mode, handSize } = value;
+    // Unknown fields fall back to the first one when the game starts
+    if (field === null || (typeof field === "string" && field.length <= MAX_FIELD_LENGTH)) {
+      settings.field = field;
+    }
+    if (typeof difficulty === "string" && Object.hasOwn(DIFFICULTY_DESCRIPTIONS, difficulty)) {
+      settings.difficulty = difficulty as TimelineDifficulty;
+    }
+    if (typeof mode === "string" && Object.hasOwn(MODE_DESCRIPTIONS, mode)) {
+      settings.mode = mode as TimelineMode;
+    }
+    if (HAND_SIZE_OPTIONS.includes(handSize as HandSizeOption)) {
+      settings.handSize = handSize as HandSizeOption;
+    }
+    return settings;
+  },
+
+  achievements: TIMELINE_ACHIEVEMENTS,
+
+  subscribeEvents: (listener) => {
+    return useTimelineStore.subscribe((state, previous) => {
+      getTimelineEvents(state, previous).forEach(listener);
+    });
+  },
+};
+
+export { useTimelineStore };
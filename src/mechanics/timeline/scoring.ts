@@ -0,0 +1,206 @@
+/**
+ * Scoring for Timeline mechanic.
+ *
+ * Cards are compared by key: the year itself, or its decade on the easier
+ * difficulty. Cards sharing a key are tied, and any order among tied cards
+ * counts as correct.
+ */
+
+import { resolveFieldPath } from "@/utils/fieldPathResolver";
+import type { DisplayCard } from "@/hooks/useCollection";
+import type { FilterField } from "@/utils/filterMatch";
+import { MIN_TIMELINE_CARDS, TIMELINE_YEAR_FIELD } from "./types";
+import type { TimelineCard, TimelineDifficulty, TimelineFieldInfo } from "./types";
+
+/**
+ * Names of number and text fields that hold a year or date. Other numbers
+ * (ranks, scores) would parse as years too, so they are left out.
+ */
+const DATE_FIELD_NAME = /year|date/i;
+
+/**
+ * Parse a year from a card field value.
+ *
+ * @param value - Field value, e.g. 1994, "1994" or "March 1994"
+ * @returns The first four-digit year in the value, or null when there is none
+ *
+ * @example
+ * ```ts
+ * parseYear("1994-03-12"); // 1994
+ * parseYear("c. 1850");    // 1850
+ * parseYear("unknown");    // null
+ * ```
+ */
+export function parseYear(value: unknown): number | null {
+  if (typeof value === "number") {
+    return Number.isInteger(value) && value >= 0 && value <= 9999 ? value : null;
+  }
+  if (typeof value !== "string") return null;
+  const match = /(?:^|\D)(\d{4})(?!\d)/.exec(value);
+  return match?.[1] ? Number(match[1]) : null;
+}
+
+/**
+ * Cards that can be placed on the timeline by a field.
+ *
+ * @param cards - Collection cards
+ * @param fieldKey - Date field to order by
+ * @returns Cards whose field holds a parseable year
+ *
+ * @example
+ * ```ts
+ * getTimelineCards(cards, "releaseDate");
+ * ```
+ */
+export function getTimelineCards(cards: readonly DisplayCard[], fieldKey: string): TimelineCard[] {
+  return cards.flatMap((card): TimelineCard[] => {
+    const year = parseYear(resolveFieldPath(card as unknown as Record<string, unknown>, fieldKey));
+    return year === null ? [] : [{ id: card.id, title: card.title, imageUrl: card.imageUrl, year }];
+  });
+}
+
+/**
+ * Pick the fields cards can be ordered by: the required year field, then
+ * the collection's other date fields.
+ *
+ * Date filter fields qualify, as do number and text fields named for a year
+ * or date, when enough cards hold a parseable year to play.
+ *
+ * @param cards - Collection cards
+ * @param filterFields - Filter fields from the collection schema
+ * @returns Date fields with at least MIN_TIMELINE_CARDS dated cards
+ *
+ * @example
+ * ```ts
+ * detectDateFields(cards, useFilterFields());
+ * // [{ key: "releaseDate", label: "Release Date" }]
+ * ```
+ */
+export function detectDateFields(
+  cards: readonly DisplayCard[],
+  filterFields: readonly FilterField[]
+): TimelineFieldInfo[] {
+  const schemaFields = filterFields
+    .filter(
+      (field) =>
+        field.field !== TIMELINE_YEAR_FIELD.key &&
+        !field.field.startsWith("_") &&
+        (field.kind === "date" ||
+          ((field.kind === "number" || field.kind === "value") &&
+            DATE_FIELD_NAME.test(field.field)))
+    )
+    .map((field) => ({ key: field.field, label: field.label }));
+
+  return [TIMELINE_YEAR_FIELD, ...schemaFields].filter(
+    (field) => getTimelineCards(cards, field.key).length >= MIN_TIMELINE_CARDS
+  );
+}
+
+/**
+ * Key a year is ordered by at a difficulty.
+ *
+ * @param year - Card year
+ * @param difficulty - Ordering precision
+ * @returns The year, or the first year of its decade
+ *
+ * @example
+ * ```ts
+ * getTimelineKey(1994, "decade"); // 1990
+ * getTimelineKey(1994, "year");   // 1994
+ * ```
+ */
+export function getTimelineKey(year: number, difficulty: TimelineDifficulty): number {
+  return difficulty === "decade" ? Math.floor(year / 10) * 10 : year;
+}
+
+/**
+ * Label for a revealed year at a difficulty.
+ *
+ * @param year - Card year
+ * @param difficulty - Ordering precision
+ * @returns "1994", or "1990s" on decade difficulty
+ *
+ * @example
+ * ```ts
+ * formatTimelineYear(1994, "decade"); // "1990s"
+ * ```
+ */
+export function formatTimelineYear(year: number, difficulty: TimelineDifficulty): string {
+  return difficulty === "decade" ? `${String(getTimelineKey(year, difficulty))}s` : String(year);
+}
+
+/**
+ * Whether the card at an index sits in chronological order with its neighbours.
+ *
+ * @param years - Years of the cards, in board order
+ * @param index - Position of the placed card
+ * @param difficulty - Ordering precision
+ * @returns True when neither neighbour is out of order (ties allowed)
+ *
+ * @example
+ * ```ts
+ * isPlacementCorrect([1985, 1994, 1994, 2001], 2, "year"); // true
+ * isPlacementCorrect([1985, 2001, 1994], 1, "year");       // false
+ * ```
+ */
+export function isPlacementCorrect(
+  years: readonly number[],
+  index: number,
+  difficulty: TimelineDifficulty
+): boolean {
+  const year = years[index];
+  if (year === undefined) return false;
+  const key = getTimelineKey(year, difficulty);
+  const previous = years[index - 1];
+  const next = years[index + 1];
+  return (
+    (previous === undefined || getTimelineKey(previous, difficulty) <= key) &&
+    (next === undefined || key <= getTimelineKey(next, difficulty))
+  );
+}
+
+/**
+ * Index at which a year belongs in an ordered timeline.
+ *
+ * @param years - Years of the cards already placed, in order
+ * @param year - Year of the card being placed
+ * @param difficulty - Ordering precision
+ * @returns Index after every card that is not later than the year
+ *
+ * @example
+ * ```ts
+ * getCorrectIndex([1985, 1994, 2001], 1994, "year"); // 2
+ * ```
+ */
+export function getCorrectIndex(
+  years: readonly number[],
+  year: number,
+  difficulty: TimelineDifficulty
+): number {
+  const key = getTimelineKey(year, difficulty);
+  return years.filter((placed) => getTimelineKey(placed, difficulty) <= key).length;
+}
+
+/**
+ * Mark each position of an arranged hand as correct or not.
+ *
+ * A position is correct when its card's key matches the key at that
+ * position in chronological order, so tied cards may swap freely.
+ *
+ * @param years - Years of the cards, in the player's order
+ * @param difficulty - Ordering precision
+ * @returns Whether each position is correct
+ *
+ * @example
+ * ```ts
+ * scoreArrangement([1994, 1985, 2001], "year"); // [false, false, true]
+ * ```
+ */
+export function scoreArrangement(
+  years: readonly number[],
+  difficulty: TimelineDifficulty
+): boolean[] {
+  const keys = years.map((year) => getTimelineKey(year, difficulty));
+  const sorted = [...keys].sort((a, b) => a - b);
+  return keys.map((key, index) => key === sorted[index]);
+}
@@ -0,0 +1,255 @@
+/**
+ * Zustand store for Timeline mechanic.
+ *
+ * Manages the deal, the player's arrangement of cards on the board and
+ * scoring of each placement.
+ */
+
+import { create } from "zustand";
+import { indexById } from "@/utils/safeRecord";
+import { shuffle } from "@/utils/shuffle";
+import { createGameRandom, inSeedOrder } from "../shared/utils";
+import type {
+  TimelineCard,
+  TimelineFieldInfo,
+  TimelineDifficulty,
+  TimelineMode,
+  TimelineSettings,
+  TimelineState,
+  HandSizeOption,
+} from "./types";
+import { DEFAULT_SETTINGS, MIN_TIMELINE_CARDS } from "./types";
+import { getCorrectIndex, isPlacementCorrect, scoreArrangement } from "./scoring";
+
+/**
+ * Extended store state with actions.
+ */
+interface TimelineStore extends TimelineState, TimelineSettings {
+  // Lifecycle
+  activate: () => void;
+  deactivate: () => void;
+  resetGame: () => void;
+  startGame: (cards: TimelineCard[], dateField?: TimelineFieldInfo) => void;
+
+  // Game actions
+  moveCard: (cardId: string, toIndex: number) => void;
+  placeCard: () => void;
+  submitHand: () => void;
+
+  // Results
+  getScore: () => number;
+  getMaxScore: () => number;
+
+  // Settings
+  setField: (field: string | null) => void;
+  setDifficulty: (difficulty: TimelineDifficulty) => void;
+  setMode: (mode: TimelineMode) => void;
+  setHandSize: (handSize: HandSizeOption) => void;
+  setSeed: (seed: number | null) => void;
+}
+
+/**
+ * Initial state.
+ */
+const INITIAL_STATE: TimelineState = {
+  isActive: false,
+  phase: "setup",
+  dateField: null,
+  cards: {},
+  arrangement: [],
+  currentCardId: null,
+  deck: [],
+  revealedIds: [],
+  placements: [],
+  gameStartedAt: 0,
+  gameEndedAt: null,
+  errorMessage: null,
+};
+
+/**
+ * Timeline store.
+ */
+export const useTimelineStore = create<TimelineStore>((set, get) => ({
+  // Initial state
+  ...INITIAL_STATE,
+  ...DEFAULT_SETTINGS,
+
+  // Lifecycle
+  activate: () => {
+    set({ ...INITIAL_STATE, isActive: true });
+  },
+
+  deactivate: () => {
+    set({ ...INITIAL_STATE, isActive: false });
+  },
+
+  resetGame: () => {
+    // Back to setup: the overlay deals a fresh game from the collection
+    set({ ...INITIAL_STATE, isActive: get().isActive });
+  },
+
+  startGame: (cards: TimelineCard[], dateField?: TimelineFieldInfo) => {
+    const { isActive, mode, handSize, seed } = get();
+
+    if (cards.length < MIN_TIMELINE_CARDS) {
+      set({
+        ...INITIAL_STATE,
+        isActive,
+        errorMessage: `Timeline needs at least ${String(MIN_TIMELINE_CARDS)} cards with a date. This collection has ${String(cards.length)}.`,
+      });
+      return;
+    }
+
+    const dealt = shuffle(
+      inSeedOrder(cards, (card) => card.id),
+      createGameRandom(seed)
+    ).slice(0, handSize);
+
+    const cardMap = indexById(dealt);
+    const ids = dealt.map((card) => card.id);
+
+    if (mode === "hand") {
+      set({
+        ...INITIAL_STATE,
+        isActive,
+        phase: "playing",
+        dateField: dateField ?? null,
+        cards: cardMap,
+        arrangement: ids,
+        gameStartedAt: Date.now(),
+      });
+      return;
+    }
+
+    // Single mode: the first card anchors the timeline, the next is in hand
+    const [anchor, current, ...deck] = ids;
+    set({
+      ...INITIAL_STATE,
+      isActive,
+      phase: "playing",
+      dateField: dateField ?? null,
+      cards: cardMap,
+      arrangement: [anchor, current].filter((id) => id !== undefined),
+      currentCardId: current ?? null,
+      deck,
+      revealedIds: anchor === undefined ? [] : [anchor],
+      gameStartedAt: Date.now(),
+    });
+  },
+
+  // Game actions
+  moveCard: (cardId: string, toIndex: number) => {
+    const { phase, mode, currentCardId, arrangement } = get();
+    if (phase !== "playing") return;
+    // Placed cards are fixed in single mode; only the card in hand moves
+    if (mode === "single" && cardId !== currentCardId) return;
+
+    const fromIndex = arrangement.indexOf(cardId);
+    if (fromIndex === -1) return;
+    const target = Math.max(0, Math.min(toIndex, arrangement.length - 1));
+    if (target === fromIndex) return;
+
+    const next = [...arrangement];
+    next.splice(fromIndex, 1);
+    next.splice(target, 0, cardId);
+    set({ arrangement: next });
+  },
+
+  placeCard: () => {
+    const { phase, mode, currentCardId, arrangement, cards, difficulty, deck } = get();
+    if (phase !== "playing" || mode !== "single" || currentCardId === null) return;
+
+    const years = arrangement.map((id) => cards[id]?.year ?? 0);
+    const index = arrangement.indexOf(currentCardId);
+    const correct = isPlacementCorrect(years, index, difficulty);
+
+    // A misplaced card moves to where it belongs
+    let placed = arrangement;
+    if (!correct) {
+      const others = arrangement.filter((id) => id !== currentCardId);
+      const year = cards[currentCardId]?.year ?? 0;
+      const correctIndex = getCorrectIndex(
+        others.map((id) => cards[id]?.year ?? 0),
+        year,
+        difficulty
+      );
+      placed = [...others.slice(0, correctIndex), currentCardId, ...others.slice(correctIndex)];
+    }
+
+    const [nextCardId, ...remaining] = deck;
+    const placements = [...get().placements, { cardId: currentCardId, correct }];
+    const revealedIds = [...get().revealedIds, currentCardId];
+
+    if (nextCardId === undefined) {
+      set({
+        arrangement: placed,
+        currentCardId: null,
+        placements,
+        revealedIds,
+        phase: "complete",
+        gameEndedAt: Date.now(),
+      });
+      return;
+    }
+
+    set({
+      arrangement: [...placed, nextCardId],
+      currentCardId: nextCardId,
+      deck: remaining,
+      placements,
+      revealedIds,
+    });
+  },
+
+  submitHand: () => {
+    const { phase, mode, arrangement, cards, difficulty } = get();
+    if (phase !== "playing" || mode !== "hand") return;
+
+    const results = scoreArrangement(
+      arrangement.map((id) => cards[id]?.year ?? 0),
+      difficulty
+    );
+    set({
+      placements: arrangement.map((cardId, index) => ({
+        cardId,
+        correct: results[index] ?? false,
+      })),
+      revealedIds: [...arrangement],
+      phase: "complete",
+      gameEndedAt: Date.now(),
+    });
+  },
+
+  // Results
+  getScore: () => {
+    return get().placements.filter((placement) => placement.correct).length;
+  },
+
+  getMaxScore: () => {
+    const { cards, mode } = get();
+    const dealt = Object.keys(cards).length;
+    // The anchor card in single mode is given, not placed
+    return mode === "single" ? Math.max(0, dealt - 1) : dealt;
+  },
+
+  // Settings
+  setField: (field: string | null) => {
+    set({ field });
+  },
+
+  setDifficulty: (difficulty: TimelineDifficulty) => {
+    set({ difficulty });
+  },
+
+  setMode: (mode: TimelineMode) => {
+    set({ mode });
+  },
+
+  setHandSize: (handSize: HandSizeOption) => {
+    set({ handSize });
+  },
+
+  setSeed: (seed: number | null) => {
+    set({ seed });
+  },
+}));
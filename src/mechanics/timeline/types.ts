@@ -0,0 +1,153 @@
+/**
+ * Type definitions for Timeline mechanic.
+ *
+ * A chronological ordering game where players drag cards into date order
+ * by a date or year field, either one card at a time or as a whole hand.
+ */
+
+import type { MechanicState } from "../types";
+
+/**
+ * How precisely cards must be ordered.
+ */
+export type TimelineDifficulty = "decade" | "year";
+
+/**
+ * How cards are placed on the timeline.
+ */
+export type TimelineMode = "single" | "hand";
+
+/**
+ * Game phase.
+ */
+export type TimelinePhase = "setup" | "playing" | "complete";
+
+/**
+ * A card that can be placed on the timeline.
+ */
+export interface TimelineCard {
+  id: string;
+  title: string;
+  imageUrl: string;
+  /** Year parsed from the card's date field */
+  year: number;
+}
+
+/**
+ * A date field cards can be ordered by.
+ */
+export interface TimelineFieldInfo {
+  /** Field path in card data */
+  key: string;
+  /** Human-readable label */
+  label: string;
+}
+
+/**
+ * Outcome of placing a card.
+ */
+export interface TimelinePlacement {
+  cardId: string;
+  correct: boolean;
+}
+
+/**
+ * Timeline game state.
+ */
+export interface TimelineState extends MechanicState {
+  /** Whether the game is active */
+  isActive: boolean;
+
+  /** Current phase */
+  phase: TimelinePhase;
+
+  /** Date field the cards in play are ordered by */
+  dateField: TimelineFieldInfo | null;
+
+  /** Cards in play, keyed by ID */
+  cards: Record<string, TimelineCard>;
+
+  /** Cards on the board, in the order the player has arranged them */
+  arrangement: string[];
+
+  /** Card being placed (single mode), or null */
+  currentCardId: string | null;
+
+  /** Cards still to be drawn (single mode) */
+  deck: string[];
+
+  /** Cards whose years are shown */
+  revealedIds: string[];
+
+  /** Scored placements so far */
+  placements: TimelinePlacement[];
+
+  /** Game start time */
+  gameStartedAt: number;
+
+  /** Game end time (null if not finished) */
+  gameEndedAt: number | null;
+
+  /** Error message if game cannot be played */
+  errorMessage: string | null;
+}
+
+/**
+ * Hand size options.
+ */
+export const HAND_SIZE_OPTIONS = [5, 8, 10, 15] as const;
+export type HandSizeOption = (typeof HAND_SIZE_OPTIONS)[number];
+
+/**
+ * Timeline settings.
+ */
+export interface TimelineSettings {
+  /** Date field to order by (null uses the first one found) */
+  field: string | null;
+  /** Ordering precision */
+  difficulty: TimelineDifficulty;
+  /** One card at a time, or the whole hand at once */
+  mode: TimelineMode;
+  /** Number of cards dealt */
+  handSize: HandSizeOption;
+  /** Seed for a reproducible deal (null deals randomly) */
+  seed: number | null;
+}
+
+/**
+ * Default settings.
+ */
+export const DEFAULT_SETTINGS: TimelineSettings = {
+  field: null,
+  difficulty: "year",
+  mode: "single",
+  handSize: 8,
+  seed: null,
+};
+
+/**
+ * Difficulty descriptions for UI.
+ */
+export const DIFFICULTY_DESCRIPTIONS: Record<TimelineDifficulty, string> = {
+  decade: "Cards only need to be in the right decade order.",
+  year: "Cards must be in exact year order.",
+};
+
+/**
+ * Mode descriptions for UI.
+ */
+export const MODE_DESCRIPTIONS: Record<TimelineMode, string> = {
+  single: "Place cards one by one into a growing timeline.",
+  hand: "Arrange the whole hand, then check your order.",
+};
+
+/**
+ * Field the manifest requires. Collections without it can still be played
+ * by a date field from their schema.
+ */
+export const TIMELINE_YEAR_FIELD: TimelineFieldInfo = { key: "year", label: "Year" };
+
+/**
+ * Minimum cards with a date needed to play.
+ */
+export const MIN_TIMELINE_CARDS = 3;
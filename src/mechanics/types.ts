@@ -5,6 +5,7 @@
  */
 
 import type { ComponentType } from "react";
+import type { FilterField } from "@/utils/filterMatch";
 
 /**
  * Display preferences that mechanics can declare.
@@ -46,6 +47,11 @@ export interface MechanicManifest {
   version: string;
   /** Required card fields for this mechanic to work */
   requiredFields?: string[];
+  /**
+   * Whether a collection lacking requiredFields has other fields that serve
+   * instead, for needs that cannot be named up front (e.g. any date field).
+   */
+  hasFields?: (cards: readonly object[], filterFields: readonly FilterField[]) => boolean;
   /** Minimum number of cards required */
   minCards?: number;
   /** Display preferences applied when mechanic activates */
@@ -90,6 +96,59 @@ export interface CardActions {
   openExpandedOnClick?: boolean;
 }
 
+/**
+ * Action a mechanic offers on a multi-card selection.
+ */
+export interface BatchAction {
+  /** Unique action identifier within the mechanic */
+  id: string;
+  /** Button label */
+  label: string;
+  /** Apply the action to the selected cards */
+  run: (cardIds: string[]) => void;
+}
+
+/**
+ * Event a mechanic emits for achievements, such as a finished game.
+ */
+export interface MechanicEvent {
+  /** Event type (e.g. "game-complete"), scoped to the emitting mechanic */
+  type: string;
+  /** Event details that achievement criteria are matched against */
+  data: Record<string, string | number | boolean>;
+}
+
+/**
+ * Condition on one field of an event's data.
+ */
+export interface AchievementCriterion {
+  /** Event data field */
+  field: string;
+  /** Field must equal this value */
+  equals?: string | number | boolean;
+  /** Field must be a number of at least this value */
+  min?: number;
+  /** Field must be a number of at most this value */
+  max?: number;
+}
+
+/**
+ * Declarative achievement definition.
+ * Earned the first time the mechanic emits a matching event.
+ */
+export interface AchievementDefinition {
+  /** Identifier, unique within the mechanic */
+  id: string;
+  /** Display name */
+  name: string;
+  /** What the player has to do */
+  description: string;
+  /** Event type that can earn the achievement */
+  event: string;
+  /** Conditions the event data must all meet */
+  criteria: AchievementCriterion[];
+}
+
 /**
  * Props for card overlay component.
  */
@@ -142,6 +201,11 @@ export interface Mechanic<TSettings = unknown> {
   subscribe: (listener: (state: MechanicState) => void) => () => void;
   /** Get card actions */
   getCardActions: () => CardActions;
+  /**
+   * Get actions for a multi-card selection. Mechanics without it control
+   * card interaction themselves, so card selection is off while they run.
+   */
+  getBatchActions?: () => BatchAction[];
   /** Optional card overlay component */
   CardOverlay?: ComponentType<CardOverlayProps>;
   /** Optional grid overlay component */
@@ -154,6 +218,19 @@ export interface Mechanic<TSettings = unknown> {
   setSettings?: (settings: Partial<TSettings>) => void;
   /** Default settings values */
   defaultSettings?: TSettings;
+  /**
+   * Validate settings from an untrusted source such as a challenge link.
+   * Unknown keys and invalid values are dropped; the seed travels
+   * separately.
+   */
+  parseSettings?: (value: Record<string, unknown>) => Partial<TSettings>;
+  /** Achievements the mechanic awards */
+  achievements?: AchievementDefinition[];
+  /**
+   * Subscribe to the mechanic's achievement events. Only called while the
+   * mechanic is active.
+   */
+  subscribeEvents?: (listener: (event: MechanicEvent) => void) => () => void;
 }
 
 /**
@@ -149,6 +149,7 @@ export {
   setNotificationHandler,
   setModalHandler,
   setCollectionProvider,
+  getCollectionData,
 } from "./sandbox/pluginAPI";
 
 export type {
@@ -12,6 +12,13 @@ import type {
   PluginTier,
 } from "@/plugins/schemas";
 import { usePluginStore } from "@/stores/pluginStore";
+import { useEditsStore } from "@/stores/editsStore";
+import {
+  getCollectionData,
+  hasCollectionCard,
+  isDeletedCollectionCard,
+  queryCollectionCards,
+} from "@/plugins/sandbox/pluginAPI";
 import {
   cacheManifest,
   getCachedManifest,
@@ -115,6 +122,12 @@ export interface PluginCollection {
   getCards: () => Promise<unknown[]>;
   getSelectedCards: () => Promise<unknown[]>;
   getCollectionInfo: () => Promise<unknown>;
+  /** Cards matching a search-bar query (e.g. `platform:NES year:>=1990`) */
+  queryCards: (query: string) => Promise<unknown[]>;
+  /** Soft-delete a card (restorable by the user) */
+  deleteCard: (cardId: string) => Promise<void>;
+  /** Restore a soft-deleted card */
+  restoreCard: (cardId: string) => Promise<void>;
 }
 
 // ============================================================================
@@ -536,22 +549,53 @@ class PluginLoader {
         if (!store.hasCapability(pluginId, "collection:read")) {
           return Promise.reject(new Error("collection:read capability not granted"));
         }
-        // TODO: Integrate with collection store
-        return Promise.resolve([]);
+        return Promise.resolve(getCollectionData()?.cards ?? []);
       },
       getSelectedCards: () => {
         if (!store.hasCapability(pluginId, "collection:read")) {
           return Promise.reject(new Error("collection:read capability not granted"));
         }
-        // TODO: Integrate with selection state
-        return Promise.resolve([]);
+        return Promise.resolve(getCollectionData()?.selectedCards ?? []);
       },
       getCollectionInfo: () => {
         if (!store.hasCapability(pluginId, "collection:read")) {
           return Promise.reject(new Error("collection:read capability not granted"));
         }
-        // TODO: Integrate with collection metadata
-        return Promise.resolve({});
+        return Promise.resolve(getCollectionData()?.info ?? {});
+      },
+      queryCards: (query) => {
+        if (!store.hasCapability(pluginId, "collection:read")) {
+          return Promise.reject(new Error("collection:read capability not granted"));
+        }
+        if (typeof query !== "string") {
+          return Promise.reject(new Error("Query must be a string"));
+        }
+        try {
+          return Promise.resolve(queryCollectionCards(query));
+        } catch (error) {
+          // Parse errors reject with the SearchQueryError message and position
+          return Promise.reject(error instanceof Error ? error : new Error(String(error)));
+        }
+      },
+      deleteCard: (cardId) => {
+        if (!store.hasCapability(pluginId, "collection:delete")) {
+          return Promise.reject(new Error("collection:delete capability not granted"));
+        }
+        if (!hasCollectionCard(cardId)) {
+          return Promise.reject(new Error(`Card not found: ${cardId}`));
+        }
+        useEditsStore.getState().deleteEntity(cardId);
+        return Promise.resolve();
+      },
+      restoreCard: (cardId) => {
+        if (!store.hasCapability(pluginId, "collection:delete")) {
+          return Promise.reject(new Error("collection:delete capability not granted"));
+        }
+        if (!isDeletedCollectionCard(cardId)) {
+          return Promise.reject(new Error(`Deleted card not found: ${cardId}`));
+        }
+        useEditsStore.getState().restoreEntity(cardId);
+        return Promise.resolve();
       },
     };
 
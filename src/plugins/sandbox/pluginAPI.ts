@@ -9,6 +9,9 @@
 
 import type { Capability } from "@/plugins/schemas";
 import { usePluginStore } from "@/stores/pluginStore";
+import { useSettingsStore } from "@/stores/settingsStore";
+import { useEditsStore } from "@/stores/editsStore";
+import { parseSearchQuery, matchesSearchQuery, withKnownFields } from "@/utils/searchQuery";
 import type { WorkerSandbox } from "./workerSandbox";
 
 // ============================================================================
@@ -33,6 +36,12 @@ export interface PluginAPIHandlers {
     getCards: () => Promise<unknown[]>;
     getSelectedCards: () => Promise<unknown[]>;
     getInfo: () => Promise<unknown>;
+    /** Cards matching a search-bar query (see utils/searchQuery) */
+    queryCards: (query: string) => Promise<unknown[]>;
+    /** Soft-delete a card (restorable by the user) */
+    deleteCard: (cardId: string) => Promise<void>;
+    /** Restore a soft-deleted card */
+    restoreCard: (cardId: string) => Promise<void>;
   };
 }
 
@@ -93,6 +102,71 @@ export function setCollectionProvider(provider: CollectionDataProvider): void {
   globalCollectionProvider = provider;
 }
 
+/**
+ * Read the collection data from the global provider.
+ *
+ * @returns Current cards, selected cards and info, or null without a provider
+ */
+export function getCollectionData(): ReturnType<CollectionDataProvider> | null {
+  return globalCollectionProvider?.() ?? null;
+}
+
+/**
+ * Whether a card is in the loaded collection.
+ *
+ * Plugins may only delete cards the collection holds, so they cannot fill
+ * the edits store with arbitrary IDs.
+ *
+ * @param cardId - Card ID
+ * @returns True when the collection provider has a card with this ID
+ */
+export function hasCollectionCard(cardId: string): boolean {
+  const cards = globalCollectionProvider?.().cards ?? [];
+  return cards.some(
+    (card) =>
+      card !== null &&
+      typeof card === "object" &&
+      (card as { id?: unknown }).id === cardId
+  );
+}
+
+/**
+ * Whether a card has been soft-deleted, and so can be restored.
+ *
+ * Deleted cards are not in the collection provider's cards, so restores are
+ * checked against the edits store instead.
+ *
+ * @param cardId - Card ID
+ * @returns True when the edits store holds a deletion for this ID
+ */
+export function isDeletedCollectionCard(cardId: string): boolean {
+  return useEditsStore.getState().getDeletedEntityIds().includes(cardId);
+}
+
+/**
+ * Find the collection cards matching a search-bar query.
+ *
+ * @param query - Query in the search-bar language (e.g. `platform:NES year:>=1990`)
+ * @returns Matching cards, or every card for an empty query
+ * @throws SearchQueryError when the query does not parse
+ */
+export function queryCollectionCards(query: string): unknown[] {
+  const node = parseSearchQuery(query);
+  const cards = globalCollectionProvider?.().cards ?? [];
+  if (!node) {
+    return cards;
+  }
+
+  const { searchFields } = useSettingsStore.getState();
+  const parsed = withKnownFields(node, cards);
+  return cards.filter(
+    (card) =>
+      card !== null &&
+      typeof card === "object" &&
+      matchesSearchQuery(card as Record<string, unknown>, parsed, { searchFields })
+  );
+}
+
 // ============================================================================
 // API Handler Factory
 // ============================================================================
@@ -202,6 +276,47 @@ export function createPluginAPIHandlers(
       }
       return Promise.resolve({});
     },
+
+    queryCards: (query: string) => {
+      requireCapability("collection:read");
+
+      if (typeof query !== "string") {
+        return Promise.reject(new Error("Query must be a string"));
+      }
+
+      // Parse errors reject with the SearchQueryError message and position
+      return Promise.resolve(queryCollectionCards(query));
+    },
+
+    deleteCard: (cardId: string) => {
+      requireCapability("collection:delete");
+
+      if (typeof cardId !== "string") {
+        return Promise.reject(new Error("Card ID must be a string"));
+      }
+
+      if (!hasCollectionCard(cardId)) {
+        return Promise.reject(new Error(`Card not found: ${cardId}`));
+      }
+
+      useEditsStore.getState().deleteEntity(cardId);
+      return Promise.resolve();
+    },
+
+    restoreCard: (cardId: string) => {
+      requireCapability("collection:delete");
+
+      if (typeof cardId !== "string") {
+        return Promise.reject(new Error("Card ID must be a string"));
+      }
+
+      if (!isDeletedCollectionCard(cardId)) {
+        return Promise.reject(new Error(`Deleted card not found: ${cardId}`));
+      }
+
+      useEditsStore.getState().restoreEntity(cardId);
+      return Promise.resolve();
+    },
   };
 
   return { storage, ui, collection };
@@ -256,4 +371,13 @@ export function registerSandboxAPIHandlers(
   sandbox.registerAPIHandler("collection", "getInfo", async () =>
     handlers.collection.getInfo()
   );
+  sandbox.registerAPIHandler("collection", "queryCards", async (query) =>
+    handlers.collection.queryCards(query as string)
+  );
+  sandbox.registerAPIHandler("collection", "deleteCard", async (cardId) =>
+    handlers.collection.deleteCard(cardId as string)
+  );
+  sandbox.registerAPIHandler("collection", "restoreCard", async (cardId) =>
+    handlers.collection.restoreCard(cardId as string)
+  );
 }
@@ -178,6 +178,18 @@ const itemdeck = {
       requireCapability('collection:read');
       return callHostAPI('collection', 'getInfo');
     },
+    queryCards: async (query) => {
+      requireCapability('collection:read');
+      return callHostAPI('collection', 'queryCards', query);
+    },
+    deleteCard: async (cardId) => {
+      requireCapability('collection:delete');
+      return callHostAPI('collection', 'deleteCard', cardId);
+    },
+    restoreCard: async (cardId) => {
+      requireCapability('collection:delete');
+      return callHostAPI('collection', 'restoreCard', cardId);
+    },
   },
 };
 
@@ -5,12 +5,14 @@
  */
 
 import ghProvider from "./gh.json";
+import glProvider from "./gl.json";
 import type { Provider } from "./types";
 
 // Provider registry
 const providers: Record<string, Provider> = {
   gh: ghProvider as Provider,
-  // Future: gitlab, bitbucket, self-hosted
+  gl: glProvider as Provider,
+  // Future: bitbucket, self-hosted
 };
 
 /**
@@ -65,13 +67,16 @@ function encodeParamValue(placeholder: string, value: string): string {
 /**
  * Build a collection URL from provider and parameters.
  *
- * @param providerId - Provider ID (e.g., "gh")
+ * @param providerId - Provider ID (e.g., "gh", "gl")
  * @param params - URL parameters
  * @returns Full CDN URL or null if invalid
  *
  * @example
  * buildCollectionUrl("gh", { u: "REPPL", collection: "commercials" })
  * // Returns: https://cdn.jsdelivr.net/gh/REPPL/MyPlausibleMe@main/data/collections/commercials
+ *
+ * buildCollectionUrl("gl", { u: "REPPL", collection: "commercials" })
+ * // Returns: https://cdn.statically.io/gl/REPPL/MyPlausibleMe/main/data/collections/commercials
  */
 export function buildCollectionUrl(
   providerId: string,
@@ -8,7 +8,7 @@
 import { z } from "zod";
 
 // Current settings store version (matches settingsStore)
-export const SETTINGS_EXPORT_VERSION = 26;
+export const SETTINGS_EXPORT_VERSION = 28;
 
 /**
  * Upper bound on `searchFields` on the settings-import path. Search resolves
@@ -27,6 +27,45 @@ const MAX_SEARCH_FIELDS = 32;
  */
 const MAX_LABEL_LENGTH = 120;
 
+/**
+ * Upper bounds on imported saved views. Every view is listed in the sidebar
+ * and applying one replays its filters over every card, so the number of
+ * sources, views, filters and filter values are all capped. Views and names
+ * mirror MAX_SAVED_VIEWS_PER_SOURCE and MAX_SAVED_VIEW_NAME_LENGTH in
+ * settingsStore; filters and values mirror MAX_DEFAULT_FILTERS and
+ * MAX_DEFAULT_FILTER_VALUES in settingsLoader; the query mirrors
+ * MAX_QUERY_LENGTH in utils/searchQuery.
+ */
+const MAX_SAVED_VIEW_SOURCES = 50;
+const MAX_SAVED_VIEWS_PER_SOURCE = 20;
+const MAX_SAVED_VIEW_NAME_LENGTH = 60;
+const MAX_SAVED_VIEW_FILTERS = 10;
+const MAX_SAVED_VIEW_FILTER_VALUES = 50;
+const MAX_SAVED_VIEW_QUERY_LENGTH = 500;
+
+/**
+ * Upper bounds on imported custom orders, which are persisted to
+ * localStorage and applied over every card. Mirror MAX_CUSTOM_ORDER_SOURCES
+ * and MAX_CUSTOM_ORDER_LENGTH in settingsStore.
+ */
+const MAX_CUSTOM_ORDER_SOURCES = 20;
+const MAX_CUSTOM_ORDER_LENGTH = 10000;
+const MAX_CUSTOM_ORDER_ID_LENGTH = 200;
+
+/**
+ * Upper bounds on imported personal annotations, which are merged onto every
+ * card of their source. Tags and notes mirror MAX_TAG_LENGTH,
+ * MAX_TAGS_PER_CARD, MAX_TAGS_PER_SOURCE and MAX_NOTE_LENGTH in
+ * annotationsStore.
+ */
+const MAX_ANNOTATION_SOURCES = 50;
+const MAX_ANNOTATED_CARDS_PER_SOURCE = 10000;
+const MAX_ANNOTATION_CARD_ID_LENGTH = 200;
+const MAX_TAG_LENGTH = 32;
+const MAX_TAGS_PER_CARD = 20;
+const MAX_TAGS_PER_SOURCE = 200;
+const MAX_NOTE_LENGTH = 10000;
+
 // ============================================================================
 // Colour Validation
 // ============================================================================
@@ -114,6 +153,84 @@ const fieldMappingSchema = z.object({
   topBadgeField: z.string().optional(),
 });
 
+// ============================================================================
+// Saved View Schema
+// ============================================================================
+
+const savedViewFilterSchema = z.object({
+  field: z.string().min(1),
+  values: z.array(z.string()).max(MAX_SAVED_VIEW_FILTER_VALUES),
+  range: z
+    .object({
+      type: z.enum(["number", "date"]),
+      min: z.number().optional(),
+      max: z.number().optional(),
+    })
+    .optional(),
+});
+
+const savedViewSchema = z.object({
+  id: z.string().min(1).max(64),
+  name: z.string().min(1).max(MAX_SAVED_VIEW_NAME_LENGTH),
+  searchQuery: z.string().max(MAX_SAVED_VIEW_QUERY_LENGTH),
+  activeFilters: z.array(savedViewFilterSchema).max(MAX_SAVED_VIEW_FILTERS),
+  groupByField: z.string().nullable(),
+  fieldMapping: fieldMappingSchema,
+  layout: layoutTypeSchema,
+  createdAt: z.number(),
+});
+
+const savedViewsSchema = z
+  .record(z.string(), z.array(savedViewSchema).max(MAX_SAVED_VIEWS_PER_SOURCE))
+  .refine((views) => Object.keys(views).length <= MAX_SAVED_VIEW_SOURCES, {
+    message: `Too many sources (maximum ${String(MAX_SAVED_VIEW_SOURCES)})`,
+  });
+
+// ============================================================================
+// Custom Order Schema
+// ============================================================================
+
+const customOrdersSchema = z
+  .record(
+    z.string(),
+    z.array(z.string().min(1).max(MAX_CUSTOM_ORDER_ID_LENGTH)).max(MAX_CUSTOM_ORDER_LENGTH)
+  )
+  .refine((orders) => Object.keys(orders).length <= MAX_CUSTOM_ORDER_SOURCES, {
+    message: `Too many sources (maximum ${String(MAX_CUSTOM_ORDER_SOURCES)})`,
+  });
+
+// ============================================================================
+// Annotations Schema
+// ============================================================================
+
+const tagNameSchema = z.string().trim().min(1).max(MAX_TAG_LENGTH);
+
+const sourceAnnotationsSchema = z.object({
+  tags: z
+    .array(z.object({ name: tagNameSchema, colour: hexColourSchema }))
+    .max(MAX_TAGS_PER_SOURCE),
+  cards: z
+    .record(
+      z.string().min(1).max(MAX_ANNOTATION_CARD_ID_LENGTH),
+      z.object({
+        tags: z.array(tagNameSchema).max(MAX_TAGS_PER_CARD),
+        note: z.string().max(MAX_NOTE_LENGTH).optional(),
+        updatedAt: z.number(),
+      })
+    )
+    .refine((cards) => Object.keys(cards).length <= MAX_ANNOTATED_CARDS_PER_SOURCE, {
+      message: `Too many annotated cards (maximum ${String(MAX_ANNOTATED_CARDS_PER_SOURCE)})`,
+    }),
+});
+
+const annotationsSchema = z
+  .record(z.string(), sourceAnnotationsSchema)
+  .refine((annotations) => Object.keys(annotations).length <= MAX_ANNOTATION_SOURCES, {
+    message: `Too many sources (maximum ${String(MAX_ANNOTATION_SOURCES)})`,
+  });
+
+export type AnnotationsExport = z.infer<typeof annotationsSchema>;
+
 // ============================================================================
 // Exportable Settings Schema
 // ============================================================================
@@ -175,6 +292,10 @@ export const exportableSettingsSchema = z.object({
   // Field mapping
   fieldMapping: fieldMappingSchema.optional(),
 
+  // Saved views per source
+  savedViews: savedViewsSchema.optional(),
+  customOrders: customOrdersSchema.optional(),
+
   // Edit mode
   editModeEnabled: z.boolean().optional(),
 });
@@ -189,6 +310,8 @@ export const settingsExportSchema = z.object({
   version: z.number().int().min(1),
   exportedAt: z.iso.datetime(),
   settings: exportableSettingsSchema,
+  // Personal tags and notes per source (not settings, but part of the backup)
+  annotations: annotationsSchema.optional(),
 });
 
 export type SettingsExport = z.infer<typeof settingsExportSchema>;
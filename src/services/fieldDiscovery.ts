@@ -8,9 +8,12 @@
 import type {
   CollectionDefinition,
   EntityTypeDefinition,
+  FieldDefinition,
   FieldType,
 } from "@/types/schema";
 import type { FieldOption } from "@/utils/fieldPathResolver";
+import type { FilterFieldDef } from "@/utils/filterMatch";
+import type { EditFieldDef } from "@/utils/editFields";
 
 /**
  * Context types for field discovery.
@@ -316,3 +319,246 @@ export function discoverAllFields(
     image: discoverFieldsForContext(definition, primaryType, "image"),
   };
 }
+
+/**
+ * Upper bound on filter fields discovered from a collection.
+ *
+ * Field definitions come from untrusted collection.json and every filter
+ * field is scanned across all cards to collect its options, so the list is
+ * capped like the settings dropdowns.
+ */
+const MAX_FILTER_FIELDS = 30;
+
+/**
+ * Field names that never make useful filters (free text and identifiers).
+ */
+const NON_FILTER_FIELD_NAMES = new Set(["id", "title", "summary", "description"]);
+
+/**
+ * Build the filter definition for one schema field, if it is filterable.
+ */
+function toFilterFieldDef(name: string, field: FieldDefinition): FilterFieldDef | null {
+  if (NON_FILTER_FIELD_NAMES.has(name)) return null;
+
+  const label = toTitleCase(name);
+
+  if (field.ref) {
+    return { field: name, label, kind: "reference" };
+  }
+
+  switch (field.type) {
+    case "enum":
+      return {
+        field: name,
+        label,
+        kind: "enum",
+        enumValues: field.enum?.filter((value) => typeof value === "string"),
+      };
+    case "boolean":
+      return { field: name, label, kind: "boolean" };
+    case "array": {
+      const itemType = field.items?.type;
+      if (field.items?.ref) {
+        return { field: name, label, kind: "reference" };
+      }
+      if (itemType === undefined || itemType === "string" || itemType === "enum" || itemType === "number") {
+        return { field: name, label, kind: "array" };
+      }
+      return null;
+    }
+    case "number":
+      return { field: name, label, kind: "number" };
+    case "date":
+      return { field: name, label, kind: "date" };
+    case "rating":
+      return { field: name, label, kind: "rating" };
+    case "string":
+      return { field: name, label, kind: "value" };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Discover filter fields from a collection schema.
+ *
+ * Covers the primary entity type's enum, boolean, array, scalar and
+ * reference fields (number, date and rating fields become range filters), relationships declared in `relationships` (e.g.
+ * `game.platform`), and computed fields. Whether a field is offered in the
+ * UI still depends on the cards having values for it (collectFilterOptions).
+ *
+ * @param definition - Collection definition
+ * @param primaryType - Primary entity type name
+ * @param computedFields - Computed field names on the primary type
+ * @returns Filter field definitions, capped at MAX_FILTER_FIELDS
+ *
+ * @example
+ * discoverFilterFields(definition, "game")
+ * // Returns: [{ field: "status", label: "Status", kind: "enum", enumValues: [...] },
+ * //           { field: "platform", label: "Platform", kind: "reference" }, ...]
+ */
+export function discoverFilterFields(
+  definition: CollectionDefinition,
+  primaryType: string,
+  computedFields: readonly string[] = []
+): FilterFieldDef[] {
+  const primaryEntity = Object.hasOwn(definition.entityTypes, primaryType)
+    ? definition.entityTypes[primaryType]
+    : undefined;
+
+  if (!primaryEntity) {
+    return [];
+  }
+
+  const defs: FilterFieldDef[] = [];
+  const seen = new Set<string>();
+
+  const add = (def: FilterFieldDef | null) => {
+    if (!def || seen.has(def.field)) return;
+    seen.add(def.field);
+    defs.push(def);
+  };
+
+  // Reference relationships first: they are the collection's main groupings
+  for (const [relName, relDef] of Object.entries(definition.relationships ?? {})) {
+    const [sourceType, fieldName] = relName.split(".");
+    if (sourceType !== primaryType || !fieldName) continue;
+    if (relDef.type === "ordinal" || !relDef.target) continue;
+
+    const target = Object.hasOwn(definition.entityTypes, relDef.target)
+      ? definition.entityTypes[relDef.target]
+      : undefined;
+    add({
+      field: fieldName,
+      label: target?.label ?? toTitleCase(fieldName),
+      kind: "reference",
+    });
+  }
+
+  for (const [name, field] of Object.entries(primaryEntity.fields)) {
+    add(toFilterFieldDef(name, field));
+  }
+
+  for (const name of computedFields) {
+    add({ field: name, label: toTitleCase(name), kind: "value" });
+  }
+
+  return defs.slice(0, MAX_FILTER_FIELDS);
+}
+
+/**
+ * Maximum number of fields in a generated edit form. Field definitions come
+ * from untrusted collection.json and each renders at least one input.
+ */
+const MAX_EDIT_FIELDS = 50;
+
+/**
+ * Build the edit definition for one schema field, if it is editable.
+ *
+ * @param name - Field name
+ * @param field - Field definition
+ * @param relationTarget - Target type of a reference relationship on the field
+ */
+function toEditFieldDef(
+  name: string,
+  field: FieldDefinition,
+  relationTarget: string | undefined
+): EditFieldDef | null {
+  const base = {
+    field: name,
+    label: toTitleCase(name),
+    ...(field.required === true && { required: true }),
+  };
+  const enumValues = (values: unknown[] | undefined) =>
+    values?.filter((value): value is string => typeof value === "string");
+
+  switch (field.type) {
+    case "string": {
+      const refType = field.ref ?? relationTarget;
+      if (refType) return { ...base, kind: "reference", refType };
+      const values = enumValues(field.enum);
+      return values && values.length > 0
+        ? { ...base, kind: "enum", enumValues: values }
+        : { ...base, kind: "text" };
+    }
+    case "text":
+      return { ...base, kind: "textarea" };
+    case "number":
+      return { ...base, kind: "number" };
+    case "boolean":
+      return { ...base, kind: "boolean" };
+    case "date":
+      return { ...base, kind: "date" };
+    case "url":
+      return { ...base, kind: "url" };
+    case "enum":
+      return { ...base, kind: "enum", enumValues: enumValues(field.enum) ?? [] };
+    case "array": {
+      const refType = field.items?.ref ?? relationTarget;
+      if (refType) return { ...base, kind: "list", refType };
+      const itemType = field.items?.type;
+      if (itemType === "object" || itemType === "array") return null;
+      const values = enumValues(field.items?.enum);
+      return values && values.length > 0
+        ? { ...base, kind: "list", enumValues: values }
+        : { ...base, kind: "list" };
+    }
+    case "videos":
+      return { ...base, kind: "list" };
+    case "rating":
+      return { ...base, kind: "rating" };
+    case "detailUrls":
+      return { ...base, kind: "links" };
+    case "images":
+      return { ...base, kind: "images" };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Discover the editable fields of an entity type.
+ *
+ * Each schema field maps to an input kind by its type: enums become selects,
+ * arrays become chips, and fields that reference another entity type (via
+ * `ref` or a reference relationship such as `game.platform`) become pickers
+ * over that type. Object fields and the `id` are not editable.
+ *
+ * @param definition - Collection definition
+ * @param entityType - Entity type name
+ * @returns Edit field definitions in schema order, capped at MAX_EDIT_FIELDS
+ *
+ * @example
+ * discoverEditFields(definition, "game")
+ * // Returns: [{ field: "title", label: "Title", kind: "text", required: true },
+ * //           { field: "platform", label: "Platform", kind: "reference", refType: "platform" }, ...]
+ */
+export function discoverEditFields(
+  definition: CollectionDefinition,
+  entityType: string
+): EditFieldDef[] {
+  const typeDef = Object.hasOwn(definition.entityTypes, entityType)
+    ? definition.entityTypes[entityType]
+    : undefined;
+
+  if (!typeDef) {
+    return [];
+  }
+
+  const relationTargets = new Map<string, string>();
+  for (const [relName, relDef] of Object.entries(definition.relationships ?? {})) {
+    const [sourceType, fieldName] = relName.split(".");
+    if (sourceType !== entityType || !fieldName) continue;
+    if (relDef.type === "ordinal" || !relDef.target) continue;
+    relationTargets.set(fieldName, relDef.target);
+  }
+
+  const defs: EditFieldDef[] = [];
+  for (const [name, field] of Object.entries(typeDef.fields)) {
+    if (name === "id") continue;
+    const def = toEditFieldDef(name, field, relationTargets.get(name));
+    if (def) defs.push(def);
+  }
+
+  return defs.slice(0, MAX_EDIT_FIELDS);
+}
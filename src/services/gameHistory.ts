@@ -0,0 +1,197 @@
+/**
+ * Game history service using IndexedDB.
+ *
+ * Keeps a log of finished games from every mechanic, with the collection
+ * and settings each was played with. The log feeds personal-best detection
+ * on the completion screen and the history/leaderboard view. Oldest results
+ * are pruned once the log reaches MAX_GAME_RESULTS.
+ */
+
+import { getDB, type GameResult, type GameResultSettings } from "@/db";
+
+/**
+ * Maximum number of results kept in the log.
+ */
+export const MAX_GAME_RESULTS = 1000;
+
+/**
+ * Filter for listing results. Omitted fields match every result.
+ */
+export interface GameResultFilter {
+  /** Mechanic ID */
+  mechanicId?: string;
+  /** Source URL */
+  sourceId?: string;
+  /** Difficulty level */
+  difficulty?: string;
+}
+
+/**
+ * Outcome of recording a result.
+ */
+export interface RecordedGameResult {
+  /** The stored result */
+  result: GameResult;
+  /** Whether it beats every earlier result with the same settings */
+  isPersonalBest: boolean;
+  /** The best earlier result with the same settings, if any */
+  previousBest: GameResult | null;
+}
+
+/**
+ * Generate a unique result ID.
+ */
+function generateResultId(): string {
+  return `result_${String(Date.now())}_${Math.random().toString(36).slice(2, 7)}`;
+}
+
+/**
+ * Whether two results were played with the same settings.
+ *
+ * @param a - First settings
+ * @param b - Second settings
+ * @returns True when every setting matches
+ *
+ * @example
+ * ```ts
+ * isSameGameSettings({ difficulty: "hard", pairCount: 8 }, { difficulty: "hard", pairCount: 8 }); // true
+ * ```
+ */
+export function isSameGameSettings(a: GameResultSettings, b: GameResultSettings): boolean {
+  return (
+    a.difficulty === b.difficulty &&
+    a.pairCount === b.pairCount &&
+    a.questionCount === b.questionCount &&
+    a.cardCount === b.cardCount &&
+    a.mode === b.mode &&
+    a.lives === b.lives &&
+    a.target === b.target &&
+    a.field === b.field &&
+    a.binCount === b.binCount &&
+    a.timeLimit === b.timeLimit
+  );
+}
+
+/**
+ * Order results best first: higher score, then faster time, then earlier.
+ *
+ * @param a - First result
+ * @param b - Second result
+ * @returns Negative when a ranks above b
+ *
+ * @example
+ * ```ts
+ * const leaderboard = [...results].sort(compareGameResults);
+ * ```
+ */
+export function compareGameResults(a: GameResult, b: GameResult): number {
+  return b.score - a.score || a.durationMs - b.durationMs || a.completedAt - b.completedAt;
+}
+
+/**
+ * Find the best result comparable to a game: same mechanic, collection and
+ * settings.
+ *
+ * @param results - Results to search
+ * @param game - The game to compare with
+ * @returns The best comparable result, or null when there is none
+ *
+ * @example
+ * ```ts
+ * const best = findPersonalBest(results, { mechanicId: "memory", sourceId, settings });
+ * ```
+ */
+export function findPersonalBest(
+  results: readonly GameResult[],
+  game: Pick<GameResult, "mechanicId" | "sourceId" | "settings">
+): GameResult | null {
+  const comparable = results.filter(
+    (result) =>
+      result.mechanicId === game.mechanicId &&
+      result.sourceId === game.sourceId &&
+      isSameGameSettings(result.settings, game.settings)
+  );
+  return [...comparable].sort(compareGameResults)[0] ?? null;
+}
+
+/**
+ * Game history service.
+ */
+export const gameHistory = {
+  /**
+   * Record a finished game and check it against earlier results.
+   *
+   * @param game - The finished game (an ID is generated)
+   * @returns The stored result with personal-best details
+   */
+  async record(game: Omit<GameResult, "id">): Promise<RecordedGameResult> {
+    const db = await getDB();
+    const earlier = await db.getAllFromIndex("gameResults", "by-mechanic", game.mechanicId);
+    const previousBest = findPersonalBest(earlier, game);
+
+    const result: GameResult = { ...game, id: generateResultId() };
+    await db.put("gameResults", result);
+    await this.prune();
+
+    return {
+      result,
+      isPersonalBest: previousBest === null || compareGameResults(result, previousBest) < 0,
+      previousBest,
+    };
+  },
+
+  /**
+   * List results, most recent first.
+   *
+   * @param filter - Optional mechanic, source and difficulty filter
+   * @returns Matching results
+   */
+  async getResults(filter: GameResultFilter = {}): Promise<GameResult[]> {
+    try {
+      const db = await getDB();
+      const results = filter.mechanicId
+        ? await db.getAllFromIndex("gameResults", "by-mechanic", filter.mechanicId)
+        : await db.getAll("gameResults");
+
+      return results
+        .filter(
+          (result) =>
+            (filter.sourceId === undefined || result.sourceId === filter.sourceId) &&
+            (filter.difficulty === undefined || result.settings.difficulty === filter.difficulty)
+        )
+        .sort((a, b) => b.completedAt - a.completedAt);
+    } catch (error) {
+      console.warn("[gameHistory] Failed to read results:", error);
+      return [];
+    }
+  },
+
+  /**
+   * Remove the oldest results beyond MAX_GAME_RESULTS.
+   */
+  async prune(): Promise<void> {
+    const db = await getDB();
+    const count = await db.count("gameResults");
+    if (count <= MAX_GAME_RESULTS) return;
+
+    const tx = db.transaction("gameResults", "readwrite");
+    let cursor = await tx.store.index("by-completed-at").openCursor();
+    let excess = count - MAX_GAME_RESULTS;
+    while (cursor && excess > 0) {
+      await cursor.delete();
+      excess--;
+      cursor = await cursor.continue();
+    }
+    await tx.done;
+  },
+
+  /**
+   * Delete every result.
+   */
+  async clear(): Promise<void> {
+    const db = await getDB();
+    await db.clear("gameResults");
+  },
+};
+
+export type { GameResult, GameResultSettings };
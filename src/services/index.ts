@@ -14,6 +14,8 @@ export {
   getFooterFieldOptions,
   getLogoFieldOptions,
   getSortFieldOptions,
+  discoverFilterFields,
+  discoverEditFields,
   type FieldContext,
 } from "./fieldDiscovery";
 
@@ -2,10 +2,15 @@
  * Update checker service.
  *
  * Checks remote sources for updates by comparing timestamps.
- * For GitHub sources, uses the GitHub API to check the last commit date.
+ * For GitHub and GitLab sources, uses the hosting API to check the last
+ * commit date.
  */
 
 import type { Source } from "@/stores/sourceStore";
+import {
+  parseStaticallyGitLabUrl,
+  buildGitLabProjectApiUrl,
+} from "@/loaders/gitlabDiscovery";
 
 /**
  * Result of checking for updates.
@@ -39,6 +44,14 @@ interface GitHubCommitResponse {
   };
 }
 
+/**
+ * GitLab API response for commits.
+ */
+interface GitLabCommitResponse {
+  id: string;
+  committed_date: string;
+}
+
 /**
  * Parsed GitHub URL information.
  */
@@ -134,6 +147,51 @@ async function getGitHubLastCommit(
   }
 }
 
+/**
+ * Get the last commit timestamp for a GitLab repository path.
+ *
+ * @param owner - Repository owner (namespace)
+ * @param repo - Repository name
+ * @param branch - Branch name
+ * @param path - Path to check (folder or file)
+ * @returns Timestamp of last commit, or null if failed
+ */
+async function getGitLabLastCommit(
+  owner: string,
+  repo: string,
+  branch: string,
+  path: string
+): Promise<number | null> {
+  try {
+    // Use GitLab API to get commits for the specific path
+    const apiUrl = `${buildGitLabProjectApiUrl(owner, repo)}/repository/commits?ref_name=${encodeURIComponent(branch)}&path=${encodeURIComponent(path)}&per_page=1`;
+
+    const response = await fetch(apiUrl, {
+      headers: {
+        Accept: "application/json",
+      },
+      cache: "no-store",
+    });
+
+    if (!response.ok) {
+      console.warn(`GitLab API returned ${String(response.status)} for ${apiUrl}`);
+      return null;
+    }
+
+    const commits = (await response.json()) as GitLabCommitResponse[];
+
+    const lastCommit = commits[0];
+    if (lastCommit?.committed_date) {
+      return new Date(lastCommit.committed_date).getTime();
+    }
+
+    return null;
+  } catch (error) {
+    console.warn("Failed to fetch GitLab commit info:", error);
+    return null;
+  }
+}
+
 /**
  * Get the last modified timestamp using HEAD request.
  *
@@ -171,6 +229,7 @@ async function getLastModifiedHeader(url: string): Promise<number | null> {
  * Check if a source has updates available.
  *
  * For GitHub sources (jsdelivr CDN), checks the GitHub API for the last commit.
+ * For GitLab sources (Statically CDN), checks the GitLab API for the last commit.
  * For other sources, checks the Last-Modified header.
  *
  * @param source - Source to check
@@ -184,8 +243,9 @@ export async function checkForUpdates(
   const checkedAt = new Date();
 
   try {
-    // Try to parse as GitHub URL
+    // Try to parse as GitHub or GitLab URL
     const githubInfo = parseGitHubUrl(source.url);
+    const gitlabInfo = githubInfo ? null : parseStaticallyGitLabUrl(source.url);
 
     let remoteTimestamp: number | null = null;
 
@@ -197,9 +257,16 @@ export async function checkForUpdates(
         githubInfo.branch,
         githubInfo.path
       );
+    } else if (gitlabInfo) {
+      remoteTimestamp = await getGitLabLastCommit(
+        gitlabInfo.owner,
+        gitlabInfo.repo,
+        gitlabInfo.branch,
+        gitlabInfo.path
+      );
     }
 
-    // Fall back to Last-Modified header if GitHub API didn't work
+    // Fall back to Last-Modified header if the hosting API didn't work
     remoteTimestamp = remoteTimestamp ?? (await getLastModifiedHeader(source.url));
 
     // If we couldn't get a remote timestamp, we can't determine if there's an update
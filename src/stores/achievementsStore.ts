@@ -0,0 +1,139 @@
+/**
+ * Achievements store.
+ *
+ * Records which achievements have been earned, across all mechanics and
+ * collections. Mechanics emit events while they run; the mechanic provider
+ * passes each event here with the mechanic's achievement definitions. Newly
+ * earned achievements are queued for the unlock toast.
+ */
+
+import { create } from "zustand";
+import { persist, createJSONStorage } from "zustand/middleware";
+import type { AchievementDefinition, MechanicEvent } from "@/mechanics/types";
+import { matchesAchievement } from "@/mechanics/shared/utils";
+
+/**
+ * An achievement waiting to be announced.
+ */
+export interface UnlockedAchievement {
+  /** Mechanic that awarded it */
+  mechanicId: string;
+  /** The achievement */
+  definition: AchievementDefinition;
+}
+
+/**
+ * Achievements store state.
+ */
+interface AchievementsState {
+  /** Time each achievement was earned, by achievement key */
+  earned: Record<string, number>;
+
+  /** Newly earned achievements not yet announced (not persisted) */
+  unlocked: UnlockedAchievement[];
+
+  /** Check an event against a mechanic's achievements; returns new ones */
+  recordEvent: (
+    mechanicId: string,
+    definitions: readonly AchievementDefinition[],
+    event: MechanicEvent
+  ) => UnlockedAchievement[];
+
+  /** Remove the oldest unannounced achievement */
+  dismissUnlocked: () => void;
+
+  /** Forget all earned achievements */
+  clearAchievements: () => void;
+}
+
+/**
+ * Key of an achievement in the earned map. Definition IDs are only unique
+ * within their mechanic.
+ *
+ * @param mechanicId - Mechanic that awards the achievement
+ * @param achievementId - Achievement ID within the mechanic
+ * @returns Key such as "quiz/streak-10"
+ *
+ * @example
+ * ```ts
+ * getAchievementKey("quiz", "streak-10"); // "quiz/streak-10"
+ * ```
+ */
+export function getAchievementKey(mechanicId: string, achievementId: string): string {
+  return `${mechanicId}/${achievementId}`;
+}
+
+/**
+ * Time an achievement was earned.
+ *
+ * @param earned - Earned map from the store
+ * @param mechanicId - Mechanic that awards the achievement
+ * @param achievementId - Achievement ID within the mechanic
+ * @returns Timestamp, or null when not earned
+ *
+ * @example
+ * ```ts
+ * const earned = useAchievementsStore((s) => s.earned);
+ * const earnedAt = getEarnedAt(earned, "memory", "extreme-flawless");
+ * ```
+ */
+export function getEarnedAt(
+  earned: Record<string, number>,
+  mechanicId: string,
+  achievementId: string
+): number | null {
+  const key = getAchievementKey(mechanicId, achievementId);
+  return Object.hasOwn(earned, key) ? earned[key] ?? null : null;
+}
+
+/**
+ * Achievements store with localStorage persistence.
+ */
+export const useAchievementsStore = create<AchievementsState>()(
+  persist(
+    (set, get) => ({
+      earned: {},
+      unlocked: [],
+
+      recordEvent: (mechanicId, definitions, event) => {
+        const { earned } = get();
+        const newlyEarned = definitions
+          .filter((definition) => getEarnedAt(earned, mechanicId, definition.id) === null)
+          .filter((definition) => matchesAchievement(definition, event))
+          .map((definition) => ({ mechanicId, definition }));
+        if (newlyEarned.length === 0) return [];
+
+        const earnedAt = Date.now();
+        set((state) => ({
+          earned: {
+            ...state.earned,
+            ...Object.fromEntries(
+              newlyEarned.map(({ definition }) => [
+                getAchievementKey(mechanicId, definition.id),
+                earnedAt,
+              ])
+            ),
+          },
+          unlocked: [...state.unlocked, ...newlyEarned],
+        }));
+        return newlyEarned;
+      },
+
+      dismissUnlocked: () => {
+        set((state) => ({ unlocked: state.unlocked.slice(1) }));
+      },
+
+      clearAchievements: () => {
+        set({ earned: {}, unlocked: [] });
+      },
+    }),
+    {
+      name: "itemdeck-achievements",
+      storage: createJSONStorage(() => localStorage),
+      version: 1,
+      partialize: (state) => ({ earned: state.earned }),
+    }
+  )
+);
+
+export default useAchievementsStore;
@@ -0,0 +1,259 @@
+/**
+ * Personal annotations store.
+ *
+ * Personal tags (with colours) and markdown notes on cards, kept separately
+ * from the source data and from local edits: they are never exported as
+ * collection data. Annotations are keyed by source URL, like saved views,
+ * so each collection has its own tags.
+ *
+ * Tags are merged onto display cards as the `_tags` meta field, which makes
+ * them available to search (`tag:favourite`), filters, group-by and
+ * statistics.
+ */
+
+import { create } from "zustand";
+import { persist, createJSONStorage } from "zustand/middleware";
+
+/**
+ * Colours offered for tags; new tags cycle through them.
+ */
+export const TAG_COLOURS: readonly string[] = [
+  "#ef4444",
+  "#f59e0b",
+  "#22c55e",
+  "#3b82f6",
+  "#8b5cf6",
+  "#ec4899",
+  "#14b8a6",
+  "#64748b",
+];
+
+/** Maximum length of a tag name */
+export const MAX_TAG_LENGTH = 32;
+
+/** Maximum tags on one card */
+export const MAX_TAGS_PER_CARD = 20;
+
+/** Maximum tags defined per source */
+export const MAX_TAGS_PER_SOURCE = 200;
+
+/** Maximum length of a card note */
+export const MAX_NOTE_LENGTH = 10000;
+
+/**
+ * A tag defined for a source.
+ */
+export interface TagDefinition {
+  /** Tag name as entered (matched case-insensitively) */
+  name: string;
+  /** Chip colour (hex) */
+  colour: string;
+}
+
+/**
+ * Annotations on one card.
+ */
+export interface CardAnnotation {
+  /** Names of the card's tags, in the order added */
+  tags: string[];
+  /** Markdown note */
+  note?: string;
+  /** Timestamp of the last change */
+  updatedAt: number;
+}
+
+/**
+ * Annotations for one source.
+ */
+export interface SourceAnnotations {
+  /** Tags defined for the source */
+  tags: TagDefinition[];
+  /** Annotations by card ID */
+  cards: Record<string, CardAnnotation>;
+}
+
+/**
+ * Annotations store state.
+ */
+interface AnnotationsState {
+  /** Annotations by source URL */
+  annotations: Record<string, SourceAnnotations>;
+
+  // Actions
+  /** Tag a card, defining the tag if it is new; returns false when rejected */
+  addCardTag: (sourceId: string, cardId: string, name: string) => boolean;
+  /** Remove a tag from a card */
+  removeCardTag: (sourceId: string, cardId: string, name: string) => void;
+  /** Set a card's note (an empty note removes it) */
+  setCardNote: (sourceId: string, cardId: string, note: string) => void;
+  /** Change a tag's colour */
+  setTagColour: (sourceId: string, name: string, colour: string) => void;
+  /** Delete a tag and remove it from every card */
+  deleteTag: (sourceId: string, name: string) => void;
+  /** Replace all annotations (backup import) */
+  setAnnotations: (annotations: Record<string, SourceAnnotations>) => void;
+}
+
+const EMPTY_SOURCE: SourceAnnotations = { tags: [], cards: {} };
+
+/**
+ * Annotations of a source (empty when it has none).
+ *
+ * @param annotations - Annotations by source URL
+ * @param sourceId - Source URL
+ * @returns The source's annotations
+ *
+ * @example
+ * ```ts
+ * const { tags, cards } = getSourceAnnotations(useAnnotationsStore.getState().annotations, url);
+ * ```
+ */
+export function getSourceAnnotations(
+  annotations: Record<string, SourceAnnotations>,
+  sourceId: string
+): SourceAnnotations {
+  return Object.hasOwn(annotations, sourceId) ? annotations[sourceId] ?? EMPTY_SOURCE : EMPTY_SOURCE;
+}
+
+/**
+ * Clean up a tag name: trimmed, inner whitespace collapsed, length capped.
+ *
+ * @param name - Tag name as entered
+ * @returns The tag name, or an empty string when nothing is left
+ *
+ * @example
+ * ```ts
+ * normaliseTagName("  to   play "); // "to play"
+ * ```
+ */
+export function normaliseTagName(name: string): string {
+  return name.trim().replace(/\s+/g, " ").slice(0, MAX_TAG_LENGTH);
+}
+
+/**
+ * Whether two tag names are the same tag.
+ */
+function sameTag(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Replace one card's annotation, dropping it when it holds nothing.
+ */
+function withCard(
+  source: SourceAnnotations,
+  cardId: string,
+  annotation: Omit<CardAnnotation, "updatedAt">
+): SourceAnnotations {
+  const cards = new Map(Object.entries(source.cards));
+  if (annotation.tags.length === 0 && !annotation.note) {
+    cards.delete(cardId);
+  } else {
+    cards.set(cardId, { ...annotation, updatedAt: Date.now() });
+  }
+  return { ...source, cards: Object.fromEntries(cards) };
+}
+
+/**
+ * A card's annotation (empty when it has none).
+ */
+function getCard(source: SourceAnnotations, cardId: string): CardAnnotation {
+  return Object.hasOwn(source.cards, cardId)
+    ? source.cards[cardId] ?? { tags: [], updatedAt: 0 }
+    : { tags: [], updatedAt: 0 };
+}
+
+/**
+ * Personal annotations store with localStorage persistence.
+ */
+export const useAnnotationsStore = create<AnnotationsState>()(
+  persist(
+    (set, get) => {
+      /** Replace one source's annotations */
+      const setSource = (sourceId: string, source: SourceAnnotations) => {
+        set((state) => ({ annotations: { ...state.annotations, [sourceId]: source } }));
+      };
+
+      return {
+        annotations: {},
+
+        addCardTag: (sourceId, cardId, name) => {
+          const tagName = normaliseTagName(name);
+          if (!tagName) return false;
+
+          let source = getSourceAnnotations(get().annotations, sourceId);
+          const card = getCard(source, cardId);
+          if (card.tags.some((tag) => sameTag(tag, tagName))) return true;
+          if (card.tags.length >= MAX_TAGS_PER_CARD) return false;
+
+          // Reuse the existing spelling of a known tag
+          const existing = source.tags.find((tag) => sameTag(tag.name, tagName));
+          if (!existing) {
+            if (source.tags.length >= MAX_TAGS_PER_SOURCE) return false;
+            const colour = TAG_COLOURS[source.tags.length % TAG_COLOURS.length] ?? "#64748b";
+            source = { ...source, tags: [...source.tags, { name: tagName, colour }] };
+          }
+
+          setSource(
+            sourceId,
+            withCard(source, cardId, { ...card, tags: [...card.tags, existing?.name ?? tagName] })
+          );
+          return true;
+        },
+
+        removeCardTag: (sourceId, cardId, name) => {
+          const source = getSourceAnnotations(get().annotations, sourceId);
+          const card = getCard(source, cardId);
+          setSource(
+            sourceId,
+            withCard(source, cardId, { ...card, tags: card.tags.filter((tag) => !sameTag(tag, name)) })
+          );
+        },
+
+        setCardNote: (sourceId, cardId, note) => {
+          const source = getSourceAnnotations(get().annotations, sourceId);
+          const { note: _, ...card } = getCard(source, cardId);
+          const trimmed = note.trim() ? note.slice(0, MAX_NOTE_LENGTH) : "";
+          setSource(sourceId, withCard(source, cardId, trimmed ? { ...card, note: trimmed } : card));
+        },
+
+        setTagColour: (sourceId, name, colour) => {
+          const source = getSourceAnnotations(get().annotations, sourceId);
+          setSource(sourceId, {
+            ...source,
+            tags: source.tags.map((tag) => (sameTag(tag.name, name) ? { ...tag, colour } : tag)),
+          });
+        },
+
+        deleteTag: (sourceId, name) => {
+          const source = getSourceAnnotations(get().annotations, sourceId);
+          let next: SourceAnnotations = {
+            ...source,
+            tags: source.tags.filter((tag) => !sameTag(tag.name, name)),
+          };
+          for (const [cardId, card] of Object.entries(source.cards)) {
+            if (card.tags.some((tag) => sameTag(tag, name))) {
+              next = withCard(next, cardId, {
+                ...card,
+                tags: card.tags.filter((tag) => !sameTag(tag, name)),
+              });
+            }
+          }
+          setSource(sourceId, next);
+        },
+
+        setAnnotations: (annotations) => {
+          set({ annotations });
+        },
+      };
+    },
+    {
+      name: "itemdeck-annotations",
+      storage: createJSONStorage(() => localStorage),
+      version: 1,
+      partialize: (state) => ({ annotations: state.annotations }),
+    }
+  )
+);
+
+export default useAnnotationsStore;
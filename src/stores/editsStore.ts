@@ -3,6 +3,13 @@
  *
  * Manages local edits to entity data using an overlay pattern.
  * Edits are stored separately from source data and merged at render time.
+ *
+ * Entities can also be created locally (the edit holds the whole entity) and
+ * soft-deleted (hidden but restorable); both are markers on the edit, so they
+ * share the overlay's persistence, history and export.
+ *
+ * Every change is recorded in an operation log holding each affected
+ * entity's edits before and after, so changes can be undone and redone.
  */
 
 import { create } from "zustand";
@@ -12,18 +19,77 @@ import { persist, createJSONStorage } from "zustand/middleware";
  * A single entity's edits.
  */
 export interface EntityEdit {
-  /** Fields that have been modified */
+  /** Fields that have been modified (every field, for created entities) */
   fields: Record<string, unknown>;
   /** Timestamp of last edit */
   editedAt: number;
+  /** Present when the entity was created locally rather than upstream */
+  created?: {
+    /** Entity type the entity was created as */
+    entityType: string;
+  };
+  /** Timestamp of soft deletion; the entity is hidden until restored */
+  deletedAt?: number;
+  /**
+   * Upstream values the edited fields replaced, by field (null when the
+   * field was absent). A field whose upstream value no longer matches its
+   * base has changed upstream since it was edited.
+   */
+  base?: Record<string, unknown>;
+}
+
+/**
+ * Kind of change an operation made.
+ */
+export type EditOperationType =
+  | "set"
+  | "revertField"
+  | "revertEntity"
+  | "revertAll"
+  | "import"
+  | "create"
+  | "delete"
+  | "restore"
+  | "resolve";
+
+/**
+ * One entity's edits before and after an operation (null: no edits).
+ */
+export interface EditChange {
+  /** Entity ID */
+  entityId: string;
+  /** Edits before the operation */
+  before: EntityEdit | null;
+  /** Edits after the operation */
+  after: EntityEdit | null;
+}
+
+/**
+ * An entry in the edit history.
+ */
+export interface EditOperation {
+  /** Unique operation ID */
+  id: string;
+  /** Kind of change */
+  type: EditOperationType;
+  /** Timestamp of the operation */
+  timestamp: number;
+  /**
+   * Who made the change: "local" for changes made on this device, "import"
+   * for history carried in from an edits file. Imported entries are shown in
+   * the history but are not undoable here.
+   */
+  author: "local" | "import";
+  /** Affected entities */
+  changes: EditChange[];
 }
 
 /**
  * Exported edits format for import/export.
  */
 export interface ExportedEdits {
-  /** Export format version */
-  version: 1;
+  /** Export format version (2 added created and deleted entities) */
+  version: 1 | 2;
   /** ISO timestamp of export */
   exportedAt: string;
   /** ID of the source collection */
@@ -32,26 +98,96 @@ export interface ExportedEdits {
   editCount: number;
   /** The actual edits */
   edits: Record<string, EntityEdit>;
+  /** Edit history (absent in files exported before history existed) */
+  history?: EditOperation[];
 }
 
+/**
+ * Current edits export format version.
+ */
+export const EDITS_EXPORT_VERSION = 2;
+
+/**
+ * Prefix of locally generated entity IDs, so they never collide with
+ * upstream IDs.
+ */
+export const LOCAL_ENTITY_ID_PREFIX = "local_";
+
+/**
+ * Prefix of context (platform/category) entity IDs, so they never collide
+ * with card IDs.
+ */
+export const CONTEXT_EDIT_ID_PREFIX = "context:";
+
+/**
+ * Maximum operations kept in the history (and in the redo stack).
+ */
+export const MAX_EDIT_HISTORY = 100;
+
+/**
+ * Maximum entity changes kept across the history. Bulk operations such as
+ * "Revert All" snapshot every edited entity, and the log is persisted to
+ * localStorage alongside the edits.
+ */
+export const MAX_EDIT_HISTORY_CHANGES = 5000;
+
+/**
+ * Persisted edits store version. Version 1 stopped persisting the redo stack.
+ */
+const EDITS_STORE_VERSION = 1;
+
 /**
  * Edits store state interface.
  */
 interface EditsState {
   /** Map of entity ID to edits */
   edits: Record<string, EntityEdit>;
+  /** Operation log, oldest first */
+  history: EditOperation[];
+  /** Undone operations, most recently undone last */
+  future: EditOperation[];
 
   // Actions
   /** Set a single field value for an entity */
   setField: (entityId: string, field: string, value: unknown) => void;
-  /** Set multiple field values for an entity */
-  setFields: (entityId: string, fields: Record<string, unknown>) => void;
+  /**
+   * Set multiple field values for an entity, optionally reverting others in
+   * the same operation (one undo step)
+   */
+  setFields: (
+    entityId: string,
+    fields: Record<string, unknown>,
+    revertFields?: readonly string[]
+  ) => void;
+  /** Set one field to the same value on several entities (one undo step) */
+  setFieldForEntities: (entityIds: readonly string[], field: string, value: unknown) => void;
   /** Revert a single field for an entity */
   revertField: (entityId: string, field: string) => void;
   /** Revert all edits for an entity */
   revertEntity: (entityId: string) => void;
   /** Revert all edits for all entities */
   revertAll: () => void;
+  /** Create an entity locally; returns its generated ID */
+  createEntity: (entityType: string, fields: Record<string, unknown>) => string;
+  /** Soft-delete an entity (hidden but restorable) */
+  deleteEntity: (entityId: string) => void;
+  /** Soft-delete several entities (one undo step) */
+  deleteEntities: (entityIds: readonly string[]) => void;
+  /** Restore a soft-deleted entity */
+  restoreEntity: (entityId: string) => void;
+  /** Record upstream base values for edited fields that have none (not undoable) */
+  recordBases: (bases: Record<string, Record<string, unknown>>) => void;
+  /**
+   * Resolve a field changed upstream since it was edited: keep `value` as the
+   * edit against the new upstream value, or take upstream when omitted.
+   */
+  resolveConflict: (entityId: string, field: string, upstream: unknown, value?: unknown) => void;
+  /** Undo the latest local operation; returns it, or null if none */
+  undo: () => EditOperation | null;
+  /** Redo the latest undone operation; returns it, or null if none */
+  redo: () => EditOperation | null;
+  /** Clear the history and redo stack (edits are kept) */
+  clearHistory: () => void;
 
   // Selectors
   /** Get edits for a specific entity */
@@ -62,6 +198,10 @@ interface EditsState {
   getEditedEntityIds: () => string[];
   /** Get total count of edited entities */
   getTotalEditCount: () => number;
+  /** Get IDs of soft-deleted entities */
+  getDeletedEntityIds: () => string[];
+  /** Get the operations that changed an entity, oldest first */
+  getEntityHistory: (entityId: string) => EditOperation[];
 
   // Export/Import
   /** Export all edits for backup */
@@ -70,6 +210,202 @@ interface EditsState {
   importEdits: (data: ExportedEdits, mode: "merge" | "replace") => void;
 }
 
+/**
+ * Generate a unique operation ID.
+ */
+function generateOperationId(): string {
+  return `op_${String(Date.now())}_${Math.random().toString(36).slice(2, 7)}`;
+}
+
+/**
+ * Edits store ID of a context (platform/category) entity.
+ *
+ * @param contextId - Upstream context entity ID
+ * @returns Entity ID as keyed in the edits store
+ *
+ * @example
+ * ```ts
+ * toContextEditId("snes"); // "context:snes"
+ * ```
+ */
+export function toContextEditId(contextId: string): string {
+  return `${CONTEXT_EDIT_ID_PREFIX}${contextId}`;
+}
+
+/**
+ * Whether an edit ID refers to a context (platform/category) entity.
+ *
+ * @param entityId - Entity ID as keyed in the edits store
+ * @returns Upstream entity ID and whether it is a context entity
+ *
+ * @example
+ * ```ts
+ * parseEditEntityId("context:snes"); // { id: "snes", isContext: true }
+ * ```
+ */
+export function parseEditEntityId(entityId: string): { id: string; isContext: boolean } {
+  return entityId.startsWith(CONTEXT_EDIT_ID_PREFIX)
+    ? { id: entityId.slice(CONTEXT_EDIT_ID_PREFIX.length), isContext: true }
+    : { id: entityId, isContext: false };
+}
+
+/**
+ * Generate a unique ID for a locally created entity.
+ */
+function generateEntityId(): string {
+  return `${LOCAL_ENTITY_ID_PREFIX}${String(Date.now())}_${Math.random().toString(36).slice(2, 7)}`;
+}
+
+/**
+ * Whether an edit must be kept even without field changes: it creates or
+ * deletes its entity.
+ */
+function isStructuralEdit(edit: EntityEdit): boolean {
+  return edit.created !== undefined || edit.deletedAt !== undefined;
+}
+
+/**
+ * Drop base values of fields that are no longer edited.
+ */
+function pruneBase(edit: EntityEdit): EntityEdit {
+  if (!edit.base) return edit;
+  const { base, ...rest } = edit;
+  const kept = Object.entries(base).filter(([field]) => Object.hasOwn(edit.fields, field));
+  return kept.length > 0 ? { ...rest, base: Object.fromEntries(kept) } : rest;
+}
+
+/**
+ * Own-property lookup of an entity's edits.
+ */
+function findEdit(
+  edits: Record<string, EntityEdit>,
+  entityId: string
+): EntityEdit | null {
+  return Object.hasOwn(edits, entityId) ? edits[entityId] ?? null : null;
+}
+
+/**
+ * Entities whose edits differ between two edit maps. Unchanged entities keep
+ * their object identity across updates, so a reference check suffices.
+ */
+function diffEdits(
+  before: Record<string, EntityEdit>,
+  after: Record<string, EntityEdit>
+): EditChange[] {
+  const changes: EditChange[] = [];
+  for (const entityId of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    const previous = findEdit(before, entityId);
+    const next = findEdit(after, entityId);
+    if (previous !== next) {
+      changes.push({ entityId, before: previous, after: next });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Trim a list of operations to the history caps, dropping the oldest first.
+ * The newest operation is always kept so it stays undoable.
+ */
+function capOperations(operations: EditOperation[]): EditOperation[] {
+  const capped = operations.slice(-MAX_EDIT_HISTORY);
+  let total = capped.reduce((sum, op) => sum + op.changes.length, 0);
+  let start = 0;
+  while (total > MAX_EDIT_HISTORY_CHANGES && start < capped.length - 1) {
+    total -= capped[start]?.changes.length ?? 0;
+    start++;
+  }
+  return capped.slice(start);
+}
+
+/**
+ * Apply one side of an operation's snapshots to the edits.
+ */
+function applySnapshots(
+  edits: Record<string, EntityEdit>,
+  changes: EditChange[],
+  side: "before" | "after"
+): Record<string, EntityEdit> {
+  const snapshots = new Map(changes.map((change) => [change.entityId, change[side]]));
+  const entries = Object.entries(edits).filter(([entityId]) => !snapshots.has(entityId));
+  for (const [entityId, snapshot] of snapshots) {
+    if (snapshot) entries.push([entityId, snapshot]);
+  }
+  return Object.fromEntries(entries);
+}
+
+/**
+ * Build the state update for a change to the edits, recording it in the
+ * history. A new operation clears the redo stack. No-op changes are not
+ * recorded.
+ */
+function commitEdits(
+  state: EditsState,
+  type: EditOperationType,
+  edits: Record<string, EntityEdit>,
+  importedHistory: EditOperation[] = []
+): Partial<EditsState> {
+  const changes = diffEdits(state.edits, edits);
+  if (changes.length === 0 && importedHistory.length === 0) {
+    return state;
+  }
+
+  // History carried in from a file is merged in time order ahead of the
+  // operation that imported it
+  const knownIds = new Set(state.history.map((op) => op.id));
+  const imported = importedHistory
+    .filter((op) => !knownIds.has(op.id))
+    .map((op) => ({ ...op, author: "import" as const }));
+  const history =
+    imported.length > 0
+      ? [...state.history, ...imported].sort((a, b) => a.timestamp - b.timestamp)
+      : [...state.history];
+
+  if (changes.length > 0) {
+    history.push({
+      id: generateOperationId(),
+      type,
+      timestamp: Date.now(),
+      author: "local",
+      changes,
+    });
+  }
+
+  return { edits, history: capOperations(history), future: [] };
+}
+
+/**
+ * Part of the edits store kept in localStorage. The redo stack is left out:
+ * it only means something until the next change, not across reloads.
+ */
+type PersistedEditsState = Pick<EditsState, "edits" | "history">;
+
+/**
+ * Bring persisted edits from an earlier store version up to date.
+ *
+ * Unversioned stores saved the edits alone, or (once undo existed) the
+ * edits with the history and redo stacks. The edits and history carry over;
+ * the redo stack is dropped.
+ *
+ * @param persisted - State read from localStorage
+ * @returns State in the current persisted shape
+ *
+ * @example
+ * ```ts
+ * migrateEditsState({ edits, history, future }); // { edits, history }
+ * ```
+ */
+export function migrateEditsState(persisted: unknown): PersistedEditsState {
+  const state = (persisted ?? {}) as Partial<Record<keyof PersistedEditsState, unknown>>;
+  return {
+    edits:
+      state.edits !== null && typeof state.edits === "object" && !Array.isArray(state.edits)
+        ? (state.edits as Record<string, EntityEdit>)
+        : {},
+    history: Array.isArray(state.history) ? (state.history as EditOperation[]) : [],
+  };
+}
+
 /**
  * Entity edits store with persistence.
  *
@@ -79,77 +415,193 @@ export const useEditsStore = create<EditsState>()(
   persist(
     (set, get) => ({
       edits: {},
+      history: [],
+      future: [],
 
       setField: (entityId, field, value) => {
         set((state) => {
-          const existingEdit = state.edits[entityId];
-          return {
-            edits: {
-              ...state.edits,
-              [entityId]: {
-                fields: {
-                  ...(existingEdit?.fields ?? {}),
-                  [field]: value,
-                },
-                editedAt: Date.now(),
+          const existingEdit = findEdit(state.edits, entityId);
+          return commitEdits(state, "set", {
+            ...state.edits,
+            [entityId]: {
+              ...existingEdit,
+              fields: {
+                ...(existingEdit?.fields ?? {}),
+                [field]: value,
               },
+              editedAt: Date.now(),
             },
-          };
+          });
         });
       },
 
-      setFields: (entityId, fields) => {
+      setFields: (entityId, fields, revertFields = []) => {
         set((state) => {
-          const existingEdit = state.edits[entityId];
-          return {
-            edits: {
-              ...state.edits,
-              [entityId]: {
-                fields: {
-                  ...(existingEdit?.fields ?? {}),
-                  ...fields,
-                },
-                editedAt: Date.now(),
-              },
-            },
-          };
+          const existingEdit = findEdit(state.edits, entityId);
+          const reverted = new Set(revertFields);
+          const nextFields = Object.fromEntries(
+            Object.entries({ ...(existingEdit?.fields ?? {}), ...fields }).filter(
+              ([field]) => !reverted.has(field) || Object.hasOwn(fields, field)
+            )
+          );
+
+          // Reverting every remaining field removes the entity entry
+          if (Object.keys(nextFields).length === 0 && !(existingEdit && isStructuralEdit(existingEdit))) {
+            if (!existingEdit) return state;
+            const { [entityId]: _, ...remainingEdits } = state.edits;
+            return commitEdits(state, "revertEntity", remainingEdits);
+          }
+
+          return commitEdits(state, "set", {
+            ...state.edits,
+            [entityId]: pruneBase({
+              ...existingEdit,
+              fields: nextFields,
+              editedAt: Date.now(),
+            }),
+          });
+        });
+      },
+
+      setFieldForEntities: (entityIds, field, value) => {
+        set((state) => {
+          const now = Date.now();
+          const updated = new Map(
+            entityIds.map((entityId) => {
+              const existingEdit = findEdit(state.edits, entityId);
+              return [
+                entityId,
+                pruneBase({
+                  ...existingEdit,
+                  fields: { ...(existingEdit?.fields ?? {}), [field]: value },
+                  editedAt: now,
+                }),
+              ];
+            })
+          );
+          return commitEdits(state, "set", { ...state.edits, ...Object.fromEntries(updated) });
         });
       },
 
       revertField: (entityId, field) => {
         set((state) => {
-          const existingEdit = state.edits[entityId];
-          if (!existingEdit) return state;
+          const existingEdit = findEdit(state.edits, entityId);
+          if (!existingEdit || !Object.hasOwn(existingEdit.fields, field)) return state;
 
           const { [field]: _, ...remainingFields } = existingEdit.fields;
 
           // If no fields remain, remove the entity entry entirely
-          if (Object.keys(remainingFields).length === 0) {
+          if (Object.keys(remainingFields).length === 0 && !isStructuralEdit(existingEdit)) {
             const { [entityId]: __, ...remainingEdits } = state.edits;
-            return { edits: remainingEdits };
+            return commitEdits(state, "revertField", remainingEdits);
           }
 
-          return {
-            edits: {
-              ...state.edits,
-              [entityId]: {
-                fields: remainingFields,
-                editedAt: existingEdit.editedAt,
-              },
-            },
-          };
+          return commitEdits(state, "revertField", {
+            ...state.edits,
+            [entityId]: pruneBase({
+              ...existingEdit,
+              fields: remainingFields,
+            }),
+          });
         });
       },
 
       revertEntity: (entityId) => {
         set((state) => {
           const { [entityId]: _, ...remainingEdits } = state.edits;
-          return { edits: remainingEdits };
+          return commitEdits(state, "revertEntity", remainingEdits);
         });
       },
 
       revertAll: () => {
-        set({ edits: {} });
+        set((state) => commitEdits(state, "revertAll", {}));
+      },
+
+      createEntity: (entityType, fields) => {
+        const entityId = generateEntityId();
+        const { id: _, ...entityFields } = fields;
+        const now = Date.now();
+        set((state) =>
+          commitEdits(state, "create", {
+            ...state.edits,
+            [entityId]: {
+              fields: entityFields,
+              editedAt: now,
+              created: { entityType },
+            },
+          })
+        );
+        return entityId;
+      },
+
+      deleteEntity: (entityId) => {
+        get().deleteEntities([entityId]);
+      },
+
+      deleteEntities: (entityIds) => {
+        set((state) => {
+          const now = Date.now();
+          const deleted = new Map<string, EntityEdit>();
+          for (const entityId of entityIds) {
+            const existingEdit = findEdit(state.edits, entityId);
+            if (existingEdit?.deletedAt !== undefined) continue;
+            deleted.set(entityId, {
+              ...existingEdit,
+              fields: existingEdit?.fields ?? {},
+              editedAt: existingEdit?.editedAt ?? now,
+              deletedAt: now,
+            });
+          }
+          if (deleted.size === 0) return state;
+
+          return commitEdits(state, "delete", { ...state.edits, ...Object.fromEntries(deleted) });
+        });
+      },
+
+      restoreEntity: (entityId) => {
+        set((state) => {
+          const existingEdit = findEdit(state.edits, entityId);
+          if (existingEdit?.deletedAt === undefined) return state;
+
+          const { deletedAt: _, ...restored } = existingEdit;
+          if (Object.keys(restored.fields).length === 0 && !isStructuralEdit(restored)) {
+            const { [entityId]: __, ...remainingEdits } = state.edits;
+            return commitEdits(state, "restore", remainingEdits);
+          }
+          return commitEdits(state, "restore", { ...state.edits, [entityId]: restored });
+        });
+      },
+
+      undo: () => {
+        const { history, future, edits } = get();
+        let index = history.length - 1;
+        while (index >= 0 && history[index]?.author !== "local") index--;
+        const operation = history[index];
+        if (!operation) return null;
+
+        set({
+          edits: applySnapshots(edits, operation.changes, "before"),
+          history: history.filter((_, i) => i !== index),
+          future: [...future, operation].slice(-MAX_EDIT_HISTORY),
+        });
+        return operation;
+      },
+
+      redo: () => {
+        const { history, future, edits } = get();
+        const operation = future[future.length - 1];
+        if (!operation) return null;
+
+        set({
+          edits: applySnapshots(edits, operation.changes, "after"),
+          history: capOperations([...history, operation]),
+          future: future.slice(0, -1),
+        });
+        return operation;
+      },
+
+      clearHistory: () => {
+        set({ history: [], future: [] });
       },
 
       getEdit: (entityId) => {
@@ -173,21 +625,95 @@ export const useEditsStore = create<EditsState>()(
         return Object.keys(get().edits).length;
       },
 
+      recordBases: (bases) => {
+        set((state) => {
+          const updates = Object.entries(bases).flatMap(([entityId, values]) => {
+            const existingEdit = findEdit(state.edits, entityId);
+            if (!existingEdit || existingEdit.created) return [];
+
+            const missing = Object.entries(values).filter(
+              ([field]) =>
+                Object.hasOwn(existingEdit.fields, field) &&
+                !(existingEdit.base && Object.hasOwn(existingEdit.base, field))
+            );
+            if (missing.length === 0) return [];
+            return [
+              [
+                entityId,
+                { ...existingEdit, base: { ...existingEdit.base, ...Object.fromEntries(missing) } },
+              ] as const,
+            ];
+          });
+          if (updates.length === 0) return state;
+
+          // The base is bookkeeping rather than a change, so history is untouched
+          const next = new Map(Object.entries(state.edits));
+          for (const [entityId, edit] of updates) next.set(entityId, edit);
+          return { edits: Object.fromEntries(next) };
+        });
+      },
+
+      resolveConflict: (entityId, field, upstream, value) => {
+        set((state) => {
+          const existingEdit = findEdit(state.edits, entityId);
+          if (!existingEdit || !Object.hasOwn(existingEdit.fields, field)) return state;
+
+          if (value === undefined) {
+            // Take upstream: drop the edited field
+            const remainingFields = Object.fromEntries(
+              Object.entries(existingEdit.fields).filter(([name]) => name !== field)
+            );
+            if (Object.keys(remainingFields).length === 0 && !isStructuralEdit(existingEdit)) {
+              const { [entityId]: _, ...remainingEdits } = state.edits;
+              return commitEdits(state, "resolve", remainingEdits);
+            }
+            return commitEdits(state, "resolve", {
+              ...state.edits,
+              [entityId]: pruneBase({ ...existingEdit, fields: remainingFields }),
+            });
+          }
+
+          // Keep (or merge): the edit now applies to the new upstream value
+          return commitEdits(state, "resolve", {
+            ...state.edits,
+            [entityId]: {
+              ...existingEdit,
+              fields: { ...existingEdit.fields, [field]: value },
+              base: { ...existingEdit.base, [field]: upstream ?? null },
+              editedAt: Date.now(),
+            },
+          });
+        });
+      },
+
+      getDeletedEntityIds: () => {
+        return Object.entries(get().edits)
+          .filter(([, edit]) => edit.deletedAt !== undefined)
+          .map(([entityId]) => entityId);
+      },
+
+      getEntityHistory: (entityId) => {
+        return get().history.filter((op) =>
+          op.changes.some((change) => change.entityId === entityId)
+        );
+      },
+
       exportEdits: (collectionId) => {
-        const edits = get().edits;
+        const { edits, history } = get();
         return {
-          version: 1,
+          version: EDITS_EXPORT_VERSION,
           exportedAt: new Date().toISOString(),
           collectionId,
           editCount: Object.keys(edits).length,
           edits,
+          history,
         };
       },
 
       importEdits: (data, mode) => {
         set((state) => {
           if (mode === "replace") {
-            return { edits: data.edits };
+            return commitEdits(state, "import", data.edits, data.history);
           }
 
           // Merge mode: existing edits take priority for conflicts
@@ -198,6 +724,8 @@ export const useEditsStore = create<EditsState>()(
             if (importedEdit) {
               // Merge fields, keeping existing values for conflicts
               merged[entityId] = {
+                ...importedEdit,
+                ...existingEdit,
                 fields: {
                   ...importedEdit.fields,
                   ...existingEdit.fields,
@@ -212,13 +740,19 @@ export const useEditsStore = create<EditsState>()(
             }
           }
 
-          return { edits: merged };
+          return commitEdits(state, "import", merged, data.history);
         });
       },
     }),
     {
       name: "itemdeck-edits",
       storage: createJSONStorage(() => localStorage),
+      version: EDITS_STORE_VERSION,
+      partialize: (state): PersistedEditsState => ({
+        edits: state.edits,
+        history: state.history,
+      }),
+      migrate: migrateEditsState,
     }
   )
 );
@@ -0,0 +1,98 @@
+/**
+ * Personal ranking store.
+ *
+ * "Which do you prefer?" answers from the My Ranking mechanic, stored as
+ * pairwise win counts keyed by source URL, like annotations, so each
+ * collection has its own ranking. Ratings are fitted from the wins (see
+ * eloRanking.ts) and the resulting order is merged onto display cards as
+ * the `_ranking` meta field, which makes it available as a sort option and
+ * as the top corner rank badge.
+ */
+
+import { create } from "zustand";
+import { persist, createJSONStorage } from "zustand/middleware";
+import { addWin, type PairwiseWins } from "@/utils/eloRanking";
+
+/**
+ * Ranking for one source.
+ */
+export interface SourceRanking {
+  /** Recorded preferences: `wins[winnerId][loserId]` */
+  wins: PairwiseWins;
+  /** Timestamp of the last comparison */
+  updatedAt: number;
+}
+
+/**
+ * Ranking store state.
+ */
+interface RankingState {
+  /** Rankings by source URL */
+  rankings: Record<string, SourceRanking>;
+
+  // Actions
+  /** Record that one card was preferred over another */
+  recordComparison: (sourceId: string, winnerId: string, loserId: string) => void;
+  /** Forget a source's ranking */
+  clearRanking: (sourceId: string) => void;
+}
+
+const EMPTY_RANKING: SourceRanking = { wins: {}, updatedAt: 0 };
+
+/**
+ * Ranking of a source (empty when it has none).
+ *
+ * @param rankings - Rankings by source URL
+ * @param sourceId - Source URL
+ * @returns The source's ranking
+ *
+ * @example
+ * ```ts
+ * const { wins } = getSourceRanking(useRankingStore.getState().rankings, url);
+ * ```
+ */
+export function getSourceRanking(
+  rankings: Record<string, SourceRanking>,
+  sourceId: string
+): SourceRanking {
+  return Object.hasOwn(rankings, sourceId) ? rankings[sourceId] ?? EMPTY_RANKING : EMPTY_RANKING;
+}
+
+/**
+ * Personal ranking store with localStorage persistence.
+ */
+export const useRankingStore = create<RankingState>()(
+  persist(
+    (set, get) => ({
+      rankings: {},
+
+      recordComparison: (sourceId, winnerId, loserId) => {
+        if (winnerId === loserId) return;
+
+        const { wins } = getSourceRanking(get().rankings, sourceId);
+        set((state) => ({
+          rankings: {
+            ...state.rankings,
+            [sourceId]: { wins: addWin(wins, winnerId, loserId), updatedAt: Date.now() },
+          },
+        }));
+      },
+
+      clearRanking: (sourceId) => {
+        set((state) => {
+          const rankings = new Map(Object.entries(state.rankings));
+          rankings.delete(sourceId);
+          return { rankings: Object.fromEntries(rankings) };
+        });
+      },
+    }),
+    {
+      name: "itemdeck-rankings",
+      storage: createJSONStorage(() => localStorage),
+      version: 1,
+      partialize: (state) => ({ rankings: state.rankings }),
+    }
+  )
+);
+
+export default useRankingStore;
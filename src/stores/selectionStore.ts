@@ -0,0 +1,109 @@
+/**
+ * Card selection store using Zustand.
+ *
+ * Tracks the cards picked in selection mode for batch actions. The selection
+ * is session state: it is not persisted, and it is exposed to plugins through
+ * the collection provider.
+ */
+
+import { create } from "zustand";
+
+/**
+ * Selection store state.
+ */
+interface SelectionState {
+  /** Whether selection mode is on (clicks select instead of flipping) */
+  isSelecting: boolean;
+  /** Selected card IDs, in selection order */
+  selectedIds: string[];
+  /** Card a range selection extends from (the last card clicked) */
+  anchorId: string | null;
+
+  // Actions
+  /** Turn selection mode on or off; turning it off clears the selection */
+  setSelecting: (isSelecting: boolean) => void;
+  /** Toggle one card, making it the range anchor */
+  toggleCard: (cardId: string) => void;
+  /** Add the cards from the anchor to a card, in display order */
+  selectRange: (orderedIds: readonly string[], cardId: string) => void;
+  /** Select cards, replacing the selection or adding to it */
+  selectCards: (cardIds: readonly string[], mode?: "replace" | "add") => void;
+  /** Clear the selection and leave selection mode */
+  clearSelection: () => void;
+}
+
+/**
+ * Cards between two cards in display order, inclusive. Falls back to the
+ * target alone when the anchor is not displayed.
+ *
+ * @param orderedIds - Card IDs in display order
+ * @param anchorId - Card the range starts from
+ * @param cardId - Card the range ends at
+ * @returns Card IDs in the range, in display order
+ *
+ * @example
+ * ```ts
+ * getRangeIds(["a", "b", "c", "d"], "d", "b"); // ["b", "c", "d"]
+ * ```
+ */
+export function getRangeIds(
+  orderedIds: readonly string[],
+  anchorId: string | null,
+  cardId: string
+): string[] {
+  const end = orderedIds.indexOf(cardId);
+  const start = anchorId === null ? -1 : orderedIds.indexOf(anchorId);
+  if (end === -1) return [];
+  if (start === -1) return [cardId];
+  return orderedIds.slice(Math.min(start, end), Math.max(start, end) + 1);
+}
+
+/**
+ * Append IDs to a selection, skipping ones already selected.
+ */
+function addIds(selectedIds: string[], cardIds: readonly string[]): string[] {
+  const selected = new Set(selectedIds);
+  return [...selectedIds, ...cardIds.filter((id) => !selected.has(id))];
+}
+
+/**
+ * Card selection store.
+ */
+export const useSelectionStore = create<SelectionState>()((set) => ({
+  isSelecting: false,
+  selectedIds: [],
+  anchorId: null,
+
+  setSelecting: (isSelecting) => {
+    set(isSelecting ? { isSelecting } : { isSelecting, selectedIds: [], anchorId: null });
+  },
+
+  toggleCard: (cardId) => {
+    set((state) => ({
+      isSelecting: true,
+      selectedIds: state.selectedIds.includes(cardId)
+        ? state.selectedIds.filter((id) => id !== cardId)
+        : [...state.selectedIds, cardId],
+      anchorId: cardId,
+    }));
+  },
+
+  selectRange: (orderedIds, cardId) => {
+    set((state) => ({
+      isSelecting: true,
+      selectedIds: addIds(state.selectedIds, getRangeIds(orderedIds, state.anchorId, cardId)),
+      anchorId: cardId,
+    }));
+  },
+
+  selectCards: (cardIds, mode = "replace") => {
+    set((state) => ({
+      isSelecting: true,
+      selectedIds: addIds(mode === "add" ? state.selectedIds : [], cardIds),
+    }));
+  },
+
+  clearSelection: () => {
+    set({ isSelecting: false, selectedIds: [], anchorId: null });
+  },
+}));
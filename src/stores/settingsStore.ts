@@ -9,6 +9,7 @@ import { create } from "zustand";
 import { persist, createJSONStorage } from "zustand/middleware";
 import type { ForcedSettings, CollectionSettings } from "@/types/collectionSettings";
 import type { MechanicDisplayPreferences } from "@/mechanics/types";
+import type { ActiveFilter, ActiveFilterRange } from "@/utils/filterMatch";
 
 /**
  * Collection config structure for applying defaults.
@@ -242,6 +243,29 @@ export interface FieldMappingConfig {
   topBadgeField: string;
 }
 
+/**
+ * A named snapshot of the search, filters, grouping, field mapping and layout
+ * for one source. Applying it restores all of them in a single update.
+ */
+export interface SavedView {
+  /** Unique view ID */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Search query text */
+  searchQuery: string;
+  /** Active filters */
+  activeFilters: ActiveFilter[];
+  /** Field to group cards by (null = no grouping) */
+  groupByField: string | null;
+  /** Field mapping, including the sort field and direction */
+  fieldMapping: Partial<FieldMappingConfig>;
+  /** Layout type */
+  layout: LayoutType;
+  /** Timestamp the view was saved */
+  createdAt: number;
+}
+
 /**
  * Card size preset options.
  */
@@ -482,8 +506,8 @@ interface SettingsState {
   /** Search scope: 'all' searches all cards, 'visible' searches only filtered/selected cards */
   searchScope: "all" | "visible";
 
-  /** Active filters as field-values pairs */
-  activeFilters: { field: string; values: string[] }[];
+  /** Active filters as field-values pairs, or field-range pairs */
+  activeFilters: ActiveFilter[];
 
   // ============================================================================
   // v0.11.0: Grouping State
@@ -495,6 +519,23 @@ interface SettingsState {
   /** List of collapsed group keys */
   collapsedGroups: string[];
 
+  // ============================================================================
+  // Saved Views State
+  // ============================================================================
+
+  /** Saved views keyed by source ID, in the order they were saved */
+  savedViews: Record<string, SavedView[]>;
+
+  // ============================================================================
+  // Custom Order State
+  // ============================================================================
+
+  /**
+   * Drag-and-drop card order (entity IDs) keyed by source ID, least recently
+   * saved first. Applied when the sort field is "My Order".
+   */
+  customOrders: Record<string, string[]>;
+
   // ============================================================================
   // v0.11.0: Mechanics State
   // ============================================================================
@@ -552,6 +593,14 @@ interface SettingsState {
    */
   appliedCollectionDefaultsSourceIds: string[];
 
+  /**
+   * Source ID whose settings.json default `filters` have been seeded into
+   * activeFilters this session. Not persisted, like activeFilters itself, so
+   * the defaults return on the next visit but a refetch of the same source
+   * does not undo the user's filter changes.
+   */
+  collectionFiltersSourceId: string | null;
+
   // ============================================================================
   // v0.14.0: Draft State Management (F-090)
   // ============================================================================
@@ -620,6 +669,8 @@ interface SettingsState {
   setSearchFields: (fields: string[]) => void;
   setSearchScope: (scope: "all" | "visible") => void;
   setFilter: (field: string, values: string[]) => void;
+  /** Set a range filter on a field; null or an open range removes it */
+  setRangeFilter: (field: string, range: ActiveFilterRange | null) => void;
   clearFilter: (field: string) => void;
   clearAllFilters: () => void;
   clearSearch: () => void;
@@ -630,6 +681,27 @@ interface SettingsState {
   expandAllGroups: () => void;
   collapseAllGroups: (groupKeys: string[]) => void;
 
+  // Saved Views Actions
+  /**
+   * Save the current search, filters, grouping, field mapping and layout as a
+   * named view for a source. Saving under an existing name updates that view.
+   * Returns null when the source already has MAX_SAVED_VIEWS_PER_SOURCE views.
+   */
+  saveView: (sourceId: string, name: string) => SavedView | null;
+  /** Apply a saved view in one update; returns false if it does not exist */
+  applySavedView: (sourceId: string, viewId: string) => boolean;
+  renameSavedView: (sourceId: string, viewId: string, name: string) => void;
+  deleteSavedView: (sourceId: string, viewId: string) => void;
+  /** Replace all saved views (used by settings import) */
+  setSavedViews: (savedViews: Record<string, SavedView[]>) => void;
+
+  // Custom Order Actions
+  /** Store the drag-and-drop order for a source */
+  setCustomOrder: (sourceId: string, order: string[]) => void;
+  clearCustomOrder: (sourceId: string) => void;
+  /** Replace all custom orders (used by settings import) */
+  setCustomOrders: (customOrders: Record<string, string[]>) => void;
+
   // v0.11.0: Mechanics Actions
   setActiveMechanicId: (id: string | null) => void;
 
@@ -698,6 +770,36 @@ interface SettingsState {
  */
 const MAX_APPLIED_COLLECTION_DEFAULTS_SOURCES = 50;
 
+/**
+ * Maximum number of saved views per source. Keeps the sidebar list usable
+ * and bounds the persisted state.
+ */
+export const MAX_SAVED_VIEWS_PER_SOURCE = 20;
+
+/**
+ * Maximum length of a saved view name.
+ */
+export const MAX_SAVED_VIEW_NAME_LENGTH = 60;
+
+/**
+ * Maximum number of sources with a stored custom order. The least recently
+ * saved order is evicted first.
+ */
+export const MAX_CUSTOM_ORDER_SOURCES = 20;
+
+/**
+ * Maximum number of IDs in one custom order. Large enough for the biggest
+ * known collections while bounding the persisted state.
+ */
+export const MAX_CUSTOM_ORDER_LENGTH = 10000;
+
+/**
+ * Generate unique saved view ID.
+ */
+function generateViewId(): string {
+  return `view_${String(Date.now())}_${Math.random().toString(36).slice(2, 7)}`;
+}
+
 /**
  * Default settings values.
  */
@@ -750,6 +852,10 @@ const DEFAULT_SETTINGS = {
   // v0.11.0: Grouping defaults
   groupByField: null,
   collapsedGroups: [],
+  // Saved views defaults
+  savedViews: {} as Record<string, SavedView[]>,
+  // Custom order defaults
+  customOrders: {} as Record<string, string[]>,
   // v0.11.0: Mechanics defaults
   activeMechanicId: null,
   // v0.11.0: External Theme defaults
@@ -768,6 +874,7 @@ const DEFAULT_SETTINGS = {
   _collectionForcedBackup: null as CollectionForcedBackup | null,
   collectionForcedSourceId: null as string | null,
   appliedCollectionDefaultsSourceIds: [] as string[],
+  collectionFiltersSourceId: null as string | null,
   // v0.14.0: Draft State defaults (F-090)
   _draft: null as DraftSettings | null,
   isDirty: false,
@@ -1030,6 +1137,25 @@ export const useSettingsStore = create<SettingsState>()(
         });
       },
 
+      setRangeFilter: (field, range) => {
+        set((state) => {
+          const others = state.activeFilters.filter((f) => f.field !== field);
+          if (!range || (range.min === undefined && range.max === undefined)) {
+            return others.length === state.activeFilters.length
+              ? state
+              : { activeFilters: others };
+          }
+          const filter: ActiveFilter = { field, values: [], range };
+          const existingIndex = state.activeFilters.findIndex((f) => f.field === field);
+          if (existingIndex >= 0) {
+            const newFilters = [...state.activeFilters];
+            newFilters[existingIndex] = filter;
+            return { activeFilters: newFilters };
+          }
+          return { activeFilters: [...state.activeFilters, filter] };
+        });
+      },
+
       clearFilter: (field) => {
         set((state) => ({
           activeFilters: state.activeFilters.filter((f) => f.field !== field),
@@ -1067,6 +1193,121 @@ export const useSettingsStore = create<SettingsState>()(
         set({ collapsedGroups: groupKeys });
       },
 
+      // Saved Views Actions
+      saveView: (sourceId, name) => {
+        const state = get();
+        const trimmed = name.trim().slice(0, MAX_SAVED_VIEW_NAME_LENGTH);
+        if (!trimmed) return null;
+
+        const views = Object.hasOwn(state.savedViews, sourceId)
+          ? state.savedViews[sourceId] ?? []
+          : [];
+        const existing = views.find((view) => view.name === trimmed);
+        if (!existing && views.length >= MAX_SAVED_VIEWS_PER_SOURCE) {
+          return null;
+        }
+
+        const view: SavedView = {
+          id: existing?.id ?? generateViewId(),
+          name: trimmed,
+          searchQuery: state.searchQuery,
+          activeFilters: state.activeFilters.map((filter) => ({ ...filter })),
+          groupByField: state.groupByField,
+          fieldMapping: { ...state.fieldMapping },
+          layout: state.layout,
+          createdAt: existing?.createdAt ?? Date.now(),
+        };
+
+        set({
+          savedViews: {
+            ...state.savedViews,
+            [sourceId]: existing
+              ? views.map((v) => (v.id === existing.id ? view : v))
+              : [...views, view],
+          },
+        });
+        return view;
+      },
+
+      applySavedView: (sourceId, viewId) => {
+        const state = get();
+        const views = Object.hasOwn(state.savedViews, sourceId)
+          ? state.savedViews[sourceId] ?? []
+          : [];
+        const view = views.find((v) => v.id === viewId);
+        if (!view) return false;
+
+        // One set() so the grid never renders a half-applied view
+        set({
+          searchQuery: view.searchQuery,
+          activeFilters: view.activeFilters.map((filter) => ({ ...filter })),
+          groupByField: view.groupByField,
+          collapsedGroups: [],
+          fieldMapping: { ...state.fieldMapping, ...view.fieldMapping },
+          layout: view.layout,
+        });
+        return true;
+      },
+
+      renameSavedView: (sourceId, viewId, name) => {
+        const trimmed = name.trim().slice(0, MAX_SAVED_VIEW_NAME_LENGTH);
+        if (!trimmed) return;
+        set((state) => {
+          const views = Object.hasOwn(state.savedViews, sourceId)
+            ? state.savedViews[sourceId] ?? []
+            : [];
+          return {
+            savedViews: {
+              ...state.savedViews,
+              [sourceId]: views.map((v) => (v.id === viewId ? { ...v, name: trimmed } : v)),
+            },
+          };
+        });
+      },
+
+      deleteSavedView: (sourceId, viewId) => {
+        set((state) => {
+          if (!Object.hasOwn(state.savedViews, sourceId)) return state;
+          const remaining = (state.savedViews[sourceId] ?? []).filter((v) => v.id !== viewId);
+          if (remaining.length > 0) {
+            return { savedViews: { ...state.savedViews, [sourceId]: remaining } };
+          }
+          const { [sourceId]: _, ...others } = state.savedViews;
+          return { savedViews: others };
+        });
+      },
+
+      setSavedViews: (savedViews) => {
+        set({ savedViews });
+      },
+
+      // Custom Order Actions
+      setCustomOrder: (sourceId, order) => {
+        set((state) => {
+          // Re-insert so the most recently saved source is last
+          const others = Object.entries(state.customOrders).filter(([id]) => id !== sourceId);
+          const kept = others.slice(Math.max(0, others.length - MAX_CUSTOM_ORDER_SOURCES + 1));
+          return {
+            customOrders: {
+              ...Object.fromEntries(kept),
+              [sourceId]: [...new Set(order)].slice(0, MAX_CUSTOM_ORDER_LENGTH),
+            },
+          };
+        });
+      },
+
+      clearCustomOrder: (sourceId) => {
+        set((state) => {
+          if (!Object.hasOwn(state.customOrders, sourceId)) return state;
+          const { [sourceId]: _, ...others } = state.customOrders;
+          return { customOrders: others };
+        });
+      },
+
+      setCustomOrders: (customOrders) => {
+        set({ customOrders });
+      },
+
       // v0.11.0: Mechanics Actions
       setActiveMechanicId: (activeMechanicId) => {
         set({ activeMechanicId });
@@ -1271,6 +1512,19 @@ export const useSettingsStore = create<SettingsState>()(
             }
           }
 
+          // Default filters are seeded whenever the source becomes active,
+          // not once ever: activeFilters are session-only, so a one-shot
+          // default would be gone after the first reload.
+          if (state.collectionFiltersSourceId !== sourceId) {
+            updates.collectionFiltersSourceId = sourceId;
+            if (settings.defaults?.filters) {
+              updates.activeFilters = settings.defaults.filters.map((filter) => ({
+                field: filter.field,
+                values: [...filter.values],
+              }));
+            }
+          }
+
           return Object.keys(updates).length > 0 ? updates : state;
         });
       },
@@ -1492,7 +1746,7 @@ export const useSettingsStore = create<SettingsState>()(
     }),
     {
       name: "itemdeck-settings",
-      version: 28,
+      version: 30,
       storage: createJSONStorage(() => localStorage),
       // Force-clear activeMechanicId after rehydration - games should never auto-start
       onRehydrateStorage: () => (state) => {
@@ -1505,6 +1759,21 @@ export const useSettingsStore = create<SettingsState>()(
         if (state && !Array.isArray(state.appliedCollectionDefaultsSourceIds)) {
           state.appliedCollectionDefaultsSourceIds = [];
         }
+        // Same for savedViews, which the sidebar indexes by source ID
+        const savedViews: unknown = state?.savedViews;
+        if (
+          state &&
+          (typeof savedViews !== "object" || savedViews === null || Array.isArray(savedViews))
+        ) {
+          state.savedViews = {};
+        }
+        const customOrders: unknown = state?.customOrders;
+        if (
+          state &&
+          (typeof customOrders !== "object" || customOrders === null || Array.isArray(customOrders))
+        ) {
+          state.customOrders = {};
+        }
         // Restore settings from a mechanic override backup that survived a
         // crash or tab-kill. No mechanic session is ever active after
         // rehydration (activeMechanicId is never persisted), so a stored
@@ -1572,6 +1841,8 @@ export const useSettingsStore = create<SettingsState>()(
         searchFields: state.searchFields,
         searchScope: state.searchScope,
         groupByField: state.groupByField,
+        savedViews: state.savedViews,
+        customOrders: state.customOrders,
         // Note: activeMechanicId is intentionally NOT persisted
         // Games should start fresh on page reload
         selectedExternalThemeId: state.selectedExternalThemeId,
@@ -1894,6 +2165,22 @@ export const useSettingsStore = create<SettingsState>()(
           };
         }
 
+        // Handle migration from version 28 to 29 (add saved views)
+        if (version < 29) {
+          state = {
+            ...state,
+            savedViews: {},
+          };
+        }
+
+        // Handle migration from version 29 to 30 (add custom orders)
+        if (version < 30) {
+          state = {
+            ...state,
+            customOrders: {},
+          };
+        }
+
         return state as unknown as SettingsState;
       },
     }
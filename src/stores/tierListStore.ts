@@ -0,0 +1,177 @@
+/**
+ * Tier list store.
+ *
+ * Tier rows and card placements from the Tier List mechanic, keyed by
+ * source URL like annotations, so each collection has its own tier list.
+ * Placements are merged onto display cards as the `_tier` meta field,
+ * which makes them available to search (`tier:=S`), filters and group-by.
+ */
+
+import { create } from "zustand";
+import { persist, createJSONStorage } from "zustand/middleware";
+import {
+  MAX_TIER_LABEL_LENGTH,
+  MAX_TIER_ROWS,
+  TIER_COLOURS,
+  createDefaultTierRows,
+  placeCard,
+  type TierRow,
+} from "@/utils/tierList";
+
+/**
+ * Tier list for one source.
+ */
+export interface SourceTierList {
+  /** Rows from top to bottom */
+  rows: TierRow[];
+  /** Timestamp of the last change */
+  updatedAt: number;
+}
+
+/**
+ * Tier list store state.
+ */
+interface TierListState {
+  /** Tier lists by source URL */
+  tierLists: Record<string, SourceTierList>;
+
+  // Actions
+  /** Move a card into a row (or out of every row with null) */
+  placeCard: (sourceId: string, cardId: string, rowIndex: number | null, index?: number) => void;
+  /** Rename or recolour a row */
+  updateRow: (sourceId: string, rowIndex: number, changes: Partial<Pick<TierRow, "label" | "colour">>) => void;
+  /** Add an empty row at the bottom */
+  addRow: (sourceId: string) => void;
+  /** Remove a row; its cards become unplaced */
+  removeRow: (sourceId: string, rowIndex: number) => void;
+  /** Move a row to another position */
+  moveRow: (sourceId: string, rowIndex: number, toIndex: number) => void;
+  /** Unplace every card, keeping the rows */
+  clearPlacements: (sourceId: string) => void;
+  /** Replace a source's tier list (e.g. from a shared link) */
+  importTierList: (sourceId: string, rows: TierRow[]) => void;
+  /** Forget a source's tier list, restoring the default rows */
+  resetTierList: (sourceId: string) => void;
+}
+
+const DEFAULT_TIER_LIST: SourceTierList = { rows: createDefaultTierRows(), updatedAt: 0 };
+
+/**
+ * Tier list of a source (the default rows when it has none).
+ *
+ * @param tierLists - Tier lists by source URL
+ * @param sourceId - Source URL
+ * @returns The source's tier list
+ *
+ * @example
+ * ```ts
+ * const { rows } = getSourceTierList(useTierListStore.getState().tierLists, url);
+ * ```
+ */
+export function getSourceTierList(
+  tierLists: Record<string, SourceTierList>,
+  sourceId: string
+): SourceTierList {
+  return Object.hasOwn(tierLists, sourceId)
+    ? tierLists[sourceId] ?? DEFAULT_TIER_LIST
+    : DEFAULT_TIER_LIST;
+}
+
+/**
+ * Tier list store with localStorage persistence.
+ */
+export const useTierListStore = create<TierListState>()(
+  persist(
+    (set, get) => {
+      /** Replace a source's rows */
+      const setRows = (sourceId: string, update: (rows: TierRow[]) => TierRow[]) => {
+        const { rows } = getSourceTierList(get().tierLists, sourceId);
+        set((state) => ({
+          tierLists: {
+            ...state.tierLists,
+            [sourceId]: { rows: update(rows), updatedAt: Date.now() },
+          },
+        }));
+      };
+
+      return {
+        tierLists: {},
+
+        placeCard: (sourceId, cardId, rowIndex, index) => {
+          setRows(sourceId, (rows) => placeCard(rows, cardId, rowIndex, index));
+        },
+
+        updateRow: (sourceId, rowIndex, changes) => {
+          setRows(sourceId, (rows) =>
+            rows.map((row, i) =>
+              i === rowIndex
+                ? {
+                    ...row,
+                    ...(changes.label !== undefined && {
+                      label: changes.label.slice(0, MAX_TIER_LABEL_LENGTH),
+                    }),
+                    ...(changes.colour !== undefined && { colour: changes.colour }),
+                  }
+                : row
+            )
+          );
+        },
+
+        addRow: (sourceId) => {
+          setRows(sourceId, (rows) =>
+            rows.length >= MAX_TIER_ROWS
+              ? rows
+              : [
+                  ...rows,
+                  {
+                    label: "",
+                    colour: TIER_COLOURS[rows.length % TIER_COLOURS.length] ?? "#cccccc",
+                    cardIds: [],
+                  },
+                ]
+          );
+        },
+
+        removeRow: (sourceId, rowIndex) => {
+          setRows(sourceId, (rows) =>
+            rows.length <= 1 ? rows : rows.filter((_, i) => i !== rowIndex)
+          );
+        },
+
+        moveRow: (sourceId, rowIndex, toIndex) => {
+          setRows(sourceId, (rows) => {
+            const row = rows[rowIndex];
+            if (!row || toIndex < 0 || toIndex >= rows.length) return rows;
+            const moved = rows.filter((_, i) => i !== rowIndex);
+            moved.splice(toIndex, 0, row);
+            return moved;
+          });
+        },
+
+        clearPlacements: (sourceId) => {
+          setRows(sourceId, (rows) => rows.map((row) => ({ ...row, cardIds: [] })));
+        },
+
+        importTierList: (sourceId, rows) => {
+          setRows(sourceId, () => rows.slice(0, MAX_TIER_ROWS));
+        },
+
+        resetTierList: (sourceId) => {
+          set((state) => {
+            const tierLists = new Map(Object.entries(state.tierLists));
+            tierLists.delete(sourceId);
+            return { tierLists: Object.fromEntries(tierLists) };
+          });
+        },
+      };
+    },
+    {
+      name: "itemdeck-tier-lists",
+      storage: createJSONStorage(() => localStorage),
+      version: 1,
+      partialize: (state) => ({ tierLists: state.tierLists }),
+    }
+  )
+);
+
+export default useTierListStore;
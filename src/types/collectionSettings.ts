@@ -46,6 +46,19 @@ export interface DefaultSettings {
   themeCustomisations?: Partial<Record<VisualTheme, Partial<ThemeCustomisation>>>;
   searchFields?: string[];
   groupByField?: string | null;
+  /**
+   * Filters active when the collection is opened. Unlike the other defaults
+   * these are seeded each session, since active filters are not persisted.
+   */
+  filters?: DefaultFilter[];
+}
+
+/**
+ * A default filter: a filter field path and the values it starts with.
+ */
+export interface DefaultFilter {
+  field: string;
+  values: string[];
 }
 
 /**
@@ -258,6 +258,13 @@ export interface ResolvedEntity extends Entity {
  */
 export type EntityFile = Entity[];
 
+/**
+ * Where an entity type's files live: a `{type}s/` folder of `{id}.json`
+ * files, or a single file holding every entity (`{type}s.json` or
+ * `{type}.json`, relative to the collection root).
+ */
+export type EntityFileLayout = { kind: "directory" } | { kind: "file"; path: string };
+
 /**
  * Loaded collection with resolved entities.
  */
@@ -268,6 +275,9 @@ export interface LoadedCollection {
   /** Loaded entities by type */
   entities: Record<string, Entity[]>;
 
+  /** File layout each entity type was loaded from */
+  layouts: Record<string, EntityFileLayout>;
+
   /** Primary entity type */
   primaryType: string;
 }
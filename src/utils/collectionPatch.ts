@@ -0,0 +1,323 @@
+/**
+ * Collection patch export.
+ *
+ * Turns local edits into upstream-ready collection files, in the layout each
+ * entity type was loaded from. For a folder of entity files, each changed or
+ * created entity is rewritten as `{type}s/{id}.json` alongside a complete
+ * `{type}s/index.json`, the first layout loadEntities reads. For a type served
+ * as one file (`{type}s.json`), that whole file is rewritten. A curator can
+ * copy the files into the collection repository and open a pull request.
+ * Files to remove for deleted entities are listed in PATCH.md, since an
+ * archive cannot delete.
+ */
+
+import { parseEditEntityId, type EntityEdit } from "@/stores/editsStore";
+import type { CollectionDefinition, Entity, EntityFileLayout } from "@/types/schema";
+import { createZip, type ZipEntry } from "./zipArchive";
+
+/**
+ * Entity IDs written as file names; anything else (path separators, leading
+ * dots) is skipped rather than written outside its folder.
+ */
+const SAFE_ENTITY_ID = /^[A-Za-z0-9_][A-Za-z0-9_.-]{0,199}$/;
+
+/**
+ * Loaded collection the edits apply to.
+ */
+export interface CollectionPatchSource {
+  /** Collection schema */
+  definition: CollectionDefinition;
+  /** Primary entity type name */
+  primaryType: string;
+  /** Source entities by type, as loaded */
+  entities: Record<string, Entity[]>;
+  /** File layout each type was loaded from (folders when absent) */
+  layouts?: Record<string, EntityFileLayout>;
+}
+
+/**
+ * Entity changed by a patch.
+ */
+export interface PatchedEntity {
+  /** Entity type */
+  entityType: string;
+  /** Entity ID */
+  id: string;
+}
+
+/**
+ * Result of building a collection patch.
+ */
+export interface CollectionPatch {
+  /** Files to write, relative to the collection root */
+  files: ZipEntry[];
+  /** Entities rewritten with edited fields */
+  updated: PatchedEntity[];
+  /** Entities created locally */
+  created: PatchedEntity[];
+  /** Entities deleted locally, whose files should be removed */
+  deleted: PatchedEntity[];
+  /** Edit IDs that match no source entity or have unsafe IDs */
+  skipped: string[];
+}
+
+/**
+ * Layout of a folder of entity files.
+ */
+const DIRECTORY_LAYOUT: EntityFileLayout = { kind: "directory" };
+
+/**
+ * Folder an entity type is loaded from.
+ */
+function entityFolder(entityType: string): string {
+  return `${entityType}s`;
+}
+
+/**
+ * Where an entity is written, for PATCH.md.
+ */
+function entityLocation(layout: EntityFileLayout, { entityType, id }: PatchedEntity): string {
+  return layout.kind === "file"
+    ? `\`${layout.path}\` (\`${id}\`)`
+    : `\`${entityFolder(entityType)}/${id}.json\``;
+}
+
+/**
+ * Serialise an entity file the way collection repositories format them.
+ */
+function toEntityFile(value: unknown): string {
+  return `${JSON.stringify(value, null, 2)}\n`;
+}
+
+/**
+ * Apply edited fields to a source entity. Cleared (null) fields are removed,
+ * and source key order is kept with new fields appended.
+ */
+function applyFields(
+  source: Record<string, unknown>,
+  fields: Record<string, unknown>,
+  omit: ReadonlySet<string>
+): Record<string, unknown> {
+  const merged = new Map<string, unknown>(
+    Object.entries(source).filter(([key]) => !omit.has(key))
+  );
+  for (const [key, value] of Object.entries(fields)) {
+    if (key === "id" || omit.has(key)) continue;
+    if (value === null) {
+      merged.delete(key);
+    } else {
+      merged.set(key, value);
+    }
+  }
+  return Object.fromEntries(merged);
+}
+
+/**
+ * Build upstream-ready collection files from local edits.
+ *
+ * Computed fields are evaluated at load time, so they are left out of the
+ * written entities.
+ *
+ * @param source - Loaded collection schema and entities
+ * @param edits - Local edits keyed by entity ID
+ * @returns Files to write and a summary of the changes
+ *
+ * @example
+ * ```ts
+ * const patch = buildCollectionPatch(
+ *   { definition, primaryType: "game", entities },
+ *   { metroid: { fields: { year: 1994 }, editedAt: 1 } }
+ * );
+ * patch.files; // games/metroid.json, games/index.json and PATCH.md
+ * ```
+ */
+export function buildCollectionPatch(
+  { definition, primaryType, entities, layouts = {} }: CollectionPatchSource,
+  edits: Record<string, EntityEdit>
+): CollectionPatch {
+  const entityTypes = Object.keys(entities).filter((type) =>
+    Object.hasOwn(definition.entityTypes, type)
+  );
+  const byId = new Map(
+    entityTypes.map((type) => [
+      type,
+      new Map((entities[type] ?? []).map((entity) => [entity.id, entity])),
+    ])
+  );
+  const computedFor = (type: string) =>
+    new Set(
+      Object.keys(
+        (Object.hasOwn(definition.entityTypes, type)
+          ? definition.entityTypes[type]?.computed
+          : undefined) ?? {}
+      )
+    );
+
+  // Types searched for an edit's entity: the primary type first for card
+  // edits, the other types for context edits
+  const otherTypes = entityTypes.filter((type) => type !== primaryType);
+  const findType = (id: string, isContext: boolean): string | undefined =>
+    (isContext ? otherTypes : [primaryType, ...otherTypes]).find((type) =>
+      byId.get(type)?.has(id)
+    );
+
+  const layoutOf = (type: string): EntityFileLayout =>
+    (Object.hasOwn(layouts, type) ? layouts[type] : undefined) ?? DIRECTORY_LAYOUT;
+
+  const patch: CollectionPatch = { files: [], updated: [], created: [], deleted: [], skipped: [] };
+  // Rewritten entities by type and ID, and the types the patch touches
+  const written = new Map<string, Map<string, Record<string, unknown>>>();
+  const touched = new Set<string>();
+
+  for (const [editId, edit] of Object.entries(edits)) {
+    const { id, isContext } = parseEditEntityId(editId);
+    const entityType = edit.created
+      ? Object.hasOwn(definition.entityTypes, edit.created.entityType)
+        ? edit.created.entityType
+        : undefined
+      : findType(id, isContext);
+
+    if (!entityType || !SAFE_ENTITY_ID.test(id)) {
+      patch.skipped.push(editId);
+      continue;
+    }
+
+    const target = { entityType, id };
+    if (edit.deletedAt !== undefined) {
+      // A locally created entity that was deleted again never reaches upstream
+      if (!edit.created) {
+        patch.deleted.push(target);
+        touched.add(entityType);
+      }
+      continue;
+    }
+
+    const raw = edit.created ? {} : byId.get(entityType)?.get(id) ?? {};
+    const entity = { id, ...applyFields(raw, edit.fields, computedFor(entityType)) };
+    if (layoutOf(entityType).kind === "directory") {
+      patch.files.push({
+        path: `${entityFolder(entityType)}/${id}.json`,
+        content: toEntityFile(entity),
+      });
+    }
+    const rewritten = written.get(entityType) ?? new Map<string, Record<string, unknown>>();
+    written.set(entityType, rewritten.set(id, entity));
+    touched.add(entityType);
+
+    (edit.created ? patch.created : patch.updated).push(target);
+  }
+
+  // Rewrite the complete entity list of every type the patch touches: the
+  // folder's index, or the whole single file
+  for (const entityType of touched) {
+    const layout = layoutOf(entityType);
+    const removed = new Set(
+      patch.deleted.filter((entry) => entry.entityType === entityType).map((entry) => entry.id)
+    );
+    const rewritten = written.get(entityType) ?? new Map<string, Record<string, unknown>>();
+    const computed = computedFor(entityType);
+    const kept = (entities[entityType] ?? []).filter((entity) => !removed.has(entity.id));
+    const created = patch.created
+      .filter((entry) => entry.entityType === entityType)
+      .map((entry) => entry.id);
+
+    if (layout.kind === "directory") {
+      const ids = [...kept.map((entity) => entity.id), ...created];
+      patch.files.push({
+        path: `${entityFolder(entityType)}/index.json`,
+        content: toEntityFile(ids),
+      });
+      continue;
+    }
+
+    const all = [
+      ...kept.map((entity) => rewritten.get(entity.id) ?? applyFields(entity, {}, computed)),
+      ...created.map((id) => rewritten.get(id) ?? { id }),
+    ];
+    patch.files.push({ path: layout.path, content: toEntityFile(all) });
+  }
+
+  patch.files.push({ path: "PATCH.md", content: describePatch(definition, patch, layoutOf) });
+  return patch;
+}
+
+/**
+ * Human-readable summary of a patch, written alongside its files.
+ */
+function describePatch(
+  definition: CollectionDefinition,
+  patch: CollectionPatch,
+  layoutOf: (entityType: string) => EntityFileLayout
+): string {
+  const fileList = (entries: PatchedEntity[]) =>
+    entries.map((entry) => `- ${entityLocation(layoutOf(entry.entityType), entry)}`);
+  // Entities in a single file are already gone from the rewritten file
+  const inFolders = (entry: PatchedEntity) => layoutOf(entry.entityType).kind === "directory";
+  const deletedFiles = patch.deleted.filter(inFolders);
+  const deletedInFiles = patch.deleted.filter((entry) => !inFolders(entry));
+
+  const sections = [
+    `# Changes to ${definition.name}`,
+    "",
+    "Copy these files into the collection folder, replacing existing ones.",
+    "",
+  ];
+  if (patch.updated.length > 0) {
+    sections.push("## Updated", "", ...fileList(patch.updated), "");
+  }
+  if (patch.created.length > 0) {
+    sections.push("## Added", "", ...fileList(patch.created), "");
+  }
+  if (patch.deleted.length > 0) {
+    sections.push("## Deleted", "");
+  }
+  if (deletedFiles.length > 0) {
+    sections.push("Remove these files:", "", ...fileList(deletedFiles), "");
+  }
+  if (deletedInFiles.length > 0) {
+    sections.push("Already removed from the rewritten files:", "", ...fileList(deletedInFiles), "");
+  }
+  if (patch.skipped.length > 0) {
+    sections.push(
+      "## Not included",
+      "",
+      "These edits match no entity in the collection:",
+      "",
+      ...patch.skipped.map((id) => `- \`${id}\``),
+      ""
+    );
+  }
+  return sections.join("\n");
+}
+
+/**
+ * Export local edits as a ZIP of upstream-ready collection files.
+ *
+ * @param source - Loaded collection schema and entities
+ * @param edits - Local edits keyed by entity ID
+ * @returns The patch that was downloaded
+ *
+ * @example
+ * ```ts
+ * exportCollectionPatch({ definition, primaryType, entities }, edits);
+ * ```
+ */
+export function exportCollectionPatch(
+  source: CollectionPatchSource,
+  edits: Record<string, EntityEdit>
+): CollectionPatch {
+  const patch = buildCollectionPatch(source, edits);
+  const blob = new Blob([createZip(patch.files)], { type: "application/zip" });
+  const url = URL.createObjectURL(blob);
+
+  const dateStr = new Date().toISOString().split("T")[0] ?? "unknown-date";
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `${source.definition.id}-patch-${dateStr}.zip`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+
+  return patch;
+}
@@ -6,6 +6,8 @@
  */
 
 import type { DisplayCard } from "@/hooks/useCollection";
+import { getRatingScore } from "@/loaders/ratingResolver";
+import { isStructuredRating } from "@/types/rating";
 
 /**
  * Numeric field statistics.
@@ -15,8 +17,31 @@ export interface NumericFieldStats {
   max: number;
   avg: number;
   count: number;
+  /**
+   * Value counts in equal-width bins from min to max. Only present when
+   * requested via `histogramBins`.
+   */
+  histogram?: number[];
 }
 
+/**
+ * Options for computeCollectionStats.
+ */
+export interface CollectionStatsOptions {
+  /** Number of histogram bins to compute for each numeric field */
+  histogramBins?: number;
+  /**
+   * Numeric fields holding dates; their values are parsed to epoch
+   * milliseconds (UTC) rather than read as plain numbers.
+   */
+  dateFields?: readonly string[];
+}
+
+/**
+ * Upper bound on histogram bins, which are allocated per numeric field.
+ */
+const MAX_HISTOGRAM_BINS = 100;
+
 /**
  * Collection statistics.
  */
@@ -33,13 +58,28 @@ export interface CollectionStats {
   platformCount?: number;
 }
 
+/**
+ * Numeric fields analysed by default.
+ */
+export const DEFAULT_NUMERIC_FIELDS: readonly string[] = ["year", "rating", "score"];
+
+/**
+ * Categorical fields analysed by default.
+ */
+export const DEFAULT_CATEGORICAL_FIELDS: readonly string[] = ["platform", "genre", "verdict"];
+
 /**
  * Extract numeric value from a field.
+ *
+ * Structured ratings (`{ score, max }`) yield their score.
  */
-function extractNumeric(value: unknown): number | null {
+export function extractNumeric(value: unknown): number | null {
   if (typeof value === "number" && !isNaN(value)) {
     return value;
   }
+  if (isStructuredRating(value)) {
+    return getRatingScore(value) ?? null;
+  }
   if (typeof value === "string") {
     const parsed = parseFloat(value);
     if (!isNaN(parsed)) {
@@ -49,6 +89,43 @@ function extractNumeric(value: unknown): number | null {
   return null;
 }
 
+/**
+ * Extract a date value as epoch milliseconds (UTC).
+ *
+ * Accepts ISO date strings and bare years (as strings or numbers).
+ */
+export function extractDate(value: unknown): number | null {
+  if (typeof value === "number" && Number.isInteger(value)) {
+    return Date.UTC(value, 0, 1);
+  }
+  if (typeof value === "string" && value.trim() !== "") {
+    const trimmed = value.trim();
+    const time = /^\d{1,4}$/.test(trimmed)
+      ? Date.UTC(Number(trimmed), 0, 1)
+      : Date.parse(trimmed);
+    return Number.isNaN(time) ? null : time;
+  }
+  return null;
+}
+
+/**
+ * Count values into equal-width bins spanning min to max.
+ */
+function buildHistogram(
+  values: readonly number[],
+  min: number,
+  max: number,
+  bins: number
+): number[] {
+  const counts = new Array<number>(bins).fill(0);
+  const span = max - min;
+  for (const value of values) {
+    const index = span === 0 ? 0 : Math.min(bins - 1, Math.floor(((value - min) / span) * bins));
+    counts[index] = (counts[index] ?? 0) + 1;
+  }
+  return counts;
+}
+
 /**
  * Extract string value from a field.
  */
@@ -68,12 +145,14 @@ function extractString(value: unknown): string | null {
  * @param items - Array of display cards to analyse
  * @param numericFieldNames - Field names to compute numeric stats for
  * @param categoricalFieldNames - Field names to compute distributions for
+ * @param options - Histogram and date-field options
  * @returns Collection statistics
  */
 export function computeCollectionStats(
   items: DisplayCard[],
-  numericFieldNames: string[] = ["year", "rating", "score"],
-  categoricalFieldNames: string[] = ["platform", "genre", "verdict"]
+  numericFieldNames: readonly string[] = DEFAULT_NUMERIC_FIELDS,
+  categoricalFieldNames: readonly string[] = DEFAULT_CATEGORICAL_FIELDS,
+  options: CollectionStatsOptions = {}
 ): CollectionStats {
   const stats: CollectionStats = {
     totalItems: items.length,
@@ -85,6 +164,12 @@ export function computeCollectionStats(
     return stats;
   }
 
+  const dateFields = new Set(options.dateFields);
+  const histogramBins = Math.min(
+    Math.max(Math.floor(options.histogramBins ?? 0), 0),
+    MAX_HISTOGRAM_BINS
+  );
+
   // Initialise accumulators for numeric fields
   const numericAccumulators = new Map<string, { values: number[] }>();
 
@@ -104,7 +189,7 @@ export function computeCollectionStats(
     // Process numeric fields
     for (const field of numericFieldNames) {
       const value = item[field as keyof DisplayCard];
-      const numeric = extractNumeric(value);
+      const numeric = dateFields.has(field) ? extractDate(value) : extractNumeric(value);
       if (numeric !== null) {
         const acc = numericAccumulators.get(field);
         if (acc) {
@@ -150,6 +235,9 @@ export function computeCollectionStats(
         max,
         avg,
         count: values.length,
+        ...(histogramBins > 0 && {
+          histogram: buildHistogram(values, min, max, histogramBins),
+        }),
       });
 
       // Special handling for year field
@@ -174,13 +262,57 @@ export function computeCollectionStats(
   return stats;
 }
 
+/**
+ * Split fields into numeric and categorical by their values.
+ *
+ * A field is numeric when every present value is a finite number; anything
+ * else is categorical. Computed fields only have a type once evaluated, so
+ * callers classify them before passing them to computeCollectionStats.
+ *
+ * @param items - Array of display cards to inspect
+ * @param fieldNames - Field names to classify
+ * @returns Numeric and categorical field names (fields with no values are dropped)
+ */
+export function classifyStatFields(
+  items: DisplayCard[],
+  fieldNames: readonly string[]
+): { numeric: string[]; categorical: string[] } {
+  const numeric: string[] = [];
+  const categorical: string[] = [];
+
+  for (const field of fieldNames) {
+    let hasValue = false;
+    let allNumbers = true;
+
+    for (const item of items) {
+      const value = item[field as keyof DisplayCard];
+      if (value === null || value === undefined || value === "") continue;
+      hasValue = true;
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        allNumbers = false;
+        break;
+      }
+    }
+
+    if (!hasValue) continue;
+    (allNumbers ? numeric : categorical).push(field);
+  }
+
+  return { numeric, categorical };
+}
+
 /**
  * Format statistics for display.
  *
  * @param stats - Collection statistics
+ * @param averageFields - Extra numeric fields to report averages for
+ *   (e.g. computed fields), with their display labels
  * @returns Formatted string summary
  */
-export function formatStatsSummary(stats: CollectionStats): string {
+export function formatStatsSummary(
+  stats: CollectionStats,
+  averageFields: readonly { field: string; label: string }[] = []
+): string {
   const parts: string[] = [`${String(stats.totalItems)} items`];
 
   if (stats.yearRange) {
@@ -205,5 +337,12 @@ export function formatStatsSummary(stats: CollectionStats): string {
     parts.push(`Avg Score: ${scoreStats.avg.toFixed(1)}`);
   }
 
+  for (const { field, label } of averageFields) {
+    const fieldStats = stats.numericFields.get(field);
+    if (fieldStats) {
+      parts.push(`Avg ${label}: ${fieldStats.avg.toFixed(1)}`);
+    }
+  }
+
   return parts.join(" | ");
 }
@@ -0,0 +1,85 @@
+/**
+ * Custom (drag-and-drop) card order utilities.
+ *
+ * A custom order is a list of entity IDs persisted per source. The collection
+ * can change underneath it: entities that appear upstream are appended after
+ * the ordered ones, and IDs of entities that no longer exist are ignored when
+ * applying the order and dropped when it is next saved.
+ */
+
+/**
+ * Order items by a stored list of IDs.
+ *
+ * Items whose IDs are in the order come first, in that order; the rest keep
+ * their incoming relative order and follow.
+ *
+ * @param items - Items to order
+ * @param order - Stored ID order
+ * @returns A new, reordered array
+ *
+ * @example
+ * ```ts
+ * applyCustomOrder([{ id: "a" }, { id: "b" }, { id: "c" }], ["c", "a"]);
+ * // → [{ id: "c" }, { id: "a" }, { id: "b" }]
+ * ```
+ */
+export function applyCustomOrder<T extends { id: string }>(
+  items: readonly T[],
+  order: readonly string[]
+): T[] {
+  const positions = new Map<string, number>();
+  for (const id of order) {
+    if (!positions.has(id)) positions.set(id, positions.size);
+  }
+
+  const ordered: T[] = [];
+  const unordered: T[] = [];
+  for (const item of items) {
+    if (positions.has(item.id)) {
+      ordered.push(item);
+    } else {
+      unordered.push(item);
+    }
+  }
+
+  ordered.sort((a, b) => (positions.get(a.id) ?? 0) - (positions.get(b.id) ?? 0));
+  return [...ordered, ...unordered];
+}
+
+/**
+ * Fold a reordered subset of IDs back into a full order.
+ *
+ * The drag grid only shows the filtered cards, so a drop reorders a subset.
+ * The subset's IDs are placed, in their new order, into the positions they
+ * already occupy in the full order; every other ID keeps its position. IDs
+ * that are not known entities are dropped.
+ *
+ * @param baseOrder - Full current order
+ * @param reorderedIds - Subset of IDs in their new order
+ * @param knownIds - IDs of the entities that currently exist
+ * @returns The new full order
+ *
+ * @example
+ * ```ts
+ * mergeCustomOrder(["a", "b", "c", "d"], ["d", "b"], new Set(["a", "b", "c", "d"]));
+ * // → ["a", "d", "c", "b"]
+ * ```
+ */
+export function mergeCustomOrder(
+  baseOrder: readonly string[],
+  reorderedIds: readonly string[],
+  knownIds: ReadonlySet<string>
+): string[] {
+  const order = [...new Set(baseOrder)].filter((id) => knownIds.has(id));
+  const reordered = [...new Set(reorderedIds)].filter((id) => knownIds.has(id));
+  const reorderedSet = new Set(reordered);
+
+  // Subset IDs missing from the base order get slots at the end
+  const present = new Set(order);
+  for (const id of reordered) {
+    if (!present.has(id)) order.push(id);
+  }
+
+  let next = 0;
+  return order.map((id) => (reorderedSet.has(id) ? reordered[next++] ?? id : id));
+}
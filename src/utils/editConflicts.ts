@@ -0,0 +1,159 @@
+/**
+ * Edit conflict detection.
+ *
+ * Each local edit records the upstream value it replaced (its base). When the
+ * collection reloads with a different upstream value for an edited field, the
+ * edit would silently hide the maintainer's change, so it is reported as a
+ * conflict for the user to resolve: keep theirs, keep mine, or merge.
+ */
+
+import type { EntityEdit } from "@/stores/editsStore";
+
+/**
+ * Looks up the upstream entity an edit applies to.
+ */
+export type EditSourceLookup = (entityId: string) => Record<string, unknown> | undefined;
+
+/**
+ * Edited field whose upstream value changed since it was edited.
+ */
+export interface EditConflict {
+  /** Edited entity ID (as keyed in the edits store) */
+  entityId: string;
+  /** Field name */
+  field: string;
+  /** Upstream value when the field was edited */
+  base: unknown;
+  /** Local value */
+  mine: unknown;
+  /** Current upstream value */
+  theirs: unknown;
+}
+
+/**
+ * Upstream value of a field, with absent fields as null (as stored in bases).
+ */
+function upstreamValue(source: Record<string, unknown>, field: string): unknown {
+  return Object.hasOwn(source, field) ? source[field] ?? null : null;
+}
+
+/**
+ * Whether two JSON values are equal.
+ */
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Upstream base values for edited fields that have none yet.
+ *
+ * @param edits - Local edits keyed by entity ID
+ * @param lookup - Upstream entity for an edit
+ * @returns Missing base values by entity ID and field
+ *
+ * @example
+ * ```ts
+ * collectMissingBases({ a: { fields: { title: "Mine" }, editedAt: 1 } }, () => ({ title: "Old" }));
+ * // { a: { title: "Old" } }
+ * ```
+ */
+export function collectMissingBases(
+  edits: Record<string, EntityEdit>,
+  lookup: EditSourceLookup
+): Record<string, Record<string, unknown>> {
+  const bases = new Map<string, Record<string, unknown>>();
+  for (const [entityId, edit] of Object.entries(edits)) {
+    if (edit.created) continue;
+    const source = lookup(entityId);
+    if (!source) continue;
+
+    const missing = Object.keys(edit.fields).filter(
+      (field) => !(edit.base && Object.hasOwn(edit.base, field))
+    );
+    if (missing.length > 0) {
+      bases.set(
+        entityId,
+        Object.fromEntries(missing.map((field) => [field, upstreamValue(source, field)]))
+      );
+    }
+  }
+  return Object.fromEntries(bases);
+}
+
+/**
+ * Edited fields whose upstream value changed since they were edited. Fields
+ * upstream now agrees with are not conflicts.
+ *
+ * @param edits - Local edits keyed by entity ID
+ * @param lookup - Upstream entity for an edit
+ * @returns Conflicts, in edit order
+ *
+ * @example
+ * ```ts
+ * findEditConflicts(
+ *   { a: { fields: { title: "Mine" }, editedAt: 1, base: { title: "Old" } } },
+ *   () => ({ title: "Theirs" })
+ * ); // [{ entityId: "a", field: "title", base: "Old", mine: "Mine", theirs: "Theirs" }]
+ * ```
+ */
+export function findEditConflicts(
+  edits: Record<string, EntityEdit>,
+  lookup: EditSourceLookup
+): EditConflict[] {
+  const conflicts: EditConflict[] = [];
+  for (const [entityId, edit] of Object.entries(edits)) {
+    if (edit.created || !edit.base) continue;
+    const source = lookup(entityId);
+    if (!source) continue;
+
+    for (const [field, base] of Object.entries(edit.base)) {
+      if (!Object.hasOwn(edit.fields, field)) continue;
+      const mine = edit.fields[field];
+      const theirs = upstreamValue(source, field);
+      if (!isSameValue(theirs, base) && !isSameValue(theirs, mine)) {
+        conflicts.push({ entityId, field, base, mine, theirs });
+      }
+    }
+  }
+  return conflicts;
+}
+
+/**
+ * Three-way merge of text, line by line. Lines changed on one side only take
+ * that side; lines changed on both sides keep both, marked for the user to
+ * tidy. Texts whose line counts differ merge as a whole block.
+ *
+ * @param base - Text both sides started from
+ * @param mine - Local text
+ * @param theirs - Upstream text
+ * @returns Merged text
+ *
+ * @example
+ * ```ts
+ * mergeText("a\nb", "A\nb", "a\nB"); // "A\nB"
+ * ```
+ */
+export function mergeText(base: string, mine: string, theirs: string): string {
+  if (mine === theirs || theirs === base) return mine;
+  if (mine === base) return theirs;
+
+  const mark = (ours: string, other: string) =>
+    `<<<<<<< mine\n${ours}\n=======\n${other}\n>>>>>>> theirs`;
+
+  const baseLines = base.split("\n");
+  const mineLines = mine.split("\n");
+  const theirLines = theirs.split("\n");
+  if (mineLines.length !== baseLines.length || theirLines.length !== baseLines.length) {
+    return mark(mine, theirs);
+  }
+
+  return baseLines
+    .map((line, index) => {
+      const ours = mineLines[index] ?? "";
+      const other = theirLines[index] ?? "";
+      if (ours === other || other === line) return ours;
+      if (ours === line) return other;
+      return mark(ours, other);
+    })
+    .join("\n");
+}
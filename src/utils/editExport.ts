@@ -5,37 +5,100 @@
  */
 
 import { z } from "zod";
-import type { EntityEdit, ExportedEdits } from "@/stores/editsStore";
+import {
+  EDITS_EXPORT_VERSION,
+  MAX_EDIT_HISTORY,
+  MAX_EDIT_HISTORY_CHANGES,
+  type EditOperation,
+  type EntityEdit,
+  type ExportedEdits,
+} from "@/stores/editsStore";
+import { MAX_EDIT_LIST_ITEMS } from "@/utils/editFields";
 
 /**
  * Schema for validating imported edits.
  *
- * Field values are restricted to JSON primitives. Edits are text overlays
- * produced by the edit form (string / null values only), but the imported file
- * is untrusted: the merged edit is spread over the source card and rendered
- * directly as a React child, so a non-primitive value (object/array) would
- * throw "Objects are not valid as a React child" on every render and, because
- * edits persist, brick the collection view until localStorage is cleared.
- * Primitives all render safely; objects and arrays are rejected here.
+ * Field values are restricted to the shapes the edit form saves (see
+ * parseEditDraft): JSON primitives, list fields as bounded string arrays,
+ * ratings as score records, and links and images as arrays of URL records.
+ * The imported file is untrusted: the merged edit is spread over the source
+ * card, so any other object or array (e.g. `{ title: {} }`) would be rendered
+ * directly as a React child, throw "Objects are not valid as a React child" on
+ * every render and, because edits persist, brick the collection view until
+ * localStorage is cleared. Those shapes are rejected here.
  */
 const editFieldValueSchema = z.union([
   z.string(),
   z.number(),
   z.boolean(),
   z.null(),
+  z.array(z.string()).max(MAX_EDIT_LIST_ITEMS),
+  z
+    .object({ score: z.number(), max: z.number().optional(), source: z.string().optional() })
+    .catchall(z.json()),
+  z.array(z.object({ url: z.string() }).catchall(z.json())).max(MAX_EDIT_LIST_ITEMS),
 ]);
 
-const entityEditSchema = z.object({
+const fieldEditSchema = z.object({
   fields: z.record(z.string(), editFieldValueSchema),
   editedAt: z.number(),
+  deletedAt: z.number().optional(),
+  base: z.record(z.string(), z.json()).optional(),
+});
+
+/**
+ * Schema for a locally created entity (version 2). Its fields are the whole
+ * entity, so structured values (images, links, ratings) are allowed; they are
+ * built into a card through the same normalising pipeline as source entities
+ * rather than spread over one.
+ */
+const createdEntityEditSchema = z.object({
+  fields: z.record(z.string(), z.json()),
+  editedAt: z.number(),
+  created: z.object({ entityType: z.string().max(100) }),
+  deletedAt: z.number().optional(),
+  base: z.record(z.string(), z.json()).optional(),
+});
+
+const entityEditSchema = z.union([createdEntityEditSchema, fieldEditSchema]);
+
+/**
+ * Schema for an edit history entry. Snapshots use the same value
+ * restrictions as the edits themselves, since undo and redo write them back.
+ */
+const editOperationSchema = z.object({
+  id: z.string().max(100),
+  type: z.enum([
+    "set",
+    "revertField",
+    "revertEntity",
+    "revertAll",
+    "import",
+    "create",
+    "delete",
+    "restore",
+    "resolve",
+  ]),
+  timestamp: z.number(),
+  author: z.enum(["local", "import"]),
+  changes: z
+    .array(
+      z.object({
+        entityId: z.string(),
+        before: entityEditSchema.nullable(),
+        after: entityEditSchema.nullable(),
+      })
+    )
+    .max(MAX_EDIT_HISTORY_CHANGES),
 });
 
 const exportedEditsSchema = z.object({
-  version: z.literal(1),
+  version: z.union([z.literal(1), z.literal(2)]),
   exportedAt: z.string(),
   collectionId: z.string(),
   editCount: z.number(),
   edits: z.record(z.string(), entityEditSchema),
+  history: z.array(editOperationSchema).max(MAX_EDIT_HISTORY).optional(),
 });
 
 /**
@@ -43,17 +106,20 @@ const exportedEditsSchema = z.object({
  *
  * @param edits - The edits to export
  * @param collectionId - ID of the collection the edits belong to
+ * @param history - Edit history to carry with the edits
  */
 export function exportEditsToFile(
   edits: Record<string, EntityEdit>,
-  collectionId: string
+  collectionId: string,
+  history: EditOperation[] = []
 ): void {
   const data: ExportedEdits = {
-    version: 1,
+    version: EDITS_EXPORT_VERSION,
     exportedAt: new Date().toISOString(),
     collectionId,
     editCount: Object.keys(edits).length,
     edits,
+    history,
   };
 
   const blob = new Blob([JSON.stringify(data, null, 2)], {
@@ -98,10 +164,9 @@ export async function importEditsFromFile(file: File): Promise<ExportedEdits> {
     throw new Error("Invalid edits file format");
   }
 
-  // Note: Schema validates version === 1. This block exists
-  // for future-proofing when we add version 2+ support.
-  // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
-  if (result.data.version !== 1) {
+  // Note: Schema validates version <= 2. This block exists
+  // for future-proofing when we add version 3+ support.
+  if (result.data.version > EDITS_EXPORT_VERSION) {
     throw new Error("Unsupported edits file version");
   }
 
@@ -0,0 +1,502 @@
+/**
+ * Entity edit field utilities.
+ *
+ * The edit form is generated from the collection schema: each field
+ * definition becomes an EditFieldDef (see discoverEditFields) whose kind picks
+ * the input. Values are edited as drafts (strings for text inputs, string
+ * lists for chips, small records for ratings, links and images) and parsed
+ * back to entity values on save, with validation derived from `required`
+ * and `enum`.
+ */
+
+import { normaliseRating, type Rating } from "@/types/rating";
+import { normaliseDetailUrls, type DetailUrls } from "@/types/links";
+import type { Image } from "@/types/image";
+import type { Entity } from "@/types/schema";
+import { getImageUrls, getPrimaryImage } from "@/loaders";
+import { safeExternalUrl } from "@/utils/safeUrl";
+
+/**
+ * Input kinds for edit fields.
+ */
+export type EditFieldKind =
+  | "text"
+  | "textarea"
+  | "number"
+  | "date"
+  | "url"
+  | "boolean"
+  | "enum"
+  | "reference"
+  | "list"
+  | "rating"
+  | "links"
+  | "images";
+
+/**
+ * Edit form field definition.
+ */
+export interface EditFieldDef {
+  /** Entity field name */
+  field: string;
+  /** Display label */
+  label: string;
+  /** Input kind */
+  kind: EditFieldKind;
+  /** Whether a value is required */
+  required?: boolean;
+  /** Allowed values (enum fields, and list fields with enum items) */
+  enumValues?: string[];
+  /** Target entity type (reference fields, and list fields of references) */
+  refType?: string;
+  /** Input placeholder */
+  placeholder?: string;
+}
+
+/**
+ * Draft of a rating field. Unknown keys of the source rating are kept in
+ * `rest` so saving does not drop them.
+ */
+export interface RatingDraft {
+  score: string;
+  max: string;
+  source: string;
+  rest: Record<string, unknown>;
+}
+
+/**
+ * Draft of one detail link.
+ */
+export interface LinkDraft {
+  url: string;
+  source: string;
+  label: string;
+  rest: Record<string, unknown>;
+}
+
+/**
+ * Draft of one image.
+ */
+export interface ImageDraft {
+  url: string;
+  alt: string;
+  rest: Record<string, unknown>;
+}
+
+/**
+ * Value held by the form for one field.
+ */
+export type EditDraftValue =
+  | string
+  | boolean
+  | string[]
+  | RatingDraft
+  | LinkDraft[]
+  | ImageDraft[];
+
+/**
+ * Result of parsing a draft: the entity value, or a validation message.
+ */
+export type EditParseResult = { value: unknown } | { error: string };
+
+/**
+ * Card fields edited when the collection has no schema (e.g. served from the
+ * offline cache).
+ */
+export const DEFAULT_CARD_EDIT_FIELDS: readonly EditFieldDef[] = [
+  { field: "title", label: "Title", kind: "text", required: true },
+  { field: "summary", label: "Summary", kind: "textarea", placeholder: "Brief description..." },
+  { field: "myVerdict", label: "My Verdict", kind: "textarea", placeholder: "Your personal opinion..." },
+];
+
+/**
+ * Context entity fields edited when the collection has no schema.
+ */
+export const DEFAULT_CONTEXT_EDIT_FIELDS: readonly EditFieldDef[] = [
+  { field: "title", label: "Title", kind: "text", required: true },
+  { field: "summary", label: "Summary", kind: "textarea", placeholder: "Brief description..." },
+];
+
+/**
+ * Maximum entries in a list, link or image field. Edits are persisted to
+ * localStorage and every entry renders a row in the form.
+ */
+export const MAX_EDIT_LIST_ITEMS = 100;
+
+/**
+ * Maximum images and links derived onto an edited card, matching the load-time
+ * caps in useCollection.
+ */
+const MAX_DERIVED_MEDIA = 100;
+
+/**
+ * Partial dates as used across collections: a year, a month or a day.
+ */
+const DATE_PATTERN = /^\d{4}(-\d{2}(-\d{2})?)?$/;
+
+/**
+ * Kinds edited as a single string.
+ */
+const TEXT_KINDS: ReadonlySet<EditFieldKind> = new Set([
+  "text",
+  "textarea",
+  "number",
+  "date",
+  "url",
+  "enum",
+  "reference",
+]);
+
+/**
+ * Whether a field kind is edited as a single string.
+ *
+ * @param kind - Field kind
+ * @returns True for text-like kinds
+ */
+export function isTextEditKind(kind: EditFieldKind): boolean {
+  return TEXT_KINDS.has(kind);
+}
+
+/**
+ * Coerce an untrusted scalar to a string; anything else becomes "".
+ */
+function toDraftString(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (typeof value === "number" && Number.isFinite(value)) return String(value);
+  return "";
+}
+
+/**
+ * Split an untrusted object into known string keys and the rest.
+ */
+function splitRecord<K extends string>(
+  value: object,
+  keys: readonly K[]
+): { known: Record<K, string>; rest: Record<string, unknown> } {
+  const known = Object.fromEntries(keys.map((key) => [key, ""])) as Record<K, string>;
+  const rest: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    // JSON.parse creates "__proto__" as an own key; never copy it
+    if (key === "__proto__") continue;
+    if ((keys as readonly string[]).includes(key)) {
+      known[key as K] = toDraftString(entry);
+    } else {
+      rest[key] = entry;
+    }
+  }
+  return { known, rest };
+}
+
+/**
+ * Convert an entity value to the draft the form edits.
+ *
+ * Entity data is untrusted (loose schema), so values of the wrong shape
+ * become empty drafts rather than "[object Object]".
+ *
+ * @param def - Field definition
+ * @param value - Entity value
+ * @returns Draft value for the field's input
+ *
+ * @example
+ * ```ts
+ * toEditDraft({ field: "year", label: "Year", kind: "number" }, 1991); // "1991"
+ * ```
+ */
+export function toEditDraft(def: EditFieldDef, value: unknown): EditDraftValue {
+  switch (def.kind) {
+    case "boolean":
+      return value === true;
+    case "list":
+      return Array.isArray(value)
+        ? value
+            .map(toDraftString)
+            .filter((item) => item !== "")
+            .slice(0, MAX_EDIT_LIST_ITEMS)
+        : [];
+    case "rating": {
+      if (typeof value === "number") {
+        return { score: toDraftString(value), max: "", source: "", rest: {} };
+      }
+      if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+        const { known, rest } = splitRecord(value, ["score", "max", "source"] as const);
+        return { ...known, rest };
+      }
+      return { score: "", max: "", source: "", rest: {} };
+    }
+    case "links": {
+      const links: unknown[] =
+        typeof value === "string" ? [{ url: value }] : Array.isArray(value) ? value : value ? [value] : [];
+      return links
+        .filter((link): link is object => typeof link === "object" && link !== null)
+        .slice(0, MAX_EDIT_LIST_ITEMS)
+        .map((link) => {
+          const { known, rest } = splitRecord(link, ["url", "source", "label"] as const);
+          return { ...known, rest };
+        });
+    }
+    case "images":
+      return Array.isArray(value)
+        ? value
+            .filter((image): image is object => typeof image === "object" && image !== null)
+            .slice(0, MAX_EDIT_LIST_ITEMS)
+            .map((image) => {
+              const { known, rest } = splitRecord(image, ["url", "alt"] as const);
+              return { ...known, rest };
+            })
+        : [];
+    default:
+      return toDraftString(value);
+  }
+}
+
+/**
+ * Parse a text-like draft.
+ */
+function parseTextDraft(def: EditFieldDef, draft: string): EditParseResult {
+  if (draft.trim() === "") {
+    return def.required ? { error: `${def.label} is required` } : { value: null };
+  }
+
+  switch (def.kind) {
+    case "number": {
+      const number = Number(draft);
+      return Number.isFinite(number) ? { value: number } : { error: `${def.label} must be a number` };
+    }
+    case "date":
+      return DATE_PATTERN.test(draft.trim())
+        ? { value: draft.trim() }
+        : { error: `${def.label} must be YYYY, YYYY-MM or YYYY-MM-DD` };
+    case "url":
+      return safeExternalUrl(draft) !== null
+        ? { value: draft.trim() }
+        : { error: `${def.label} must be a valid URL` };
+    case "enum":
+      return def.enumValues && !def.enumValues.includes(draft)
+        ? { error: `${def.label} must be one of the listed values` }
+        : { value: draft };
+    default:
+      return { value: draft };
+  }
+}
+
+/**
+ * Parse a list draft: trimmed, de-duplicated, capped.
+ */
+function parseListDraft(def: EditFieldDef, draft: string[]): EditParseResult {
+  const items = [...new Set(draft.map((item) => item.trim()).filter(Boolean))].slice(
+    0,
+    MAX_EDIT_LIST_ITEMS
+  );
+  const invalid = def.enumValues ? items.find((item) => !def.enumValues?.includes(item)) : undefined;
+  if (invalid !== undefined) {
+    return { error: `"${invalid}" is not an allowed ${def.label} value` };
+  }
+  if (items.length === 0) {
+    return def.required ? { error: `${def.label} needs at least one value` } : { value: null };
+  }
+  return { value: items };
+}
+
+/**
+ * Parse a rating draft. A bare score with no other details stays a number.
+ */
+function parseRatingDraft(def: EditFieldDef, draft: RatingDraft): EditParseResult {
+  if (draft.score.trim() === "") {
+    return def.required ? { error: `${def.label} is required` } : { value: null };
+  }
+
+  const score = Number(draft.score);
+  const max = draft.max.trim() === "" ? undefined : Number(draft.max);
+  if (max !== undefined && (!Number.isFinite(max) || max <= 0)) {
+    return { error: `${def.label} maximum must be a positive number` };
+  }
+  const limit = max ?? 5;
+  if (!Number.isFinite(score) || score < 0 || score > limit) {
+    return { error: `${def.label} must be between 0 and ${String(limit)}` };
+  }
+
+  const source = draft.source.trim();
+  if (max === undefined && !source && Object.keys(draft.rest).length === 0) {
+    return { value: score };
+  }
+  return {
+    value: {
+      ...draft.rest,
+      score,
+      ...(max !== undefined && { max }),
+      ...(source && { source }),
+    },
+  };
+}
+
+/**
+ * Parse a link or image list draft, dropping blank rows.
+ */
+function parseEntryDrafts<T extends { url: string; rest: Record<string, unknown> }>(
+  def: EditFieldDef,
+  drafts: T[],
+  build: (draft: T, url: string) => Record<string, unknown>
+): EditParseResult {
+  const entries = drafts.filter((draft) =>
+    Object.entries(draft).some(([key, value]) => key !== "rest" && typeof value === "string" && value.trim() !== "")
+  );
+  if (entries.some((draft) => safeExternalUrl(draft.url) === null)) {
+    return { error: `Each ${def.label} entry needs a valid URL` };
+  }
+  if (entries.length === 0) {
+    return def.required ? { error: `${def.label} needs at least one entry` } : { value: null };
+  }
+  return {
+    value: entries.slice(0, MAX_EDIT_LIST_ITEMS).map((draft) => build(draft, draft.url.trim())),
+  };
+}
+
+/**
+ * Parse a draft back to the value stored in the edits overlay.
+ *
+ * Empty optional values become null, matching how cleared fields are stored.
+ *
+ * @param def - Field definition
+ * @param draft - Draft from the form
+ * @returns The entity value, or a validation message
+ *
+ * @example
+ * ```ts
+ * parseEditDraft({ field: "year", label: "Year", kind: "number" }, "1991"); // { value: 1991 }
+ * parseEditDraft({ field: "title", label: "Title", kind: "text", required: true }, "");
+ * // { error: "Title is required" }
+ * ```
+ */
+export function parseEditDraft(def: EditFieldDef, draft: EditDraftValue): EditParseResult {
+  if (typeof draft === "boolean") {
+    return { value: draft };
+  }
+  if (typeof draft === "string") {
+    return parseTextDraft(def, draft);
+  }
+  if (def.kind === "rating" && !Array.isArray(draft)) {
+    return parseRatingDraft(def, draft);
+  }
+  if (def.kind === "list") {
+    return parseListDraft(def, draft as string[]);
+  }
+  if (def.kind === "links") {
+    return parseEntryDrafts(def, draft as LinkDraft[], (link, url) => ({
+      ...link.rest,
+      url,
+      ...(link.source.trim() && { source: link.source.trim() }),
+      ...(link.label.trim() && { label: link.label.trim() }),
+    }));
+  }
+  if (def.kind === "images") {
+    return parseEntryDrafts(def, draft as ImageDraft[], (image, url) => ({
+      ...image.rest,
+      url,
+      ...(image.alt.trim() && { alt: image.alt.trim() }),
+    }));
+  }
+  return { error: `${def.label} cannot be edited` };
+}
+
+/**
+ * Whether two drafts hold the same value.
+ *
+ * @param a - First draft
+ * @param b - Second draft
+ * @returns True when equal
+ */
+export function isSameDraft(a: EditDraftValue, b: EditDraftValue): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Display label for an entity in a reference picker: its title, name or
+ * short title, falling back to its ID.
+ *
+ * @param entity - Entity to label
+ * @returns Label text
+ *
+ * @example
+ * ```ts
+ * getEntityLabel({ id: "snes", title: "Super Nintendo" }); // "Super Nintendo"
+ * getEntityLabel({ id: "snes" }); // "snes"
+ * ```
+ */
+export function getEntityLabel(entity: Record<string, unknown> & { id: string }): string {
+  for (const key of ["title", "name", "shortTitle"]) {
+    const value = entity[key];
+    if (typeof value === "string" && value.trim()) return value;
+  }
+  return entity.id;
+}
+
+/**
+ * Recompute the display fields that useCollection derives from edited entity
+ * fields, so edits to ratings, images, links and references show on the card.
+ *
+ * @param card - Card the edits are merged over
+ * @param fields - Edited fields
+ * @param references - Entities by ID for each reference field, by field name
+ * @returns Display fields to merge over the card after the edited fields
+ *
+ * @example
+ * ```ts
+ * deriveEditedDisplayFields(card, { rating: 4 }); // { rating: { score: 4, max: 5 } }
+ * ```
+ */
+export function deriveEditedDisplayFields(
+  card: Record<string, unknown>,
+  fields: Record<string, unknown>,
+  references: ReadonlyMap<string, ReadonlyMap<string, Entity>> = new Map()
+): Record<string, unknown> {
+  const derived: Record<string, unknown> = {};
+
+  if (Object.hasOwn(fields, "rating")) {
+    const rating = fields.rating;
+    derived.rating =
+      rating === null || rating === undefined ? undefined : normaliseRating(rating as Rating);
+  }
+
+  if (Object.hasOwn(fields, "images") && Array.isArray(fields.images)) {
+    const images = fields.images as Image[];
+    const urls = getImageUrls(images).slice(0, MAX_DERIVED_MEDIA);
+    if (urls.length > 0) {
+      // Keep the video entries useCollection appended after the source images
+      const sourceUrls = new Set(getImageUrls(Array.isArray(card.images) ? (card.images as Image[]) : []));
+      const previous = Array.isArray(card.imageUrls) ? (card.imageUrls as string[]) : [];
+      const videos = previous.filter((url) => !sourceUrls.has(url));
+      const primary = getPrimaryImage(images);
+      derived.imageUrls = [...urls, ...videos].slice(0, MAX_DERIVED_MEDIA);
+      derived.imageUrl = primary?.url ?? urls[0];
+      derived.primaryImage = primary;
+    }
+  }
+
+  if (Object.hasOwn(fields, "detailUrls")) {
+    const links = normaliseDetailUrls(fields.detailUrls as DetailUrls | null).slice(0, MAX_DERIVED_MEDIA);
+    derived.detailUrls = links.length > 0 ? links : undefined;
+  }
+
+  const resolvedUpdates: Record<string, Entity | Entity[]> = {};
+  for (const [field, index] of references) {
+    if (!Object.hasOwn(fields, field)) continue;
+    const value = fields[field];
+    if (typeof value === "string") {
+      const entity = index.get(value);
+      if (entity) resolvedUpdates[field] = entity;
+    } else if (Array.isArray(value)) {
+      resolvedUpdates[field] = value
+        .map((id) => (typeof id === "string" ? index.get(id) : undefined))
+        .filter((entity): entity is Entity => entity !== undefined);
+    }
+  }
+  if (Object.keys(resolvedUpdates).length > 0) {
+    const resolved = card._resolved;
+    derived._resolved = {
+      ...(typeof resolved === "object" && resolved !== null ? resolved : {}),
+      ...resolvedUpdates,
+    };
+  }
+
+  return derived;
+}
@@ -0,0 +1,70 @@
+/**
+ * Edit history display utilities.
+ *
+ * Summarise operations from the edits store's history for the history panel
+ * and the undo/redo notifications.
+ */
+
+import type { EditChange, EditOperation, EditOperationType } from "@/stores/editsStore";
+
+/**
+ * Past-tense labels for operation types.
+ */
+const OPERATION_LABELS: Record<EditOperationType, string> = {
+  set: "Edited",
+  revertField: "Reverted field",
+  revertEntity: "Reverted",
+  revertAll: "Reverted all",
+  import: "Imported",
+  create: "Created",
+  delete: "Deleted",
+  restore: "Restored",
+  resolve: "Resolved conflict in",
+};
+
+/**
+ * Fields whose values differ between a change's before and after snapshots.
+ *
+ * @param change - Entity change from an operation
+ * @returns Field names, sorted
+ *
+ * @example
+ * ```ts
+ * getChangedFields({
+ *   entityId: "a",
+ *   before: { fields: { title: "Old", year: 1991 }, editedAt: 1 },
+ *   after: { fields: { title: "New", year: 1991 }, editedAt: 2 },
+ * }); // ["title"]
+ * ```
+ */
+export function getChangedFields(change: EditChange): string[] {
+  const before = change.before?.fields ?? {};
+  const after = change.after?.fields ?? {};
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...fields]
+    .filter(
+      (field) =>
+        Object.hasOwn(before, field) !== Object.hasOwn(after, field) ||
+        JSON.stringify(before[field]) !== JSON.stringify(after[field])
+    )
+    .sort();
+}
+
+/**
+ * One-line summary of an operation.
+ *
+ * @param operation - Operation from the history
+ * @returns Summary such as "Edited 1 item" or "Reverted all (12 items)"
+ *
+ * @example
+ * ```ts
+ * describeEditOperation({ type: "set", changes: [change], ... }); // "Edited 1 item"
+ * ```
+ */
+export function describeEditOperation(operation: EditOperation): string {
+  const count = operation.changes.length;
+  const items = `${String(count)} ${count === 1 ? "item" : "items"}`;
+  return operation.type === "revertAll"
+    ? `${OPERATION_LABELS.revertAll} (${items})`
+    : `${OPERATION_LABELS[operation.type]} ${items}`;
+}
@@ -0,0 +1,383 @@
+/**
+ * Elo-scale ratings for a personal ranking built from pairwise preferences.
+ *
+ * Each "which do you prefer?" answer is stored as a win for one card over
+ * another. Ratings are a Bradley-Terry fit of all the wins, expressed on the
+ * Elo scale (1500 average, 400 points = 10:1 odds), so every answer informs
+ * the whole order rather than just the two cards compared. Pairs are chosen
+ * adaptively - close ratings between little-compared cards first - so the
+ * order converges in a small multiple of the comparisons a sort would need.
+ */
+
+import { createSafeRecord } from "@/utils/safeRecord";
+import { shuffle, type RandomSource } from "@/utils/shuffle";
+
+/** Rating of an average card */
+export const DEFAULT_RATING = 1500;
+
+/** Comparisons every card needs before the ranking counts as settled */
+export const MIN_CARD_COMPARISONS = 2;
+
+/**
+ * Rating gap between neighbours in a settled ranking (about 55% odds).
+ * Neighbours closer than this are still compared until the ranking has
+ * had twice its target comparisons, so near-ties cannot stall it.
+ */
+export const SETTLED_RATING_GAP = 35;
+
+/**
+ * How many rating neighbours each card is paired against when looking for
+ * the next pair. Close ratings are the informative ones, so neighbours keep
+ * pair selection linear in the collection size.
+ */
+const PAIR_WINDOW = 3;
+
+/** Iteration limit for the Bradley-Terry fit */
+const MAX_FIT_ITERATIONS = 100;
+
+/** Largest change in log-strength at which the fit has converged */
+const FIT_TOLERANCE = 1e-4;
+
+/**
+ * Wins of one card over another: `wins[winnerId][loserId]` is how often
+ * the winner was preferred.
+ */
+export type PairwiseWins = Record<string, Record<string, number>>;
+
+/**
+ * A card's rating.
+ */
+export interface CardRating {
+  /** Elo-scale rating */
+  rating: number;
+  /** Comparisons the card has taken part in */
+  comparisons: number;
+}
+
+/**
+ * A card's rating (the default when it has never been compared).
+ *
+ * @param ratings - Ratings by card ID
+ * @param cardId - Card ID
+ * @returns The card's rating
+ *
+ * @example
+ * ```ts
+ * getCardRating({}, "a"); // { rating: 1500, comparisons: 0 }
+ * ```
+ */
+export function getCardRating(ratings: Record<string, CardRating>, cardId: string): CardRating {
+  const rating = Object.hasOwn(ratings, cardId) ? ratings[cardId] : undefined;
+  return rating ?? { rating: DEFAULT_RATING, comparisons: 0 };
+}
+
+/**
+ * Probability that a card is preferred over an opponent.
+ *
+ * @param rating - The card's rating
+ * @param opponent - The opponent's rating
+ * @returns Expected score between 0 and 1
+ *
+ * @example
+ * ```ts
+ * expectedScore(1500, 1500); // 0.5
+ * expectedScore(1900, 1500); // ~0.91
+ * ```
+ */
+export function expectedScore(rating: number, opponent: number): number {
+  return 1 / (1 + Math.pow(10, (opponent - rating) / 400));
+}
+
+/**
+ * Record one card being preferred over another.
+ *
+ * @param wins - Wins so far
+ * @param winnerId - Preferred card
+ * @param loserId - Other card
+ * @returns New wins (the input is not modified)
+ *
+ * @example
+ * ```ts
+ * addWin({}, "a", "b"); // { a: { b: 1 } }
+ * ```
+ */
+export function addWin(wins: PairwiseWins, winnerId: string, loserId: string): PairwiseWins {
+  const previous = Object.hasOwn(wins, winnerId) ? wins[winnerId] ?? {} : {};
+  const beaten = createSafeRecord(Object.entries(previous));
+  beaten[loserId] = (Object.hasOwn(beaten, loserId) ? beaten[loserId] ?? 0 : 0) + 1;
+
+  const next = createSafeRecord(Object.entries(wins));
+  next[winnerId] = beaten;
+  return next;
+}
+
+/**
+ * Total comparisons recorded.
+ *
+ * @param wins - Recorded wins
+ * @returns Number of comparisons
+ *
+ * @example
+ * ```ts
+ * countComparisons({ a: { b: 2 }, b: { a: 1 } }); // 3
+ * ```
+ */
+export function countComparisons(wins: PairwiseWins): number {
+  let total = 0;
+  for (const beaten of Object.values(wins)) {
+    for (const count of Object.values(beaten)) total += count;
+  }
+  return total;
+}
+
+/**
+ * Fit ratings to the recorded wins (Bradley-Terry, minorisation-maximisation).
+ *
+ * Each card also gets one virtual win and one virtual loss against an
+ * average card, which keeps unbeaten and winless cards at finite ratings.
+ * Wins involving cards outside `cardIds` are ignored.
+ *
+ * @param cardIds - Cards being ranked
+ * @param wins - Recorded wins
+ * @param initial - Previous ratings to start from (speeds up refitting)
+ * @returns Ratings of the cards that have been compared
+ *
+ * @example
+ * ```ts
+ * fitRatings(["a", "b"], { a: { b: 1 } });
+ * // { a: { rating: ~1592, comparisons: 1 }, b: { rating: ~1408, comparisons: 1 } }
+ * ```
+ */
+export function fitRatings(
+  cardIds: readonly string[],
+  wins: PairwiseWins,
+  initial: Record<string, CardRating> = {}
+): Record<string, CardRating> {
+  const known = new Set(cardIds);
+  const games = new Map<string, Map<string, number>>();
+  const winCounts = new Map<string, number>();
+
+  const addGames = (a: string, b: string, count: number) => {
+    const opponents = games.get(a) ?? new Map<string, number>();
+    opponents.set(b, (opponents.get(b) ?? 0) + count);
+    games.set(a, opponents);
+  };
+
+  for (const [winnerId, beaten] of Object.entries(wins)) {
+    if (!known.has(winnerId)) continue;
+    for (const [loserId, count] of Object.entries(beaten)) {
+      if (!known.has(loserId) || loserId === winnerId || !(count > 0)) continue;
+      winCounts.set(winnerId, (winCounts.get(winnerId) ?? 0) + count);
+      addGames(winnerId, loserId, count);
+      addGames(loserId, winnerId, count);
+    }
+  }
+
+  // Strengths on a ratio scale: 1 is an average card
+  const strengths = new Map<string, number>();
+  for (const id of games.keys()) {
+    strengths.set(id, Math.pow(10, (getCardRating(initial, id).rating - DEFAULT_RATING) / 400));
+  }
+
+  for (let iteration = 0; iteration < MAX_FIT_ITERATIONS; iteration++) {
+    let change = 0;
+    for (const [id, opponents] of games) {
+      const strength = strengths.get(id) ?? 1;
+      let denominator = 2 / (strength + 1);
+      for (const [opponentId, count] of opponents) {
+        denominator += count / (strength + (strengths.get(opponentId) ?? 1));
+      }
+      const next = ((winCounts.get(id) ?? 0) + 1) / denominator;
+      change = Math.max(change, Math.abs(Math.log(next / strength)));
+      strengths.set(id, next);
+    }
+    if (change < FIT_TOLERANCE) break;
+  }
+
+  const ratings = new Map<string, CardRating>();
+  for (const [id, opponents] of games) {
+    let comparisons = 0;
+    for (const count of opponents.values()) comparisons += count;
+    ratings.set(id, {
+      rating: DEFAULT_RATING + 400 * Math.log10(strengths.get(id) ?? 1),
+      comparisons,
+    });
+  }
+  return Object.fromEntries(ratings);
+}
+
+/**
+ * Comparisons a ranking of this many cards needs before it settles - the
+ * n·log2(n) a comparison sort would make.
+ *
+ * @param cardCount - Cards being ranked
+ * @returns Target number of comparisons
+ *
+ * @example
+ * ```ts
+ * getTargetComparisons(8); // 24
+ * ```
+ */
+export function getTargetComparisons(cardCount: number): number {
+  if (cardCount < 2) return 0;
+  return Math.ceil(cardCount * Math.log2(cardCount));
+}
+
+/**
+ * Comparisons made between the given cards.
+ */
+function countCardComparisons(
+  cardIds: readonly string[],
+  ratings: Record<string, CardRating>
+): number {
+  const total = cardIds.reduce((sum, id) => sum + getCardRating(ratings, id).comparisons, 0);
+  return Math.floor(total / 2);
+}
+
+/**
+ * Whether the ranking of these cards has converged: enough comparisons in
+ * total, every card compared at least MIN_CARD_COMPARISONS times and every
+ * pair of neighbours in the order told apart.
+ *
+ * @param cardIds - Cards being ranked
+ * @param ratings - Fitted ratings by card ID
+ * @returns True when further comparisons only refine the order
+ *
+ * @example
+ * ```ts
+ * isRankingSettled(cardIds, fitRatings(cardIds, ranking.wins));
+ * ```
+ */
+export function isRankingSettled(
+  cardIds: readonly string[],
+  ratings: Record<string, CardRating>
+): boolean {
+  if (cardIds.length < 2) return false;
+
+  const comparisons = countCardComparisons(cardIds, ratings);
+  const target = getTargetComparisons(cardIds.length);
+  if (
+    comparisons < target ||
+    cardIds.some((id) => getCardRating(ratings, id).comparisons < MIN_CARD_COMPARISONS)
+  ) {
+    return false;
+  }
+  if (comparisons >= target * 2) return true;
+
+  const sorted = cardIds.map((id) => getCardRating(ratings, id).rating).sort((a, b) => b - a);
+  return sorted.every(
+    (rating, i) => i === 0 || (sorted[i - 1] ?? rating) - rating >= SETTLED_RATING_GAP
+  );
+}
+
+/**
+ * Progress towards a settled ranking.
+ *
+ * @param cardIds - Cards being ranked
+ * @param ratings - Fitted ratings by card ID
+ * @returns Fraction between 0 and 1 (1 only once settled)
+ *
+ * @example
+ * ```ts
+ * `${String(Math.round(getRankingProgress(ids, ratings) * 100))}%`;
+ * ```
+ */
+export function getRankingProgress(
+  cardIds: readonly string[],
+  ratings: Record<string, CardRating>
+): number {
+  if (isRankingSettled(cardIds, ratings)) return 1;
+  const target = getTargetComparisons(cardIds.length);
+  if (target === 0) return 0;
+  return Math.min(0.99, countCardComparisons(cardIds, ratings) / target);
+}
+
+/**
+ * Choose the most informative pair to compare next.
+ *
+ * A pair is informative when its outcome is uncertain (close ratings) and
+ * its cards have few comparisons. Cards are shuffled before being ordered
+ * by rating so that equally rated cards meet in a random order.
+ *
+ * @param cardIds - Cards being ranked
+ * @param ratings - Fitted ratings by card ID
+ * @param options - The pair just shown (avoided when possible) and a random source
+ * @returns Two card IDs, or null when fewer than two cards are given
+ *
+ * @example
+ * ```ts
+ * const pair = selectNextPair(cardIds, ratings, { previous: lastPair });
+ * ```
+ */
+export function selectNextPair(
+  cardIds: readonly string[],
+  ratings: Record<string, CardRating>,
+  options: { previous?: readonly [string, string] | null; random?: RandomSource } = {}
+): [string, string] | null {
+  const { previous = null, random = Math.random } = options;
+  const byRating = shuffle(cardIds, random).sort(
+    (a, b) => getCardRating(ratings, b).rating - getCardRating(ratings, a).rating
+  );
+
+  const isPrevious = (a: string, b: string) =>
+    previous !== null &&
+    ((previous[0] === a && previous[1] === b) || (previous[0] === b && previous[1] === a));
+
+  let best: [string, string] | null = null;
+  let bestScore = -1;
+  let fallback: [string, string] | null = null;
+
+  for (let i = 0; i < byRating.length; i++) {
+    const a = byRating[i];
+    if (a === undefined) continue;
+    const ratingA = getCardRating(ratings, a);
+
+    for (let j = i + 1; j <= i + PAIR_WINDOW && j < byRating.length; j++) {
+      const b = byRating[j];
+      if (b === undefined) continue;
+      if (isPrevious(a, b)) {
+        fallback = [a, b];
+        continue;
+      }
+      const ratingB = getCardRating(ratings, b);
+
+      // Outcome uncertainty weighted by how little is known about the cards
+      const p = expectedScore(ratingA.rating, ratingB.rating);
+      const score =
+        p * (1 - p) * (1 / (1 + ratingA.comparisons) + 1 / (1 + ratingB.comparisons));
+      if (score > bestScore) {
+        best = [a, b];
+        bestScore = score;
+      }
+    }
+  }
+
+  const pair = best ?? fallback;
+  if (!pair) return null;
+  // Either card may appear on the left
+  return random() < 0.5 ? pair : [pair[1], pair[0]];
+}
+
+/**
+ * Order compared cards from favourite to least favourite.
+ *
+ * Cards never compared are left out. Equal ratings keep the given order.
+ *
+ * @param cardIds - Cards being ranked
+ * @param ratings - Fitted ratings by card ID
+ * @returns Ranked card IDs, favourite first
+ *
+ * @example
+ * ```ts
+ * rankCardIds(["a", "b"], fitRatings(["a", "b"], { b: { a: 1 } }));
+ * // → ["b", "a"]
+ * ```
+ */
+export function rankCardIds(
+  cardIds: readonly string[],
+  ratings: Record<string, CardRating>
+): string[] {
+  return cardIds
+    .filter((id) => getCardRating(ratings, id).comparisons > 0)
+    .sort((a, b) => getCardRating(ratings, b).rating - getCardRating(ratings, a).rating);
+}
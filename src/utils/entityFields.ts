@@ -65,6 +65,13 @@ const SKIP_FIELDS = new Set([
   "hasEdits",
   "_editedAt",
   "_hasEdits",
+  "_conflicts",
+  // Personal tags (shown as chips with the card's notes)
+  "_tags",
+  // Personal ranking position (shown in the rank badge)
+  "_ranking",
+  // Tier list placement (shown in the Tier List mechanic)
+  "_tier",
 ]);
 
 /**
@@ -99,8 +99,22 @@ export const BACKGROUND_OPTIONS: BackgroundOption[] = [
   APP_LOGO_BACKGROUND,
 ];
 
+/**
+ * Sort field value for the user's own drag-and-drop order.
+ * Not an entity field; CardGrid applies the persisted order instead.
+ */
+export const CUSTOM_ORDER_SORT_FIELD = "custom";
+
+/**
+ * Meta field holding a card's position in the personal ranking built by
+ * the My Ranking mechanic (1 = favourite). Unranked cards lack it.
+ */
+export const PERSONAL_RANKING_FIELD = "_ranking";
+
 export const SORT_FIELD_OPTIONS: FieldOption[] = [
+  { value: CUSTOM_ORDER_SORT_FIELD, label: "My Order" },
   { value: "order", label: "Order/Rank" },
+  { value: PERSONAL_RANKING_FIELD, label: "My Ranking" },
   { value: "myRank", label: "My Rank" },
   { value: "title", label: "Title" },
   { value: "year", label: "Year" },
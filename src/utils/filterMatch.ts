@@ -7,35 +7,178 @@
  * bug where the Platform filter offered `shortTitle` values but matched on the
  * full `categoryTitle`, and the Genre filter listed every genre but matched
  * only each card's first one.
+ *
+ * Filter fields are normally discovered from the collection schema
+ * (see discoverFilterFields in services/fieldDiscovery); FILTER_FIELD_DEFS is
+ * the fallback for collections served without one.
+ *
+ * Number, date and rating fields are filtered by range rather than by value.
+ * Their bounds and histograms come from computeCollectionStats, and the same
+ * extractors read each card's value when matching.
  */
 
 import { resolveFieldPath } from "@/utils/fieldPathResolver";
+import { capFilterOptions } from "@/utils/filterOptions";
+import {
+  extractDate,
+  extractNumeric,
+  type NumericFieldStats,
+} from "@/utils/collectionStats";
 
-/** The option group a filter field draws its selectable values from. */
-export type FilterOptionsKey = "platforms" | "years" | "genres";
+/**
+ * How a filter field's values are read and presented.
+ *
+ * - `value`: a scalar field (string, number, date, computed)
+ * - `enum`: a field with a declared set of values
+ * - `boolean`: a yes/no field
+ * - `array`: a list field; a card matches when any member is selected
+ * - `reference`: a relationship to other entities, matched on their titles
+ * - `number`, `date`, `rating`: range-filtered with a slider
+ */
+export type FilterFieldKind =
+  | "value"
+  | "enum"
+  | "boolean"
+  | "array"
+  | "reference"
+  | "number"
+  | "date"
+  | "rating";
 
 export interface FilterFieldDef {
   /** Field path used both to collect options and to match cards. */
   field: string;
   /** Human-readable chip/dropdown label. */
   label: string;
-  /** Which option group in the computed filter options feeds this field. */
-  optionsKey: FilterOptionsKey;
+  /** How values are read and presented. */
+  kind: FilterFieldKind;
+  /** Declared values for enum fields, used to order the options. */
+  enumValues?: readonly string[];
+}
+
+/**
+ * Bounds and distribution of a range filter field.
+ */
+export interface FilterFieldRange {
+  /** Whether bounds are plain numbers or dates (epoch milliseconds, UTC). */
+  type: "number" | "date";
+  min: number;
+  max: number;
+  /** Value counts in equal-width bins from min to max. */
+  histogram: number[];
+}
+
+/**
+ * A filter field with the options collected from the current cards.
+ */
+export interface FilterField extends FilterFieldDef {
+  /** Selectable values, already capped (empty for range fields). */
+  options: string[];
+  /** Bounds and histogram, for range fields only. */
+  range?: FilterFieldRange;
 }
 
 /**
- * Single source of truth for the filter fields. `field` is what both the
- * option collection and the match predicate resolve, so they cannot diverge.
+ * Fallback filter fields for collections without a schema (e.g. a cached
+ * legacy collection). `field` is what both the option collection and the
+ * match predicate resolve, so they cannot diverge.
  */
 export const FILTER_FIELD_DEFS: readonly FilterFieldDef[] = [
-  { field: "categoryShort", label: "Platform", optionsKey: "platforms" },
-  { field: "year", label: "Year", optionsKey: "years" },
-  { field: "genres", label: "Genre", optionsKey: "genres" },
+  { field: "categoryShort", label: "Platform", kind: "value" },
+  { field: "year", label: "Year", kind: "number" },
+  { field: "genres", label: "Genre", kind: "array" },
 ] as const;
 
+/**
+ * Filter on the personal tags merged onto cards as `_tags`. Offered for
+ * every collection, whether or not it has a schema.
+ */
+export const TAG_FILTER_FIELD_DEF: FilterFieldDef = { field: "_tags", label: "Tag", kind: "array" };
+
+/**
+ * Filter on the tier list placement merged onto cards as `_tier`. Offered
+ * for every collection; the options follow the tier rows' order.
+ */
+export const TIER_FILTER_FIELD_DEF: FilterFieldDef = { field: "_tier", label: "Tier", kind: "enum" };
+
+/**
+ * Distinct-value count above which a scalar field is treated as an
+ * identifier (e.g. titles) rather than something worth filtering on, when
+ * no two cards share a value.
+ */
+const MAX_UNIQUE_VALUE_OPTIONS = 20;
+
+/**
+ * Number of histogram bins shown under a range slider.
+ */
+export const RANGE_HISTOGRAM_BINS = 24;
+
+/**
+ * An active range. Either bound may be open; date bounds are epoch
+ * milliseconds (UTC).
+ */
+export interface ActiveFilterRange {
+  type: "number" | "date";
+  min?: number;
+  max?: number;
+}
+
 export interface ActiveFilter {
   field: string;
   values: string[];
+  /** Range to match instead of discrete values. */
+  range?: ActiveFilterRange;
+}
+
+/**
+ * Whether a filter kind is matched by range.
+ */
+export function isRangeFilterKind(kind: FilterFieldKind): boolean {
+  return kind === "number" || kind === "date" || kind === "rating";
+}
+
+/**
+ * Convert one resolved value to its filter option string.
+ *
+ * Related entities are matched on their title (falling back to id); other
+ * objects keep the historical JSON form.
+ */
+function toFilterValue(value: unknown): string | null {
+  if (value === null || value === undefined || value === "") return null;
+  if (typeof value === "string") return value;
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  if (typeof value === "object") {
+    const entity = value as Record<string, unknown>;
+    if (typeof entity.title === "string" && entity.title !== "") return entity.title;
+    if (typeof entity.id === "string") return entity.id;
+    return JSON.stringify(value);
+  }
+  return null;
+}
+
+/**
+ * Read the filter values a card holds for a field.
+ *
+ * This is the single reader used both to collect options and to match, so
+ * an offered option always matches the cards it came from. An array-valued
+ * field (e.g. `genres`) yields every member, not only its first element.
+ *
+ * @param card - Card to read from
+ * @param field - Filter field path
+ * @returns The card's values for the field (empty when absent)
+ */
+export function getFilterValues(
+  card: Record<string, unknown>,
+  field: string
+): string[] {
+  const value = resolveFieldPath(card, field);
+  const items: unknown[] = Array.isArray(value) ? value : [value];
+  const values: string[] = [];
+  for (const item of items) {
+    const str = toFilterValue(item);
+    if (str !== null) values.push(str);
+  }
+  return values;
 }
 
 /**
@@ -48,14 +191,166 @@ export function cardMatchesFilter(
   card: Record<string, unknown>,
   filter: ActiveFilter
 ): boolean {
-  const value = resolveFieldPath(card, filter.field);
-  if (value === null || value === undefined) return false;
-  if (Array.isArray(value)) {
-    return value.some((v) => filter.values.includes(String(v)));
-  }
-  const strValue =
-    typeof value === "object"
-      ? JSON.stringify(value)
-      : String(value as string | number | boolean);
-  return filter.values.includes(strValue);
+  if (filter.range) {
+    return cardMatchesRange(card, filter.field, filter.range);
+  }
+  return getFilterValues(card, filter.field).some((value) =>
+    filter.values.includes(value)
+  );
+}
+
+/**
+ * Decide whether a card's value for a field falls inside a range.
+ *
+ * Cards without a value never match. Structured ratings are compared on
+ * their score.
+ */
+function cardMatchesRange(
+  card: Record<string, unknown>,
+  field: string,
+  range: ActiveFilterRange
+): boolean {
+  const raw = resolveFieldPath(card, field);
+  const value = range.type === "date" ? extractDate(raw) : extractNumeric(raw);
+  if (value === null) return false;
+  if (range.min !== undefined && value < range.min) return false;
+  if (range.max !== undefined && value > range.max) return false;
+  return true;
+}
+
+/**
+ * Order the options of one filter field.
+ *
+ * Enum options follow their declared order; numbers sort descending (newest
+ * years first, as the original Year filter did); everything else sorts
+ * alphabetically with numeric awareness.
+ */
+function sortOptions(values: Set<string>, def: FilterFieldDef): string[] {
+  const options = Array.from(values);
+
+  if (def.enumValues) {
+    const declared = def.enumValues.filter((value) => values.has(value));
+    const extra = options.filter((value) => !def.enumValues?.includes(value)).sort();
+    return [...declared, ...extra];
+  }
+
+  if (options.every((value) => value.trim() !== "" && Number.isFinite(Number(value)))) {
+    return options.sort((a, b) => Number(b) - Number(a));
+  }
+
+  return options.sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+}
+
+/**
+ * Collect the selectable options for each filter field from the cards.
+ *
+ * Fields with no values are dropped, as are scalar fields that look like
+ * identifiers (every card distinct, more than MAX_UNIQUE_VALUE_OPTIONS
+ * values). Option lists are capped with capFilterOptions.
+ *
+ * Range fields take their bounds and histogram from `rangeStats` (computed
+ * with computeCollectionStats) and are dropped when every card shares one
+ * value.
+ *
+ * @param cards - Cards to collect values from
+ * @param defs - Filter field definitions
+ * @param rangeStats - Numeric statistics for the range fields, by field
+ * @returns Filter fields with their options, in definition order
+ */
+export function collectFilterOptions(
+  cards: readonly Record<string, unknown>[],
+  defs: readonly FilterFieldDef[],
+  rangeStats: ReadonlyMap<string, NumericFieldStats> = new Map()
+): FilterField[] {
+  const fields: FilterField[] = [];
+
+  for (const def of defs) {
+    if (isRangeFilterKind(def.kind)) {
+      const stats = rangeStats.get(def.field);
+      if (!stats || stats.min === stats.max) continue;
+      fields.push({
+        ...def,
+        options: [],
+        range: {
+          type: def.kind === "date" ? "date" : "number",
+          min: stats.min,
+          max: stats.max,
+          histogram: stats.histogram ?? [],
+        },
+      });
+      continue;
+    }
+
+    const values = new Set<string>();
+    let cardsWithValue = 0;
+
+    for (const card of cards) {
+      const cardValues = getFilterValues(card, def.field);
+      if (cardValues.length > 0) cardsWithValue++;
+      for (const value of cardValues) values.add(value);
+    }
+
+    if (values.size === 0) continue;
+
+    const looksLikeIdentifier =
+      def.kind === "value" &&
+      values.size > MAX_UNIQUE_VALUE_OPTIONS &&
+      values.size === cardsWithValue;
+    if (looksLikeIdentifier) continue;
+
+    fields.push({
+      ...def,
+      options: capFilterOptions(sortOptions(values, def), def.field),
+    });
+  }
+
+  return fields;
+}
+
+/**
+ * Format a filter option for display.
+ *
+ * @param kind - Kind of the filter field
+ * @param value - Option value
+ * @returns Display text
+ */
+export function formatFilterValue(kind: FilterFieldKind, value: string): string {
+  if (kind === "boolean") {
+    if (value === "true") return "Yes";
+    if (value === "false") return "No";
+  }
+  return value;
+}
+
+/**
+ * Format a range bound for display.
+ *
+ * @param type - Whether the bound is a number or a date
+ * @param value - Bound value (epoch milliseconds for dates)
+ * @returns Display text
+ */
+export function formatRangeBound(type: "number" | "date", value: number): string {
+  if (type === "date") {
+    const date = new Date(value);
+    return date.getUTCMonth() === 0 && date.getUTCDate() === 1
+      ? String(date.getUTCFullYear())
+      : date.toISOString().slice(0, 10);
+  }
+  return Number.isInteger(value) ? String(value) : value.toFixed(1);
+}
+
+/**
+ * Format an active range for a filter chip (e.g. "1985–1992", "≥ 4").
+ *
+ * @param range - Active range
+ * @returns Display text
+ */
+export function formatFilterRange(range: ActiveFilterRange): string {
+  const { type, min, max } = range;
+  if (min !== undefined && max !== undefined) {
+    return `${formatRangeBound(type, min)}–${formatRangeBound(type, max)}`;
+  }
+  if (min !== undefined) return `≥ ${formatRangeBound(type, min)}`;
+  if (max !== undefined) return `≤ ${formatRangeBound(type, max)}`;
+  return "Any";
 }
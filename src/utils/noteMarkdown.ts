@@ -0,0 +1,148 @@
+/**
+ * Minimal markdown for personal card notes.
+ *
+ * Parses a small markdown subset into a tree that components render as
+ * React elements, so note text is never injected as HTML. Supported:
+ * - `#`, `##`, `###` headings
+ * - `-` or `*` bullet lists
+ * - Paragraphs separated by blank lines, single line breaks kept
+ * - `**bold**`, `*italic*` or `_italic_`, `` `code` ``
+ * - `[text](url)` links, kept only when the URL passes safeExternalUrl
+ */
+
+import { safeExternalUrl } from "@/utils/safeUrl";
+
+/**
+ * Inline markdown node.
+ */
+export type NoteInline =
+  | { type: "text"; text: string }
+  | { type: "code"; text: string }
+  | { type: "strong"; children: NoteInline[] }
+  | { type: "em"; children: NoteInline[] }
+  | { type: "link"; href: string; children: NoteInline[] };
+
+/**
+ * Block markdown node.
+ */
+export type NoteBlock =
+  | { type: "heading"; level: 1 | 2 | 3; children: NoteInline[] }
+  | { type: "list"; items: NoteInline[][] }
+  | { type: "paragraph"; lines: NoteInline[][] };
+
+const HEADING_PATTERN = /^(#{1,3})\s+(.*)$/;
+const LIST_ITEM_PATTERN = /^[-*]\s+(.*)$/;
+
+/**
+ * Inline markers, tried in order at each position: code first so its
+ * content is literal, then links, bold and italics.
+ */
+const INLINE_PATTERN =
+  /`([^`]+)`|\[([^\]]+)\]\(([^)\s]+)\)|\*\*(.+?)\*\*|\*([^*\s](?:[^*]*[^*\s])?)\*|_([^_\s](?:[^_]*[^_\s])?)_/;
+
+/**
+ * Parse inline markdown.
+ *
+ * @param text - One line of text
+ * @returns Inline nodes
+ *
+ * @example
+ * ```ts
+ * parseNoteInline("Found at **car boot** sale");
+ * // [{ type: "text", text: "Found at " }, { type: "strong", children: [...] }, ...]
+ * ```
+ */
+export function parseNoteInline(text: string): NoteInline[] {
+  const nodes: NoteInline[] = [];
+  let rest = text;
+
+  while (rest) {
+    const match = INLINE_PATTERN.exec(rest);
+    if (!match) {
+      nodes.push({ type: "text", text: rest });
+      break;
+    }
+
+    if (match.index > 0) {
+      nodes.push({ type: "text", text: rest.slice(0, match.index) });
+    }
+
+    const [whole, code, linkText, linkUrl, strong, star, underscore] = match;
+    if (code !== undefined) {
+      nodes.push({ type: "code", text: code });
+    } else if (linkText !== undefined) {
+      const href = safeExternalUrl(linkUrl);
+      // Unsafe links keep their text but lose the link
+      nodes.push(
+        href
+          ? { type: "link", href, children: parseNoteInline(linkText) }
+          : { type: "text", text: linkText }
+      );
+    } else if (strong !== undefined) {
+      nodes.push({ type: "strong", children: parseNoteInline(strong) });
+    } else {
+      nodes.push({ type: "em", children: parseNoteInline(star ?? underscore ?? "") });
+    }
+
+    rest = rest.slice(match.index + whole.length);
+  }
+
+  return nodes;
+}
+
+/**
+ * Parse a note into blocks.
+ *
+ * @param note - Note text
+ * @returns Block nodes
+ *
+ * @example
+ * ```ts
+ * parseNoteMarkdown("## Condition\n- Box worn\n- Cartridge fine");
+ * // [{ type: "heading", level: 2, ... }, { type: "list", items: [...] }]
+ * ```
+ */
+export function parseNoteMarkdown(note: string): NoteBlock[] {
+  const blocks: NoteBlock[] = [];
+  let paragraph: NoteInline[][] | null = null;
+  let list: NoteInline[][] | null = null;
+
+  for (const rawLine of note.replace(/\r\n?/g, "\n").split("\n")) {
+    const line = rawLine.trim();
+
+    if (!line) {
+      paragraph = null;
+      list = null;
+      continue;
+    }
+
+    const heading = HEADING_PATTERN.exec(line);
+    if (heading) {
+      const level = (heading[1]?.length ?? 1) as 1 | 2 | 3;
+      blocks.push({ type: "heading", level, children: parseNoteInline(heading[2] ?? "") });
+      paragraph = null;
+      list = null;
+      continue;
+    }
+
+    const item = LIST_ITEM_PATTERN.exec(line);
+    if (item) {
+      if (!list) {
+        list = [];
+        blocks.push({ type: "list", items: list });
+      }
+      list.push(parseNoteInline(item[1] ?? ""));
+      paragraph = null;
+      continue;
+    }
+
+    if (!paragraph) {
+      paragraph = [];
+      blocks.push({ type: "paragraph", lines: paragraph });
+    }
+    paragraph.push(parseNoteInline(line));
+    list = null;
+  }
+
+  return blocks;
+}
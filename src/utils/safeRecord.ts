@@ -0,0 +1,42 @@
+/**
+ * Records keyed by untrusted data.
+ *
+ * Card IDs and field keys come from collection data, so a key such as
+ * "__proto__" has to become an own property rather than reach the object's
+ * prototype. Records built here have a null prototype, which keeps every
+ * key usable for both reads and writes.
+ */
+
+/**
+ * Build a null-prototype record from entries.
+ *
+ * @param entries - Key/value pairs (later keys win)
+ * @returns Record with every key as an own property
+ *
+ * @example
+ * ```ts
+ * createSafeRecord([["__proto__", 1]]); // { __proto__: 1 } as an own key
+ * ```
+ */
+export function createSafeRecord<T>(entries: Iterable<readonly [string, T]> = []): Record<string, T> {
+  const record = Object.create(null) as Record<string, T>;
+  for (const [key, value] of entries) {
+    record[key] = value;
+  }
+  return record;
+}
+
+/**
+ * Key items by their ID.
+ *
+ * @param items - Items with IDs (later duplicates win)
+ * @returns Null-prototype record of the items by ID
+ *
+ * @example
+ * ```ts
+ * indexById(cards)["smb"]; // the card with ID "smb"
+ * ```
+ */
+export function indexById<T extends { id: string }>(items: Iterable<T>): Record<string, T> {
+  return createSafeRecord(Array.from(items, (item) => [item.id, item] as const));
+}
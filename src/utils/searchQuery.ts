@@ -0,0 +1,614 @@
+/**
+ * Search query language for the search bar.
+ *
+ * Parses queries such as `platform:NES year:>=1990 -"final fantasy"` into a
+ * tree and matches cards against it. Kept free of React and store access so
+ * the same queries can be reused by other features and by plugins.
+ *
+ * Syntax:
+ * - Free terms and `"quoted phrases"` match any of the configured search
+ *   fields (case-insensitive substring)
+ * - `field:value` matches a field by substring; `field:=value` exactly;
+ *   `field:!=value` excludes an exact value. A bare qualifier without a
+ *   value, or a term on a field no card has, is a free term instead, so titles such as
+ *   `Castlevania: Symphony` still search as typed
+ * - `field:>n`, `field:>=n`, `field:<n`, `field:<=n` compare numbers, ratings
+ *   (on their score) and dates (`released:<2000-01-01`)
+ * - `has:field` matches cards where the field has a value
+ * - Field paths follow relationships: `platform.manufacturer:Sega`
+ * - `tag:name` matches the card's personal tags (`has:tag` any tag)
+ * - `tier:=S` matches the card's tier list row (`has:tier` any placed card)
+ * - `AND` (implicit between terms), `OR`, `NOT` or a `-` prefix, and
+ *   parentheses for grouping
+ */
+
+import { SearchQueryError } from "@/errors";
+import { extractDate, extractNumeric } from "@/utils/collectionStats";
+import { resolveFieldPath } from "@/utils/fieldPathResolver";
+import { isStructuredRating } from "@/types/rating";
+
+/**
+ * Maximum accepted query length.
+ *
+ * Every term is evaluated against every card for each settled query, so an
+ * unbounded query (e.g. a pasted document or a shared link) scales that work
+ * with untrusted input.
+ */
+export const MAX_QUERY_LENGTH = 500;
+
+/**
+ * Maximum parenthesis nesting depth, so a hostile query cannot overflow the
+ * stack of the recursive parser or matcher.
+ */
+const MAX_QUERY_DEPTH = 16;
+
+/**
+ * Path segments that would reach object prototypes.
+ */
+const BLOCKED_SEGMENTS = new Set(["__proto__", "constructor", "prototype"]);
+
+/**
+ * A field path: dot-separated identifiers.
+ */
+const FIELD_PATH_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)*$/;
+
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/;
+
+/**
+ * Friendly names for meta fields merged onto display cards.
+ */
+const FIELD_ALIASES = new Map([
+  ["tag", "_tags"],
+  ["tier", "_tier"],
+]);
+
+/**
+ * Comparison operators for field terms. `:` is the default substring match.
+ */
+export type SearchComparison = ":" | "=" | "!=" | ">" | ">=" | "<" | "<=";
+
+/**
+ * Parsed search query tree.
+ */
+export type SearchQueryNode =
+  | { type: "and"; children: SearchQueryNode[] }
+  | { type: "or"; children: SearchQueryNode[] }
+  | { type: "not"; child: SearchQueryNode }
+  | { type: "text"; value: string }
+  | { type: "field"; field: string; op: SearchComparison; value: string }
+  | { type: "has"; field: string };
+
+/**
+ * Options for matching cards against a query.
+ */
+export interface SearchQueryOptions {
+  /** Field paths searched by free terms and phrases */
+  searchFields: readonly string[];
+}
+
+// ============================================================================
+// Tokeniser
+// ============================================================================
+
+type Token =
+  | { type: "lparen" | "rparen" | "and" | "or" | "not" | "end"; position: number }
+  | { type: "term"; node: SearchQueryNode; position: number };
+
+const OPERATOR_PATTERN = /^(>=|<=|!=|>|<|=)?/;
+
+function isWordBoundary(char: string | undefined): boolean {
+  return char === undefined || /\s/.test(char) || char === "(" || char === ")" || char === '"';
+}
+
+function tokenise(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const readQuoted = (start: number): { value: string; end: number } => {
+    const close = query.indexOf('"', start + 1);
+    if (close === -1) {
+      throw new SearchQueryError("Unterminated quoted phrase", query, start);
+    }
+    return { value: query.slice(start + 1, close), end: close + 1 };
+  };
+
+  while (i < query.length) {
+    const char = query.charAt(i);
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === "(" || char === ")") {
+      tokens.push({ type: char === "(" ? "lparen" : "rparen", position: i });
+      i++;
+      continue;
+    }
+
+    // "-" directly before a term, phrase or group negates it
+    const following = query[i + 1];
+    if (char === "-" && following !== undefined && !/\s/.test(following) && following !== ")") {
+      tokens.push({ type: "not", position: i });
+      i++;
+      continue;
+    }
+
+    if (char === '"') {
+      const { value, end } = readQuoted(i);
+      if (value.trim() !== "") {
+        tokens.push({ type: "term", node: { type: "text", value }, position: i });
+      }
+      i = end;
+      continue;
+    }
+
+    const start = i;
+    while (!isWordBoundary(query[i])) i++;
+    const word = query.slice(start, i);
+
+    const upper = word.toUpperCase();
+    if (upper === "AND" || upper === "OR" || upper === "NOT") {
+      tokens.push({ type: upper === "AND" ? "and" : upper === "OR" ? "or" : "not", position: start });
+      continue;
+    }
+
+    const colon = word.indexOf(":");
+    const field = colon > 0 ? word.slice(0, colon) : "";
+    if (!FIELD_PATH_PATTERN.test(field)) {
+      tokens.push({ type: "term", node: { type: "text", value: word }, position: start });
+      continue;
+    }
+
+    const rest = word.slice(colon + 1);
+
+    if (field.toLowerCase() === "has") {
+      if (!FIELD_PATH_PATTERN.test(rest)) {
+        throw new SearchQueryError(
+          rest === "" ? "Missing field name after \"has:\"" : `"${rest}" is not a field name`,
+          query,
+          start + colon + 1
+        );
+      }
+      tokens.push({ type: "term", node: { type: "has", field: rest }, position: start });
+      continue;
+    }
+
+    const opText = OPERATOR_PATTERN.exec(rest)?.[0] ?? "";
+    const op: SearchComparison = opText === "" ? ":" : (opText as SearchComparison);
+    let value = rest.slice(opText.length);
+    const valuePosition = start + colon + 1 + opText.length;
+
+    // A quoted value directly after the qualifier: platform:"Master System"
+    if (value === "" && query[i] === '"') {
+      const quoted = readQuoted(i);
+      value = quoted.value;
+      i = quoted.end;
+    }
+
+    if (value.trim() === "") {
+      // "Castlevania: Symphony" is a title, not a field term
+      if (opText === "") {
+        tokens.push({ type: "term", node: { type: "text", value: word }, position: start });
+        continue;
+      }
+      throw new SearchQueryError(`Missing value for "${field}:"`, query, valuePosition);
+    }
+
+    if (
+      (op === ">" || op === ">=" || op === "<" || op === "<=") &&
+      !NUMBER_PATTERN.test(value) &&
+      Number.isNaN(Date.parse(value))
+    ) {
+      throw new SearchQueryError(
+        `"${value}" is not a number or date`,
+        query,
+        valuePosition
+      );
+    }
+
+    tokens.push({ type: "term", node: { type: "field", field, op, value }, position: start });
+  }
+
+  tokens.push({ type: "end", position: query.length });
+  return tokens;
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+class Parser {
+  private index = 0;
+  private depth = 0;
+  private readonly endToken: Token;
+
+  constructor(
+    private readonly query: string,
+    private readonly tokens: Token[]
+  ) {
+    this.endToken = { type: "end", position: query.length };
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index] ?? this.endToken;
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.type !== "end") this.index++;
+    return token;
+  }
+
+  private fail(message: string, position: number): never {
+    throw new SearchQueryError(message, this.query, position);
+  }
+
+  private startsTerm(token: Token): boolean {
+    return token.type === "term" || token.type === "not" || token.type === "lparen";
+  }
+
+  parse(): SearchQueryNode | null {
+    if (this.peek().type === "end") return null;
+    const node = this.parseOr();
+    const token = this.peek();
+    if (token.type !== "end") {
+      this.fail(token.type === "rparen" ? "Unexpected \")\"" : "Unexpected input", token.position);
+    }
+    return node;
+  }
+
+  private parseOr(): SearchQueryNode {
+    const children = [this.parseAnd()];
+    while (this.peek().type === "or") {
+      const op = this.next();
+      if (!this.startsTerm(this.peek())) {
+        this.fail("Expected a search term after OR", op.position);
+      }
+      children.push(this.parseAnd());
+    }
+    const [first] = children;
+    return children.length === 1 && first ? first : { type: "or", children };
+  }
+
+  private parseAnd(): SearchQueryNode {
+    const children = [this.parseNot()];
+    for (;;) {
+      const token = this.peek();
+      if (token.type === "and") {
+        this.next();
+        if (!this.startsTerm(this.peek())) {
+          this.fail("Expected a search term after AND", token.position);
+        }
+      } else if (!this.startsTerm(token)) {
+        break;
+      }
+      children.push(this.parseNot());
+    }
+    const [first] = children;
+    return children.length === 1 && first ? first : { type: "and", children };
+  }
+
+  private parseNot(): SearchQueryNode {
+    const token = this.peek();
+    if (token.type === "not") {
+      this.next();
+      if (!this.startsTerm(this.peek())) {
+        this.fail("Expected a search term after NOT", token.position);
+      }
+      return { type: "not", child: this.parseNot() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): SearchQueryNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case "term":
+        return token.node;
+      case "lparen": {
+        if (++this.depth > MAX_QUERY_DEPTH) {
+          this.fail("Parentheses nested too deeply", token.position);
+        }
+        if (this.peek().type === "rparen") {
+          this.fail("Empty parentheses", token.position);
+        }
+        const node = this.parseOr();
+        if (this.next().type !== "rparen") {
+          this.fail("Missing closing parenthesis", token.position);
+        }
+        this.depth--;
+        return node;
+      }
+      case "rparen":
+        return this.fail("Unexpected \")\"", token.position);
+      case "and":
+      case "or":
+        return this.fail(
+          `Expected a search term before ${token.type.toUpperCase()}`,
+          token.position
+        );
+      default:
+        return this.fail("Expected a search term", token.position);
+    }
+  }
+}
+
+/**
+ * Parse a search query.
+ *
+ * @param query - Query text as typed in the search bar
+ * @returns Query tree, or null for an empty query
+ * @throws SearchQueryError with the position of the problem
+ *
+ * @example
+ * parseSearchQuery('platform:NES year:>=1990')
+ * // Returns: { type: "and", children: [
+ * //   { type: "field", field: "platform", op: ":", value: "NES" },
+ * //   { type: "field", field: "year", op: ">=", value: "1990" } ] }
+ */
+export function parseSearchQuery(query: string): SearchQueryNode | null {
+  if (query.length > MAX_QUERY_LENGTH) {
+    throw new SearchQueryError(
+      `Query longer than ${String(MAX_QUERY_LENGTH)} characters`,
+      query,
+      MAX_QUERY_LENGTH
+    );
+  }
+  return new Parser(query, tokenise(query)).parse();
+}
+
+/**
+ * Check a query for syntax errors without throwing.
+ *
+ * @param query - Query text
+ * @returns The parse error, or null when the query is valid
+ */
+export function validateSearchQuery(query: string): SearchQueryError | null {
+  try {
+    parseSearchQuery(query);
+    return null;
+  } catch (error) {
+    if (error instanceof SearchQueryError) return error;
+    throw error;
+  }
+}
+
+// ============================================================================
+// Matcher
+// ============================================================================
+
+/**
+ * Read every value at a field path, following resolved relationships and
+ * flattening arrays (so `genres` or `developers.title` yield each member).
+ */
+function readPathValues(card: Record<string, unknown>, fieldPath: string): unknown[] {
+  let current: unknown[] = [card];
+
+  for (const segment of (FIELD_ALIASES.get(fieldPath) ?? fieldPath).split(".")) {
+    if (BLOCKED_SEGMENTS.has(segment)) return [];
+
+    const next: unknown[] = [];
+    for (const item of current) {
+      if (item === null || typeof item !== "object") continue;
+      const obj = item as Record<string, unknown>;
+      const resolved = obj._resolved;
+
+      let value: unknown;
+      if (resolved && typeof resolved === "object" && Object.hasOwn(resolved, segment)) {
+        value = (resolved as Record<string, unknown>)[segment];
+      } else if (Object.hasOwn(obj, segment)) {
+        value = obj[segment];
+      } else {
+        continue;
+      }
+
+      if (Array.isArray(value)) next.push(...(value as unknown[]));
+      else next.push(value);
+    }
+    current = next;
+  }
+
+  return current.filter((value) => value !== null && value !== undefined && value !== "");
+}
+
+/**
+ * Text forms of one value for matching. Structured ratings match on their
+ * score; related entities on each of their scalar fields (title, short
+ * title, id, ...).
+ */
+function valueStrings(value: unknown): string[] {
+  if (typeof value === "string") return [value];
+  if (typeof value === "number" || typeof value === "boolean") return [String(value)];
+  if (isStructuredRating(value)) return [String(value.score)];
+  if (value && typeof value === "object") {
+    return Object.entries(value as Record<string, unknown>)
+      .filter(([key]) => !key.startsWith("_"))
+      .map(([, member]) => member)
+      .filter((member) => typeof member === "string" || typeof member === "number")
+      .map(String);
+  }
+  return [];
+}
+
+function compare(op: SearchComparison, left: number, right: number): boolean {
+  switch (op) {
+    case ">":
+      return left > right;
+    case ">=":
+      return left >= right;
+    case "<":
+      return left < right;
+    case "<=":
+      return left <= right;
+    default:
+      return false;
+  }
+}
+
+function matchesField(
+  card: Record<string, unknown>,
+  node: Extract<SearchQueryNode, { type: "field" }>
+): boolean {
+  const values = readPathValues(card, node.field);
+  const query = node.value.toLowerCase();
+
+  switch (node.op) {
+    case ":":
+      return values.some((value) =>
+        valueStrings(value).some((text) => text.toLowerCase().includes(query))
+      );
+    case "=":
+      return values.some((value) =>
+        valueStrings(value).some((text) => text.toLowerCase() === query)
+      );
+    case "!=":
+      return !values.some((value) =>
+        valueStrings(value).some((text) => text.toLowerCase() === query)
+      );
+    default: {
+      if (NUMBER_PATTERN.test(node.value)) {
+        const bound = Number(node.value);
+        return values.some((value) => {
+          const numeric = extractNumeric(value);
+          return numeric !== null && compare(node.op, numeric, bound);
+        });
+      }
+      const bound = Date.parse(node.value);
+      return values.some((value) => {
+        const time = extractDate(value);
+        return time !== null && compare(node.op, time, bound);
+      });
+    }
+  }
+}
+
+/**
+ * Free-term match across the search fields, as the search bar has always
+ * done: case-insensitive substring of the value's text (objects as JSON).
+ */
+function matchesText(
+  card: Record<string, unknown>,
+  term: string,
+  searchFields: readonly string[]
+): boolean {
+  const lowerTerm = term.toLowerCase();
+  return searchFields.some((field) => {
+    const value = resolveFieldPath(card, field);
+    if (value === null || value === undefined) return false;
+    const strValue =
+      typeof value === "object"
+        ? JSON.stringify(value)
+        : String(value as string | number | boolean);
+    return strValue.toLowerCase().includes(lowerTerm);
+  });
+}
+
+/**
+ * Whether any card has a field, directly or as a resolved relationship.
+ */
+function hasKnownField(cards: readonly unknown[], fieldPath: string): boolean {
+  const root = fieldPath.split(".")[0] ?? "";
+  if (FIELD_ALIASES.has(root)) return true;
+  return cards.some((card) => {
+    if (card === null || typeof card !== "object") return false;
+    const resolved = (card as Record<string, unknown>)._resolved;
+    return (
+      Object.hasOwn(card, root) ||
+      (resolved !== null && typeof resolved === "object" && Object.hasOwn(resolved, root))
+    );
+  });
+}
+
+/**
+ * Turn field terms on fields none of the cards have into free terms, so a
+ * colon inside a title (`Zelda:Ocarina`) searches for the text as typed.
+ *
+ * @param node - Parsed query (from parseSearchQuery)
+ * @param cards - Cards the query will be matched against
+ * @returns Query tree with unknown field terms as text terms
+ *
+ * @example
+ * withKnownFields(parseSearchQuery("Zelda:Ocarina"), cards)
+ * // Returns: { type: "text", value: "Zelda:Ocarina" }
+ */
+export function withKnownFields(node: SearchQueryNode, cards: readonly unknown[]): SearchQueryNode {
+  switch (node.type) {
+    case "and":
+    case "or":
+      return { ...node, children: node.children.map((child) => withKnownFields(child, cards)) };
+    case "not":
+      return { ...node, child: withKnownFields(node.child, cards) };
+    case "field":
+      return hasKnownField(cards, node.field)
+        ? node
+        : { type: "text", value: `${node.field}:${node.op === ":" ? "" : node.op}${node.value}` };
+    default:
+      return node;
+  }
+}
+
+/**
+ * Decide whether a card matches a parsed query.
+ *
+ * @param card - Card to test
+ * @param node - Parsed query (from parseSearchQuery)
+ * @param options - Search fields for free terms
+ * @returns Whether the card matches
+ */
+export function matchesSearchQuery(
+  card: Record<string, unknown>,
+  node: SearchQueryNode,
+  options: SearchQueryOptions
+): boolean {
+  switch (node.type) {
+    case "and":
+      return node.children.every((child) => matchesSearchQuery(card, child, options));
+    case "or":
+      return node.children.some((child) => matchesSearchQuery(card, child, options));
+    case "not":
+      return !matchesSearchQuery(card, node.child, options);
+    case "text":
+      return matchesText(card, node.value, options.searchFields);
+    case "field":
+      return matchesField(card, node);
+    case "has":
+      // Empty arrays are flattened away; a false flag counts as absent
+      return readPathValues(card, node.field).some((value) => value !== false);
+  }
+}
+
+/**
+ * Filter cards by a query string.
+ *
+ * An empty or invalid query leaves the cards unfiltered; use
+ * validateSearchQuery to report errors.
+ *
+ * @param cards - Cards to filter
+ * @param query - Query text
+ * @param options - Search fields for free terms
+ * @returns Matching cards
+ *
+ * @example
+ * filterCardsByQuery(cards, 'rating:>=4 -has:review', { searchFields: ["title"] })
+ */
+export function filterCardsByQuery<T>(
+  cards: readonly T[],
+  query: string,
+  options: SearchQueryOptions
+): T[] {
+  let node: SearchQueryNode | null;
+  try {
+    node = parseSearchQuery(query);
+  } catch (error) {
+    if (error instanceof SearchQueryError) return [...cards];
+    throw error;
+  }
+  if (!node) return [...cards];
+
+  const parsed = withKnownFields(node, cards);
+  return cards.filter((card) =>
+    matchesSearchQuery(card as unknown as Record<string, unknown>, parsed, options)
+  );
+}
@@ -9,10 +9,20 @@ import {
   settingsExportSchema,
   SETTINGS_EXPORT_VERSION,
   formatSettingsValidationError,
+  type AnnotationsExport,
   type SettingsExport,
   type ExportableSettings,
 } from "@/schemas/settingsExport.schema";
-import { useSettingsStore } from "@/stores/settingsStore";
+import {
+  useSettingsStore,
+  MAX_SAVED_VIEWS_PER_SOURCE,
+  type SavedView,
+} from "@/stores/settingsStore";
+import {
+  useAnnotationsStore,
+  MAX_TAGS_PER_SOURCE,
+  type SourceAnnotations,
+} from "@/stores/annotationsStore";
 
 export type ImportMode = "replace" | "merge";
 
@@ -78,13 +88,20 @@ function extractExportableSettings(
     // Field mapping
     fieldMapping: state.fieldMapping,
 
+    // Saved views
+    savedViews: state.savedViews,
+
+    // Drag-and-drop orders
+    customOrders: state.customOrders,
+
     // Edit mode
     editModeEnabled: state.editModeEnabled,
   };
 }
 
 /**
- * Export current settings to a downloadable JSON file.
+ * Export current settings, with personal tags and notes, to a downloadable
+ * JSON file.
  */
 export function exportSettingsToFile(): void {
   const state = useSettingsStore.getState();
@@ -93,6 +110,7 @@ export function exportSettingsToFile(): void {
     version: SETTINGS_EXPORT_VERSION,
     exportedAt: new Date().toISOString(),
     settings: extractExportableSettings(state),
+    annotations: useAnnotationsStore.getState().annotations,
   };
 
   const blob = new Blob([JSON.stringify(exportData, null, 2)], {
@@ -129,6 +147,8 @@ function migrateSettings(
 ): ExportableSettings {
   const migrated = { ...settings };
 
+  // v28 added customOrders (optional, nothing to fill in)
+  // v27 added savedViews (optional, nothing to fill in)
   // v26 added showViewButton
   if (fromVersion < 26) {
     migrated.showViewButton = migrated.showViewButton ?? true;
@@ -187,6 +207,95 @@ function migrateSettings(
   return migrated;
 }
 
+/**
+ * Merge imported saved views into the existing ones, per source.
+ *
+ * @param existing - Saved views currently in the store
+ * @param imported - Saved views from the import file
+ * @returns Merged views, capped at MAX_SAVED_VIEWS_PER_SOURCE per source
+ */
+function mergeSavedViews(
+  existing: Record<string, SavedView[]>,
+  imported: Record<string, SavedView[]>
+): Record<string, SavedView[]> {
+  const merged = { ...existing };
+
+  for (const [sourceId, views] of Object.entries(imported)) {
+    const current = Object.hasOwn(merged, sourceId) ? merged[sourceId] ?? [] : [];
+    const ids = new Set(current.map((view) => view.id));
+    merged[sourceId] = [
+      ...current,
+      ...views.filter((view) => !ids.has(view.id)),
+    ].slice(0, MAX_SAVED_VIEWS_PER_SOURCE);
+  }
+
+  return merged;
+}
+
+/**
+ * Merge imported annotations into the existing ones, per source. Tag
+ * definitions are combined (an existing tag keeps its colour); for a card
+ * annotated on both sides the more recently updated annotation wins.
+ *
+ * @param existing - Annotations currently in the store
+ * @param imported - Annotations from the import file
+ * @returns Merged annotations
+ */
+function mergeAnnotations(
+  existing: Record<string, SourceAnnotations>,
+  imported: AnnotationsExport
+): Record<string, SourceAnnotations> {
+  const merged = { ...existing };
+
+  for (const [sourceId, source] of Object.entries(imported)) {
+    const current = Object.hasOwn(merged, sourceId) ? merged[sourceId] : undefined;
+    if (!current) {
+      merged[sourceId] = source;
+      continue;
+    }
+
+    const names = new Set(current.tags.map((tag) => tag.name.toLowerCase()));
+    const tags = [
+      ...current.tags,
+      ...source.tags.filter((tag) => !names.has(tag.name.toLowerCase())),
+    ].slice(0, MAX_TAGS_PER_SOURCE);
+
+    const cards = { ...current.cards };
+    for (const [cardId, annotation] of Object.entries(source.cards)) {
+      const existingCard = Object.hasOwn(cards, cardId) ? cards[cardId] : undefined;
+      if (!existingCard || annotation.updatedAt > existingCard.updatedAt) {
+        cards[cardId] = annotation;
+      }
+    }
+
+    merged[sourceId] = { tags, cards };
+  }
+
+  return merged;
+}
+
+/**
+ * Apply imported annotations to the annotations store. A file without
+ * annotations (older backups) leaves them untouched, even when replacing.
+ *
+ * @param annotations - Annotations from the import file
+ * @param mode - Import mode: "replace" takes the imported set, "merge" combines them
+ * @returns Number of annotated cards imported
+ */
+function applyAnnotations(annotations: AnnotationsExport | undefined, mode: ImportMode): number {
+  if (annotations === undefined) return 0;
+
+  const store = useAnnotationsStore.getState();
+  store.setAnnotations(
+    mode === "replace" ? annotations : mergeAnnotations(store.annotations, annotations)
+  );
+
+  return Object.values(annotations).reduce(
+    (sum, source) => sum + Object.keys(source.cards).length,
+    0
+  );
+}
+
 /**
  * Apply settings to the store.
  *
@@ -284,6 +393,28 @@ function applySettings(settings: ExportableSettings, mode: ImportMode): void {
     store.setFieldMapping(settings.fieldMapping);
   }
 
+  // Saved views: replace takes the imported set; merge adds imported views
+  // whose IDs are new, keeping the existing view on a clash
+  if (settings.savedViews !== undefined) {
+    store.setSavedViews(
+      mode === "replace"
+        ? settings.savedViews
+        : mergeSavedViews(store.savedViews, settings.savedViews)
+    );
+  }
+
+  // Custom orders: replace takes the imported set; merge takes the imported
+  // order for each source it covers, since an order only makes sense whole
+  if (settings.customOrders !== undefined) {
+    if (mode === "replace") {
+      store.setCustomOrders(settings.customOrders);
+    } else {
+      for (const [sourceId, order] of Object.entries(settings.customOrders)) {
+        store.setCustomOrder(sourceId, order);
+      }
+    }
+  }
+
   // Handle theme customisations per theme
   if (settings.themeCustomisations !== undefined) {
     for (const theme of Object.keys(
@@ -333,6 +464,23 @@ function countSettings(settings: ExportableSettings): number {
       ) {
         // Count each field mapping separately
         count += Object.keys(value as object).length;
+      } else if (
+        key === "savedViews" &&
+        typeof value === "object" &&
+        !Array.isArray(value)
+      ) {
+        // Count each saved view separately
+        count += Object.values(value as Record<string, unknown[]>).reduce(
+          (sum, views) => sum + views.length,
+          0
+        );
+      } else if (
+        key === "customOrders" &&
+        typeof value === "object" &&
+        !Array.isArray(value)
+      ) {
+        // Count each source's order separately
+        count += Object.keys(value as object).length;
       } else {
         count += 1;
       }
@@ -347,13 +495,13 @@ function countSettings(settings: ExportableSettings): number {
  *
  * @param file - The JSON file to import
  * @param mode - Import mode: "replace" resets to defaults first, "merge" only updates provided values
- * @returns Import result with settings count and version
+ * @returns Import result with settings count, annotated card count and version
  * @throws Error if file is invalid JSON or fails validation
  */
 export async function importSettingsFromFile(
   file: File,
   mode: ImportMode
-): Promise<{ settingsCount: number; version: number }> {
+): Promise<{ settingsCount: number; annotationsCount: number; version: number }> {
   const text = await file.text();
 
   let parsed: unknown;
@@ -370,13 +518,15 @@ export async function importSettingsFromFile(
     );
   }
 
-  const { version, settings } = result.data;
+  const { version, settings, annotations } = result.data;
   const migratedSettings = migrateSettings(settings, version);
 
   applySettings(migratedSettings, mode);
+  const annotationsCount = applyAnnotations(annotations, mode);
 
   return {
     settingsCount: countSettings(migratedSettings),
+    annotationsCount,
     version,
   };
 }
@@ -393,4 +543,7 @@ export const _testExports = {
   migrateSettings,
   applySettings,
   countSettings,
+  mergeSavedViews,
+  mergeAnnotations,
+  applyAnnotations,
 };
@@ -1,19 +1,26 @@
 /**
  * Fisher-Yates shuffle algorithm.
  *
- * Provides O(n) unbiased randomisation of arrays.
+ * Provides O(n) unbiased randomisation of arrays. Every shuffle accepts a
+ * random source so seeded games can reproduce the same order.
  */
 
+/**
+ * Source of random numbers in [0, 1), like Math.random.
+ */
+export type RandomSource = () => number;
+
 /**
  * Shuffles an array in place using Fisher-Yates algorithm.
  *
  * @param array - Array to shuffle
+ * @param random - Random source (defaults to Math.random)
  * @returns The same array, shuffled
  */
-export function shuffleInPlace<T>(array: T[]): T[] {
+export function shuffleInPlace<T>(array: T[], random: RandomSource = Math.random): T[] {
   if (array.length === 0) return array;
   for (let i = array.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     const temp = array[i];
     array[i] = array[j] as T;
     array[j] = temp as T;
@@ -25,22 +32,30 @@ export function shuffleInPlace<T>(array: T[]): T[] {
  * Returns a new shuffled copy of an array.
  *
  * @param array - Array to shuffle
+ * @param random - Random source (defaults to Math.random)
  * @returns A new shuffled array
  */
-export function shuffle<T>(array: readonly T[]): T[] {
-  return shuffleInPlace([...array]);
+export function shuffle<T>(array: readonly T[], random: RandomSource = Math.random): T[] {
+  return shuffleInPlace([...array], random);
 }
 
 /**
- * Seeded random number generator for reproducible shuffles.
+ * Seeded random number generator for reproducible shuffles (mulberry32).
+ *
+ * Uses 32-bit integer arithmetic throughout, so a seed produces the same
+ * sequence in every browser.
  *
  * @param seed - Seed for the random number generator
- * @returns A function that returns random numbers between 0 and 1
+ * @returns A function that returns random numbers in [0, 1)
  */
-export function seededRandom(seed: number): () => number {
+export function seededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
   return () => {
-    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
-    return seed / 0x7fffffff;
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
   };
 }
 
@@ -54,16 +69,5 @@ export function seededRandom(seed: number): () => number {
  * @returns A new shuffled array
  */
 export function shuffleWithSeed<T>(array: readonly T[], seed: number): T[] {
-  if (array.length === 0) return [];
-  const random = seededRandom(seed);
-  const result = [...array];
-
-  for (let i = result.length - 1; i > 0; i--) {
-    const j = Math.floor(random() * (i + 1));
-    const temp = result[i];
-    result[i] = result[j] as T;
-    result[j] = temp as T;
-  }
-
-  return result;
+  return shuffle(array, seededRandom(seed));
 }
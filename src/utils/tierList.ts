@@ -0,0 +1,297 @@
+/**
+ * Tier list utilities.
+ *
+ * A tier list is an ordered set of rows (S, A, B, ... by default), each
+ * with a label, a colour and the IDs of the cards placed in it. Cards in no
+ * row are unplaced. Tier lists can be shared as a compact link parameter:
+ * the rows as a JSON array, base64url-encoded.
+ */
+
+import { getBasePath } from "@/config/basePath";
+
+/**
+ * Meta field holding a card's tier label on display cards.
+ */
+export const TIER_FIELD = "_tier";
+
+/**
+ * URL parameter carrying a shared tier list.
+ */
+export const TIER_LIST_PARAM = "tiers";
+
+/** Most rows a tier list can have */
+export const MAX_TIER_ROWS = 10;
+
+/** Maximum length of a tier label */
+export const MAX_TIER_LABEL_LENGTH = 24;
+
+/** Longest tier list parameter accepted from a link */
+export const MAX_TIER_LIST_PARAM_LENGTH = 8000;
+
+/** Longest card ID accepted from a link */
+const MAX_CARD_ID_LENGTH = 200;
+
+/** Payload format version */
+const PAYLOAD_VERSION = 1;
+
+/**
+ * A tier list row.
+ */
+export interface TierRow {
+  /** Row label, e.g. "S" */
+  label: string;
+  /** Row colour (hex) */
+  colour: string;
+  /** IDs of the cards in the row, in order */
+  cardIds: string[];
+}
+
+/**
+ * Colours for tier rows, from best to worst; new rows cycle through them.
+ */
+export const TIER_COLOURS: readonly string[] = [
+  "#ff7f7f",
+  "#ffbf7f",
+  "#ffdf7f",
+  "#ffff7f",
+  "#bfff7f",
+  "#7fff7f",
+  "#7fffff",
+  "#7fbfff",
+  "#bf7fff",
+  "#ff7fbf",
+];
+
+/**
+ * Default row labels.
+ */
+const DEFAULT_TIER_LABELS = ["S", "A", "B", "C", "D"];
+
+/**
+ * Fresh default rows: S, A, B, C and D, all empty.
+ *
+ * @returns Default tier rows
+ *
+ * @example
+ * ```ts
+ * createDefaultTierRows().map((row) => row.label); // ["S", "A", "B", "C", "D"]
+ * ```
+ */
+export function createDefaultTierRows(): TierRow[] {
+  return DEFAULT_TIER_LABELS.map((label, index) => ({
+    label,
+    colour: TIER_COLOURS[index] ?? "#cccccc",
+    cardIds: [],
+  }));
+}
+
+/**
+ * Label shown for a row, falling back to its position when blank.
+ *
+ * @param row - Tier row
+ * @param index - Row position (0 = top)
+ * @returns Trimmed label, or "Tier N"
+ *
+ * @example
+ * ```ts
+ * getTierLabel({ label: " ", colour: "#fff", cardIds: [] }, 2); // "Tier 3"
+ * ```
+ */
+export function getTierLabel(row: TierRow, index: number): string {
+  return row.label.trim() || `Tier ${String(index + 1)}`;
+}
+
+/**
+ * Move a card into a row, or out of every row.
+ *
+ * @param rows - Current rows
+ * @param cardId - Card to move
+ * @param rowIndex - Destination row, or null to unplace the card
+ * @param index - Position in the destination row (defaults to the end)
+ * @returns New rows (the input is not modified)
+ *
+ * @example
+ * ```ts
+ * const rows = placeCard(createDefaultTierRows(), "tetris", 0); // S: tetris
+ * ```
+ */
+export function placeCard(
+  rows: readonly TierRow[],
+  cardId: string,
+  rowIndex: number | null,
+  index?: number
+): TierRow[] {
+  return rows.map((row, i) => {
+    const cardIds = row.cardIds.filter((id) => id !== cardId);
+    if (i !== rowIndex) {
+      return cardIds.length === row.cardIds.length ? row : { ...row, cardIds };
+    }
+    const position = index === undefined ? cardIds.length : Math.min(Math.max(index, 0), cardIds.length);
+    cardIds.splice(position, 0, cardId);
+    return { ...row, cardIds };
+  });
+}
+
+/**
+ * Tier label of every placed card.
+ *
+ * @param rows - Tier rows
+ * @returns Labels by card ID (a card listed twice keeps its higher row)
+ *
+ * @example
+ * ```ts
+ * getCardTiers(rows).get("tetris"); // "S"
+ * ```
+ */
+export function getCardTiers(rows: readonly TierRow[]): Map<string, string> {
+  const tiers = new Map<string, string>();
+  rows.forEach((row, index) => {
+    const label = getTierLabel(row, index);
+    for (const cardId of row.cardIds) {
+      if (!tiers.has(cardId)) tiers.set(cardId, label);
+    }
+  });
+  return tiers;
+}
+
+/**
+ * Base64url-encode text as UTF-8.
+ */
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/**
+ * Decode base64url text as UTF-8 (throws on malformed input).
+ */
+function fromBase64Url(value: string): string {
+  const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+}
+
+/**
+ * Encode a tier list as a compact link parameter.
+ *
+ * @param rows - Tier rows
+ * @returns Base64url payload of `[version, [[label, colour, cardIds], ...]]`
+ *
+ * @example
+ * ```ts
+ * const payload = encodeTierList(rows);
+ * ```
+ */
+export function encodeTierList(rows: readonly TierRow[]): string {
+  const payload = [
+    PAYLOAD_VERSION,
+    rows.map((row) => [row.label, row.colour.replace(/^#/, ""), row.cardIds]),
+  ];
+  return toBase64Url(JSON.stringify(payload));
+}
+
+/**
+ * Read a single row from an untrusted payload.
+ */
+function parseRow(value: unknown, seen: Set<string>): TierRow | null {
+  if (!Array.isArray(value) || value.length !== 3) return null;
+  const [label, colour, cardIds] = value as unknown[];
+  if (typeof label !== "string" || label.length > MAX_TIER_LABEL_LENGTH) return null;
+  if (typeof colour !== "string" || !/^[0-9a-f]{6}$/i.test(colour)) return null;
+  if (!Array.isArray(cardIds)) return null;
+
+  const ids: string[] = [];
+  for (const id of cardIds as unknown[]) {
+    if (typeof id !== "string" || id === "" || id.length > MAX_CARD_ID_LENGTH) return null;
+    // A card belongs to one row; later duplicates are dropped
+    if (seen.has(id)) continue;
+    seen.add(id);
+    ids.push(id);
+  }
+
+  return { label, colour: `#${colour.toLowerCase()}`, cardIds: ids };
+}
+
+/**
+ * Decode a tier list from an untrusted link parameter.
+ *
+ * @param payload - Value of the tier list parameter
+ * @returns The rows, or null when the payload is malformed
+ *
+ * @example
+ * ```ts
+ * decodeTierList(encodeTierList(rows)); // rows
+ * decodeTierList("not-a-tier-list");    // null
+ * ```
+ */
+export function decodeTierList(payload: string): TierRow[] | null {
+  if (payload.length === 0 || payload.length > MAX_TIER_LIST_PARAM_LENGTH) return null;
+  if (!/^[A-Za-z0-9_-]+$/.test(payload)) return null;
+
+  let value: unknown;
+  try {
+    value = JSON.parse(fromBase64Url(payload));
+  } catch {
+    return null;
+  }
+
+  if (!Array.isArray(value) || value.length !== 2 || value[0] !== PAYLOAD_VERSION) return null;
+  const rowValues: unknown = value[1];
+  if (!Array.isArray(rowValues) || rowValues.length === 0 || rowValues.length > MAX_TIER_ROWS) {
+    return null;
+  }
+
+  const seen = new Set<string>();
+  const rows: TierRow[] = [];
+  for (const rowValue of rowValues as unknown[]) {
+    const row = parseRow(rowValue, seen);
+    if (!row) return null;
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Build a shareable link for a tier list.
+ *
+ * @param rows - Tier rows
+ * @param collectionUrl - Collection source URL
+ * @param origin - Origin of the link (defaults to the current origin)
+ * @returns Absolute URL, or null when the tier list is too long for a link
+ *
+ * @example
+ * ```ts
+ * buildTierListUrl(rows, sourceUrl);
+ * ```
+ */
+export function buildTierListUrl(
+  rows: readonly TierRow[],
+  collectionUrl: string,
+  origin: string = window.location.origin
+): string | null {
+  const payload = encodeTierList(rows);
+  if (payload.length > MAX_TIER_LIST_PARAM_LENGTH) return null;
+
+  const params = new URLSearchParams();
+  params.set("collection", collectionUrl);
+  params.set(TIER_LIST_PARAM, payload);
+  return `${origin}${getBasePath()}?${params.toString()}`;
+}
+
+/**
+ * Read a shared tier list from link parameters.
+ *
+ * @param searchParams - URL search parameters
+ * @returns The rows, or null when the link has none or it is malformed
+ *
+ * @example
+ * ```ts
+ * const rows = parseTierListParams(new URLSearchParams(window.location.search));
+ * ```
+ */
+export function parseTierListParams(searchParams: URLSearchParams): TierRow[] | null {
+  const payload = searchParams.get(TIER_LIST_PARAM);
+  return payload === null ? null : decodeTierList(payload);
+}
@@ -0,0 +1,83 @@
+/**
+ * Tests for BatchActionBar.
+ *
+ * The bar acts on the selected cards that are still in the collection,
+ * offers the active mechanic's batch actions, and gates editing actions
+ * behind edit mode.
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { BatchActionBar } from "@/components/BatchActionBar";
+import { useSelectionStore } from "@/stores/selectionStore";
+import { useSettingsStore } from "@/stores/settingsStore";
+import { useEditsStore } from "@/stores/editsStore";
+import type { DisplayCard } from "@/hooks/useCollection";
+
+const mockMechanic = vi.hoisted(() => ({
+  value: null as { getBatchActions: () => { id: string; label: string; run: (ids: string[]) => void }[] } | null,
+}));
+
+const cards = [
+  { id: "a", title: "Alpha" },
+  { id: "b", title: "Beta" },
+  { id: "c", title: "Gamma" },
+] as DisplayCard[];
+
+vi.mock("@/context/CollectionDataContext", () => ({
+  useCollectionData: () => ({ cards, definition: undefined }),
+}));
+
+vi.mock("@/mechanics", () => ({
+  useMechanicContext: () => ({ mechanic: mockMechanic.value }),
+}));
+
+describe("BatchActionBar", () => {
+  beforeEach(() => {
+    mockMechanic.value = null;
+    useSelectionStore.setState({ isSelecting: true, selectedIds: ["a", "gone"], anchorId: null });
+    useSettingsStore.setState({ editModeEnabled: false });
+    useEditsStore.setState({ edits: {}, history: [], future: [] });
+  });
+
+  it("renders nothing outside selection mode", () => {
+    useSelectionStore.setState({ isSelecting: false, selectedIds: [] });
+    const { container } = render(<BatchActionBar matchingCards={cards} />);
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it("counts only selected cards still in the collection", () => {
+    render(<BatchActionBar matchingCards={cards} />);
+    expect(screen.getByText("1 selected")).toBeInTheDocument();
+  });
+
+  it("selects all cards matching the filter", () => {
+    render(<BatchActionBar matchingCards={cards.slice(1)} />);
+    fireEvent.click(screen.getByRole("button", { name: "Select All Matching (2)" }));
+
+    expect(useSelectionStore.getState().selectedIds).toEqual(["a", "gone", "b", "c"]);
+    expect(screen.getByRole("button", { name: "Select All Matching (2)" })).toBeDisabled();
+  });
+
+  it("runs the mechanic's batch actions on the selection", () => {
+    const run = vi.fn();
+    mockMechanic.value = { getBatchActions: () => [{ id: "owned", label: "Mark Owned", run }] };
+    render(<BatchActionBar matchingCards={cards} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Mark Owned" }));
+    expect(run).toHaveBeenCalledWith(["a"]);
+  });
+
+  it("removes the selection from the deck in edit mode", () => {
+    const { unmount } = render(<BatchActionBar matchingCards={cards} />);
+    expect(screen.queryByRole("button", { name: "Remove from Deck" })).not.toBeInTheDocument();
+    unmount();
+
+    useSettingsStore.setState({ editModeEnabled: true });
+    render(<BatchActionBar matchingCards={cards} />);
+    fireEvent.click(screen.getByRole("button", { name: "Remove from Deck" }));
+
+    expect(useEditsStore.getState().getDeletedEntityIds()).toEqual(["a"]);
+    expect(useSelectionStore.getState().isSelecting).toBe(false);
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Tests for the personal tags and notes section of the expanded card.
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { render, screen, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { CardAnnotations } from "@/components/CardAnnotations";
+import { TagChips } from "@/components/TagChips";
+import { getSourceAnnotations, useAnnotationsStore } from "@/stores/annotationsStore";
+
+const SOURCE = "https://example.com/collections/games";
+
+vi.mock("@/stores/sourceStore", () => ({
+  useActiveSourceUrl: () => SOURCE,
+}));
+
+function cardAnnotation(cardId: string) {
+  return getSourceAnnotations(useAnnotationsStore.getState().annotations, SOURCE).cards[cardId];
+}
+
+describe("CardAnnotations", () => {
+  beforeEach(() => {
+    useAnnotationsStore.setState({ annotations: {} });
+  });
+
+  it("adds and removes tags", async () => {
+    const user = userEvent.setup();
+    render(<CardAnnotations cardId="a" />);
+
+    await user.type(screen.getByRole("combobox", { name: "Add tag" }), "Favourite{Enter}");
+    expect(cardAnnotation("a")?.tags).toEqual(["Favourite"]);
+    expect(within(screen.getByRole("list", { name: "Tags" })).getByText("Favourite")).toBeInTheDocument();
+    expect(screen.getByLabelText("Colour for Favourite")).toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: "Remove tag Favourite" }));
+    expect(cardAnnotation("a")).toBeUndefined();
+  });
+
+  it("edits a note and renders its markdown safely", async () => {
+    const user = userEvent.setup();
+    render(<CardAnnotations cardId="a" />);
+
+    await user.click(screen.getByRole("button", { name: "Add Note" }));
+    await user.type(
+      screen.getByRole("textbox", { name: "Note" }),
+      "**Mint** [[shop](https://example.com) <img src=x>"
+    );
+    await user.click(screen.getByRole("button", { name: "Save Note" }));
+
+    expect(screen.getByText("Mint").tagName).toBe("STRONG");
+    expect(screen.getByRole("link", { name: "shop" })).toHaveAttribute("href", "https://example.com");
+    expect(screen.getByText(/<img src=x>/)).toBeInTheDocument();
+    expect(document.querySelector("img")).toBeNull();
+    expect(screen.getByRole("button", { name: "Edit Note" })).toBeInTheDocument();
+  });
+});
+
+describe("TagChips", () => {
+  beforeEach(() => {
+    useAnnotationsStore.setState({ annotations: {} });
+  });
+
+  it("colours chips from the source's tags", () => {
+    useAnnotationsStore.getState().addCardTag(SOURCE, "a", "Favourite");
+    useAnnotationsStore.getState().setTagColour(SOURCE, "Favourite", "#ffffff");
+    render(<TagChips tags={["Favourite", "Unknown"]} />);
+
+    expect(screen.getByText("Favourite")).toHaveStyle({
+      backgroundColor: "#ffffff",
+      color: "#000000",
+    });
+    expect(screen.getByText("Unknown")).toHaveStyle({ backgroundColor: "#64748b" });
+  });
+
+  it("renders nothing without tags", () => {
+    const { container } = render(<TagChips tags={[]} />);
+    expect(container).toBeEmptyDOMElement();
+  });
+});
@@ -1,10 +1,12 @@
 /**
- * Tests for EditForm: untrusted `myVerdict` values.
+ * Tests for EditForm.
  *
  * Entity schemas are `.loose()`, so a collection can ship a non-string
  * `myVerdict`. The form must coerce it the same way the collection display
  * layer does, otherwise the value fails local validation on Save and the
  * modal appears dead.
+ *
+ * With a collection schema, the form is generated from its field definitions.
  */
 
 import { describe, it, expect, beforeEach, vi } from "vitest";
@@ -12,6 +14,74 @@ import { render, screen, fireEvent } from "@testing-library/react";
 import { EditForm } from "@/components/EditForm/EditForm";
 import { useEditsStore } from "@/stores/editsStore";
 import type { DisplayCard } from "@/hooks/useCollection";
+import type { CollectionDefinition, Entity } from "@/types/schema";
+
+const mockCollectionData = vi.hoisted(() => ({
+  value: {} as Record<string, unknown>,
+}));
+
+vi.mock("@/context/CollectionDataContext", () => ({
+  useCollectionData: () => mockCollectionData.value,
+}));
+
+/** Collection data without a schema (e.g. served from the offline cache). */
+function withoutSchema(): void {
+  mockCollectionData.value = {
+    cards: [],
+    definition: undefined,
+    primaryType: undefined,
+    entities: undefined,
+    computedFields: [],
+    isLoading: false,
+    error: null,
+  };
+}
+
+const definition: CollectionDefinition = {
+  id: "games",
+  name: "Games",
+  entityTypes: {
+    game: {
+      primary: true,
+      fields: {
+        id: { type: "string" },
+        title: { type: "string", required: true },
+        status: { type: "enum", enum: ["backlog", "playing", "finished"] },
+        year: { type: "number" },
+        platform: { type: "string" },
+        genres: { type: "array", items: { type: "string" } },
+        rating: { type: "rating" },
+      },
+    },
+    platform: {
+      fields: { id: { type: "string" }, title: { type: "string", required: true } },
+    },
+  },
+  relationships: {
+    "game.platform": { target: "platform", cardinality: "many-to-one" },
+  },
+};
+
+/** Collection data with a schema and its source entities. */
+function withSchema(): void {
+  mockCollectionData.value = {
+    cards: [],
+    definition,
+    primaryType: "game",
+    entities: {
+      game: [
+        { id: "card-1", title: "Test Card", status: "playing", year: 1991, platform: "snes", genres: ["RPG"] },
+      ] as Entity[],
+      platform: [
+        { id: "snes", title: "Super Nintendo" },
+        { id: "md", title: "Mega Drive" },
+      ] as Entity[],
+    },
+    computedFields: [],
+    isLoading: false,
+    error: null,
+  };
+}
 
 function makeCard(overrides: Partial<DisplayCard> = {}): DisplayCard {
   return {
@@ -32,6 +102,7 @@ function getVerdictField(): HTMLTextAreaElement {
 describe("EditForm untrusted myVerdict", () => {
   beforeEach(() => {
     useEditsStore.setState({ edits: {} });
+    withoutSchema();
   });
 
   it("saves and closes when the source myVerdict is an object", () => {
@@ -85,3 +156,78 @@ describe("EditForm untrusted myVerdict", () => {
     expect(screen.getByText("Title is required")).toBeInTheDocument();
   });
 });
+
+describe("EditForm schema fields", () => {
+  const card = makeCard({ categoryInfo: { id: "snes", title: "Super Nintendo" } });
+
+  beforeEach(() => {
+    useEditsStore.setState({ edits: {} });
+    withSchema();
+  });
+
+  it("renders an input per schema field type", () => {
+    render(<EditForm card={card} onClose={vi.fn()} />);
+
+    expect((screen.getByLabelText("Status") as HTMLSelectElement).value).toBe("playing");
+    expect((screen.getByLabelText("Year") as HTMLInputElement).type).toBe("number");
+    expect(screen.getByRole("button", { name: "Remove RPG" })).toBeInTheDocument();
+  });
+
+  it("offers the target entities in reference pickers", () => {
+    const onClose = vi.fn();
+    render(<EditForm card={card} onClose={onClose} />);
+
+    const platform = screen.getByLabelText("Platform") as HTMLSelectElement;
+    expect(platform.value).toBe("snes");
+    expect(screen.getByRole("option", { name: "Mega Drive" })).toBeInTheDocument();
+
+    fireEvent.change(platform, { target: { value: "md" } });
+    fireEvent.click(screen.getByText("Save Changes"));
+
+    expect(onClose).toHaveBeenCalled();
+    expect(useEditsStore.getState().edits["card-1"]?.fields).toEqual({ platform: "md" });
+  });
+
+  it("saves only changed fields with their schema types", () => {
+    render(<EditForm card={card} onClose={vi.fn()} />);
+
+    fireEvent.change(screen.getByLabelText("Year"), { target: { value: "1992" } });
+    fireEvent.click(screen.getByRole("button", { name: "Remove RPG" }));
+    fireEvent.click(screen.getByText("Save Changes"));
+
+    expect(useEditsStore.getState().edits["card-1"]?.fields).toEqual({ year: 1992, genres: null });
+  });
+
+  it("reverts a field changed back to its source value", () => {
+    useEditsStore.setState({
+      edits: { "card-1": { fields: { year: 2000, status: "finished" }, editedAt: 1 } },
+    });
+    render(<EditForm card={card} onClose={vi.fn()} />);
+
+    fireEvent.change(screen.getByLabelText("Year"), { target: { value: "1991" } });
+    fireEvent.click(screen.getByText("Save Changes"));
+
+    expect(useEditsStore.getState().edits["card-1"]?.fields).toEqual({ status: "finished" });
+  });
+
+  it("shows a validation error for an out-of-range rating", () => {
+    const onClose = vi.fn();
+    render(<EditForm card={card} onClose={onClose} />);
+
+    fireEvent.change(screen.getByLabelText("Rating"), { target: { value: "9" } });
+    fireEvent.click(screen.getByText("Save Changes"));
+
+    expect(onClose).not.toHaveBeenCalled();
+    expect(screen.getByText("Rating must be between 0 and 5")).toBeInTheDocument();
+  });
+
+  it("edits the context entity with its own schema fields", () => {
+    render(<EditForm card={card} onClose={vi.fn()} />);
+
+    fireEvent.click(screen.getByRole("tab", { name: /Context/ }));
+    fireEvent.change(screen.getByLabelText(/Title/), { target: { value: "SNES" } });
+    fireEvent.click(screen.getByText("Save Changes"));
+
+    expect(useEditsStore.getState().edits["context:snes"]?.fields).toEqual({ title: "SNES" });
+  });
+});
@@ -5,20 +5,25 @@
  * field-name branch previously made the Platform row show the genre count.
  */
 
-import { describe, it, expect } from "vitest";
-import { render, screen } from "@testing-library/react";
+import { describe, it, expect, beforeEach } from "vitest";
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
 import { FilterChips } from "@/components/SearchBar/FilterChips";
+import { useSettingsStore } from "@/stores/settingsStore";
 
 describe("FilterChips add-filter dropdown", () => {
+  beforeEach(() => {
+    useSettingsStore.getState().clearAllFilters();
+  });
+
   it("shows each filter's own option count, not another field's", async () => {
     render(
       <FilterChips
-        filterOptions={{
-          platforms: ["Switch"],
-          years: [1994],
-          genres: ["RPG", "Action", "Puzzle"],
-        }}
+        filterFields={[
+          { field: "categoryShort", label: "Platform", kind: "value", options: ["Switch"] },
+          { field: "year", label: "Year", kind: "value", options: ["1994"] },
+          { field: "genres", label: "Genre", kind: "array", options: ["RPG", "Action", "Puzzle"] },
+        ]}
       />
     );
 
@@ -33,4 +38,82 @@ describe("FilterChips add-filter dropdown", () => {
     const genreRow = screen.getByRole("button", { name: /Genre/ });
     expect(genreRow.textContent).toBe("Genre3");
   });
+
+  it("labels active chips from the field definitions and formats booleans", () => {
+    useSettingsStore.getState().setFilter("completed", ["true"]);
+
+    render(
+      <FilterChips
+        filterFields={[
+          { field: "completed", label: "Completed", kind: "boolean", options: ["true", "false"] },
+        ]}
+      />
+    );
+
+    const chip = screen.getByRole("button", { name: "Edit Completed filter" });
+    expect(chip.textContent).toBe("Completed:Yes");
+  });
+
+  it("reopens a chip's values for editing when the chip is clicked", async () => {
+    useSettingsStore.getState().setFilter("genres", ["RPG"]);
+
+    render(
+      <FilterChips
+        filterFields={[
+          { field: "genres", label: "Genre", kind: "array", options: ["RPG", "Action"] },
+        ]}
+      />
+    );
+
+    await userEvent.click(screen.getByRole("button", { name: "Edit Genre filter" }));
+    await userEvent.click(screen.getByRole("checkbox", { name: "Action" }));
+
+    expect(useSettingsStore.getState().activeFilters).toEqual([
+      { field: "genres", values: ["RPG", "Action"] },
+    ]);
+  });
+
+  it("removes a chip's filter", async () => {
+    useSettingsStore.getState().setFilter("genres", ["RPG"]);
+
+    render(<FilterChips filterFields={[]} />);
+
+    await userEvent.click(screen.getByRole("button", { name: "Remove genres filter" }));
+
+    expect(useSettingsStore.getState().activeFilters).toEqual([]);
+  });
+
+  it("shows a range chip and applies slider changes as a range filter", async () => {
+    useSettingsStore.getState().setRangeFilter("year", { type: "number", min: 1985, max: 1992 });
+
+    render(
+      <FilterChips
+        filterFields={[
+          {
+            field: "year",
+            label: "Year",
+            kind: "number",
+            options: [],
+            range: { type: "number", min: 1980, max: 2000, histogram: [1, 2, 3] },
+          },
+        ]}
+      />
+    );
+
+    const chip = screen.getByRole("button", { name: "Edit Year filter" });
+    expect(chip.textContent).toBe("Year:1985–1992");
+
+    await userEvent.click(chip);
+    fireEvent.change(screen.getByRole("slider", { name: "Maximum Year" }), {
+      target: { value: "2000" },
+    });
+
+    // Dragging the handle to the end of the track opens that side
+    await waitFor(() => {
+      expect(useSettingsStore.getState().activeFilters).toEqual([
+        { field: "year", values: [], range: { type: "number", min: 1985, max: undefined } },
+      ]);
+    });
+    expect(chip.textContent).toBe("Year:≥ 1985");
+  });
 });
@@ -31,6 +31,10 @@ vi.mock("@/context/CollectionDataContext", () => ({
   useCollectionData: () => ({ cards: [] }),
 }));
 
+vi.mock("@/hooks/useFilterFields", () => ({
+  useFilterFields: () => [],
+}));
+
 beforeEach(() => {
   loadAllMock.mockReset();
   loadAllMock.mockResolvedValue([]);
@@ -0,0 +1,52 @@
+/**
+ * Tests for the saved views list in the sidebar.
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { SavedViews } from "@/components/Sidebar/SavedViews";
+import { useSettingsStore } from "@/stores/settingsStore";
+
+const SOURCE = "https://example.com/collections/games";
+
+describe("SavedViews", () => {
+  beforeEach(() => {
+    useSettingsStore.getState().resetToDefaults();
+  });
+
+  it("saves the current view under a name", async () => {
+    useSettingsStore.getState().setSearchQuery("genres:RPG");
+    render(<SavedViews sourceId={SOURCE} />);
+
+    await userEvent.type(screen.getByRole("textbox", { name: "Saved view name" }), "RPGs");
+    await userEvent.click(screen.getByRole("button", { name: "Save" }));
+
+    expect(screen.getByRole("button", { name: /^RPGs/ }).textContent).toContain(
+      '"genres:RPG"'
+    );
+    expect(screen.getByText("Alt+1")).toBeTruthy();
+  });
+
+  it("applies a view and reports it", async () => {
+    useSettingsStore.getState().setGroupByField("platform");
+    useSettingsStore.getState().saveView(SOURCE, "By platform");
+    useSettingsStore.getState().setGroupByField(null);
+    const onApply = vi.fn();
+    render(<SavedViews sourceId={SOURCE} onApply={onApply} />);
+
+    await userEvent.click(screen.getByRole("button", { name: /^By platform/ }));
+
+    expect(useSettingsStore.getState().groupByField).toBe("platform");
+    expect(onApply).toHaveBeenCalledTimes(1);
+  });
+
+  it("deletes a view", async () => {
+    useSettingsStore.getState().saveView(SOURCE, "Shooters");
+    render(<SavedViews sourceId={SOURCE} />);
+
+    await userEvent.click(screen.getByRole("button", { name: "Delete Shooters view" }));
+
+    expect(screen.queryByRole("button", { name: /^Shooters/ })).toBeNull();
+  });
+});
@@ -0,0 +1,32 @@
+/**
+ * Tests for inline query errors in the search bar.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { SearchBar } from "@/components/SearchBar/SearchBar";
+import { useSettingsStore } from "@/stores/settingsStore";
+
+describe("SearchBar query errors", () => {
+  beforeEach(() => {
+    useSettingsStore.setState({ searchBarMinimised: false, searchQuery: "" });
+  });
+
+  it("reports a syntax error inline as the user types", async () => {
+    render(<SearchBar totalCards={3} filteredCount={3} />);
+    const input = screen.getByRole("textbox", { name: "Search cards" });
+
+    await userEvent.type(input, "year:>=");
+
+    expect(screen.getByRole("status").textContent).toBe(
+      'Missing value for "year:" (at character 8)'
+    );
+    expect(input.getAttribute("aria-invalid")).toBe("true");
+
+    await userEvent.type(input, "1990");
+
+    expect(screen.queryByRole("status")).toBeNull();
+    expect(input.getAttribute("aria-invalid")).toBe("false");
+  });
+});
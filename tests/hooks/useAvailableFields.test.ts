@@ -11,7 +11,10 @@ import { describe, it, expect, vi } from "vitest";
 import { renderHook } from "@testing-library/react";
 import type { DisplayCard } from "@/types/card";
 
-const collectionDataState: { cards: DisplayCard[] } = { cards: [] };
+const collectionDataState: { cards: DisplayCard[]; computedFields: string[] } = {
+  cards: [],
+  computedFields: [],
+};
 
 vi.mock("@/context/CollectionDataContext", () => ({
   useCollectionData: () => collectionDataState,
@@ -49,4 +52,26 @@ describe("useAvailableFields", () => {
     expect(values).toContain("year");
     expect(values).toContain("categoryShort");
   });
+
+  it("offers computed fields for sorting, grouping and badges", () => {
+    collectionDataState.cards = [
+      { id: "a", title: "A", year: 1994, ageBracket: "30s" },
+    ] as unknown as DisplayCard[];
+    collectionDataState.computedFields = ["ageBracket", "releaseAge"];
+
+    const { result } = renderHook(() => useAvailableFields());
+
+    const sortValues = result.current.sortFields.map((f) => f.value);
+    expect(sortValues).toContain("ageBracket");
+    expect(sortValues).toContain("releaseAge");
+    expect(result.current.groupByFields.map((f) => f.value)).toContain("releaseAge");
+    // "None" stays the last badge option
+    expect(result.current.topBadgeFields.at(-1)?.value).toBe("none");
+    // Already-discovered computed fields are not duplicated
+    expect(
+      result.current.allFields.filter((f) => f.value === "ageBracket")
+    ).toHaveLength(1);
+
+    collectionDataState.computedFields = [];
+  });
 });
@@ -24,6 +24,7 @@ vi.mock("@/loaders", () => ({
   getImageUrls: vi.fn(() => []),
   getPrimaryImage: vi.fn(() => undefined),
   getLogoUrl: vi.fn(() => undefined),
+  applyComputedFields: vi.fn((entities: unknown[]) => entities),
 }));
 
 vi.mock("@/loaders/settingsLoader", () => ({
@@ -62,7 +63,7 @@ const testSource: Source = {
 };
 
 const loadedFixture = {
-  definition: {},
+  definition: { entityTypes: {} },
   entities: {},
   primaryType: "game",
 };
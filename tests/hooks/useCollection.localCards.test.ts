@@ -0,0 +1,61 @@
+/**
+ * Tests for building display cards from locally created entities.
+ */
+
+import { describe, it, expect } from "vitest";
+import { buildLocalCards } from "@/hooks/useCollection";
+import type { CollectionDefinition, Entity } from "@/types/schema";
+
+const definition: CollectionDefinition = {
+  id: "test-collection",
+  name: "Test Collection",
+  entityTypes: {
+    game: {
+      primary: true,
+      fields: {
+        title: { type: "string", required: true },
+        platform: { type: "string", ref: "platform" },
+      },
+    },
+    platform: {
+      fields: { title: { type: "string", required: true } },
+    },
+  },
+  relationships: {
+    "game.platform": { target: "platform", cardinality: "many-to-one" },
+  },
+};
+
+const entities: Record<string, Entity[]> = {
+  game: [{ id: "metroid", title: "Super Metroid", platform: "snes" }],
+  platform: [{ id: "snes", title: "SNES", shortTitle: "SNES" }],
+};
+
+describe("buildLocalCards", () => {
+  it("resolves references of created entities like source entities", () => {
+    const [card] = buildLocalCards(
+      [
+        {
+          id: "local_1",
+          title: "New Game",
+          platform: "snes",
+          images: [{ url: "https://example.com/new.jpg" }],
+        },
+      ],
+      { definition, primaryType: "game", entities }
+    );
+
+    expect(card?.id).toBe("local_1");
+    expect(card?.title).toBe("New Game");
+    expect(card?.categoryTitle).toBe("SNES");
+    expect(card?.imageUrl).toBe("https://example.com/new.jpg");
+  });
+
+  it("converts created entities as-is without a schema", () => {
+    const [card] = buildLocalCards([{ id: "local_1", title: 1991 }], {});
+
+    expect(card?.title).toBe("1991");
+    expect(card?.order).toBeNull();
+    expect(card?.imageUrls).toHaveLength(1);
+  });
+});
@@ -23,6 +23,7 @@ vi.mock("@/loaders", () => ({
   getImageUrls: vi.fn(() => []),
   getPrimaryImage: vi.fn(() => undefined),
   getLogoUrl: vi.fn(() => undefined),
+  applyComputedFields: vi.fn((entities: unknown[]) => entities),
 }));
 
 vi.mock("@/loaders/settingsLoader", () => ({
@@ -77,7 +78,7 @@ describe("useCollection — malformed untrusted entities do not crash the load",
     });
     useSettingsStore.setState({ cacheConsentPreference: "never" });
     vi.mocked(loadCollection).mockResolvedValue({
-      definition: {},
+      definition: { entityTypes: {} },
       entities: {},
       primaryType: "game",
     } as never);
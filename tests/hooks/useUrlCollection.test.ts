@@ -113,6 +113,53 @@ describe("parseUrlPath", () => {
     });
   });
 
+  describe("GitLab provider", () => {
+    it("should parse /gl?u=USER&c=folder format", () => {
+      const params = new URLSearchParams("u=REPPL&c=retro/my_games");
+      const result = parseUrlPath("/gl", params);
+
+      expect(result.directLoad).toBe(true);
+      expect(result.hasGitHubPath).toBe(false);
+      expect(result.providerId).toBe("gl");
+      expect(result.collectionUrl).toBe(
+        "https://cdn.statically.io/gl/REPPL/MyPlausibleMe/main/data/collections/retro/my_games"
+      );
+    });
+
+    it("should parse /gl/USER/c/folder format", () => {
+      const result = parseUrlPath("/gl/REPPL/c/retro-games");
+
+      expect(result.directLoad).toBe(true);
+      expect(result.hasGitHubPath).toBe(false);
+      expect(result.username).toBe("REPPL");
+      expect(result.folder).toBe("retro-games");
+      expect(result.providerId).toBe("gl");
+      expect(result.collectionUrl).toBe(
+        "https://cdn.statically.io/gl/REPPL/MyPlausibleMe/main/data/collections/retro-games"
+      );
+    });
+
+    it("should not open the GitHub picker for /gl/USER/", () => {
+      const result = parseUrlPath("/gl/REPPL/");
+
+      expect(result.directLoad).toBe(false);
+      expect(result.hasGitHubPath).toBe(false);
+    });
+
+    it("should convert a pasted gitlab.com tree link to the CDN", () => {
+      const params = new URLSearchParams(
+        "collection=https://gitlab.com/REPPL/MyPlausibleMe/-/tree/main/data/collections/retro-games"
+      );
+      const result = parseUrlPath("/", params);
+
+      expect(result.directLoad).toBe(true);
+      expect(result.providerId).toBe("gl");
+      expect(result.collectionUrl).toBe(
+        "https://cdn.statically.io/gl/REPPL/MyPlausibleMe/main/data/collections/retro-games"
+      );
+    });
+  });
+
   describe("no match", () => {
     it("should return empty result for non-matching paths", () => {
       const result = parseUrlPath("/about");
@@ -0,0 +1,73 @@
+/**
+ * Tests for useVirtualRows hook.
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll } from "vitest";
+import { renderHook } from "@testing-library/react";
+import { useVirtualRows } from "@/hooks/useVirtualRows";
+
+describe("useVirtualRows", () => {
+  const containerRef = { current: document.createElement("div") };
+
+  beforeAll(() => {
+    vi.stubGlobal(
+      "ResizeObserver",
+      class {
+        observe = vi.fn();
+        unobserve = vi.fn();
+        disconnect = vi.fn();
+      }
+    );
+    // jsdom does not implement scrolling
+    vi.spyOn(window, "scrollTo").mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  function renderedIndexes(
+    options: Partial<Parameters<typeof useVirtualRows>[0]> = {}
+  ): number[] {
+    const { result } = renderHook(() =>
+      useVirtualRows({
+        count: 8000,
+        estimateSize: () => 100,
+        containerRef,
+        ...options,
+      })
+    );
+    return result.current.virtualizer.getVirtualItems().map((item) => item.index);
+  }
+
+  it("mounts only the rows near the viewport", () => {
+    const indexes = renderedIndexes();
+
+    expect(indexes[0]).toBe(0);
+    expect(indexes.length).toBeGreaterThan(0);
+    expect(indexes.length).toBeLessThan(20);
+  });
+
+  it("keeps pinned rows mounted wherever they are", () => {
+    const indexes = renderedIndexes({ pinnedIndexes: [5000, 9000] });
+
+    expect(indexes).toContain(5000);
+    expect(indexes).not.toContain(9000);
+    expect(indexes).toEqual([...indexes].sort((a, b) => a - b));
+  });
+
+  it("reports the sticky row at the top of the viewport", () => {
+    const { result } = renderHook(() =>
+      useVirtualRows({
+        count: 100,
+        estimateSize: () => 100,
+        containerRef,
+        stickyIndexes: [0, 40, 80],
+      })
+    );
+
+    expect(result.current.activeStickyIndex).toBe(0);
+    expect(result.current.getRowOffset(300)).toBe(300);
+  });
+});
@@ -99,6 +99,7 @@ describe("loadCollection allowlist enforcement", () => {
     expect(collection.entities["advert"]).toEqual([
       { id: "a1", title: "First" },
     ]);
+    expect(collection.layouts["advert"]).toEqual({ kind: "directory" });
   });
 
   it("loads collections from an allowlisted raw.githubusercontent.com origin", async () => {
@@ -112,6 +113,7 @@ describe("loadCollection allowlist enforcement", () => {
     const collection = await loadCollection(base);
 
     expect(collection.entities["advert"]).toEqual([{ id: "a1" }]);
+    expect(collection.layouts["advert"]).toEqual({ kind: "file", path: "adverts.json" });
   });
 
   it("still allows same-origin relative paths", async () => {
@@ -0,0 +1,220 @@
+/**
+ * Tests for the computed field expression engine.
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  parseExpression,
+  evaluateExpression,
+  compileComputedFields,
+  applyComputedFields,
+  MAX_COMPUTED_FIELDS,
+  MAX_EXPRESSION_LENGTH,
+} from "@/loaders/computedFields";
+import { ExpressionError } from "@/errors";
+import type { Entity, ResolvedEntity } from "@/types/schema";
+
+function evaluate(expression: string, entity: Record<string, unknown> = {}): unknown {
+  return evaluateExpression(parseExpression(expression), entity);
+}
+
+describe("computedFields", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe("arithmetic", () => {
+    it("respects operator precedence and parentheses", () => {
+      expect(evaluate("1 + 2 * 3")).toBe(7);
+      expect(evaluate("(1 + 2) * 3")).toBe(9);
+      expect(evaluate("10 - 4 - 3")).toBe(3);
+      expect(evaluate("7 % 4")).toBe(3);
+      expect(evaluate("-year + 2000", { year: 1990 })).toBe(10);
+    });
+
+    it("returns null for division by zero and missing operands", () => {
+      expect(evaluate("1 / 0")).toBeNull();
+      expect(evaluate("missing * 2")).toBeNull();
+    });
+
+    it("reads numbers out of structured ratings", () => {
+      expect(evaluate("rating * 2", { rating: { score: 4, max: 5 } })).toBe(8);
+    });
+  });
+
+  describe("strings", () => {
+    it("concatenates when either side is a string", () => {
+      expect(evaluate('title + " (" + year + ")"', { title: "Zelda", year: 1986 })).toBe(
+        "Zelda (1986)"
+      );
+      expect(evaluate("'a' + 'b'")).toBe("ab");
+    });
+
+    it("supports string helpers", () => {
+      expect(evaluate("upper(title)", { title: "zelda" })).toBe("ZELDA");
+      expect(evaluate("join(genres, ' / ')", { genres: ["RPG", "Action"] })).toBe(
+        "RPG / Action"
+      );
+      expect(evaluate("len(genres)", { genres: ["RPG", "Action"] })).toBe(2);
+      expect(evaluate("contains(genres, 'RPG')", { genres: ["RPG"] })).toBe(true);
+    });
+
+    it("caps the length of produced strings", () => {
+      const result = evaluate("text + text", { text: "x".repeat(8000) });
+      expect(typeof result === "string" && result.length).toBe(10000);
+    });
+  });
+
+  describe("conditionals and logic", () => {
+    it("evaluates ternaries and comparisons", () => {
+      expect(evaluate('year < 1990 ? "retro" : "modern"', { year: 1985 })).toBe("retro");
+      expect(evaluate('year < 1990 ? "retro" : "modern"', { year: 1995 })).toBe("modern");
+      expect(evaluate('a > 1 ? "x" : b > 1 ? "y" : "z"', { a: 0, b: 2 })).toBe("y");
+    });
+
+    it("compares numeric strings numerically", () => {
+      expect(evaluate('year >= 1990', { year: "1995" })).toBe(true);
+      expect(evaluate('year == 1995', { year: "1995" })).toBe(true);
+    });
+
+    it("short-circuits logical operators", () => {
+      expect(evaluate("nickname || title", { title: "Zelda" })).toBe("Zelda");
+      expect(evaluate("nickname ?? 'none'")).toBe("none");
+      expect(evaluate("!played && year > 0", { played: false, year: 1 })).toBe(true);
+    });
+  });
+
+  describe("date maths", () => {
+    it("computes differences between dates and years", () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date("2026-06-15T12:00:00Z"));
+
+      expect(evaluate("yearsBetween(year, today())", { year: 1986 })).toBe(40);
+      expect(evaluate("yearsBetween(released, today())", { released: "1986-07-01" })).toBe(39);
+      expect(evaluate("daysBetween('2024-01-01', '2024-03-01')")).toBe(60);
+      expect(evaluate("addDays('2024-02-28', 2)")).toBe("2024-03-01");
+      expect(evaluate("decade(year)", { year: 1987 })).toBe(1980);
+      expect(evaluate("month('2024-03-09')")).toBe(3);
+    });
+
+    it("returns null for unparseable dates", () => {
+      expect(evaluate("yearsBetween(released, today())", { released: "soon" })).toBeNull();
+    });
+  });
+
+  describe("field access", () => {
+    it("follows resolved relationships for member access", () => {
+      const entity = {
+        platform: "nes",
+        _resolved: { platform: { id: "nes", title: "Nintendo Entertainment System", year: 1983 } },
+      };
+
+      expect(evaluate("platform.title", entity)).toBe("Nintendo Entertainment System");
+      expect(evaluate("_resolved.platform.year", entity)).toBe(1983);
+      expect(evaluate("platform", entity)).toBe("nes");
+    });
+
+    it("indexes arrays, including from the end", () => {
+      const entity = { genres: ["RPG", "Action"] };
+      expect(evaluate("genres[0]", entity)).toBe("RPG");
+      expect(evaluate("genres[-1]", entity)).toBe("Action");
+    });
+
+    it("never reaches prototype members", () => {
+      expect(evaluate("__proto__")).toBeNull();
+      expect(evaluate("title.constructor", { title: "x" })).toBeNull();
+      expect(evaluate("toString")).toBeNull();
+      expect(evaluate("meta['__proto__']", { meta: {} })).toBeNull();
+    });
+  });
+
+  describe("parseExpression", () => {
+    it("rejects invalid syntax with the position of the problem", () => {
+      expect(() => parseExpression("1 +")).toThrow(ExpressionError);
+      try {
+        parseExpression("year ) 2");
+      } catch (error) {
+        expect(error).toBeInstanceOf(ExpressionError);
+        expect((error as ExpressionError).position).toBe(5);
+      }
+    });
+
+    it("rejects calls to unknown functions", () => {
+      expect(() => parseExpression("eval('1')")).toThrow(/Unknown function/);
+      expect(() => parseExpression("title.toUpperCase()")).toThrow(ExpressionError);
+    });
+
+    it("rejects over-long and deeply nested expressions", () => {
+      expect(() => parseExpression("1+".repeat(MAX_EXPRESSION_LENGTH) + "1")).toThrow(
+        ExpressionError
+      );
+      expect(() => parseExpression("(".repeat(100) + "1" + ")".repeat(100))).toThrow(
+        /nested too deeply/
+      );
+    });
+
+    it("rejects unterminated strings", () => {
+      expect(() => parseExpression('"abc')).toThrow(/Unterminated string/);
+    });
+  });
+
+  describe("compileComputedFields", () => {
+    it("skips invalid expressions and reserved names with a warning", () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+
+      const fields = compileComputedFields({
+        ok: "1 + 1",
+        broken: "1 +",
+        id: "'x'",
+        constructor: "1",
+      });
+
+      expect(fields.map((f) => f.name)).toEqual(["ok"]);
+      expect(warn).toHaveBeenCalled();
+    });
+
+    it("caps the number of computed fields", () => {
+      vi.spyOn(console, "warn").mockImplementation(() => undefined);
+      const computed: Record<string, string> = {};
+      for (let i = 0; i < MAX_COMPUTED_FIELDS + 10; i++) {
+        computed[`f${String(i)}`] = String(i);
+      }
+
+      expect(compileComputedFields(computed)).toHaveLength(MAX_COMPUTED_FIELDS);
+    });
+  });
+
+  describe("applyComputedFields", () => {
+    it("evaluates fields in declaration order without mutating input", () => {
+      const entities: Entity[] = [{ id: "a", year: 1990 }];
+
+      const result = applyComputedFields(entities, {
+        age: "2020 - year",
+        label: "'Age ' + age",
+      });
+
+      expect(result[0]).toMatchObject({ id: "a", age: 30, label: "Age 30" });
+      expect(entities[0]).not.toHaveProperty("age");
+    });
+
+    it("reads resolved related entities on primary entities", () => {
+      const entities: ResolvedEntity[] = [
+        {
+          id: "zelda",
+          platform: "nes",
+          _resolved: { platform: { id: "nes", shortTitle: "NES" } },
+        },
+      ];
+
+      const result = applyComputedFields(entities, { device: "platform.shortTitle" });
+
+      expect(result[0]?.device).toBe("NES");
+    });
+
+    it("returns the same array when nothing is declared", () => {
+      const entities: Entity[] = [{ id: "a" }];
+      expect(applyComputedFields(entities, undefined)).toBe(entities);
+    });
+  });
+});
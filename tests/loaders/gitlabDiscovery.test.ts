@@ -0,0 +1,194 @@
+/**
+ * Tests for GitLab API discovery and URL conversion.
+ *
+ * @see F-091: Entity Auto-Discovery
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  parseStaticallyGitLabUrl,
+  isStaticallyGitLabUrl,
+  gitLabWebUrlToCdnUrl,
+  discoverEntitiesViaGitLab,
+  isGitLabRateLimited,
+  setGitLabRateLimitReset,
+} from "@/loaders/gitlabDiscovery";
+
+const CDN_DIR =
+  "https://cdn.statically.io/gl/owner/repo/main/data/collections/games/games";
+
+function jsonResponse(body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { "content-type": "application/json", ...headers },
+  });
+}
+
+describe("gitlabDiscovery", () => {
+  describe("parseStaticallyGitLabUrl", () => {
+    it("parses a Statically GitLab URL", () => {
+      expect(parseStaticallyGitLabUrl(CDN_DIR)).toEqual({
+        owner: "owner",
+        repo: "repo",
+        branch: "main",
+        path: "data/collections/games/games",
+      });
+    });
+
+    it("returns null for jsDelivr URLs", () => {
+      expect(
+        parseStaticallyGitLabUrl(
+          "https://cdn.jsdelivr.net/gh/owner/repo@main/data/games"
+        )
+      ).toBeNull();
+    });
+
+    it("returns null when the path is missing", () => {
+      expect(
+        parseStaticallyGitLabUrl("https://cdn.statically.io/gl/owner/repo/main")
+      ).toBeNull();
+    });
+  });
+
+  describe("isStaticallyGitLabUrl", () => {
+    it("recognises the GitLab prefix only", () => {
+      expect(isStaticallyGitLabUrl(CDN_DIR)).toBe(true);
+      expect(
+        isStaticallyGitLabUrl("https://cdn.statically.io/gh/owner/repo/main/x")
+      ).toBe(false);
+    });
+  });
+
+  describe("gitLabWebUrlToCdnUrl", () => {
+    it.each([
+      "https://gitlab.com/owner/repo/-/tree/main/data/collections/games",
+      "https://gitlab.com/owner/repo/-/tree/main/data/collections/games/",
+      "https://gitlab.com/owner/repo/-/blob/main/data/collections/games/collection.json",
+      "https://gitlab.com/owner/repo/-/raw/main/data/collections/games/collection.json",
+    ])("converts %s", (url) => {
+      expect(gitLabWebUrlToCdnUrl(url)).toBe(
+        "https://cdn.statically.io/gl/owner/repo/main/data/collections/games"
+      );
+    });
+
+    it.each([
+      "https://github.com/owner/repo/tree/main/data",
+      "http://gitlab.com/owner/repo/-/tree/main/data",
+      "https://gitlab.com/owner/repo",
+      "https://gitlab.com/owner/repo/-/blob/main/collection.json",
+      "not a url",
+    ])("rejects %s", (url) => {
+      expect(gitLabWebUrlToCdnUrl(url)).toBeNull();
+    });
+  });
+
+  describe("discoverEntitiesViaGitLab", () => {
+    const mockFetch = vi.fn();
+
+    beforeEach(() => {
+      setGitLabRateLimitReset(null);
+      vi.stubGlobal("fetch", mockFetch);
+      mockFetch.mockReset();
+    });
+
+    afterEach(() => {
+      setGitLabRateLimitReset(null);
+      vi.unstubAllGlobals();
+    });
+
+    it("returns null for non-GitLab URLs without calling the API", async () => {
+      const result = await discoverEntitiesViaGitLab(
+        "https://cdn.jsdelivr.net/gh/owner/repo@main/data/games"
+      );
+
+      expect(result).toBeNull();
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("calls the tree API with the encoded project path", async () => {
+      mockFetch.mockResolvedValueOnce(
+        jsonResponse([{ name: "001.json", path: "x/001.json", type: "blob" }])
+      );
+
+      await discoverEntitiesViaGitLab(CDN_DIR);
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://gitlab.com/api/v4/projects/owner%2Frepo/repository/tree?path=data%2Fcollections%2Fgames%2Fgames&ref=main&per_page=100&page=1",
+        expect.any(Object)
+      );
+    });
+
+    it("filters and sorts entity files", async () => {
+      mockFetch.mockResolvedValueOnce(
+        jsonResponse([
+          { name: "002-zelda.json", path: "g/002-zelda.json", type: "blob" },
+          { name: "001-mario.json", path: "g/001-mario.json", type: "blob" },
+          { name: "_template.json", path: "g/_template.json", type: "blob" },
+          { name: "index.json", path: "g/index.json", type: "blob" },
+          { name: "README.md", path: "g/README.md", type: "blob" },
+          { name: "images.json", path: "g/images.json", type: "tree" },
+        ])
+      );
+
+      const result = await discoverEntitiesViaGitLab(CDN_DIR);
+
+      expect(result).toEqual(["001-mario", "002-zelda"]);
+    });
+
+    it("follows X-Next-Page pagination", async () => {
+      mockFetch
+        .mockResolvedValueOnce(
+          jsonResponse([{ name: "a.json", path: "g/a.json", type: "blob" }], {
+            "X-Next-Page": "2",
+          })
+        )
+        .mockResolvedValueOnce(
+          jsonResponse([{ name: "b.json", path: "g/b.json", type: "blob" }], {
+            "X-Next-Page": "",
+          })
+        );
+
+      const result = await discoverEntitiesViaGitLab(CDN_DIR);
+
+      expect(result).toEqual(["a", "b"]);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("records rate limiting from a 429 response", async () => {
+      const consoleSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const reset = Math.floor(Date.now() / 1000) + 3600;
+      mockFetch.mockResolvedValueOnce(
+        new Response(null, {
+          status: 429,
+          headers: { "RateLimit-Reset": String(reset) },
+        })
+      );
+
+      const result = await discoverEntitiesViaGitLab(CDN_DIR);
+
+      expect(result).toBeNull();
+      expect(isGitLabRateLimited()).toBe(true);
+
+      const skipped = await discoverEntitiesViaGitLab(CDN_DIR);
+      expect(skipped).toBeNull();
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      consoleSpy.mockRestore();
+    });
+
+    it("returns null when the directory is empty", async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse([]));
+
+      expect(await discoverEntitiesViaGitLab(CDN_DIR)).toBeNull();
+    });
+
+    it("returns null on network errors", async () => {
+      const consoleSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+      mockFetch.mockRejectedValueOnce(new Error("offline"));
+
+      expect(await discoverEntitiesViaGitLab(CDN_DIR)).toBeNull();
+
+      consoleSpy.mockRestore();
+    });
+  });
+});
@@ -236,4 +236,35 @@ describe("loadCollectionSettings default bounds", () => {
       "verdict",
     ]);
   });
+
+  it("keeps valid default filters and drops malformed entries", async () => {
+    const result = await mockSettings({
+      filters: [
+        { field: "platform", values: ["SNES", 3, "N64"] },
+        { field: 7, values: ["x"] },
+        { field: "genres", values: "RPG" },
+        { field: "status", values: [] },
+        { field: "platform", values: ["PS1"] },
+        null,
+      ],
+    });
+
+    expect(result?.defaults?.filters).toEqual([
+      { field: "platform", values: ["SNES", "N64"] },
+    ]);
+  });
+
+  it("caps the number of default filters and their values", async () => {
+    // Every active filter value is checked against every card on each grid
+    // render, so an unbounded list from an untrusted collection is costly.
+    const result = await mockSettings({
+      filters: Array.from({ length: 100 }, (_, i) => ({
+        field: `f${String(i)}`,
+        values: Array.from({ length: 500 }, (_, j) => `v${String(j)}`),
+      })),
+    });
+
+    expect(result?.defaults?.filters).toHaveLength(10);
+    expect(result?.defaults?.filters?.[0]?.values).toHaveLength(50);
+  });
 });
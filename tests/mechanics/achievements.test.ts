@@ -0,0 +1,313 @@
+/**
+ * Tests for the achievement events each mechanic emits.
+ *
+ * Events are checked against the mechanic's own definitions, so a renamed
+ * event field breaks the test rather than silently locking an achievement.
+ */
+
+import { describe, it, expect } from "vitest";
+import { matchesAchievement } from "@/mechanics/shared/utils";
+import { MEMORY_ACHIEVEMENTS, getMemoryEvents } from "@/mechanics/memory/achievements";
+import { QUIZ_ACHIEVEMENTS, getQuizEvents } from "@/mechanics/quiz/achievements";
+import { COMPETING_ACHIEVEMENTS, getCompetingEvents } from "@/mechanics/competing/achievements";
+import {
+  SNAP_RANKING_ACHIEVEMENTS,
+  getSnapRankingEvents,
+} from "@/mechanics/snap-ranking/achievements";
+import { getCompletedCategories } from "@/mechanics/collection/achievements";
+import { TIMELINE_ACHIEVEMENTS, getTimelineEvents } from "@/mechanics/timeline/achievements";
+import {
+  HIGHER_LOWER_ACHIEVEMENTS,
+  getHigherLowerEvents,
+} from "@/mechanics/higher-lower/achievements";
+import { RANKING_ACHIEVEMENTS, getRankingEvents } from "@/mechanics/ranking/achievements";
+import {
+  CATEGORY_SORT_ACHIEVEMENTS,
+  getCategorySortEvents,
+} from "@/mechanics/category-sort/achievements";
+import { useMemoryStore } from "@/mechanics/memory/store";
+import { useQuizStore } from "@/mechanics/quiz/store";
+import { useCompetingStore } from "@/mechanics/competing/store";
+import { useSnapRankingStore } from "@/mechanics/snap-ranking/store";
+import { useTimelineStore } from "@/mechanics/timeline/store";
+import { useHigherLowerStore } from "@/mechanics/higher-lower/store";
+import { useRankingSessionStore } from "@/mechanics/ranking/store";
+import { useCategorySortStore } from "@/mechanics/category-sort/store";
+import type { AchievementDefinition, MechanicEvent } from "@/mechanics/types";
+import type { AnswerRecord } from "@/mechanics/quiz/types";
+
+/**
+ * IDs of the achievements a list of events earns.
+ */
+function earnedIds(definitions: AchievementDefinition[], events: MechanicEvent[]): string[] {
+  return definitions
+    .filter((definition) => events.some((event) => matchesAchievement(definition, event)))
+    .map((definition) => definition.id);
+}
+
+function pairs(count: number): string[][] {
+  return Array.from({ length: count }, (_, i) => [`card-${String(i)}`, `card-${String(i)}-pair`]);
+}
+
+function answers(results: boolean[]): AnswerRecord[] {
+  return results.map((isCorrect, i) => ({
+    questionId: `q-${String(i)}`,
+    selectedAnswerId: "a",
+    isCorrect,
+    timeToAnswer: 1000,
+    pointsEarned: isCorrect ? 100 : 0,
+  }));
+}
+
+describe("memory events", () => {
+  const playing = { ...useMemoryStore.getState(), matchedPairs: pairs(5), attempts: 5 };
+
+  it("awards a flawless Extreme game", () => {
+    const events = getMemoryEvents(
+      { ...playing, isComplete: true, difficulty: "extreme", matchedPairs: pairs(6), attempts: 6 },
+      playing
+    );
+
+    expect(earnedIds(MEMORY_ACHIEVEMENTS, events)).toEqual([
+      "first-game",
+      "flawless",
+      "extreme-flawless",
+    ]);
+  });
+
+  it("counts unmatched attempts as misses", () => {
+    const events = getMemoryEvents(
+      { ...playing, isComplete: true, difficulty: "extreme", matchedPairs: pairs(6), attempts: 8 },
+      playing
+    );
+
+    expect(events[0]?.data.misses).toBe(2);
+    expect(earnedIds(MEMORY_ACHIEVEMENTS, events)).toEqual(["first-game"]);
+  });
+
+  it("emits nothing until the game completes, and only once", () => {
+    const complete = { ...playing, isComplete: true };
+    expect(getMemoryEvents(playing, playing)).toEqual([]);
+    expect(getMemoryEvents(complete, complete)).toEqual([]);
+  });
+});
+
+describe("quiz events", () => {
+  const base = useQuizStore.getState();
+
+  it("awards a streak of 10 on the answer that reaches it", () => {
+    const previous = { ...base, answers: answers(Array(9).fill(true) as boolean[]), streak: 9 };
+    const events = getQuizEvents(
+      { ...previous, answers: answers(Array(10).fill(true) as boolean[]), streak: 10 },
+      previous
+    );
+
+    expect(earnedIds(QUIZ_ACHIEVEMENTS, events)).toEqual(["streak-10"]);
+  });
+
+  it("awards a perfect score when the quiz ends", () => {
+    const questions = Array(10).fill(null) as never[];
+    const previous = { ...base, questions, answers: answers(Array(10).fill(true) as boolean[]) };
+    const events = getQuizEvents({ ...previous, quizEndedAt: 5000 }, previous);
+
+    expect(earnedIds(QUIZ_ACHIEVEMENTS, events)).toEqual(["first-quiz", "perfect-score"]);
+  });
+
+  it("treats skipped and wrong answers as mistakes", () => {
+    const questions = Array(10).fill(null) as never[];
+    const previous = {
+      ...base,
+      difficulty: "extreme" as const,
+      questions,
+      answers: answers([...(Array(9).fill(true) as boolean[]), false]),
+    };
+    const events = getQuizEvents({ ...previous, quizEndedAt: 5000 }, previous);
+
+    expect(earnedIds(QUIZ_ACHIEVEMENTS, events)).toEqual(["first-quiz"]);
+  });
+});
+
+describe("competing events", () => {
+  const playing = { ...useCompetingStore.getState(), phase: "player_select" as const };
+
+  it("awards beating the Hard AI", () => {
+    const over = {
+      ...playing,
+      phase: "game_over" as const,
+      difficulty: "hard" as const,
+      roundsWon: { player: 6, cpu: 2 },
+    };
+
+    expect(earnedIds(COMPETING_ACHIEVEMENTS, getCompetingEvents(over, playing, "player"))).toEqual([
+      "first-win",
+      "beat-hard",
+    ]);
+  });
+
+  it("awards nothing for a loss", () => {
+    const over = { ...playing, phase: "game_over" as const, difficulty: "hard" as const };
+
+    expect(earnedIds(COMPETING_ACHIEVEMENTS, getCompetingEvents(over, playing, "cpu"))).toEqual([]);
+  });
+});
+
+describe("snap ranking events", () => {
+  it("awards a game of exact guesses", () => {
+    const base = useSnapRankingStore.getState();
+    const guesses = Array.from({ length: 10 }, (_, i) => ({
+      cardId: `card-${String(i)}`,
+      guess: 1990 + i,
+      actualValue: 1990 + i,
+      score: 100,
+      guessedAt: 0,
+      timeToGuess: 0,
+    }));
+    const events = getSnapRankingEvents({ ...base, guesses, gameEndedAt: 5000 }, base);
+
+    expect(earnedIds(SNAP_RANKING_ACHIEVEMENTS, events)).toEqual(["first-game", "all-exact"]);
+  });
+});
+
+describe("timeline events", () => {
+  const base = useTimelineStore.getState();
+  const placements = Array.from({ length: 10 }, (_, i) => ({
+    cardId: `card-${String(i)}`,
+    correct: true,
+  }));
+
+  it("awards a perfect game by exact year", () => {
+    const events = getTimelineEvents({ ...base, placements, gameEndedAt: 5000 }, base);
+
+    expect(earnedIds(TIMELINE_ACHIEVEMENTS, events)).toEqual(["first-game", "exact-years"]);
+  });
+
+  it("awards a perfect whole hand on decade difficulty", () => {
+    const events = getTimelineEvents(
+      { ...base, difficulty: "decade", mode: "hand", placements, gameEndedAt: 5000 },
+      base
+    );
+
+    expect(earnedIds(TIMELINE_ACHIEVEMENTS, events)).toEqual(["first-game", "perfect-hand"]);
+  });
+});
+
+describe("higher or lower events", () => {
+  const base = { ...useHigherLowerStore.getState(), phase: "guessing" as const };
+
+  it("awards a streak of 15 on the guess that reaches it", () => {
+    const events = getHigherLowerEvents(
+      { ...base, phase: "reveal", lastResult: { guess: "higher", correct: true }, streak: 15 },
+      { ...base, streak: 14 }
+    );
+
+    expect(earnedIds(HIGHER_LOWER_ACHIEVEMENTS, events)).toEqual(["streak-15"]);
+  });
+
+  it("awards finishing a long speed run", () => {
+    const events = getHigherLowerEvents(
+      { ...base, phase: "game_over", target: 20, score: 20 },
+      { ...base, phase: "reveal" }
+    );
+
+    expect(earnedIds(HIGHER_LOWER_ACHIEVEMENTS, events)).toEqual(["first-game", "speed-run"]);
+  });
+
+  it("does not award a speed run that ran out of lives", () => {
+    const events = getHigherLowerEvents(
+      { ...base, phase: "game_over", target: 20, score: 12 },
+      { ...base, phase: "reveal" }
+    );
+
+    expect(earnedIds(HIGHER_LOWER_ACHIEVEMENTS, events)).toEqual(["first-game"]);
+  });
+});
+
+describe("my ranking events", () => {
+  const base = { ...useRankingSessionStore.getState(), phase: "comparing" as const };
+  const twentyCards = Array.from({ length: 20 }, (_, i) => `card-${String(i)}`);
+
+  it("awards a settled ranking of 20 cards", () => {
+    const events = getRankingEvents(
+      { ...base, phase: "complete", cardIds: twentyCards, settled: true, sessionComparisons: 3 },
+      { ...base, cardIds: twentyCards, sessionComparisons: 2 }
+    );
+
+    expect(earnedIds(RANKING_ACHIEVEMENTS, events)).toEqual(["first-session", "settled-20"]);
+  });
+
+  it("awards 100 comparisons in one session", () => {
+    const events = getRankingEvents(
+      { ...base, sessionComparisons: 100 },
+      { ...base, sessionComparisons: 99 }
+    );
+
+    expect(earnedIds(RANKING_ACHIEVEMENTS, events)).toEqual(["comparisons-100"]);
+  });
+
+  it("does not award a settled ranking of a small collection", () => {
+    const events = getRankingEvents(
+      { ...base, phase: "complete", cardIds: ["a", "b"], settled: true },
+      base
+    );
+
+    expect(earnedIds(RANKING_ACHIEVEMENTS, events)).toEqual(["first-session"]);
+  });
+});
+
+describe("category sort events", () => {
+  const base = { ...useCategorySortStore.getState(), phase: "sorting" as const };
+
+  function placements(results: boolean[]) {
+    return results.map((correct, i) => ({
+      cardId: `card-${String(i)}`,
+      chosen: "SNES",
+      actual: correct ? "SNES" : "MD",
+      correct,
+    }));
+  }
+
+  it("awards a perfect game of 20 cards", () => {
+    const sorted = placements(Array.from({ length: 20 }, () => true));
+    const events = getCategorySortEvents(
+      { ...base, phase: "game_over", placements: sorted, score: 20 },
+      { ...base, phase: "feedback" }
+    );
+
+    expect(earnedIds(CATEGORY_SORT_ACHIEVEMENTS, events)).toEqual(["first-game", "perfect-sort"]);
+  });
+
+  it("does not award a perfect game with a mistake", () => {
+    const sorted = placements(Array.from({ length: 20 }, (_, i) => i > 0));
+    const events = getCategorySortEvents(
+      { ...base, phase: "game_over", placements: sorted, score: 19 },
+      { ...base, phase: "feedback" }
+    );
+
+    expect(earnedIds(CATEGORY_SORT_ACHIEVEMENTS, events)).toEqual(["first-game"]);
+  });
+
+  it("awards 30 correct sorts in a timed game", () => {
+    const [last] = placements([true]);
+    const events = getCategorySortEvents(
+      { ...base, phase: "feedback", mode: "timed", lastPlacement: last ?? null, score: 30 },
+      { ...base, mode: "timed", score: 29 }
+    );
+
+    expect(earnedIds(CATEGORY_SORT_ACHIEVEMENTS, events)).toEqual(["timed-30"]);
+  });
+});
+
+describe("getCompletedCategories", () => {
+  it("lists categories whose cards are all owned", () => {
+    const cards = [
+      { id: "a", categoryTitle: "SNES" },
+      { id: "b", categoryTitle: "SNES" },
+      { id: "c", categoryTitle: "Mega Drive" },
+      { id: "d", categoryTitle: "Mega Drive" },
+      { id: "e" },
+    ];
+    const owned = new Set(["a", "b", "c"]);
+
+    expect(getCompletedCategories(cards, (id) => owned.has(id))).toEqual(["SNES"]);
+  });
+});
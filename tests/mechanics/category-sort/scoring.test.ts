@@ -0,0 +1,102 @@
+/**
+ * Tests for Category Sort scoring.
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  buildConfusionMatrix,
+  detectCategoryFields,
+  getCardBin,
+  getCategoryAccuracy,
+  pickBins,
+} from "@/mechanics/category-sort/scoring";
+import type { CategorySortCard, SortPlacement } from "@/mechanics/category-sort/types";
+import type { FilterField } from "@/utils/filterMatch";
+
+function makeCard(id: string, platform: string[]): CategorySortCard {
+  return { id, title: id, imageUrl: "", categories: { platform } };
+}
+
+function place(actual: string, chosen: string): SortPlacement {
+  return { cardId: `${actual}-${chosen}`, actual, chosen, correct: actual === chosen };
+}
+
+describe("detectCategoryFields", () => {
+  it("keeps categorical fields with at least two options", () => {
+    const fields: FilterField[] = [
+      { field: "categoryShort", label: "Platform", kind: "value", options: ["MD", "SNES"] },
+      { field: "year", label: "Year", kind: "number", options: [] },
+      { field: "genres", label: "Genre", kind: "array", options: ["RPG", "Racing"] },
+      { field: "developer", label: "Developer", kind: "reference", options: ["Sega"] },
+      { field: "owned", label: "Owned", kind: "boolean", options: ["true", "false"] },
+      { field: "_tags", label: "Tag", kind: "array", options: ["fav", "retro"] },
+    ];
+
+    expect(detectCategoryFields(fields)).toEqual([
+      { key: "categoryShort", label: "Platform" },
+      { key: "genres", label: "Genre" },
+    ]);
+  });
+});
+
+describe("pickBins", () => {
+  it("takes the most common categories, ties alphabetically, in alphabetical order", () => {
+    const cards = [
+      makeCard("a", ["SNES"]),
+      makeCard("b", ["SNES"]),
+      makeCard("c", ["SNES"]),
+      makeCard("d", ["MD"]),
+      makeCard("e", ["MD"]),
+      makeCard("f", ["N64"]),
+      makeCard("g", ["GB"]),
+      makeCard("h", []),
+    ];
+
+    expect(pickBins(cards, "platform", 3)).toEqual(["GB", "MD", "SNES"]);
+    expect(pickBins(cards, "platform", 6)).toEqual(["GB", "MD", "N64", "SNES"]);
+  });
+
+  it("counts a card once per category", () => {
+    const cards = [makeCard("a", ["MD", "MD"]), makeCard("b", ["SNES"]), makeCard("c", ["SNES"])];
+
+    expect(pickBins(cards, "platform", 1)).toEqual(["SNES"]);
+  });
+
+  it("ignores cards without the field", () => {
+    expect(pickBins([makeCard("a", ["MD"])], "genre", 4)).toEqual([]);
+  });
+});
+
+describe("getCardBin", () => {
+  it("returns the first bin the card belongs in", () => {
+    expect(getCardBin(["RPG", "Action"], ["Action", "Puzzle", "RPG"])).toBe("Action");
+    expect(getCardBin(["Racing"], ["Action", "Puzzle", "RPG"])).toBeNull();
+  });
+});
+
+describe("buildConfusionMatrix", () => {
+  it("counts sorts by right category and chosen bin", () => {
+    const placements = [place("MD", "MD"), place("SNES", "MD"), place("SNES", "SNES"), place("SNES", "MD")];
+
+    expect(buildConfusionMatrix(["MD", "SNES"], placements)).toEqual([
+      [1, 0],
+      [2, 1],
+    ]);
+  });
+
+  it("ignores categories that are not bins", () => {
+    expect(buildConfusionMatrix(["MD"], [place("GB", "MD")])).toEqual([[0]]);
+  });
+});
+
+describe("getCategoryAccuracy", () => {
+  it("reports correct and dealt cards for each bin", () => {
+    const placements = [place("MD", "MD"), place("SNES", "MD"), place("SNES", "SNES")];
+
+    expect(getCategoryAccuracy(["GB", "MD", "SNES"], placements)).toEqual([
+      { category: "GB", correct: 0, total: 0 },
+      { category: "MD", correct: 1, total: 1 },
+      { category: "SNES", correct: 1, total: 2 },
+    ]);
+  });
+});
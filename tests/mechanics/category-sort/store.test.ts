@@ -0,0 +1,201 @@
+/**
+ * Tests for Category Sort store.
+ */
+
+import { beforeEach, describe, expect, it } from "vitest";
+import { useCategorySortStore } from "@/mechanics/category-sort/store";
+import {
+  DEFAULT_SETTINGS,
+  type CategoryFieldInfo,
+  type CategorySortCard,
+} from "@/mechanics/category-sort/types";
+
+const FIELDS: CategoryFieldInfo[] = [
+  { key: "platform", label: "Platform" },
+  { key: "genres", label: "Genre" },
+];
+
+function makeCard(id: string, platform: string, genres: string[]): CategorySortCard {
+  return { id, title: id, imageUrl: "", categories: { platform: [platform], genres } };
+}
+
+const CARDS = [
+  makeCard("a", "SNES", ["RPG"]),
+  makeCard("b", "SNES", ["RPG", "Action"]),
+  makeCard("c", "SNES", ["Action"]),
+  makeCard("d", "MD", ["Action"]),
+  makeCard("e", "MD", ["Racing"]),
+  makeCard("f", "GB", ["Puzzle"]),
+];
+
+/**
+ * Categories of the card being sorted for the game's field.
+ */
+function currentCategories(): string[] {
+  const { cards, currentCardId, sortField } = useCategorySortStore.getState();
+  return cards[currentCardId ?? ""]?.categories[sortField?.key ?? ""] ?? [];
+}
+
+/**
+ * Sort the current card into a right bin.
+ */
+function sortRight(): void {
+  const { bins, sortCard } = useCategorySortStore.getState();
+  const categories = currentCategories();
+  sortCard(bins.find((bin) => categories.includes(bin)) ?? "");
+}
+
+/**
+ * Sort the current card into a wrong bin.
+ */
+function sortWrong(): void {
+  const { bins, sortCard } = useCategorySortStore.getState();
+  const categories = currentCategories();
+  sortCard(bins.find((bin) => !categories.includes(bin)) ?? "");
+}
+
+describe("useCategorySortStore", () => {
+  beforeEach(() => {
+    useCategorySortStore.getState().deactivate();
+    useCategorySortStore.setState({ ...DEFAULT_SETTINGS, seed: 7 });
+    useCategorySortStore.getState().activate();
+  });
+
+  it("deals cards that fit the most common categories of the first field", () => {
+    useCategorySortStore.setState({ binCount: 2 });
+    useCategorySortStore.getState().startGame({ cards: CARDS, fields: FIELDS });
+
+    const state = useCategorySortStore.getState();
+    expect(state.phase).toBe("sorting");
+    expect(state.sortField?.key).toBe("platform");
+    expect(state.bins).toEqual(["MD", "SNES"]);
+    // The only GB card has no bin
+    expect(Object.keys(state.cards)).not.toContain("f");
+    expect(state.deck).toHaveLength(4);
+    expect(state.currentCardId).not.toBeNull();
+  });
+
+  it("sorts by a chosen field", () => {
+    useCategorySortStore.setState({ field: "genres" });
+    useCategorySortStore.getState().startGame({ cards: CARDS, fields: FIELDS });
+
+    const state = useCategorySortStore.getState();
+    expect(state.sortField?.key).toBe("genres");
+    expect(state.bins).toEqual(["Action", "Puzzle", "Racing", "RPG"]);
+  });
+
+  it("falls back to the first field when the chosen field is missing", () => {
+    useCategorySortStore.setState({ field: "developer" });
+    useCategorySortStore.getState().startGame({ cards: CARDS, fields: FIELDS });
+
+    expect(useCategorySortStore.getState().sortField?.key).toBe("platform");
+  });
+
+  it("reports an error without category fields", () => {
+    useCategorySortStore.getState().startGame({ cards: CARDS, fields: [] });
+
+    const state = useCategorySortStore.getState();
+    expect(state.phase).toBe("setup");
+    expect(state.errorMessage).toContain("No category fields");
+  });
+
+  it("reports an error with fewer than two categories", () => {
+    const cards = CARDS.filter((card) => card.categories.platform?.[0] === "SNES");
+    useCategorySortStore.getState().startGame({ cards, fields: FIELDS });
+
+    expect(useCategorySortStore.getState().errorMessage).toContain("Not enough Platform");
+  });
+
+  it("scores a right sort and moves on after feedback", () => {
+    useCategorySortStore.getState().startGame({ cards: CARDS, fields: FIELDS });
+    const [nextCardId] = useCategorySortStore.getState().deck;
+
+    sortRight();
+    let state = useCategorySortStore.getState();
+    expect(state.phase).toBe("feedback");
+    expect(state.lastPlacement?.correct).toBe(true);
+    expect(state.score).toBe(1);
+
+    state.nextCard();
+    state = useCategorySortStore.getState();
+    expect(state.phase).toBe("sorting");
+    expect(state.currentCardId).toBe(nextCardId);
+    expect(state.lastPlacement).toBeNull();
+  });
+
+  it("records the right bin for a wrong sort", () => {
+    useCategorySortStore.getState().startGame({ cards: CARDS, fields: FIELDS });
+    const [actual] = currentCategories();
+
+    sortWrong();
+
+    const state = useCategorySortStore.getState();
+    expect(state.score).toBe(0);
+    expect(state.lastPlacement?.correct).toBe(false);
+    expect(state.lastPlacement?.actual).toBe(actual);
+    expect(state.lastPlacement?.chosen).not.toBe(actual);
+  });
+
+  it("accepts any of a card's categories for list fields", () => {
+    useCategorySortStore.setState({ field: "genres" });
+    const cards = [makeCard("b", "SNES", ["RPG", "Action"]), makeCard("e", "MD", ["Racing"])];
+    useCategorySortStore.getState().startGame({ cards, fields: FIELDS });
+    useCategorySortStore.setState({ currentCardId: "b" });
+
+    useCategorySortStore.getState().sortCard("RPG");
+    expect(useCategorySortStore.getState().lastPlacement?.correct).toBe(true);
+  });
+
+  it("ignores sorts into a bin that is not in play", () => {
+    useCategorySortStore.getState().startGame({ cards: CARDS, fields: FIELDS });
+
+    useCategorySortStore.getState().sortCard("Neo Geo");
+    expect(useCategorySortStore.getState().phase).toBe("sorting");
+  });
+
+  it("ends after the chosen number of cards", () => {
+    useCategorySortStore.setState({ cardCount: 10, binCount: 2 });
+    useCategorySortStore.getState().startGame({ cards: CARDS, fields: FIELDS });
+
+    for (let round = 0; round < CARDS.length; round++) {
+      if (useCategorySortStore.getState().phase !== "sorting") break;
+      sortRight();
+      useCategorySortStore.getState().nextCard();
+    }
+
+    const state = useCategorySortStore.getState();
+    expect(state.phase).toBe("game_over");
+    expect(state.placements).toHaveLength(5);
+    expect(state.score).toBe(5);
+  });
+
+  it("ends a timed game when time is up", () => {
+    useCategorySortStore.setState({ mode: "timed", timeLimit: 30 });
+    useCategorySortStore.getState().startGame({ cards: CARDS, fields: FIELDS });
+    sortRight();
+
+    useCategorySortStore.getState().timeUp();
+
+    const state = useCategorySortStore.getState();
+    expect(state.phase).toBe("game_over");
+    expect(state.gameEndedAt).toBe(state.gameStartedAt + 30000);
+  });
+
+  it("ignores the clock in untimed games", () => {
+    useCategorySortStore.getState().startGame({ cards: CARDS, fields: FIELDS });
+
+    useCategorySortStore.getState().timeUp();
+    expect(useCategorySortStore.getState().phase).toBe("sorting");
+  });
+
+  it("deals the same game for the same seed", () => {
+    useCategorySortStore.getState().startGame({ cards: CARDS, fields: FIELDS });
+    const first = useCategorySortStore.getState();
+
+    useCategorySortStore.getState().resetGame();
+    useCategorySortStore.getState().startGame({ cards: [...CARDS].reverse(), fields: FIELDS });
+    const second = useCategorySortStore.getState();
+
+    expect([second.currentCardId, ...second.deck]).toEqual([first.currentCardId, ...first.deck]);
+  });
+});
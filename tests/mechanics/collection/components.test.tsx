@@ -123,4 +123,45 @@ describe("CollectionCardOverlay", () => {
 
     expect(useCollectionStore.getState().getStatus("card-1")).toBe("none");
   });
+
+  it("should not show the copies button for wishlisted cards", () => {
+    useCollectionStore.getState().setOwnership("card-1", "wishlist");
+
+    render(<CollectionCardOverlay cardId="card-1" />);
+
+    expect(screen.queryByTitle("Ownership details")).toBeNull();
+  });
+
+  it("should edit copy details from the copies button", () => {
+    useCollectionStore.getState().setOwnership("card-1", "owned");
+
+    render(<CollectionCardOverlay cardId="card-1" />);
+
+    fireEvent.click(screen.getByTitle("Ownership details"));
+    fireEvent.change(screen.getByLabelText("Condition"), { target: { value: "mint" } });
+    fireEvent.click(screen.getByLabelText("Boxed"));
+    fireEvent.click(screen.getByText("Add Copy"));
+    fireEvent.change(screen.getAllByLabelText("Price Paid")[1] as HTMLElement, {
+      target: { value: "12.5" },
+    });
+    fireEvent.click(screen.getByText("Save"));
+
+    expect(useCollectionStore.getState().getCopies("card-1")).toEqual([
+      { condition: "mint", boxed: true },
+      { pricePaid: 12.5 },
+    ]);
+    expect(screen.getByTitle("Ownership details")).toHaveTextContent("×2");
+  });
+
+  it("should remove the card when saving without copies", () => {
+    useCollectionStore.getState().setOwnership("card-1", "owned");
+
+    render(<CollectionCardOverlay cardId="card-1" />);
+
+    fireEvent.click(screen.getByTitle("Ownership details"));
+    fireEvent.click(screen.getByText("Remove Copy 1"));
+    fireEvent.click(screen.getByText("Save"));
+
+    expect(useCollectionStore.getState().getStatus("card-1")).toBe("none");
+  });
 });
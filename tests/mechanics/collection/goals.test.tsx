@@ -0,0 +1,164 @@
+/**
+ * Tests for collection goals: progress, store actions and components.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { act, cleanup, fireEvent, render, screen, within } from "@testing-library/react";
+import { getGoalProgress } from "@/mechanics/collection/goals";
+import { useCollectionStore } from "@/mechanics/collection/store";
+import {
+  CollectionGoalList,
+  CollectionGoalTracker,
+} from "@/mechanics/collection/components/CollectionGoals";
+import { useSettingsStore } from "@/stores/settingsStore";
+import { MAX_GOALS } from "@/mechanics/collection/types";
+
+const cards = [
+  { id: "a", title: "Chrono Trigger", platform: "SNES", genre: "RPG" },
+  { id: "b", title: "Secret of Mana", platform: "SNES", genre: "RPG" },
+  { id: "c", title: "Super Metroid", platform: "SNES", genre: "Action" },
+  { id: "d", title: "Phantasy Star", platform: "Mega Drive", genre: "RPG" },
+];
+
+vi.mock("@/context/CollectionDataContext", () => ({
+  useCollectionData: () => ({ cards }),
+}));
+
+vi.mock("framer-motion", () => ({
+  motion: {
+    div: ({ children, ...props }: React.ComponentPropsWithChildren<React.HTMLAttributes<HTMLDivElement>>) => (
+      <div {...props}>{children}</div>
+    ),
+  },
+  AnimatePresence: ({ children }: React.ComponentPropsWithChildren) => <>{children}</>,
+}));
+
+const SNES_RPGS = "platform:SNES genre:RPG";
+
+describe("getGoalProgress", () => {
+  it("counts owned and missing cards matching the query", () => {
+    const progress = getGoalProgress(cards, SNES_RPGS, (id) => id === "a", {
+      searchFields: ["title"],
+    });
+
+    expect(progress).toEqual({
+      total: 2,
+      owned: 1,
+      percentComplete: 50,
+      missingIds: ["b"],
+      isComplete: false,
+    });
+  });
+
+  it("never completes a goal with no matching cards", () => {
+    const progress = getGoalProgress(cards, "platform:N64", () => true, { searchFields: [] });
+    expect(progress?.isComplete).toBe(false);
+    expect(progress?.total).toBe(0);
+  });
+
+  it("returns null for an invalid or empty query", () => {
+    expect(getGoalProgress(cards, "(platform:SNES", () => true, { searchFields: [] })).toBeNull();
+    expect(getGoalProgress(cards, "   ", () => true, { searchFields: [] })).toBeNull();
+  });
+});
+
+describe("collection goals", () => {
+  beforeEach(() => {
+    useCollectionStore.setState({
+      isActive: true,
+      activeSourceId: "test-source",
+      collections: {},
+      goals: {},
+    });
+    useSettingsStore.setState({ searchFields: ["title"] });
+  });
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  describe("store", () => {
+    it("adds and removes goals per source", () => {
+      const store = useCollectionStore.getState();
+      const goal = store.addGoal("  SNES RPGs  ", SNES_RPGS);
+
+      expect(goal).toMatchObject({ name: "SNES RPGs", query: SNES_RPGS });
+      expect(useCollectionStore.getState().getGoals()).toHaveLength(1);
+
+      store.activate("other-source");
+      expect(useCollectionStore.getState().getGoals()).toEqual([]);
+
+      store.activate("test-source");
+      if (goal) store.removeGoal(goal.id);
+      expect(useCollectionStore.getState().getGoals()).toEqual([]);
+    });
+
+    it("rejects blank goals and caps the number of goals", () => {
+      const store = useCollectionStore.getState();
+      expect(store.addGoal("", SNES_RPGS)).toBeNull();
+      expect(store.addGoal("Name", " ")).toBeNull();
+
+      for (let i = 0; i < MAX_GOALS; i++) {
+        store.addGoal(`Goal ${String(i)}`, SNES_RPGS);
+      }
+      expect(store.addGoal("One too many", SNES_RPGS)).toBeNull();
+    });
+  });
+
+  describe("CollectionGoalList", () => {
+    it("shows progress and the missing cards for each goal", () => {
+      useCollectionStore.getState().addGoal("SNES RPGs", SNES_RPGS);
+      useCollectionStore.getState().setOwnership("a", "owned");
+
+      render(<CollectionGoalList />);
+
+      expect(screen.getByRole("progressbar", { name: "SNES RPGs" })).toHaveAttribute(
+        "aria-valuenow",
+        "50"
+      );
+      fireEvent.click(screen.getByRole("button", { name: "Show cards missing from SNES RPGs" }));
+
+      const dialog = screen.getByRole("dialog");
+      expect(within(dialog).getByText("Secret of Mana")).toBeInTheDocument();
+      expect(within(dialog).queryByText("Chrono Trigger")).toBeNull();
+    });
+
+    it("adds a goal and reports an invalid query", () => {
+      render(<CollectionGoalList />);
+      fireEvent.click(screen.getByRole("button", { name: "Add a Goal" }));
+
+      fireEvent.change(screen.getByLabelText("Name"), { target: { value: "RPGs" } });
+      fireEvent.change(screen.getByLabelText("Search Query"), { target: { value: "(genre:RPG" } });
+      fireEvent.click(screen.getByRole("button", { name: "Add Goal" }));
+      expect(screen.getByRole("alert")).toBeInTheDocument();
+
+      fireEvent.change(screen.getByLabelText("Search Query"), { target: { value: "genre:RPG" } });
+      fireEvent.click(screen.getByRole("button", { name: "Add Goal" }));
+      expect(useCollectionStore.getState().getGoals()).toMatchObject([
+        { name: "RPGs", query: "genre:RPG" },
+      ]);
+    });
+  });
+
+  describe("CollectionGoalTracker", () => {
+    it("shows a toast when a goal is completed and resets when it regresses", () => {
+      const goal = useCollectionStore.getState().addGoal("SNES RPGs", SNES_RPGS);
+      useCollectionStore.getState().setOwnership("a", "owned");
+
+      render(<CollectionGoalTracker />);
+      expect(screen.queryByRole("status")).toBeNull();
+
+      act(() => {
+        useCollectionStore.getState().setOwnership("b", "owned");
+      });
+      expect(screen.getByRole("status")).toHaveTextContent("Goal complete: SNES RPGs");
+      expect(useCollectionStore.getState().getGoals()[0]?.completedAt).toBeDefined();
+
+      act(() => {
+        useCollectionStore.getState().setOwnership("b", "none");
+      });
+      expect(useCollectionStore.getState().getGoals()[0]?.id).toBe(goal?.id);
+      expect(useCollectionStore.getState().getGoals()[0]?.completedAt).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Persistence-migration tests for the collection store.
+ *
+ * Version 0 persisted owned and wishlisted card IDs as two lists per source;
+ * version 1 persists an ownership record per card with its owned copies.
+ *
+ * The global test setup stubs localStorage with inert vi.fn()s. The store's
+ * persist captured that object by reference at import, so giving those stubs a
+ * real backing map here makes the store read and write the same storage.
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { useCollectionStore } from "@/mechanics/collection/store";
+
+const STORAGE_KEY = "itemdeck-collection-v1";
+
+describe("collection store persistence migration", () => {
+  let backing: Record<string, string>;
+
+  beforeEach(async () => {
+    backing = {};
+    const ls = localStorage as unknown as Record<string, ReturnType<typeof vi.fn>>;
+    ls.getItem.mockImplementation((k: string) =>
+      k in backing ? backing[k] : null
+    );
+    ls.setItem.mockImplementation((k: string, v: string) => {
+      backing[k] = String(v);
+    });
+    ls.removeItem.mockImplementation((k: string) => {
+      delete backing[k];
+    });
+
+    // Flush the import-time hydration so its trailing write cannot race the
+    // payload we install below.
+    await useCollectionStore.persist.rehydrate();
+    useCollectionStore.setState({ collections: {} });
+  });
+
+  it("converts owned and wishlist lists to ownership records", async () => {
+    backing[STORAGE_KEY] = JSON.stringify({
+      state: {
+        collections: {
+          "test-source": { ownedIds: ["card-1", 7], wishlistIds: ["card-2"] },
+        },
+        settings: { showProgress: false, showUnownedBadge: false, keyboardShortcuts: true },
+      },
+      version: 0,
+    });
+
+    await useCollectionStore.persist.rehydrate();
+    const store = useCollectionStore.getState();
+    store.activate("test-source");
+
+    expect(store.getStatus("card-1")).toBe("owned");
+    expect(store.getCopies("card-1")).toEqual([{}]);
+    expect(store.getStatus("card-2")).toBe("wishlist");
+    expect(useCollectionStore.getState().collections["test-source"]?.records).toEqual({
+      "card-1": { status: "owned", copies: [{}] },
+      "card-2": { status: "wishlist", copies: [] },
+    });
+    expect(useCollectionStore.getState().settings.showProgress).toBe(false);
+  });
+
+  it("drops malformed legacy collections without losing the rest", async () => {
+    backing[STORAGE_KEY] = JSON.stringify({
+      state: {
+        collections: {
+          broken: null,
+          "test-source": { ownedIds: "card-1", wishlistIds: ["card-2"] },
+        },
+      },
+      version: 0,
+    });
+
+    await useCollectionStore.persist.rehydrate();
+
+    expect(useCollectionStore.getState().collections).toEqual({
+      broken: { records: {} },
+      "test-source": { records: { "card-2": { status: "wishlist", copies: [] } } },
+    });
+  });
+});
@@ -141,6 +141,49 @@ describe("useCollectionStore", () => {
     });
   });
 
+  describe("copy details", () => {
+    beforeEach(() => {
+      useCollectionStore.getState().activate("test-source");
+    });
+
+    it("should start an owned card with one copy", () => {
+      const store = useCollectionStore.getState();
+      store.setOwnership("card-1", "owned");
+      expect(store.getCopies("card-1")).toEqual([{}]);
+    });
+
+    it("should store sanitised copies", () => {
+      const store = useCollectionStore.getState();
+      store.setCopies("card-1", [
+        { condition: "mint", pricePaid: 30, notes: "  Sealed  " },
+        { boxed: false, acquiredAt: "not a date" },
+      ]);
+
+      expect(store.getStatus("card-1")).toBe("owned");
+      expect(store.getCopies("card-1")).toEqual([
+        { condition: "mint", pricePaid: 30, notes: "Sealed" },
+        { boxed: false },
+      ]);
+    });
+
+    it("should keep copies while the card stays owned", () => {
+      const store = useCollectionStore.getState();
+      store.setCopies("card-1", [{ condition: "fair" }, {}]);
+      store.setOwnershipForCards(["card-1"], "owned");
+      expect(store.getCopies("card-1")).toHaveLength(2);
+
+      store.cycleStatus("card-1");
+      expect(store.getCopies("card-1")).toEqual([]);
+    });
+
+    it("should remove the card when no copies remain", () => {
+      const store = useCollectionStore.getState();
+      store.setOwnership("card-1", "owned");
+      store.setCopies("card-1", []);
+      expect(store.getStatus("card-1")).toBe("none");
+    });
+  });
+
   describe("per-source isolation", () => {
     it("should maintain separate collections per source", () => {
       const store = useCollectionStore.getState();
@@ -190,6 +233,19 @@ describe("useCollectionStore", () => {
       expect(store.getStatus("card-1")).toBe("owned");
     });
 
+    it("should set the status of several cards", () => {
+      const store = useCollectionStore.getState();
+      store.setOwnership("card-1", "owned");
+      store.setOwnershipForCards(["card-1", "card-2"], "wishlist");
+
+      expect(store.getStatus("card-1")).toBe("wishlist");
+      expect(store.getStatus("card-2")).toBe("wishlist");
+
+      store.setOwnershipForCards(["card-1"], "none");
+      expect(store.getStatus("card-1")).toBe("none");
+      expect(store.getStatus("card-2")).toBe("wishlist");
+    });
+
     it("should clear all ownership", () => {
       const store = useCollectionStore.getState();
       store.setOwnership("card-1", "owned");
@@ -329,6 +385,38 @@ describe("useCollectionStore", () => {
       expect(store.getStatus("card-2")).toBe("owned");
     });
 
+    it("should export and import copy details", () => {
+      const store = useCollectionStore.getState();
+      store.setCopies("card-1", [{ condition: "good", boxed: true }, { pricePaid: 10 }]);
+
+      const exported = store.exportCollection();
+      expect(exported?.copies).toEqual({
+        "card-1": [{ condition: "good", boxed: true }, { pricePaid: 10 }],
+      });
+
+      store.clearAll();
+      if (exported) store.importCollection(exported, "replace");
+      expect(store.getCopies("card-1")).toHaveLength(2);
+      expect(store.getStatus("card-2")).toBe("wishlist");
+    });
+
+    it("should give owned cards from a 1.0 export one copy", () => {
+      const store = useCollectionStore.getState();
+
+      store.importCollection(
+        {
+          version: "1.0",
+          sourceId: "test-source",
+          exportedAt: new Date().toISOString(),
+          owned: ["card-3"],
+          wishlist: [],
+        },
+        "merge"
+      );
+
+      expect(store.getCopies("card-3")).toEqual([{}]);
+    });
+
     it("should return null export when no active source", () => {
       useCollectionStore.setState({ activeSourceId: null });
       const exported = useCollectionStore.getState().exportCollection();
@@ -5,6 +5,7 @@
 import { describe, expect, it } from "vitest";
 import {
   isValidCollectionExport,
+  normaliseCopy,
   EXPORT_VERSION,
 } from "@/mechanics/collection/types";
 import type { CollectionExport } from "@/mechanics/collection/types";
@@ -48,9 +49,34 @@ describe("isValidCollectionExport", () => {
     expect(isValidCollectionExport([])).toBe(false);
   });
 
+  it("should return true for a 1.0 export", () => {
+    const legacyExport = {
+      version: "1.0",
+      sourceId: "test-source",
+      exportedAt: new Date().toISOString(),
+      owned: ["card-1"],
+      wishlist: [],
+    };
+
+    expect(isValidCollectionExport(legacyExport)).toBe(true);
+  });
+
+  it("should return false for non-object copies", () => {
+    const invalidExport = {
+      version: EXPORT_VERSION,
+      sourceId: "test-source",
+      exportedAt: new Date().toISOString(),
+      owned: ["card-1"],
+      wishlist: [],
+      copies: { "card-1": "mint" },
+    };
+
+    expect(isValidCollectionExport(invalidExport)).toBe(false);
+  });
+
   it("should return false for wrong version", () => {
     const invalidExport = {
-      version: "2.0",
+      version: "3.0",
       sourceId: "test-source",
       exportedAt: new Date().toISOString(),
       owned: [],
@@ -152,3 +178,37 @@ describe("isValidCollectionExport", () => {
     expect(isValidCollectionExport(invalidExport)).toBe(false);
   });
 });
+
+describe("normaliseCopy", () => {
+  it("should keep well-formed fields", () => {
+    const copy = {
+      condition: "near-mint",
+      boxed: true,
+      manual: false,
+      pricePaid: 24.5,
+      acquiredAt: "2024-03-01",
+      location: " Shelf 2 ",
+      notes: "Signed",
+    };
+
+    expect(normaliseCopy(copy)).toEqual({ ...copy, location: "Shelf 2" });
+  });
+
+  it("should drop malformed fields", () => {
+    expect(
+      normaliseCopy({
+        condition: "pristine",
+        boxed: "yes",
+        pricePaid: -5,
+        acquiredAt: "March 2024",
+        location: "   ",
+      })
+    ).toEqual({});
+  });
+
+  it("should return empty details for non-objects", () => {
+    expect(normaliseCopy(null)).toEqual({});
+    expect(normaliseCopy("mint")).toEqual({});
+    expect(normaliseCopy([])).toEqual({});
+  });
+});
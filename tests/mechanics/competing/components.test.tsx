@@ -23,6 +23,7 @@ import type { NumericFieldInfo } from "@/mechanics/competing/types";
 vi.mock("@/context/CollectionDataContext", () => ({
   useCollectionData: () => ({
     cards: [],
+    computedFields: [],
     isLoading: false,
     error: null,
   }),
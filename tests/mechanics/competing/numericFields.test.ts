@@ -182,6 +182,19 @@ describe("numericFields", () => {
       expect(fields[0]?.key).toBe("attack");
     });
 
+    it("should rank preferred fields ahead of wider-ranging ones", () => {
+      const cards = [
+        { a: 0, b: 0, c: 0, d: 0, e: 0, age: 30 },
+        { a: 1000, b: 900, c: 800, d: 700, e: 600, age: 35 },
+      ];
+
+      const fields = detectNumericFields(cards, ["age"]);
+
+      // Without the preference, "age" (range 5) falls past the display cap
+      expect(fields[0]?.key).toBe("age");
+      expect(fields).toHaveLength(5);
+    });
+
     it("should handle string numbers mixed with numbers", () => {
       const cards = [{ attack: 80 }, { attack: "90" }, { attack: 70 }];
 
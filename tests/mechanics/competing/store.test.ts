@@ -64,6 +64,7 @@ describe("useCompetingStore", () => {
       cardData: {},
       playerSelectionHistory: [],
       errorMessage: null,
+      seed: null,
     });
   });
 
@@ -549,4 +550,38 @@ describe("useCompetingStore", () => {
       expect(state.playerSelectionHistory).toEqual([]);
     });
   });
+
+  describe("seeded games", () => {
+    const manyCards = Array.from({ length: 12 }, (_, i) => ({
+      id: `card${String(i)}`,
+      title: `Hero ${String(i)}`,
+      attack: 50 + i,
+      defence: 40 + i,
+    }));
+
+    function dealWith(cards: typeof manyCards): { playerDeck: string[]; cpuDeck: string[] } {
+      const store = useCompetingStore.getState();
+      store.activate();
+      store.initGame({ ...sampleConfig, cards });
+      const { playerDeck, cpuDeck } = useCompetingStore.getState();
+      return { playerDeck, cpuDeck };
+    }
+
+    it("deals the same split for the same seed, whatever the card order", () => {
+      useCompetingStore.getState().setSeed(42);
+      const first = dealWith(manyCards);
+      const second = dealWith([...manyCards].reverse());
+
+      expect(second).toEqual(first);
+    });
+
+    it("deals differently for a different seed", () => {
+      useCompetingStore.getState().setSeed(42);
+      const first = dealWith(manyCards);
+      useCompetingStore.getState().setSeed(43);
+      const second = dealWith(manyCards);
+
+      expect(second).not.toEqual(first);
+    });
+  });
 });
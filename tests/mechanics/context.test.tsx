@@ -10,6 +10,8 @@ import { render, act, cleanup } from "@testing-library/react";
 import { MechanicProvider, useMechanicContext } from "@/mechanics/context";
 import { mechanicRegistry } from "@/mechanics/registry";
 import { useSettingsStore } from "@/stores/settingsStore";
+import { getEarnedAt, useAchievementsStore } from "@/stores/achievementsStore";
+import { createMechanicEvents } from "@/mechanics/shared/utils";
 import type { Mechanic } from "@/mechanics/types";
 
 const TEST_ID = "test-mech";
@@ -87,3 +89,65 @@ describe("MechanicProvider - store-sync deactivation", () => {
     expect(useSettingsStore.getState()._mechanicOverridesBackup).toBeNull();
   });
 });
+
+describe("MechanicProvider - achievements", () => {
+  const events = createMechanicEvents();
+
+  beforeEach(() => {
+    useSettingsStore.getState().resetToDefaults();
+    useAchievementsStore.setState({ earned: {}, unlocked: [] });
+    mechanicRegistry.register(TEST_ID, () =>
+      Promise.resolve({
+        ...makeMechanic(),
+        achievements: [
+          {
+            id: "win",
+            name: "Winner",
+            description: "Win a game",
+            event: "game-complete",
+            criteria: [{ field: "won", equals: true }],
+          },
+        ],
+        subscribeEvents: events.subscribe,
+      })
+    );
+    contextValue = null;
+  });
+
+  afterEach(() => {
+    cleanup();
+    if (mechanicRegistry.has(TEST_ID)) {
+      mechanicRegistry.unregister(TEST_ID);
+    }
+  });
+
+  it("records the active mechanic's events until it is deactivated", async () => {
+    render(
+      <MechanicProvider>
+        <CaptureContext />
+      </MechanicProvider>
+    );
+
+    await act(async () => {
+      await contextValue?.activateMechanic(TEST_ID);
+    });
+
+    act(() => {
+      events.emit({ type: "game-complete", data: { won: false } });
+    });
+    expect(getEarnedAt(useAchievementsStore.getState().earned, TEST_ID, "win")).toBeNull();
+
+    act(() => {
+      events.emit({ type: "game-complete", data: { won: true } });
+    });
+    expect(getEarnedAt(useAchievementsStore.getState().earned, TEST_ID, "win")).not.toBeNull();
+    expect(useAchievementsStore.getState().unlocked).toHaveLength(1);
+
+    act(() => {
+      contextValue?.deactivateMechanic();
+    });
+    useAchievementsStore.setState({ earned: {}, unlocked: [] });
+    events.emit({ type: "game-complete", data: { won: true } });
+    expect(useAchievementsStore.getState().earned).toEqual({});
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Tests for Higher or Lower store.
+ */
+
+import { beforeEach, describe, expect, it } from "vitest";
+import { isCorrectGuess, useHigherLowerStore } from "@/mechanics/higher-lower/store";
+import { DEFAULT_SETTINGS, type HigherLowerCard } from "@/mechanics/higher-lower/types";
+import type { NumericFieldInfo } from "@/mechanics/competing/types";
+
+const FIELDS: NumericFieldInfo[] = [
+  { key: "year", label: "Year", min: 1980, max: 2020, higherIsBetter: true },
+  { key: "score", label: "Score", min: 1, max: 10, higherIsBetter: true },
+];
+
+function makeCard(id: string, values: Record<string, number>): HigherLowerCard {
+  return { id, title: id, imageUrl: "", values };
+}
+
+const CARDS = [
+  makeCard("a", { year: 1980, score: 5 }),
+  makeCard("b", { year: 1990, score: 3 }),
+  makeCard("c", { year: 2000, score: 8 }),
+  makeCard("d", { year: 2010 }),
+  makeCard("e", { year: 2020, score: 1 }),
+];
+
+/**
+ * Guess correctly for the current round.
+ */
+function guessRight(): void {
+  const { cards, currentCardId, nextCardId, roundStat, guess } = useHigherLowerStore.getState();
+  const current = cards[currentCardId ?? ""]?.values[roundStat ?? ""] ?? 0;
+  const next = cards[nextCardId ?? ""]?.values[roundStat ?? ""] ?? 0;
+  guess(next >= current ? "higher" : "lower");
+}
+
+/**
+ * Guess wrongly for the current round (rounds here never tie).
+ */
+function guessWrong(): void {
+  const { cards, currentCardId, nextCardId, roundStat, guess } = useHigherLowerStore.getState();
+  const current = cards[currentCardId ?? ""]?.values[roundStat ?? ""] ?? 0;
+  const next = cards[nextCardId ?? ""]?.values[roundStat ?? ""] ?? 0;
+  guess(next >= current ? "lower" : "higher");
+}
+
+describe("isCorrectGuess", () => {
+  it("compares the next value with the shown one", () => {
+    expect(isCorrectGuess("higher", 1990, 2001)).toBe(true);
+    expect(isCorrectGuess("lower", 1990, 2001)).toBe(false);
+    expect(isCorrectGuess("lower", 2001, 1990)).toBe(true);
+  });
+
+  it("counts equal values as correct either way", () => {
+    expect(isCorrectGuess("higher", 1990, 1990)).toBe(true);
+    expect(isCorrectGuess("lower", 1990, 1990)).toBe(true);
+  });
+});
+
+describe("useHigherLowerStore", () => {
+  beforeEach(() => {
+    useHigherLowerStore.getState().deactivate();
+    useHigherLowerStore.setState({ ...DEFAULT_SETTINGS, seed: 7 });
+    useHigherLowerStore.getState().activate();
+  });
+
+  it("deals a shown card and a next card sharing the round's stat", () => {
+    useHigherLowerStore.getState().startGame({ cards: CARDS, fields: FIELDS });
+
+    const state = useHigherLowerStore.getState();
+    expect(state.phase).toBe("guessing");
+    expect(state.livesLeft).toBe(3);
+    expect(state.roundStat).not.toBeNull();
+    const stat = state.roundStat ?? "";
+    expect(state.cards[state.currentCardId ?? ""]?.values).toHaveProperty(stat);
+    expect(state.cards[state.nextCardId ?? ""]?.values).toHaveProperty(stat);
+    expect(state.getRoundField()?.key).toBe(stat);
+  });
+
+  it("plays every round on a chosen stat", () => {
+    useHigherLowerStore.setState({ stat: "score" });
+    useHigherLowerStore.getState().startGame({ cards: CARDS, fields: FIELDS });
+
+    const state = useHigherLowerStore.getState();
+    expect(state.fields.map((field) => field.key)).toEqual(["score"]);
+    // The card without a score is left out
+    expect(Object.keys(state.cards)).not.toContain("d");
+    expect(state.roundStat).toBe("score");
+  });
+
+  it("falls back to random stats when the chosen stat is missing", () => {
+    useHigherLowerStore.setState({ stat: "weight" });
+    useHigherLowerStore.getState().startGame({ cards: CARDS, fields: FIELDS });
+
+    expect(useHigherLowerStore.getState().fields).toEqual(FIELDS);
+  });
+
+  it("reports an error without numeric stats", () => {
+    useHigherLowerStore.getState().startGame({ cards: CARDS, fields: [] });
+
+    const state = useHigherLowerStore.getState();
+    expect(state.phase).toBe("setup");
+    expect(state.errorMessage).toContain("No numeric stats");
+  });
+
+  it("builds a streak and reveals before moving on", () => {
+    useHigherLowerStore.getState().startGame({ cards: CARDS, fields: FIELDS });
+    const { nextCardId } = useHigherLowerStore.getState();
+
+    guessRight();
+    let state = useHigherLowerStore.getState();
+    expect(state.phase).toBe("reveal");
+    expect(state.lastResult?.correct).toBe(true);
+    expect(state.score).toBe(1);
+    expect(state.streak).toBe(1);
+
+    state.nextRound();
+    state = useHigherLowerStore.getState();
+    expect(state.phase).toBe("guessing");
+    expect(state.currentCardId).toBe(nextCardId);
+    expect(state.lastResult).toBeNull();
+  });
+
+  it("loses a life and the streak on a wrong guess", () => {
+    useHigherLowerStore.getState().startGame({ cards: CARDS, fields: FIELDS });
+
+    guessRight();
+    useHigherLowerStore.getState().nextRound();
+    guessWrong();
+
+    const state = useHigherLowerStore.getState();
+    expect(state.livesLeft).toBe(2);
+    expect(state.streak).toBe(0);
+    expect(state.bestStreak).toBe(1);
+  });
+
+  it("ends when the last life is lost", () => {
+    useHigherLowerStore.setState({ lives: 1 });
+    useHigherLowerStore.getState().startGame({ cards: CARDS, fields: FIELDS });
+
+    guessWrong();
+    expect(useHigherLowerStore.getState().gameEndedAt).not.toBeNull();
+
+    useHigherLowerStore.getState().nextRound();
+    expect(useHigherLowerStore.getState().phase).toBe("game_over");
+  });
+
+  it("ends a speed run on reaching the target", () => {
+    useHigherLowerStore.setState({ target: 10 });
+    useHigherLowerStore.getState().startGame({ cards: CARDS, fields: FIELDS });
+    useHigherLowerStore.setState({ score: 9 });
+
+    guessRight();
+    useHigherLowerStore.getState().nextRound();
+
+    const state = useHigherLowerStore.getState();
+    expect(state.phase).toBe("game_over");
+    expect(state.score).toBe(10);
+  });
+
+  it("ends when the deck runs out", () => {
+    useHigherLowerStore.getState().startGame({ cards: CARDS, fields: FIELDS });
+
+    for (let round = 0; round < CARDS.length; round++) {
+      if (useHigherLowerStore.getState().phase !== "guessing") break;
+      guessRight();
+      useHigherLowerStore.getState().nextRound();
+    }
+
+    const state = useHigherLowerStore.getState();
+    expect(state.phase).toBe("game_over");
+    expect(state.livesLeft).toBe(3);
+  });
+
+  it("deals the same game for the same seed", () => {
+    useHigherLowerStore.getState().startGame({ cards: CARDS, fields: FIELDS });
+    const first = useHigherLowerStore.getState();
+
+    useHigherLowerStore.getState().resetGame();
+    useHigherLowerStore.getState().startGame({ cards: [...CARDS].reverse(), fields: FIELDS });
+    const second = useHigherLowerStore.getState();
+
+    expect([second.currentCardId, second.nextCardId, second.roundStat]).toEqual([
+      first.currentCardId,
+      first.nextCardId,
+      first.roundStat,
+    ]);
+  });
+});
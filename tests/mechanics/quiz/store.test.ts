@@ -220,3 +220,42 @@ describe("getResults", () => {
     expect(results.percentage).toBe(0);
   });
 });
+
+describe("seeded quizzes", () => {
+  const cards = Array.from({ length: 12 }, (_, i) => ({
+    id: `card-${String(i)}`,
+    title: `Card ${String(i)}`,
+    imageUrl: `https://example.com/${String(i)}.jpg`,
+  }));
+
+  afterEach(() => {
+    useQuizStore.getState().setSeed(null);
+    useQuizStore.getState().deactivate();
+  });
+
+  /** Start a quiz and describe what the player would see. */
+  function playSeeded(seed: number, deck: typeof cards): string[] {
+    useQuizStore.getState().deactivate();
+    useQuizStore.setState({ enabledQuestionTypes: ["imageToName"], questionCount: 5 });
+    useQuizStore.getState().setSeed(seed);
+    useQuizStore.getState().startQuiz(deck);
+
+    return useQuizStore.getState().questions.map((question, index) => {
+      useQuizStore.setState({ currentIndex: index });
+      const labels = useQuizStore.getState().getShuffledAnswers().map((a) => a.label);
+      return `${question.relatedCardId}: ${labels.join(", ")}`;
+    });
+  }
+
+  it("asks the same questions with the same answer order for the same seed", () => {
+    const first = playSeeded(7, cards);
+    const second = playSeeded(7, [...cards].reverse());
+
+    expect(first).toHaveLength(5);
+    expect(second).toEqual(first);
+  });
+
+  it("asks different questions for a different seed", () => {
+    expect(playSeeded(8, cards)).not.toEqual(playSeeded(7, cards));
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Tests for My Ranking export.
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  buildRankingRows,
+  formatRankingCsv,
+  formatRankingMarkdown,
+} from "@/mechanics/ranking/export";
+import type { CardRating } from "@/utils/eloRanking";
+
+const CARDS = [
+  { id: "a", title: "Alpha" },
+  { id: "b", title: "Bravo, Deluxe" },
+  { id: "c", title: "=Charlie|Edition" },
+  { id: "d", title: "Delta" },
+];
+
+const RATINGS: Record<string, CardRating> = {
+  a: { rating: 1450.4, comparisons: 3 },
+  b: { rating: 1612.6, comparisons: 4 },
+  c: { rating: 1530, comparisons: 2 },
+};
+
+describe("buildRankingRows", () => {
+  it("lists compared cards favourite first with rounded ratings", () => {
+    expect(buildRankingRows(CARDS, RATINGS)).toEqual([
+      { rank: 1, id: "b", title: "Bravo, Deluxe", rating: 1613, comparisons: 4 },
+      { rank: 2, id: "c", title: "=Charlie|Edition", rating: 1530, comparisons: 2 },
+      { rank: 3, id: "a", title: "Alpha", rating: 1450, comparisons: 3 },
+    ]);
+  });
+});
+
+describe("formatRankingCsv", () => {
+  it("writes a header and escaped rows", () => {
+    const csv = formatRankingCsv(buildRankingRows(CARDS, RATINGS));
+
+    expect(csv.split("\n")).toEqual([
+      "rank,title,id,rating,comparisons",
+      '1,"Bravo, Deluxe",b,1613,4',
+      "2,'=Charlie|Edition,c,1530,2",
+      "3,Alpha,a,1450,3",
+    ]);
+  });
+});
+
+describe("formatRankingMarkdown", () => {
+  it("writes a table with escaped cells", () => {
+    const markdown = formatRankingMarkdown(buildRankingRows(CARDS, RATINGS), "My Ranking: Games");
+
+    expect(markdown).toContain("# My Ranking: Games");
+    expect(markdown).toContain("| Rank | Title | Rating | Comparisons |");
+    expect(markdown).toContain("| 1 | Bravo, Deluxe | 1613 | 4 |");
+    expect(markdown).toContain("| 2 | =Charlie\\|Edition | 1530 | 2 |");
+  });
+
+  it("notes an empty ranking", () => {
+    expect(formatRankingMarkdown([], "My Ranking")).toBe("# My Ranking\n\nNo cards ranked yet.");
+  });
+});
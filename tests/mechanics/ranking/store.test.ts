@@ -0,0 +1,152 @@
+/**
+ * Tests for My Ranking session store.
+ */
+
+import { beforeEach, describe, expect, it } from "vitest";
+import { useRankingSessionStore } from "@/mechanics/ranking/store";
+import { DEFAULT_SETTINGS, type RankingCard } from "@/mechanics/ranking/types";
+import { getSourceRanking, useRankingStore } from "@/stores/rankingStore";
+import { countComparisons } from "@/utils/eloRanking";
+
+const SOURCE = "https://example.com/collections/games";
+
+/** Cards in order of preference */
+const CARD_IDS = ["a", "b", "c", "d", "e", "f", "g", "h"];
+const CARDS: RankingCard[] = CARD_IDS.map((id) => ({
+  id,
+  title: `Game ${id.toUpperCase()}`,
+  imageUrl: "",
+}));
+
+/**
+ * Prefer the card that comes first in CARDS.
+ */
+function chooseFavourite(): void {
+  const { pair, choose } = useRankingSessionStore.getState();
+  if (!pair) throw new Error("No pair shown");
+  choose(pair[0] < pair[1] ? pair[0] : pair[1]);
+}
+
+function savedComparisons(): number {
+  return countComparisons(getSourceRanking(useRankingStore.getState().rankings, SOURCE).wins);
+}
+
+describe("useRankingSessionStore", () => {
+  beforeEach(() => {
+    useRankingStore.setState({ rankings: {} });
+    useRankingSessionStore.getState().deactivate();
+    useRankingSessionStore.setState({ ...DEFAULT_SETTINGS });
+    useRankingSessionStore.getState().activate();
+  });
+
+  it("shows a pair of different cards", () => {
+    useRankingSessionStore.getState().startSession({ sourceId: SOURCE, cards: CARDS });
+
+    const state = useRankingSessionStore.getState();
+    expect(state.phase).toBe("comparing");
+    expect(state.pair).toHaveLength(2);
+    expect(state.pair?.[0]).not.toBe(state.pair?.[1]);
+    expect(state.settled).toBe(false);
+  });
+
+  it("reports an error with fewer than two cards", () => {
+    useRankingSessionStore.getState().startSession({ sourceId: SOURCE, cards: CARDS.slice(0, 1) });
+
+    const state = useRankingSessionStore.getState();
+    expect(state.phase).toBe("setup");
+    expect(state.errorMessage).toContain("at least 2 cards");
+  });
+
+  it("saves each preference for the source and refits ratings", () => {
+    useRankingSessionStore.getState().startSession({ sourceId: SOURCE, cards: CARDS });
+    const { pair } = useRankingSessionStore.getState();
+
+    chooseFavourite();
+
+    const state = useRankingSessionStore.getState();
+    expect(savedComparisons()).toBe(1);
+    expect(state.sessionComparisons).toBe(1);
+    expect(Object.keys(state.ratings).sort()).toEqual([...(pair ?? [])].sort());
+  });
+
+  it("ignores a choice that is not in the pair", () => {
+    useRankingSessionStore.getState().startSession({ sourceId: SOURCE, cards: CARDS });
+    const { pair } = useRankingSessionStore.getState();
+    const outsider = CARDS.find((card) => !pair?.includes(card.id))?.id ?? "";
+
+    useRankingSessionStore.getState().choose(outsider);
+
+    expect(savedComparisons()).toBe(0);
+    expect(useRankingSessionStore.getState().sessionComparisons).toBe(0);
+  });
+
+  it("skips a pair without saving a preference", () => {
+    useRankingSessionStore.getState().startSession({ sourceId: SOURCE, cards: CARDS });
+    const { pair } = useRankingSessionStore.getState();
+
+    useRankingSessionStore.getState().skip();
+
+    const state = useRankingSessionStore.getState();
+    expect(state.skipped).toBe(1);
+    expect(savedComparisons()).toBe(0);
+    expect([...(state.pair ?? [])].sort()).not.toEqual([...(pair ?? [])].sort());
+  });
+
+  it("ends the session after the chosen number of comparisons", () => {
+    useRankingSessionStore.setState({ sessionLength: 10 });
+    useRankingSessionStore.getState().startSession({ sourceId: SOURCE, cards: CARDS });
+
+    for (let i = 0; i < 10; i++) chooseFavourite();
+
+    const state = useRankingSessionStore.getState();
+    expect(state.phase).toBe("complete");
+    expect(state.sessionComparisons).toBe(10);
+    expect(state.sessionEndedAt).not.toBeNull();
+  });
+
+  it("runs until the ranking settles into the preferred order", () => {
+    useRankingSessionStore.setState({ sessionLength: 0 });
+    useRankingSessionStore.getState().startSession({ sourceId: SOURCE, cards: CARDS });
+
+    for (let i = 0; i < 200 && useRankingSessionStore.getState().phase === "comparing"; i++) {
+      chooseFavourite();
+    }
+
+    const state = useRankingSessionStore.getState();
+    expect(state.phase).toBe("complete");
+    expect(state.settled).toBe(true);
+    const ranked = Object.keys(state.ratings).sort(
+      (a, b) => (state.ratings[b]?.rating ?? 0) - (state.ratings[a]?.rating ?? 0)
+    );
+    expect(ranked).toEqual(CARD_IDS);
+  });
+
+  it("keeps refining a settled ranking without finishing again", () => {
+    useRankingSessionStore.setState({ sessionLength: 0 });
+    useRankingSessionStore.getState().startSession({ sourceId: SOURCE, cards: CARDS });
+    for (let i = 0; i < 200 && useRankingSessionStore.getState().phase === "comparing"; i++) {
+      chooseFavourite();
+    }
+
+    useRankingSessionStore.getState().keepRanking();
+    chooseFavourite();
+
+    const state = useRankingSessionStore.getState();
+    expect(state.phase).toBe("comparing");
+    expect(state.refining).toBe(true);
+    expect(state.sessionComparisons).toBe(1);
+  });
+
+  it("resumes from the saved ranking in a new session", () => {
+    useRankingSessionStore.getState().startSession({ sourceId: SOURCE, cards: CARDS });
+    chooseFavourite();
+    chooseFavourite();
+
+    useRankingSessionStore.getState().resetGame();
+    useRankingSessionStore.getState().startSession({ sourceId: SOURCE, cards: CARDS });
+
+    const state = useRankingSessionStore.getState();
+    expect(state.sessionComparisons).toBe(0);
+    expect(Object.keys(state.ratings).length).toBeGreaterThan(0);
+  });
+});
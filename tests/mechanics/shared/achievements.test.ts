@@ -0,0 +1,89 @@
+/**
+ * Tests for achievement matching and mechanic events.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { createMechanicEvents, matchesAchievement } from "@/mechanics/shared/utils";
+import type { AchievementDefinition } from "@/mechanics/types";
+
+function makeDefinition(overrides: Partial<AchievementDefinition> = {}): AchievementDefinition {
+  return {
+    id: "test",
+    name: "Test",
+    description: "Test achievement",
+    event: "game-complete",
+    criteria: [],
+    ...overrides,
+  };
+}
+
+describe("matchesAchievement", () => {
+  it("requires the event type", () => {
+    const definition = makeDefinition();
+    expect(matchesAchievement(definition, { type: "game-complete", data: {} })).toBe(true);
+    expect(matchesAchievement(definition, { type: "answer", data: {} })).toBe(false);
+  });
+
+  it("checks equality, minimum and maximum criteria", () => {
+    const definition = makeDefinition({
+      criteria: [
+        { field: "difficulty", equals: "extreme" },
+        { field: "pairs", min: 6 },
+        { field: "misses", max: 0 },
+      ],
+    });
+
+    expect(
+      matchesAchievement(definition, {
+        type: "game-complete",
+        data: { difficulty: "extreme", pairs: 6, misses: 0 },
+      })
+    ).toBe(true);
+    expect(
+      matchesAchievement(definition, {
+        type: "game-complete",
+        data: { difficulty: "hard", pairs: 6, misses: 0 },
+      })
+    ).toBe(false);
+    expect(
+      matchesAchievement(definition, {
+        type: "game-complete",
+        data: { difficulty: "extreme", pairs: 4, misses: 0 },
+      })
+    ).toBe(false);
+    expect(
+      matchesAchievement(definition, {
+        type: "game-complete",
+        data: { difficulty: "extreme", pairs: 6, misses: 1 },
+      })
+    ).toBe(false);
+  });
+
+  it("fails criteria on missing or non-numeric fields", () => {
+    const definition = makeDefinition({ criteria: [{ field: "streak", min: 10 }] });
+    expect(matchesAchievement(definition, { type: "game-complete", data: {} })).toBe(false);
+    expect(
+      matchesAchievement(definition, { type: "game-complete", data: { streak: "12" } })
+    ).toBe(false);
+  });
+
+  it("ignores inherited properties", () => {
+    const definition = makeDefinition({ criteria: [{ field: "toString" }] });
+    expect(matchesAchievement(definition, { type: "game-complete", data: {} })).toBe(false);
+  });
+});
+
+describe("createMechanicEvents", () => {
+  it("delivers events to subscribers until they unsubscribe", () => {
+    const events = createMechanicEvents();
+    const listener = vi.fn();
+    const unsubscribe = events.subscribe(listener);
+
+    events.emit({ type: "goal-complete", data: {} });
+    unsubscribe();
+    events.emit({ type: "goal-complete", data: {} });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ type: "goal-complete", data: {} });
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Tests for seeded game challenges.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  buildChallengeUrl,
+  createGameRandom,
+  getChallengeDateKey,
+  getDailySeed,
+  inSeedOrder,
+  parseChallengeParams,
+  parseSeed,
+} from "@/mechanics/shared/utils";
+import { shuffle } from "@/utils/shuffle";
+
+const SOURCE = "https://cdn.jsdelivr.net/gh/REPPL/MyPlausibleMe@main/data/collections/commercials";
+
+describe("seeded shuffle", () => {
+  const items = Array.from({ length: 20 }, (_, i) => i);
+
+  it("reproduces the same order for the same seed", () => {
+    expect(shuffle(items, createGameRandom(1234))).toEqual(shuffle(items, createGameRandom(1234)));
+  });
+
+  it("gives different orders for different seeds", () => {
+    expect(shuffle(items, createGameRandom(1234))).not.toEqual(shuffle(items, createGameRandom(1235)));
+  });
+
+  it("keeps every item", () => {
+    expect([...shuffle(items, createGameRandom(99))].sort((a, b) => a - b)).toEqual(items);
+  });
+});
+
+describe("inSeedOrder", () => {
+  it("sorts by ID independent of the starting order", () => {
+    const cards = [{ id: "b" }, { id: "a" }, { id: "C" }];
+    expect(inSeedOrder(cards, (card) => card.id).map((card) => card.id)).toEqual(["C", "a", "b"]);
+  });
+});
+
+describe("parseSeed", () => {
+  it("accepts unsigned 32-bit integers", () => {
+    expect(parseSeed(0)).toBe(0);
+    expect(parseSeed("4294967295")).toBe(4294967295);
+  });
+
+  it("rejects anything else", () => {
+    expect(parseSeed("-1")).toBeNull();
+    expect(parseSeed("4294967296")).toBeNull();
+    expect(parseSeed(1.5)).toBeNull();
+    expect(parseSeed("12abc")).toBeNull();
+    expect(parseSeed(null)).toBeNull();
+  });
+});
+
+describe("daily challenge", () => {
+  it("uses the local calendar date", () => {
+    expect(getChallengeDateKey(new Date(2026, 0, 5, 23, 30))).toBe("2026-01-05");
+  });
+
+  it("gives the same seed all day for a collection", () => {
+    const morning = new Date(2026, 9, 19, 8);
+    const evening = new Date(2026, 9, 19, 22);
+    expect(getDailySeed(SOURCE, morning)).toBe(getDailySeed(SOURCE, evening));
+  });
+
+  it("changes with the date and the collection", () => {
+    const day = new Date(2026, 9, 19);
+    const nextDay = new Date(2026, 9, 20);
+    expect(getDailySeed(SOURCE, nextDay)).not.toBe(getDailySeed(SOURCE, day));
+    expect(getDailySeed(`${SOURCE}-other`, day)).not.toBe(getDailySeed(SOURCE, day));
+  });
+});
+
+describe("challenge links", () => {
+  it("round-trips the mechanic, seed and settings", () => {
+    const url = buildChallengeUrl(
+      { mechanicId: "memory", seed: 42, settings: { difficulty: "hard", pairCount: 8 } },
+      SOURCE,
+      "https://itemdeck.app"
+    );
+    const parsed = new URL(url);
+
+    expect(parsed.searchParams.get("collection")).toBe(SOURCE);
+    expect(parseChallengeParams(parsed.searchParams)).toEqual({
+      mechanicId: "memory",
+      seed: 42,
+      settings: { difficulty: "hard", pairCount: 8 },
+    });
+  });
+
+  it("ignores links without a valid game and seed", () => {
+    expect(parseChallengeParams(new URLSearchParams("collection=x"))).toBeNull();
+    expect(parseChallengeParams(new URLSearchParams("game=memory&seed=abc"))).toBeNull();
+    expect(parseChallengeParams(new URLSearchParams("game=Memory!&seed=1"))).toBeNull();
+  });
+
+  it("rejects malformed or oversized settings", () => {
+    expect(parseChallengeParams(new URLSearchParams("game=memory&seed=1&settings={"))).toBeNull();
+    expect(parseChallengeParams(new URLSearchParams("game=memory&seed=1&settings=[1]"))).toBeNull();
+    const huge = encodeURIComponent(JSON.stringify({ value: "x".repeat(3000) }));
+    expect(parseChallengeParams(new URLSearchParams(`game=memory&seed=1&settings=${huge}`))).toBeNull();
+  });
+
+  it("defaults to no settings", () => {
+    expect(parseChallengeParams(new URLSearchParams("game=quiz&seed=7"))?.settings).toEqual({});
+  });
+});
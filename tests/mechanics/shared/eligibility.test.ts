@@ -0,0 +1,55 @@
+/**
+ * Tests for mechanic eligibility.
+ */
+
+import { describe, expect, it } from "vitest";
+import { countCardsWithFields, hasRequiredFields } from "@/mechanics/shared/utils";
+import type { MechanicManifest } from "@/mechanics/types";
+import type { FilterField } from "@/utils/filterMatch";
+
+const manifest: MechanicManifest = {
+  id: "timeline",
+  name: "Timeline",
+  description: "Order cards by year",
+  icon: () => null,
+  version: "1.0.0",
+  requiredFields: ["year"],
+  minCards: 3,
+};
+
+describe("countCardsWithFields", () => {
+  it("counts cards with every field present and non-empty", () => {
+    const cards = [
+      { id: "a", year: "1994", title: "A" },
+      { id: "b", year: "", title: "B" },
+      { id: "c", title: "C" },
+      { id: "d", year: "2001" },
+    ];
+
+    expect(countCardsWithFields(cards, ["year"])).toBe(2);
+    expect(countCardsWithFields(cards, ["year", "title"])).toBe(1);
+  });
+});
+
+describe("hasRequiredFields", () => {
+  it("needs minCards cards carrying the required fields", () => {
+    const cards = [{ year: "1990" }, { year: "2000" }, {}];
+    expect(hasRequiredFields(manifest, cards)).toBe(false);
+    expect(hasRequiredFields(manifest, [...cards, { year: "2010" }])).toBe(true);
+  });
+
+  it("falls back to the manifest's own field check", () => {
+    const hasFields = (_cards: readonly object[], filterFields: readonly FilterField[]) =>
+      filterFields.some((field) => field.kind === "date");
+    const dateField: FilterField = { field: "releaseDate", label: "Release Date", kind: "date", options: [] };
+    const dated = [{ year: "1990" }, { year: "2000" }, { year: "2010" }];
+
+    expect(hasRequiredFields({ ...manifest, hasFields }, [])).toBe(false);
+    expect(hasRequiredFields({ ...manifest, hasFields }, [], [dateField])).toBe(true);
+    expect(hasRequiredFields({ ...manifest, hasFields }, dated)).toBe(true);
+  });
+
+  it("accepts any collection when nothing is required", () => {
+    expect(hasRequiredFields({ ...manifest, requiredFields: undefined }, [])).toBe(true);
+  });
+});
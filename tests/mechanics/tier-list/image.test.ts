@@ -0,0 +1,53 @@
+/**
+ * Tests for the tier list image layout.
+ */
+
+import { describe, it, expect } from "vitest";
+import { layoutTierListImage } from "@/mechanics/tier-list/image";
+import type { TierListCard } from "@/mechanics/tier-list/types";
+import type { TierRow } from "@/utils/tierList";
+
+function makeCards(count: number): Record<string, TierListCard> {
+  return Object.fromEntries(
+    Array.from({ length: count }, (_, i) => {
+      const id = `card-${String(i)}`;
+      return [id, { id, title: `Card ${String(i)}`, imageUrl: "" }];
+    })
+  );
+}
+
+describe("layoutTierListImage", () => {
+  const cards = makeCards(12);
+  const rows: TierRow[] = [
+    { label: "S", colour: "#ff7f7f", cardIds: Object.keys(cards) },
+    { label: "", colour: "#ffbf7f", cardIds: [] },
+  ];
+
+  it("wraps long rows and keeps empty rows one tile high", () => {
+    const layout = layoutTierListImage(rows, cards);
+    const [top, second] = layout.rows;
+
+    expect(top?.height).toBe(2 * (second?.height ?? 0));
+    expect(top?.tiles).toHaveLength(12);
+    expect(second?.label).toBe("Tier 2");
+    expect(second?.y).toBeGreaterThan((top?.y ?? 0) + (top?.height ?? 0) - 1);
+    expect(layout.height).toBe((second?.y ?? 0) + (second?.height ?? 0));
+  });
+
+  it("puts the eleventh tile on the second line", () => {
+    const { rows: [top] } = layoutTierListImage(rows, cards);
+    const first = top?.tiles[0];
+    const eleventh = top?.tiles[10];
+
+    expect(eleventh?.x).toBe(first?.x);
+    expect(eleventh?.y).toBeGreaterThan(first?.y ?? 0);
+  });
+
+  it("leaves out cards no longer in the collection", () => {
+    const layout = layoutTierListImage(
+      [{ label: "S", colour: "#ff7f7f", cardIds: ["card-0", "deleted"] }],
+      cards
+    );
+    expect(layout.rows[0]?.tiles.map((tile) => tile.cardId)).toEqual(["card-0"]);
+  });
+});
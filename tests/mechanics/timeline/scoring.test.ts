@@ -0,0 +1,127 @@
+/**
+ * Tests for Timeline scoring.
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  detectDateFields,
+  formatTimelineYear,
+  getCorrectIndex,
+  getTimelineCards,
+  getTimelineKey,
+  isPlacementCorrect,
+  parseYear,
+  scoreArrangement,
+} from "@/mechanics/timeline/scoring";
+import { timelineMechanic } from "@/mechanics/timeline";
+import type { DisplayCard } from "@/hooks/useCollection";
+import type { FilterField } from "@/utils/filterMatch";
+
+/**
+ * Collection whose only date field is releaseDate.
+ */
+const RELEASE_CARDS = [
+  { id: "smb", title: "Super Mario Bros.", imageUrl: "", releaseDate: "1985-09-13", rank: 3 },
+  { id: "zelda", title: "The Legend of Zelda", imageUrl: "", releaseDate: "1986-02-21", rank: 1 },
+  { id: "sonic", title: "Sonic the Hedgehog", imageUrl: "", releaseDate: "1991-06-23", rank: 2 },
+] as unknown as DisplayCard[];
+
+const RELEASE_FIELDS: FilterField[] = [
+  { field: "releaseDate", label: "Release Date", kind: "date", options: [] },
+  { field: "rank", label: "Rank", kind: "number", options: [] },
+];
+
+describe("parseYear", () => {
+  it("reads the first four-digit year", () => {
+    expect(parseYear("1994")).toBe(1994);
+    expect(parseYear("1994-03-12")).toBe(1994);
+    expect(parseYear("c. 1850")).toBe(1850);
+    expect(parseYear(2001)).toBe(2001);
+  });
+
+  it("rejects values without a year", () => {
+    expect(parseYear("unknown")).toBeNull();
+    expect(parseYear("12345")).toBeNull();
+    expect(parseYear(19.5)).toBeNull();
+    expect(parseYear(undefined)).toBeNull();
+  });
+});
+
+describe("getTimelineKey", () => {
+  it("groups years by decade on decade difficulty", () => {
+    expect(getTimelineKey(1994, "decade")).toBe(1990);
+    expect(getTimelineKey(1990, "decade")).toBe(1990);
+    expect(getTimelineKey(1994, "year")).toBe(1994);
+    expect(formatTimelineYear(1994, "decade")).toBe("1990s");
+    expect(formatTimelineYear(1994, "year")).toBe("1994");
+  });
+});
+
+describe("isPlacementCorrect", () => {
+  it("checks the card against both neighbours", () => {
+    expect(isPlacementCorrect([1985, 1994, 2001], 1, "year")).toBe(true);
+    expect(isPlacementCorrect([1985, 2001, 1994], 1, "year")).toBe(false);
+    expect(isPlacementCorrect([2001, 1985], 0, "year")).toBe(false);
+    expect(isPlacementCorrect([1985, 2001], 1, "year")).toBe(true);
+  });
+
+  it("allows tied years either side", () => {
+    expect(isPlacementCorrect([1994, 1994, 1994], 1, "year")).toBe(true);
+  });
+
+  it("only compares decades on decade difficulty", () => {
+    expect(isPlacementCorrect([1985, 1998, 1991], 1, "decade")).toBe(true);
+    expect(isPlacementCorrect([1985, 1998, 1991], 1, "year")).toBe(false);
+  });
+});
+
+describe("getCorrectIndex", () => {
+  it("places a year after every card not later than it", () => {
+    expect(getCorrectIndex([1985, 1994, 2001], 1990, "year")).toBe(1);
+    expect(getCorrectIndex([1985, 1994, 2001], 1994, "year")).toBe(2);
+    expect(getCorrectIndex([1985, 1994, 2001], 1970, "year")).toBe(0);
+    expect(getCorrectIndex([1985, 1994, 2001], 1991, "decade")).toBe(2);
+  });
+});
+
+describe("scoreArrangement", () => {
+  it("marks positions that match chronological order", () => {
+    expect(scoreArrangement([1985, 1994, 2001], "year")).toEqual([true, true, true]);
+    expect(scoreArrangement([1994, 1985, 2001], "year")).toEqual([false, false, true]);
+  });
+
+  it("lets tied cards swap freely", () => {
+    expect(scoreArrangement([1985, 1998, 1991, 2001], "decade")).toEqual([true, true, true, true]);
+    expect(scoreArrangement([1985, 1998, 1991, 2001], "year")).toEqual([true, false, false, true]);
+  });
+});
+
+describe("detectDateFields", () => {
+  it("finds a date field other than year", () => {
+    expect(detectDateFields(RELEASE_CARDS, RELEASE_FIELDS)).toEqual([
+      { key: "releaseDate", label: "Release Date" },
+    ]);
+  });
+
+  it("leaves out fields with too few dated cards", () => {
+    expect(detectDateFields(RELEASE_CARDS.slice(0, 2), RELEASE_FIELDS)).toEqual([]);
+  });
+
+  it("puts the required year field first", () => {
+    const cards = RELEASE_CARDS.map((card, index) => ({ ...card, year: 2000 + index }));
+
+    expect(detectDateFields(cards, RELEASE_FIELDS).map((field) => field.key)).toEqual([
+      "year",
+      "releaseDate",
+    ]);
+  });
+
+  it("makes the collection eligible and deals its years", () => {
+    expect(timelineMechanic.manifest.requiredFields).toEqual(["year"]);
+    expect(timelineMechanic.manifest.hasFields?.(RELEASE_CARDS, RELEASE_FIELDS)).toBe(true);
+    expect(timelineMechanic.manifest.hasFields?.(RELEASE_CARDS, RELEASE_FIELDS.slice(1))).toBe(false);
+    expect(getTimelineCards(RELEASE_CARDS, "releaseDate").map((card) => card.year)).toEqual([
+      1985, 1986, 1991,
+    ]);
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Tests for Timeline store.
+ */
+
+import { beforeEach, describe, expect, it } from "vitest";
+import { useTimelineStore } from "@/mechanics/timeline/store";
+import { DEFAULT_SETTINGS, type TimelineCard } from "@/mechanics/timeline/types";
+
+function makeCards(years: number[]): TimelineCard[] {
+  return years.map((year, i) => ({
+    id: `card-${String(i)}`,
+    title: `Card ${String(i)}`,
+    imageUrl: "",
+    year,
+  }));
+}
+
+const CARDS = makeCards([1980, 1990, 2000, 2010, 2020]);
+
+describe("useTimelineStore", () => {
+  beforeEach(() => {
+    useTimelineStore.getState().deactivate();
+    useTimelineStore.setState({ ...DEFAULT_SETTINGS, handSize: 5 });
+    useTimelineStore.getState().activate();
+  });
+
+  it("refuses to start with too few cards", () => {
+    useTimelineStore.getState().startGame(makeCards([1980, 1990]));
+
+    const state = useTimelineStore.getState();
+    expect(state.phase).toBe("setup");
+    expect(state.errorMessage).toContain("at least 3 cards");
+    expect(state.isActive).toBe(true);
+  });
+
+  it("deals the same hand for the same seed", () => {
+    useTimelineStore.setState({ seed: 42, handSize: 5 });
+    useTimelineStore.getState().startGame(CARDS);
+    const first = useTimelineStore.getState().arrangement;
+
+    useTimelineStore.getState().resetGame();
+    useTimelineStore.getState().startGame([...CARDS].reverse());
+
+    expect(useTimelineStore.getState().arrangement).toEqual(first);
+  });
+
+  it("keeps the date field the game is ordered by", () => {
+    const dateField = { key: "releaseDate", label: "Release Date" };
+    useTimelineStore.getState().startGame(CARDS, dateField);
+
+    expect(useTimelineStore.getState().dateField).toEqual(dateField);
+
+    useTimelineStore.getState().resetGame();
+    expect(useTimelineStore.getState().dateField).toBeNull();
+  });
+
+  describe("single mode", () => {
+    beforeEach(() => {
+      useTimelineStore.getState().startGame(CARDS);
+      // Fix the deal: 2000 anchors, 1980 is in hand, then 2020, 1990, 2010
+      useTimelineStore.setState({
+        arrangement: ["card-2", "card-0"],
+        currentCardId: "card-0",
+        deck: ["card-4", "card-1", "card-3"],
+        revealedIds: ["card-2"],
+      });
+    });
+
+    it("deals an anchor card and a card in hand", () => {
+      useTimelineStore.getState().resetGame();
+      useTimelineStore.getState().startGame(CARDS);
+
+      const state = useTimelineStore.getState();
+      expect(state.phase).toBe("playing");
+      expect(state.arrangement).toHaveLength(2);
+      expect(state.currentCardId).toBe(state.arrangement[1]);
+      expect(state.revealedIds).toEqual([state.arrangement[0]]);
+      expect(state.deck).toHaveLength(3);
+      expect(state.getMaxScore()).toBe(4);
+    });
+
+    it("only moves the card in hand", () => {
+      useTimelineStore.getState().moveCard("card-2", 1);
+      expect(useTimelineStore.getState().arrangement).toEqual(["card-2", "card-0"]);
+
+      useTimelineStore.getState().moveCard("card-0", 0);
+      expect(useTimelineStore.getState().arrangement).toEqual(["card-0", "card-2"]);
+    });
+
+    it("scores a correct placement and draws the next card", () => {
+      useTimelineStore.getState().moveCard("card-0", 0);
+      useTimelineStore.getState().placeCard();
+
+      const state = useTimelineStore.getState();
+      expect(state.placements).toEqual([{ cardId: "card-0", correct: true }]);
+      expect(state.arrangement).toEqual(["card-0", "card-2", "card-4"]);
+      expect(state.currentCardId).toBe("card-4");
+      expect(state.revealedIds).toContain("card-0");
+    });
+
+    it("moves a misplaced card to where it belongs", () => {
+      useTimelineStore.getState().placeCard();
+
+      const state = useTimelineStore.getState();
+      expect(state.placements).toEqual([{ cardId: "card-0", correct: false }]);
+      expect(state.arrangement).toEqual(["card-0", "card-2", "card-4"]);
+    });
+
+    it("completes after the last card is placed", () => {
+      const { moveCard, placeCard } = useTimelineStore.getState();
+      moveCard("card-0", 0);
+      placeCard(); // 1980 before 2000
+      placeCard(); // 2020 at the end
+      moveCard("card-1", 1);
+      placeCard(); // 1990 between 1980 and 2000
+      placeCard(); // 2010 wrongly left at the end
+
+      const state = useTimelineStore.getState();
+      expect(state.phase).toBe("complete");
+      expect(state.gameEndedAt).not.toBeNull();
+      expect(state.arrangement).toEqual(["card-0", "card-1", "card-2", "card-3", "card-4"]);
+      expect(state.getScore()).toBe(3);
+      expect(state.getMaxScore()).toBe(4);
+    });
+  });
+
+  describe("hand mode", () => {
+    beforeEach(() => {
+      useTimelineStore.setState({ mode: "hand" });
+      useTimelineStore.getState().startGame(CARDS);
+      useTimelineStore.setState({
+        arrangement: ["card-1", "card-0", "card-2", "card-3", "card-4"],
+      });
+    });
+
+    it("deals the whole hand face down", () => {
+      const state = useTimelineStore.getState();
+      expect(state.currentCardId).toBeNull();
+      expect(state.revealedIds).toEqual([]);
+      expect(state.getMaxScore()).toBe(5);
+    });
+
+    it("lets any card move", () => {
+      useTimelineStore.getState().moveCard("card-0", 0);
+      expect(useTimelineStore.getState().arrangement.slice(0, 2)).toEqual(["card-0", "card-1"]);
+    });
+
+    it("scores each position when the hand is checked", () => {
+      useTimelineStore.getState().submitHand();
+
+      const state = useTimelineStore.getState();
+      expect(state.phase).toBe("complete");
+      expect(state.placements.map((p) => p.correct)).toEqual([false, false, true, true, true]);
+      expect(state.getScore()).toBe(3);
+      expect(state.revealedIds).toHaveLength(5);
+    });
+
+    it("accepts tied cards in either order", () => {
+      useTimelineStore.setState({
+        difficulty: "decade",
+        cards: Object.fromEntries(
+          makeCards([1981, 1989, 2000, 2010, 2020]).map((card) => [card.id, card])
+        ),
+      });
+      useTimelineStore.getState().submitHand();
+
+      expect(useTimelineStore.getState().getScore()).toBe(5);
+    });
+  });
+
+  it("returns to setup on reset so a new hand is dealt", () => {
+    useTimelineStore.getState().startGame(CARDS);
+    useTimelineStore.getState().resetGame();
+
+    const state = useTimelineStore.getState();
+    expect(state.phase).toBe("setup");
+    expect(state.isActive).toBe(true);
+    expect(state.arrangement).toEqual([]);
+  });
+});
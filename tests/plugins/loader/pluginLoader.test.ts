@@ -0,0 +1,102 @@
+/**
+ * Tests for the collection API the plugin loader passes to plugins.
+ */
+
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  pluginLoader,
+  registerBuiltinPlugin,
+  type PluginContext,
+} from "@/plugins/loader/pluginLoader";
+import { setCollectionProvider } from "@/plugins/sandbox/pluginAPI";
+import { useEditsStore } from "@/stores/editsStore";
+import { usePluginStore } from "@/stores/pluginStore";
+import type { PluginManifest } from "@/plugins/schemas";
+
+const PLUGIN_ID = "org.itemdeck.test-loader";
+
+const MANIFEST: PluginManifest = {
+  id: PLUGIN_ID,
+  name: "Loader Test",
+  version: "1.0.0",
+  description: "Captures the plugin context",
+  author: { name: "itemdeck" },
+  itemdeck: { minVersion: "0.1.0", type: "settings", tier: "builtin" },
+  capabilities: ["collection:read", "collection:delete"],
+};
+
+const CARDS = [
+  { id: "smb", title: "Super Mario Bros.", platform: "NES", year: 1985 },
+  { id: "zelda", title: "The Legend of Zelda", platform: "NES", year: 1986 },
+  { id: "sonic", title: "Sonic the Hedgehog", platform: "Mega Drive", year: 1991 },
+];
+
+registerBuiltinPlugin(PLUGIN_ID, () => Promise.resolve(MANIFEST));
+
+/**
+ * Load the test plugin and return the context it is activated with.
+ */
+async function activate(): Promise<PluginContext> {
+  const loaded = await pluginLoader.loadPlugin(
+    { type: "builtin", id: PLUGIN_ID },
+    { skipEnable: true, forceReload: true }
+  );
+  for (const capability of MANIFEST.capabilities) {
+    usePluginStore.getState().grantCapability(PLUGIN_ID, capability);
+  }
+
+  let context: PluginContext | null = null;
+  loaded.module = {
+    activate: (ctx) => {
+      context = ctx;
+    },
+  };
+  await pluginLoader.enablePlugin(PLUGIN_ID);
+  if (!context) throw new Error("Plugin was not activated");
+  return context;
+}
+
+describe("plugin loader collection API", () => {
+  beforeEach(() => {
+    setCollectionProvider(() => ({ cards: CARDS, selectedCards: [], info: {} }));
+    useEditsStore.setState({ edits: {}, history: [], future: [] });
+  });
+
+  it("returns the cards matching a query", async () => {
+    const { collection } = await activate();
+
+    const cards = await collection.queryCards("platform:NES year:>=1986");
+
+    expect(cards).toEqual([CARDS[1]]);
+  });
+
+  it("returns every card for an empty query", async () => {
+    const { collection } = await activate();
+
+    expect(await collection.queryCards("")).toEqual(CARDS);
+  });
+
+  it("rejects a query that does not parse", async () => {
+    const { collection } = await activate();
+
+    await expect(collection.queryCards("year:>=")).rejects.toThrow();
+  });
+
+  it("deletes and restores a card in the collection", async () => {
+    const { collection } = await activate();
+
+    await collection.deleteCard("sonic");
+    expect(useEditsStore.getState().getDeletedEntityIds()).toEqual(["sonic"]);
+
+    await collection.restoreCard("sonic");
+    expect(useEditsStore.getState().getDeletedEntityIds()).toEqual([]);
+  });
+
+  it("rejects deleting or restoring an unknown card", async () => {
+    const { collection } = await activate();
+
+    await expect(collection.deleteCard("missing")).rejects.toThrow("Card not found");
+    await expect(collection.restoreCard("missing")).rejects.toThrow("Deleted card not found");
+    expect(useEditsStore.getState().edits).toEqual({});
+  });
+});
@@ -23,6 +23,14 @@ describe("buildCollectionUrl encoding", () => {
     );
   });
 
+  it("builds a Statically URL for the GitLab provider", () => {
+    expect(
+      buildCollectionUrl("gl", { u: "REPPL", collection: "retro/my_games" })
+    ).toBe(
+      "https://cdn.statically.io/gl/REPPL/MyPlausibleMe/main/data/collections/retro/my_games"
+    );
+  });
+
   it("encodes a hostile username containing '/' and '@'", () => {
     const url = buildCollectionUrl("gh", {
       u: "attacker/other-repo@evil",
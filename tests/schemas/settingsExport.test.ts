@@ -346,7 +346,7 @@ describe("settingsExport schema", () => {
   describe("SETTINGS_EXPORT_VERSION", () => {
     it("matches settingsStore version", () => {
       // This ensures the export version stays in sync
-      expect(SETTINGS_EXPORT_VERSION).toBe(26);
+      expect(SETTINGS_EXPORT_VERSION).toBe(28);
     });
   });
 });
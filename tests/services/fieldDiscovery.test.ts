@@ -0,0 +1,159 @@
+/**
+ * Tests for schema-driven filter and edit field discovery.
+ */
+
+import { describe, it, expect } from "vitest";
+import { discoverEditFields, discoverFilterFields } from "@/services/fieldDiscovery";
+import type { CollectionDefinition } from "@/types/schema";
+
+const definition: CollectionDefinition = {
+  id: "games",
+  name: "Games",
+  entityTypes: {
+    game: {
+      primary: true,
+      fields: {
+        id: { type: "string" },
+        title: { type: "string" },
+        summary: { type: "text" },
+        status: { type: "enum", enum: ["backlog", "playing", "finished"] },
+        completed: { type: "boolean" },
+        genres: { type: "array", items: { type: "string" } },
+        developers: { type: "array", items: { type: "string", ref: "developer" } },
+        year: { type: "number" },
+        released: { type: "date" },
+        rating: { type: "rating" },
+        platform: { type: "string" },
+        cover: { type: "images" },
+      },
+    },
+    platform: {
+      label: "Console",
+      fields: { id: { type: "string" }, title: { type: "string" } },
+    },
+    developer: {
+      fields: { id: { type: "string" }, title: { type: "string" } },
+    },
+  },
+  relationships: {
+    "game.platform": { target: "platform", cardinality: "many-to-one" },
+    "game.rank": { type: "ordinal", scope: "platform" },
+  },
+};
+
+describe("discoverFilterFields", () => {
+  it("maps schema field types to filter kinds", () => {
+    const fields = discoverFilterFields(definition, "game");
+    const kinds = Object.fromEntries(fields.map((f) => [f.field, f.kind]));
+
+    expect(kinds).toEqual({
+      platform: "reference",
+      status: "enum",
+      completed: "boolean",
+      genres: "array",
+      developers: "reference",
+      year: "number",
+      released: "date",
+      rating: "rating",
+    });
+  });
+
+  it("lists relationships first, labelled with the target type's label", () => {
+    const [first] = discoverFilterFields(definition, "game");
+
+    expect(first).toEqual({ field: "platform", label: "Console", kind: "reference" });
+  });
+
+  it("keeps the declared enum values for option ordering", () => {
+    const status = discoverFilterFields(definition, "game").find(
+      (f) => f.field === "status"
+    );
+
+    expect(status?.enumValues).toEqual(["backlog", "playing", "finished"]);
+  });
+
+  it("appends computed fields as value filters", () => {
+    const fields = discoverFilterFields(definition, "game", ["decade"]);
+
+    expect(fields[fields.length - 1]).toEqual({
+      field: "decade",
+      label: "Decade",
+      kind: "value",
+    });
+  });
+
+  it("returns nothing for an unknown primary type", () => {
+    expect(discoverFilterFields(definition, "toString")).toEqual([]);
+  });
+
+  it("caps the number of discovered fields", () => {
+    const fields: Record<string, { type: "boolean" }> = {};
+    for (let i = 0; i < 100; i++) {
+      fields[`flag${String(i)}`] = { type: "boolean" };
+    }
+
+    const result = discoverFilterFields(
+      { id: "big", name: "Big", entityTypes: { item: { fields } } },
+      "item"
+    );
+
+    expect(result).toHaveLength(30);
+  });
+});
+
+describe("discoverEditFields", () => {
+  it("maps schema field types to input kinds", () => {
+    const fields = discoverEditFields(definition, "game");
+    const kinds = Object.fromEntries(fields.map((f) => [f.field, f.kind]));
+
+    expect(kinds).toEqual({
+      title: "text",
+      summary: "textarea",
+      status: "enum",
+      completed: "boolean",
+      genres: "list",
+      developers: "list",
+      year: "number",
+      released: "date",
+      rating: "rating",
+      platform: "reference",
+      cover: "images",
+    });
+  });
+
+  it("targets references at the related entity type", () => {
+    const fields = discoverEditFields(definition, "game");
+
+    expect(fields.find((f) => f.field === "platform")?.refType).toBe("platform");
+    expect(fields.find((f) => f.field === "developers")?.refType).toBe("developer");
+    expect(fields.find((f) => f.field === "status")?.enumValues).toEqual([
+      "backlog",
+      "playing",
+      "finished",
+    ]);
+  });
+
+  it("marks required fields and skips object fields", () => {
+    const fields = discoverEditFields(
+      {
+        ...definition,
+        entityTypes: {
+          item: {
+            fields: {
+              id: { type: "string" },
+              name: { type: "string", required: true },
+              meta: { type: "object" },
+            },
+          },
+        },
+      },
+      "item"
+    );
+
+    expect(fields).toEqual([{ field: "name", label: "Name", kind: "text", required: true }]);
+  });
+
+  it("returns no fields for an unknown entity type", () => {
+    expect(discoverEditFields(definition, "constructor")).toEqual([]);
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Tests for game history service.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import "fake-indexeddb/auto";
+
+// Mock the db module before importing gameHistory
+vi.mock("@/db", async () => {
+  const { openDB } = await import("idb");
+
+  let dbInstance: Awaited<ReturnType<typeof openDB>> | null = null;
+
+  return {
+    getDB: async () => {
+      if (dbInstance) return dbInstance;
+
+      dbInstance = await openDB("itemdeck-history-test", 1, {
+        upgrade(db) {
+          const resultStore = db.createObjectStore("gameResults", { keyPath: "id" });
+          resultStore.createIndex("by-mechanic", "mechanicId");
+          resultStore.createIndex("by-completed-at", "completedAt");
+        },
+      });
+
+      return dbInstance;
+    },
+    deleteDB: async () => {
+      if (dbInstance) {
+        dbInstance.close();
+        dbInstance = null;
+      }
+      await indexedDB.deleteDatabase("itemdeck-history-test");
+    },
+  };
+});
+
+import {
+  gameHistory,
+  compareGameResults,
+  findPersonalBest,
+  isSameGameSettings,
+  MAX_GAME_RESULTS,
+  type GameResult,
+} from "@/services/gameHistory";
+import { deleteDB, getDB } from "@/db";
+
+const SOURCE = "https://example.com/collection.json";
+
+function makeGame(overrides: Partial<Omit<GameResult, "id">> = {}): Omit<GameResult, "id"> {
+  return {
+    mechanicId: "memory",
+    sourceId: SOURCE,
+    settings: { difficulty: "easy", pairCount: 6 },
+    score: 6,
+    durationMs: 30000,
+    completedAt: 1000,
+    ...overrides,
+  };
+}
+
+function makeResult(id: string, overrides: Partial<Omit<GameResult, "id">> = {}): GameResult {
+  return { ...makeGame(overrides), id };
+}
+
+describe("isSameGameSettings", () => {
+  it("matches identical settings", () => {
+    expect(isSameGameSettings({ difficulty: "hard", pairCount: 8 }, { difficulty: "hard", pairCount: 8 })).toBe(true);
+  });
+
+  it("rejects any differing setting", () => {
+    expect(isSameGameSettings({ difficulty: "hard" }, { difficulty: "easy" })).toBe(false);
+    expect(isSameGameSettings({ cardCount: 10 }, { cardCount: 0 })).toBe(false);
+    expect(isSameGameSettings({ questionCount: 10 }, {})).toBe(false);
+    expect(isSameGameSettings({ mode: "hand" }, { mode: "single" })).toBe(false);
+    expect(isSameGameSettings({ lives: 3, target: 10 }, { lives: 3, target: 20 })).toBe(false);
+    expect(isSameGameSettings({ field: "Platform", binCount: 4 }, { field: "Genre", binCount: 4 })).toBe(false);
+    expect(isSameGameSettings({ mode: "timed", timeLimit: 30 }, { mode: "timed", timeLimit: 60 })).toBe(false);
+  });
+});
+
+describe("compareGameResults", () => {
+  it("ranks higher scores first, then faster times, then earlier games", () => {
+    const results = [
+      makeResult("slow", { score: 5, durationMs: 50000 }),
+      makeResult("low", { score: 3, durationMs: 10000 }),
+      makeResult("later", { score: 5, durationMs: 20000, completedAt: 2000 }),
+      makeResult("fast", { score: 5, durationMs: 20000, completedAt: 1000 }),
+    ];
+
+    expect([...results].sort(compareGameResults).map((r) => r.id)).toEqual([
+      "fast",
+      "later",
+      "slow",
+      "low",
+    ]);
+  });
+});
+
+describe("findPersonalBest", () => {
+  it("only considers results with the same mechanic, source and settings", () => {
+    const results = [
+      makeResult("other-mechanic", { mechanicId: "quiz", score: 100 }),
+      makeResult("other-source", { sourceId: "https://example.com/other.json", score: 100 }),
+      makeResult("other-settings", { settings: { difficulty: "hard", pairCount: 6 }, score: 100 }),
+      makeResult("match", { score: 4 }),
+    ];
+
+    expect(findPersonalBest(results, makeGame())?.id).toBe("match");
+  });
+
+  it("returns null when nothing is comparable", () => {
+    expect(findPersonalBest([], makeGame())).toBeNull();
+  });
+});
+
+describe("gameHistory", () => {
+  beforeEach(async () => {
+    await gameHistory.clear();
+  });
+
+  afterEach(async () => {
+    await deleteDB();
+  });
+
+  describe("record", () => {
+    it("treats the first game with some settings as a personal best", async () => {
+      const recorded = await gameHistory.record(makeGame());
+
+      expect(recorded.isPersonalBest).toBe(true);
+      expect(recorded.previousBest).toBeNull();
+      expect(recorded.result.id).toMatch(/^result_/);
+    });
+
+    it("detects a new personal best against earlier results", async () => {
+      await gameHistory.record(makeGame({ score: 4, completedAt: 1000 }));
+      const recorded = await gameHistory.record(makeGame({ score: 6, completedAt: 2000 }));
+
+      expect(recorded.isPersonalBest).toBe(true);
+      expect(recorded.previousBest?.score).toBe(4);
+    });
+
+    it("does not flag a worse or equal result", async () => {
+      await gameHistory.record(makeGame({ score: 6, durationMs: 20000, completedAt: 1000 }));
+      const worse = await gameHistory.record(makeGame({ score: 5, completedAt: 2000 }));
+      const slower = await gameHistory.record(makeGame({ score: 6, durationMs: 40000, completedAt: 3000 }));
+
+      expect(worse.isPersonalBest).toBe(false);
+      expect(slower.isPersonalBest).toBe(false);
+      expect(slower.previousBest?.score).toBe(6);
+    });
+
+    it("keeps personal bests separate per settings", async () => {
+      await gameHistory.record(makeGame({ score: 6 }));
+      const recorded = await gameHistory.record(
+        makeGame({ score: 2, settings: { difficulty: "hard", pairCount: 6 } })
+      );
+
+      expect(recorded.isPersonalBest).toBe(true);
+      expect(recorded.previousBest).toBeNull();
+    });
+  });
+
+  describe("getResults", () => {
+    it("lists results most recent first", async () => {
+      await gameHistory.record(makeGame({ completedAt: 1000 }));
+      await gameHistory.record(makeGame({ completedAt: 3000 }));
+      await gameHistory.record(makeGame({ completedAt: 2000 }));
+
+      const results = await gameHistory.getResults();
+      expect(results.map((r) => r.completedAt)).toEqual([3000, 2000, 1000]);
+    });
+
+    it("filters by mechanic, source and difficulty", async () => {
+      await gameHistory.record(makeGame());
+      await gameHistory.record(makeGame({ mechanicId: "quiz", settings: { difficulty: "hard" } }));
+      await gameHistory.record(makeGame({ sourceId: "https://example.com/other.json" }));
+
+      expect(await gameHistory.getResults({ mechanicId: "quiz" })).toHaveLength(1);
+      expect(await gameHistory.getResults({ sourceId: SOURCE })).toHaveLength(2);
+      expect(await gameHistory.getResults({ difficulty: "easy" })).toHaveLength(2);
+      expect(
+        await gameHistory.getResults({ mechanicId: "memory", sourceId: SOURCE, difficulty: "easy" })
+      ).toHaveLength(1);
+    });
+  });
+
+  describe("prune", () => {
+    it("removes the oldest results beyond the limit", async () => {
+      const db = await getDB();
+      const tx = db.transaction("gameResults", "readwrite");
+      for (let i = 0; i < MAX_GAME_RESULTS; i++) {
+        void tx.store.put(makeResult(`seed_${String(i)}`, { completedAt: 1000 + i }));
+      }
+      await tx.done;
+
+      await gameHistory.record(makeGame({ completedAt: 999999 }));
+
+      const results = await gameHistory.getResults();
+      expect(results).toHaveLength(MAX_GAME_RESULTS);
+      expect(results.some((r) => r.id === "seed_0")).toBe(false);
+      expect(results[0]?.completedAt).toBe(999999);
+    });
+  });
+});
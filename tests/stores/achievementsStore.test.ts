@@ -0,0 +1,91 @@
+/**
+ * Achievements store tests.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { getEarnedAt, useAchievementsStore } from "@/stores/achievementsStore";
+import type { AchievementDefinition } from "@/mechanics/types";
+
+const STREAK: AchievementDefinition = {
+  id: "streak-10",
+  name: "On a Roll",
+  description: "Answer 10 questions in a row correctly",
+  event: "answer",
+  criteria: [{ field: "streak", min: 10 }],
+};
+
+const FIRST_GAME: AchievementDefinition = {
+  id: "first-game",
+  name: "First Game",
+  description: "Finish a game",
+  event: "game-complete",
+  criteria: [],
+};
+
+describe("useAchievementsStore", () => {
+  beforeEach(() => {
+    useAchievementsStore.setState({ earned: {}, unlocked: [] });
+  });
+
+  it("earns achievements whose criteria an event meets", () => {
+    const { recordEvent } = useAchievementsStore.getState();
+
+    expect(recordEvent("quiz", [STREAK, FIRST_GAME], { type: "answer", data: { streak: 9 } })).toEqual([]);
+    const unlocked = recordEvent("quiz", [STREAK, FIRST_GAME], {
+      type: "answer",
+      data: { streak: 10 },
+    });
+
+    expect(unlocked).toEqual([{ mechanicId: "quiz", definition: STREAK }]);
+    const { earned } = useAchievementsStore.getState();
+    expect(getEarnedAt(earned, "quiz", "streak-10")).toEqual(expect.any(Number));
+    expect(getEarnedAt(earned, "quiz", "first-game")).toBeNull();
+  });
+
+  it("earns each achievement once", () => {
+    const { recordEvent } = useAchievementsStore.getState();
+    const event = { type: "game-complete", data: {} };
+
+    recordEvent("memory", [FIRST_GAME], event);
+    const earnedAt = getEarnedAt(useAchievementsStore.getState().earned, "memory", "first-game");
+
+    expect(recordEvent("memory", [FIRST_GAME], event)).toEqual([]);
+    expect(getEarnedAt(useAchievementsStore.getState().earned, "memory", "first-game")).toBe(earnedAt);
+    expect(useAchievementsStore.getState().unlocked).toHaveLength(1);
+  });
+
+  it("keeps achievement IDs separate per mechanic", () => {
+    const { recordEvent } = useAchievementsStore.getState();
+    const event = { type: "game-complete", data: {} };
+
+    recordEvent("memory", [FIRST_GAME], event);
+
+    expect(recordEvent("quiz", [FIRST_GAME], event)).toHaveLength(1);
+    expect(getEarnedAt(useAchievementsStore.getState().earned, "competing", "first-game")).toBeNull();
+  });
+
+  it("queues unlocks for announcement in order", () => {
+    const { recordEvent } = useAchievementsStore.getState();
+    recordEvent("memory", [FIRST_GAME], { type: "game-complete", data: {} });
+    recordEvent("quiz", [STREAK], { type: "answer", data: { streak: 12 } });
+
+    expect(useAchievementsStore.getState().unlocked.map((u) => u.mechanicId)).toEqual([
+      "memory",
+      "quiz",
+    ]);
+
+    useAchievementsStore.getState().dismissUnlocked();
+    expect(useAchievementsStore.getState().unlocked.map((u) => u.mechanicId)).toEqual(["quiz"]);
+  });
+
+  it("clears earned achievements", () => {
+    useAchievementsStore.getState().recordEvent("memory", [FIRST_GAME], {
+      type: "game-complete",
+      data: {},
+    });
+    useAchievementsStore.getState().clearAchievements();
+
+    expect(useAchievementsStore.getState().earned).toEqual({});
+    expect(useAchievementsStore.getState().unlocked).toEqual([]);
+  });
+});
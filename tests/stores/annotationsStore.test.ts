@@ -0,0 +1,106 @@
+/**
+ * Personal annotations store tests.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  MAX_TAGS_PER_CARD,
+  TAG_COLOURS,
+  getSourceAnnotations,
+  normaliseTagName,
+  useAnnotationsStore,
+} from "@/stores/annotationsStore";
+
+const SOURCE = "https://example.com/collections/games";
+
+function source() {
+  return getSourceAnnotations(useAnnotationsStore.getState().annotations, SOURCE);
+}
+
+describe("useAnnotationsStore", () => {
+  beforeEach(() => {
+    useAnnotationsStore.setState({ annotations: {} });
+  });
+
+  it("normalises tag names", () => {
+    expect(normaliseTagName("  to   play ")).toBe("to play");
+    expect(normaliseTagName("x".repeat(40))).toHaveLength(32);
+  });
+
+  it("tags a card, defining the tag with the next palette colour", () => {
+    const store = useAnnotationsStore.getState();
+    expect(store.addCardTag(SOURCE, "a", "Favourite")).toBe(true);
+    store.addCardTag(SOURCE, "a", "Boxed");
+
+    expect(source().tags).toEqual([
+      { name: "Favourite", colour: TAG_COLOURS[0] },
+      { name: "Boxed", colour: TAG_COLOURS[1] },
+    ]);
+    expect(source().cards.a?.tags).toEqual(["Favourite", "Boxed"]);
+  });
+
+  it("matches tags case-insensitively, reusing the existing spelling", () => {
+    const store = useAnnotationsStore.getState();
+    store.addCardTag(SOURCE, "a", "Favourite");
+    store.addCardTag(SOURCE, "a", "favourite");
+    store.addCardTag(SOURCE, "b", "FAVOURITE");
+
+    expect(source().tags).toHaveLength(1);
+    expect(source().cards.a?.tags).toEqual(["Favourite"]);
+    expect(source().cards.b?.tags).toEqual(["Favourite"]);
+  });
+
+  it("rejects blank tags and tags beyond the per-card limit", () => {
+    const store = useAnnotationsStore.getState();
+    expect(store.addCardTag(SOURCE, "a", "   ")).toBe(false);
+
+    for (let i = 0; i < MAX_TAGS_PER_CARD; i++) {
+      store.addCardTag(SOURCE, "a", `tag ${String(i)}`);
+    }
+    expect(store.addCardTag(SOURCE, "a", "one more")).toBe(false);
+    expect(source().cards.a?.tags).toHaveLength(MAX_TAGS_PER_CARD);
+  });
+
+  it("drops a card's annotation once it has no tags or note", () => {
+    const store = useAnnotationsStore.getState();
+    store.addCardTag(SOURCE, "a", "Favourite");
+    store.setCardNote(SOURCE, "a", "Found at a car boot sale");
+
+    store.removeCardTag(SOURCE, "a", "favourite");
+    expect(source().cards.a).toEqual(
+      expect.objectContaining({ tags: [], note: "Found at a car boot sale" })
+    );
+
+    store.setCardNote(SOURCE, "a", "  ");
+    expect(source().cards).toEqual({});
+    // The tag stays defined for reuse
+    expect(source().tags).toHaveLength(1);
+  });
+
+  it("recolours and deletes tags across cards", () => {
+    const store = useAnnotationsStore.getState();
+    store.addCardTag(SOURCE, "a", "Favourite");
+    store.addCardTag(SOURCE, "b", "Favourite");
+    store.addCardTag(SOURCE, "b", "Boxed");
+
+    store.setTagColour(SOURCE, "favourite", "#123456");
+    expect(source().tags[0]?.colour).toBe("#123456");
+
+    store.deleteTag(SOURCE, "Favourite");
+    expect(source().tags.map((tag) => tag.name)).toEqual(["Boxed"]);
+    expect(source().cards.a).toBeUndefined();
+    expect(source().cards.b?.tags).toEqual(["Boxed"]);
+  });
+
+  it("keeps annotations separate per source", () => {
+    const store = useAnnotationsStore.getState();
+    store.addCardTag(SOURCE, "a", "Favourite");
+    store.addCardTag("https://example.com/other", "a", "Boxed");
+
+    expect(source().cards.a?.tags).toEqual(["Favourite"]);
+    expect(getSourceAnnotations(useAnnotationsStore.getState().annotations, "missing")).toEqual({
+      tags: [],
+      cards: {},
+    });
+  });
+});
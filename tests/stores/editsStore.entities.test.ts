@@ -0,0 +1,168 @@
+/**
+ * Entity edits store creation, soft deletion, batch and conflict resolution tests.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { LOCAL_ENTITY_ID_PREFIX, useEditsStore } from "@/stores/editsStore";
+
+describe("useEditsStore entities", () => {
+  beforeEach(() => {
+    useEditsStore.setState({ edits: {}, history: [], future: [] });
+  });
+
+  it("creates an entity with a generated local ID", () => {
+    const id = useEditsStore.getState().createEntity("game", {
+      id: "ignored",
+      title: "New Game",
+      images: [{ url: "https://example.com/a.jpg" }],
+    });
+
+    expect(id.startsWith(LOCAL_ENTITY_ID_PREFIX)).toBe(true);
+    const edit = useEditsStore.getState().edits[id];
+    expect(edit?.created).toEqual({ entityType: "game" });
+    expect(edit?.fields).toEqual({
+      title: "New Game",
+      images: [{ url: "https://example.com/a.jpg" }],
+    });
+    expect(useEditsStore.getState().history[0]?.type).toBe("create");
+  });
+
+  it("keeps the created marker when fields are edited or reverted", () => {
+    const store = useEditsStore.getState();
+    const id = store.createEntity("game", { title: "New Game" });
+
+    store.setField(id, "summary", "Text");
+    store.revertField(id, "summary");
+    store.revertField(id, "title");
+
+    const edit = useEditsStore.getState().edits[id];
+    expect(edit?.created).toEqual({ entityType: "game" });
+    expect(edit?.fields).toEqual({});
+  });
+
+  it("soft-deletes and restores an entity, keeping its edits", () => {
+    const store = useEditsStore.getState();
+    store.setField("entity-1", "title", "Edited");
+    store.deleteEntity("entity-1");
+
+    expect(useEditsStore.getState().getDeletedEntityIds()).toEqual(["entity-1"]);
+    expect(useEditsStore.getState().edits["entity-1"]?.fields.title).toBe("Edited");
+
+    store.restoreEntity("entity-1");
+    expect(useEditsStore.getState().getDeletedEntityIds()).toEqual([]);
+    expect(useEditsStore.getState().edits["entity-1"]?.fields.title).toBe("Edited");
+  });
+
+  it("removes the entry when restoring an entity that had no edits", () => {
+    const store = useEditsStore.getState();
+    store.deleteEntity("entity-1");
+    store.deleteEntity("entity-1");
+    store.restoreEntity("entity-1");
+
+    expect(useEditsStore.getState().edits).toEqual({});
+    expect(useEditsStore.getState().history.map((op) => op.type)).toEqual(["delete", "restore"]);
+  });
+
+  it("undoes a deletion and a creation", () => {
+    const store = useEditsStore.getState();
+    const id = store.createEntity("game", { title: "New Game" });
+    store.deleteEntity(id);
+
+    store.undo();
+    expect(useEditsStore.getState().edits[id]?.deletedAt).toBeUndefined();
+
+    store.undo();
+    expect(useEditsStore.getState().edits).toEqual({});
+  });
+
+  it("exports created and deleted entities as version 2", () => {
+    const store = useEditsStore.getState();
+    const id = store.createEntity("game", { title: "New Game" });
+    store.deleteEntity("entity-1");
+
+    const exported = store.exportEdits("test");
+    expect(exported.version).toBe(2);
+
+    store.revertAll();
+    store.importEdits(exported, "replace");
+    expect(useEditsStore.getState().edits[id]?.created).toEqual({ entityType: "game" });
+    expect(useEditsStore.getState().getDeletedEntityIds()).toEqual(["entity-1"]);
+  });
+});
+
+describe("useEditsStore batch edits", () => {
+  beforeEach(() => {
+    useEditsStore.setState({ edits: {}, history: [], future: [] });
+  });
+
+  it("sets a field on several entities in one undo step", () => {
+    const store = useEditsStore.getState();
+    store.setField("entity-1", "title", "Kept");
+    store.setFieldForEntities(["entity-1", "entity-2"], "year", 1994);
+
+    const { edits, history } = useEditsStore.getState();
+    expect(edits["entity-1"]?.fields).toEqual({ title: "Kept", year: 1994 });
+    expect(edits["entity-2"]?.fields).toEqual({ year: 1994 });
+    expect(history.at(-1)?.changes).toHaveLength(2);
+
+    store.undo();
+    expect(useEditsStore.getState().edits).toEqual({
+      "entity-1": expect.objectContaining({ fields: { title: "Kept" } }),
+    });
+  });
+
+  it("soft-deletes several entities in one undo step", () => {
+    const store = useEditsStore.getState();
+    store.deleteEntity("entity-1");
+    store.deleteEntities(["entity-1", "entity-2", "entity-3"]);
+
+    expect(useEditsStore.getState().getDeletedEntityIds()).toEqual([
+      "entity-1",
+      "entity-2",
+      "entity-3",
+    ]);
+    expect(useEditsStore.getState().history.at(-1)?.changes).toHaveLength(2);
+
+    store.undo();
+    expect(useEditsStore.getState().getDeletedEntityIds()).toEqual(["entity-1"]);
+  });
+});
+
+describe("useEditsStore conflicts", () => {
+  beforeEach(() => {
+    useEditsStore.setState({ edits: {}, history: [], future: [] });
+  });
+
+  it("records missing bases without adding history", () => {
+    const store = useEditsStore.getState();
+    store.setField("entity-1", "title", "Mine");
+    store.recordBases({ "entity-1": { title: "Old", summary: "Unedited" } });
+    store.recordBases({ "entity-1": { title: "Changed" } });
+
+    expect(useEditsStore.getState().edits["entity-1"]?.base).toEqual({ title: "Old" });
+    expect(useEditsStore.getState().history).toHaveLength(1);
+  });
+
+  it("keeps mine against the new upstream value", () => {
+    const store = useEditsStore.getState();
+    store.setField("entity-1", "title", "Mine");
+    store.recordBases({ "entity-1": { title: "Old" } });
+    store.resolveConflict("entity-1", "title", "Theirs", "Mine");
+
+    const edit = useEditsStore.getState().edits["entity-1"];
+    expect(edit?.fields.title).toBe("Mine");
+    expect(edit?.base).toEqual({ title: "Theirs" });
+    expect(useEditsStore.getState().history.at(-1)?.type).toBe("resolve");
+  });
+
+  it("takes theirs by dropping the edited field", () => {
+    const store = useEditsStore.getState();
+    store.setFields("entity-1", { title: "Mine", summary: "Text" });
+    store.recordBases({ "entity-1": { title: "Old", summary: null } });
+    store.resolveConflict("entity-1", "title", "Theirs");
+
+    const edit = useEditsStore.getState().edits["entity-1"];
+    expect(edit?.fields).toEqual({ summary: "Text" });
+    expect(edit?.base).toEqual({ summary: null });
+  });
+});
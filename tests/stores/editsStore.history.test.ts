@@ -0,0 +1,138 @@
+/**
+ * Entity edits store history (undo/redo) tests.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { MAX_EDIT_HISTORY, useEditsStore } from "@/stores/editsStore";
+
+describe("useEditsStore history", () => {
+  beforeEach(() => {
+    useEditsStore.setState({ edits: {}, history: [], future: [] });
+  });
+
+  it("records each change with before and after snapshots", () => {
+    const store = useEditsStore.getState();
+    store.setField("entity-1", "title", "First");
+    store.setField("entity-1", "title", "Second");
+
+    const { history } = useEditsStore.getState();
+    expect(history).toHaveLength(2);
+    expect(history[1]?.type).toBe("set");
+    expect(history[1]?.author).toBe("local");
+    expect(history[1]?.changes[0]?.before?.fields.title).toBe("First");
+    expect(history[1]?.changes[0]?.after?.fields.title).toBe("Second");
+  });
+
+  it("undoes and redoes a change", () => {
+    const store = useEditsStore.getState();
+    store.setField("entity-1", "title", "First");
+    store.setField("entity-1", "title", "Second");
+
+    expect(store.undo()?.type).toBe("set");
+    expect(useEditsStore.getState().edits["entity-1"]?.fields.title).toBe("First");
+
+    store.undo();
+    expect(useEditsStore.getState().edits).toEqual({});
+
+    store.redo();
+    store.redo();
+    expect(useEditsStore.getState().edits["entity-1"]?.fields.title).toBe("Second");
+    expect(store.redo()).toBeNull();
+  });
+
+  it("takes back a revert of every entity", () => {
+    const store = useEditsStore.getState();
+    store.setField("entity-1", "title", "One");
+    store.setField("entity-2", "title", "Two");
+    store.revertAll();
+
+    expect(useEditsStore.getState().edits).toEqual({});
+
+    store.undo();
+    const { edits } = useEditsStore.getState();
+    expect(edits["entity-1"]?.fields.title).toBe("One");
+    expect(edits["entity-2"]?.fields.title).toBe("Two");
+  });
+
+  it("clears the redo stack on a new change", () => {
+    const store = useEditsStore.getState();
+    store.setField("entity-1", "title", "First");
+    store.undo();
+    store.setField("entity-1", "year", 1991);
+
+    expect(useEditsStore.getState().future).toEqual([]);
+    expect(store.redo()).toBeNull();
+  });
+
+  it("sets and reverts fields in a single undo step", () => {
+    const store = useEditsStore.getState();
+    store.setFields("entity-1", { title: "Title", year: 2000 });
+    store.setFields("entity-1", { title: "Renamed" }, ["year"]);
+
+    expect(useEditsStore.getState().edits["entity-1"]?.fields).toEqual({ title: "Renamed" });
+    expect(useEditsStore.getState().history).toHaveLength(2);
+
+    store.undo();
+    expect(useEditsStore.getState().edits["entity-1"]?.fields).toEqual({
+      title: "Title",
+      year: 2000,
+    });
+  });
+
+  it("does not record no-op reverts", () => {
+    useEditsStore.getState().revertEntity("missing");
+    useEditsStore.getState().revertField("missing", "title");
+
+    expect(useEditsStore.getState().history).toEqual([]);
+  });
+
+  it("caps the history", () => {
+    const store = useEditsStore.getState();
+    for (let i = 0; i < MAX_EDIT_HISTORY + 10; i++) {
+      store.setField("entity-1", "year", i);
+    }
+
+    expect(useEditsStore.getState().history).toHaveLength(MAX_EDIT_HISTORY);
+  });
+
+  it("keeps imported history for display but does not undo it", () => {
+    const store = useEditsStore.getState();
+    store.importEdits(
+      {
+        version: 1,
+        exportedAt: "2024-01-15T10:30:00.000Z",
+        collectionId: "test",
+        editCount: 1,
+        edits: { "entity-1": { fields: { title: "Imported" }, editedAt: 1000 } },
+        history: [
+          {
+            id: "op_remote",
+            type: "set",
+            timestamp: 1000,
+            author: "local",
+            changes: [
+              {
+                entityId: "entity-1",
+                before: null,
+                after: { fields: { title: "Imported" }, editedAt: 1000 },
+              },
+            ],
+          },
+        ],
+      },
+      "merge"
+    );
+
+    const { history } = useEditsStore.getState();
+    expect(history.map((op) => [op.type, op.author])).toEqual([
+      ["set", "import"],
+      ["import", "local"],
+    ]);
+    expect(store.getEntityHistory("entity-1")).toHaveLength(2);
+
+    // Undoing the import removes its edits; the imported entry stays
+    expect(store.undo()?.type).toBe("import");
+    expect(useEditsStore.getState().edits).toEqual({});
+    expect(store.undo()).toBeNull();
+  });
+});
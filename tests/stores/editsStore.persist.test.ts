@@ -0,0 +1,73 @@
+/**
+ * Persistence tests for the edits store.
+ *
+ * The global test setup stubs localStorage with inert vi.fn()s. The store's
+ * persist captured that object by reference at import, so giving those stubs a
+ * real backing map here makes the store read and write the same storage.
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { migrateEditsState, useEditsStore } from "@/stores/editsStore";
+
+const STORAGE_KEY = "itemdeck-edits";
+
+describe("editsStore persistence", () => {
+  let backing: Record<string, string>;
+
+  beforeEach(async () => {
+    backing = {};
+    const ls = localStorage as unknown as Record<string, ReturnType<typeof vi.fn>>;
+    ls.getItem.mockImplementation((k: string) =>
+      k in backing ? backing[k] : null
+    );
+    ls.setItem.mockImplementation((k: string, v: string) => {
+      backing[k] = String(v);
+    });
+    ls.removeItem.mockImplementation((k: string) => {
+      delete backing[k];
+    });
+
+    await useEditsStore.persist.rehydrate();
+    useEditsStore.setState({ edits: {}, history: [], future: [] });
+  });
+
+  it("persists the edits and history but not the redo stack", () => {
+    const store = useEditsStore.getState();
+    store.setField("entity-1", "title", "First");
+    store.setField("entity-1", "title", "Second");
+    useEditsStore.getState().undo();
+
+    const saved = JSON.parse(backing[STORAGE_KEY] ?? "{}") as {
+      state: Record<string, unknown>;
+      version: number;
+    };
+    expect(saved.version).toBe(1);
+    expect(Object.keys(saved.state).sort()).toEqual(["edits", "history"]);
+    expect(useEditsStore.getState().future).toHaveLength(1);
+  });
+
+  it("carries edits and history over from an unversioned store", async () => {
+    useEditsStore.getState().setField("entity-1", "title", "Kept");
+    const { edits, history } = useEditsStore.getState();
+    // Emptying the store writes to storage, so the old payload goes in after
+    useEditsStore.setState({ edits: {}, history: [], future: [] });
+    backing[STORAGE_KEY] = JSON.stringify({
+      state: { edits, history, future: history },
+      version: 0,
+    });
+
+    await useEditsStore.persist.rehydrate();
+
+    const state = useEditsStore.getState();
+    expect(state.edits["entity-1"]?.fields.title).toBe("Kept");
+    expect(state.history).toHaveLength(1);
+    expect(state.future).toEqual([]);
+  });
+});
+
+describe("migrateEditsState", () => {
+  it("drops malformed values", () => {
+    expect(migrateEditsState({ edits: [], history: "nope" })).toEqual({ edits: {}, history: [] });
+    expect(migrateEditsState(undefined)).toEqual({ edits: {}, history: [] });
+  });
+});
@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect, beforeEach } from "vitest";
-import { useEditsStore } from "@/stores/editsStore";
+import { parseEditEntityId, toContextEditId, useEditsStore } from "@/stores/editsStore";
 
 describe("useEditsStore", () => {
   beforeEach(() => {
@@ -228,7 +228,7 @@ describe("useEditsStore", () => {
 
       const exported = store.exportEdits("test-collection");
 
-      expect(exported.version).toBe(1);
+      expect(exported.version).toBe(2);
       expect(exported.collectionId).toBe("test-collection");
       expect(exported.editCount).toBe(2);
       expect(exported.exportedAt).toBeDefined();
@@ -360,3 +360,14 @@ describe("useEditsStore", () => {
     });
   });
 });
+
+describe("context edit IDs", () => {
+  it("round-trips a context entity ID", () => {
+    expect(toContextEditId("snes")).toBe("context:snes");
+    expect(parseEditEntityId(toContextEditId("snes"))).toEqual({ id: "snes", isContext: true });
+  });
+
+  it("leaves card IDs as they are", () => {
+    expect(parseEditEntityId("smb")).toEqual({ id: "smb", isContext: false });
+  });
+});
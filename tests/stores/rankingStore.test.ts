@@ -0,0 +1,50 @@
+/**
+ * Personal ranking store tests.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { getSourceRanking, useRankingStore } from "@/stores/rankingStore";
+
+const SOURCE = "https://example.com/collections/games";
+const OTHER = "https://example.com/collections/films";
+
+function wins(sourceId = SOURCE) {
+  return getSourceRanking(useRankingStore.getState().rankings, sourceId).wins;
+}
+
+describe("useRankingStore", () => {
+  beforeEach(() => {
+    useRankingStore.setState({ rankings: {} });
+  });
+
+  it("returns an empty ranking for unknown sources", () => {
+    expect(wins()).toEqual({});
+    expect(getSourceRanking({}, "__proto__").wins).toEqual({});
+  });
+
+  it("records preferences per source", () => {
+    const store = useRankingStore.getState();
+    store.recordComparison(SOURCE, "a", "b");
+    store.recordComparison(SOURCE, "a", "b");
+    store.recordComparison(OTHER, "x", "y");
+
+    expect(wins()).toEqual({ a: { b: 2 } });
+    expect(wins(OTHER)).toEqual({ x: { y: 1 } });
+    expect(getSourceRanking(useRankingStore.getState().rankings, SOURCE).updatedAt).toBeGreaterThan(0);
+  });
+
+  it("ignores a card compared with itself", () => {
+    useRankingStore.getState().recordComparison(SOURCE, "a", "a");
+    expect(wins()).toEqual({});
+  });
+
+  it("clears one source's ranking", () => {
+    const store = useRankingStore.getState();
+    store.recordComparison(SOURCE, "a", "b");
+    store.recordComparison(OTHER, "x", "y");
+    store.clearRanking(SOURCE);
+
+    expect(wins()).toEqual({});
+    expect(wins(OTHER)).toEqual({ x: { y: 1 } });
+  });
+});
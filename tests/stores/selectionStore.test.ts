@@ -0,0 +1,73 @@
+/**
+ * Card selection store tests.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { getRangeIds, useSelectionStore } from "@/stores/selectionStore";
+
+const ORDER = ["a", "b", "c", "d", "e"];
+
+describe("getRangeIds", () => {
+  it("returns the cards between the anchor and the target in display order", () => {
+    expect(getRangeIds(ORDER, "b", "d")).toEqual(["b", "c", "d"]);
+    expect(getRangeIds(ORDER, "d", "b")).toEqual(["b", "c", "d"]);
+  });
+
+  it("falls back to the target when the anchor is not displayed", () => {
+    expect(getRangeIds(ORDER, null, "c")).toEqual(["c"]);
+    expect(getRangeIds(ORDER, "hidden", "c")).toEqual(["c"]);
+  });
+
+  it("returns nothing when the target is not displayed", () => {
+    expect(getRangeIds(ORDER, "a", "hidden")).toEqual([]);
+  });
+});
+
+describe("useSelectionStore", () => {
+  beforeEach(() => {
+    useSelectionStore.setState({ isSelecting: false, selectedIds: [], anchorId: null });
+  });
+
+  it("toggles cards and enters selection mode", () => {
+    const store = useSelectionStore.getState();
+    store.toggleCard("a");
+    store.toggleCard("b");
+    store.toggleCard("a");
+
+    const state = useSelectionStore.getState();
+    expect(state.isSelecting).toBe(true);
+    expect(state.selectedIds).toEqual(["b"]);
+    expect(state.anchorId).toBe("a");
+  });
+
+  it("extends a range from the last clicked card", () => {
+    const store = useSelectionStore.getState();
+    store.toggleCard("b");
+    store.selectRange(ORDER, "d");
+    store.selectRange(ORDER, "e");
+
+    expect(useSelectionStore.getState().selectedIds).toEqual(["b", "c", "d", "e"]);
+  });
+
+  it("replaces or adds to the selection", () => {
+    const store = useSelectionStore.getState();
+    store.selectCards(["a", "b"]);
+    store.selectCards(["b", "c"], "add");
+    expect(useSelectionStore.getState().selectedIds).toEqual(["a", "b", "c"]);
+
+    store.selectCards(["e"]);
+    expect(useSelectionStore.getState().selectedIds).toEqual(["e"]);
+  });
+
+  it("clears the selection when leaving selection mode", () => {
+    const store = useSelectionStore.getState();
+    store.selectCards(["a"]);
+    store.setSelecting(false);
+
+    expect(useSelectionStore.getState()).toMatchObject({
+      isSelecting: false,
+      selectedIds: [],
+      anchorId: null,
+    });
+  });
+});
@@ -212,3 +212,55 @@ describe("settingsStore - collection defaults are applied once per source", () =
     expect(useSettingsStore.getState().visualTheme).toBe("retro");
   });
 });
+
+describe("settingsStore - collection default filters", () => {
+  const FILTER_DEFAULTS: CollectionSettings = {
+    defaults: { filters: [{ field: "platform", values: ["SNES"] }] },
+  };
+
+  beforeEach(() => {
+    useSettingsStore.getState().resetToDefaults();
+    useSettingsStore.getState().clearAllFilters();
+    useSettingsStore.setState({ collectionFiltersSourceId: null });
+  });
+
+  it("seeds the active filters when the source becomes active", () => {
+    useSettingsStore.getState().applyCollectionSettings(SOURCE_A, FILTER_DEFAULTS);
+
+    expect(useSettingsStore.getState().activeFilters).toEqual([
+      { field: "platform", values: ["SNES"] },
+    ]);
+  });
+
+  it("does not overwrite the user's filters on a same-source refetch", () => {
+    useSettingsStore.getState().applyCollectionSettings(SOURCE_A, FILTER_DEFAULTS);
+    useSettingsStore.getState().clearFilter("platform");
+
+    useSettingsStore.getState().applyCollectionSettings(SOURCE_A, FILTER_DEFAULTS);
+
+    expect(useSettingsStore.getState().activeFilters).toEqual([]);
+  });
+
+  it("seeds the filters again when returning to the source", () => {
+    // Unlike the one-shot defaults, filters are session state, so they are
+    // re-seeded every time the collection is opened.
+    useSettingsStore.getState().applyCollectionSettings(SOURCE_A, FILTER_DEFAULTS);
+    useSettingsStore.getState().applyCollectionSettings(SOURCE_B, B_DEFAULTS);
+    useSettingsStore.getState().clearAllFilters();
+
+    useSettingsStore.getState().applyCollectionSettings(SOURCE_A, FILTER_DEFAULTS);
+
+    expect(useSettingsStore.getState().activeFilters).toEqual([
+      { field: "platform", values: ["SNES"] },
+    ]);
+  });
+
+  it("does not persist the seeded filters", () => {
+    getSetItemMock().mockClear();
+    useSettingsStore.getState().applyCollectionSettings(SOURCE_A, FILTER_DEFAULTS);
+
+    const state = lastPersistedState();
+    expect(state.activeFilters).toBeUndefined();
+    expect(state.collectionFiltersSourceId).toBeUndefined();
+  });
+});
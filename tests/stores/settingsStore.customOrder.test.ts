@@ -0,0 +1,62 @@
+/**
+ * Tests for persisted drag-and-drop orders in the settings store.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  useSettingsStore,
+  MAX_CUSTOM_ORDER_SOURCES,
+  MAX_CUSTOM_ORDER_LENGTH,
+} from "@/stores/settingsStore";
+
+const SOURCE = "https://example.com/collections/games";
+const OTHER_SOURCE = "https://example.com/collections/books";
+
+describe("settingsStore - custom orders", () => {
+  beforeEach(() => {
+    useSettingsStore.getState().resetToDefaults();
+  });
+
+  it("stores an order per source", () => {
+    useSettingsStore.getState().setCustomOrder(SOURCE, ["b", "a", "b"]);
+
+    const { customOrders } = useSettingsStore.getState();
+    expect(customOrders[SOURCE]).toEqual(["b", "a"]);
+    expect(customOrders[OTHER_SOURCE]).toBeUndefined();
+  });
+
+  it("caps the order length", () => {
+    const order = Array.from({ length: MAX_CUSTOM_ORDER_LENGTH + 5 }, (_, i) => String(i));
+    useSettingsStore.getState().setCustomOrder(SOURCE, order);
+
+    expect(useSettingsStore.getState().customOrders[SOURCE]).toHaveLength(
+      MAX_CUSTOM_ORDER_LENGTH
+    );
+  });
+
+  it("evicts the least recently saved source beyond the limit", () => {
+    const store = useSettingsStore.getState();
+    for (let i = 0; i < MAX_CUSTOM_ORDER_SOURCES; i++) {
+      store.setCustomOrder(`source-${String(i)}`, ["a"]);
+    }
+    // Re-saving moves source-0 to the end, so source-1 is now the oldest
+    store.setCustomOrder("source-0", ["b"]);
+    store.setCustomOrder(SOURCE, ["c"]);
+
+    const sourceIds = Object.keys(useSettingsStore.getState().customOrders);
+    expect(sourceIds).toHaveLength(MAX_CUSTOM_ORDER_SOURCES);
+    expect(sourceIds).not.toContain("source-1");
+    expect(sourceIds.slice(-2)).toEqual(["source-0", SOURCE]);
+  });
+
+  it("clears the order for one source", () => {
+    const store = useSettingsStore.getState();
+    store.setCustomOrder(SOURCE, ["a"]);
+    store.setCustomOrder(OTHER_SOURCE, ["b"]);
+
+    store.clearCustomOrder(SOURCE);
+    store.clearCustomOrder("toString");
+
+    expect(useSettingsStore.getState().customOrders).toEqual({ [OTHER_SOURCE]: ["b"] });
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Tests for saved views (smart decks) in the settings store.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  useSettingsStore,
+  MAX_SAVED_VIEWS_PER_SOURCE,
+} from "@/stores/settingsStore";
+
+const SOURCE = "https://example.com/collections/games";
+const OTHER_SOURCE = "https://example.com/collections/books";
+
+describe("settingsStore - saved views", () => {
+  beforeEach(() => {
+    useSettingsStore.getState().resetToDefaults();
+  });
+
+  function setUpState() {
+    const store = useSettingsStore.getState();
+    store.setSearchQuery("genres:RPG -has:completed");
+    store.setFilter("platform", ["snes"]);
+    store.setRangeFilter("year", { type: "number", min: 1990 });
+    store.setGroupByField("platform");
+    store.setFieldMapping({ sortField: "year", sortDirection: "desc" });
+    store.setLayout("list");
+  }
+
+  describe("saveView", () => {
+    it("captures search, filters, grouping, field mapping and layout", () => {
+      setUpState();
+
+      const view = useSettingsStore.getState().saveView(SOURCE, "  Unfinished RPGs ");
+
+      expect(view).toMatchObject({
+        name: "Unfinished RPGs",
+        searchQuery: "genres:RPG -has:completed",
+        activeFilters: [
+          { field: "platform", values: ["snes"] },
+          { field: "year", values: [], range: { type: "number", min: 1990 } },
+        ],
+        groupByField: "platform",
+        fieldMapping: { sortField: "year", sortDirection: "desc" },
+        layout: "list",
+      });
+      expect(useSettingsStore.getState().savedViews[SOURCE]).toEqual([view]);
+    });
+
+    it("scopes views to their source", () => {
+      useSettingsStore.getState().saveView(SOURCE, "Games view");
+
+      const state = useSettingsStore.getState();
+      expect(state.savedViews[SOURCE]).toHaveLength(1);
+      expect(state.savedViews[OTHER_SOURCE]).toBeUndefined();
+    });
+
+    it("updates a view saved under the same name", () => {
+      const first = useSettingsStore.getState().saveView(SOURCE, "Shooters");
+      useSettingsStore.getState().setSearchQuery("genres:Shooter");
+      const second = useSettingsStore.getState().saveView(SOURCE, "Shooters");
+
+      const views = useSettingsStore.getState().savedViews[SOURCE];
+      expect(views).toHaveLength(1);
+      expect(second?.id).toBe(first?.id);
+      expect(views?.[0]?.searchQuery).toBe("genres:Shooter");
+    });
+
+    it("rejects empty names and new views beyond the per-source limit", () => {
+      const store = useSettingsStore.getState();
+      expect(store.saveView(SOURCE, "   ")).toBeNull();
+
+      for (let i = 0; i < MAX_SAVED_VIEWS_PER_SOURCE; i++) {
+        store.saveView(SOURCE, `View ${String(i)}`);
+      }
+
+      expect(store.saveView(SOURCE, "One too many")).toBeNull();
+      expect(store.saveView(SOURCE, "View 0")).not.toBeNull();
+      expect(useSettingsStore.getState().savedViews[SOURCE]).toHaveLength(
+        MAX_SAVED_VIEWS_PER_SOURCE
+      );
+    });
+  });
+
+  describe("applySavedView", () => {
+    it("restores every captured value in a single update", () => {
+      setUpState();
+      const view = useSettingsStore.getState().saveView(SOURCE, "Unfinished RPGs");
+      useSettingsStore.getState().resetToDefaults();
+      useSettingsStore.getState().setSavedViews({ [SOURCE]: view ? [view] : [] });
+      useSettingsStore.getState().collapseAllGroups(["snes"]);
+
+      let updates = 0;
+      const unsubscribe = useSettingsStore.subscribe(() => {
+        updates++;
+      });
+      const applied = useSettingsStore.getState().applySavedView(SOURCE, view?.id ?? "");
+      unsubscribe();
+
+      const state = useSettingsStore.getState();
+      expect(applied).toBe(true);
+      expect(updates).toBe(1);
+      expect(state.searchQuery).toBe("genres:RPG -has:completed");
+      expect(state.activeFilters).toHaveLength(2);
+      expect(state.groupByField).toBe("platform");
+      expect(state.collapsedGroups).toEqual([]);
+      expect(state.fieldMapping.sortField).toBe("year");
+      expect(state.fieldMapping.sortDirection).toBe("desc");
+      expect(state.layout).toBe("list");
+    });
+
+    it("returns false for an unknown view or source", () => {
+      const view = useSettingsStore.getState().saveView(SOURCE, "Games view");
+
+      expect(useSettingsStore.getState().applySavedView(SOURCE, "missing")).toBe(false);
+      expect(useSettingsStore.getState().applySavedView(OTHER_SOURCE, view?.id ?? "")).toBe(
+        false
+      );
+      expect(useSettingsStore.getState().applySavedView("toString", "x")).toBe(false);
+    });
+  });
+
+  describe("renameSavedView and deleteSavedView", () => {
+    it("renames a view", () => {
+      const view = useSettingsStore.getState().saveView(SOURCE, "Old name");
+      useSettingsStore.getState().renameSavedView(SOURCE, view?.id ?? "", "New name");
+
+      expect(useSettingsStore.getState().savedViews[SOURCE]?.[0]?.name).toBe("New name");
+    });
+
+    it("removes the source entry with its last view", () => {
+      const store = useSettingsStore.getState();
+      const first = store.saveView(SOURCE, "First");
+      const second = store.saveView(SOURCE, "Second");
+
+      store.deleteSavedView(SOURCE, first?.id ?? "");
+      expect(useSettingsStore.getState().savedViews[SOURCE]).toEqual([second]);
+
+      store.deleteSavedView(SOURCE, second?.id ?? "");
+      expect(SOURCE in useSettingsStore.getState().savedViews).toBe(false);
+    });
+  });
+});
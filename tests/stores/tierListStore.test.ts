@@ -0,0 +1,82 @@
+/**
+ * Tier list store tests.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { getSourceTierList, useTierListStore } from "@/stores/tierListStore";
+import { MAX_TIER_LABEL_LENGTH, MAX_TIER_ROWS } from "@/utils/tierList";
+
+const SOURCE = "https://example.com/collections/games";
+const OTHER = "https://example.com/collections/films";
+
+function rows(sourceId = SOURCE) {
+  return getSourceTierList(useTierListStore.getState().tierLists, sourceId).rows;
+}
+
+describe("useTierListStore", () => {
+  beforeEach(() => {
+    useTierListStore.setState({ tierLists: {} });
+  });
+
+  it("returns the default rows for unknown sources", () => {
+    expect(rows().map((row) => row.label)).toEqual(["S", "A", "B", "C", "D"]);
+    expect(getSourceTierList({}, "__proto__").rows).toHaveLength(5);
+  });
+
+  it("places cards per source", () => {
+    const store = useTierListStore.getState();
+    store.placeCard(SOURCE, "a", 0);
+    store.placeCard(SOURCE, "b", 0, 0);
+    store.placeCard(OTHER, "x", 3);
+
+    expect(rows()[0]?.cardIds).toEqual(["b", "a"]);
+    expect(rows(OTHER)[3]?.cardIds).toEqual(["x"]);
+  });
+
+  it("edits, adds, moves and removes rows", () => {
+    const store = useTierListStore.getState();
+    store.placeCard(SOURCE, "a", 1);
+    store.updateRow(SOURCE, 0, { label: "Top".padEnd(40, "!"), colour: "#123456" });
+    store.addRow(SOURCE);
+    store.moveRow(SOURCE, 1, 0);
+
+    expect(rows().map((row) => row.label)).toEqual([
+      "A",
+      "Top".padEnd(MAX_TIER_LABEL_LENGTH, "!"),
+      "B",
+      "C",
+      "D",
+      "",
+    ]);
+    expect(rows()[1]?.colour).toBe("#123456");
+
+    // Removing a row unplaces its cards
+    store.removeRow(SOURCE, 0);
+    expect(rows().some((row) => row.cardIds.includes("a"))).toBe(false);
+  });
+
+  it("keeps between one and the maximum number of rows", () => {
+    const store = useTierListStore.getState();
+    for (let i = 0; i < 20; i++) store.addRow(SOURCE);
+    expect(rows()).toHaveLength(MAX_TIER_ROWS);
+
+    for (let i = 0; i < 20; i++) store.removeRow(SOURCE, 0);
+    expect(rows()).toHaveLength(1);
+  });
+
+  it("imports, clears and resets a tier list", () => {
+    const store = useTierListStore.getState();
+    store.importTierList(SOURCE, [
+      { label: "Love", colour: "#ff0000", cardIds: ["a"] },
+      { label: "Hate", colour: "#0000ff", cardIds: ["b"] },
+    ]);
+    expect(rows().map((row) => row.label)).toEqual(["Love", "Hate"]);
+
+    store.clearPlacements(SOURCE);
+    expect(rows().map((row) => row.cardIds)).toEqual([[], []]);
+
+    store.resetTierList(SOURCE);
+    expect(Object.hasOwn(useTierListStore.getState().tierLists, SOURCE)).toBe(false);
+    expect(rows()).toHaveLength(5);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Tests for exporting local edits as collection files.
+ */
+
+import { describe, it, expect } from "vitest";
+import { buildCollectionPatch, type CollectionPatchSource } from "@/utils/collectionPatch";
+
+const source: CollectionPatchSource = {
+  definition: {
+    id: "games",
+    name: "Games",
+    entityTypes: {
+      game: {
+        primary: true,
+        fields: { title: { type: "string" }, summary: { type: "string" } },
+        computed: { age: "2024 - year" },
+      },
+      platform: { fields: { title: { type: "string" } } },
+    },
+  },
+  primaryType: "game",
+  entities: {
+    game: [
+      { id: "metroid", title: "Super Metroid", summary: "Old", year: 1994 },
+      { id: "zelda", title: "Zelda" },
+    ],
+    platform: [{ id: "snes", title: "SNES", age: 30 }],
+  },
+};
+
+const fileContent = (patch: ReturnType<typeof buildCollectionPatch>, path: string): unknown => {
+  const file = patch.files.find((entry) => entry.path === path);
+  return file ? JSON.parse(file.content) : undefined;
+};
+
+describe("buildCollectionPatch", () => {
+  it("rewrites edited entities, removing cleared fields and keeping key order", () => {
+    const patch = buildCollectionPatch(source, {
+      metroid: { fields: { title: "Super Metroid (SNES)", summary: null, rating: 5 }, editedAt: 1 },
+      "context:snes": { fields: { title: "Super Nintendo" }, editedAt: 1 },
+    });
+
+    expect(fileContent(patch, "games/metroid.json")).toEqual({
+      id: "metroid",
+      title: "Super Metroid (SNES)",
+      year: 1994,
+      rating: 5,
+    });
+    expect(Object.keys(fileContent(patch, "games/metroid.json") as object)).toEqual([
+      "id",
+      "title",
+      "year",
+      "rating",
+    ]);
+    expect(fileContent(patch, "platforms/snes.json")).toEqual({ id: "snes", title: "Super Nintendo", age: 30 });
+    expect(fileContent(patch, "games/index.json")).toEqual(["metroid", "zelda"]);
+    expect(fileContent(patch, "platforms/index.json")).toEqual(["snes"]);
+  });
+
+  it("adds created entities and drops deleted ones from the index", () => {
+    const patch = buildCollectionPatch(source, {
+      local_1: { fields: { title: "New" }, editedAt: 1, created: { entityType: "game" } },
+      zelda: { fields: {}, editedAt: 1, deletedAt: 2 },
+    });
+
+    expect(fileContent(patch, "games/local_1.json")).toEqual({ id: "local_1", title: "New" });
+    expect(fileContent(patch, "games/index.json")).toEqual(["metroid", "local_1"]);
+    expect(patch.deleted).toEqual([{ entityType: "game", id: "zelda" }]);
+    expect(patch.files.find((file) => file.path === "PATCH.md")?.content).toContain("`games/zelda.json`");
+  });
+
+  it("rewrites the whole file of a type loaded from a single file", () => {
+    const patch = buildCollectionPatch(
+      {
+        ...source,
+        entities: {
+          ...source.entities,
+          game: [...(source.entities["game"] ?? []), { id: "kirby", title: "Kirby", age: 2 }],
+        },
+        layouts: { game: { kind: "file", path: "games.json" } },
+      },
+      {
+        metroid: { fields: { summary: null }, editedAt: 1 },
+        zelda: { fields: {}, editedAt: 1, deletedAt: 2 },
+        local_1: { fields: { title: "New" }, editedAt: 1, created: { entityType: "game" } },
+      }
+    );
+
+    expect(fileContent(patch, "games.json")).toEqual([
+      { id: "metroid", title: "Super Metroid", year: 1994 },
+      { id: "kirby", title: "Kirby" },
+      { id: "local_1", title: "New" },
+    ]);
+    expect(patch.files.map((file) => file.path)).toEqual(["games.json", "PATCH.md"]);
+    const notes = patch.files.find((file) => file.path === "PATCH.md")?.content;
+    expect(notes).toContain("`games.json` (`metroid`)");
+    expect(notes).not.toContain("Remove these files");
+  });
+
+  it("skips edits without a source entity or with unsafe IDs", () => {
+    const patch = buildCollectionPatch(source, {
+      missing: { fields: { title: "X" }, editedAt: 1 },
+      "../evil": { fields: {}, editedAt: 1, created: { entityType: "game" } },
+    });
+
+    expect(patch.skipped).toEqual(["missing", "../evil"]);
+    expect(patch.files.map((file) => file.path)).toEqual(["PATCH.md"]);
+  });
+});
@@ -6,6 +6,7 @@ import { describe, it, expect } from "vitest";
 import {
   computeCollectionStats,
   formatStatsSummary,
+  classifyStatFields,
   type CollectionStats,
 } from "@/utils/collectionStats";
 import type { DisplayCard } from "@/hooks/useCollection";
@@ -122,6 +123,48 @@ describe("computeCollectionStats", () => {
       expect(yearStats?.count).toBe(2);
       expect(yearStats?.avg).toBe(1995);
     });
+
+    it("should read the score of structured ratings", () => {
+      const items = [
+        createMockCard({ rating: { score: 3, max: 5 } }),
+        createMockCard({ rating: { score: 5, max: 5 } }),
+      ];
+
+      const stats = computeCollectionStats(items, ["rating"]);
+
+      expect(stats.numericFields.get("rating")?.avg).toBe(4);
+    });
+
+    it("should bin values into a histogram when requested", () => {
+      const items = [1990, 1991, 1995, 1999, 2000].map((year) =>
+        createMockCard({ year })
+      );
+
+      const stats = computeCollectionStats(items, ["year"], [], {
+        histogramBins: 2,
+      });
+
+      // Bins span 1990–1995 and 1995–2000; the maximum lands in the last bin
+      expect(stats.numericFields.get("year")?.histogram).toEqual([2, 3]);
+      expect(
+        computeCollectionStats(items, ["year"]).numericFields.get("year")?.histogram
+      ).toBeUndefined();
+    });
+
+    it("should parse date fields to timestamps", () => {
+      const items = [
+        createMockCard({ released: "1986-02-21" } as Partial<DisplayCard>),
+        createMockCard({ released: "1991" } as Partial<DisplayCard>),
+      ];
+
+      const stats = computeCollectionStats(items, ["released"], [], {
+        dateFields: ["released"],
+      });
+
+      const released = stats.numericFields.get("released");
+      expect(released?.min).toBe(Date.UTC(1986, 1, 21));
+      expect(released?.max).toBe(Date.UTC(1991, 0, 1));
+    });
   });
 
   describe("categorical fields", () => {
@@ -340,3 +383,25 @@ describe("formatStatsSummary", () => {
     );
   });
 });
+
+describe("classifyStatFields", () => {
+  it("splits fields by value type and drops empty ones", () => {
+    const items = [
+      createMockCard({ age: 30, era: "8-bit", empty: null }),
+      createMockCard({ age: 25, era: "16-bit" }),
+    ];
+
+    const result = classifyStatFields(items, ["age", "era", "empty"]);
+
+    expect(result).toEqual({ numeric: ["age"], categorical: ["era"] });
+  });
+
+  it("reports averages for extra numeric fields", () => {
+    const items = [createMockCard({ age: 30 }), createMockCard({ age: 20 })];
+    const stats = computeCollectionStats(items, ["age"], []);
+
+    const summary = formatStatsSummary(stats, [{ field: "age", label: "Age" }]);
+
+    expect(summary).toBe("2 items | Avg Age: 25.0");
+  });
+});
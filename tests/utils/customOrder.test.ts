@@ -0,0 +1,71 @@
+/**
+ * Tests for custom (drag-and-drop) order utilities.
+ */
+
+import { describe, it, expect } from "vitest";
+import { applyCustomOrder, mergeCustomOrder } from "@/utils/customOrder";
+
+const items = (...ids: string[]) => ids.map((id) => ({ id }));
+const ids = (list: { id: string }[]) => list.map((item) => item.id);
+
+describe("applyCustomOrder", () => {
+  it("orders items by the stored IDs", () => {
+    expect(ids(applyCustomOrder(items("a", "b", "c"), ["c", "a", "b"]))).toEqual([
+      "c",
+      "a",
+      "b",
+    ]);
+  });
+
+  it("appends items that are not in the order, keeping their order", () => {
+    expect(ids(applyCustomOrder(items("new1", "a", "b", "new2"), ["b", "a"]))).toEqual([
+      "b",
+      "a",
+      "new1",
+      "new2",
+    ]);
+  });
+
+  it("ignores stored IDs of items that no longer exist", () => {
+    expect(ids(applyCustomOrder(items("a", "c"), ["c", "removed", "a"]))).toEqual(["c", "a"]);
+  });
+
+  it("does not mutate the input", () => {
+    const input = items("a", "b");
+    applyCustomOrder(input, ["b", "a"]);
+    expect(ids(input)).toEqual(["a", "b"]);
+  });
+});
+
+describe("mergeCustomOrder", () => {
+  const known = new Set(["a", "b", "c", "d"]);
+
+  it("places a reordered subset into the slots it occupies", () => {
+    expect(mergeCustomOrder(["a", "b", "c", "d"], ["d", "b"], known)).toEqual([
+      "a",
+      "d",
+      "c",
+      "b",
+    ]);
+  });
+
+  it("takes a full reorder as is", () => {
+    expect(mergeCustomOrder(["a", "b", "c", "d"], ["d", "c", "b", "a"], known)).toEqual([
+      "d",
+      "c",
+      "b",
+      "a",
+    ]);
+  });
+
+  it("drops unknown and duplicate IDs", () => {
+    expect(mergeCustomOrder(["a", "gone", "b", "a"], ["b", "a"], new Set(["a", "b"]))).toEqual([
+      "b",
+      "a",
+    ]);
+  });
+
+  it("appends reordered IDs missing from the base order", () => {
+    expect(mergeCustomOrder(["a", "b"], ["c", "a"], known)).toEqual(["c", "b", "a"]);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Tests for edit conflict detection and text merging.
+ */
+
+import { describe, it, expect } from "vitest";
+import { collectMissingBases, findEditConflicts, mergeText } from "@/utils/editConflicts";
+import type { EntityEdit } from "@/stores/editsStore";
+
+const upstream: Record<string, Record<string, unknown>> = {
+  metroid: { id: "metroid", title: "Super Metroid", summary: "New upstream" },
+  snes: { id: "snes", title: "SNES" },
+};
+const lookup = (entityId: string) =>
+  upstream[entityId.startsWith("context:") ? entityId.slice("context:".length) : entityId];
+
+describe("collectMissingBases", () => {
+  it("records upstream values for edited fields without a base", () => {
+    const edits: Record<string, EntityEdit> = {
+      metroid: { fields: { title: "Mine", year: 1994 }, editedAt: 1, base: { title: "Super Metroid" } },
+      "context:snes": { fields: { title: "Super Nintendo" }, editedAt: 1 },
+      local_1: { fields: { title: "New" }, editedAt: 1, created: { entityType: "game" } },
+      unknown: { fields: { title: "X" }, editedAt: 1 },
+    };
+
+    expect(collectMissingBases(edits, lookup)).toEqual({
+      metroid: { year: null },
+      "context:snes": { title: "SNES" },
+    });
+  });
+});
+
+describe("findEditConflicts", () => {
+  it("flags fields changed upstream since they were edited", () => {
+    const edits: Record<string, EntityEdit> = {
+      metroid: {
+        fields: { title: "Mine", summary: "Mine too" },
+        editedAt: 1,
+        base: { title: "Super Metroid", summary: "Old" },
+      },
+    };
+
+    expect(findEditConflicts(edits, lookup)).toEqual([
+      { entityId: "metroid", field: "summary", base: "Old", mine: "Mine too", theirs: "New upstream" },
+    ]);
+  });
+
+  it("ignores fields upstream now agrees with", () => {
+    const edits: Record<string, EntityEdit> = {
+      metroid: { fields: { summary: "New upstream" }, editedAt: 1, base: { summary: "Old" } },
+    };
+
+    expect(findEditConflicts(edits, lookup)).toEqual([]);
+  });
+});
+
+describe("mergeText", () => {
+  it("takes each side's changed lines", () => {
+    expect(mergeText("a\nb\nc", "A\nb\nc", "a\nb\nC")).toBe("A\nb\nC");
+    expect(mergeText("a", "a", "b")).toBe("b");
+  });
+
+  it("marks lines both sides changed", () => {
+    expect(mergeText("a", "mine", "theirs")).toBe("<<<<<<< mine\nmine\n=======\ntheirs\n>>>>>>> theirs");
+  });
+});
@@ -8,7 +8,7 @@ import {
   importEditsFromFile,
   exportedEditsSchema,
 } from "@/utils/editExport";
-import type { EntityEdit, ExportedEdits } from "@/stores/editsStore";
+import { useEditsStore, type EntityEdit, type ExportedEdits } from "@/stores/editsStore";
 
 describe("editExport", () => {
   describe("exportEditsToFile", () => {
@@ -134,6 +134,112 @@ describe("editExport", () => {
       expect(result.edits["entity-1"].fields.title).toBe("New Title");
     });
 
+    it("carries the edit history", async () => {
+      const data: ExportedEdits = {
+        version: 1,
+        exportedAt: "2024-01-15T10:30:00.000Z",
+        collectionId: "test-collection",
+        editCount: 1,
+        edits: { "entity-1": { fields: { title: "New" }, editedAt: 2000 } },
+        history: [
+          {
+            id: "op_1",
+            type: "set",
+            timestamp: 2000,
+            author: "local",
+            changes: [
+              {
+                entityId: "entity-1",
+                before: null,
+                after: { fields: { title: "New" }, editedAt: 2000 },
+              },
+            ],
+          },
+        ],
+      };
+
+      const result = await importEditsFromFile(createMockFile(JSON.stringify(data)));
+
+      expect(result.history).toEqual(data.history);
+    });
+
+    it("rejects history snapshots with non-primitive values", async () => {
+      const file = createMockFile(
+        JSON.stringify({
+          version: 1,
+          exportedAt: "2024-01-15T10:30:00.000Z",
+          collectionId: "test-collection",
+          editCount: 0,
+          edits: {},
+          history: [
+            {
+              id: "op_1",
+              type: "set",
+              timestamp: 2000,
+              author: "local",
+              changes: [
+                { entityId: "entity-1", before: null, after: { fields: { title: {} }, editedAt: 1 } },
+              ],
+            },
+          ],
+        })
+      );
+
+      await expect(importEditsFromFile(file)).rejects.toThrow("Invalid edits file format");
+    });
+
+    it("imports created and deleted entities from version 2", async () => {
+      const data: ExportedEdits = {
+        version: 2,
+        exportedAt: "2024-01-15T10:30:00.000Z",
+        collectionId: "test-collection",
+        editCount: 2,
+        edits: {
+          local_1: {
+            fields: { title: "New", images: [{ url: "https://example.com/a.jpg" }] },
+            editedAt: 1000,
+            created: { entityType: "game" },
+          },
+          "entity-1": { fields: {}, editedAt: 2000, deletedAt: 2000 },
+        },
+      };
+
+      const result = await importEditsFromFile(createMockFile(JSON.stringify(data)));
+
+      expect(result.edits).toEqual(data.edits);
+    });
+
+    it("still rejects structured values the edit form does not save", async () => {
+      const file = createMockFile(
+        JSON.stringify({
+          version: 2,
+          exportedAt: "2024-01-15T10:30:00.000Z",
+          collectionId: "test-collection",
+          editCount: 1,
+          edits: { "entity-1": { fields: { images: [{ alt: "x" }] }, editedAt: 1000 } },
+        })
+      );
+
+      await expect(importEditsFromFile(file)).rejects.toThrow("Invalid edits file format");
+    });
+
+    it("round-trips structured values saved by the edit form", async () => {
+      useEditsStore.setState({ edits: {}, history: [], future: [] });
+      useEditsStore.getState().setFields("entity-1", {
+        genres: ["Platformer", "Action"],
+        rating: { score: 4, max: 5, source: "Critics" },
+        detailUrls: [{ url: "https://example.com/game", label: "Wiki" }],
+        images: [{ url: "https://example.com/a.jpg", alt: "Box art" }],
+      });
+      const exported = useEditsStore.getState().exportEdits("test-collection");
+
+      const result = await importEditsFromFile(createMockFile(JSON.stringify(exported)));
+
+      expect(result.edits).toEqual(exported.edits);
+      expect(result.history).toEqual(exported.history);
+      expect(result.edits["entity-1"]?.fields.genres).toEqual(["Platformer", "Action"]);
+    });
+
     it("throws error for invalid JSON", async () => {
       const file = createMockFile("not valid json {");
 
@@ -221,7 +327,8 @@ describe("editExport", () => {
       // Edits are text overlays spread over the source card and rendered as a
       // React child. An object/array value would throw "Objects are not valid
       // as a React child" on every render and, because edits persist, brick the
-      // collection view. The import boundary must reject non-primitive values.
+      // collection view. The import boundary must reject shapes the edit form
+      // never saves.
       const objectData = {
         version: 1,
         exportedAt: "2024-01-15T10:30:00.000Z",
@@ -242,7 +349,7 @@ describe("editExport", () => {
       );
     });
 
-    it("rejects an array-valued edit field", async () => {
+    it("rejects an array of non-string values", async () => {
       const arrayData = {
         version: 1,
         exportedAt: "2024-01-15T10:30:00.000Z",
@@ -250,7 +357,7 @@ describe("editExport", () => {
         editCount: 1,
         edits: {
           "entity-1": {
-            fields: { summary: ["a", "b"] },
+            fields: { summary: [1, 2] },
             editedAt: 1000,
           },
         },
@@ -0,0 +1,111 @@
+/**
+ * Tests for edit field draft conversion and validation.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  deriveEditedDisplayFields,
+  parseEditDraft,
+  toEditDraft,
+  type EditFieldDef,
+} from "@/utils/editFields";
+import type { Entity } from "@/types/schema";
+
+const rating: EditFieldDef = { field: "rating", label: "Rating", kind: "rating" };
+const links: EditFieldDef = { field: "detailUrls", label: "Links", kind: "links" };
+
+describe("toEditDraft", () => {
+  it("coerces untrusted values to drafts of the right shape", () => {
+    expect(toEditDraft({ field: "year", label: "Year", kind: "number" }, 1991)).toBe("1991");
+    expect(toEditDraft({ field: "title", label: "Title", kind: "text" }, { a: 1 })).toBe("");
+    expect(toEditDraft({ field: "tags", label: "Tags", kind: "list" }, ["a", 2, null])).toEqual([
+      "a",
+      "2",
+    ]);
+    expect(toEditDraft({ field: "done", label: "Done", kind: "boolean" }, "yes")).toBe(false);
+  });
+
+  it("keeps unknown keys of ratings and links", () => {
+    expect(toEditDraft(rating, { score: 4, max: 5, count: 12 })).toEqual({
+      score: "4",
+      max: "5",
+      source: "",
+      rest: { count: 12 },
+    });
+    expect(toEditDraft(links, "https://example.com")).toEqual([
+      { url: "https://example.com", source: "", label: "", rest: {} },
+    ]);
+  });
+});
+
+describe("parseEditDraft", () => {
+  it("validates required, number, date and enum fields", () => {
+    expect(parseEditDraft({ field: "title", label: "Title", kind: "text", required: true }, " ")).toEqual({
+      error: "Title is required",
+    });
+    expect(parseEditDraft({ field: "year", label: "Year", kind: "number" }, "abc")).toEqual({
+      error: "Year must be a number",
+    });
+    expect(parseEditDraft({ field: "released", label: "Released", kind: "date" }, "1991-07")).toEqual({
+      value: "1991-07",
+    });
+    expect(
+      parseEditDraft({ field: "status", label: "Status", kind: "enum", enumValues: ["done"] }, "other")
+    ).toEqual({ error: "Status must be one of the listed values" });
+  });
+
+  it("stores cleared optional fields as null", () => {
+    expect(parseEditDraft({ field: "summary", label: "Summary", kind: "textarea" }, "")).toEqual({
+      value: null,
+    });
+    expect(parseEditDraft({ field: "tags", label: "Tags", kind: "list" }, [])).toEqual({ value: null });
+  });
+
+  it("keeps a bare score as a number and bounds it by the maximum", () => {
+    expect(parseEditDraft(rating, { score: "4", max: "", source: "", rest: {} })).toEqual({ value: 4 });
+    expect(parseEditDraft(rating, { score: "8", max: "10", source: "IGN", rest: {} })).toEqual({
+      value: { score: 8, max: 10, source: "IGN" },
+    });
+    expect(parseEditDraft(rating, { score: "6", max: "", source: "", rest: {} })).toEqual({
+      error: "Rating must be between 0 and 5",
+    });
+  });
+
+  it("rejects links without a safe URL and drops blank rows", () => {
+    const blank = { url: "", source: "", label: "", rest: {} };
+
+    expect(
+      parseEditDraft(links, [{ url: "javascript:alert(1)", source: "", label: "", rest: {} }])
+    ).toEqual({ error: "Each Links entry needs a valid URL" });
+    expect(
+      parseEditDraft(links, [blank, { url: "https://example.com", source: "Wiki", label: "", rest: {} }])
+    ).toEqual({ value: [{ url: "https://example.com", source: "Wiki" }] });
+  });
+});
+
+describe("deriveEditedDisplayFields", () => {
+  it("normalises ratings and resolves edited references", () => {
+    const platform = { id: "snes", title: "SNES" } as Entity;
+    const derived = deriveEditedDisplayFields(
+      { id: "g1", _resolved: { developer: { id: "d1" } } },
+      { rating: 4, platform: "snes" },
+      new Map([["platform", new Map([["snes", platform]])]])
+    );
+
+    expect(derived.rating).toEqual({ score: 4, max: 5 });
+    expect(derived._resolved).toEqual({ developer: { id: "d1" }, platform });
+  });
+
+  it("refreshes image URLs while keeping videos", () => {
+    const derived = deriveEditedDisplayFields(
+      {
+        images: [{ url: "https://example.com/old.jpg" }],
+        imageUrls: ["https://example.com/old.jpg", "https://youtube.com/watch?v=x"],
+      },
+      { images: [{ url: "https://example.com/new.jpg" }] }
+    );
+
+    expect(derived.imageUrls).toEqual(["https://example.com/new.jpg", "https://youtube.com/watch?v=x"]);
+    expect(derived.imageUrl).toBe("https://example.com/new.jpg");
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Tests for edit history display utilities.
+ */
+
+import { describe, it, expect } from "vitest";
+import { describeEditOperation, getChangedFields } from "@/utils/editHistory";
+import type { EditOperation } from "@/stores/editsStore";
+
+describe("getChangedFields", () => {
+  it("lists added, removed and modified fields", () => {
+    expect(
+      getChangedFields({
+        entityId: "a",
+        before: { fields: { title: "Old", year: 1991, summary: "Same" }, editedAt: 1 },
+        after: { fields: { title: "New", summary: "Same", genre: "RPG" }, editedAt: 2 },
+      })
+    ).toEqual(["genre", "title", "year"]);
+  });
+
+  it("lists every field of a reverted entity", () => {
+    expect(
+      getChangedFields({
+        entityId: "a",
+        before: { fields: { title: "Old" }, editedAt: 1 },
+        after: null,
+      })
+    ).toEqual(["title"]);
+  });
+});
+
+describe("describeEditOperation", () => {
+  const operation = (type: EditOperation["type"], count: number): EditOperation => ({
+    id: "op",
+    type,
+    timestamp: 0,
+    author: "local",
+    changes: Array.from({ length: count }, (_, i) => ({
+      entityId: String(i),
+      before: null,
+      after: null,
+    })),
+  });
+
+  it("summarises the kind of change and how many items it touched", () => {
+    expect(describeEditOperation(operation("set", 1))).toBe("Edited 1 item");
+    expect(describeEditOperation(operation("import", 3))).toBe("Imported 3 items");
+    expect(describeEditOperation(operation("revertAll", 12))).toBe("Reverted all (12 items)");
+  });
+});
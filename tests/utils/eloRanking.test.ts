@@ -0,0 +1,169 @@
+/**
+ * Tests for Elo ranking utilities.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_RATING,
+  addWin,
+  countComparisons,
+  expectedScore,
+  fitRatings,
+  getCardRating,
+  getRankingProgress,
+  getTargetComparisons,
+  isRankingSettled,
+  rankCardIds,
+  selectNextPair,
+  type CardRating,
+  type PairwiseWins,
+} from "@/utils/eloRanking";
+import { seededRandom } from "@/utils/shuffle";
+
+/**
+ * Answer pairs by a hidden preference until the ranking settles.
+ */
+function rankByPreference(preferred: string[], limit = 500): Record<string, CardRating> {
+  const random = seededRandom(42);
+  let wins: PairwiseWins = {};
+  let ratings: Record<string, CardRating> = {};
+  let previous: [string, string] | null = null;
+
+  for (let i = 0; i < limit && !isRankingSettled(preferred, ratings); i++) {
+    const pair = selectNextPair(preferred, ratings, { previous, random });
+    if (!pair) break;
+    const [a, b] = pair;
+    wins = preferred.indexOf(a) < preferred.indexOf(b) ? addWin(wins, a, b) : addWin(wins, b, a);
+    ratings = fitRatings(preferred, wins, ratings);
+    previous = pair;
+  }
+  return ratings;
+}
+
+describe("eloRanking", () => {
+  it("defaults cards that were never compared", () => {
+    expect(getCardRating({}, "a")).toEqual({ rating: DEFAULT_RATING, comparisons: 0 });
+    expect(getCardRating({}, "__proto__")).toEqual({ rating: DEFAULT_RATING, comparisons: 0 });
+  });
+
+  it("expects even odds for equal ratings", () => {
+    expect(expectedScore(1500, 1500)).toBe(0.5);
+    expect(expectedScore(1900, 1500)).toBeCloseTo(0.909, 3);
+    expect(expectedScore(1500, 1900)).toBeCloseTo(0.091, 3);
+  });
+
+  it("records wins without touching the input", () => {
+    const wins = addWin({}, "a", "b");
+    const more = addWin(addWin(wins, "a", "b"), "b", "a");
+
+    expect(wins).toEqual({ a: { b: 1 } });
+    expect(more).toEqual({ a: { b: 2 }, b: { a: 1 } });
+    expect(countComparisons(more)).toBe(3);
+  });
+
+  it("keeps card IDs like __proto__ as plain keys", () => {
+    const wins = addWin(addWin({}, "__proto__", "a"), "a", "__proto__");
+    expect(Object.hasOwn(wins, "__proto__")).toBe(true);
+    expect(countComparisons(wins)).toBe(2);
+    expect(Object.keys(fitRatings(["__proto__", "a"], wins))).toHaveLength(2);
+  });
+
+  describe("fitRatings", () => {
+    it("fits symmetric ratings around the average", () => {
+      const ratings = fitRatings(["a", "b"], { a: { b: 1 } });
+      const a = getCardRating(ratings, "a");
+      const b = getCardRating(ratings, "b");
+
+      expect(a.comparisons).toBe(1);
+      expect(a.rating).toBeGreaterThan(DEFAULT_RATING);
+      expect(a.rating - DEFAULT_RATING).toBeCloseTo(DEFAULT_RATING - b.rating, 1);
+    });
+
+    it("rates transitively through shared opponents", () => {
+      // a beat b and b beat c: a ranks above c without meeting it
+      const ratings = fitRatings(["a", "b", "c"], { a: { b: 1 }, b: { c: 1 } });
+      expect(rankCardIds(["c", "b", "a"], ratings)).toEqual(["a", "b", "c"]);
+    });
+
+    it("ignores wins involving cards that are not being ranked", () => {
+      const ratings = fitRatings(["a", "b"], { a: { b: 1, gone: 3 }, gone: { b: 2 } });
+      expect(Object.keys(ratings).sort()).toEqual(["a", "b"]);
+      expect(getCardRating(ratings, "a").comparisons).toBe(1);
+    });
+
+    it("reaches the same fit from previous ratings", () => {
+      const wins: PairwiseWins = { a: { b: 2, c: 1 }, b: { c: 1 }, c: { a: 1 } };
+      const cold = fitRatings(["a", "b", "c"], wins);
+      const warm = fitRatings(["a", "b", "c"], wins, fitRatings(["a", "b", "c"], { a: { b: 1 } }));
+      expect(getCardRating(warm, "a").rating).toBeCloseTo(getCardRating(cold, "a").rating, 0);
+    });
+  });
+
+  it("targets n·log2(n) comparisons", () => {
+    expect(getTargetComparisons(1)).toBe(0);
+    expect(getTargetComparisons(2)).toBe(2);
+    expect(getTargetComparisons(8)).toBe(24);
+  });
+
+  describe("selectNextPair", () => {
+    it("returns null with fewer than two cards", () => {
+      expect(selectNextPair(["a"], {})).toBeNull();
+    });
+
+    it("prefers little-compared cards with close ratings", () => {
+      const ratings: Record<string, CardRating> = {
+        a: { rating: 1700, comparisons: 10 },
+        b: { rating: 1690, comparisons: 10 },
+        c: { rating: 1510, comparisons: 1 },
+        d: { rating: 1500, comparisons: 1 },
+      };
+      const pair = selectNextPair(["a", "b", "c", "d"], ratings, { random: seededRandom(1) });
+      expect(pair && [...pair].sort()).toEqual(["c", "d"]);
+    });
+
+    it("avoids repeating the previous pair when another exists", () => {
+      const ratings: Record<string, CardRating> = {
+        a: { rating: 1500, comparisons: 0 },
+        b: { rating: 1500, comparisons: 0 },
+        c: { rating: 1200, comparisons: 30 },
+      };
+      for (let seed = 0; seed < 10; seed++) {
+        const pair = selectNextPair(["a", "b", "c"], ratings, {
+          previous: ["b", "a"],
+          random: seededRandom(seed),
+        });
+        expect(pair && [...pair].sort()).not.toEqual(["a", "b"]);
+      }
+    });
+
+    it("repeats the previous pair when it is the only one", () => {
+      const pair = selectNextPair(["a", "b"], {}, { previous: ["a", "b"] });
+      expect(pair && [...pair].sort()).toEqual(["a", "b"]);
+    });
+  });
+
+  describe("ranking", () => {
+    it("orders compared cards by rating and leaves out the rest", () => {
+      const ratings = fitRatings(["a", "b", "c"], { b: { a: 1 } });
+      expect(rankCardIds(["a", "b", "c"], ratings)).toEqual(["b", "a"]);
+    });
+
+    it("converges to the hidden preference order", () => {
+      const preferred = ["e", "b", "h", "a", "f", "c", "g", "d"];
+      const ratings = rankByPreference(preferred);
+
+      expect(isRankingSettled(preferred, ratings)).toBe(true);
+      expect(getRankingProgress(preferred, ratings)).toBe(1);
+      expect(rankCardIds([...preferred].sort(), ratings)).toEqual(preferred);
+    });
+
+    it("reports partial progress before settling", () => {
+      const ids = ["a", "b", "c", "d"];
+      expect(getRankingProgress(ids, {})).toBe(0);
+
+      const ratings = fitRatings(ids, { a: { b: 1 } });
+      expect(isRankingSettled(ids, ratings)).toBe(false);
+      expect(getRankingProgress(ids, ratings)).toBeCloseTo(1 / 8);
+    });
+  });
+});
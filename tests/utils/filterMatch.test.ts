@@ -11,6 +11,9 @@ import { describe, it, expect } from "vitest";
 import {
   FILTER_FIELD_DEFS,
   cardMatchesFilter,
+  collectFilterOptions,
+  formatFilterRange,
+  getFilterValues,
 } from "@/utils/filterMatch";
 
 function defFor(label: string) {
@@ -70,3 +73,124 @@ describe("cardMatchesFilter", () => {
     ).toBe(false);
   });
 });
+
+describe("getFilterValues", () => {
+  it("reads a resolved reference by the related entity's title", () => {
+    const card = {
+      id: "a",
+      platform: "snes",
+      _resolved: { platform: { id: "snes", title: "Super Nintendo" } },
+    };
+
+    expect(getFilterValues(card, "platform")).toEqual(["Super Nintendo"]);
+    expect(
+      cardMatchesFilter(card, { field: "platform", values: ["Super Nintendo"] })
+    ).toBe(true);
+  });
+
+  it("stringifies booleans so false is still a value", () => {
+    expect(getFilterValues({ id: "a", completed: false }, "completed")).toEqual([
+      "false",
+    ]);
+  });
+});
+
+describe("collectFilterOptions", () => {
+  it("orders enum options by their declared order", () => {
+    const cards = [{ status: "done" }, { status: "todo" }, { status: "doing" }];
+
+    const [status] = collectFilterOptions(cards, [
+      {
+        field: "status",
+        label: "Status",
+        kind: "enum",
+        enumValues: ["todo", "doing", "done"],
+      },
+    ]);
+
+    expect(status?.options).toEqual(["todo", "doing", "done"]);
+  });
+
+  it("sorts numeric options newest first", () => {
+    const cards = [{ year: 1990 }, { year: 2001 }, { year: 1995 }];
+
+    const [year] = collectFilterOptions(cards, [
+      { field: "year", label: "Year", kind: "value" },
+    ]);
+
+    expect(year?.options).toEqual(["2001", "1995", "1990"]);
+  });
+
+  it("drops empty fields and identifier-like scalar fields", () => {
+    const cards = Array.from({ length: 30 }, (_, i) => ({
+      code: `c${String(i)}`,
+      genres: ["RPG"],
+    }));
+
+    const fields = collectFilterOptions(cards, [
+      { field: "code", label: "Code", kind: "value" },
+      { field: "missing", label: "Missing", kind: "value" },
+      { field: "genres", label: "Genre", kind: "array" },
+    ]);
+
+    expect(fields.map((f) => f.field)).toEqual(["genres"]);
+  });
+});
+
+describe("range filters", () => {
+  it("matches numbers inside an inclusive range", () => {
+    const filter = { field: "year", values: [], range: { type: "number" as const, min: 1985, max: 1992 } };
+
+    expect(cardMatchesFilter({ year: 1985 }, filter)).toBe(true);
+    expect(cardMatchesFilter({ year: 1992 }, filter)).toBe(true);
+    expect(cardMatchesFilter({ year: 1993 }, filter)).toBe(false);
+    expect(cardMatchesFilter({}, filter)).toBe(false);
+  });
+
+  it("compares structured ratings on their score with an open upper bound", () => {
+    const filter = { field: "rating", values: [], range: { type: "number" as const, min: 4 } };
+
+    expect(cardMatchesFilter({ rating: { score: 4.5, max: 5 } }, filter)).toBe(true);
+    expect(cardMatchesFilter({ rating: 3 }, filter)).toBe(false);
+  });
+
+  it("matches dates against timestamp bounds", () => {
+    const filter = {
+      field: "released",
+      values: [],
+      range: { type: "date" as const, max: Date.UTC(1990, 0, 1) },
+    };
+
+    expect(cardMatchesFilter({ released: "1989-12-31" }, filter)).toBe(true);
+    expect(cardMatchesFilter({ released: "1990-06-01" }, filter)).toBe(false);
+  });
+
+  it("takes range bounds and histograms from the supplied stats", () => {
+    const [year] = collectFilterOptions(
+      [{ year: 1990 }, { year: 2000 }],
+      [{ field: "year", label: "Year", kind: "number" }],
+      new Map([["year", { min: 1990, max: 2000, avg: 1995, count: 2, histogram: [1, 1] }]])
+    );
+
+    expect(year).toMatchObject({
+      options: [],
+      range: { type: "number", min: 1990, max: 2000, histogram: [1, 1] },
+    });
+  });
+
+  it("drops range fields where every card shares one value", () => {
+    const fields = collectFilterOptions(
+      [{ year: 1990 }],
+      [{ field: "year", label: "Year", kind: "number" }],
+      new Map([["year", { min: 1990, max: 1990, avg: 1990, count: 1 }]])
+    );
+
+    expect(fields).toEqual([]);
+  });
+
+  it("formats ranges for chips", () => {
+    expect(formatFilterRange({ type: "number", min: 1985, max: 1992 })).toBe("1985–1992");
+    expect(formatFilterRange({ type: "number", min: 4 })).toBe("≥ 4");
+    expect(formatFilterRange({ type: "date", max: Date.UTC(1990, 5, 1) })).toBe("≤ 1990-06-01");
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Note markdown parser tests.
+ */
+
+import { describe, it, expect } from "vitest";
+import { parseNoteInline, parseNoteMarkdown } from "@/utils/noteMarkdown";
+
+describe("noteMarkdown", () => {
+  it("parses bold, italics, code and links", () => {
+    expect(parseNoteInline("**Mint** and *boxed*, `CIB` at [shop](https://example.com)")).toEqual([
+      { type: "strong", children: [{ type: "text", text: "Mint" }] },
+      { type: "text", text: " and " },
+      { type: "em", children: [{ type: "text", text: "boxed" }] },
+      { type: "text", text: ", " },
+      { type: "code", text: "CIB" },
+      { type: "text", text: " at " },
+      { type: "link", href: "https://example.com", children: [{ type: "text", text: "shop" }] },
+    ]);
+  });
+
+  it("keeps the text of links with unsafe URLs", () => {
+    expect(parseNoteInline("[click](javascript:alert(1))")).toEqual([
+      { type: "text", text: "click" },
+      { type: "text", text: ")" },
+    ]);
+  });
+
+  it("leaves markers without a closing pair as text", () => {
+    expect(parseNoteInline("5 * 3 = 15")).toEqual([{ type: "text", text: "5 * 3 = 15" }]);
+  });
+
+  it("splits headings, lists and paragraphs", () => {
+    const blocks = parseNoteMarkdown("## Condition\n- Box worn\n- Cartridge fine\n\nFirst line\nSecond line");
+
+    expect(blocks.map((block) => block.type)).toEqual(["heading", "list", "paragraph"]);
+    expect(blocks[0]).toEqual({
+      type: "heading",
+      level: 2,
+      children: [{ type: "text", text: "Condition" }],
+    });
+    expect(blocks[1]).toEqual({
+      type: "list",
+      items: [[{ type: "text", text: "Box worn" }], [{ type: "text", text: "Cartridge fine" }]],
+    });
+    expect(blocks[2]).toEqual({
+      type: "paragraph",
+      lines: [[{ type: "text", text: "First line" }], [{ type: "text", text: "Second line" }]],
+    });
+  });
+
+  it("returns no blocks for an empty note", () => {
+    expect(parseNoteMarkdown("  \n \n")).toEqual([]);
+  });
+});
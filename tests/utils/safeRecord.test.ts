@@ -0,0 +1,32 @@
+/**
+ * Tests for records keyed by untrusted data.
+ */
+
+import { describe, expect, it } from "vitest";
+import { createSafeRecord, indexById } from "@/utils/safeRecord";
+
+describe("createSafeRecord", () => {
+  it("keeps prototype keys as own properties", () => {
+    const record = createSafeRecord([
+      ["__proto__", 1],
+      ["constructor", 2],
+    ]);
+
+    expect(Object.keys(record)).toEqual(["__proto__", "constructor"]);
+    expect(record.__proto__).toBe(1);
+    expect(Object.getPrototypeOf(record)).toBeNull();
+  });
+
+  it("lets later entries win", () => {
+    expect(createSafeRecord([["a", 1], ["a", 2]])).toEqual({ a: 2 });
+  });
+});
+
+describe("indexById", () => {
+  it("keys items by ID", () => {
+    const cards = indexById([{ id: "__proto__", title: "Odd" }, { id: "smb", title: "SMB" }]);
+
+    expect(cards.__proto__).toEqual({ id: "__proto__", title: "Odd" });
+    expect(cards.smb?.title).toBe("SMB");
+  });
+});
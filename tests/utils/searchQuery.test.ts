@@ -0,0 +1,215 @@
+/**
+ * Tests for the search-bar query language.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  parseSearchQuery,
+  validateSearchQuery,
+  matchesSearchQuery,
+  filterCardsByQuery,
+  MAX_QUERY_LENGTH,
+} from "@/utils/searchQuery";
+import { SearchQueryError } from "@/errors";
+
+const options = { searchFields: ["title", "summary"] };
+
+const cards = [
+  {
+    id: "smb",
+    title: "Super Mario Bros.",
+    summary: "Platform classic",
+    year: 1985,
+    released: "1985-09-13",
+    genres: ["Platformer"],
+    rating: { score: 4.5, max: 5 },
+    video: "https://example.com/smb",
+    platform: "nes",
+    _resolved: {
+      platform: { id: "nes", title: "Nintendo Entertainment System", shortTitle: "NES", manufacturer: "nintendo" },
+    },
+  },
+  {
+    id: "sonic",
+    title: "Sonic the Hedgehog",
+    summary: "Fast platformer",
+    year: 1991,
+    released: "1991-06-23",
+    genres: ["Platformer", "Action"],
+    rating: 4,
+    platform: "md",
+    _resolved: {
+      platform: { id: "md", title: "Mega Drive", shortTitle: "MD", manufacturer: "sega" },
+    },
+  },
+  {
+    id: "ff7",
+    title: "Final Fantasy VII",
+    summary: "Role-playing epic",
+    year: 1997,
+    released: "1997-01-31",
+    genres: ["RPG"],
+    rating: 2.5,
+    platform: "ps1",
+    _resolved: {
+      platform: { id: "ps1", title: "PlayStation", shortTitle: "PS1", manufacturer: "sony" },
+    },
+  },
+];
+
+function ids(query: string): string[] {
+  return filterCardsByQuery(cards, query, options).map((card) => card.id);
+}
+
+describe("searchQuery", () => {
+  describe("free terms", () => {
+    it("matches terms and phrases across the search fields", () => {
+      expect(ids("mario")).toEqual(["smb"]);
+      expect(ids('"the hedgehog"')).toEqual(["sonic"]);
+      expect(ids("platform")).toEqual(["smb", "sonic"]);
+    });
+
+    it("keeps the boolean operators, including lowercase and the - prefix", () => {
+      expect(ids("mario OR sonic")).toEqual(["smb", "sonic"]);
+      expect(ids("platform and fast")).toEqual(["sonic"]);
+      expect(ids("platform -fast")).toEqual(["smb"]);
+      expect(ids("NOT platform")).toEqual(["ff7"]);
+    });
+
+    it("returns every card for an empty query", () => {
+      expect(ids("   ")).toEqual(["smb", "sonic", "ff7"]);
+      expect(parseSearchQuery("")).toBeNull();
+    });
+  });
+
+  describe("field qualifiers", () => {
+    it("matches a field by substring, including related entities", () => {
+      expect(ids("platform:NES")).toEqual(["smb"]);
+      expect(ids("platform:station")).toEqual(["ff7"]);
+      expect(ids("genres:action")).toEqual(["sonic"]);
+    });
+
+    it("follows relationship paths", () => {
+      expect(ids("platform.manufacturer:Sega")).toEqual(["sonic"]);
+    });
+
+    it("supports exact and excluded values", () => {
+      expect(ids("genres:=rpg")).toEqual(["ff7"]);
+      expect(ids("genres:!=Platformer")).toEqual(["ff7"]);
+    });
+
+    it("accepts quoted values", () => {
+      expect(ids('platform:"Mega Drive"')).toEqual(["sonic"]);
+    });
+  });
+
+  describe("comparisons", () => {
+    it("compares numbers and structured rating scores", () => {
+      expect(ids("year:>=1991")).toEqual(["sonic", "ff7"]);
+      expect(ids("year:<1991")).toEqual(["smb"]);
+      expect(ids("rating:<3")).toEqual(["ff7"]);
+      expect(ids("rating:>4")).toEqual(["smb"]);
+    });
+
+    it("compares dates", () => {
+      expect(ids("released:<1990-01-01")).toEqual(["smb"]);
+      expect(ids("released:>=1991-06-23")).toEqual(["sonic", "ff7"]);
+    });
+  });
+
+  describe("existence and grouping", () => {
+    it("matches cards that have a field", () => {
+      expect(ids("has:video")).toEqual(["smb"]);
+      expect(ids("-has:video")).toEqual(["sonic", "ff7"]);
+    });
+
+    it("matches personal tags with tag: and has:tag", () => {
+      const tagged = [
+        { ...cards[0], _tags: ["Favourite", "Boxed"] },
+        cards[1],
+        { ...cards[2], _tags: ["to play"] },
+      ];
+      const tagIds = (query: string) =>
+        filterCardsByQuery(tagged, query, options).map((card) => card.id);
+
+      expect(tagIds("tag:favourite")).toEqual(["smb"]);
+      expect(tagIds('tag:"to play"')).toEqual(["ff7"]);
+      expect(tagIds("has:tag")).toEqual(["smb", "ff7"]);
+    });
+
+    it("matches tier list rows with tier:= and has:tier", () => {
+      const tiered = [{ ...cards[0], _tier: "S" }, { ...cards[1], _tier: "A" }, cards[2]];
+      const tierIds = (query: string) =>
+        filterCardsByQuery(tiered, query, options).map((card) => card.id);
+
+      expect(tierIds("tier:=S")).toEqual(["smb"]);
+      expect(tierIds("has:tier")).toEqual(["smb", "sonic"]);
+      expect(tierIds("-has:tier")).toEqual(["ff7"]);
+    });
+
+    it("groups with parentheses", () => {
+      expect(ids("(platform:NES OR platform:PS1) year:>1990")).toEqual(["ff7"]);
+      expect(ids("-(mario OR sonic)")).toEqual(["ff7"]);
+    });
+  });
+
+  describe("errors", () => {
+    it.each([
+      ["year:>=", 7, /Missing value/],
+      ["year:>=abc", 7, /not a number or date/],
+      ['"final fantasy', 0, /Unterminated/],
+      ["(mario OR sonic", 0, /Missing closing parenthesis/],
+      ["mario)", 5, /Unexpected "\)"/],
+      ["mario OR", 6, /after OR/],
+      ["has:", 4, /Missing field name/],
+      ["()", 0, /Empty parentheses/],
+    ])("reports %s at position %i", (query, position, message) => {
+      const error = validateSearchQuery(query);
+
+      expect(error).toBeInstanceOf(SearchQueryError);
+      expect(error?.position).toBe(position);
+      expect(error?.message).toMatch(message);
+    });
+
+    it("rejects over-long and deeply nested queries", () => {
+      expect(validateSearchQuery("a".repeat(MAX_QUERY_LENGTH + 1))).toBeInstanceOf(
+        SearchQueryError
+      );
+      expect(validateSearchQuery("(".repeat(20) + "a" + ")".repeat(20))?.message).toMatch(
+        /nested too deeply/
+      );
+    });
+
+    it("leaves cards unfiltered when the query is invalid", () => {
+      expect(ids("year:>=abc")).toEqual(["smb", "sonic", "ff7"]);
+    });
+  });
+
+  describe("colons in titles", () => {
+    const titled = [
+      ...cards,
+      { id: "sotn", title: "Castlevania: Symphony of the Night", year: 1997 },
+      { id: "oot", title: "Zelda:Ocarina of Time", year: 1998 },
+    ];
+    const titledIds = (query: string) =>
+      filterCardsByQuery(titled, query, options).map((card) => card.id);
+
+    it("searches a qualifier without a value as free text", () => {
+      expect(validateSearchQuery("Castlevania: Symphony")).toBeNull();
+      expect(titledIds("Castlevania: Symphony")).toEqual(["sotn"]);
+    });
+
+    it("searches a field term on an unknown field as free text", () => {
+      expect(titledIds("Zelda:Ocarina")).toEqual(["oot"]);
+      expect(titledIds("year:1998")).toEqual(["oot"]);
+    });
+  });
+
+  it("never reads prototype members through field paths", () => {
+    const node = parseSearchQuery("constructor.name:Object");
+    expect(node).not.toBeNull();
+    if (node) {
+      expect(matchesSearchQuery({ title: "x" }, node, options)).toBe(false);
+    }
+  });
+});
@@ -9,6 +9,7 @@ import {
   _testExports,
 } from "@/utils/settingsExport";
 import { useSettingsStore } from "@/stores/settingsStore";
+import { useAnnotationsStore } from "@/stores/annotationsStore";
 import { SETTINGS_EXPORT_VERSION } from "@/schemas/settingsExport.schema";
 
 describe("settingsExport", () => {
@@ -292,6 +293,251 @@ describe("settingsExport", () => {
     });
   });
 
+  describe("saved views", () => {
+    const SOURCE = "https://example.com/collections/games";
+
+    const createMockFile = (content: string): File => {
+      const file = new File([content], "test.json", {
+        type: "application/json",
+      });
+      file.text = vi.fn().mockResolvedValue(content);
+      return file;
+    };
+
+    function makeView(id: string, name: string) {
+      return {
+        id,
+        name,
+        searchQuery: "genres:RPG",
+        activeFilters: [{ field: "platform", values: ["snes"] }],
+        groupByField: "platform",
+        fieldMapping: { sortField: "year", sortDirection: "desc" as const },
+        layout: "list" as const,
+        createdAt: 1700000000000,
+      };
+    }
+
+    beforeEach(() => {
+      useSettingsStore.getState().resetToDefaults();
+    });
+
+    it("round-trips saved views through export and replace import", async () => {
+      useSettingsStore.getState().setSavedViews({ [SOURCE]: [makeView("view_1", "RPGs")] });
+      const exported = {
+        version: SETTINGS_EXPORT_VERSION,
+        exportedAt: "2025-12-29T10:30:00.000Z",
+        settings: _testExports.extractExportableSettings(useSettingsStore.getState()),
+      };
+      useSettingsStore.getState().resetToDefaults();
+
+      const result = await importSettingsFromFile(
+        createMockFile(JSON.stringify(exported)),
+        "replace"
+      );
+
+      expect(useSettingsStore.getState().savedViews).toEqual({
+        [SOURCE]: [makeView("view_1", "RPGs")],
+      });
+      expect(result.settingsCount).toBeGreaterThan(0);
+    });
+
+    it("adds only new views in merge mode", async () => {
+      useSettingsStore.getState().setSavedViews({ [SOURCE]: [makeView("view_1", "Mine")] });
+      const importData = {
+        version: SETTINGS_EXPORT_VERSION,
+        exportedAt: "2025-12-29T10:30:00.000Z",
+        settings: {
+          savedViews: {
+            [SOURCE]: [makeView("view_1", "Theirs"), makeView("view_2", "Shooters")],
+          },
+        },
+      };
+
+      await importSettingsFromFile(createMockFile(JSON.stringify(importData)), "merge");
+
+      const views = useSettingsStore.getState().savedViews[SOURCE];
+      expect(views?.map((view) => view.name)).toEqual(["Mine", "Shooters"]);
+    });
+
+    it("rejects saved views over the import limits", async () => {
+      const importData = {
+        version: SETTINGS_EXPORT_VERSION,
+        exportedAt: "2025-12-29T10:30:00.000Z",
+        settings: {
+          savedViews: {
+            [SOURCE]: Array.from({ length: 21 }, (_, i) =>
+              makeView(`view_${String(i)}`, `View ${String(i)}`)
+            ),
+          },
+        },
+      };
+
+      await expect(
+        importSettingsFromFile(createMockFile(JSON.stringify(importData)), "merge")
+      ).rejects.toThrow(/Invalid settings file/);
+    });
+
+    it("counts each saved view", () => {
+      expect(
+        _testExports.countSettings({
+          savedViews: { a: [makeView("1", "One"), makeView("2", "Two")], b: [makeView("3", "Three")] },
+        })
+      ).toBe(3);
+    });
+  });
+
+  describe("custom orders", () => {
+    const SOURCE = "https://example.com/collections/games";
+    const OTHER_SOURCE = "https://example.com/collections/books";
+
+    const createMockFile = (content: string): File => {
+      const file = new File([content], "test.json", {
+        type: "application/json",
+      });
+      file.text = vi.fn().mockResolvedValue(content);
+      return file;
+    };
+
+    function makeImport(customOrders: Record<string, string[]>) {
+      return JSON.stringify({
+        version: SETTINGS_EXPORT_VERSION,
+        exportedAt: "2025-12-29T10:30:00.000Z",
+        settings: { customOrders },
+      });
+    }
+
+    beforeEach(() => {
+      useSettingsStore.getState().resetToDefaults();
+    });
+
+    it("exports custom orders", () => {
+      useSettingsStore.getState().setCustomOrder(SOURCE, ["b", "a"]);
+
+      expect(
+        _testExports.extractExportableSettings(useSettingsStore.getState()).customOrders
+      ).toEqual({ [SOURCE]: ["b", "a"] });
+    });
+
+    it("replaces the imported sources' orders in merge mode", async () => {
+      useSettingsStore.getState().setCustomOrder(SOURCE, ["a", "b"]);
+      useSettingsStore.getState().setCustomOrder(OTHER_SOURCE, ["x"]);
+
+      await importSettingsFromFile(createMockFile(makeImport({ [SOURCE]: ["b", "a"] })), "merge");
+
+      expect(useSettingsStore.getState().customOrders).toEqual({
+        [OTHER_SOURCE]: ["x"],
+        [SOURCE]: ["b", "a"],
+      });
+    });
+
+    it("rejects orders with oversized IDs", async () => {
+      await expect(
+        importSettingsFromFile(createMockFile(makeImport({ [SOURCE]: ["x".repeat(201)] })), "merge")
+      ).rejects.toThrow(/Invalid settings file/);
+    });
+  });
+
+  describe("annotations", () => {
+    const SOURCE = "https://example.com/collections/games";
+
+    const createMockFile = (content: string): File => {
+      const file = new File([content], "test.json", {
+        type: "application/json",
+      });
+      file.text = vi.fn().mockResolvedValue(content);
+      return file;
+    };
+
+    function makeImport(annotations?: unknown) {
+      return JSON.stringify({
+        version: SETTINGS_EXPORT_VERSION,
+        exportedAt: "2025-12-29T10:30:00.000Z",
+        settings: {},
+        annotations,
+      });
+    }
+
+    beforeEach(() => {
+      useSettingsStore.getState().resetToDefaults();
+      useAnnotationsStore.setState({ annotations: {} });
+    });
+
+    it("imports annotations in replace mode and counts annotated cards", async () => {
+      useAnnotationsStore.getState().addCardTag("other", "x", "old");
+
+      const result = await importSettingsFromFile(
+        createMockFile(
+          makeImport({
+            [SOURCE]: {
+              tags: [{ name: "favourite", colour: "#ff0000" }],
+              cards: { a: { tags: ["favourite"], note: "**Mint**", updatedAt: 1 } },
+            },
+          })
+        ),
+        "replace"
+      );
+
+      expect(result.annotationsCount).toBe(1);
+      expect(Object.keys(useAnnotationsStore.getState().annotations)).toEqual([SOURCE]);
+      expect(useAnnotationsStore.getState().annotations[SOURCE]?.cards.a?.note).toBe("**Mint**");
+    });
+
+    it("leaves annotations untouched when the file has none", async () => {
+      useAnnotationsStore.getState().addCardTag(SOURCE, "a", "favourite");
+
+      const result = await importSettingsFromFile(createMockFile(makeImport()), "replace");
+
+      expect(result.annotationsCount).toBe(0);
+      expect(useAnnotationsStore.getState().annotations[SOURCE]?.cards.a?.tags).toEqual([
+        "favourite",
+      ]);
+    });
+
+    it("merges tags and keeps the newer card annotation", () => {
+      const merged = _testExports.mergeAnnotations(
+        {
+          [SOURCE]: {
+            tags: [{ name: "Favourite", colour: "#111111" }],
+            cards: {
+              a: { tags: ["Favourite"], updatedAt: 5 },
+              b: { tags: ["Favourite"], updatedAt: 5 },
+            },
+          },
+        },
+        {
+          [SOURCE]: {
+            tags: [
+              { name: "favourite", colour: "#222222" },
+              { name: "boxed", colour: "#333333" },
+            ],
+            cards: {
+              a: { tags: ["boxed"], updatedAt: 9 },
+              b: { tags: [], note: "Older", updatedAt: 1 },
+            },
+          },
+        }
+      );
+
+      expect(merged[SOURCE]?.tags).toEqual([
+        { name: "Favourite", colour: "#111111" },
+        { name: "boxed", colour: "#333333" },
+      ]);
+      expect(merged[SOURCE]?.cards.a?.tags).toEqual(["boxed"]);
+      expect(merged[SOURCE]?.cards.b?.tags).toEqual(["Favourite"]);
+    });
+
+    it("rejects tags with non-hex colours", async () => {
+      await expect(
+        importSettingsFromFile(
+          createMockFile(
+            makeImport({ [SOURCE]: { tags: [{ name: "x", colour: "url(x)" }], cards: {} } })
+          ),
+          "merge"
+        )
+      ).rejects.toThrow(/Invalid settings file/);
+    });
+  });
+
   describe("_testExports.migrateSettings", () => {
     const { migrateSettings } = _testExports;
 
@@ -0,0 +1,129 @@
+/**
+ * Tests for tier list utilities.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  MAX_TIER_ROWS,
+  TIER_LIST_PARAM,
+  buildTierListUrl,
+  createDefaultTierRows,
+  decodeTierList,
+  encodeTierList,
+  getCardTiers,
+  getTierLabel,
+  parseTierListParams,
+  placeCard,
+  type TierRow,
+} from "@/utils/tierList";
+
+const SOURCE = "https://example.com/collections/games";
+
+function labelsAndIds(rows: TierRow[]) {
+  return rows.map((row) => `${row.label}:${row.cardIds.join(",")}`);
+}
+
+/**
+ * Base64url-encode a raw payload, as encodeTierList does.
+ */
+function rawPayload(value: unknown): string {
+  return btoa(JSON.stringify(value)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+describe("tierList", () => {
+  it("starts with empty S to D rows", () => {
+    const rows = createDefaultTierRows();
+    expect(rows.map((row) => row.label)).toEqual(["S", "A", "B", "C", "D"]);
+    expect(rows.every((row) => row.cardIds.length === 0)).toBe(true);
+    expect(createDefaultTierRows()).not.toBe(rows);
+  });
+
+  it("labels blank rows by position", () => {
+    expect(getTierLabel({ label: "  Top ", colour: "#fff", cardIds: [] }, 0)).toBe("Top");
+    expect(getTierLabel({ label: " ", colour: "#fff", cardIds: [] }, 2)).toBe("Tier 3");
+  });
+
+  describe("placeCard", () => {
+    it("moves a card between rows without touching the input", () => {
+      const rows = placeCard(placeCard(createDefaultTierRows(), "a", 0), "b", 0);
+      const moved = placeCard(rows, "a", 2);
+
+      expect(labelsAndIds(rows).slice(0, 3)).toEqual(["S:a,b", "A:", "B:"]);
+      expect(labelsAndIds(moved).slice(0, 3)).toEqual(["S:b", "A:", "B:a"]);
+      expect(moved[1]).toBe(rows[1]);
+    });
+
+    it("inserts at a position and reorders within a row", () => {
+      let rows = createDefaultTierRows();
+      for (const id of ["a", "b", "c"]) rows = placeCard(rows, id, 0);
+
+      expect(placeCard(rows, "c", 0, 0)[0]?.cardIds).toEqual(["c", "a", "b"]);
+      expect(placeCard(rows, "a", 0, 2)[0]?.cardIds).toEqual(["b", "c", "a"]);
+      expect(placeCard(rows, "a", 0, 99)[0]?.cardIds).toEqual(["b", "c", "a"]);
+    });
+
+    it("unplaces a card with a null row", () => {
+      const rows = placeCard(placeCard(createDefaultTierRows(), "a", 1), "a", null);
+      expect(rows.every((row) => row.cardIds.length === 0)).toBe(true);
+    });
+  });
+
+  it("maps cards to their tier label", () => {
+    const rows = placeCard(placeCard(createDefaultTierRows(), "a", 0), "b", 4);
+    const tiers = getCardTiers(rows);
+
+    expect(Object.fromEntries(tiers)).toEqual({ a: "S", b: "D" });
+  });
+
+  describe("share payload", () => {
+    it("round-trips rows, including non-ASCII labels", () => {
+      const rows: TierRow[] = [
+        { label: "Göd tier ★", colour: "#ff7f7f", cardIds: ["tetris", "__proto__"] },
+        { label: "", colour: "#7fbfff", cardIds: [] },
+      ];
+      const payload = encodeTierList(rows);
+
+      expect(payload).toMatch(/^[A-Za-z0-9_-]+$/);
+      expect(decodeTierList(payload)).toEqual(rows);
+    });
+
+    it("rejects malformed payloads", () => {
+      const row = ["S", "ff7f7f", ["a"]];
+      expect(decodeTierList("")).toBeNull();
+      expect(decodeTierList("not base64!")).toBeNull();
+      expect(decodeTierList(rawPayload({ rows: [] }))).toBeNull();
+      expect(decodeTierList(rawPayload([2, [row]]))).toBeNull();
+      expect(decodeTierList(rawPayload([1, []]))).toBeNull();
+      expect(decodeTierList(rawPayload([1, [["S", "red", ["a"]]]]))).toBeNull();
+      expect(decodeTierList(rawPayload([1, [["S", "ff7f7f", [1]]]]))).toBeNull();
+      expect(decodeTierList(rawPayload([1, [["S".repeat(25), "ff7f7f", []]]]))).toBeNull();
+      expect(decodeTierList(rawPayload([1, Array.from({ length: MAX_TIER_ROWS + 1 }, () => row)]))).toBeNull();
+    });
+
+    it("keeps a card listed twice in its first row", () => {
+      const rows = decodeTierList(rawPayload([1, [["S", "ff7f7f", ["a", "b"]], ["A", "FFBF7F", ["a"]]]]));
+      expect(rows).toEqual([
+        { label: "S", colour: "#ff7f7f", cardIds: ["a", "b"] },
+        { label: "A", colour: "#ffbf7f", cardIds: [] },
+      ]);
+    });
+
+    it("builds and parses shareable links", () => {
+      const rows = placeCard(createDefaultTierRows(), "tetris", 0);
+      const url = buildTierListUrl(rows, SOURCE, "https://itemdeck.app");
+      expect(url).not.toBeNull();
+
+      const parsed = new URL(url ?? "");
+      expect(parsed.searchParams.get("collection")).toBe(SOURCE);
+      expect(parseTierListParams(parsed.searchParams)).toEqual(rows);
+      expect(parseTierListParams(new URLSearchParams())).toBeNull();
+      expect(parseTierListParams(new URLSearchParams({ [TIER_LIST_PARAM]: "x" }))).toBeNull();
+    });
+
+    it("refuses links too long to share", () => {
+      let rows = createDefaultTierRows();
+      for (let i = 0; i < 1000; i++) rows = placeCard(rows, `card-with-a-long-id-${String(i)}`, 0);
+      expect(buildTierListUrl(rows, SOURCE, "https://itemdeck.app")).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * Tests for the ZIP archive writer.
+ */
+
+import { describe, it, expect } from "vitest";
+import { crc32, createZip } from "@/utils/zipArchive";
+
+describe("crc32", () => {
+  it("matches the standard checksum", () => {
+    expect(crc32(new TextEncoder().encode("hello"))).toBe(0x3610a686);
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+});
+
+describe("createZip", () => {
+  it("writes a stored entry per file and a directory record", () => {
+    const archive = createZip([
+      { path: "games/metroid.json", content: "{}\n" },
+      { path: "PATCH.md", content: "# Changes" },
+    ]);
+    const view = new DataView(archive.buffer);
+    const text = new TextDecoder().decode(archive);
+
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(text).toContain("games/metroid.json");
+
+    // End of central directory record closes the archive
+    const end = archive.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+    const centralOffset = view.getUint32(end + 16, true);
+    expect(view.getUint32(centralOffset, true)).toBe(0x02014b50);
+  });
+});